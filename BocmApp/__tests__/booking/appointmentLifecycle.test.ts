@@ -0,0 +1,134 @@
+/**
+ * Tests for the appointment lifecycle: check-in, start of service and completion
+ *
+ * Transitions are validated again by the booking APIs; these tests cover what the calendar
+ * offers and the request contract
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import {
+  canCheckIn,
+  canComplete,
+  canStartService,
+  describeArrival,
+  getAppointmentStage,
+  getCheckInUrl,
+} from '@/lib/appointmentLifecycle';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('appointment lifecycle', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const booking = {
+    date: '2025-03-10T12:30:00Z',
+    endTime: '2025-03-10T13:00:00Z',
+    status: 'confirmed',
+  };
+
+  describe('getAppointmentStage', () => {
+    it('should follow the booking through check-in, service and completion', () => {
+      expect(getAppointmentStage(booking)).toBe('upcoming');
+      expect(getAppointmentStage({ ...booking, checkedInAt: '2025-03-10T12:25:00Z' })).toBe('checked_in');
+      expect(getAppointmentStage({ ...booking, checkedInAt: '2025-03-10T12:25:00Z', serviceStartedAt: '2025-03-10T12:31:00Z' })).toBe('in_service');
+      expect(getAppointmentStage({ ...booking, status: 'completed' })).toBe('completed');
+      expect(getAppointmentStage({ ...booking, status: 'missed' })).toBe('missed');
+    });
+  });
+
+  describe('available actions', () => {
+    it('should open check-in an hour before the start until the end', () => {
+      expect(canCheckIn(booking, now)).toBe(true);
+      expect(canCheckIn(booking, new Date('2025-03-10T11:00:00Z'))).toBe(false);
+      expect(canCheckIn(booking, new Date('2025-03-10T13:00:00Z'))).toBe(false);
+      expect(canCheckIn({ ...booking, checkedInAt: '2025-03-10T11:55:00Z' }, now)).toBe(false);
+    });
+
+    it('should let the barber start once the client is here or the appointment is due', () => {
+      expect(canStartService({ ...booking, date: '2025-03-10T15:00:00Z', checkedInAt: '2025-03-10T11:55:00Z' }, now)).toBe(true);
+      expect(canStartService({ ...booking, date: '2025-03-10T15:00:00Z' }, now)).toBe(false);
+      expect(canStartService({ ...booking, serviceStartedAt: '2025-03-10T11:58:00Z' }, now)).toBe(false);
+    });
+
+    it('should let the barber complete a started or past appointment', () => {
+      expect(canComplete({ ...booking, serviceStartedAt: '2025-03-10T11:58:00Z' }, now)).toBe(true);
+      expect(canComplete(booking, now)).toBe(false);
+      expect(canComplete({ ...booking, status: 'completed' }, new Date('2025-03-10T14:00:00Z'))).toBe(false);
+    });
+  });
+
+  it('should describe how early or late the client arrived', () => {
+    expect(describeArrival(booking.date, '2025-03-10T12:18:00Z')).toBe('12 min early');
+    expect(describeArrival(booking.date, booking.date)).toBe('On time');
+    expect(describeArrival(booking.date, '2025-03-10T12:35:00Z')).toBe('5 min late');
+  });
+
+  it('should point the QR code at the web check-in page', () => {
+    expect(getCheckInUrl('abc123')).toBe('https://bocmstyle.com/check-in/abc123');
+  });
+
+  describe('bookingService', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      global.fetch = mockFetch as any;
+      mockSupabase.auth = {
+        getSession: jest.fn().mockResolvedValue({
+          data: { session: { access_token: 'token-123' } },
+          error: null,
+        }),
+      } as any;
+    });
+
+    it.each([
+      ['checkIn', '/api/bookings/check-in'],
+      ['startService', '/api/bookings/start'],
+      ['completeBooking', '/api/bookings/complete'],
+    ] as const)('%s should post the booking to %s', async (method, path) => {
+      const updated = { id: 'booking-1', checked_in_at: '2025-03-10T12:25:00Z' };
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ booking: updated }),
+      });
+
+      const result = await bookingService[method]('booking-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining(path),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ bookingId: 'booking-1' }),
+        })
+      );
+      expect(result).toEqual(updated);
+    });
+
+    it('should surface why the transition was rejected', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: 'Check-in opens 60 minutes before your appointment' }),
+      });
+
+      await expect(bookingService.checkIn('booking-1'))
+        .rejects.toThrow('Check-in opens 60 minutes before your appointment');
+    });
+
+    it('should load the barber metrics since the given date', async () => {
+      const metrics = { checked_in_count: 4, on_time_count: 3, avg_service_minutes: 34.5 };
+      const single = jest.fn().mockResolvedValue({ data: metrics, error: null });
+      mockSupabase.rpc = jest.fn().mockReturnValue({ single }) as any;
+
+      const result = await bookingService.getLifecycleMetrics('barber-1', new Date('2025-01-01T00:00:00Z'));
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_barber_lifecycle_metrics', {
+        p_barber_id: 'barber-1',
+        p_since: '2025-01-01T00:00:00.000Z',
+      });
+      expect(result).toEqual(metrics);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for availabilityService
+ *
+ * The slot logic itself lives in the database; these tests cover the RPC contract
+ */
+
+import { fetchSlotAvailability, checkSlotAvailability } from '@/lib/availabilityService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+describe('availabilityService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('fetchSlotAvailability', () => {
+    it('should call get_available_slots with the barber, date and duration', async () => {
+      const rows = [
+        { slot_start: '2024-12-15T15:00:00Z', slot_time: '10:00', available: true, reason: null },
+      ];
+      mockSupabase.rpc = jest.fn().mockResolvedValue({ data: rows, error: null }) as any;
+
+      const result = await fetchSlotAvailability('barber-123', '2024-12-15', 45);
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_available_slots', {
+        p_barber_id: 'barber-123',
+        p_date: '2024-12-15',
+        p_duration_minutes: 45,
+      });
+      expect(result).toEqual(rows);
+    });
+
+    it('should return an empty list when the barber has no working hours', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({ data: null, error: null }) as any;
+
+      const result = await fetchSlotAvailability('barber-123', '2024-12-15', 30);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should throw when the RPC fails', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({ data: null, error: { message: 'boom' } }) as any;
+
+      await expect(fetchSlotAvailability('barber-123', '2024-12-15', 30)).rejects.toEqual({ message: 'boom' });
+    });
+  });
+
+  describe('checkSlotAvailability', () => {
+    it('should return null for a bookable slot', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({ data: null, error: null }) as any;
+
+      const result = await checkSlotAvailability('barber-123', '2024-12-15T15:00:00Z', 30);
+
+      expect(result).toBeNull();
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('check_slot_availability', {
+        p_barber_id: 'barber-123',
+        p_start: '2024-12-15T15:00:00Z',
+        p_duration_minutes: 30,
+        p_exclude_booking_id: null,
+      });
+    });
+
+    it('should return the rejection reason and pass the excluded booking', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({
+        data: 'Booking time is not within barber availability',
+        error: null,
+      }) as any;
+
+      const result = await checkSlotAvailability('barber-123', '2024-12-15T03:00:00Z', 30, 'booking-1');
+
+      expect(result).toBe('Booking time is not within barber availability');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('check_slot_availability', expect.objectContaining({
+        p_exclude_booking_id: 'booking-1',
+      }));
+    });
+  });
+});
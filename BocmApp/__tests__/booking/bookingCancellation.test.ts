@@ -0,0 +1,116 @@
+/**
+ * Tests for bookingService cancellation, no-show and cancellation policy calls
+ *
+ * Refunds and fee charges happen in the cancellation APIs; these tests cover the request contract
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('bookingService cancellation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockSupabase.auth = {
+      getSession: jest.fn().mockResolvedValue({
+        data: { session: { access_token: 'token-123' } },
+        error: null,
+      }),
+    } as any;
+  });
+
+  describe('cancelBooking', () => {
+    it('should cancel through the API and return the refund outcome', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          booking: { id: 'booking-1', status: 'cancelled' },
+          refunded: true,
+          fee: null,
+        }),
+      });
+
+      const result = await bookingService.cancelBooking('booking-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/cancel'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ bookingId: 'booking-1' }),
+        })
+      );
+      expect(result.refunded).toBe(true);
+      expect(result.booking.status).toBe('cancelled');
+    });
+
+    it('should surface the error from the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: 'Only upcoming bookings can be cancelled' }),
+      });
+
+      await expect(bookingService.cancelBooking('booking-1')).rejects.toThrow('Only upcoming bookings can be cancelled');
+    });
+
+    it('should require a signed-in user', async () => {
+      mockSupabase.auth = {
+        getSession: jest.fn().mockResolvedValue({ data: { session: null }, error: null }),
+      } as any;
+
+      await expect(bookingService.cancelBooking('booking-1')).rejects.toThrow('You must be signed in to update a booking');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('markNoShow', () => {
+    it('should return the no-show fee outcome', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          booking: { id: 'booking-1', status: 'no_show' },
+          fee: { amount: 15, status: 'succeeded' },
+        }),
+      });
+
+      const result = await bookingService.markNoShow('booking-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/no-show'),
+        expect.objectContaining({ method: 'POST' })
+      );
+      expect(result.refunded).toBe(false);
+      expect(result.fee).toEqual({ amount: 15, status: 'succeeded' });
+    });
+  });
+
+  describe('getCancellationPolicy', () => {
+    it('should map the policy returned by the database', async () => {
+      mockSupabase.rpc = jest.fn().mockReturnValue({
+        maybeSingle: jest.fn().mockResolvedValue({
+          data: { cancellation_window_hours: 12, no_show_fee: '20.00' },
+          error: null,
+        }),
+      }) as any;
+
+      const policy = await bookingService.getCancellationPolicy('barber-1');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_cancellation_policy', { p_barber_id: 'barber-1' });
+      expect(policy).toEqual({ windowHours: 12, noShowFee: 20 });
+    });
+
+    it('should fall back to the defaults', async () => {
+      mockSupabase.rpc = jest.fn().mockReturnValue({
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      }) as any;
+
+      expect(await bookingService.getCancellationPolicy('barber-1')).toEqual({ windowHours: 24, noShowFee: 0 });
+    });
+  });
+});
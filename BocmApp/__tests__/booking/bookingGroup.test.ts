@@ -0,0 +1,100 @@
+/**
+ * Tests for group bookings
+ *
+ * Members are booked and cancelled together by the database; these tests cover the
+ * schedule the booking form sends and the group cancellation request
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import { getGroupSchedule, getGroupSlotDuration } from '@/lib/groupBooking';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('group bookings', () => {
+  const start = new Date('2026-11-03T15:00:00Z');
+
+  describe('getGroupSlotDuration', () => {
+    it('should need every appointment in a row when back to back', () => {
+      expect(getGroupSlotDuration([30, 45, 20], 'back_to_back')).toBe(95);
+    });
+
+    it('should need the longest appointment when at the same time', () => {
+      expect(getGroupSlotDuration([30, 45, 20], 'parallel')).toBe(45);
+    });
+
+    it('should be zero without members', () => {
+      expect(getGroupSlotDuration([], 'parallel')).toBe(0);
+    });
+  });
+
+  describe('getGroupSchedule', () => {
+    it('should start each person when the previous one finishes', () => {
+      expect(getGroupSchedule([30, 45, 20], start, 'back_to_back').map(date => date.toISOString())).toEqual([
+        '2026-11-03T15:00:00.000Z',
+        '2026-11-03T15:30:00.000Z',
+        '2026-11-03T16:15:00.000Z',
+      ]);
+    });
+
+    it('should start everyone together when at the same time', () => {
+      expect(getGroupSchedule([30, 45], start, 'parallel').map(date => date.toISOString())).toEqual([
+        '2026-11-03T15:00:00.000Z',
+        '2026-11-03T15:00:00.000Z',
+      ]);
+    });
+  });
+
+  describe('cancelGroup', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      global.fetch = mockFetch as any;
+      mockSupabase.auth = {
+        getSession: jest.fn().mockResolvedValue({
+          data: { session: { access_token: 'token-123' } },
+          error: null,
+        }),
+      } as any;
+    });
+
+    it('should cancel every member through the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          bookings: [
+            { id: 'booking-1', status: 'cancelled' },
+            { id: 'booking-2', status: 'cancelled' },
+          ],
+          refunded: true,
+          fee: null,
+        }),
+      });
+
+      const result = await bookingService.cancelGroup('group-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/group/cancel'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ groupId: 'group-1' }),
+        })
+      );
+      expect(result.bookings).toHaveLength(2);
+      expect(result.refunded).toBe(true);
+    });
+
+    it('should surface the error from the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: 'This group has no upcoming appointments to cancel' }),
+      });
+
+      await expect(bookingService.cancelGroup('group-1')).rejects.toThrow('This group has no upcoming appointments to cancel');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for bookingService.rescheduleBooking
+ *
+ * Policy and slot validation happen in the reschedule API; these tests cover the request contract
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('bookingService.rescheduleBooking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockSupabase.auth = {
+      getSession: jest.fn().mockResolvedValue({
+        data: { session: { access_token: 'token-123' } },
+        error: null,
+      }),
+    } as any;
+  });
+
+  it('should send the booking and new time with the session token', async () => {
+    const updated = { id: 'booking-1', date: '2024-12-16T15:00:00.000Z', reschedule_count: 1 };
+    mockFetch.mockResolvedValue({
+      ok: true,
+      json: jest.fn().mockResolvedValue({ booking: updated }),
+    });
+
+    const result = await bookingService.rescheduleBooking('booking-1', '2024-12-16T15:00:00.000Z');
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      expect.stringContaining('/api/bookings/reschedule'),
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+        body: JSON.stringify({ bookingId: 'booking-1', newDate: '2024-12-16T15:00:00.000Z' }),
+      })
+    );
+    expect(result).toEqual(updated);
+  });
+
+  it('should surface the policy error from the API', async () => {
+    mockFetch.mockResolvedValue({
+      ok: false,
+      json: jest.fn().mockResolvedValue({
+        error: 'Bookings can only be rescheduled more than 24 hours before the appointment',
+      }),
+    });
+
+    await expect(
+      bookingService.rescheduleBooking('booking-1', '2024-12-16T15:00:00.000Z')
+    ).rejects.toThrow('Bookings can only be rescheduled more than 24 hours before the appointment');
+  });
+
+  it('should require a signed-in user', async () => {
+    mockSupabase.auth = {
+      getSession: jest.fn().mockResolvedValue({ data: { session: null }, error: null }),
+    } as any;
+
+    await expect(
+      bookingService.rescheduleBooking('booking-1', '2024-12-16T15:00:00.000Z')
+    ).rejects.toThrow('You must be signed in to reschedule a booking');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
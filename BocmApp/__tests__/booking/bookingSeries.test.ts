@@ -0,0 +1,94 @@
+/**
+ * Tests for bookingService recurring series calls
+ *
+ * Occurrences are generated and validated by the database; these tests cover the request contract
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('bookingService series', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockSupabase.auth = {
+      getSession: jest.fn().mockResolvedValue({
+        data: { session: { access_token: 'token-123' } },
+        error: null,
+      }),
+    } as any;
+  });
+
+  describe('cancelSeries', () => {
+    it('should cancel the chosen occurrences through the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          bookings: [
+            { id: 'booking-1', status: 'cancelled' },
+            { id: 'booking-2', status: 'cancelled' },
+          ],
+        }),
+      });
+
+      const result = await bookingService.cancelSeries('booking-1', 'following');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/series/cancel'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ bookingId: 'booking-1', scope: 'following' }),
+        })
+      );
+      expect(result.bookings).toHaveLength(2);
+    });
+
+    it('should require a signed-in user', async () => {
+      mockSupabase.auth = {
+        getSession: jest.fn().mockResolvedValue({ data: { session: null }, error: null }),
+      } as any;
+
+      await expect(bookingService.cancelSeries('booking-1', 'all')).rejects.toThrow('You must be signed in to update a booking');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSeries', () => {
+    it('should return created and skipped occurrences', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({
+          created: [{ occurrence_start: '2026-11-03T20:00:00Z', booking_id: 'booking-3', skipped_reason: null }],
+          skipped: [{ occurrence_start: '2026-11-17T20:00:00Z', booking_id: null, skipped_reason: 'Time slot is already booked' }],
+        }),
+      });
+
+      const result = await bookingService.updateSeries('booking-1', 'all', '2026-11-03T20:00:00Z');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/series/update'),
+        expect.objectContaining({
+          body: JSON.stringify({ bookingId: 'booking-1', scope: 'all', newStart: '2026-11-03T20:00:00Z' }),
+        })
+      );
+      expect(result.created).toHaveLength(1);
+      expect(result.skipped[0].skipped_reason).toBe('Time slot is already booked');
+    });
+
+    it('should surface the error from the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: 'Only upcoming appointments can be changed' }),
+      });
+
+      await expect(bookingService.updateSeries('booking-1', 'this', '2026-11-03T20:00:00Z')).rejects.toThrow('Only upcoming appointments can be changed');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tests for tipping after a completed appointment
+ *
+ * Charges happen in the tip API; these tests cover the prompt rules and the request contract
+ */
+
+import { bookingService } from '@/lib/bookingService';
+import { supabase } from '@/lib/supabase';
+import { calculateTipCents, getTipAmountError, getTipBlocker, shouldPromptForTip } from '@/lib/tipping';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('tipping', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const booking = {
+    status: 'completed',
+    client_id: 'client-1',
+    completed_at: '2025-03-09T18:00:00Z',
+    tip_status: null,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockSupabase.auth = {
+      getSession: jest.fn().mockResolvedValue({
+        data: { session: { access_token: 'token-123' } },
+        error: null,
+      }),
+    } as any;
+  });
+
+  describe('tip rules', () => {
+    it('should take a percentage of the services and add-ons', () => {
+      expect(calculateTipCents(4550, 20)).toBe(910);
+    });
+
+    it('should keep tips between $1 and $500', () => {
+      expect(getTipAmountError(100)).toBeNull();
+      expect(getTipAmountError(99)).toBe('The smallest tip is $1.00');
+      expect(getTipAmountError(50001)).toBe('Tips are limited to $500.00');
+    });
+
+    it('should only allow one tip on a completed booking', () => {
+      expect(getTipBlocker(booking)).toBeNull();
+      expect(getTipBlocker({ ...booking, status: 'confirmed' })).toBe('You can tip once the appointment is completed');
+      expect(getTipBlocker({ ...booking, tip_status: 'succeeded' })).toBe('You already tipped for this appointment');
+    });
+
+    it('should prompt for a week unless the client tipped or declined', () => {
+      expect(shouldPromptForTip(booking, now)).toBe(true);
+      expect(shouldPromptForTip({ ...booking, tip_status: 'declined' }, now)).toBe(false);
+      expect(shouldPromptForTip({ ...booking, completed_at: '2025-03-02T12:00:00Z' }, now)).toBe(false);
+    });
+  });
+
+  describe('tipBooking', () => {
+    it('should send the tip to the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ status: 'succeeded', clientSecret: null }),
+      });
+
+      const result = await bookingService.tipBooking('booking-1', 910, true);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/tip'),
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ bookingId: 'booking-1', amountCents: 910, useSavedCard: true }),
+        })
+      );
+      expect(result.status).toBe('succeeded');
+    });
+
+    it('should surface a declined card', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: 'Your card was declined.' }),
+      });
+
+      await expect(bookingService.tipBooking('booking-1', 910, true)).rejects.toThrow('Your card was declined.');
+    });
+  });
+
+  describe('declineTip', () => {
+    it('should record that the client said no thanks', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ declined: true }),
+      });
+
+      await expect(bookingService.declineTip('booking-1')).resolves.toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/bookings/tip/decline'),
+        expect.objectContaining({ body: JSON.stringify({ bookingId: 'booking-1' }) })
+      );
+    });
+  });
+});
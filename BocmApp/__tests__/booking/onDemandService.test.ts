@@ -0,0 +1,150 @@
+/**
+ * Tests for on-demand requests
+ *
+ * Requests are recorded and answered by the server; these tests cover matching nearby
+ * barbers, pricing, sending a request and withdrawing it
+ */
+
+import { onDemandService, getOnDemandPrice } from '@/lib/onDemandService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const mockFetch = jest.fn();
+
+describe('onDemandService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    global.fetch = mockFetch as any;
+    mockSupabase.auth = {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'client-1' } }, error: null }),
+      getSession: jest.fn().mockResolvedValue({
+        data: { session: { access_token: 'token-123' } },
+        error: null,
+      }),
+    } as any;
+  });
+
+  describe('getOnDemandPrice', () => {
+    it('should apply the surge multiplier and round to cents', () => {
+      expect(getOnDemandPrice(35, 1.5)).toBe(52.5);
+      expect(getOnDemandPrice(19.99, 1.3)).toBe(25.99);
+    });
+
+    it('should never discount the regular price', () => {
+      expect(getOnDemandPrice(40, 0.5)).toBe(40);
+    });
+  });
+
+  describe('findBarbers', () => {
+    it('should return matched barbers nearest first with surge-adjusted services', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({
+        data: [
+          { barber_id: 'barber-2', distance_miles: 1.2, surge_multiplier: 1.5 },
+          { barber_id: 'barber-1', distance_miles: 3.4, surge_multiplier: 1 },
+        ],
+        error: null,
+      }) as any;
+      mockSupabase.from = jest.fn((table: string) => ({
+        select: jest.fn().mockReturnValue({
+          in: jest.fn().mockResolvedValue(table === 'barbers'
+            ? {
+                data: [
+                  { id: 'barber-1', business_name: 'Fresh Cuts', profiles: { name: 'Al', avatar_url: null } },
+                  { id: 'barber-2', business_name: null, profiles: { name: 'Jo', avatar_url: 'jo.png' } },
+                ],
+                error: null,
+              }
+            : {
+                data: [
+                  { id: 'service-1', barber_id: 'barber-1', name: 'Fade', duration: 30, price: 30 },
+                  { id: 'service-2', barber_id: 'barber-2', name: 'Cut', duration: 45, price: 40 },
+                ],
+                error: null,
+              }),
+        }),
+      })) as any;
+
+      const matches = await onDemandService.findBarbers(40.7, -74, '2025-03-11T15:00:00.000Z');
+
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('find_ondemand_barbers', {
+        p_lat: 40.7,
+        p_lng: -74,
+        p_requested_time: '2025-03-11T15:00:00.000Z',
+      });
+      expect(matches.map(match => match.barberId)).toEqual(['barber-2', 'barber-1']);
+      expect(matches[0]).toEqual(expect.objectContaining({ name: 'Jo', distanceMiles: 1.2, surgeMultiplier: 1.5 }));
+      expect(matches[0].services[0].onDemandPrice).toBe(60);
+      expect(matches[1].services[0].onDemandPrice).toBe(30);
+    });
+
+    it('should skip looking up barbers when nobody covers the location', async () => {
+      mockSupabase.rpc = jest.fn().mockResolvedValue({ data: [], error: null }) as any;
+      mockSupabase.from = jest.fn() as any;
+
+      expect(await onDemandService.findBarbers(40.7, -74, '2025-03-11T15:00:00.000Z')).toEqual([]);
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createRequest', () => {
+    const input = {
+      barberId: 'barber-1',
+      serviceId: 'service-1',
+      requestedTime: '2025-03-11T15:00:00.000Z',
+      latitude: 40.7,
+      longitude: -74,
+      address: '12 Main St',
+    };
+
+    it('should send the request for the signed-in client and return the payment hold', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ clientSecret: 'pi_1_secret', paymentIntentId: 'pi_1', price: 45, surgeMultiplier: 1.5 }),
+      });
+
+      const hold = await onDemandService.createRequest(input);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/functions/v1/create-ondemand-request'),
+        expect.objectContaining({
+          method: 'POST',
+          body: JSON.stringify({ ...input, clientId: 'client-1' }),
+        })
+      );
+      expect(hold.clientSecret).toBe('pi_1_secret');
+    });
+
+    it('should surface why the barber cannot take the request', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        json: jest.fn().mockResolvedValue({ error: "This barber isn't taking on-demand requests for that location and time" }),
+      });
+
+      await expect(onDemandService.createRequest(input))
+        .rejects.toThrow("This barber isn't taking on-demand requests for that location and time");
+    });
+  });
+
+  describe('cancelRequest', () => {
+    it('should withdraw the request through the API', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: jest.fn().mockResolvedValue({ request: { id: 'request-1', status: 'cancelled' } }),
+      });
+
+      const request = await onDemandService.cancelRequest('request-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.stringContaining('/api/ondemand/cancel'),
+        expect.objectContaining({
+          headers: expect.objectContaining({ Authorization: 'Bearer token-123' }),
+          body: JSON.stringify({ requestId: 'request-1' }),
+        })
+      );
+      expect(request.status).toBe('cancelled');
+    });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Tests for the booking waitlist client
+ *
+ * Offers are made by the server; these tests cover joining, leaving and reading an entry
+ */
+
+import { waitlistService } from '@/lib/waitlistService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+describe('waitlistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSupabase.auth = {
+      getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'client-1' } }, error: null }),
+    } as any;
+  });
+
+  describe('joinWaitlist', () => {
+    it('should add the signed-in client for the day', async () => {
+      const insert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: { id: 'entry-1', status: 'waiting', date: '2025-03-12' },
+            error: null,
+          }),
+        }),
+      });
+      mockSupabase.from = jest.fn().mockReturnValue({ insert }) as any;
+
+      const entry = await waitlistService.joinWaitlist('barber-1', 'service-1', '2025-03-12');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('booking_waitlist');
+      expect(insert).toHaveBeenCalledWith({
+        barber_id: 'barber-1',
+        client_id: 'client-1',
+        service_id: 'service-1',
+        date: '2025-03-12',
+      });
+      expect(entry.status).toBe('waiting');
+    });
+
+    it('should explain when the client is already waiting for that day', async () => {
+      mockSupabase.from = jest.fn().mockReturnValue({
+        insert: jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({ data: null, error: { code: '23505', message: 'duplicate key' } }),
+          }),
+        }),
+      }) as any;
+
+      await expect(waitlistService.joinWaitlist('barber-1', 'service-1', '2025-03-12'))
+        .rejects.toThrow("You're already on the waitlist for this day");
+    });
+
+    it('should require a signed-in user', async () => {
+      mockSupabase.auth = {
+        getUser: jest.fn().mockResolvedValue({ data: { user: null }, error: null }),
+      } as any;
+      mockSupabase.from = jest.fn() as any;
+
+      await expect(waitlistService.joinWaitlist('barber-1', 'service-1', '2025-03-12'))
+        .rejects.toThrow('You must be signed in to join the waitlist');
+      expect(mockSupabase.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('leaveWaitlist', () => {
+    it('should cancel the entry', async () => {
+      const eq = jest.fn().mockResolvedValue({ error: null });
+      const update = jest.fn().mockReturnValue({ eq });
+      mockSupabase.from = jest.fn().mockReturnValue({ update }) as any;
+
+      await waitlistService.leaveWaitlist('entry-1');
+
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'cancelled' }));
+      expect(eq).toHaveBeenCalledWith('id', 'entry-1');
+    });
+  });
+
+  describe('getActiveEntry', () => {
+    it('should only look at waiting and offered entries', async () => {
+      const query: any = {
+        select: jest.fn().mockReturnThis(),
+        eq: jest.fn().mockReturnThis(),
+        in: jest.fn().mockReturnThis(),
+        maybeSingle: jest.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      mockSupabase.from = jest.fn().mockReturnValue(query) as any;
+
+      expect(await waitlistService.getActiveEntry('barber-1', '2025-03-12')).toBeNull();
+      expect(query.in).toHaveBeenCalledWith('status', ['waiting', 'offered']);
+    });
+  });
+});
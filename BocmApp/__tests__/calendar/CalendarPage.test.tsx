@@ -64,13 +64,20 @@ jest.mock('@/lib/supabase', () => ({
       single: jest.fn().mockResolvedValue({ data: { role: 'client' }, error: null }),
       order: jest.fn().mockResolvedValue({ data: [], error: null }),
     })),
+    channel: jest.fn(() => ({
+      on: jest.fn().mockReturnThis(),
+      subscribe: jest.fn().mockReturnThis(),
+    })),
+    removeChannel: jest.fn(),
   },
 }));
 
 jest.mock('@react-navigation/native', () => ({
   useNavigation: () => ({
     navigate: jest.fn(),
+    setParams: jest.fn(),
   }),
+  useRoute: () => ({ params: {} }),
   useFocusEffect: jest.fn((callback) => {
     // Call immediately
     callback();
@@ -93,10 +100,14 @@ jest.mock('lucide-react-native', () => ({
   Search: 'Search',
 }));
 
+jest.mock('react-native-qrcode-svg', () => 'QRCode');
+
 jest.mock('@/components/ReviewForm', () => ({
   ReviewForm: 'ReviewForm',
 }));
 
+jest.mock('@/components/TipSheet', () => 'TipSheet');
+
 jest.mock('@/lib/bookingService', () => ({
   bookingService: {
     getBarberBookings: jest.fn().mockResolvedValue([]),
@@ -218,47 +218,41 @@ describe('calendarDataService', () => {
   });
 
   describe('fetchAvailableTimeSlots', () => {
-    it('should generate available time slots', async () => {
+    it('should map slots from the availability engine', async () => {
       const date = new Date('2024-12-15T12:00:00Z');
       
-      mockSupabase.from = jest.fn().mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnThis(),
-          gte: jest.fn().mockReturnThis(),
-          lte: jest.fn().mockReturnThis(),
-          neq: jest.fn().mockResolvedValue({ data: [], error: null })
-        })
-      });
+      mockSupabase.rpc = jest.fn().mockResolvedValue({
+        data: [
+          { slot_start: '2024-12-15T10:00:00Z', slot_time: '10:00', available: true, reason: null },
+          { slot_start: '2024-12-15T10:30:00Z', slot_time: '10:30', available: false, reason: 'Booking time conflicts with existing booking' },
+        ],
+        error: null,
+      }) as any;
 
       const result = await fetchAvailableTimeSlots('barber-123', date, 30);
       
-      expect(Array.isArray(result)).toBe(true);
-      expect(result.length).toBeGreaterThan(0);
-      // Should have time slots between 9 AM and 6 PM
-      expect(result[0]).toHaveProperty('time');
-      expect(result[0]).toHaveProperty('available');
+      expect(mockSupabase.rpc).toHaveBeenCalledWith('get_available_slots', {
+        p_barber_id: 'barber-123',
+        p_date: '2024-12-15',
+        p_duration_minutes: 30,
+      });
+      expect(result).toEqual([
+        { time: '10:00', available: true, slotStart: '2024-12-15T10:00:00Z' },
+        { time: '10:30', available: false, slotStart: '2024-12-15T10:30:00Z' },
+      ]);
     });
 
-    it('should mark booked slots as unavailable', async () => {
+    it('should return empty array on error', async () => {
       const date = new Date('2024-12-15T10:00:00Z');
-      const bookedTime = new Date(date);
-      bookedTime.setHours(10, 0, 0, 0);
       
-      mockSupabase.from = jest.fn().mockReturnValue({
-        select: jest.fn().mockReturnValue({
-          eq: jest.fn().mockReturnThis(),
-          gte: jest.fn().mockReturnThis(),
-          lte: jest.fn().mockReturnThis(),
-          neq: jest.fn().mockResolvedValue({ 
-            data: [{ date: bookedTime.toISOString() }], 
-            error: null 
-          })
-        })
-      });
+      mockSupabase.rpc = jest.fn().mockResolvedValue({
+        data: null,
+        error: { message: 'Error' },
+      }) as any;
 
       const result = await fetchAvailableTimeSlots('barber-123', date, 30);
       
-      expect(Array.isArray(result)).toBe(true);
+      expect(result).toEqual([]);
     });
   });
 
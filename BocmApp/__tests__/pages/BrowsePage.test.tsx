@@ -53,10 +53,12 @@ jest.mock('lucide-react-native', () => ({
   Heart: 'Heart',
   Scissors: 'Scissors',
   Star: 'Star',
+  Zap: 'Zap',
 }));
 
 jest.mock('@/components/StaircaseGrid', () => 'StaircaseGrid');
 jest.mock('@/components/BookingForm', () => 'BookingForm');
+jest.mock('@/components/OnDemandRequestSheet', () => 'OnDemandRequestSheet');
 jest.mock('@/pages/ProfilePreview', () => 'ProfilePreview');
 jest.mock('@/components/ReviewCard', () => ({ ReviewCard: 'ReviewCard' }));
 jest.mock('@/components/ReviewForm', () => ({ ReviewForm: 'ReviewForm' }));
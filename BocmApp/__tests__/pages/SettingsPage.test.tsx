@@ -50,6 +50,9 @@ jest.mock('lucide-react-native', () => ({
   LogOut: 'LogOut',
   CheckCircle: 'CheckCircle',
   RefreshCw: 'RefreshCw',
+  Bell: 'Bell',
+  Briefcase: 'Briefcase',
+  ChevronRight: 'ChevronRight',
 }));
 
 // Mock settings components
@@ -77,6 +80,10 @@ jest.mock('@/components/settings/EarningsDashboard', () => ({
   EarningsDashboard: 'EarningsDashboard',
 }));
 
+jest.mock('@/components/settings/NotificationSettings', () => ({
+  NotificationSettings: 'NotificationSettings',
+}));
+
 jest.mock('@/components/ui', () => ({
   Button: 'Button',
   Card: 'Card',
@@ -0,0 +1,68 @@
+/**
+ * Tests for booking fees under the barber's fee schedule
+ */
+
+import {
+  calculateBookingFee,
+  DEFAULT_FEE_SCHEDULE,
+  feeScheduleService,
+  FeeTerms,
+} from '@/lib/feeSchedule';
+import { calculatePaymentSplit } from '@/lib/servicePrepayment';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+describe('calculateBookingFee', () => {
+  it('should charge the standard $3.38 and keep $1.42 by default', () => {
+    expect(calculateBookingFee()).toEqual({ platformFeeCents: 338, bocmNetShareCents: 142 });
+  });
+
+  it('should charge a percentage of the services, never below the minimum', () => {
+    const percentage: FeeTerms = {
+      fee_type: 'percentage',
+      fee_cents: 200,
+      fee_percentage: 5,
+      stripe_fee_cents: null,
+      platform_share: 0.6,
+    };
+
+    expect(calculateBookingFee(percentage, 10000)).toEqual({ platformFeeCents: 500, bocmNetShareCents: 228 });
+    expect(calculateBookingFee(percentage, 2000).platformFeeCents).toBe(200);
+  });
+
+  it('should route the whole fee to the barber during a 0% promotion', () => {
+    const split = calculatePaymentSplit([{ price: 40 }], 0, { ...DEFAULT_FEE_SCHEDULE, platform_share: 0 });
+
+    expect(split.platformFeeCents).toBe(338);
+    expect(split.applicationFeeCents).toBe(0);
+    expect(split.barberTransferCents).toBe(338);
+  });
+
+  it('should leave nothing to charge on a no-fee schedule', () => {
+    const split = calculatePaymentSplit([{ price: 40 }], 0, { ...DEFAULT_FEE_SCHEDULE, fee_cents: 0, stripe_fee_cents: 0, platform_share: 0 });
+
+    expect(split.platformFeeCents).toBe(0);
+    expect(split.totalCents).toBe(0);
+    expect(split.dueAtAppointmentCents).toBe(4000);
+  });
+});
+
+describe('feeScheduleService.resolve', () => {
+  it('should ask for the schedule in effect for the barber', async () => {
+    const schedule = { ...DEFAULT_FEE_SCHEDULE, id: 'schedule-1', barber_id: null, name: 'Standard booking fee' };
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ data: schedule, error: null }) as any;
+
+    await expect(feeScheduleService.resolve('barber-1')).resolves.toEqual(schedule);
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('resolve_fee_schedule', { p_barber_id: 'barber-1' });
+  });
+
+  it('should fail when no schedule is in effect', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ data: { id: null }, error: null }) as any;
+
+    await expect(feeScheduleService.resolve('barber-1')).rejects.toThrow('No fee schedule is in effect for this barber');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for the job board: nearby jobs, posts, applications and decisions
+ */
+
+import { filterJobsNear, jobBoardService, parseRequirements } from '@/lib/jobBoard';
+import { validateJobContent } from '@/lib/contentModeration';
+import { supabase } from '@/lib/supabase';
+import type { JobPost } from '@/types/index';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+function job(id: string, latitude: number | null, longitude: number | null): JobPost {
+  return {
+    id,
+    poster_id: 'owner-1',
+    business_name: 'Fresh Cuts',
+    business_image: null,
+    job_type: 'chair_rental',
+    title: 'Chair for rent',
+    description: 'A chair in a busy shop',
+    requirements: [],
+    compensation: '$250/week',
+    location: 'Brooklyn, NY',
+    latitude,
+    longitude,
+    status: 'open',
+    created_at: '2026-10-19T10:00:00Z',
+    updated_at: '2026-10-19T10:00:00Z',
+  };
+}
+
+// Midtown Manhattan
+const origin = { latitude: 40.7549, longitude: -73.984 };
+
+describe('filterJobsNear', () => {
+  const brooklyn = job('brooklyn', 40.6782, -73.9442); // about 6 miles
+  const philadelphia = job('philadelphia', 39.9526, -75.1652); // about 80 miles
+  const harlem = job('harlem', 40.8116, -73.9465); // about 4.5 miles
+
+  it('should keep jobs within the radius, closest first', () => {
+    const nearby = filterJobsNear([brooklyn, philadelphia, harlem], origin, 25);
+
+    expect(nearby.map(item => item.id)).toEqual(['harlem', 'brooklyn']);
+    expect(nearby[0].distance).toBeGreaterThan(4);
+    expect(nearby[0].distance).toBeLessThan(5);
+  });
+
+  it('should leave out jobs whose location was not geocoded', () => {
+    expect(filterJobsNear([job('unknown', null, null)], origin, 100)).toEqual([]);
+  });
+});
+
+describe('parseRequirements', () => {
+  it('should read one requirement per line, without bullets or blank lines', () => {
+    expect(parseRequirements('- Licensed barber\n\n• 2+ years experience\n  Own clippers  ')).toEqual([
+      'Licensed barber',
+      '2+ years experience',
+      'Own clippers',
+    ]);
+  });
+});
+
+describe('validateJobContent', () => {
+  it('should ask for enough detail in a job post', () => {
+    expect(validateJobContent('Chair open', 'post').isValid).toBe(false);
+    expect(validateJobContent('Chair open in a busy downtown shop, walk-ins all day.', 'post').isValid).toBe(true);
+  });
+
+  it('should allow an empty cover letter but not a long one', () => {
+    expect(validateJobContent('', 'coverLetter').isValid).toBe(true);
+    expect(validateJobContent('a'.repeat(2001), 'coverLetter').isValid).toBe(false);
+  });
+});
+
+describe('jobBoardService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSupabase.auth.getSession = jest.fn().mockResolvedValue({ data: { session: null } }) as any;
+  });
+
+  it('should tell a barber they already applied', async () => {
+    const single = jest.fn().mockResolvedValue({
+      data: null,
+      error: { code: '23505', message: 'duplicate key value violates unique constraint' },
+    });
+    const insert = jest.fn().mockReturnValue({ select: () => ({ single }) });
+    mockSupabase.from = jest.fn().mockReturnValue({ insert }) as any;
+
+    await expect(jobBoardService.apply('job-1', 'barber-user', 'Hi')).rejects.toThrow('You have already applied to this job');
+    expect(insert).toHaveBeenCalledWith({ job_id: 'job-1', applicant_id: 'barber-user', cover_letter: 'Hi' });
+  });
+
+  it('should decide on an application through the database', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ data: { id: 'application-1', status: 'accepted' }, error: null }) as any;
+
+    await jobBoardService.setApplicationStatus('application-1', 'accepted');
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('set_job_application_status', {
+      p_application_id: 'application-1',
+      p_status: 'accepted',
+    });
+  });
+
+  it('should surface the reason the database refused a decision', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({
+      data: null,
+      error: { message: 'This application has already been accepted' },
+    }) as any;
+
+    await expect(jobBoardService.setApplicationStatus('application-1', 'rejected')).rejects.toThrow(
+      'This application has already been accepted'
+    );
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Tests for direct messaging between clients and barbers
+ */
+
+import { getOtherParticipant, messagingService, ConversationRow } from '@/lib/messaging';
+import { validateMessageContent } from '@/lib/contentModeration';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+jest.mock('expo-file-system', () => ({}));
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+const conversation: ConversationRow = {
+  id: 'conversation-1',
+  client_id: 'client-user',
+  barber_id: 'barber-1',
+  booking_id: null,
+  last_message_text: null,
+  last_message_sender_id: null,
+  last_message_at: null,
+  created_at: '2026-10-19T10:00:00Z',
+  updated_at: '2026-10-19T10:00:00Z',
+  client: { id: 'client-user', name: 'Jordan', avatar_url: null },
+  barber: {
+    id: 'barber-1',
+    user_id: 'barber-user',
+    business_name: 'Fresh Fades',
+    profiles: { name: 'Sam', avatar_url: 'https://example.com/sam.png' },
+  },
+};
+
+describe('getOtherParticipant', () => {
+  it('should show the barber to the client', () => {
+    expect(getOtherParticipant(conversation, 'client-user')).toEqual({
+      id: 'barber-user',
+      name: 'Fresh Fades',
+      avatar_url: 'https://example.com/sam.png',
+    });
+  });
+
+  it('should show the client to the barber', () => {
+    expect(getOtherParticipant(conversation, 'barber-user')).toEqual({
+      id: 'client-user',
+      name: 'Jordan',
+      avatar_url: null,
+    });
+  });
+});
+
+describe('validateMessageContent', () => {
+  it('should allow short casual messages', () => {
+    expect(validateMessageContent('ok').isValid).toBe(true);
+    expect(validateMessageContent('hello, running 5 min late').isValid).toBe(true);
+  });
+
+  it('should reject messages over 1000 characters', () => {
+    expect(validateMessageContent('a'.repeat(1001)).isValid).toBe(false);
+  });
+});
+
+describe('messagingService.startConversation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should open the conversation about a booking', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ data: 'conversation-1', error: null }) as any;
+
+    const id = await messagingService.startConversation('barber-user', 'booking-1');
+
+    expect(id).toBe('conversation-1');
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('start_conversation', {
+      p_other_user_id: 'barber-user',
+      p_booking_id: 'booking-1',
+    });
+  });
+
+  it('should surface the reason the database refused', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({
+      data: null,
+      error: { message: 'You cannot message this user' },
+    }) as any;
+
+    await expect(messagingService.startConversation('client-user')).rejects.toThrow('You cannot message this user');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for the notification inbox: deep links and read state
+ */
+
+import { getNotificationTarget, notificationInboxService } from '@/lib/notificationInbox';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+describe('notificationInbox', () => {
+  describe('getNotificationTarget', () => {
+    it('should open a booking on the calendar tab', () => {
+      expect(getNotificationTarget({ booking_id: 'booking-1' })).toEqual({
+        screen: 'MainTabs',
+        params: { screen: 'Calendar', params: { bookingId: 'booking-1' } },
+      });
+    });
+
+    it('should open a cut', () => {
+      expect(getNotificationTarget({ cut_id: 'cut-1' })).toEqual({ screen: 'Cuts', params: { cutId: 'cut-1' } });
+    });
+
+    it('should open the profile for a review, not the reviewed booking', () => {
+      expect(getNotificationTarget({ booking_id: 'booking-1', review_id: 'review-1' })).toEqual({
+        screen: 'MainTabs',
+        params: { screen: 'Profile' },
+      });
+    });
+
+    it('should open a job application on the job board', () => {
+      expect(getNotificationTarget({ job_application_id: 'application-1' })).toEqual({
+        screen: 'Jobs',
+        params: { applicationId: 'application-1' },
+      });
+    });
+
+    it('should return null when there is nothing to open', () => {
+      expect(getNotificationTarget({})).toBeNull();
+    });
+  });
+
+  describe('notificationInboxService', () => {
+    it('should mark only unread notifications as read for the user', async () => {
+      const secondEq = jest.fn().mockResolvedValue({ error: null });
+      const firstEq = jest.fn().mockReturnValue({ eq: secondEq });
+      const update = jest.fn().mockReturnValue({ eq: firstEq });
+      mockSupabase.from = jest.fn().mockReturnValue({ update }) as any;
+
+      await notificationInboxService.markAllAsRead('user-1');
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('notifications');
+      expect(update).toHaveBeenCalledWith({ read: true });
+      expect(firstEq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(secondEq).toHaveBeenCalledWith('read', false);
+    });
+
+    it('should subscribe to the user notifications and unsubscribe', () => {
+      const channel = { on: jest.fn(), subscribe: jest.fn() };
+      channel.on.mockReturnValue(channel);
+      channel.subscribe.mockReturnValue(channel);
+      mockSupabase.channel = jest.fn().mockReturnValue(channel) as any;
+      mockSupabase.removeChannel = jest.fn() as any;
+      const onChange = jest.fn();
+
+      const unsubscribe = notificationInboxService.subscribe('user-1', onChange);
+
+      expect(channel.on).toHaveBeenCalledWith(
+        'postgres_changes',
+        expect.objectContaining({ table: 'notifications', filter: 'user_id=eq.user-1' }),
+        onChange
+      );
+      unsubscribe();
+      expect(mockSupabase.removeChannel).toHaveBeenCalledWith(channel);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Tests for notification preferences on the device
+ *
+ * The server applies the same preferences to pushes, texts and emails; these tests
+ * cover the notifications the app shows itself
+ */
+
+import {
+  getPreferenceEvent,
+  isChannelEnabled,
+  isInQuietHours,
+  shouldShowPush,
+  notificationPreferencesService,
+} from '@/lib/notificationPreferences';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+describe('notificationPreferences', () => {
+  const preferences = {
+    channels: { booking_reminder: { push: false } },
+    quiet_hours_start: '22:00:00',
+    quiet_hours_end: '07:00:00',
+    timezone: 'America/New_York',
+  };
+  const night = new Date('2025-03-12T04:00:00Z'); // 11:00 PM in New York
+  const day = new Date('2025-03-12T16:00:00Z'); // 12:00 PM in New York
+
+  describe('getPreferenceEvent', () => {
+    it('should map device notification types to events', () => {
+      expect(getPreferenceEvent('new_booking')).toBe('booking_created');
+      expect(getPreferenceEvent('appointment_cancelled')).toBe('booking_cancelled');
+    });
+
+    it('should leave types that cannot be turned off unmapped', () => {
+      expect(getPreferenceEvent('ondemand_request')).toBeNull();
+    });
+  });
+
+  describe('isChannelEnabled', () => {
+    it('should fall back to the defaults', () => {
+      expect(isChannelEnabled(null, 'booking_created', 'push')).toBe(true);
+      expect(isChannelEnabled(null, 'payout', 'sms')).toBe(false);
+    });
+  });
+
+  describe('isInQuietHours', () => {
+    it('should handle quiet hours that run past midnight', () => {
+      expect(isInQuietHours(preferences, night)).toBe(true);
+      expect(isInQuietHours(preferences, day)).toBe(false);
+    });
+  });
+
+  describe('shouldShowPush', () => {
+    it('should hold back notifications the user turned off', () => {
+      expect(shouldShowPush(preferences, 'booking_reminder', day)).toBe(false);
+    });
+
+    it('should hold back notifications during quiet hours', () => {
+      expect(shouldShowPush(preferences, 'new_booking', night)).toBe(false);
+      expect(shouldShowPush(preferences, 'new_booking', day)).toBe(true);
+    });
+
+    it('should always show types that cannot be turned off', () => {
+      expect(shouldShowPush(preferences, 'waitlist_offer', night)).toBe(true);
+    });
+  });
+
+  describe('savePreferences', () => {
+    it('should save quiet hours in the device timezone', async () => {
+      mockSupabase.auth = {
+        getUser: jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } }, error: null }),
+      } as any;
+      const upsert = jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({ data: { ...preferences }, error: null }),
+        }),
+      });
+      mockSupabase.from = jest.fn().mockReturnValue({ upsert }) as any;
+
+      await notificationPreferencesService.savePreferences({
+        channels: preferences.channels,
+        quiet_hours_start: '22:00',
+        quiet_hours_end: '07:00',
+      });
+
+      expect(upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          user_id: 'user-1',
+          quiet_hours_start: '22:00',
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
+        { onConflict: 'user_id' }
+      );
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for gift cards and packages at checkout
+ */
+
+import { calculatePrepaidCredit, describePrepaidBalance, prepaidBalanceService } from '@/lib/prepaidBalances';
+import { calculatePaymentSplit, PLATFORM_FEE_CENTS } from '@/lib/servicePrepayment';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+const giftCard = { kind: 'gift_card' as const, service_id: null, amount_remaining: 25, visits_remaining: 0, visit_count: null };
+const cutPackage = { kind: 'package' as const, service_id: 'cut', amount_remaining: 160, visits_remaining: 4, visit_count: 5 };
+const services = [{ id: 'cut', price: 40 }, { id: 'beard', price: 20 }];
+
+describe('calculatePrepaidCredit', () => {
+  it('should cover up to what is left on a gift card', () => {
+    expect(calculatePrepaidCredit(giftCard, services, 6000)).toBe(2500);
+    expect(calculatePrepaidCredit(giftCard, services, 1000)).toBe(1000);
+    expect(describePrepaidBalance(giftCard)).toBe('$25.00 left');
+  });
+
+  it('should cover one visit of the package service', () => {
+    expect(calculatePrepaidCredit(cutPackage, services, 6000)).toBe(4000);
+    expect(calculatePrepaidCredit(cutPackage, [{ id: 'beard', price: 20 }], 2000)).toBe(0);
+    expect(describePrepaidBalance(cutPackage)).toBe('4 of 5 visits left');
+  });
+});
+
+describe('calculatePaymentSplit with a credit', () => {
+  it('should take the credit off what is due at the appointment', () => {
+    const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, null, 2500);
+
+    expect(split.creditCents).toBe(2500);
+    expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+    expect(split.dueAtAppointmentCents).toBe(1500);
+  });
+});
+
+describe('prepaidBalanceService.getUsableBalances', () => {
+  it('should load the client\'s active balances with the barber', async () => {
+    const query: any = {};
+    ['select', 'eq', 'or'].forEach(method => { query[method] = jest.fn(() => query); });
+    query.order = jest.fn().mockResolvedValue({ data: [{ id: 'balance-1', ...giftCard }], error: null });
+    mockSupabase.from = jest.fn(() => query) as any;
+
+    await expect(prepaidBalanceService.getUsableBalances('client-1', 'barber-1')).resolves.toHaveLength(1);
+    expect(mockSupabase.from).toHaveBeenCalledWith('prepaid_balances');
+    expect(query.eq).toHaveBeenCalledWith('owner_id', 'client-1');
+    expect(query.eq).toHaveBeenCalledWith('barber_id', 'barber-1');
+    expect(query.eq).toHaveBeenCalledWith('status', 'active');
+  });
+});
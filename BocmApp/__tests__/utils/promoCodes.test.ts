@@ -0,0 +1,93 @@
+/**
+ * Tests for promo codes at checkout
+ */
+
+import { calculatePromoDiscount, describePromoCode, promoCodeService } from '@/lib/promoCodes';
+import { calculatePaymentSplit, PLATFORM_FEE_CENTS } from '@/lib/servicePrepayment';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+const barberCode = {
+  id: 'promo-1',
+  barber_id: 'barber-1',
+  code: 'FIRSTCUT',
+  discount_type: 'percentage' as const,
+  discount_value: 20,
+  service_ids: [] as string[],
+  first_visit_only: true,
+  weekdays: [] as number[],
+};
+const booking = { barberId: 'barber-1', serviceIds: ['cut'], start: '2025-03-11T15:00:00Z' };
+
+describe('calculatePromoDiscount', () => {
+  it('should take a barber code off the services it applies to', () => {
+    const services = [{ id: 'cut', price: 40 }, { id: 'beard', price: 20 }];
+
+    expect(calculatePromoDiscount(barberCode, services, PLATFORM_FEE_CENTS)).toEqual({ fundedBy: 'barber', cents: 1200 });
+    expect(calculatePromoDiscount({ ...barberCode, service_ids: ['beard'] }, services, PLATFORM_FEE_CENTS).cents).toBe(400);
+  });
+
+  it('should take a platform code off the booking fee', () => {
+    const platformCode = { ...barberCode, barber_id: null, discount_type: 'fixed' as const, discount_value: 1 };
+
+    expect(calculatePromoDiscount(platformCode, [{ id: 'cut', price: 40 }], PLATFORM_FEE_CENTS)).toEqual({ fundedBy: 'platform', cents: 100 });
+    expect(describePromoCode(platformCode)).toBe('$1.00 off the booking fee, first visit only');
+  });
+});
+
+describe('calculatePaymentSplit with a promo code', () => {
+  it('should lower what is due to the barber for a barber code', () => {
+    const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'barber', cents: 800 });
+
+    expect(split.discountCents).toBe(800);
+    expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+    expect(split.dueAtAppointmentCents).toBe(3200);
+  });
+
+  it('should fund a platform code from what the platform keeps', () => {
+    const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'platform', cents: PLATFORM_FEE_CENTS });
+
+    expect(split.discountCents).toBe(142);
+    expect(split.applicationFeeCents).toBe(0);
+    expect(split.barberTransferCents).toBe(calculatePaymentSplit([{ price: 40 }]).barberTransferCents);
+  });
+});
+
+describe('promoCodeService.preview', () => {
+  const mockPreview = (row: object) => {
+    const single = jest.fn().mockResolvedValue({ data: row, error: null });
+    mockSupabase.rpc = jest.fn(() => ({ single })) as any;
+  };
+  const { id, barber_id, code, discount_type, discount_value, service_ids, first_visit_only, weekdays } = barberCode;
+  const preview = { id, barber_id, code, discount_type, discount_value, service_ids, first_visit_only, weekdays };
+
+  it('should check the code against the booking for the signed-in client', async () => {
+    mockPreview({ ...preview, rejection: null });
+
+    await expect(promoCodeService.preview(' firstcut ', booking)).resolves.toEqual({ promo: preview, rejection: null });
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('preview_promo_code', {
+      p_code: 'FIRSTCUT',
+      p_barber_id: 'barber-1',
+      p_service_ids: ['cut'],
+      p_start: '2025-03-11T15:00:00Z',
+    });
+  });
+
+  it('should pass on why a code cannot be used', async () => {
+    mockPreview({ id: null, rejection: 'This promo code is only for first visits' });
+
+    await expect(promoCodeService.preview('FIRSTCUT', booking))
+      .resolves.toEqual({ promo: null, rejection: 'This promo code is only for first visits' });
+  });
+
+  it('should reject malformed codes without checking them', async () => {
+    mockPreview({ id: null, rejection: 'This promo code is not valid' });
+
+    await expect(promoCodeService.preview('!', booking)).resolves.toEqual({ promo: null, rejection: 'This promo code is not valid' });
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Tests for registering this device's push token
+ */
+
+import { pushTokenService } from '@/lib/pushTokens';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+}));
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+const token = 'ExponentPushToken[device]';
+
+describe('pushTokenService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockSupabase.auth.getUser = jest.fn().mockResolvedValue({ data: { user: { id: 'user-1' } } }) as any;
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ error: null }) as any;
+  });
+
+  it('should register the token for this device', async () => {
+    await pushTokenService.register(token, 'iPhone 15');
+
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('register_push_token', expect.objectContaining({
+      p_token: token,
+      p_platform: 'ios',
+      p_device_name: 'iPhone 15',
+    }));
+  });
+
+  it('should not register a token without a signed-in user', async () => {
+    mockSupabase.auth.getUser = jest.fn().mockResolvedValue({ data: { user: null } }) as any;
+
+    await pushTokenService.register(token);
+
+    expect(mockSupabase.rpc).not.toHaveBeenCalled();
+  });
+
+  it('should remove the registered token on unregister, and only once', async () => {
+    const eq = jest.fn().mockResolvedValue({ error: null });
+    const remove = jest.fn().mockReturnValue({ eq });
+    mockSupabase.from = jest.fn().mockReturnValue({ delete: remove }) as any;
+
+    await pushTokenService.register(token);
+    await pushTokenService.unregister();
+    await pushTokenService.unregister();
+
+    expect(mockSupabase.from).toHaveBeenCalledWith('push_tokens');
+    expect(eq).toHaveBeenCalledTimes(1);
+    expect(eq).toHaveBeenCalledWith('token', token);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for per-service deposits and full prepayment at checkout
+ */
+
+import {
+  calculatePaymentSplit,
+  calculateServicePrepaymentCents,
+  describeServicePrepayment,
+  PLATFORM_FEE_CENTS,
+} from '@/lib/servicePrepayment';
+
+describe('calculateServicePrepaymentCents', () => {
+  it('should charge nothing up front for fee-only services', () => {
+    expect(calculateServicePrepaymentCents({ price: 40 })).toBe(0);
+    expect(calculateServicePrepaymentCents({ price: 40, payment_mode: 'fee_only' })).toBe(0);
+  });
+
+  it('should charge fixed and percentage deposits, capped at the price', () => {
+    expect(calculateServicePrepaymentCents({ price: 40, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 })).toBe(1000);
+    expect(calculateServicePrepaymentCents({ price: 45, payment_mode: 'deposit', deposit_type: 'percentage', deposit_amount: 25 })).toBe(1125);
+    expect(calculateServicePrepaymentCents({ price: 20, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 50 })).toBe(2000);
+  });
+});
+
+describe('calculatePaymentSplit', () => {
+  it('should keep fee-only bookings at the booking fee', () => {
+    const split = calculatePaymentSplit([{ price: 50 }], 1000);
+
+    expect(split.paymentMode).toBe('fee_only');
+    expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+    expect(split.applicationFeeCents).toBe(142);
+    expect(split.dueAtAppointmentCents).toBe(6000);
+  });
+
+  it('should leave add-ons for the appointment when only a deposit is taken', () => {
+    const split = calculatePaymentSplit([{ price: 50, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 }], 500);
+
+    expect(split.paymentMode).toBe('deposit');
+    expect(split.totalCents).toBe(1338);
+    expect(split.applicationFeeCents).toBe(171);
+    expect(split.barberTransferCents).toBe(1167);
+    expect(split.dueAtAppointmentCents).toBe(4500);
+  });
+
+  it('should prepay add-ons when every service is paid in full', () => {
+    const split = calculatePaymentSplit([{ price: 50, payment_mode: 'full' }], 500);
+
+    expect(split.paymentMode).toBe('full');
+    expect(split.totalCents).toBe(5838);
+    expect(split.dueAtAppointmentCents).toBe(0);
+  });
+});
+
+describe('describeServicePrepayment', () => {
+  it('should describe what the client pays up front', () => {
+    expect(describeServicePrepayment({ price: 40 })).toBeNull();
+    expect(describeServicePrepayment({ price: 40, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 })).toBe('$10.00 deposit');
+    expect(describeServicePrepayment({ price: 40, payment_mode: 'deposit', deposit_type: 'percentage', deposit_amount: 25 })).toBe('25% deposit');
+    expect(describeServicePrepayment({ price: 40, payment_mode: 'full' })).toBe('Paid in full when booking');
+  });
+});
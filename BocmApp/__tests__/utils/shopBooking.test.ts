@@ -0,0 +1,93 @@
+/**
+ * Tests for "any available barber" booking: the shop menu, the combined schedule and assignment
+ */
+
+import {
+  formatShopPriceRange,
+  groupShopServices,
+  mergeShopSlots,
+  shopBookingService,
+  ShopServiceOffer,
+} from '@/lib/shopBooking';
+import { AvailabilitySlot } from '@/lib/availabilityService';
+import { supabase } from '@/lib/supabase';
+
+jest.mock('@/lib/supabase');
+jest.mock('@/lib/logger');
+
+const mockSupabase = supabase as jest.Mocked<typeof supabase>;
+
+function offer(barberId: string, name: string, price: number, duration = 30): ShopServiceOffer {
+  return {
+    barberId,
+    barberName: barberId,
+    timezone: 'America/New_York',
+    isDeveloper: false,
+    service: { id: `${barberId}-${name}`, name, description: null, duration, price },
+  };
+}
+
+function slot(slot_start: string, available = true): AvailabilitySlot {
+  return { slot_start, slot_time: '', available, reason: available ? null : 'booked' };
+}
+
+describe('groupShopServices', () => {
+  it('should match services by name across barbers', () => {
+    const options = groupShopServices([
+      offer('barber-a', 'Skin Fade', 40),
+      offer('barber-b', ' skin  fade', 30),
+      offer('barber-b', 'Beard Trim', 15),
+    ]);
+
+    expect(options.map(option => option.name)).toEqual(['Beard Trim', 'Skin Fade']);
+    expect(options[1].offers.map(item => item.barberId)).toEqual(['barber-a', 'barber-b']);
+    expect(formatShopPriceRange(options[1])).toBe('$30–$40');
+    expect(formatShopPriceRange(options[0])).toBe('$15');
+  });
+
+  it('should list a barber once per service', () => {
+    const [option] = groupShopServices([offer('barber-a', 'Cut', 25), offer('barber-a', 'CUT', 35)]);
+
+    expect(option.offers).toHaveLength(1);
+    expect(option.maxPrice).toBe(25);
+  });
+});
+
+describe('mergeShopSlots', () => {
+  it('should list each free start time with every barber free then', () => {
+    const merged = mergeShopSlots([
+      { barberId: 'barber-a', slots: [slot('2026-10-20T14:00:00Z'), slot('2026-10-20T14:30:00Z', false)] },
+      { barberId: 'barber-b', slots: [slot('2026-10-20T14:30:00Z'), slot('2026-10-20T14:00:00.000Z')] },
+    ]);
+
+    expect(merged).toEqual([
+      { slotStart: '2026-10-20T14:00:00.000Z', barberIds: ['barber-a', 'barber-b'] },
+      { slotStart: '2026-10-20T14:30:00.000Z', barberIds: ['barber-b'] },
+    ]);
+  });
+});
+
+describe('shopBookingService.assignBarber', () => {
+  it('should ask the shop to pick among its barbers for the service', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({ data: 'barber-b', error: null }) as any;
+
+    const barberId = await shopBookingService.assignBarber('shop-1', 'Skin Fade', '2026-10-20T14:00:00.000Z');
+
+    expect(barberId).toBe('barber-b');
+    expect(mockSupabase.rpc).toHaveBeenCalledWith('assign_shop_barber', {
+      p_shop_id: 'shop-1',
+      p_service_name: 'Skin Fade',
+      p_start: '2026-10-20T14:00:00.000Z',
+    });
+  });
+
+  it('should surface the database error', async () => {
+    mockSupabase.rpc = jest.fn().mockResolvedValue({
+      data: null,
+      error: { message: 'No barber at this shop is free then for this service' },
+    }) as any;
+
+    await expect(shopBookingService.assignBarber('shop-1', 'Skin Fade', '2026-10-20T14:00:00.000Z'))
+      .rejects.toThrow('No barber at this shop is free then for this service');
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  DEFAULT_BARBER_TIMEZONE,
+  formatTimeInZone,
+  isSameOffset,
+  getAppointmentTimeLabels,
+} from '@/lib/timezoneUtils';
+
+describe('timezoneUtils', () => {
+  // 15:00 UTC is 10:00 AM in New York (EST) and 7:00 AM in Los Angeles (PST)
+  const winterInstant = '2025-01-15T15:00:00Z';
+  // 14:00 UTC is 10:00 AM in New York (EDT) after the March DST change
+  const summerInstant = '2025-07-15T14:00:00Z';
+
+  describe('formatTimeInZone', () => {
+    it('should format the wall time in the given zone across DST', () => {
+      expect(formatTimeInZone(winterInstant, 'America/New_York')).toBe('10:00 AM EST');
+      expect(formatTimeInZone(summerInstant, 'America/New_York')).toBe('10:00 AM EDT');
+      expect(formatTimeInZone(winterInstant, 'America/Los_Angeles', false)).toBe('7:00 AM');
+    });
+  });
+
+  describe('isSameOffset', () => {
+    it('should compare offsets at the given instant', () => {
+      expect(isSameOffset(winterInstant, 'America/New_York', 'America/Detroit')).toBe(true);
+      expect(isSameOffset(winterInstant, 'America/New_York', 'America/Chicago')).toBe(false);
+
+      // Phoenix has no DST, so it only matches Denver in winter
+      expect(isSameOffset(winterInstant, 'America/Phoenix', 'America/Denver')).toBe(true);
+      expect(isSameOffset(summerInstant, 'America/Phoenix', 'America/Denver')).toBe(false);
+    });
+  });
+
+  describe('getAppointmentTimeLabels', () => {
+    it('should omit the local time when the device is in the barber zone', () => {
+      expect(getAppointmentTimeLabels(winterInstant, 'America/New_York', 'America/New_York')).toEqual({
+        barberTime: '10:00 AM EST',
+        localTime: null,
+      });
+    });
+
+    it('should include the local time when zones differ', () => {
+      expect(getAppointmentTimeLabels(winterInstant, 'America/New_York', 'America/Los_Angeles')).toEqual({
+        barberTime: '10:00 AM EST',
+        localTime: '7:00 AM PST',
+      });
+    });
+
+    it('should fall back to the default barber timezone', () => {
+      expect(getAppointmentTimeLabels(winterInstant, undefined, DEFAULT_BARBER_TIMEZONE).barberTime).toBe('10:00 AM EST');
+    });
+  });
+});
@@ -6,7 +6,7 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { View, Text, Platform, TouchableOpacity, Dimensions } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { BlurView } from 'expo-blur';
-import {Home, Search, Settings as SettingsIcon, Calendar, Video, User } from 'lucide-react-native';
+import {Home, Search, Settings as SettingsIcon, Calendar, Video, User, Bell } from 'lucide-react-native';
 import HomePage from '../pages/HomePage';
 import LoginPage from '../pages/LoginPage';
 import SignUpPage from '../pages/SignUpPage';
@@ -25,6 +25,12 @@ import tw from 'twrnc';
 import type { BottomTabBarProps } from '@react-navigation/bottom-tabs';
 import CalendarPage from '../pages/CalendarPage';
 import CutsPage from '../pages/CutsPage';
+import NotificationsPage from '../pages/NotificationsPage';
+import MessagesPage from '../pages/MessagesPage';
+import ConversationPage from '../pages/ConversationPage';
+import JobsPage from '../pages/JobsPage';
+import JobApplicantsPage from '../pages/JobApplicantsPage';
+import { useNotificationInbox } from '../shared/hooks/useNotificationInbox';
 import { linking } from '../shared/config/deepLinking';
 import { AuthGuard, BarberGuard } from '../shared/components/auth/AuthGuard';
 import { ROUTE_MAPPING, isRouteProtected, getRouteRole } from '../shared/config/routeMapping';
@@ -36,6 +42,7 @@ function GlassyTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
   const { width: screenWidth } = Dimensions.get('window');
   const insets = useSafeAreaInsets();
   const isSmallScreen = screenWidth < 375;
+  const { unreadCount } = useNotificationInbox(1);
   
   // Get the center item (Cuts) and other items
   // const centerIndex = 2; // Cuts is the center item - commented out since Cuts tab is disabled
@@ -92,6 +99,7 @@ function GlassyTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
         let IconComponent = Search;
         if (route.name === 'Browse') IconComponent = Search;
         if (route.name === 'Calendar') IconComponent = Calendar;
+        if (route.name === 'Inbox') IconComponent = Bell;
         if (route.name === 'Profile') IconComponent = User;
         if (route.name === 'Settings') IconComponent = SettingsIcon;
 
@@ -116,6 +124,18 @@ function GlassyTabBar({ state, descriptors, navigation }: BottomTabBarProps) {
               color={isFocused ? '#b48a3c' : 'rgba(255, 255, 255, 0.8)'}
               style={tw`mb-2`}
             />
+            {route.name === 'Inbox' && unreadCount > 0 && (
+              <View
+                style={[
+                  tw`absolute items-center justify-center rounded-full`,
+                  { top: 0, right: isSmallScreen ? 8 : 10, minWidth: 16, height: 16, paddingHorizontal: 3, backgroundColor: '#ff4d4f' },
+                ]}
+              >
+                <Text style={[tw`font-bold text-white`, { fontSize: 9 }]}>
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </Text>
+              </View>
+            )}
             <Text
               style={[
                 tw`font-semibold tracking-wide`,
@@ -291,6 +311,14 @@ function MainTabs() {
             tabBarIcon: ({ color, size }) => <Calendar color={color} size={size} />, 
           }}
         />
+        <Tab.Screen
+          name="Inbox"
+          component={NotificationsPage}
+          options={{
+            tabBarLabel: 'Inbox',
+            tabBarIcon: ({ color, size }) => <Bell color={color} size={size} />, 
+          }}
+        />
         {/* TikTok-style feed page commented out */}
         {/* <Tab.Screen
           name="Cuts"
@@ -365,6 +393,10 @@ export const AppNavigator = () => {
         <Stack.Screen name="Settings" component={SettingsPage} />
         <Stack.Screen name="BookingCalendar" component={BookingCalendarPage} />
         <Stack.Screen name="BookingSuccess" component={BookingSuccessPage} />
+        <Stack.Screen name="Messages" component={MessagesPage} />
+        <Stack.Screen name="Conversation" component={ConversationPage} />
+        <Stack.Screen name="Jobs" component={JobsPage} />
+        <Stack.Screen name="JobApplicants" component={JobApplicantsPage} />
         
         {/* Role-based screens */}
         <Stack.Screen name="BarberOnboarding">
@@ -1,5 +1,5 @@
 // screens/BookingCalendarPage.tsx
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import {
     View,
     Text,
@@ -13,8 +13,11 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import tw from 'twrnc';
 import { theme } from '../shared/lib/theme';
 const Icon = require('react-native-vector-icons/Feather').default;
-import { RootStackParamList } from '../shared/types';
+import { RootStackParamList, Shop } from '../shared/types';
 import BookingForm from '../shared/components/BookingForm';
+import ShopBookingSheet from '../shared/components/ShopBookingSheet';
+import { shopBookingService } from '../shared/lib/shopBooking';
+import { logger } from '../shared/lib/logger';
 
 type BookingPageNavigationProp = NativeStackNavigationProp<RootStackParamList, 'BookingCalendar'>;
 type BookingPageRouteProp = RouteProp<RootStackParamList, 'BookingCalendar'>;
@@ -25,6 +28,15 @@ export default function BookingCalendarPage() {
     const { barberId, barberName, preSelectedService } = route.params;
 
     const [showBookingForm, setShowBookingForm] = useState(false);
+    // The barber's shop, for booking whichever of its barbers is free first
+    const [shop, setShop] = useState<Shop | null>(null);
+    const [showShopBooking, setShowShopBooking] = useState(false);
+
+    useEffect(() => {
+        shopBookingService.getShopForBarber(barberId)
+            .then(setShop)
+            .catch(error => logger.error('Error loading barber shop:', error));
+    }, [barberId]);
 
     const handleBookingCreated = (booking: any) => {
         setShowBookingForm(false);
@@ -35,6 +47,15 @@ export default function BookingCalendarPage() {
         );
     };
 
+    const handleShopBooked = (assignedBarberName: string) => {
+        setShowShopBooking(false);
+        Alert.alert(
+            'Booking Confirmed!',
+            `You're booked with ${assignedBarberName}. You'll receive a confirmation shortly.`,
+            [{ text: 'OK', onPress: () => navigation.navigate('BookingSuccess') }]
+        );
+    };
+
     return (
         <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
             <ScrollView showsVerticalScrollIndicator={false}>
@@ -106,6 +127,16 @@ export default function BookingCalendarPage() {
                             </Text>
                         </View>
                     </TouchableOpacity>
+                    {shop && (
+                        <TouchableOpacity onPress={() => setShowShopBooking(true)} style={tw`mt-4`}>
+                            <View style={[tw`py-4 rounded-full items-center flex-row justify-center`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
+                                <Icon name="users" size={16} color={theme.colors.secondary} />
+                                <Text style={[tw`text-base font-semibold ml-2`, { color: theme.colors.secondary }]}>
+                                    Any available barber at {shop.name}
+                                </Text>
+                            </View>
+                        </TouchableOpacity>
+                    )}
                 </View>
             </ScrollView>
 
@@ -118,6 +149,15 @@ export default function BookingCalendarPage() {
                 preSelectedService={preSelectedService}
                 onBookingCreated={handleBookingCreated}
             />
+
+            {shop && (
+                <ShopBookingSheet
+                    isVisible={showShopBooking}
+                    onClose={() => setShowShopBooking(false)}
+                    shop={shop}
+                    onBooked={handleShopBooked}
+                />
+            )}
         </SafeAreaView>
     );
 }
\ No newline at end of file
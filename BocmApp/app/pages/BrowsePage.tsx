@@ -32,11 +32,13 @@ import {
   Grid3X3,
   Heart,
   Scissors,
+  Zap,
 } from 'lucide-react-native';
 import { Avatar } from '../shared/components/ui';
 import { RootStackParamList } from '../shared/types';
 import StaircaseGrid from '../shared/components/StaircaseGrid';
 import BookingForm from '../shared/components/BookingForm';
+import OnDemandRequestSheet from '../shared/components/OnDemandRequestSheet';
 import { useReviews } from '../shared/hooks/useReviews';
 import { useLocationManager } from '../shared/hooks/useLocationManager';
 import { ReviewCard } from '../shared/components/ReviewCard';
@@ -346,6 +348,7 @@ export default function BrowsePage() {
   const [selectedSpecialties, setSelectedSpecialties] = useState<string[]>([]);
   const [allSpecialties, setAllSpecialties] = useState<string[]>([]);
   const [showBookingForm, setShowBookingForm] = useState(false);
+  const [showOnDemandRequest, setShowOnDemandRequest] = useState(false);
   const [selectedBarber, setSelectedBarber] = useState<any>(null);
   const [viewMode, setViewMode] = useState<'explore' | 'cosmetologists'>('cosmetologists');
   
@@ -1221,6 +1224,22 @@ export default function BrowsePage() {
           </View>
         )}
 
+        {/* On-demand: ask a nearby barber to come to the client's location */}
+        {isLocationAvailable && user && (
+          <TouchableOpacity
+            style={[
+              tw`mb-3 p-3 rounded-xl flex-row items-center justify-center`,
+              { backgroundColor: theme.colors.secondary }
+            ]}
+            onPress={() => setShowOnDemandRequest(true)}
+          >
+            <Zap size={16} color={theme.colors.background} />
+            <Text style={[tw`ml-2 text-sm font-semibold`, { color: theme.colors.background }]}>
+              Request a barber to you
+            </Text>
+          </TouchableOpacity>
+        )}
+
         {/* Filters */}
         {showFilters && (
           <View style={[tw`mb-4 p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
@@ -1662,6 +1681,16 @@ export default function BrowsePage() {
         />
       )}
 
+      {/* On-Demand Request Modal */}
+      {isLocationAvailable && (
+        <OnDemandRequestSheet
+          isVisible={showOnDemandRequest}
+          onClose={() => setShowOnDemandRequest(false)}
+          latitude={userLocation.coords.latitude}
+          longitude={userLocation.coords.longitude}
+        />
+      )}
+
       {/* Booking Form Modal */}
       {selectedBarber && (
         <BookingForm
@@ -1,5 +1,5 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { useFocusEffect } from '@react-navigation/native';
+import { useFocusEffect, useNavigation, useRoute } from '@react-navigation/native';
 import { 
   View, 
   Text, 
@@ -29,8 +29,15 @@ import {
   Filter,
   Search,
   Calendar,
-  Clock as ClockIcon
+  Clock as ClockIcon,
+  Repeat,
+  Users,
+  QrCode,
+  LogIn,
+  Play,
+  MessageCircle
 } from 'lucide-react-native';
+import QRCode from 'react-native-qrcode-svg';
 import tw from 'twrnc';
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, startOfWeek, endOfWeek, isSameWeek } from 'date-fns';
 import { supabase } from '../shared/lib/supabase';
@@ -38,9 +45,23 @@ import { useAuth } from '../shared/hooks/useAuth';
 import { theme } from '../shared/lib/theme';
 import { logger } from '../shared/lib/logger';
 import { ReviewForm } from '../shared/components/ReviewForm';
-import { bookingService } from '../shared/lib/bookingService';
+import TipSheet from '../shared/components/TipSheet';
+import { getTipBlocker, shouldPromptForTip } from '../shared/lib/tipping';
+import type { TipStatus } from '../shared/types';
+import { bookingService, SeriesScope } from '../shared/lib/bookingService';
 import { formatTimeSlot } from '../shared/lib/calendar/calendarUtils';
+import { fetchAvailableTimeSlots, TimeSlot } from '../shared/lib/calendar/calendarDataService';
 import { getBookingPricingData, getClientBookingDetails, getBarberBookingDetails } from '../shared/lib/bookingDetailsHelper';
+import {
+  APPOINTMENT_STAGE_LABELS,
+  canCheckIn,
+  canComplete,
+  canStartService,
+  describeArrival,
+  getAppointmentStage,
+  getCheckInUrl,
+  LifecycleBooking,
+} from '../shared/lib/appointmentLifecycle';
 
 interface CalendarEvent {
   id: string;
@@ -63,16 +84,43 @@ interface CalendarEvent {
     barberPayout: number;
     totalCharged: number;
     addonNames: string[];
+    services: { name: string; price: number }[];
     isGuest: boolean;
     guestEmail: string;
     guestPhone: string;
+    seriesId: string | null;
+    groupId: string | null; // Set for each person's appointment in a group booking
+    checkedInAt: string | null;
+    serviceStartedAt: string | null;
+    completedAt: string | null;
+    otherUserId: string | null; // Who "Message" opens a conversation with
+    clientId: string | null;
+    tipStatus: TipStatus | null;
   };
 }
 
+const SERIES_SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: 'This appointment',
+  following: 'This and following',
+  all: 'All appointments',
+};
+
 const { width: screenWidth, height: screenHeight } = Dimensions.get('window');
 
+function toTippableBooking(event: CalendarEvent) {
+  return {
+    status: event.extendedProps.status,
+    client_id: event.extendedProps.clientId,
+    completed_at: event.extendedProps.completedAt,
+    tip_status: event.extendedProps.tipStatus,
+  };
+}
+
 export default function CalendarPage() {
   const { user } = useAuth();
+  const navigation = useNavigation();
+  // Set when a notification opens a booking
+  const bookingIdParam = (useRoute().params as { bookingId?: string } | undefined)?.bookingId;
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [events, setEvents] = useState<CalendarEvent[]>([]);
@@ -81,6 +129,10 @@ export default function CalendarPage() {
   const [showManualAppointmentForm, setShowManualAppointmentForm] = useState(false);
   const [isMarkingMissed, setIsMarkingMissed] = useState(false);
   const [isMarkingCompleted, setIsMarkingCompleted] = useState(false);
+  const [isCheckingIn, setIsCheckingIn] = useState(false);
+  const [isStartingService, setIsStartingService] = useState(false);
+  const [checkInCode, setCheckInCode] = useState<string | null>(null);
+  const [showCheckInQr, setShowCheckInQr] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [viewMode, setViewMode] = useState<'month'>('month');
@@ -103,6 +155,19 @@ export default function CalendarPage() {
   const [loadingTimeSlots, setLoadingTimeSlots] = useState(false);
   const manualFormScrollRef = useRef<ScrollView>(null);
   
+  // Reschedule state
+  const [showRescheduleModal, setShowRescheduleModal] = useState(false);
+  const [rescheduleDate, setRescheduleDate] = useState<Date | null>(null);
+  const [rescheduleSlots, setRescheduleSlots] = useState<TimeSlot[]>([]);
+  const [selectedRescheduleSlot, setSelectedRescheduleSlot] = useState<TimeSlot | null>(null);
+  const [loadingRescheduleSlots, setLoadingRescheduleSlots] = useState(false);
+  const [isRescheduling, setIsRescheduling] = useState(false);
+
+  // Recurring series state: editing reuses the reschedule modal, then asks which occurrences to change
+  const [isSeriesEdit, setIsSeriesEdit] = useState(false);
+  const [seriesScopeAction, setSeriesScopeAction] = useState<'cancel' | 'edit' | null>(null);
+  const [isUpdatingSeries, setIsUpdatingSeries] = useState(false);
+
   // Review form state
   const [showReviewForm, setShowReviewForm] = useState(false);
   const [reviewFormData, setReviewFormData] = useState<{
@@ -114,6 +179,10 @@ export default function CalendarPage() {
     initialComment?: string;
   } | null>(null);
 
+  // Tip prompt state
+  const [tipEvent, setTipEvent] = useState<CalendarEvent | null>(null);
+  const tipPromptedRef = useRef(false);
+
   // Animation values
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.95)).current;
@@ -204,66 +273,7 @@ export default function CalendarPage() {
       const selectedService = services.find(s => s.id === manualFormData.serviceId);
       if (!selectedService) return;
 
-      const dateStr = format(manualFormData.date, 'yyyy-MM-dd');
-      const { data: bookings, error } = await supabase
-        .from('bookings')
-        .select('date')
-        .eq('barber_id', barberId)
-        .gte('date', `${dateStr}T00:00:00`)
-        .lte('date', `${dateStr}T23:59:59`)
-        .neq('status', 'cancelled');
-
-      if (error) throw error;
-
-      // Generate time slots based on service duration
-      const slots: Array<{time: string, available: boolean}> = [];
-      const bookedTimes = new Set((bookings || []).map(b => new Date(b.date).toISOString()));
-
-      // Calculate slot interval based on service duration
-      // Use the service duration as the interval, but minimum 10 minutes
-      const slotInterval = Math.max(selectedService.duration, 10);
-      
-      // Start from 9 AM and go until 6 PM
-      const startHour = 9;
-      const endHour = 18;
-      
-      for (let hour = startHour; hour < endHour; hour++) {
-        for (let minute = 0; minute < 60; minute += slotInterval) {
-          const slotTime = new Date(manualFormData.date);
-          slotTime.setHours(hour, minute, 0, 0);
-          
-          // Skip if this would go past 6 PM
-          const endTime = new Date(slotTime);
-          endTime.setMinutes(endTime.getMinutes() + selectedService.duration);
-          if (endTime.getHours() >= endHour) {
-            continue;
-          }
-          
-          const slotISO = slotTime.toISOString();
-          const isBooked = bookedTimes.has(slotISO);
-          
-          // Check if there's enough time for the service
-          let hasEnoughTime = true;
-          if (!isBooked) {
-            const serviceEndTime = new Date(slotTime);
-            serviceEndTime.setMinutes(serviceEndTime.getMinutes() + selectedService.duration);
-            
-            for (const bookedTime of bookedTimes) {
-              const booked = new Date(bookedTime);
-              if (booked >= slotTime && booked < serviceEndTime) {
-                hasEnoughTime = false;
-                break;
-              }
-            }
-          }
-
-          slots.push({
-            time: `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
-            available: !isBooked && hasEnoughTime && slotTime > new Date()
-          });
-        }
-      }
-
+      const slots = await fetchAvailableTimeSlots(barberId, manualFormData.date, selectedService.duration);
       setTimeSlots(slots);
     } catch (error) {
       logger.error('Error fetching time slots:', error);
@@ -283,6 +293,64 @@ export default function CalendarPage() {
     }, [user, userRole])
   );
 
+  // Keep check-ins and status changes live while the calendar is open
+  useEffect(() => {
+    if (!user || !userRole) return;
+
+    const watchingAppointments = userRole === 'barber' && barberViewMode === 'appointments';
+    if (watchingAppointments && !barberId) return;
+
+    const filter = watchingAppointments ? `barber_id=eq.${barberId}` : `client_id=eq.${user.id}`;
+    const channel = supabase
+      .channel(`calendar-bookings-${filter}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings', filter }, () => {
+        fetchBookings(userRole);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, userRole, barberViewMode, barberId]);
+
+  // Realtime refreshes replace the events; keep the open dialog in step with them
+  useEffect(() => {
+    setSelectedEvent(prev => prev ? events.find(event => event.id === prev.id) || prev : null);
+  }, [events]);
+
+  // Show the booking a notification pointed at once it has loaded, then clear the param
+  // so opening the same notification again shows it again
+  useEffect(() => {
+    if (!bookingIdParam) return;
+
+    const event = events.find(e => e.id === bookingIdParam);
+    if (!event) return;
+
+    const date = new Date(event.start);
+    setCurrentDate(date);
+    setSelectedDate(date);
+    setSelectedEvent(event);
+    setShowEventDialog(true);
+    navigation.setParams({ bookingId: undefined } as never);
+  }, [bookingIdParam, events]);
+
+  // Ask the client to tip on their most recently completed appointment, once per visit
+  useEffect(() => {
+    if (!user || tipPromptedRef.current) return;
+
+    const event = [...events].reverse().find(e => e.extendedProps.clientId === user.id && shouldPromptForTip(toTippableBooking(e)));
+    if (!event) return;
+
+    tipPromptedRef.current = true;
+    setTipEvent(event);
+  }, [events, user]);
+
+  const handleTipped = (bookingId: string, tipStatus: TipStatus) => {
+    setEvents(prev => prev.map(event => event.id === bookingId
+      ? { ...event, extendedProps: { ...event.extendedProps, tipStatus } }
+      : event));
+  };
+
   const fetchUserRole = async () => {
     try {
       logger.log('🔍 [CALENDAR] Fetching user role for user ID:', user?.id);
@@ -329,6 +397,7 @@ export default function CalendarPage() {
         }
 
         logger.log('✅ [CALENDAR] Barber ID found:', barberData.id);
+        setBarberId(barberData.id);
         
         let bookings: any[] = [];
         
@@ -422,6 +491,7 @@ export default function CalendarPage() {
 
         // Fetch barber details for client view or barber bookings view
         let barber = null;
+        let barberUserId: string | null = null;
         if (userRoleToUse === 'client' || (userRoleToUse === 'barber' && barberViewMode === 'bookings')) {
           const { data: barberData } = await supabase
             .from('barbers')
@@ -430,6 +500,7 @@ export default function CalendarPage() {
             .single();
           
           if (barberData) {
+            barberUserId = barberData.user_id;
             const { data: barberProfile } = await supabase
               .from('profiles')
               .select('name')
@@ -459,18 +530,32 @@ export default function CalendarPage() {
           }
         }
 
+        // Every service booked in this appointment, priced at booking time
+        const { data: bookedServices } = await supabase
+          .from('booking_services')
+          .select('name, price, duration')
+          .eq('booking_id', booking.id)
+          .order('position');
+
+        const services = (bookedServices || []).map(s => ({ name: s.name, price: Number(s.price) }));
+        const serviceName = services.length > 0
+          ? services.map(s => s.name).join(' + ')
+          : service?.name || '';
+
         const startDate = new Date(booking.date);
-        const endDate = new Date(startDate.getTime() + (service?.duration || 60) * 60000);
+        const endDate = booking.end_time
+          ? new Date(booking.end_time)
+          : new Date(startDate.getTime() + (service?.duration || 60) * 60000);
 
         // Create different titles based on user role and view mode
         let title = '';
         if (userRoleToUse === 'client') {
-          title = `${service?.name || 'Service'} with ${barber?.name || 'Barber'}`;
+          title = `${serviceName || 'Service'} with ${barber?.name || 'Barber'}`;
         } else if (userRoleToUse === 'barber') {
           if (barberViewMode === 'appointments') {
-            title = `${service?.name || 'Service'} - ${client?.name || booking.guest_name || 'Guest'}`;
+            title = `${serviceName || 'Service'} - ${booking.group_member_name || client?.name || booking.guest_name || 'Guest'}`;
           } else {
-            title = `${service?.name || 'Service'} with ${barber?.name || 'Barber'}`;
+            title = `${serviceName || 'Service'} with ${barber?.name || 'Barber'}`;
           }
         }
 
@@ -489,12 +574,14 @@ export default function CalendarPage() {
               platform_fee: booking.platform_fee,
               barber_payout: booking.barber_payout, // Needed to detect old bookings
               addon_total: booking.addon_total || 0, // Use trigger-maintained value
+              amount_prepaid: booking.amount_prepaid || 0,
             }, historicalServicePrice)
           : getBarberBookingDetails({
           price: booking.price,
           platform_fee: booking.platform_fee,
           barber_payout: booking.barber_payout,
           addon_total: booking.addon_total || 0, // Use trigger-maintained value
+          amount_prepaid: booking.amount_prepaid || 0,
             }, historicalServicePrice);
 
         return {
@@ -506,9 +593,9 @@ export default function CalendarPage() {
           borderColor: theme.colors.secondary,
           textColor: '#FFFFFF',
           extendedProps: {
-            status: booking.status,
-            serviceName: service?.name || '',
-            clientName: client?.name || booking.guest_name || 'Guest',
+            status: booking.status === 'no_show' ? 'missed' : booking.status, // Shown as "missed" in the app
+            serviceName,
+            clientName: booking.group_member_name || client?.name || booking.guest_name || 'Guest',
             barberName: barber?.name || 'Barber',
             barberId: booking.barber_id, // Add barber_id for review functionality
             price: breakdown.total, // Total charged to client or barber payout
@@ -518,9 +605,18 @@ export default function CalendarPage() {
             barberPayout: breakdown.barberPayout || 0,
             totalCharged: breakdown.total,
             addonNames,
+            services,
             isGuest: !client,
             guestEmail: booking.guest_email,
-            guestPhone: booking.guest_phone
+            guestPhone: booking.guest_phone,
+            seriesId: booking.series_id || null,
+            groupId: booking.group_id || null,
+            checkedInAt: booking.checked_in_at || null,
+            serviceStartedAt: booking.service_started_at || null,
+            completedAt: booking.completed_at || null,
+            otherUserId: barberUserId || booking.client_id || null,
+            clientId: booking.client_id || null,
+            tipStatus: booking.tip_status || null
           }
         };
       }));
@@ -617,25 +713,24 @@ export default function CalendarPage() {
 
     setIsMarkingMissed(true);
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ status: 'missed' })
-        .eq('id', selectedEvent.id);
-
-      if (error) throw error;
+      // Stored as no_show; the API also charges the no-show fee from the cancellation policy
+      const result = await bookingService.markNoShow(selectedEvent.id);
 
       Vibration.vibrate(100); // Success haptic feedback
-      const itemType = userRole === 'barber' && barberViewMode === 'appointments' ? 'appointment' : 'booking';
       const itemTypeCapitalized = userRole === 'barber' && barberViewMode === 'appointments' ? 'Appointment' : 'Booking';
-      Alert.alert('Success', `${itemTypeCapitalized} marked as missed`);
+      const feeNote = result.fee?.status === 'succeeded'
+        ? ` A no-show fee of $${result.fee.amount.toFixed(2)} was charged.`
+        : result.fee?.status === 'failed'
+        ? ` The no-show fee could not be charged${result.fee.error ? `: ${result.fee.error}.` : '.'}`
+        : '';
+      Alert.alert('Success', `${itemTypeCapitalized} marked as missed.${feeNote}`);
       setShowEventDialog(false);
       fetchBookings(); // Refresh events
     } catch (error) {
       logger.error('Error marking as missed:', error);
       Vibration.vibrate([100, 100]); // Error haptic feedback
       const itemType = userRole === 'barber' && barberViewMode === 'appointments' ? 'appointment' : 'booking';
-      const itemTypeCapitalized = userRole === 'barber' && barberViewMode === 'appointments' ? 'Appointment' : 'Booking';
-      Alert.alert('Error', `Failed to mark ${itemType} as missed`);
+      Alert.alert('Error', error instanceof Error ? error.message : `Failed to mark ${itemType} as missed`);
     } finally {
       setIsMarkingMissed(false);
     }
@@ -646,12 +741,8 @@ export default function CalendarPage() {
 
     setIsMarkingCompleted(true);
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ status: 'completed' })
-        .eq('id', selectedEvent.id);
-
-      if (error) throw error;
+      // Timestamped by the API so the barber's average service time stays accurate
+      await bookingService.completeBooking(selectedEvent.id);
 
       Vibration.vibrate(100); // Success haptic feedback
       const itemType = userRole === 'barber' && barberViewMode === 'appointments' ? 'appointment' : 'booking';
@@ -664,12 +755,70 @@ export default function CalendarPage() {
       Vibration.vibrate([100, 100]); // Error haptic feedback
       const itemType = userRole === 'barber' && barberViewMode === 'appointments' ? 'appointment' : 'booking';
       const itemTypeCapitalized = userRole === 'barber' && barberViewMode === 'appointments' ? 'Appointment' : 'Booking';
-      Alert.alert('Error', `Failed to mark ${itemType} as completed`);
+      Alert.alert('Error', error instanceof Error ? error.message : `Failed to mark ${itemType} as completed`);
     } finally {
       setIsMarkingCompleted(false);
     }
   };
 
+  const handleCheckIn = async () => {
+    if (!selectedEvent) return;
+
+    setIsCheckingIn(true);
+    try {
+      await bookingService.checkIn(selectedEvent.id);
+      Vibration.vibrate(100); // Success haptic feedback
+      Alert.alert('Checked In', userRole === 'barber' && barberViewMode === 'appointments'
+        ? 'Your client is checked in.'
+        : "Your barber knows you're here.");
+      fetchBookings();
+    } catch (error) {
+      logger.error('Error checking in:', error);
+      Vibration.vibrate([100, 100]); // Error haptic feedback
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to check in');
+    } finally {
+      setIsCheckingIn(false);
+    }
+  };
+
+  const handleStartService = async () => {
+    if (!selectedEvent) return;
+
+    setIsStartingService(true);
+    try {
+      await bookingService.startService(selectedEvent.id);
+      Vibration.vibrate(100); // Success haptic feedback
+      fetchBookings();
+    } catch (error) {
+      logger.error('Error starting appointment:', error);
+      Vibration.vibrate([100, 100]); // Error haptic feedback
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to start appointment');
+    } finally {
+      setIsStartingService(false);
+    }
+  };
+
+  const openCheckInQr = async () => {
+    if (!barberId) return;
+
+    setShowCheckInQr(true);
+    if (checkInCode) return;
+    try {
+      setCheckInCode(await bookingService.getCheckInCode(barberId));
+    } catch (error) {
+      setShowCheckInQr(false);
+      Alert.alert('Error', 'Failed to load your check-in code');
+    }
+  };
+
+  const toLifecycleBooking = (event: CalendarEvent): LifecycleBooking => ({
+    date: event.start,
+    endTime: event.end,
+    status: event.extendedProps.status,
+    checkedInAt: event.extendedProps.checkedInAt,
+    serviceStartedAt: event.extendedProps.serviceStartedAt,
+  });
+
   const handleLeaveReview = async () => {
     if (!selectedEvent) return;
     
@@ -697,10 +846,85 @@ export default function CalendarPage() {
     const itemType = isAppointment ? 'appointment' : 'booking';
     const itemTypeCapitalized = isAppointment ? 'Appointment' : 'Booking';
 
+    // Recurring appointments ask which occurrences to cancel instead
+    if (isAppointment && selectedEvent.extendedProps.seriesId) {
+      setSeriesScopeAction('cancel');
+      return;
+    }
+
+    // Warn clients about the barber's cancellation policy before confirming
+    let policyNote = '';
+    if (!isAppointment) {
+      try {
+        const policy = await bookingService.getCancellationPolicy(selectedEvent.extendedProps.barberId);
+        const hoursUntilStart = (new Date(selectedEvent.start).getTime() - Date.now()) / (60 * 60 * 1000);
+        if (hoursUntilStart < policy.windowHours && policy.noShowFee > 0) {
+          policyNote = `\n\nThis is within ${policy.windowHours} hours of your appointment, so a late cancellation fee of $${policy.noShowFee.toFixed(2)} will be charged.`;
+        } else if (hoursUntilStart >= policy.windowHours) {
+          policyNote = '\n\nYour booking fee will be refunded.';
+        }
+      } catch (error) {
+        logger.error('Error loading cancellation policy:', error);
+      }
+    }
+
+    const cancelSingle = async () => {
+      try {
+        const result = await bookingService.cancelBooking(selectedEvent.id);
+        Vibration.vibrate(100); // Success haptic feedback
+        const outcome = result.refunded
+          ? ' The booking fee will be refunded.'
+          : result.fee?.status === 'succeeded'
+          ? ` A late cancellation fee of $${result.fee.amount.toFixed(2)} was charged.`
+          : '';
+        Alert.alert('Success', `${itemTypeCapitalized} cancelled successfully.${outcome}`);
+        setShowEventDialog(false);
+        fetchBookings(); // Refresh events
+      } catch (error) {
+        logger.error(`Error cancelling ${itemType}:`, error);
+        Vibration.vibrate([100, 100]); // Error haptic feedback
+        Alert.alert('Error', error instanceof Error ? error.message : `Failed to cancel ${itemType}. Please try again.`);
+      }
+    };
+
+    const cancelGroup = async (groupId: string) => {
+      try {
+        const result = await bookingService.cancelGroup(groupId);
+        Vibration.vibrate(100); // Success haptic feedback
+        const outcome = result.refunded
+          ? ' The booking fees will be refunded.'
+          : result.fee?.status === 'succeeded'
+          ? ` A late cancellation fee of $${result.fee.amount.toFixed(2)} was charged.`
+          : '';
+        Alert.alert('Success', `${result.bookings.length} group appointments cancelled.${outcome}`);
+        setShowEventDialog(false);
+        fetchBookings(); // Refresh events
+      } catch (error) {
+        logger.error('Error cancelling group booking:', error);
+        Vibration.vibrate([100, 100]); // Error haptic feedback
+        Alert.alert('Error', error instanceof Error ? error.message : 'Failed to cancel the group. Please try again.');
+      }
+    };
+
+    // Group bookings can cancel one person or everyone at once
+    const { groupId } = selectedEvent.extendedProps;
+    if (groupId) {
+      Alert.alert(
+        `Cancel Group ${itemTypeCapitalized}`,
+        `This ${itemType} is part of a group booking. Cancel just this person, or everyone in the group?${policyNote}`,
+        [
+          { text: 'Keep', style: 'cancel' },
+          { text: 'Just This Person', onPress: cancelSingle },
+          { text: 'Whole Group', style: 'destructive', onPress: () => cancelGroup(groupId) },
+        ]
+      );
+      return;
+    }
+
     // Show confirmation dialog
     Alert.alert(
       `Cancel ${itemTypeCapitalized}`,
-      `Are you sure you want to cancel this ${itemType}? This action cannot be undone.`,
+      `Are you sure you want to cancel this ${itemType}? This action cannot be undone.${policyNote}`,
       [
         {
           text: `Keep ${itemTypeCapitalized}`,
@@ -709,24 +933,102 @@ export default function CalendarPage() {
         {
           text: `Cancel ${itemTypeCapitalized}`,
           style: 'destructive',
-          onPress: async () => {
-            try {
-              await bookingService.cancelBooking(selectedEvent.id);
-              Vibration.vibrate(100); // Success haptic feedback
-              Alert.alert('Success', `${itemTypeCapitalized} cancelled successfully`);
-              setShowEventDialog(false);
-              fetchBookings(); // Refresh events
-            } catch (error) {
-              logger.error(`Error cancelling ${itemType}:`, error);
-              Vibration.vibrate([100, 100]); // Error haptic feedback
-              Alert.alert('Error', `Failed to cancel ${itemType}. Please try again.`);
-            }
-          }
+          onPress: cancelSingle
         }
       ]
     );
   };
 
+  // Clients can move their own upcoming bookings; the barber's cutoff and limit are enforced by the API
+  const canReschedule = (event: CalendarEvent) =>
+    !(userRole === 'barber' && barberViewMode === 'appointments') &&
+    (event.extendedProps.status === 'pending' || event.extendedProps.status === 'confirmed') &&
+    new Date(event.start) > new Date();
+
+  // Barbers move their recurring appointments for one, following or all occurrences
+  const canEditSeries = (event: CalendarEvent) =>
+    userRole === 'barber' && barberViewMode === 'appointments' &&
+    !!event.extendedProps.seriesId &&
+    (event.extendedProps.status === 'pending' || event.extendedProps.status === 'confirmed') &&
+    new Date(event.start) > new Date();
+
+  const openRescheduleModal = (seriesEdit = false) => {
+    setIsSeriesEdit(seriesEdit);
+    setRescheduleDate(null);
+    setRescheduleSlots([]);
+    setSelectedRescheduleSlot(null);
+    setShowEventDialog(false);
+    setShowRescheduleModal(true);
+  };
+
+  const handleRescheduleDateSelect = async (date: Date) => {
+    if (!selectedEvent) return;
+
+    setRescheduleDate(date);
+    setSelectedRescheduleSlot(null);
+    setLoadingRescheduleSlots(true);
+    try {
+      const duration = Math.round(
+        (new Date(selectedEvent.end).getTime() - new Date(selectedEvent.start).getTime()) / 60000
+      );
+      const slots = await fetchAvailableTimeSlots(selectedEvent.extendedProps.barberId, date, duration);
+      setRescheduleSlots(slots.filter(slot => slot.available && slot.slotStart));
+    } finally {
+      setLoadingRescheduleSlots(false);
+    }
+  };
+
+  const handleConfirmReschedule = async () => {
+    if (!selectedEvent || !selectedRescheduleSlot?.slotStart) return;
+
+    if (isSeriesEdit) {
+      setShowRescheduleModal(false);
+      setSeriesScopeAction('edit');
+      return;
+    }
+
+    setIsRescheduling(true);
+    try {
+      await bookingService.rescheduleBooking(selectedEvent.id, selectedRescheduleSlot.slotStart);
+      Vibration.vibrate(100); // Success haptic feedback
+      Alert.alert('Success', `Booking moved to ${formatDate(new Date(selectedRescheduleSlot.slotStart))} at ${formatTime(new Date(selectedRescheduleSlot.slotStart))}`);
+      setShowRescheduleModal(false);
+      fetchBookings(); // Refresh events
+    } catch (error) {
+      logger.error('Error rescheduling booking:', error);
+      Vibration.vibrate([100, 100]); // Error haptic feedback
+      Alert.alert('Could not reschedule', error instanceof Error ? error.message : 'Failed to reschedule booking. Please try again.');
+    } finally {
+      setIsRescheduling(false);
+    }
+  };
+
+  const handleSeriesScope = async (scope: SeriesScope) => {
+    if (!selectedEvent || !seriesScopeAction) return;
+
+    setIsUpdatingSeries(true);
+    try {
+      if (seriesScopeAction === 'cancel') {
+        const { bookings } = await bookingService.cancelSeries(selectedEvent.id, scope);
+        Alert.alert('Success', bookings.length === 1 ? 'Appointment cancelled.' : `${bookings.length} appointments cancelled.`);
+      } else if (selectedRescheduleSlot?.slotStart) {
+        const { created, skipped } = await bookingService.updateSeries(selectedEvent.id, scope, selectedRescheduleSlot.slotStart);
+        const skippedNote = skipped.length > 0 ? ` ${skipped.length} could not be booked and were skipped.` : '';
+        Alert.alert('Success', `${created.length === 1 ? 'Appointment' : `${created.length} appointments`} moved.${skippedNote}`);
+      }
+      Vibration.vibrate(100); // Success haptic feedback
+      setSeriesScopeAction(null);
+      setShowEventDialog(false);
+      fetchBookings(); // Refresh events
+    } catch (error) {
+      logger.error('Error updating recurring appointments:', error);
+      Vibration.vibrate([100, 100]); // Error haptic feedback
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update recurring appointments. Please try again.');
+    } finally {
+      setIsUpdatingSeries(false);
+    }
+  };
+
   const formatTime = (date: Date) => {
     return date.toLocaleTimeString('en-US', {
       hour: 'numeric',
@@ -1048,6 +1350,20 @@ export default function CalendarPage() {
               </TouchableOpacity>
             </View>
           )}
+
+          {/* Check-in QR code for clients arriving at the chair */}
+          {userRole === 'barber' && barberViewMode === 'appointments' && barberId && (
+            <TouchableOpacity
+              onPress={openCheckInQr}
+              style={[tw`mt-3 py-3 rounded-xl items-center border flex-row justify-center`, {
+                backgroundColor: 'rgba(255,255,255,0.05)',
+                borderColor: 'rgba(255,255,255,0.1)'
+              }]}
+            >
+              <QrCode size={16} color={theme.colors.secondary} style={tw`mr-2`} />
+              <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>Show Check-in QR Code</Text>
+            </TouchableOpacity>
+          )}
         </View>
 
           {/* Single Main Calendar Container - Enhanced with glow */}
@@ -1321,9 +1637,17 @@ export default function CalendarPage() {
                   >
                           <View style={tw`flex-row items-center justify-between`}>
                             <View style={tw`flex-1`}>
-                              <Text style={[tw`font-semibold text-sm mb-1`, { color: theme.colors.foreground }]}>
-                        {event.extendedProps.serviceName}
-                      </Text>
+                              <View style={tw`flex-row items-center mb-1`}>
+                                <Text style={[tw`font-semibold text-sm`, { color: theme.colors.foreground }]}>
+                                  {event.extendedProps.serviceName}
+                                </Text>
+                                {event.extendedProps.seriesId && (
+                                  <Repeat size={12} color={theme.colors.mutedForeground} style={tw`ml-1`} />
+                                )}
+                                {event.extendedProps.groupId && (
+                                  <Users size={12} color={theme.colors.mutedForeground} style={tw`ml-1`} />
+                                )}
+                              </View>
                               <Text style={[tw`text-xs mb-2`, { color: 'rgba(255,255,255,0.8)' }]}>
                         {event.extendedProps.clientName}
                       </Text>
@@ -1334,6 +1658,12 @@ export default function CalendarPage() {
                                 }]}>
                                   {formatTime(new Date(event.start))}
                       </Text>
+                                {(event.extendedProps.checkedInAt || event.extendedProps.serviceStartedAt) &&
+                                  event.extendedProps.status !== 'completed' && (
+                                  <Text style={[tw`text-xs ml-2`, { color: '#93c5fd' }]}>
+                                    · {APPOINTMENT_STAGE_LABELS[getAppointmentStage(toLifecycleBooking(event))]}
+                                  </Text>
+                                )}
                     </View>
                             </View>
                             <View style={[tw`px-2 py-1 rounded-full`, {
@@ -1503,11 +1833,56 @@ export default function CalendarPage() {
                       : { backgroundColor: theme.colors.secondary, shadowColor: theme.colors.secondary, shadowOffset: { width: 0, height: 2 }, shadowOpacity: 0.3, shadowRadius: 4, elevation: 4 }
                   ]}>
                     <Text style={[tw`text-xs font-semibold capitalize`, { color: 'white' }]}>
-                      {selectedEvent.extendedProps.status}
+                      {APPOINTMENT_STAGE_LABELS[getAppointmentStage(toLifecycleBooking(selectedEvent))]}
                     </Text>
                   </View>
+                  {selectedEvent.extendedProps.checkedInAt && (
+                    <View style={tw`mt-3`}>
+                      <View style={tw`flex-row items-center justify-between mb-1`}>
+                        <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>Checked in</Text>
+                        <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>
+                          {formatTime(new Date(selectedEvent.extendedProps.checkedInAt))} · {describeArrival(selectedEvent.start, selectedEvent.extendedProps.checkedInAt)}
+                        </Text>
+                      </View>
+                      {selectedEvent.extendedProps.serviceStartedAt && (
+                        <View style={tw`flex-row items-center justify-between mb-1`}>
+                          <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>Service started</Text>
+                          <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>
+                            {formatTime(new Date(selectedEvent.extendedProps.serviceStartedAt))}
+                          </Text>
+                        </View>
+                      )}
+                      {selectedEvent.extendedProps.completedAt && (
+                        <View style={tw`flex-row items-center justify-between`}>
+                          <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>Completed</Text>
+                          <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>
+                            {formatTime(new Date(selectedEvent.extendedProps.completedAt))}
+                          </Text>
+                        </View>
+                      )}
+                    </View>
+                  )}
                 </View>
 
+                {/* Services - itemized when several were booked together */}
+                {selectedEvent.extendedProps.services.length > 1 && (
+                  <View style={tw`mb-4`}>
+                    <Text style={[tw`text-sm font-semibold mb-2`, { color: theme.colors.foreground }]}>
+                      Services
+                    </Text>
+                    {selectedEvent.extendedProps.services.map((bookedService, index) => (
+                      <View key={index} style={tw`flex-row items-center justify-between mb-1`}>
+                        <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                          {bookedService.name}
+                        </Text>
+                        <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>
+                          ${bookedService.price.toFixed(2)}
+                        </Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
+
                 {/* Pricing Section */}
                 {(() => {
                   // Get pricing breakdown based on user role
@@ -1588,8 +1963,50 @@ export default function CalendarPage() {
                   </View>
                 )}
 
+                {/* Check In - the client when they arrive, or the barber for a client at the chair */}
+                {canCheckIn(toLifecycleBooking(selectedEvent)) && (
+                  <View style={tw`mt-6`}>
+                    <TouchableOpacity
+                      onPress={handleCheckIn}
+                      disabled={isCheckingIn}
+                      style={[tw`py-3 rounded-xl items-center flex-row justify-center`, { backgroundColor: '#3b82f6' }]}
+                    >
+                      {isCheckingIn ? (
+                        <ActivityIndicator color="white" size="small" />
+                      ) : (
+                        <>
+                          <LogIn size={16} color="white" style={tw`mr-2`} />
+                          <Text style={tw`font-semibold text-white`}>
+                            {userRole === 'barber' && barberViewMode === 'appointments' ? 'Check In Client' : "I'm Here - Check In"}
+                          </Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Start Service - barber only, once the client is here */}
+                {userRole === 'barber' && barberViewMode === 'appointments' && canStartService(toLifecycleBooking(selectedEvent)) && (
+                  <View style={tw`mt-6`}>
+                    <TouchableOpacity
+                      onPress={handleStartService}
+                      disabled={isStartingService}
+                      style={[tw`py-3 rounded-xl items-center flex-row justify-center`, { backgroundColor: theme.colors.secondary }]}
+                    >
+                      {isStartingService ? (
+                        <ActivityIndicator color="white" size="small" />
+                      ) : (
+                        <>
+                          <Play size={16} color="white" style={tw`mr-2`} />
+                          <Text style={tw`font-semibold text-white`}>Start Service</Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                )}
+
                 {/* Action Buttons */}
-                {selectedEvent.extendedProps.status === 'pending' && (
+                {userRole === 'barber' && barberViewMode === 'appointments' && canComplete(toLifecycleBooking(selectedEvent)) && (
                   <View style={tw`flex-row gap-3 mt-6`}>
                     <TouchableOpacity
                       onPress={handleMarkAsCompleted}
@@ -1609,23 +2026,84 @@ export default function CalendarPage() {
                         <Text style={tw`font-semibold text-white`}>Mark as Completed</Text>
                       )}
                     </TouchableOpacity>
+                    {!selectedEvent.extendedProps.checkedInAt && (
+                      <TouchableOpacity
+                        onPress={handleMarkAsMissed}
+                        disabled={isMarkingMissed}
+                        style={[tw`flex-1 py-3 rounded-xl items-center`, { 
+                          backgroundColor: theme.colors.secondary,
+                          shadowColor: theme.colors.secondary,
+                          shadowOffset: { width: 0, height: 2 },
+                          shadowOpacity: 0.3,
+                          shadowRadius: 4,
+                          elevation: 4
+                        }]}
+                      >
+                        {isMarkingMissed ? (
+                          <ActivityIndicator color="white" size="small" />
+                        ) : (
+                          <Text style={tw`font-semibold text-white`}>Mark as Missed</Text>
+                    )}
+                    </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+
+                {/* Message Button - opens the conversation about this booking */}
+                {selectedEvent.extendedProps.otherUserId && (
+                  <View style={tw`mt-6`}>
                     <TouchableOpacity
-                      onPress={handleMarkAsMissed}
-                      disabled={isMarkingMissed}
-                      style={[tw`flex-1 py-3 rounded-xl items-center`, { 
-                        backgroundColor: theme.colors.secondary,
-                        shadowColor: theme.colors.secondary,
-                        shadowOffset: { width: 0, height: 2 },
-                        shadowOpacity: 0.3,
-                        shadowRadius: 4,
-                        elevation: 4
+                      onPress={() => {
+                        const { otherUserId, clientName, barberName } = selectedEvent.extendedProps;
+                        setShowEventDialog(false);
+                        (navigation as any).navigate('Conversation', {
+                          otherUserId,
+                          bookingId: selectedEvent.id,
+                          title: userRole === 'barber' && barberViewMode === 'appointments' ? clientName : barberName,
+                        });
+                      }}
+                      style={[tw`py-3 rounded-xl items-center border flex-row justify-center`, {
+                        backgroundColor: 'rgba(255,255,255,0.05)',
+                        borderColor: theme.colors.secondary
                       }]}
                     >
-                      {isMarkingMissed ? (
-                        <ActivityIndicator color="white" size="small" />
-                      ) : (
-                        <Text style={tw`font-semibold text-white`}>Mark as Missed</Text>
-                      )}
+                      <MessageCircle size={16} color={theme.colors.secondary} style={tw`mr-2`} />
+                      <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
+                        Message {userRole === 'barber' && barberViewMode === 'appointments'
+                          ? selectedEvent.extendedProps.clientName
+                          : selectedEvent.extendedProps.barberName}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Reschedule Button - for the client's own upcoming bookings */}
+                {canReschedule(selectedEvent) && (
+                  <View style={tw`mt-6`}>
+                    <TouchableOpacity
+                      onPress={() => openRescheduleModal()}
+                      style={[tw`py-3 rounded-xl items-center border`, {
+                        backgroundColor: 'rgba(255,255,255,0.05)',
+                        borderColor: theme.colors.secondary
+                      }]}
+                    >
+                      <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>Reschedule Booking</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                {/* Edit Recurring Button - for the barber's upcoming series appointments */}
+                {canEditSeries(selectedEvent) && (
+                  <View style={tw`mt-6`}>
+                    <TouchableOpacity
+                      onPress={() => openRescheduleModal(true)}
+                      style={[tw`py-3 rounded-xl items-center border flex-row justify-center`, {
+                        backgroundColor: 'rgba(255,255,255,0.05)',
+                        borderColor: theme.colors.secondary
+                      }]}
+                    >
+                      <Repeat size={16} color={theme.colors.secondary} style={tw`mr-2`} />
+                      <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>Edit Recurring Appointment</Text>
                     </TouchableOpacity>
                   </View>
                 )}
@@ -1657,6 +2135,33 @@ export default function CalendarPage() {
                   </View>
                 )}
 
+                {/* Tip Button for Completed Bookings the user was the client on */}
+                {selectedEvent.extendedProps.clientId === user?.id && !getTipBlocker(toTippableBooking(selectedEvent)) && (
+                  <View style={tw`mt-6`}>
+                    <TouchableOpacity
+                      onPress={() => {
+                        setTipEvent(selectedEvent);
+                        setShowEventDialog(false);
+                      }}
+                      style={[tw`py-3 rounded-xl items-center`, {
+                        backgroundColor: theme.colors.secondary,
+                        shadowColor: theme.colors.secondary,
+                        shadowOffset: { width: 0, height: 2 },
+                        shadowOpacity: 0.3,
+                        shadowRadius: 4,
+                        elevation: 4
+                      }]}
+                    >
+                      <Text style={[tw`font-semibold`, { color: theme.colors.background }]}>Leave a Tip</Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+                {selectedEvent.extendedProps.clientId === user?.id && selectedEvent.extendedProps.tipStatus === 'succeeded' && (
+                  <Text style={[tw`text-sm text-center mt-4`, { color: theme.colors.mutedForeground }]}>
+                    You tipped on this appointment
+                  </Text>
+                )}
+
                 {/* Leave Review Button for Completed Bookings/Appointments */}
                 {selectedEvent.extendedProps.status === 'completed' && userRole === 'client' && (
                   <View style={tw`mt-6`}>
@@ -1681,6 +2186,44 @@ export default function CalendarPage() {
         </View>
       </Modal>
 
+      {/* Check-in QR Code Modal */}
+      <Modal
+        visible={showCheckInQr}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setShowCheckInQr(false)}
+      >
+        <View style={tw`flex-1 bg-black/70 justify-center items-center px-6`}>
+          <View style={[tw`w-full rounded-3xl p-6 items-center`, {
+            backgroundColor: theme.colors.background,
+            borderWidth: 1,
+            borderColor: 'rgba(255,255,255,0.1)'
+          }]}>
+            <View style={tw`w-full flex-row items-center justify-between mb-2`}>
+              <Text style={[tw`text-xl font-bold`, { color: theme.colors.foreground }]}>Check-in QR Code</Text>
+              <TouchableOpacity onPress={() => setShowCheckInQr(false)}>
+                <X size={24} color={theme.colors.mutedForeground} />
+              </TouchableOpacity>
+            </View>
+            <Text style={[tw`text-sm mb-4`, { color: theme.colors.mutedForeground }]}>
+              Clients scan this with their phone camera when they arrive to check in to their appointment with you.
+            </Text>
+            {checkInCode ? (
+              <View style={[tw`p-4 rounded-xl`, { backgroundColor: theme.colors.foreground }]}>
+                <QRCode
+                  value={getCheckInUrl(checkInCode)}
+                  size={220}
+                  color={theme.colors.primary}
+                  backgroundColor={theme.colors.foreground}
+                />
+              </View>
+            ) : (
+              <ActivityIndicator color={theme.colors.secondary} size="large" style={tw`my-10`} />
+            )}
+          </View>
+        </View>
+      </Modal>
+
       {/* Manual Appointment Form Modal */}
       {/* TODO: Re-enable manual appointment feature later */}
       {false && (
@@ -1958,6 +2501,173 @@ export default function CalendarPage() {
 
 
 
+      {/* Reschedule Modal */}
+      <Modal
+        visible={showRescheduleModal}
+        animationType="slide"
+        transparent
+        onRequestClose={() => setShowRescheduleModal(false)}
+      >
+        <View style={tw`flex-1 bg-black/50 justify-end`}>
+          <View style={[tw`rounded-t-3xl p-6`, {
+            backgroundColor: theme.colors.background,
+            borderTopWidth: 1,
+            borderColor: 'rgba(255,255,255,0.1)',
+            maxHeight: screenHeight * 0.8,
+          }]}>
+            <View style={tw`flex-row items-center justify-between mb-2`}>
+              <Text style={[tw`text-xl font-bold`, { color: theme.colors.foreground }]}>
+                {isSeriesEdit ? 'Edit Recurring Appointment' : 'Reschedule Booking'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowRescheduleModal(false)}>
+                <X size={24} color={theme.colors.mutedForeground} />
+              </TouchableOpacity>
+            </View>
+            <Text style={[tw`mb-4`, { color: theme.colors.mutedForeground }]}>
+              {isSeriesEdit
+                ? 'Pick the new time, then choose which appointments in the series to move.'
+                : 'Pick a new time. Your booking fee carries over, so you won\'t be charged again.'}
+            </Text>
+
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={tw`mb-4`}>
+              {Array.from({ length: 14 }, (_, i) => {
+                const day = new Date();
+                day.setHours(0, 0, 0, 0);
+                day.setDate(day.getDate() + i);
+                const isSelected = !!rescheduleDate && isSameDay(rescheduleDate, day);
+                return (
+                  <TouchableOpacity
+                    key={day.toISOString()}
+                    onPress={() => handleRescheduleDateSelect(day)}
+                    style={[tw`mr-2 px-4 py-3 rounded-xl items-center`, {
+                      backgroundColor: isSelected ? theme.colors.secondary : 'rgba(255,255,255,0.05)'
+                    }]}
+                  >
+                    <Text style={[tw`text-xs`, { color: isSelected ? theme.colors.background : theme.colors.mutedForeground }]}>
+                      {format(day, 'EEE')}
+                    </Text>
+                    <Text style={[tw`text-lg font-bold`, { color: isSelected ? theme.colors.background : theme.colors.foreground }]}>
+                      {format(day, 'd')}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+
+            {loadingRescheduleSlots ? (
+              <View style={tw`items-center py-8`}>
+                <ActivityIndicator size="small" color={theme.colors.secondary} />
+              </View>
+            ) : rescheduleDate && rescheduleSlots.length === 0 ? (
+              <Text style={[tw`text-center py-8`, { color: theme.colors.mutedForeground }]}>
+                No available times on this date
+              </Text>
+            ) : (
+              <ScrollView style={{ maxHeight: 220 }}>
+                <View style={tw`flex-row flex-wrap -mx-1`}>
+                  {rescheduleSlots.map((slot) => {
+                    const isSelected = selectedRescheduleSlot?.slotStart === slot.slotStart;
+                    return (
+                      <TouchableOpacity
+                        key={slot.slotStart}
+                        onPress={() => setSelectedRescheduleSlot(slot)}
+                        style={tw`w-1/3 px-1 mb-2`}
+                      >
+                        <View style={[tw`rounded-lg py-3 items-center`, {
+                          backgroundColor: isSelected ? theme.colors.secondary : 'rgba(255,255,255,0.05)'
+                        }]}>
+                          <Text style={[tw`text-sm font-medium`, { color: isSelected ? theme.colors.background : theme.colors.foreground }]}>
+                            {formatTimeSlot(slot.time)}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+              </ScrollView>
+            )}
+
+            <TouchableOpacity
+              onPress={handleConfirmReschedule}
+              disabled={!selectedRescheduleSlot || isRescheduling}
+              style={[tw`mt-4 py-3 rounded-xl items-center`, {
+                backgroundColor: theme.colors.secondary,
+                opacity: !selectedRescheduleSlot || isRescheduling ? 0.5 : 1
+              }]}
+            >
+              {isRescheduling ? (
+                <ActivityIndicator color={theme.colors.background} size="small" />
+              ) : (
+                <Text style={[tw`font-semibold`, { color: theme.colors.background }]}>Confirm New Time</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      {/* Recurring Series Scope Modal */}
+      <Modal
+        visible={!!seriesScopeAction}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setSeriesScopeAction(null)}
+      >
+        <View style={tw`flex-1 bg-black/50 justify-center px-6`}>
+          <View style={[tw`rounded-2xl p-6`, {
+            backgroundColor: theme.colors.background,
+            borderWidth: 1,
+            borderColor: 'rgba(255,255,255,0.1)',
+          }]}>
+            <Text style={[tw`text-lg font-bold mb-1`, { color: theme.colors.foreground }]}>
+              {seriesScopeAction === 'cancel' ? 'Cancel Recurring Appointment' : 'Move Recurring Appointment'}
+            </Text>
+            <Text style={[tw`mb-4`, { color: theme.colors.mutedForeground }]}>
+              {seriesScopeAction === 'cancel'
+                ? 'Which appointments in this series do you want to cancel?'
+                : 'Which appointments in this series do you want to move?'}
+            </Text>
+            {isUpdatingSeries ? (
+              <View style={tw`items-center py-6`}>
+                <ActivityIndicator size="small" color={theme.colors.secondary} />
+              </View>
+            ) : (
+              <>
+                {(Object.keys(SERIES_SCOPE_LABELS) as SeriesScope[]).map((scope) => (
+                  <TouchableOpacity
+                    key={scope}
+                    onPress={() => handleSeriesScope(scope)}
+                    style={[tw`py-3 rounded-xl items-center mb-2`, {
+                      backgroundColor: seriesScopeAction === 'cancel' ? 'rgba(239, 68, 68, 0.15)' : 'rgba(255,255,255,0.05)'
+                    }]}
+                  >
+                    <Text style={[tw`font-semibold`, {
+                      color: seriesScopeAction === 'cancel' ? '#ef4444' : theme.colors.foreground
+                    }]}>
+                      {SERIES_SCOPE_LABELS[scope]}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity onPress={() => setSeriesScopeAction(null)} style={tw`py-3 items-center`}>
+                  <Text style={{ color: theme.colors.mutedForeground }}>Back</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Tip Sheet */}
+      {tipEvent && (
+        <TipSheet
+          isVisible={!!tipEvent}
+          onClose={() => setTipEvent(null)}
+          bookingId={tipEvent.id}
+          barberName={tipEvent.extendedProps.barberName}
+          serviceTotal={tipEvent.extendedProps.basePrice + tipEvent.extendedProps.addonTotal}
+          onTipped={tipStatus => handleTipped(tipEvent.id, tipStatus)}
+        />
+      )}
+
       {/* Review Form Modal */}
       {reviewFormData && (
         <ReviewForm
@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Text,
+  TextInput,
+  Image,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as ImagePicker from 'expo-image-picker';
+import * as FileSystem from 'expo-file-system';
+import tw from 'twrnc';
+import { ArrowLeft, Check, CheckCheck, ImagePlus, Send, X } from 'lucide-react-native';
+import { ConversationSummary, Message, MessageStatus, RootStackParamList } from '../shared/types';
+import { theme } from '../shared/lib/theme';
+import { logger } from '../shared/lib/logger';
+import { messagingService } from '../shared/lib/messaging';
+import { validateImageContent, validateMessageContent } from '../shared/lib/contentModeration';
+import { useAuth } from '../shared/hooks/useAuth';
+import { MessageAttachment, useConversationMessages } from '../shared/hooks/useConversationMessages';
+
+type ConversationNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Conversation'>;
+type ConversationRouteProp = RouteProp<RootStackParamList, 'Conversation'>;
+
+function ReceiptIcon({ status }: { status: MessageStatus }) {
+  if (status === 'sent') {
+    return <Check size={12} color={theme.colors.mutedForeground} />;
+  }
+  return <CheckCheck size={12} color={status === 'read' ? theme.colors.saffronBrown : theme.colors.mutedForeground} />;
+}
+
+export default function ConversationPage() {
+  const navigation = useNavigation<ConversationNavigationProp>();
+  const route = useRoute<ConversationRouteProp>();
+  const { user } = useAuth();
+  const [conversationId, setConversationId] = useState<string | null>(route.params?.conversationId || null);
+  const [conversation, setConversation] = useState<ConversationSummary | null>(null);
+  const { messages, attachmentUrls, loading, sending, sendMessage } = useConversationMessages(conversationId);
+  const [text, setText] = useState('');
+  const [attachment, setAttachment] = useState<MessageAttachment | null>(null);
+  const listRef = useRef<FlatList<Message>>(null);
+
+  // Opened from a booking or a profile: start (or reopen) the conversation with that user
+  useEffect(() => {
+    if (conversationId || !route.params?.otherUserId) return;
+
+    messagingService.startConversation(route.params.otherUserId, route.params.bookingId)
+      .then(setConversationId)
+      .catch(error => {
+        Alert.alert('Could not start conversation', error instanceof Error ? error.message : 'Please try again');
+        navigation.goBack();
+      });
+  }, [route.params?.otherUserId]);
+
+  useEffect(() => {
+    if (!conversationId || !user) return;
+    messagingService.getConversation(conversationId, user.id)
+      .then(setConversation)
+      .catch(error => logger.error('Error loading conversation details:', error));
+  }, [conversationId, user?.id]);
+
+  const title = conversation?.other_user.name || route.params?.title || 'Messages';
+
+  const pickPhoto = async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission needed', 'Please grant photo library permissions to send photos.');
+      return;
+    }
+
+    try {
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      const asset = result.assets[0];
+      const mimeType = asset.mimeType || 'image/jpeg';
+      const info = await FileSystem.getInfoAsync(asset.uri);
+      const size = info.exists && 'size' in info ? info.size : 0;
+      const validation = await validateImageContent(asset.uri, size, mimeType);
+      if (!validation.isValid) {
+        Alert.alert('Photo Not Allowed', validation.reason || 'Please choose a different photo.');
+        return;
+      }
+      setAttachment({ uri: asset.uri, mimeType });
+    } catch (error) {
+      logger.error('Error picking photo:', error);
+      Alert.alert('Error', 'Failed to select photo');
+    }
+  };
+
+  const handleSend = async () => {
+    const messageText = text.trim();
+    if (!messageText && !attachment) return;
+
+    const validation = validateMessageContent(messageText);
+    if (!validation.isValid) {
+      Alert.alert('Message not sent', validation.reason || 'Please change your message and try again.');
+      return;
+    }
+
+    try {
+      await sendMessage(messageText, attachment);
+      setText('');
+      setAttachment(null);
+    } catch (error) {
+      Alert.alert('Message not sent', error instanceof Error ? error.message : 'Please try again');
+    }
+  };
+
+  const renderMessage = ({ item }: { item: Message }) => {
+    const mine = item.sender_id === user?.id;
+    const imageUrl = item.attachment_path ? attachmentUrls[item.attachment_path] : null;
+    return (
+      <View style={[tw`mb-2 flex-row`, { justifyContent: mine ? 'flex-end' : 'flex-start' }]}>
+        <View
+          style={[
+            tw`rounded-2xl px-3 py-2`,
+            {
+              maxWidth: '78%',
+              borderWidth: 1,
+              backgroundColor: mine ? 'rgba(199, 142, 63, 0.18)' : theme.colors.glass,
+              borderColor: mine ? 'rgba(199, 142, 63, 0.3)' : theme.colors.glassBorder,
+            },
+          ]}
+        >
+          {item.attachment_path && (
+            imageUrl ? (
+              <Image source={{ uri: imageUrl }} style={[tw`rounded-xl mb-1`, { width: 200, height: 200 }]} resizeMode="cover" />
+            ) : (
+              <View style={[tw`rounded-xl mb-1 items-center justify-center`, { width: 200, height: 200, backgroundColor: theme.colors.glass }]}>
+                <ActivityIndicator color={theme.colors.saffronBrown} />
+              </View>
+            )
+          )}
+          {!!item.text && <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>{item.text}</Text>}
+          <View style={tw`flex-row items-center justify-end mt-1`}>
+            <Text style={[tw`text-xs mr-1`, { color: theme.colors.mutedForeground }]}>
+              {new Date(item.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+            </Text>
+            {mine && <ReceiptIcon status={item.status} />}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+      <KeyboardAvoidingView style={tw`flex-1`} behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
+        <View style={[tw`flex-row items-center px-4 py-3`, { borderBottomWidth: 1, borderColor: theme.colors.glassBorder }]}>
+          <TouchableOpacity onPress={() => navigation.goBack()} style={tw`mr-3 p-1`}>
+            <ArrowLeft size={22} color={theme.colors.foreground} />
+          </TouchableOpacity>
+          <View style={tw`flex-1`}>
+            <Text numberOfLines={1} style={[tw`text-lg font-bold`, { color: theme.colors.foreground }]}>{title}</Text>
+            {conversation?.booking_id && (
+              <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>About a booking</Text>
+            )}
+          </View>
+        </View>
+
+        {loading ? (
+          <View style={tw`flex-1 items-center justify-center`}>
+            <ActivityIndicator size="large" color={theme.colors.saffronBrown} />
+          </View>
+        ) : (
+          <FlatList
+            ref={listRef}
+            data={messages}
+            keyExtractor={item => item.id}
+            renderItem={renderMessage}
+            contentContainerStyle={tw`px-4 py-3`}
+            onContentSizeChange={() => listRef.current?.scrollToEnd({ animated: true })}
+            ListEmptyComponent={
+              <Text style={[tw`text-center py-16 px-6`, { color: theme.colors.mutedForeground }]}>
+                Say hi, share a reference photo, or let {title} know you&apos;re running late.
+              </Text>
+            }
+          />
+        )}
+
+        {attachment && (
+          <View style={tw`flex-row items-center px-4 pt-2`}>
+            <Image source={{ uri: attachment.uri }} style={tw`w-14 h-14 rounded-lg mr-2`} />
+            <TouchableOpacity onPress={() => setAttachment(null)} style={tw`p-1`}>
+              <X size={18} color={theme.colors.mutedForeground} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={[tw`flex-row items-end px-3 py-2`, { borderTopWidth: 1, borderColor: theme.colors.glassBorder }]}>
+          <TouchableOpacity onPress={pickPhoto} disabled={!conversationId} style={tw`p-2`}>
+            <ImagePlus size={22} color={theme.colors.mutedForeground} />
+          </TouchableOpacity>
+          <TextInput
+            value={text}
+            onChangeText={setText}
+            placeholder="Write a message"
+            placeholderTextColor={theme.colors.mutedForeground}
+            multiline
+            maxLength={1000}
+            style={[
+              tw`flex-1 px-3 py-2 rounded-2xl text-sm`,
+              { maxHeight: 120, color: theme.colors.foreground, backgroundColor: theme.colors.glass, borderWidth: 1, borderColor: theme.colors.glassBorder },
+            ]}
+          />
+          <TouchableOpacity
+            onPress={handleSend}
+            disabled={!conversationId || sending || (!text.trim() && !attachment)}
+            style={[tw`ml-2 p-2.5 rounded-full`, { backgroundColor: theme.colors.saffronBrown }]}
+          >
+            {sending ? <ActivityIndicator size="small" color="#fff" /> : <Send size={18} color="#fff" />}
+          </TouchableOpacity>
+        </View>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
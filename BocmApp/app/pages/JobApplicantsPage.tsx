@@ -0,0 +1,198 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Text,
+  Image,
+  Alert,
+  ScrollView,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import tw from 'twrnc';
+import { ArrowLeft, MapPin, Scissors, Star, Users } from 'lucide-react-native';
+import { JobApplicant, JobApplicationStatus, RootStackParamList } from '../shared/types';
+import { theme } from '../shared/lib/theme';
+import { logger } from '../shared/lib/logger';
+import { APPLICATION_STATUS_LABELS, jobBoardService } from '../shared/lib/jobBoard';
+
+type JobApplicantsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'JobApplicants'>;
+type JobApplicantsRouteProp = RouteProp<RootStackParamList, 'JobApplicants'>;
+
+export default function JobApplicantsPage() {
+  const navigation = useNavigation<JobApplicantsNavigationProp>();
+  const route = useRoute<JobApplicantsRouteProp>();
+  const { jobId, title, applicationId } = route.params;
+  const [applicants, setApplicants] = useState<JobApplicant[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    jobBoardService.getApplicants(jobId)
+      .then(setApplicants)
+      .catch(error => logger.error('Error loading applicants:', error))
+      .finally(() => setLoading(false));
+  }, [jobId]);
+
+  const updateStatus = async (applicant: JobApplicant, status: Exclude<JobApplicationStatus, 'pending'>) => {
+    setUpdatingId(applicant.id);
+    try {
+      await jobBoardService.setApplicationStatus(applicant.id, status);
+      setApplicants(prev => prev.map(item => (item.id === applicant.id ? { ...item, status } : item)));
+    } catch (error) {
+      Alert.alert('Could not update the application', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  // Decisions are final, so confirm them
+  const confirmDecision = (applicant: JobApplicant, status: 'accepted' | 'rejected') => {
+    Alert.alert(
+      status === 'accepted' ? 'Accept application?' : 'Decline application?',
+      `${applicant.barber.name} will be notified.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: status === 'accepted' ? 'Accept' : 'Decline',
+          style: status === 'accepted' ? 'default' : 'destructive',
+          onPress: () => updateStatus(applicant, status),
+        },
+      ]
+    );
+  };
+
+  const renderApplicant = ({ item }: { item: JobApplicant }) => {
+    const decided = item.status === 'accepted' || item.status === 'rejected';
+    const busy = updatingId === item.id;
+    return (
+      <View
+        style={[
+          tw`p-4 mb-3 rounded-2xl`,
+          {
+            backgroundColor: theme.colors.glass,
+            borderWidth: 1,
+            borderColor: item.id === applicationId ? 'rgba(199, 142, 63, 0.6)' : theme.colors.glassBorder,
+          },
+        ]}
+      >
+        <TouchableOpacity
+          style={tw`flex-row items-center mb-2`}
+          onPress={() => navigation.navigate('ProfilePreview', { barberId: item.barber_id })}
+        >
+          {item.barber.avatar_url ? (
+            <Image source={{ uri: item.barber.avatar_url }} style={tw`w-11 h-11 rounded-full mr-3`} />
+          ) : (
+            <View style={[tw`w-11 h-11 rounded-full mr-3 items-center justify-center`, { backgroundColor: theme.colors.glass }]}>
+              <Text style={[tw`font-semibold`, { color: theme.colors.foreground }]}>{item.barber.name.charAt(0).toUpperCase()}</Text>
+            </View>
+          )}
+          <View style={tw`flex-1`}>
+            <Text style={[tw`font-semibold`, { color: theme.colors.foreground }]}>{item.barber.name}</Text>
+            <Text style={[tw`text-xs`, { color: theme.colors.saffronBrown }]}>{APPLICATION_STATUS_LABELS[item.status]}</Text>
+          </View>
+        </TouchableOpacity>
+
+        <View style={tw`flex-row flex-wrap items-center mb-2`}>
+          <Star size={13} color={theme.colors.saffronBrown} />
+          <Text style={[tw`text-xs ml-1 mr-3`, { color: theme.colors.mutedForeground }]}>
+            {item.average_rating != null
+              ? `${Number(item.average_rating).toFixed(1)} (${item.review_count} reviews)`
+              : 'No reviews yet'}
+          </Text>
+          <Scissors size={13} color={theme.colors.mutedForeground} />
+          <Text style={[tw`text-xs ml-1 mr-3`, { color: theme.colors.mutedForeground }]}>{item.cut_count} cuts</Text>
+          {item.barber.location && (
+            <>
+              <MapPin size={13} color={theme.colors.mutedForeground} />
+              <Text style={[tw`text-xs ml-1`, { color: theme.colors.mutedForeground }]}>{item.barber.location}</Text>
+            </>
+          )}
+        </View>
+
+        {item.barber.specialties.length > 0 && (
+          <Text style={[tw`text-xs mb-2`, { color: theme.colors.mutedForeground }]}>{item.barber.specialties.join(' · ')}</Text>
+        )}
+        {!!item.cover_letter && (
+          <Text style={[tw`text-sm mb-2`, { color: theme.colors.foreground }]}>{item.cover_letter}</Text>
+        )}
+
+        {item.cuts.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={tw`mb-2`}>
+            {item.cuts.map(cut => (
+              <TouchableOpacity
+                key={cut.id}
+                onPress={() => navigation.navigate('Cuts', { cutId: cut.id, barberId: item.barber_id })}
+              >
+                {cut.thumbnail ? (
+                  <Image source={{ uri: cut.thumbnail }} style={tw`w-16 h-20 rounded-lg mr-2`} />
+                ) : (
+                  <View style={[tw`w-16 h-20 rounded-lg mr-2 items-center justify-center`, { backgroundColor: theme.colors.glass }]}>
+                    <Scissors size={16} color={theme.colors.mutedForeground} />
+                  </View>
+                )}
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {!decided && (
+          <View style={tw`flex-row justify-end items-center mt-1`}>
+            {busy && <ActivityIndicator size="small" color={theme.colors.saffronBrown} style={tw`mr-3`} />}
+            {item.status === 'pending' && (
+              <TouchableOpacity disabled={busy} onPress={() => updateStatus(item, 'reviewing')} style={tw`px-3 py-2`}>
+                <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>Reviewing</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity disabled={busy} onPress={() => confirmDecision(item, 'rejected')} style={tw`px-3 py-2`}>
+              <Text style={[tw`text-sm`, { color: theme.colors.destructive }]}>Decline</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              disabled={busy}
+              onPress={() => confirmDecision(item, 'accepted')}
+              style={[tw`px-4 py-2 rounded-full ml-1`, { backgroundColor: theme.colors.saffronBrown }]}
+            >
+              <Text style={tw`text-sm font-semibold text-white`}>Accept</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+      <View style={tw`flex-row items-center px-4 pt-4 pb-2`}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={tw`mr-3 p-1`}>
+          <ArrowLeft size={22} color={theme.colors.foreground} />
+        </TouchableOpacity>
+        <View style={tw`flex-1`}>
+          <Text style={[tw`text-2xl font-bold`, { color: theme.colors.foreground }]}>Applicants</Text>
+          {title && <Text numberOfLines={1} style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>{title}</Text>}
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={tw`flex-1 items-center justify-center`}>
+          <ActivityIndicator size="large" color={theme.colors.saffronBrown} />
+        </View>
+      ) : (
+        <FlatList
+          data={applicants}
+          keyExtractor={item => item.id}
+          renderItem={renderApplicant}
+          contentContainerStyle={tw`px-4 pb-24 pt-2`}
+          ListEmptyComponent={
+            <View style={tw`items-center py-16`}>
+              <Users size={36} color={theme.colors.mutedForeground} />
+              <Text style={[tw`mt-3`, { color: theme.colors.mutedForeground }]}>No applications yet</Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
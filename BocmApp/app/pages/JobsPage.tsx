@@ -0,0 +1,561 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Text,
+  TextInput,
+  Modal,
+  ScrollView,
+  Alert,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import * as Location from 'expo-location';
+import tw from 'twrnc';
+import { ArrowLeft, Briefcase, DollarSign, LocateFixed, MapPin, Plus, Search, X } from 'lucide-react-native';
+import { JobPost, JobType, RootStackParamList } from '../shared/types';
+import { theme } from '../shared/lib/theme';
+import { logger } from '../shared/lib/logger';
+import { useAuth } from '../shared/hooks/useAuth';
+import { validateJobContent } from '../shared/lib/contentModeration';
+import {
+  APPLICATION_STATUS_LABELS,
+  JOB_TYPE_LABELS,
+  MyJobApplication,
+  filterJobsNear,
+  jobBoardService,
+  parseRequirements,
+} from '../shared/lib/jobBoard';
+
+type JobsNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Jobs'>;
+type JobsRouteProp = RouteProp<RootStackParamList, 'Jobs'>;
+type JobsTab = 'browse' | 'applications' | 'posts';
+
+const RADIUS_OPTIONS = [10, 25, 50, 100];
+
+const inputStyle = [
+  tw`px-3 py-2.5 rounded-xl text-sm mb-3`,
+  { color: theme.colors.foreground, backgroundColor: theme.colors.glass, borderWidth: 1, borderColor: theme.colors.glassBorder },
+];
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  return (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[
+        tw`px-3 py-1.5 mr-2 rounded-full`,
+        {
+          borderWidth: 1,
+          backgroundColor: active ? 'rgba(199, 142, 63, 0.15)' : 'transparent',
+          borderColor: active ? 'rgba(199, 142, 63, 0.4)' : theme.colors.glassBorder,
+        },
+      ]}
+    >
+      <Text style={[tw`text-sm`, { color: active ? theme.colors.saffronBrown : theme.colors.mutedForeground }]}>{label}</Text>
+    </TouchableOpacity>
+  );
+}
+
+function JobSummary({ job }: { job: JobPost }) {
+  return (
+    <>
+      <View style={tw`flex-row items-center mb-1`}>
+        <Text numberOfLines={1} style={[tw`font-semibold text-base flex-1 mr-2`, { color: theme.colors.foreground }]}>
+          {job.title}
+        </Text>
+        <Text style={[tw`text-xs`, { color: theme.colors.saffronBrown }]}>{JOB_TYPE_LABELS[job.job_type]}</Text>
+      </View>
+      <Text style={[tw`text-sm mb-2`, { color: theme.colors.mutedForeground }]}>{job.business_name}</Text>
+      <View style={tw`flex-row flex-wrap items-center mb-1`}>
+        <MapPin size={14} color={theme.colors.mutedForeground} />
+        <Text style={[tw`text-xs ml-1 mr-3`, { color: theme.colors.mutedForeground }]}>
+          {job.location}
+          {job.distance !== undefined ? ` · ${job.distance.toFixed(1)} mi` : ''}
+        </Text>
+        {job.compensation && (
+          <>
+            <DollarSign size={14} color={theme.colors.mutedForeground} />
+            <Text style={[tw`text-xs ml-1`, { color: theme.colors.mutedForeground }]}>{job.compensation}</Text>
+          </>
+        )}
+      </View>
+    </>
+  );
+}
+
+export default function JobsPage() {
+  const navigation = useNavigation<JobsNavigationProp>();
+  const route = useRoute<JobsRouteProp>();
+  const { user, userProfile } = useAuth();
+  const isBarber = userProfile?.role === 'barber';
+  const [tab, setTab] = useState<JobsTab>('browse');
+  const [jobs, setJobs] = useState<JobPost[]>([]);
+  const [applications, setApplications] = useState<MyJobApplication[]>([]);
+  const [postedJobs, setPostedJobs] = useState<JobPost[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [jobType, setJobType] = useState<JobType | 'all'>('all');
+  const [origin, setOrigin] = useState<{ latitude: number; longitude: number } | null>(null);
+  const [radius, setRadius] = useState(25);
+  const [selectedJob, setSelectedJob] = useState<JobPost | null>(null);
+  const [coverLetter, setCoverLetter] = useState('');
+  const [showPostForm, setShowPostForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [form, setForm] = useState({
+    jobType: 'chair_rental' as JobType,
+    title: '',
+    businessName: '',
+    location: '',
+    compensation: '',
+    description: '',
+    requirements: '',
+  });
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await jobBoardService.getOpenJobs({ search, jobType }));
+    } catch (error) {
+      logger.error('Error loading jobs:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [search, jobType]);
+
+  const loadMine = useCallback(async () => {
+    if (!user || !isBarber) return;
+    try {
+      const [mine, posted] = await Promise.all([
+        jobBoardService.getMyApplications(user.id),
+        jobBoardService.getPostedJobs(user.id),
+      ]);
+      setApplications(mine);
+      setPostedJobs(posted);
+    } catch (error) {
+      logger.error('Error loading my jobs:', error);
+    }
+  }, [user?.id, isBarber]);
+
+  useEffect(() => {
+    const timeout = setTimeout(loadJobs, 300);
+    return () => clearTimeout(timeout);
+  }, [loadJobs]);
+
+  useEffect(() => {
+    loadMine();
+  }, [loadMine]);
+
+  useEffect(() => {
+    setForm(prev => ({
+      ...prev,
+      businessName: prev.businessName || userProfile?.business_name || userProfile?.name || '',
+      location: prev.location || userProfile?.location || '',
+    }));
+  }, [userProfile?.id]);
+
+  // Opened from a notification: applicants see their applications, posters the job's applicants
+  useEffect(() => {
+    const applicationId = route.params?.applicationId;
+    if (!applicationId || !user) return;
+
+    jobBoardService.getApplication(applicationId)
+      .then(application => {
+        if (!application) return;
+        if (application.applicant_id === user.id) {
+          setTab('applications');
+        } else {
+          navigation.navigate('JobApplicants', {
+            jobId: application.job_id,
+            title: application.job?.title,
+            applicationId,
+          });
+        }
+      })
+      .catch(error => logger.error('Error opening application:', error));
+  }, [route.params?.applicationId, user?.id]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await Promise.all([loadJobs(), loadMine()]);
+    setRefreshing(false);
+  };
+
+  const locateMe = async () => {
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Location needed', 'Allow location access to find jobs near you.');
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      setOrigin({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+    } catch (error) {
+      logger.error('Error getting location for jobs:', error);
+      Alert.alert('Error', 'Could not get your location');
+    }
+  };
+
+  const handleApply = async () => {
+    if (!selectedJob || !user) return;
+
+    const validation = validateJobContent(coverLetter, 'coverLetter');
+    if (!validation.isValid) {
+      Alert.alert('Check your cover letter', validation.reason);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await jobBoardService.apply(selectedJob.id, user.id, coverLetter);
+      Alert.alert('Application sent', `${selectedJob.business_name} will see your profile, cuts and reviews.`);
+      setSelectedJob(null);
+      setCoverLetter('');
+      loadMine();
+    } catch (error) {
+      Alert.alert('Could not apply', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!user) return;
+    if (!form.title.trim() || !form.businessName.trim() || !form.location.trim()) {
+      Alert.alert('Missing details', 'Add a title, your shop name and its location.');
+      return;
+    }
+
+    const validation = validateJobContent([form.title, form.description, form.requirements].join('\n'), 'post');
+    if (!validation.isValid) {
+      Alert.alert('Check your job post', validation.reason);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await jobBoardService.createJob(user.id, {
+        business_name: form.businessName,
+        job_type: form.jobType,
+        title: form.title,
+        description: form.description,
+        requirements: parseRequirements(form.requirements),
+        compensation: form.compensation,
+        location: form.location,
+      });
+      setShowPostForm(false);
+      setForm(prev => ({ ...prev, title: '', compensation: '', description: '', requirements: '' }));
+      setTab('posts');
+      loadJobs();
+      loadMine();
+    } catch (error) {
+      Alert.alert('Could not post the job', error instanceof Error ? error.message : 'Please try again');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleWithdraw = (application: MyJobApplication) => {
+    Alert.alert('Withdraw application?', `Your application to ${application.job.business_name} will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Withdraw',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await jobBoardService.withdraw(application.id);
+            setApplications(prev => prev.filter(item => item.id !== application.id));
+          } catch (error) {
+            Alert.alert('Error', 'Could not withdraw the application');
+          }
+        },
+      },
+    ]);
+  };
+
+  const appliedJobIds = new Set(applications.map(application => application.job_id));
+  const visibleJobs = origin ? filterJobsNear(jobs, origin, radius) : jobs;
+
+  const cardStyle = [
+    tw`p-4 mb-3 rounded-2xl`,
+    { backgroundColor: theme.colors.glass, borderWidth: 1, borderColor: theme.colors.glassBorder },
+  ];
+
+  const renderJob = ({ item }: { item: JobPost }) => (
+    <TouchableOpacity onPress={() => setSelectedJob(item)} style={cardStyle}>
+      <JobSummary job={item} />
+      <Text numberOfLines={2} style={[tw`text-sm mt-1`, { color: theme.colors.foreground }]}>{item.description}</Text>
+      {appliedJobIds.has(item.id) && (
+        <Text style={[tw`text-xs mt-2 font-semibold`, { color: theme.colors.saffronBrown }]}>Applied</Text>
+      )}
+    </TouchableOpacity>
+  );
+
+  const renderApplication = ({ item }: { item: MyJobApplication }) => (
+    <View style={cardStyle}>
+      <JobSummary job={item.job} />
+      <View style={tw`flex-row items-center justify-between mt-2`}>
+        <Text style={[tw`text-sm font-semibold`, { color: theme.colors.saffronBrown }]}>
+          {APPLICATION_STATUS_LABELS[item.status]}
+        </Text>
+        {item.status === 'pending' && (
+          <TouchableOpacity onPress={() => handleWithdraw(item)}>
+            <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>Withdraw</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  const renderPost = ({ item }: { item: JobPost }) => (
+    <TouchableOpacity
+      onPress={() => navigation.navigate('JobApplicants', { jobId: item.id, title: item.title })}
+      style={cardStyle}
+    >
+      <JobSummary job={item} />
+      <View style={tw`flex-row items-center justify-between mt-2`}>
+        <Text style={[tw`text-xs capitalize`, { color: theme.colors.mutedForeground }]}>{item.status}</Text>
+        <Text style={[tw`text-sm font-semibold`, { color: theme.colors.saffronBrown }]}>View applicants</Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const emptyText = {
+    browse: origin ? `No open jobs within ${radius} miles` : 'No open jobs right now',
+    applications: "You haven't applied to any jobs yet",
+    posts: 'Renting out a chair or hiring? Post a job and barbers near you can apply.',
+  }[tab];
+
+  const refreshControl = (
+    <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.saffronBrown} />
+  );
+  const listProps = {
+    contentContainerStyle: tw`px-4 pb-24 pt-2`,
+    refreshControl,
+    ListEmptyComponent: (
+      <View style={tw`items-center py-16 px-6`}>
+        <Briefcase size={36} color={theme.colors.mutedForeground} />
+        <Text style={[tw`mt-3 text-center`, { color: theme.colors.mutedForeground }]}>{emptyText}</Text>
+      </View>
+    ),
+  };
+
+  return (
+    <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+      <View style={tw`px-4 pt-4 pb-2`}>
+        <View style={tw`flex-row items-center justify-between mb-3`}>
+          <View style={tw`flex-row items-center`}>
+            <TouchableOpacity onPress={() => navigation.goBack()} style={tw`mr-3 p-1`}>
+              <ArrowLeft size={22} color={theme.colors.foreground} />
+            </TouchableOpacity>
+            <Text style={[tw`text-2xl font-bold`, { color: theme.colors.foreground }]}>Jobs</Text>
+          </View>
+          {isBarber && (
+            <TouchableOpacity
+              onPress={() => setShowPostForm(true)}
+              style={[tw`flex-row items-center px-3 py-2 rounded-full`, { backgroundColor: theme.colors.saffronBrown }]}
+            >
+              <Plus size={16} color="#fff" />
+              <Text style={tw`ml-1 text-sm font-semibold text-white`}>Post a job</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {isBarber && (
+          <View style={tw`flex-row mb-3`}>
+            <Chip label="Browse" active={tab === 'browse'} onPress={() => setTab('browse')} />
+            <Chip label="Applied" active={tab === 'applications'} onPress={() => setTab('applications')} />
+            <Chip label="My posts" active={tab === 'posts'} onPress={() => setTab('posts')} />
+          </View>
+        )}
+
+        {tab === 'browse' && (
+          <>
+            <View style={[tw`flex-row items-center px-3 rounded-xl mb-2`, { backgroundColor: theme.colors.glass, borderWidth: 1, borderColor: theme.colors.glassBorder }]}>
+              <Search size={16} color={theme.colors.mutedForeground} />
+              <TextInput
+                value={search}
+                onChangeText={setSearch}
+                placeholder="Search by title, shop or city"
+                placeholderTextColor={theme.colors.mutedForeground}
+                style={[tw`flex-1 py-2.5 ml-2 text-sm`, { color: theme.colors.foreground }]}
+              />
+            </View>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={tw`mb-1`}>
+              <Chip label="All" active={jobType === 'all'} onPress={() => setJobType('all')} />
+              {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map(type => (
+                <Chip key={type} label={JOB_TYPE_LABELS[type]} active={jobType === type} onPress={() => setJobType(type)} />
+              ))}
+              {origin ? (
+                <>
+                  {RADIUS_OPTIONS.map(option => (
+                    <Chip key={option} label={`${option} mi`} active={radius === option} onPress={() => setRadius(option)} />
+                  ))}
+                  <Chip label="Anywhere" active={false} onPress={() => setOrigin(null)} />
+                </>
+              ) : (
+                <TouchableOpacity onPress={locateMe} style={tw`flex-row items-center px-3 py-1.5`}>
+                  <LocateFixed size={14} color={theme.colors.saffronBrown} />
+                  <Text style={[tw`ml-1 text-sm`, { color: theme.colors.saffronBrown }]}>Near me</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          </>
+        )}
+      </View>
+
+      {loading ? (
+        <View style={tw`flex-1 items-center justify-center`}>
+          <ActivityIndicator size="large" color={theme.colors.saffronBrown} />
+        </View>
+      ) : tab === 'browse' ? (
+        <FlatList data={visibleJobs} keyExtractor={item => item.id} renderItem={renderJob} {...listProps} />
+      ) : tab === 'applications' ? (
+        <FlatList data={applications} keyExtractor={item => item.id} renderItem={renderApplication} {...listProps} />
+      ) : (
+        <FlatList data={postedJobs} keyExtractor={item => item.id} renderItem={renderPost} {...listProps} />
+      )}
+
+      {/* Job details and apply */}
+      <Modal visible={!!selectedJob} animationType="slide" transparent onRequestClose={() => setSelectedJob(null)}>
+        <View style={tw`flex-1 bg-black/50 justify-end`}>
+          <View style={[tw`rounded-t-3xl p-6`, { backgroundColor: theme.colors.background, maxHeight: '85%' }]}>
+            {selectedJob && (
+              <ScrollView>
+                <View style={tw`flex-row justify-end`}>
+                  <TouchableOpacity onPress={() => setSelectedJob(null)}>
+                    <X size={22} color={theme.colors.mutedForeground} />
+                  </TouchableOpacity>
+                </View>
+                <JobSummary job={selectedJob} />
+                <Text style={[tw`text-sm my-3`, { color: theme.colors.foreground }]}>{selectedJob.description}</Text>
+                {selectedJob.requirements.length > 0 && (
+                  <View style={tw`mb-3`}>
+                    <Text style={[tw`font-semibold mb-1`, { color: theme.colors.foreground }]}>Requirements</Text>
+                    {selectedJob.requirements.map(requirement => (
+                      <Text key={requirement} style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>• {requirement}</Text>
+                    ))}
+                  </View>
+                )}
+
+                {selectedJob.poster_id === user?.id ? (
+                  <Text style={[tw`text-sm text-center py-3`, { color: theme.colors.mutedForeground }]}>This is your job post</Text>
+                ) : appliedJobIds.has(selectedJob.id) ? (
+                  <Text style={[tw`text-sm text-center py-3`, { color: theme.colors.saffronBrown }]}>You applied to this job</Text>
+                ) : isBarber ? (
+                  <>
+                    <Text style={[tw`text-xs mb-2`, { color: theme.colors.mutedForeground }]}>
+                      Your BOCM profile, cuts and review stats are sent with your application.
+                    </Text>
+                    <TextInput
+                      value={coverLetter}
+                      onChangeText={setCoverLetter}
+                      placeholder="Introduce yourself: your experience, your clientele, when you can start (optional)"
+                      placeholderTextColor={theme.colors.mutedForeground}
+                      multiline
+                      maxLength={2000}
+                      style={[...inputStyle, { minHeight: 100, textAlignVertical: 'top' }]}
+                    />
+                    <TouchableOpacity
+                      onPress={handleApply}
+                      disabled={submitting}
+                      style={[tw`py-3 rounded-xl items-center`, { backgroundColor: theme.colors.saffronBrown }]}
+                    >
+                      {submitting ? <ActivityIndicator color="#fff" /> : <Text style={tw`font-semibold text-white`}>Apply</Text>}
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <Text style={[tw`text-sm text-center py-3`, { color: theme.colors.mutedForeground }]}>
+                    Barbers can apply with their BOCM profile
+                  </Text>
+                )}
+              </ScrollView>
+            )}
+          </View>
+        </View>
+      </Modal>
+
+      {/* Post a job */}
+      <Modal visible={showPostForm} animationType="slide" transparent onRequestClose={() => setShowPostForm(false)}>
+        <View style={tw`flex-1 bg-black/50 justify-end`}>
+          <View style={[tw`rounded-t-3xl p-6`, { backgroundColor: theme.colors.background, maxHeight: '90%' }]}>
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <View style={tw`flex-row items-center justify-between mb-4`}>
+                <Text style={[tw`text-xl font-bold`, { color: theme.colors.foreground }]}>Post a job</Text>
+                <TouchableOpacity onPress={() => setShowPostForm(false)}>
+                  <X size={22} color={theme.colors.mutedForeground} />
+                </TouchableOpacity>
+              </View>
+              <View style={tw`flex-row mb-3`}>
+                {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map(type => (
+                  <Chip
+                    key={type}
+                    label={JOB_TYPE_LABELS[type]}
+                    active={form.jobType === type}
+                    onPress={() => setForm(prev => ({ ...prev, jobType: type }))}
+                  />
+                ))}
+              </View>
+              <TextInput
+                value={form.title}
+                onChangeText={title => setForm(prev => ({ ...prev, title }))}
+                placeholder="Title, e.g. Chair available in a busy downtown shop"
+                placeholderTextColor={theme.colors.mutedForeground}
+                maxLength={120}
+                style={inputStyle}
+              />
+              <TextInput
+                value={form.businessName}
+                onChangeText={businessName => setForm(prev => ({ ...prev, businessName }))}
+                placeholder="Shop name"
+                placeholderTextColor={theme.colors.mutedForeground}
+                style={inputStyle}
+              />
+              <TextInput
+                value={form.location}
+                onChangeText={location => setForm(prev => ({ ...prev, location }))}
+                placeholder="Location (street, city)"
+                placeholderTextColor={theme.colors.mutedForeground}
+                style={inputStyle}
+              />
+              <TextInput
+                value={form.compensation}
+                onChangeText={compensation => setForm(prev => ({ ...prev, compensation }))}
+                placeholder="Pay or rent, e.g. $250/week or 60% commission"
+                placeholderTextColor={theme.colors.mutedForeground}
+                style={inputStyle}
+              />
+              <TextInput
+                value={form.description}
+                onChangeText={description => setForm(prev => ({ ...prev, description }))}
+                placeholder="The shop, the hours, what the chair or role comes with"
+                placeholderTextColor={theme.colors.mutedForeground}
+                multiline
+                maxLength={5000}
+                style={[...inputStyle, { minHeight: 100, textAlignVertical: 'top' }]}
+              />
+              <TextInput
+                value={form.requirements}
+                onChangeText={requirements => setForm(prev => ({ ...prev, requirements }))}
+                placeholder="Requirements, one per line"
+                placeholderTextColor={theme.colors.mutedForeground}
+                multiline
+                style={[...inputStyle, { minHeight: 70, textAlignVertical: 'top' }]}
+              />
+              <TouchableOpacity
+                onPress={handlePost}
+                disabled={submitting}
+                style={[tw`py-3 rounded-xl items-center mb-4`, { backgroundColor: theme.colors.saffronBrown }]}
+              >
+                {submitting ? <ActivityIndicator color="#fff" /> : <Text style={tw`font-semibold text-white`}>Post job</Text>}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
@@ -27,6 +27,8 @@ import { AnimatedBackground } from '../shared/components/AnimatedBackground';
 import { AnimatedText } from '../shared/components/AnimatedText';
 import { ActionButton } from '../shared/components/ActionButton';
 
+const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || 'https://www.bocmstyle.com';
+
 type RootStackParamList = {
   Home: undefined;
   Login: undefined;
@@ -331,10 +333,16 @@ export default function LoginPage() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     
     try {
-      const { error } = await supabase.auth.resetPasswordForEmail(email);
+      // The server sends the link in the app's own email template
+      const response = await fetch(`${API_BASE_URL}/api/auth/email-link`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, type: 'password_reset' }),
+      });
       
-      if (error) {
-        Alert.alert('Error', error.message);
+      if (!response.ok) {
+        const { error } = await response.json().catch(() => ({ error: null }));
+        Alert.alert('Error', error || 'Failed to send reset email. Please try again.');
       } else {
         Alert.alert(
           'Check Your Email',
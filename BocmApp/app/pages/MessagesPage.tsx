@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import {
+  View,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Text,
+  Image,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import tw from 'twrnc';
+import { ArrowLeft, MessageCircle } from 'lucide-react-native';
+import { ConversationSummary, RootStackParamList } from '../shared/types';
+import { theme } from '../shared/lib/theme';
+import { useAuth } from '../shared/hooks/useAuth';
+import { useConversations } from '../shared/hooks/useConversations';
+
+type MessagesNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Messages'>;
+
+export default function MessagesPage() {
+  const navigation = useNavigation<MessagesNavigationProp>();
+  const { user } = useAuth();
+  const { conversations, loading, refresh } = useConversations();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const renderConversation = ({ item }: { item: ConversationSummary }) => {
+    const unread = item.unread_count > 0;
+    return (
+      <TouchableOpacity
+        onPress={() => navigation.navigate('Conversation', { conversationId: item.id, title: item.other_user.name })}
+        style={[
+          tw`flex-row items-center p-4 mb-2 rounded-2xl`,
+          {
+            backgroundColor: unread ? 'rgba(199, 142, 63, 0.12)' : theme.colors.glass,
+            borderWidth: 1,
+            borderColor: unread ? 'rgba(199, 142, 63, 0.3)' : theme.colors.glassBorder,
+          },
+        ]}
+      >
+        {item.other_user.avatar_url ? (
+          <Image source={{ uri: item.other_user.avatar_url }} style={tw`w-11 h-11 rounded-full mr-3`} />
+        ) : (
+          <View style={[tw`w-11 h-11 rounded-full mr-3 items-center justify-center`, { backgroundColor: theme.colors.glass }]}>
+            <Text style={[tw`font-semibold`, { color: theme.colors.foreground }]}>
+              {item.other_user.name.charAt(0).toUpperCase()}
+            </Text>
+          </View>
+        )}
+        <View style={tw`flex-1`}>
+          <View style={tw`flex-row items-center justify-between mb-1`}>
+            <Text
+              numberOfLines={1}
+              style={[tw`font-semibold text-sm flex-1 mr-2`, { color: unread ? theme.colors.saffronBrown : theme.colors.foreground }]}
+            >
+              {item.other_user.name}
+            </Text>
+            {item.last_message_at && (
+              <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>
+                {new Date(item.last_message_at).toLocaleDateString()}
+              </Text>
+            )}
+          </View>
+          <View style={tw`flex-row items-center`}>
+            <Text numberOfLines={1} style={[tw`text-sm flex-1`, { color: theme.colors.mutedForeground }]}>
+              {item.last_message_sender_id === user?.id ? 'You: ' : ''}
+              {item.last_message_text || 'No messages yet'}
+            </Text>
+            {unread && (
+              <View style={[tw`ml-2 px-1.5 rounded-full items-center justify-center`, { minWidth: 20, height: 20, backgroundColor: theme.colors.destructive }]}>
+                <Text style={tw`text-white text-xs font-bold`}>{item.unread_count > 99 ? '99+' : item.unread_count}</Text>
+              </View>
+            )}
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+      <View style={tw`flex-row items-center px-4 pt-4 pb-2`}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={tw`mr-3 p-1`}>
+          <ArrowLeft size={22} color={theme.colors.foreground} />
+        </TouchableOpacity>
+        <Text style={[tw`text-2xl font-bold`, { color: theme.colors.foreground }]}>Messages</Text>
+      </View>
+
+      {loading ? (
+        <View style={tw`flex-1 items-center justify-center`}>
+          <ActivityIndicator size="large" color={theme.colors.saffronBrown} />
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          keyExtractor={item => item.id}
+          renderItem={renderConversation}
+          contentContainerStyle={tw`px-4 pb-24 pt-2`}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.saffronBrown} />
+          }
+          ListEmptyComponent={
+            <View style={tw`items-center py-16 px-6`}>
+              <MessageCircle size={36} color={theme.colors.mutedForeground} />
+              <Text style={[tw`mt-3 text-center`, { color: theme.colors.mutedForeground }]}>
+                No messages yet. Message a barber from their profile, or anyone you have a booking with from your calendar.
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
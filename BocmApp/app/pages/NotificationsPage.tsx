@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  View,
+  SafeAreaView,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  Text,
+  RefreshControl,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import tw from 'twrnc';
+import { Bell, CheckCheck, ChevronRight, MessageCircle } from 'lucide-react-native';
+import { RootStackParamList } from '../shared/types';
+import { theme } from '../shared/lib/theme';
+import { getNotificationTarget, InboxNotification } from '../shared/lib/notificationInbox';
+import { useNotificationInbox } from '../shared/hooks/useNotificationInbox';
+import { useConversations } from '../shared/hooks/useConversations';
+
+type NotificationsNavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type InboxFilter = 'all' | 'unread';
+
+export default function NotificationsPage() {
+  const navigation = useNavigation<NotificationsNavigationProp>();
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead, refresh } = useNotificationInbox(100);
+  const { unreadCount: unreadMessages } = useConversations();
+  const [filter, setFilter] = useState<InboxFilter>('all');
+  const [refreshing, setRefreshing] = useState(false);
+
+  const visible = filter === 'unread' ? notifications.filter(n => !n.read) : notifications;
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await refresh();
+    setRefreshing(false);
+  };
+
+  const handleOpen = async (notification: InboxNotification) => {
+    await markAsRead(notification.id);
+    const target = getNotificationTarget(notification);
+    if (target) {
+      navigation.navigate(target.screen as any, target.params as any);
+    }
+  };
+
+  const renderNotification = ({ item }: { item: InboxNotification }) => (
+    <TouchableOpacity
+      onPress={() => handleOpen(item)}
+      style={[
+        tw`flex-row items-center p-4 mb-2 rounded-2xl`,
+        {
+          backgroundColor: item.read ? theme.colors.glass : 'rgba(199, 142, 63, 0.12)',
+          borderWidth: 1,
+          borderColor: item.read ? theme.colors.glassBorder : 'rgba(199, 142, 63, 0.3)',
+        },
+      ]}
+    >
+      <View style={tw`flex-1`}>
+        <View style={tw`flex-row items-center mb-1`}>
+          {!item.read && (
+            <View style={[tw`w-2 h-2 rounded-full mr-2`, { backgroundColor: theme.colors.destructive }]} />
+          )}
+          <Text style={[tw`font-semibold text-sm`, { color: item.read ? theme.colors.foreground : theme.colors.saffronBrown }]}>
+            {item.title}
+          </Text>
+        </View>
+        <Text style={[tw`text-sm mb-1`, { color: theme.colors.mutedForeground }]}>{item.message}</Text>
+        <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>
+          {new Date(item.created_at).toLocaleString()}
+        </Text>
+      </View>
+      {getNotificationTarget(item) && <ChevronRight size={18} color={theme.colors.mutedForeground} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+      <View style={tw`px-4 pt-4 pb-2`}>
+        <View style={tw`flex-row items-center justify-between mb-3`}>
+          <View>
+            <Text style={[tw`text-2xl font-bold`, { color: theme.colors.foreground }]}>Notifications</Text>
+            <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+              {unreadCount > 0 ? `${unreadCount} unread` : "You're all caught up"}
+            </Text>
+          </View>
+          <View style={tw`flex-row items-center`}>
+            {unreadCount > 0 && (
+              <TouchableOpacity onPress={markAllAsRead} style={tw`flex-row items-center px-3 py-2`}>
+                <CheckCheck size={16} color={theme.colors.saffronBrown} />
+                <Text style={[tw`ml-1 text-sm font-medium`, { color: theme.colors.saffronBrown }]}>Mark all read</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => navigation.navigate('Messages')} style={tw`p-2`}>
+              <MessageCircle size={22} color={theme.colors.foreground} />
+              {unreadMessages > 0 && (
+                <View
+                  style={[
+                    tw`absolute top-0 right-0 px-1 rounded-full items-center justify-center`,
+                    { minWidth: 16, height: 16, backgroundColor: theme.colors.destructive },
+                  ]}
+                >
+                  <Text style={tw`text-white text-xs font-bold`}>{unreadMessages > 9 ? '9+' : unreadMessages}</Text>
+                </View>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={tw`flex-row`}>
+          {(['all', 'unread'] as InboxFilter[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              onPress={() => setFilter(option)}
+              style={[
+                tw`px-4 py-1.5 mr-2 rounded-full`,
+                {
+                  borderWidth: 1,
+                  backgroundColor: filter === option ? 'rgba(199, 142, 63, 0.15)' : 'transparent',
+                  borderColor: filter === option ? 'rgba(199, 142, 63, 0.4)' : theme.colors.glassBorder,
+                },
+              ]}
+            >
+              <Text style={[tw`text-sm`, { color: filter === option ? theme.colors.saffronBrown : theme.colors.mutedForeground }]}>
+                {option === 'all' ? 'All' : 'Unread'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={tw`flex-1 items-center justify-center`}>
+          <ActivityIndicator size="large" color={theme.colors.saffronBrown} />
+        </View>
+      ) : (
+        <FlatList
+          data={visible}
+          keyExtractor={item => item.id}
+          renderItem={renderNotification}
+          contentContainerStyle={tw`px-4 pb-24 pt-2`}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} tintColor={theme.colors.saffronBrown} />
+          }
+          ListEmptyComponent={
+            <View style={tw`items-center py-16`}>
+              <Bell size={36} color={theme.colors.mutedForeground} />
+              <Text style={[tw`mt-3`, { color: theme.colors.mutedForeground }]}>
+                {filter === 'unread' ? 'No unread notifications' : 'No notifications yet'}
+              </Text>
+            </View>
+          }
+        />
+      )}
+    </SafeAreaView>
+  );
+}
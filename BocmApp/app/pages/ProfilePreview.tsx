@@ -14,7 +14,7 @@ import {
 import { useRoute, useNavigation, RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList } from '../shared/types';
-import { ArrowLeft, Calendar, MapPin, Star, Video as VideoIcon, Heart, Users, History, Camera, Loader2, Eye, Clock, Share2, Flag, Ban, MoreVertical } from 'lucide-react-native';
+import { ArrowLeft, Calendar, MapPin, Star, Video as VideoIcon, Heart, Users, History, Camera, Loader2, Eye, Clock, Share2, Flag, Ban, MoreVertical, MessageCircle } from 'lucide-react-native';
 import tw from 'twrnc';
 import { theme } from '../shared/lib/theme';
 import { supabase } from '../shared/lib/supabase';
@@ -736,6 +736,21 @@ export default function ProfilePreview() {
               Book Appointment
             </Text>
           </TouchableOpacity>
+
+            {!isOwnProfile && (
+              <TouchableOpacity
+                style={[
+                  tw`p-2 rounded-full`,
+                  { backgroundColor: 'rgba(255, 255, 255, 0.1)' }
+                ]}
+                onPress={() => {
+                  if (!profile) return;
+                  navigation.navigate('Conversation', { otherUserId: profile.id, title: profile.name });
+                }}
+              >
+                <MessageCircle size={20} color={theme.colors.foreground} />
+              </TouchableOpacity>
+            )}
             
             {/* Report/Block Menu - Only show if not own profile */}
             {!isOwnProfile && (
@@ -24,6 +24,7 @@ import { AddonsSettings } from '../shared/components/settings/AddonsSettings';
 import { ShareSettings } from '../shared/components/settings/ShareSettings';
 import { AvailabilityManager } from '../shared/components/settings/AvailabilityManager';
 import { EarningsDashboard } from '../shared/components/settings/EarningsDashboard';
+import { NotificationSettings } from '../shared/components/settings/NotificationSettings';
 import { Button, Card, CardContent } from '../shared/components/ui';
 import { 
   User, 
@@ -38,7 +39,10 @@ import {
   CheckCircle,
   RefreshCw,
   FileText,
-  Shield
+  Shield,
+  Bell,
+  Briefcase,
+  ChevronRight
 } from 'lucide-react-native';
 import type { Tab, SettingsData } from '../shared/types/settings.types';
 import { useAccountDeletionHelper } from '../shared/helpers/accountDeletionHelper';
@@ -184,13 +188,14 @@ export default function SettingsPage() {
 
   const tabs = [
     { id: 'profile' as Tab, label: 'Profile', icon: User },
+    { id: 'notifications' as Tab, label: 'Notifications', icon: Bell },
     { id: 'services' as Tab, label: 'Services', icon: Scissors },
     { id: 'earnings' as Tab, label: 'Earnings', icon: DollarSign },
     { id: 'addons' as Tab, label: 'Add-ons', icon: Package },
     { id: 'availability' as Tab, label: 'Schedule', icon: Calendar },
   ];
 
-  const visibleTabs = isBarber ? tabs : tabs.filter(tab => tab.id === 'profile');
+  const visibleTabs = isBarber ? tabs : tabs.filter(tab => tab.id === 'profile' || tab.id === 'notifications');
 
   if (isLoading) {
     return (
@@ -273,6 +278,10 @@ export default function SettingsPage() {
           {activeTab === 'profile' && (
             <ProfileSettings onUpdate={loadSettingsData} />
           )}
+
+          {activeTab === 'notifications' && (
+            <NotificationSettings />
+          )}
           
           {activeTab === 'services' && isBarber && (
             <ServicesSettings onUpdate={loadSettingsData} />
@@ -291,6 +300,31 @@ export default function SettingsPage() {
           )}
         </View>
 
+        {/* Job Board */}
+        {isBarber && (
+          <View style={tw`px-6 mt-8`}>
+            <Card style={{ backgroundColor: 'rgba(255,255,255,0.05)' }}>
+              <CardContent style={tw`p-4`}>
+                <TouchableOpacity
+                  style={tw`flex-row items-center`}
+                  onPress={() => navigation.navigate('Jobs')}
+                >
+                  <Briefcase size={18} color={theme.colors.secondary} style={tw`mr-3`} />
+                  <View style={tw`flex-1`}>
+                    <Text style={[tw`text-base font-semibold`, { color: theme.colors.foreground }]}>
+                      Job Board
+                    </Text>
+                    <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                      Chair rentals and open positions
+                    </Text>
+                  </View>
+                  <ChevronRight size={18} color={theme.colors.mutedForeground} />
+                </TouchableOpacity>
+              </CardContent>
+            </Card>
+          </View>
+        )}
+
         {/* Legal Information */}
         <View style={tw`px-6 mt-8`}>
           <Card style={{ backgroundColor: 'rgba(255,255,255,0.05)' }}>
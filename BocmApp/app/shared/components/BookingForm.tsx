@@ -17,6 +17,7 @@ import { format, addDays, isToday, isSameDay } from 'date-fns';
 import Icon from 'react-native-vector-icons/Feather';
 import { RootStackParamList } from '../types';
 import { bookingService, Service, TimeSlot } from '../lib/bookingService';
+import { waitlistService, WaitlistEntry } from '../lib/waitlistService';
 import * as WebBrowser from 'expo-web-browser';
 import { initStripe, confirmPayment, presentPaymentSheet, CardField } from '@stripe/stripe-react-native';
 
@@ -35,7 +36,14 @@ import { useAuth } from '../hooks/useAuth';
 import { theme } from '../lib/theme';
 import { supabase } from '../lib/supabase';
 import { notificationService, formatAppointmentTime } from '../lib/notifications';
+import { DEFAULT_BARBER_TIMEZONE, formatTimeInZone, getAppointmentTimeLabels, getDeviceTimeZone, isSameOffset } from '../lib/timezoneUtils';
 import { logger } from '../lib/logger';
+import { GroupTiming, MAX_GROUP_SIZE, getGroupSchedule, getGroupSlotDuration } from '../lib/groupBooking';
+import { calculatePaymentSplit } from '../lib/servicePrepayment';
+import { calculatePromoDiscount, describePromoCode, promoCodeService } from '../lib/promoCodes';
+import { calculatePrepaidCredit, describePrepaidBalance, prepaidBalanceService } from '../lib/prepaidBalances';
+import type { PrepaidBalance, PromoCodePreview } from '../types';
+import { calculateBookingFee, DEFAULT_FEE_SCHEDULE, FeeTerms, feeScheduleService } from '../lib/feeSchedule';
 
 type BookingFormNavigationProp = NativeStackNavigationProp<RootStackParamList, 'BookingCalendar'>;
 
@@ -48,6 +56,13 @@ interface BookingFormProps {
   onBookingCreated: (booking: any) => void;
 }
 
+// A person already added to a group booking; the person being picked is the last one
+interface GroupMemberSelection {
+  name: string;
+  services: Service[];
+  addonIds: string[];
+}
+
 interface CalendarDay {
   date: Date;
   dayName: string;
@@ -72,7 +87,8 @@ export default function BookingForm({
   const [currentStep, setCurrentStep] = useState(1);
   const [services, setServices] = useState<Service[]>([]);
   const [addons, setAddons] = useState<ServiceAddon[]>([]);
-  const [selectedService, setSelectedService] = useState<Service | null>(null);
+  // Services in the order they were picked; the first is the booking's primary service
+  const [selectedServices, setSelectedServices] = useState<Service[]>([]);
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string>('');
   const [timeSlots, setTimeSlots] = useState<TimeSlot[]>([]);
@@ -80,6 +96,11 @@ export default function BookingForm({
   const [loading, setLoading] = useState(false);
   const [loadingSlots, setLoadingSlots] = useState(false);
   const [bookingLoading, setBookingLoading] = useState(false);
+  const [waitlistEntry, setWaitlistEntry] = useState<WaitlistEntry | null>(null);
+  const [waitlistLoading, setWaitlistLoading] = useState(false);
+  const [groupMembers, setGroupMembers] = useState<GroupMemberSelection[]>([]);
+  const [memberName, setMemberName] = useState('');
+  const [groupTiming, setGroupTiming] = useState<GroupTiming>('back_to_back');
   
   // Form data
   const [guestInfo, setGuestInfo] = useState({
@@ -91,17 +112,41 @@ export default function BookingForm({
   
   const [paymentType, setPaymentType] = useState<'fee'>('fee');
   const [isDeveloperAccount, setIsDeveloperAccount] = useState(false);
+  const [barberTimeZone, setBarberTimeZone] = useState(DEFAULT_BARBER_TIMEZONE);
+  const [feeSchedule, setFeeSchedule] = useState<FeeTerms>(DEFAULT_FEE_SCHEDULE);
+  const [promoCodeInput, setPromoCodeInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoCodePreview | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [checkingPromo, setCheckingPromo] = useState(false);
+  const [prepaidBalances, setPrepaidBalances] = useState<PrepaidBalance[]>([]);
+  const [selectedBalanceId, setSelectedBalanceId] = useState<string | null>(null);
 
   const totalSteps = 5; // Added step 5 for card input
 
+  const selectedService = selectedServices[0] || null;
+  const additionalServiceIds = selectedServices.slice(1).map(service => service.id);
+  const totalServiceDuration = selectedServices.reduce((total, service) => total + service.duration, 0);
+  const totalServicePrice = selectedServices.reduce((total, service) => total + service.price, 0);
+  const selectedServiceNames = selectedServices.map(service => service.name).join(' + ');
+
+  // Group mode starts once a first person is added; everyone shares one checkout
+  const isGroupBooking = groupMembers.length > 0;
+  const groupPeople: GroupMemberSelection[] = isGroupBooking
+    ? [...groupMembers, { name: memberName.trim() || `Guest ${groupMembers.length + 1}`, services: selectedServices, addonIds: selectedAddonIds }]
+    : [];
+  const groupDurations = groupPeople.map(person => person.services.reduce((total, service) => total + service.duration, 0));
+  const slotDuration = isGroupBooking ? getGroupSlotDuration(groupDurations, groupTiming) : totalServiceDuration;
+
   useEffect(() => {
     if (isVisible) {
       fetchServices();
       fetchBarberStatus();
+      fetchFeeSchedule();
       setCurrentStep(1);
       
       // Pre-populate user info if logged in
       if (user) {
+        fetchPrepaidBalances(user.id);
         setGuestInfo(prev => ({
           ...prev,
           name: userProfile?.name || '',
@@ -116,7 +161,7 @@ export default function BookingForm({
     if (preSelectedService && services.length > 0) {
       const matchingService = services.find(service => service.id === preSelectedService.id);
       if (matchingService) {
-        setSelectedService(matchingService);
+        setSelectedServices([matchingService]);
         logger.log('Auto-selected service:', matchingService.name);
         // Auto-advance to next step if service is pre-selected
         if (currentStep === 1) {
@@ -129,10 +174,10 @@ export default function BookingForm({
   }, [preSelectedService, services, currentStep]);
 
   useEffect(() => {
-    if (isVisible && selectedService && selectedDate) {
+    if (isVisible && slotDuration > 0 && selectedDate) {
       fetchTimeSlots();
     }
-  }, [isVisible, selectedService, selectedDate]);
+  }, [isVisible, slotDuration, selectedDate]);
 
   const fetchServices = async () => {
     try {
@@ -192,12 +237,30 @@ export default function BookingForm({
     }
   };
 
+  // The payment is charged under this schedule; the standard one is shown until it loads
+  const fetchFeeSchedule = async () => {
+    try {
+      setFeeSchedule(await feeScheduleService.resolve(barberId));
+    } catch (error) {
+      setFeeSchedule(DEFAULT_FEE_SCHEDULE);
+    }
+  };
+
+  const fetchPrepaidBalances = async (clientId: string) => {
+    try {
+      setPrepaidBalances(await prepaidBalanceService.getUsableBalances(clientId, barberId));
+    } catch (error) {
+      setPrepaidBalances([]);
+    }
+    setSelectedBalanceId(null);
+  };
+
   const fetchBarberStatus = async () => {
     try {
       logger.log('🔍 Checking if barber is developer account:', barberId);
       const { data, error } = await supabase
         .from('barbers')
-        .select('is_developer')
+        .select('is_developer, timezone')
         .eq('id', barberId)
         .single();
 
@@ -210,6 +273,7 @@ export default function BookingForm({
       const isDev = data?.is_developer || false;
       logger.log(`✅ Barber developer status: ${isDev ? 'DEVELOPER' : 'REGULAR'}`);
       setIsDeveloperAccount(isDev);
+      setBarberTimeZone(data?.timezone || DEFAULT_BARBER_TIMEZONE);
     } catch (error) {
       logger.error('❌ Error fetching barber status:', error);
       setIsDeveloperAccount(false);
@@ -235,12 +299,20 @@ export default function BookingForm({
         bookingService.getAvailableSlots(
           barberId,
           dateStr,
-          selectedService.duration
+          slotDuration
         ),
         timeoutPromise
       ]) as TimeSlot[];
       
       setTimeSlots(slots);
+
+      // A fully booked day offers the waitlist, so show whether the client is already on it
+      setWaitlistEntry(null);
+      if (user && slots.length > 0 && slots.every(slot => !slot.available)) {
+        waitlistService.getActiveEntry(barberId, dateStr)
+          .then(setWaitlistEntry)
+          .catch(error => logger.error('Error loading waitlist entry:', error));
+      }
     } catch (error) {
       logger.error('Error fetching time slots:', error);
       const errorMessage = error instanceof Error && error.message === 'Request timeout'
@@ -254,7 +326,29 @@ export default function BookingForm({
   };
 
   const handleServiceSelect = (service: Service) => {
-    setSelectedService(service);
+    setSelectedServices(prev => prev.some(s => s.id === service.id)
+      ? prev.filter(s => s.id !== service.id)
+      : [...prev, service]);
+    setSelectedTime('');
+  };
+
+  // Saves the current selection as a person in the group and starts picking for the next one
+  const handleAddGroupMember = () => {
+    if (!selectedService) return;
+
+    setGroupMembers(prev => [...prev, {
+      name: memberName.trim() || (prev.length === 0 ? userProfile?.name || 'You' : `Guest ${prev.length + 1}`),
+      services: selectedServices,
+      addonIds: selectedAddonIds,
+    }]);
+    setSelectedServices([]);
+    setSelectedAddonIds([]);
+    setMemberName('');
+    setSelectedTime('');
+  };
+
+  const handleRemoveGroupMember = (index: number) => {
+    setGroupMembers(prev => prev.filter((_, i) => i !== index));
     setSelectedTime('');
   };
 
@@ -267,6 +361,35 @@ export default function BookingForm({
     setSelectedTime(time);
   };
 
+  const handleJoinWaitlist = async () => {
+    if (!selectedDate || !selectedService) return;
+
+    try {
+      setWaitlistLoading(true);
+      const entry = await waitlistService.joinWaitlist(barberId, selectedService.id, format(selectedDate, 'yyyy-MM-dd'));
+      setWaitlistEntry(entry);
+      Alert.alert("You're on the waitlist", "We'll notify you if a spot opens up on this day.");
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setWaitlistLoading(false);
+    }
+  };
+
+  const handleLeaveWaitlist = async () => {
+    if (!waitlistEntry) return;
+
+    try {
+      setWaitlistLoading(true);
+      await waitlistService.leaveWaitlist(waitlistEntry.id);
+      setWaitlistEntry(null);
+    } catch (error) {
+      Alert.alert('Error', 'Failed to leave the waitlist. Please try again.');
+    } finally {
+      setWaitlistLoading(false);
+    }
+  };
+
   const validateStep = (): boolean => {
     switch (currentStep) {
       case 1:
@@ -306,6 +429,44 @@ export default function BookingForm({
     }
   };
 
+  // The availability engine returns the exact slot instant; fall back to the picked wall time
+  const getBookingStart = () => {
+    const selectedSlot = timeSlots.find(slot => slot.time === selectedTime);
+    const bookingDate = selectedSlot?.slotStart ? new Date(selectedSlot.slotStart) : new Date(selectedDate!);
+    if (!selectedSlot?.slotStart) {
+      const [hours, minutes] = selectedTime.split(':');
+      bookingDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+    }
+    return bookingDate;
+  };
+
+  // A code is checked against the services and time, so it has to be applied again when they change
+  useEffect(() => {
+    setAppliedPromo(null);
+    setPromoError(null);
+  }, [barberId, selectedServices, selectedTime, isGroupBooking]);
+
+  const handleApplyPromoCode = async () => {
+    if (!promoCodeInput.trim() || !selectedDate || !selectedTime) return;
+
+    setCheckingPromo(true);
+    setPromoError(null);
+    try {
+      const check = await promoCodeService.preview(promoCodeInput, {
+        barberId,
+        serviceIds: selectedServices.map(service => service.id),
+        start: getBookingStart().toISOString(),
+      });
+      setAppliedPromo(check.promo);
+      setPromoError(check.rejection);
+    } catch (error) {
+      logger.error('Error applying promo code:', error);
+      setPromoError('Failed to check the promo code. Please try again.');
+    } finally {
+      setCheckingPromo(false);
+    }
+  };
+
   const handleCreateBooking = async () => {
     if (!selectedService || !selectedDate || !selectedTime) {
       Alert.alert('Error', 'Please complete all required fields.');
@@ -325,9 +486,7 @@ export default function BookingForm({
     setBookingLoading(true);
 
     try {
-      const bookingDate = new Date(selectedDate);
-      const [hours, minutes] = selectedTime.split(':');
-      bookingDate.setHours(parseInt(hours), parseInt(minutes), 0, 0);
+      const bookingDate = getBookingStart();
 
       // Double-check barber status before using developer booking
       // This ensures we don't accidentally use developer booking for non-developer barbers
@@ -359,6 +518,7 @@ export default function BookingForm({
           body: JSON.stringify({
             barberId,
             serviceId: selectedService.id,
+            additionalServiceIds,
             date: bookingDate.toISOString(),
             notes: guestInfo.notes,
             guestName: user ? undefined : guestInfo.name,
@@ -400,16 +560,39 @@ export default function BookingForm({
           return;
         }
         
+        // The payment is made for the signed-in account behind this token
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) {
+          Alert.alert('Error', 'Please sign in to book with this barber.');
+          return;
+        }
+
         // Initialize Stripe
         await initStripe({
           publishableKey: process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY!,
         });
 
+        // A group pays every person's booking fee in this one payment; the webhook books them together
+        const groupStarts = getGroupSchedule(groupDurations, bookingDate, groupTiming);
+        const groupRequest = isGroupBooking ? {
+          barberId,
+          clientId: user.id,
+          paymentType: 'fee',
+          groupMembers: groupPeople.map((person, index) => ({
+            name: person.name,
+            serviceId: person.services[0].id,
+            additionalServiceIds: person.services.slice(1).map(service => service.id),
+            addonIds: person.addonIds,
+            date: groupStarts[index].toISOString(),
+          })),
+        } : null;
+
         // Create payment intent using Edge Function
         logger.log('📞 Calling create-payment-intent endpoint...');
         logger.log('📦 Request data:', {
           barberId,
           serviceId: selectedService.id,
+          additionalServiceIds,
           date: bookingDate.toISOString(),
           clientId: user.id,
           paymentType: 'fee',
@@ -420,16 +603,19 @@ export default function BookingForm({
           method: 'POST',
           headers: { 
             'Content-Type': 'application/json',
-            'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`
+            'Authorization': `Bearer ${session.access_token}`
           },
-          body: JSON.stringify({
+          body: JSON.stringify(groupRequest || {
             barberId,
             serviceId: selectedService.id,
+            additionalServiceIds,
             date: bookingDate.toISOString(),
             notes: guestInfo.notes,
             clientId: user.id,
             paymentType: 'fee',
-            addonIds: selectedAddonIds
+            addonIds: selectedAddonIds,
+            promoCode: appliedPromo?.code,
+            prepaidBalanceId: prepaidCreditCents > 0 ? selectedBalanceId : undefined
           })
         });
 
@@ -447,6 +633,19 @@ export default function BookingForm({
           throw new Error(data.error || 'Failed to create payment intent');
         }
 
+        // A 0% fee schedule with nothing prepaid is booked without a charge
+        if (data.noPaymentRequired) {
+          Alert.alert(
+            'Booking Confirmed!',
+            isGroupBooking
+              ? `Bookings for all ${groupPeople.length} people are confirmed. There was nothing to pay.`
+              : 'Your booking is confirmed. There was nothing to pay.',
+            [{ text: 'OK', onPress: () => onBookingCreated(null) }]
+          );
+          onClose();
+          return;
+        }
+
         logger.log('Payment intent created');
 
         // Confirm payment in-app (secure)
@@ -465,7 +664,9 @@ export default function BookingForm({
         
         Alert.alert(
           'Payment Successful!',
-          'Your payment has been processed. Your booking will be confirmed shortly.',
+          isGroupBooking
+            ? `Your payment has been processed. Bookings for all ${groupPeople.length} people will be confirmed shortly.`
+            : 'Your payment has been processed. Your booking will be confirmed shortly.',
           [{ 
             text: 'OK', 
             onPress: () => {
@@ -493,7 +694,7 @@ export default function BookingForm({
       const { captureException } = require('../../shared/lib/sentry');
       captureException(error as Error, {
         context: 'BookingForm.handleBooking',
-        selectedService: selectedService?.name,
+        selectedService: selectedServiceNames,
         selectedBarber: barberId,
         selectedDate: selectedDate?.toISOString(),
         selectedTime,
@@ -537,6 +738,12 @@ export default function BookingForm({
     return `${displayHour}:${minutes} ${ampm}`;
   };
 
+  // Barber's local time, with the device's local time alongside when they differ
+  const selectedSlotStart = timeSlots.find(slot => slot.time === selectedTime)?.slotStart;
+  const selectedTimeLabels = selectedSlotStart
+    ? getAppointmentTimeLabels(selectedSlotStart, barberTimeZone)
+    : null;
+
   const getStepTitle = () => {
     switch (currentStep) {
       case 1: return 'Choose Your Service';
@@ -550,7 +757,7 @@ export default function BookingForm({
 
   const getStepDescription = () => {
     switch (currentStep) {
-      case 1: return 'Select the service you\'d like to book';
+      case 1: return 'Select one or more services for your appointment';
       case 2: return 'Choose your preferred appointment time';
       case 3: return 'Provide your contact information';
       case 4: return 'Review your booking details and confirm';
@@ -567,8 +774,38 @@ export default function BookingForm({
     return getSelectedAddons().reduce((total, addon) => total + addon.price, 0);
   };
 
+  // A single booking adds whatever deposit or prepayment the barber set on the services,
+  // less any promo code; group bookings stay fee-only
+  const promoDiscount = appliedPromo && !isGroupBooking
+    ? calculatePromoDiscount(appliedPromo, selectedServices, calculatePaymentSplit(selectedServices, 0, feeSchedule).platformFeeCents)
+    : null;
+  const splitBeforeCredit = calculatePaymentSplit(
+    isGroupBooking ? [] : selectedServices,
+    Math.round(getSelectedAddonsTotal() * 100),
+    feeSchedule,
+    promoDiscount
+  );
+  // A gift card or package the client holds with this barber covers what is left to pay
+  const selectedBalance = isGroupBooking ? null : prepaidBalances.find(balance => balance.id === selectedBalanceId) || null;
+  const prepaidCreditCents = selectedBalance
+    ? calculatePrepaidCredit(selectedBalance, selectedServices, splitBeforeCredit.prepaidCents + splitBeforeCredit.dueAtAppointmentCents)
+    : 0;
+  const paymentSplit = calculatePaymentSplit(
+    isGroupBooking ? [] : selectedServices,
+    Math.round(getSelectedAddonsTotal() * 100),
+    feeSchedule,
+    promoDiscount,
+    prepaidCreditCents
+  );
+  const groupFeeCents = groupPeople.reduce((total, person) => total + calculateBookingFee(
+    feeSchedule,
+    person.services.reduce((sum, service) => sum + Math.round(service.price * 100), 0)
+  ).platformFeeCents, 0);
+
   const getTotalPrice = () => {
-    return isDeveloperAccount ? 0.00 : 3.38; // Return $0.00 for developer accounts
+    // Return $0.00 for developer accounts; a group pays the fee once per person
+    if (isDeveloperAccount) return 0.00;
+    return isGroupBooking ? groupFeeCents / 100 : paymentSplit.totalCents / 100;
   };
 
   if (!isVisible) return null;
@@ -643,10 +880,63 @@ export default function BookingForm({
                     What service do you need?
                   </Text>
                   <Text style={[tw`text-center`, { color: theme.colors.mutedForeground }]}>
-                    Choose from our available services
+                    Choose one or more of our available services
                   </Text>
                 </View>
 
+                {/* Group booking: people added so far, and who is being picked for now */}
+                {isGroupBooking && (
+                  <View style={[tw`p-4 rounded-xl mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
+                    <Text style={[tw`font-semibold mb-3`, { color: theme.colors.secondary }]}>
+                      Group Booking
+                    </Text>
+                    {groupMembers.map((member, index) => (
+                      <View key={`${member.name}-${index}`} style={tw`flex-row items-center justify-between mb-2`}>
+                        <View style={tw`flex-1`}>
+                          <Text style={{ color: theme.colors.foreground }}>{member.name}</Text>
+                          <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                            {member.services.map(service => service.name).join(' + ')}
+                            {member.addonIds.length > 0 ? ` + ${member.addonIds.length} add-on${member.addonIds.length === 1 ? '' : 's'}` : ''}
+                          </Text>
+                        </View>
+                        <TouchableOpacity onPress={() => handleRemoveGroupMember(index)} accessibilityLabel={`Remove ${member.name}`}>
+                          <Icon name="x-circle" size={20} color={theme.colors.mutedForeground} />
+                        </TouchableOpacity>
+                      </View>
+                    ))}
+                    <TextInput
+                      style={[
+                        tw`p-3 rounded-xl border mt-2`,
+                        { borderColor: 'rgba(255,255,255,0.1)', backgroundColor: 'rgba(255,255,255,0.05)', color: theme.colors.foreground }
+                      ]}
+                      placeholder={`Name of person ${groupMembers.length + 1}`}
+                      placeholderTextColor={theme.colors.mutedForeground}
+                      value={memberName}
+                      onChangeText={setMemberName}
+                    />
+                    <View style={tw`flex-row mt-3`}>
+                      {(['back_to_back', 'parallel'] as GroupTiming[]).map(timing => (
+                        <TouchableOpacity
+                          key={timing}
+                          onPress={() => {
+                            setGroupTiming(timing);
+                            setSelectedTime('');
+                          }}
+                          style={[
+                            tw`flex-1 p-2 rounded-lg items-center`,
+                            timing === 'back_to_back' ? tw`mr-2` : null,
+                            { backgroundColor: groupTiming === timing ? theme.colors.secondary : 'rgba(255,255,255,0.1)' }
+                          ]}
+                        >
+                          <Text style={{ color: groupTiming === timing ? theme.colors.background : theme.colors.foreground }}>
+                            {timing === 'back_to_back' ? 'One after another' : 'At the same time'}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                )}
+
                 {loading ? (
                   <View style={tw`items-center py-8`}>
                     <ActivityIndicator size="large" color={theme.colors.secondary} />
@@ -661,7 +951,7 @@ export default function BookingForm({
                       >
                         <View style={[
                           tw`p-4 rounded-2xl border-2`,
-                          selectedService?.id === service.id
+                          selectedServices.some(s => s.id === service.id)
                             ? { 
                                 borderColor: theme.colors.secondary, 
                                 backgroundColor: `${theme.colors.secondary}10` 
@@ -671,7 +961,7 @@ export default function BookingForm({
                                 backgroundColor: 'rgba(255,255,255,0.05)' 
                               }
                         ]}>
-                          {selectedService?.id === service.id && (
+                          {selectedServices.some(s => s.id === service.id) && (
                             <View style={[tw`absolute bottom-4 right-4 w-15 h-6 rounded-full items-center justify-center`, { backgroundColor: theme.colors.secondary }]}>
                             </View>
                           )}
@@ -797,6 +1087,23 @@ export default function BookingForm({
                     )}
                   </View>
                 )}
+
+                {/* Each extra person pays their own booking fee in the same checkout */}
+                {!!user && !isDeveloperAccount && groupPeople.length < MAX_GROUP_SIZE && (
+                  <TouchableOpacity
+                    onPress={handleAddGroupMember}
+                    disabled={!selectedService}
+                    style={[
+                      tw`mt-6 p-4 rounded-xl border flex-row items-center justify-center`,
+                      { borderColor: `${theme.colors.secondary}40`, opacity: selectedService ? 1 : 0.5 }
+                    ]}
+                  >
+                    <Icon name="user-plus" size={18} color={theme.colors.secondary} />
+                    <Text style={[tw`ml-2 font-medium`, { color: theme.colors.secondary }]}>
+                      {isGroupBooking ? 'Add another person' : 'Book for someone else too'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </View>
             )}
 
@@ -874,11 +1181,59 @@ export default function BookingForm({
                     <Text style={[tw`text-lg font-semibold mb-4`, { color: theme.colors.foreground }]}>
                       Select Time
                     </Text>
+                    {barberTimeZone !== getDeviceTimeZone() && (
+                      <Text style={[tw`text-xs -mt-2 mb-4`, { color: theme.colors.mutedForeground }]}>
+                        Times are in the barber&apos;s timezone ({barberTimeZone.replace(/_/g, ' ')}). Your local time is shown underneath when it differs.
+                      </Text>
+                    )}
+                    {isGroupBooking && (
+                      <Text style={[tw`text-xs -mt-2 mb-4`, { color: theme.colors.mutedForeground }]}>
+                        {groupTiming === 'back_to_back'
+                          ? `The group starts at this time and all ${groupPeople.length} appointments follow one after another.`
+                          : `All ${groupPeople.length} appointments start at this time.`}
+                      </Text>
+                    )}
                     {loadingSlots ? (
                       <View style={tw`items-center py-8`}>
                         <ActivityIndicator size="small" color={theme.colors.secondary} />
                         <Text style={[tw`mt-2`, { color: theme.colors.mutedForeground }]}>Loading times...</Text>
                       </View>
+                    ) : timeSlots.length > 0 && timeSlots.every(slot => !slot.available) ? (
+                      <View style={tw`items-center py-8`}>
+                        <Text style={[tw`font-semibold mb-1`, { color: theme.colors.foreground }]}>This day is fully booked</Text>
+                        <Text style={[tw`text-sm text-center mb-4`, { color: theme.colors.mutedForeground }]}>
+                          {!user
+                            ? 'Sign in to join the waitlist for this day.'
+                            : waitlistEntry?.status === 'offered'
+                              ? 'A spot has been held for you. Select this day again to see it and book before the hold runs out.'
+                              : waitlistEntry
+                                ? "You're on the waitlist. We'll notify you if a spot opens up."
+                                : "Join the waitlist and we'll hold the next open spot for you."}
+                        </Text>
+                        {user && (
+                          <TouchableOpacity
+                            onPress={waitlistEntry ? handleLeaveWaitlist : handleJoinWaitlist}
+                            disabled={waitlistLoading}
+                            style={[
+                              tw`rounded-lg px-5 py-3`,
+                              waitlistEntry
+                                ? { backgroundColor: 'rgba(255,255,255,0.05)' }
+                                : { backgroundColor: theme.colors.secondary }
+                            ]}
+                          >
+                            {waitlistLoading ? (
+                              <ActivityIndicator size="small" color={waitlistEntry ? theme.colors.foreground : theme.colors.background} />
+                            ) : (
+                              <Text style={[
+                                tw`font-semibold`,
+                                { color: waitlistEntry ? theme.colors.foreground : theme.colors.background }
+                              ]}>
+                                {waitlistEntry ? 'Leave waitlist' : 'Join the waitlist'}
+                              </Text>
+                            )}
+                          </TouchableOpacity>
+                        )}
+                      </View>
                     ) : (
                       <View style={tw`flex-row flex-wrap -mx-1`}>
                         {timeSlots
@@ -903,6 +1258,16 @@ export default function BookingForm({
                                 ]}>
                                   {formatTime(slot.time)}
                                 </Text>
+                                {slot.slotStart && !isSameOffset(slot.slotStart, barberTimeZone, getDeviceTimeZone()) && (
+                                  <Text style={[
+                                    tw`text-xs`,
+                                    selectedTime === slot.time
+                                      ? { color: theme.colors.background }
+                                      : { color: theme.colors.mutedForeground }
+                                  ]}>
+                                    {formatTimeInZone(slot.slotStart, getDeviceTimeZone())}
+                                  </Text>
+                                )}
                               </View>
                             </TouchableOpacity>
                           ))}
@@ -1045,70 +1410,229 @@ export default function BookingForm({
                 </View>
 
                 {/* Booking Summary */}
-                <View style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
-                  <Text style={[tw`font-semibold mb-4`, { color: theme.colors.secondary }]}>
-                    Booking Summary
-                  </Text>
-                  <View style={tw`space-y-2`}>
-                    <View style={tw`flex-row justify-between`}>
-                      <Text style={{ color: theme.colors.mutedForeground }}>Service:</Text>
-                      <Text style={{ color: theme.colors.foreground }}>{selectedService?.name}</Text>
-                    </View>
-                    <View style={tw`flex-row justify-between`}>
+                {isGroupBooking ? (
+                  <View style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
+                    <Text style={[tw`font-semibold mb-4`, { color: theme.colors.secondary }]}>
+                      Group Booking ({groupPeople.length} people)
+                    </Text>
+                    <View style={tw`flex-row justify-between mb-2`}>
                       <Text style={{ color: theme.colors.mutedForeground }}>Date:</Text>
                       <Text style={{ color: theme.colors.foreground }}>
                         {selectedDate && format(selectedDate, 'MMM d, yyyy')}
                       </Text>
                     </View>
-                    <View style={tw`flex-row justify-between`}>
-                      <Text style={{ color: theme.colors.mutedForeground }}>Time:</Text>
-                      <Text style={{ color: theme.colors.foreground }}>
-                        {formatTime(selectedTime)}
-                      </Text>
-                    </View>
-                    <View style={tw`flex-row justify-between`}>
-                      <Text style={{ color: theme.colors.mutedForeground }}>Duration:</Text>
-                      <Text style={{ color: theme.colors.foreground }}>
-                        {selectedService?.duration} min
-                      </Text>
-                    </View>
-                    <View style={tw`flex-row justify-between`}>
-                      <Text style={{ color: theme.colors.mutedForeground }}>Price:</Text>
-                      <Text style={{ color: theme.colors.foreground }}>
-                        ${selectedService?.price.toFixed(2)}
-                      </Text>
-                    </View>
-                    
-                    {/* Add-ons */}
-                    {selectedAddonIds.length > 0 && (
-                      <>
-                        <View style={tw`border-t border-white/10 pt-2 mt-2`}>
-                          <Text style={[tw`font-medium mb-2`, { color: theme.colors.foreground }]}>
-                            Add-ons:
+                    {selectedSlotStart && getGroupSchedule(groupDurations, new Date(selectedSlotStart), groupTiming).map((start, index) => {
+                      const person = groupPeople[index];
+                      const addonTotal = addons
+                        .filter(addon => person.addonIds.includes(addon.id))
+                        .reduce((total, addon) => total + addon.price, 0);
+                      const servicesTotal = person.services.reduce((total, service) => total + service.price, 0);
+
+                      return (
+                        <View key={`${person.name}-${index}`} style={tw`border-t border-white/10 pt-2 mt-2`}>
+                          <View style={tw`flex-row justify-between`}>
+                            <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>{person.name}</Text>
+                            <Text style={{ color: theme.colors.foreground }}>
+                              {formatTimeInZone(start.toISOString(), barberTimeZone)}
+                            </Text>
+                          </View>
+                          <View style={tw`flex-row justify-between`}>
+                            <Text style={[tw`text-sm flex-1`, { color: theme.colors.mutedForeground }]}>
+                              {person.services.map(service => service.name).join(' + ')} · {groupDurations[index]} min
+                            </Text>
+                            <Text style={[tw`text-sm`, { color: theme.colors.secondary }]}>
+                              ${(servicesTotal + addonTotal).toFixed(2)}
+                            </Text>
+                          </View>
+                        </View>
+                      );
+                    })}
+                  </View>
+                ) : (
+                  <View style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
+                    <Text style={[tw`font-semibold mb-4`, { color: theme.colors.secondary }]}>
+                      Booking Summary
+                    </Text>
+                    <View style={tw`space-y-2`}>
+                      <View style={tw`flex-row justify-between`}>
+                        <Text style={{ color: theme.colors.mutedForeground }}>
+                          {selectedServices.length > 1 ? 'Services:' : 'Service:'}
+                        </Text>
+                        <Text style={{ color: theme.colors.foreground }}>{selectedServiceNames}</Text>
+                      </View>
+                      <View style={tw`flex-row justify-between`}>
+                        <Text style={{ color: theme.colors.mutedForeground }}>Date:</Text>
+                        <Text style={{ color: theme.colors.foreground }}>
+                          {selectedDate && format(selectedDate, 'MMM d, yyyy')}
+                        </Text>
+                      </View>
+                      <View style={tw`flex-row justify-between`}>
+                        <Text style={{ color: theme.colors.mutedForeground }}>Time:</Text>
+                        <Text style={{ color: theme.colors.foreground }}>
+                          {selectedTimeLabels ? selectedTimeLabels.barberTime : formatTime(selectedTime)}
+                        </Text>
+                      </View>
+                      {selectedTimeLabels?.localTime && (
+                        <View style={tw`flex-row justify-between`}>
+                          <Text style={{ color: theme.colors.mutedForeground }}>Your time:</Text>
+                          <Text style={{ color: theme.colors.foreground }}>
+                            {selectedTimeLabels.localTime}
                           </Text>
-                          {getSelectedAddons().map((addon) => (
-                            <View key={addon.id} style={tw`flex-row justify-between`}>
-                              <Text style={{ color: theme.colors.mutedForeground }}>
-                                {addon.name}
-                              </Text>
-                              <Text style={{ color: theme.colors.foreground }}>
-                                +${addon.price.toFixed(2)}
-                              </Text>
-                            </View>
-                          ))}
                         </View>
-                        <View style={tw`flex-row justify-between pt-2 border-t border-white/10`}>
-                          <Text style={[tw`font-semibold`, { color: theme.colors.foreground }]}>
-                            Total Service Cost:
+                      )}
+                      <View style={tw`flex-row justify-between`}>
+                        <Text style={{ color: theme.colors.mutedForeground }}>Duration:</Text>
+                        <Text style={{ color: theme.colors.foreground }}>
+                          {totalServiceDuration} min
+                        </Text>
+                      </View>
+                      {selectedServices.length > 1 && selectedServices.map((service) => (
+                        <View key={service.id} style={tw`flex-row justify-between`}>
+                          <Text style={{ color: theme.colors.mutedForeground }}>{service.name}</Text>
+                          <Text style={{ color: theme.colors.foreground }}>${service.price.toFixed(2)}</Text>
+                        </View>
+                      ))}
+                      <View style={tw`flex-row justify-between`}>
+                        <Text style={{ color: theme.colors.mutedForeground }}>Price:</Text>
+                        <Text style={{ color: theme.colors.foreground }}>
+                          ${totalServicePrice.toFixed(2)}
+                        </Text>
+                      </View>
+                    
+                      {/* Add-ons */}
+                      {selectedAddonIds.length > 0 && (
+                        <>
+                          <View style={tw`border-t border-white/10 pt-2 mt-2`}>
+                            <Text style={[tw`font-medium mb-2`, { color: theme.colors.foreground }]}>
+                              Add-ons:
+                            </Text>
+                            {getSelectedAddons().map((addon) => (
+                              <View key={addon.id} style={tw`flex-row justify-between`}>
+                                <Text style={{ color: theme.colors.mutedForeground }}>
+                                  {addon.name}
+                                </Text>
+                                <Text style={{ color: theme.colors.foreground }}>
+                                  +${addon.price.toFixed(2)}
+                                </Text>
+                              </View>
+                            ))}
+                          </View>
+                          <View style={tw`flex-row justify-between pt-2 border-t border-white/10`}>
+                            <Text style={[tw`font-semibold`, { color: theme.colors.foreground }]}>
+                              Total Service Cost:
+                            </Text>
+                            <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
+                              ${(totalServicePrice + getSelectedAddonsTotal()).toFixed(2)}
+                            </Text>
+                          </View>
+                        </>
+                      )}
+                    </View>
+                  </View>
+                )}
+
+                {/* Promo code */}
+                {!isGroupBooking && !isDeveloperAccount && (
+                  <View>
+                    <Text style={[tw`text-lg font-semibold mb-4`, { color: theme.colors.foreground }]}>
+                      Promo Code
+                    </Text>
+                    <View style={tw`flex-row items-center`}>
+                      <TextInput
+                        value={promoCodeInput}
+                        onChangeText={text => {
+                          setPromoCodeInput(text.toUpperCase());
+                          setAppliedPromo(null);
+                          setPromoError(null);
+                        }}
+                        placeholder="Enter code"
+                        placeholderTextColor={theme.colors.mutedForeground}
+                        autoCapitalize="characters"
+                        autoCorrect={false}
+                        maxLength={20}
+                        style={[
+                          tw`flex-1 p-4 rounded-xl text-base`,
+                          {
+                            color: theme.colors.foreground,
+                            backgroundColor: 'rgba(255,255,255,0.05)',
+                            borderWidth: 1,
+                            borderColor: appliedPromo ? theme.colors.secondary : 'rgba(255,255,255,0.1)',
+                          },
+                        ]}
+                      />
+                      <TouchableOpacity
+                        onPress={handleApplyPromoCode}
+                        disabled={checkingPromo || !promoCodeInput.trim() || !!appliedPromo}
+                        style={[
+                          tw`ml-2 px-5 py-4 rounded-xl`,
+                          { backgroundColor: theme.colors.secondary, opacity: checkingPromo || !promoCodeInput.trim() || appliedPromo ? 0.6 : 1 },
+                        ]}
+                      >
+                        {checkingPromo ? (
+                          <ActivityIndicator color={theme.colors.background} />
+                        ) : (
+                          <Text style={[tw`font-semibold`, { color: theme.colors.background }]}>
+                            {appliedPromo ? 'Applied' : 'Apply'}
                           </Text>
-                          <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
-                            ${((selectedService?.price || 0) + getSelectedAddonsTotal()).toFixed(2)}
+                        )}
+                      </TouchableOpacity>
+                    </View>
+                    {appliedPromo && (
+                      <View style={tw`flex-row justify-between mt-2`}>
+                        <Text style={[tw`text-sm`, { color: theme.colors.secondary }]}>
+                          {appliedPromo.code}: {describePromoCode(appliedPromo)}
+                        </Text>
+                        <Text style={[tw`text-sm font-semibold`, { color: theme.colors.secondary }]}>
+                          -${(paymentSplit.discountCents / 100).toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
+                    {promoError && (
+                      <Text style={[tw`text-sm mt-2`, { color: theme.colors.destructive }]}>{promoError}</Text>
+                    )}
+                  </View>
+                )}
+
+                {/* Gift cards and packages */}
+                {!isGroupBooking && !isDeveloperAccount && prepaidBalances.length > 0 && (
+                  <View>
+                    <Text style={[tw`text-lg font-semibold mb-4`, { color: theme.colors.foreground }]}>
+                      Gift Cards & Packages
+                    </Text>
+                    {prepaidBalances.map(balance => (
+                      <TouchableOpacity
+                        key={balance.id}
+                        onPress={() => setSelectedBalanceId(selectedBalanceId === balance.id ? null : balance.id)}
+                        style={[
+                          tw`p-4 rounded-xl mb-2`,
+                          {
+                            backgroundColor: 'rgba(255,255,255,0.05)',
+                            borderWidth: 1,
+                            borderColor: selectedBalanceId === balance.id ? theme.colors.secondary : 'rgba(255,255,255,0.1)',
+                          },
+                        ]}
+                      >
+                        <Text style={{ color: theme.colors.foreground }}>
+                          {balance.kind === 'package' ? 'Package' : 'Gift card'} • {describePrepaidBalance(balance)}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                    {selectedBalance && (
+                      paymentSplit.creditCents > 0 ? (
+                        <View style={tw`flex-row justify-between mt-2`}>
+                          <Text style={[tw`text-sm`, { color: theme.colors.secondary }]}>Applied to your services</Text>
+                          <Text style={[tw`text-sm font-semibold`, { color: theme.colors.secondary }]}>
+                            -${(paymentSplit.creditCents / 100).toFixed(2)}
                           </Text>
                         </View>
-                      </>
+                      ) : (
+                        <Text style={[tw`text-sm mt-2`, { color: theme.colors.destructive }]}>
+                          {selectedBalance.kind === 'package' ? "This package is for a service you haven't picked" : 'Nothing left to cover'}
+                        </Text>
+                      )
                     )}
                   </View>
-                </View>
+                )}
 
                 {/* Payment Information */}
                 <View>
@@ -1118,16 +1642,22 @@ export default function BookingForm({
                   <View style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)' }]}>
                     <View style={tw`flex-row justify-between items-center`}>
                       <Text style={{ color: theme.colors.foreground }}>
-                        Booking Fee
+                        {isGroupBooking
+                          ? `Booking Fee (${groupPeople.length} people)`
+                          : paymentSplit.prepaidCents > 0 && !isDeveloperAccount
+                            ? `Booking Fee + ${paymentSplit.paymentMode === 'full' ? 'Prepayment' : 'Deposit'}`
+                            : 'Booking Fee'}
                       </Text>
                       <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
-                        {isDeveloperAccount ? '$0.00' : '$3.38'}
+                        ${getTotalPrice().toFixed(2)}
                       </Text>
                     </View>
                     <Text style={[tw`text-sm mt-2`, { color: theme.colors.mutedForeground }]}>
                       {isDeveloperAccount 
                         ? 'Developer account - no platform fees charged. Service cost and any add-ons will be paid directly to the barber at your appointment.'
-                        : 'Pay the remaining amount directly to your barber'
+                        : paymentSplit.paymentMode === 'full'
+                          ? 'Your service is paid in full - nothing is due at your appointment'
+                          : `Pay the remaining $${(paymentSplit.dueAtAppointmentCents / 100).toFixed(2)} directly to your barber`
                       }
                     </Text>
                   </View>
@@ -1232,10 +1762,10 @@ export default function BookingForm({
                   <View style={tw`space-y-3`}>
                     <View style={tw`flex-row justify-between items-center`}>
                       <Text style={[tw`text-base`, { color: theme.colors.mutedForeground }]}>
-                        Service
+                        {selectedServices.length > 1 ? 'Services' : 'Service'}
                       </Text>
                       <Text style={[tw`text-base font-medium`, { color: theme.colors.foreground }]}>
-                        {selectedService?.name}
+                        {selectedServiceNames}
                       </Text>
                     </View>
                     
@@ -1244,9 +1774,42 @@ export default function BookingForm({
                         Booking Fee
                       </Text>
                       <Text style={[tw`text-base font-medium`, { color: theme.colors.foreground }]}>
-                        $3.38
+                        ${(paymentSplit.platformFeeCents / 100).toFixed(2)}
                       </Text>
                     </View>
+
+                    {appliedPromo && paymentSplit.discountCents > 0 && (
+                      <View style={tw`flex-row justify-between items-center`}>
+                        <Text style={[tw`text-base`, { color: theme.colors.mutedForeground }]}>
+                          Promo {appliedPromo.code}
+                        </Text>
+                        <Text style={[tw`text-base font-medium`, { color: theme.colors.secondary }]}>
+                          -${(paymentSplit.discountCents / 100).toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
+
+                    {paymentSplit.creditCents > 0 && (
+                      <View style={tw`flex-row justify-between items-center`}>
+                        <Text style={[tw`text-base`, { color: theme.colors.mutedForeground }]}>
+                          {selectedBalance?.kind === 'package' ? 'Package visit' : 'Gift card'}
+                        </Text>
+                        <Text style={[tw`text-base font-medium`, { color: theme.colors.secondary }]}>
+                          -${(paymentSplit.creditCents / 100).toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
+
+                    {paymentSplit.prepaidCents > 0 && (
+                      <View style={tw`flex-row justify-between items-center`}>
+                        <Text style={[tw`text-base`, { color: theme.colors.mutedForeground }]}>
+                          {paymentSplit.paymentMode === 'full' ? 'Prepayment' : 'Deposit'}
+                        </Text>
+                        <Text style={[tw`text-base font-medium`, { color: theme.colors.foreground }]}>
+                          ${(paymentSplit.prepaidCents / 100).toFixed(2)}
+                        </Text>
+                      </View>
+                    )}
                     
                     {/* Add-ons if any */}
                     {selectedAddonIds.length > 0 && (
@@ -1273,7 +1836,7 @@ export default function BookingForm({
                           Total
                         </Text>
                         <Text style={[tw`text-xl font-bold`, { color: theme.colors.secondary }]}>
-                          ${(3.38 + getSelectedAddonsTotal()).toFixed(2)}
+                          ${(paymentSplit.totalCents / 100).toFixed(2)}
                         </Text>
                       </View>
                     </View>
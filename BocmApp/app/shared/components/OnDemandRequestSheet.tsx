@@ -0,0 +1,384 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import tw from 'twrnc';
+import { format } from 'date-fns';
+import { ArrowLeft, Info, MapPin, X, Zap } from 'lucide-react-native';
+import { initStripe, confirmPayment, CardField } from '@stripe/stripe-react-native';
+import { theme } from '../lib/theme';
+import { logger } from '../lib/logger';
+import {
+  onDemandService,
+  ONDEMAND_TIME_OPTIONS,
+  OnDemandBarberMatch,
+  OnDemandServiceOption,
+} from '../lib/onDemandService';
+import { calculateBookingFee, feeScheduleService, PLATFORM_FEE_CENTS } from '../lib/feeSchedule';
+import type { OnDemandRequest } from '../types';
+
+interface OnDemandRequestSheetProps {
+  isVisible: boolean;
+  onClose: () => void;
+  latitude: number;
+  longitude: number;
+}
+
+type Step = 'when' | 'barber' | 'confirm';
+
+// Asks a nearby barber to come to the client. Sending holds the booking fee on the card;
+// it is only charged if the barber accepts.
+export default function OnDemandRequestSheet({ isVisible, onClose, latitude, longitude }: OnDemandRequestSheetProps) {
+  const [step, setStep] = useState<Step>('when');
+  const [minutesFromNow, setMinutesFromNow] = useState(ONDEMAND_TIME_OPTIONS[0]);
+  const [address, setAddress] = useState('');
+  const [notes, setNotes] = useState('');
+  const [matches, setMatches] = useState<OnDemandBarberMatch[]>([]);
+  const [selectedBarber, setSelectedBarber] = useState<OnDemandBarberMatch | null>(null);
+  const [selectedService, setSelectedService] = useState<OnDemandServiceOption | null>(null);
+  const [requestedTime, setRequestedTime] = useState<Date | null>(null);
+  const [pendingRequest, setPendingRequest] = useState<OnDemandRequest | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [feeCents, setFeeCents] = useState(PLATFORM_FEE_CENTS);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    setStep('when');
+    setSelectedBarber(null);
+    setSelectedService(null);
+    onDemandService.getPendingRequest()
+      .then(setPendingRequest)
+      .catch(error => logger.error('Error loading pending on-demand request:', error));
+  }, [isVisible]);
+
+  const handleFindBarbers = async () => {
+    if (!address.trim()) {
+      Alert.alert('Address Needed', 'Tell your barber where to find you.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      // Rounded to the minute so the time shown matches what is requested
+      const time = new Date(Math.ceil((Date.now() + minutesFromNow * 60000) / 60000) * 60000);
+      const found = await onDemandService.findBarbers(latitude, longitude, time.toISOString());
+
+      setRequestedTime(time);
+      setMatches(found);
+      setStep('barber');
+    } catch (error) {
+      Alert.alert('Error', 'Failed to find barbers nearby. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelect = (barber: OnDemandBarberMatch, service: OnDemandServiceOption) => {
+    setSelectedBarber(barber);
+    setSelectedService(service);
+    setStep('confirm');
+
+    // The hold is the fee under the barber's schedule; the standard fee shows until it loads
+    setFeeCents(PLATFORM_FEE_CENTS);
+    feeScheduleService.resolve(barber.barberId)
+      .then(schedule => setFeeCents(calculateBookingFee(schedule, Math.round(service.onDemandPrice * 100)).platformFeeCents))
+      .catch(error => logger.error('Error loading fee schedule:', error));
+  };
+
+  const handleSendRequest = async () => {
+    if (!selectedBarber || !selectedService || !requestedTime) return;
+
+    setLoading(true);
+    try {
+      await initStripe({
+        publishableKey: process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY!,
+      });
+
+      const hold = await onDemandService.createRequest({
+        barberId: selectedBarber.barberId,
+        serviceId: selectedService.id,
+        requestedTime: requestedTime.toISOString(),
+        latitude,
+        longitude,
+        address: address.trim(),
+        notes: notes.trim(),
+      });
+
+      const { error: paymentError } = await confirmPayment(hold.clientSecret, {
+        paymentMethodType: 'Card',
+      });
+
+      if (paymentError) {
+        logger.error('On-demand payment hold failed:', paymentError);
+        Alert.alert('Payment Failed', paymentError.message || 'Your card could not be authorized.');
+        return;
+      }
+
+      // The webhook records the request once the hold is in place and notifies the barber
+      Alert.alert(
+        'Request Sent',
+        `${selectedBarber.name} will get back to you shortly. Your card is only charged if they accept.`,
+        [{ text: 'OK', onPress: onClose }]
+      );
+    } catch (error) {
+      Alert.alert('Request Failed', error instanceof Error ? error.message : 'Failed to send request. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleWithdraw = () => {
+    if (!pendingRequest) return;
+
+    Alert.alert('Withdraw Request', 'Withdraw your request? The hold on your card will be released.', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Withdraw',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await onDemandService.cancelRequest(pendingRequest.id);
+            setPendingRequest(null);
+          } catch (error) {
+            Alert.alert('Error', error instanceof Error ? error.message : 'Failed to withdraw request.');
+          }
+        },
+      },
+    ]);
+  };
+
+  const handleBack = () => {
+    if (step === 'confirm') setStep('barber');
+    else if (step === 'barber') setStep('when');
+    else onClose();
+  };
+
+  const cardStyle = [
+    tw`p-4 rounded-2xl mb-3`,
+    { backgroundColor: 'rgba(255,255,255,0.05)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
+  ];
+
+  if (!isVisible) return null;
+
+  return (
+    <Modal
+      visible={isVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={tw`px-5 pt-4 pb-4 border-b border-white/10 flex-row items-center justify-between`}>
+          <TouchableOpacity onPress={handleBack}>
+            {step === 'when' ? <X size={24} color={theme.colors.secondary} /> : <ArrowLeft size={24} color={theme.colors.secondary} />}
+          </TouchableOpacity>
+          <Text style={[tw`text-lg font-semibold`, { color: theme.colors.foreground }]}>
+            {step === 'when' ? 'Request a Barber' : step === 'barber' ? 'Barbers Nearby' : 'Send Request'}
+          </Text>
+          <View style={tw`w-6`} />
+        </View>
+
+        <ScrollView style={tw`flex-1`} showsVerticalScrollIndicator={false}>
+          <View style={tw`p-5`}>
+            {step === 'when' && (
+              <View>
+                {pendingRequest && (
+                  <View style={cardStyle}>
+                    <Text style={[tw`text-base font-semibold mb-1`, { color: theme.colors.foreground }]}>
+                      Waiting for an answer
+                    </Text>
+                    <Text style={[tw`text-sm mb-3`, { color: theme.colors.mutedForeground }]}>
+                      Your request for {format(new Date(pendingRequest.requested_time), 'h:mm a')} is with the barber.
+                    </Text>
+                    <TouchableOpacity onPress={handleWithdraw}>
+                      <Text style={[tw`text-sm font-semibold`, { color: theme.colors.destructive }]}>
+                        Withdraw request
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                )}
+
+                <Text style={[tw`text-base font-semibold mb-3`, { color: theme.colors.foreground }]}>
+                  When do you need them?
+                </Text>
+                <View style={tw`flex-row flex-wrap mb-6`}>
+                  {ONDEMAND_TIME_OPTIONS.map(minutes => (
+                    <TouchableOpacity
+                      key={minutes}
+                      style={[
+                        tw`px-4 py-2 rounded-full mr-2 mb-2`,
+                        minutesFromNow === minutes
+                          ? { backgroundColor: theme.colors.secondary }
+                          : { backgroundColor: 'rgba(255,255,255,0.1)' },
+                      ]}
+                      onPress={() => setMinutesFromNow(minutes)}
+                    >
+                      <Text style={{ color: minutesFromNow === minutes ? theme.colors.background : theme.colors.foreground }}>
+                        {minutes < 60 ? `In ${minutes} min` : `In ${minutes / 60} hr${minutes === 60 ? '' : 's'}`}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+
+                <Text style={[tw`text-base font-semibold mb-2`, { color: theme.colors.foreground }]}>
+                  Where are you?
+                </Text>
+                <TextInput
+                  style={[tw`p-4 rounded-xl mb-4`, { backgroundColor: 'rgba(255,255,255,0.05)', color: theme.colors.foreground }]}
+                  placeholder="Address, apartment, gate code..."
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  value={address}
+                  onChangeText={setAddress}
+                />
+                <TextInput
+                  style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)', color: theme.colors.foreground }]}
+                  placeholder="Notes for your barber (optional)"
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+                <Text style={[tw`text-xs mt-2`, { color: theme.colors.mutedForeground }]}>
+                  We match you with barbers who travel to your current location.
+                </Text>
+              </View>
+            )}
+
+            {step === 'barber' && (
+              <View>
+                {requestedTime && (
+                  <Text style={[tw`text-sm mb-4`, { color: theme.colors.mutedForeground }]}>
+                    Available around {format(requestedTime, 'h:mm a')}
+                  </Text>
+                )}
+                {matches.length === 0 ? (
+                  <View style={tw`items-center py-10`}>
+                    <MapPin size={32} color={theme.colors.mutedForeground} />
+                    <Text style={[tw`text-base mt-3 text-center`, { color: theme.colors.mutedForeground }]}>
+                      No barbers cover your location at that time. Try a later time.
+                    </Text>
+                  </View>
+                ) : (
+                  matches.map(match => (
+                    <View key={match.barberId} style={cardStyle}>
+                      <View style={tw`flex-row items-center justify-between mb-3`}>
+                        <View>
+                          <Text style={[tw`text-base font-semibold`, { color: theme.colors.foreground }]}>
+                            {match.name}
+                          </Text>
+                          <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>
+                            {match.distanceMiles} mi away
+                          </Text>
+                        </View>
+                        {match.surgeMultiplier > 1 && (
+                          <View style={[tw`flex-row items-center px-2 py-1 rounded-full`, { backgroundColor: 'rgba(255,255,255,0.1)' }]}>
+                            <Zap size={12} color={theme.colors.secondary} />
+                            <Text style={[tw`text-xs ml-1`, { color: theme.colors.secondary }]}>
+                              {match.surgeMultiplier}x
+                            </Text>
+                          </View>
+                        )}
+                      </View>
+                      {match.services.map(service => (
+                        <TouchableOpacity
+                          key={service.id}
+                          style={tw`flex-row items-center justify-between py-2`}
+                          onPress={() => handleSelect(match, service)}
+                        >
+                          <Text style={{ color: theme.colors.foreground }}>
+                            {service.name} · {service.duration} min
+                          </Text>
+                          <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
+                            ${service.onDemandPrice.toFixed(2)}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  ))
+                )}
+              </View>
+            )}
+
+            {step === 'confirm' && selectedBarber && selectedService && requestedTime && (
+              <View>
+                <View style={cardStyle}>
+                  <Text style={[tw`text-base font-semibold mb-1`, { color: theme.colors.foreground }]}>
+                    {selectedService.name} with {selectedBarber.name}
+                  </Text>
+                  <Text style={[tw`text-sm mb-1`, { color: theme.colors.mutedForeground }]}>
+                    {format(requestedTime, 'EEE, MMM d · h:mm a')} at {address.trim()}
+                  </Text>
+                  <View style={tw`flex-row justify-between mt-3`}>
+                    <Text style={{ color: theme.colors.mutedForeground }}>
+                      Service (paid at appointment){selectedBarber.surgeMultiplier > 1 ? ` · ${selectedBarber.surgeMultiplier}x` : ''}
+                    </Text>
+                    <Text style={{ color: theme.colors.foreground }}>${selectedService.onDemandPrice.toFixed(2)}</Text>
+                  </View>
+                  <View style={tw`flex-row justify-between mt-2`}>
+                    <Text style={{ color: theme.colors.mutedForeground }}>Booking fee (held now)</Text>
+                    <Text style={{ color: theme.colors.foreground }}>${(feeCents / 100).toFixed(2)}</Text>
+                  </View>
+                </View>
+
+                <CardField
+                  postalCodeEnabled={false}
+                  placeholders={{
+                    number: "4242 4242 4242 4242",
+                  }}
+                  cardStyle={{
+                    backgroundColor: 'rgba(255,255,255,0.05)',
+                    textColor: theme.colors.foreground,
+                    fontSize: 16,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: 'rgba(255,255,255,0.2)',
+                  }}
+                  style={{
+                    width: '100%',
+                    height: 56,
+                    marginVertical: 20,
+                  }}
+                />
+
+                <View style={tw`flex-row items-center`}>
+                  <Info size={14} color={theme.colors.mutedForeground} />
+                  <Text style={[tw`ml-2 text-xs flex-1`, { color: theme.colors.mutedForeground }]}>
+                    The booking fee is only charged if the barber accepts. If they decline or don&apos;t answer, the hold is released.
+                  </Text>
+                </View>
+              </View>
+            )}
+          </View>
+        </ScrollView>
+
+        {step !== 'barber' && (
+          <View style={tw`p-5 border-t border-white/10`}>
+            <TouchableOpacity
+              style={[tw`py-4 rounded-xl items-center`, { backgroundColor: theme.colors.secondary, opacity: loading ? 0.6 : 1 }]}
+              onPress={step === 'when' ? handleFindBarbers : handleSendRequest}
+              disabled={loading}
+            >
+              {loading ? (
+                <ActivityIndicator color={theme.colors.background} />
+              ) : (
+                <Text style={[tw`text-base font-semibold`, { color: theme.colors.background }]}>
+                  {step === 'when' ? 'Find Barbers' : 'Send Request'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -0,0 +1,411 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import tw from 'twrnc';
+import { addDays, format } from 'date-fns';
+import Icon from 'react-native-vector-icons/Feather';
+import { initStripe, confirmPayment, CardField } from '@stripe/stripe-react-native';
+import { theme } from '../lib/theme';
+import { logger } from '../lib/logger';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../hooks/useAuth';
+import { getAppointmentTimeLabels } from '../lib/timezoneUtils';
+import { calculateServicePrepaymentCents } from '../lib/servicePrepayment';
+import { calculateBookingFee, feeScheduleService, PLATFORM_FEE_CENTS } from '../lib/feeSchedule';
+import {
+  shopBookingService,
+  formatShopPriceRange,
+  ShopServiceOption,
+  ShopSlot,
+} from '../lib/shopBooking';
+import type { Shop } from '../types';
+
+interface ShopBookingSheetProps {
+  isVisible: boolean;
+  onClose: () => void;
+  shop: Shop;
+  // Called with the assigned barber's name once the booking is made
+  onBooked: (barberName: string) => void;
+}
+
+type Step = 'service' | 'time' | 'confirm';
+
+// How far ahead clients can look for a free barber
+const DAYS_SHOWN = 14;
+
+// Books whichever of the shop's barbers is free first. The shop's assignment rule
+// picks the barber when the client confirms, and the sheet tells them who it is.
+export default function ShopBookingSheet({ isVisible, onClose, shop, onBooked }: ShopBookingSheetProps) {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('service');
+  const [options, setOptions] = useState<ShopServiceOption[]>([]);
+  const [option, setOption] = useState<ShopServiceOption | null>(null);
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [slots, setSlots] = useState<ShopSlot[]>([]);
+  const [slot, setSlot] = useState<ShopSlot | null>(null);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  // Lowest and highest booking fee among the barbers free at the chosen time (cents)
+  const [feeRange, setFeeRange] = useState<[number, number]>([PLATFORM_FEE_CENTS, PLATFORM_FEE_CENTS]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    setStep('service');
+    setSlot(null);
+    setLoading(true);
+    shopBookingService.getBookableServices(shop.id)
+      .then(setOptions)
+      .catch(() => Alert.alert('Error', 'Failed to load services. Please try again.'))
+      .finally(() => setLoading(false));
+  }, [isVisible, shop.id]);
+
+  useEffect(() => {
+    if (!option) return;
+
+    setSlot(null);
+    setLoading(true);
+    shopBookingService.getServiceAvailability(option, date)
+      .then(setSlots)
+      .catch(() => {
+        setSlots([]);
+        Alert.alert('Error', 'Failed to load available times. Please try again.');
+      })
+      .finally(() => setLoading(false));
+  }, [option, date]);
+
+  // Barbers can be on different fee schedules, and the one assigned is only known on confirming
+  useEffect(() => {
+    setFeeRange([PLATFORM_FEE_CENTS, PLATFORM_FEE_CENTS]);
+    if (!option || !slot) return;
+
+    Promise.all(slot.barberIds.map(async barberId => {
+      const offer = option.offers.find(item => item.barberId === barberId);
+      const schedule = await feeScheduleService.resolve(barberId);
+      return calculateBookingFee(schedule, Math.round(Number(offer?.service.price || 0) * 100)).platformFeeCents;
+    }))
+      .then(fees => setFeeRange([Math.min(...fees), Math.max(...fees)]))
+      .catch(error => logger.error('Error loading fee schedules:', error));
+  }, [option, slot]);
+
+  // Barbers at one shop share a location, so times show in the first barber's zone
+  const timeZone = option?.offers[0]?.timezone;
+
+  const handleConfirm = async () => {
+    if (!option || !slot) return;
+    if (!user) {
+      Alert.alert('Sign In Required', 'Please sign in to book.');
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const barberId = await shopBookingService.assignBarber(shop.id, option.name, slot.slotStart);
+      const offer = option.offers.find(item => item.barberId === barberId);
+      if (!offer) {
+        throw new Error('The assigned barber does not offer this service');
+      }
+
+      const booking = {
+        barberId,
+        serviceId: offer.service.id,
+        date: slot.slotStart,
+        notes: notes.trim(),
+        clientId: user.id,
+        paymentType: 'fee',
+        addonIds: [],
+      };
+      const headers = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
+      };
+
+      if (offer.isDeveloper) {
+        const response = await fetch(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/create-developer-booking`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify(booking),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create booking');
+        }
+      } else {
+        // The payment is made for the signed-in account behind this token
+        const { data: { session } } = await supabase.auth.getSession();
+        if (!session?.access_token) {
+          throw new Error('Please sign in to book.');
+        }
+
+        await initStripe({
+          publishableKey: process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY!,
+        });
+
+        const response = await fetch(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/create-payment-intent`, {
+          method: 'POST',
+          headers: { ...headers, 'Authorization': `Bearer ${session.access_token}` },
+          body: JSON.stringify(booking),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create payment intent');
+        }
+
+        // A 0% fee schedule with nothing prepaid is booked without a charge
+        if (!data.noPaymentRequired) {
+          const { error: paymentError } = await confirmPayment(data.clientSecret, {
+            paymentMethodType: 'Card',
+          });
+
+          if (paymentError) {
+            logger.error('Shop booking payment failed:', paymentError);
+            Alert.alert('Payment Failed', paymentError.message || 'Payment could not be completed.');
+            return;
+          }
+        }
+      }
+
+      onBooked(offer.barberName);
+    } catch (error) {
+      logger.error('Error booking first available barber:', error);
+      Alert.alert('Booking Failed', error instanceof Error ? error.message : 'Failed to book. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleBack = () => {
+    if (step === 'confirm') setStep('time');
+    else if (step === 'time') setStep('service');
+    else onClose();
+  };
+
+  const cardStyle = [
+    tw`p-4 rounded-2xl mb-3`,
+    { backgroundColor: 'rgba(255,255,255,0.05)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' },
+  ];
+
+  const days = Array.from({ length: DAYS_SHOWN }, (_, index) => addDays(new Date(), index));
+  const slotLabels = slot && timeZone ? getAppointmentTimeLabels(slot.slotStart, timeZone) : null;
+  const takesPrepayment = !!option?.offers.some(offer => calculateServicePrepaymentCents(offer.service) > 0);
+
+  if (!isVisible) return null;
+
+  return (
+    <Modal
+      visible={isVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={tw`px-5 pt-4 pb-4 border-b border-white/10 flex-row items-center justify-between`}>
+          <TouchableOpacity onPress={handleBack}>
+            <Icon name={step === 'service' ? 'x' : 'arrow-left'} size={24} color={theme.colors.secondary} />
+          </TouchableOpacity>
+          <Text style={[tw`text-lg font-semibold`, { color: theme.colors.foreground }]}>
+            Any Available Barber
+          </Text>
+          <View style={tw`w-6`} />
+        </View>
+
+        <ScrollView style={tw`flex-1`} showsVerticalScrollIndicator={false}>
+          <View style={tw`p-5`}>
+            {step === 'service' && (
+              <View>
+                <Text style={[tw`text-sm mb-4`, { color: theme.colors.mutedForeground }]}>
+                  Book the first free barber at {shop.name}
+                </Text>
+                {loading ? (
+                  <ActivityIndicator color={theme.colors.secondary} style={tw`py-10`} />
+                ) : options.length === 0 ? (
+                  <Text style={[tw`text-base text-center py-10`, { color: theme.colors.mutedForeground }]}>
+                    No services are available at this shop yet.
+                  </Text>
+                ) : (
+                  options.map(item => (
+                    <TouchableOpacity
+                      key={item.name}
+                      style={[cardStyle, tw`flex-row items-center`]}
+                      onPress={() => {
+                        setOption(item);
+                        setStep('time');
+                      }}
+                    >
+                      <Icon name="scissors" size={18} color={theme.colors.secondary} />
+                      <View style={tw`flex-1 ml-3`}>
+                        <Text style={[tw`text-base font-semibold`, { color: theme.colors.foreground }]}>{item.name}</Text>
+                        <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>
+                          {item.offers.length === 1 ? '1 barber' : `${item.offers.length} barbers`}
+                        </Text>
+                      </View>
+                      <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>{formatShopPriceRange(item)}</Text>
+                    </TouchableOpacity>
+                  ))
+                )}
+              </View>
+            )}
+
+            {step === 'time' && option && (
+              <View>
+                <Text style={[tw`text-base font-semibold mb-3`, { color: theme.colors.foreground }]}>{option.name}</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={tw`mb-5`}>
+                  {days.map(day => {
+                    const value = format(day, 'yyyy-MM-dd');
+                    const selected = value === date;
+                    return (
+                      <TouchableOpacity
+                        key={value}
+                        onPress={() => setDate(value)}
+                        style={[
+                          tw`rounded-xl p-3 items-center mr-2 min-w-[64px]`,
+                          { backgroundColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.05)' },
+                        ]}
+                      >
+                        <Text style={[tw`text-xs`, { color: selected ? theme.colors.background : theme.colors.mutedForeground }]}>
+                          {format(day, 'EEE')}
+                        </Text>
+                        <Text style={[tw`text-lg font-bold`, { color: selected ? theme.colors.background : theme.colors.foreground }]}>
+                          {format(day, 'd')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+
+                {loading ? (
+                  <ActivityIndicator color={theme.colors.secondary} style={tw`py-10`} />
+                ) : slots.length === 0 ? (
+                  <View style={tw`items-center py-10`}>
+                    <Icon name="clock" size={32} color={theme.colors.mutedForeground} />
+                    <Text style={[tw`text-base mt-3 text-center`, { color: theme.colors.mutedForeground }]}>
+                      No barber is free on this day.
+                    </Text>
+                  </View>
+                ) : (
+                  <View style={tw`flex-row flex-wrap`}>
+                    {slots.map(item => {
+                      const labels = getAppointmentTimeLabels(item.slotStart, timeZone);
+                      const selected = slot?.slotStart === item.slotStart;
+                      return (
+                        <TouchableOpacity
+                          key={item.slotStart}
+                          onPress={() => setSlot(item)}
+                          style={[
+                            tw`w-[31%] mr-[2%] mb-2 py-3 rounded-xl items-center`,
+                            { backgroundColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.05)' },
+                          ]}
+                        >
+                          <Text style={[tw`font-semibold`, { color: selected ? theme.colors.background : theme.colors.foreground }]}>
+                            {labels.barberTime}
+                          </Text>
+                          {labels.localTime && (
+                            <Text style={[tw`text-xs`, { color: selected ? theme.colors.background : theme.colors.mutedForeground }]}>
+                              {labels.localTime}
+                            </Text>
+                          )}
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </View>
+                )}
+              </View>
+            )}
+
+            {step === 'confirm' && option && slot && (
+              <View>
+                <View style={cardStyle}>
+                  <Text style={[tw`text-base font-semibold mb-1`, { color: theme.colors.foreground }]}>{option.name}</Text>
+                  <Text style={[tw`text-sm mb-1`, { color: theme.colors.mutedForeground }]}>
+                    {format(new Date(slot.slotStart), 'EEE, MMM d')} · {slotLabels?.barberTime}
+                    {slotLabels?.localTime ? ` (${slotLabels.localTime} your time)` : ''}
+                  </Text>
+                  <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                    {slot.barberIds.length === 1 ? 'One barber is' : `${slot.barberIds.length} barbers are`} free then.
+                    You&apos;ll see who you&apos;re booked with once you confirm.
+                  </Text>
+                  <View style={tw`flex-row justify-between mt-3`}>
+                    <Text style={{ color: theme.colors.mutedForeground }}>
+                      {takesPrepayment ? 'Service' : 'Service (paid at appointment)'}
+                    </Text>
+                    <Text style={{ color: theme.colors.foreground }}>{formatShopPriceRange(option)}</Text>
+                  </View>
+                  <View style={tw`flex-row justify-between mt-2`}>
+                    <Text style={{ color: theme.colors.mutedForeground }}>Booking fee</Text>
+                    <Text style={{ color: theme.colors.foreground }}>
+                      {feeRange[0] === feeRange[1]
+                        ? `$${(feeRange[0] / 100).toFixed(2)}`
+                        : `$${(feeRange[0] / 100).toFixed(2)}–$${(feeRange[1] / 100).toFixed(2)}`}
+                    </Text>
+                  </View>
+                  {takesPrepayment && (
+                    <Text style={[tw`text-xs mt-3`, { color: theme.colors.mutedForeground }]}>
+                      Some barbers here take a deposit or full payment when booking; it is charged with the booking fee.
+                    </Text>
+                  )}
+                </View>
+
+                <TextInput
+                  style={[tw`p-4 rounded-xl`, { backgroundColor: 'rgba(255,255,255,0.05)', color: theme.colors.foreground }]}
+                  placeholder="Notes for your barber (optional)"
+                  placeholderTextColor={theme.colors.mutedForeground}
+                  value={notes}
+                  onChangeText={setNotes}
+                  multiline
+                />
+
+                <CardField
+                  postalCodeEnabled={false}
+                  placeholders={{
+                    number: "4242 4242 4242 4242",
+                  }}
+                  cardStyle={{
+                    backgroundColor: 'rgba(255,255,255,0.05)',
+                    textColor: theme.colors.foreground,
+                    fontSize: 16,
+                    borderRadius: 12,
+                    borderWidth: 1,
+                    borderColor: 'rgba(255,255,255,0.2)',
+                  }}
+                  style={{
+                    width: '100%',
+                    height: 56,
+                    marginVertical: 20,
+                  }}
+                />
+              </View>
+            )}
+          </View>
+        </ScrollView>
+
+        {step !== 'service' && (
+          <View style={tw`p-5 border-t border-white/10`}>
+            <TouchableOpacity
+              style={[tw`py-4 rounded-xl items-center`, { backgroundColor: theme.colors.secondary, opacity: loading || !slot ? 0.6 : 1 }]}
+              onPress={step === 'time' ? () => setStep('confirm') : handleConfirm}
+              disabled={loading || !slot}
+            >
+              {loading && step === 'confirm' ? (
+                <ActivityIndicator color={theme.colors.background} />
+              ) : (
+                <Text style={[tw`text-base font-semibold`, { color: theme.colors.background }]}>
+                  {step === 'time' ? 'Continue' : 'Confirm Booking'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+}
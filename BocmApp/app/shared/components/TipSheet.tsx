@@ -0,0 +1,241 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Alert,
+  ActivityIndicator,
+  SafeAreaView,
+} from 'react-native';
+import tw from 'twrnc';
+import Icon from 'react-native-vector-icons/Feather';
+import { initStripe, confirmPayment, CardField } from '@stripe/stripe-react-native';
+import { theme } from '../lib/theme';
+import { logger } from '../lib/logger';
+import { bookingService } from '../lib/bookingService';
+import { calculateTipCents, getTipAmountError, TIP_PERCENTAGES } from '../lib/tipping';
+import type { TipStatus } from '../types';
+
+interface TipSheetProps {
+  isVisible: boolean;
+  onClose: () => void;
+  bookingId: string;
+  barberName: string;
+  serviceTotal: number; // Services and add-ons, in dollars
+  onTipped: (status: TipStatus) => void;
+}
+
+// Asks the client to tip after a completed appointment. The whole tip goes to the barber.
+export default function TipSheet({ isVisible, onClose, bookingId, barberName, serviceTotal, onTipped }: TipSheetProps) {
+  const serviceTotalCents = Math.round(serviceTotal * 100);
+  const [percentage, setPercentage] = useState<number | null>(TIP_PERCENTAGES[1]);
+  const [customAmount, setCustomAmount] = useState('');
+  const [useSavedCard, setUseSavedCard] = useState(true);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    setPercentage(TIP_PERCENTAGES[1]);
+    setCustomAmount('');
+    setUseSavedCard(true);
+  }, [isVisible, bookingId]);
+
+  const amountCents = percentage !== null
+    ? calculateTipCents(serviceTotalCents, percentage)
+    : Math.round((parseFloat(customAmount) || 0) * 100);
+  const amountError = getTipAmountError(amountCents);
+
+  const handleTip = async () => {
+    if (amountError) {
+      Alert.alert('Tip Amount', amountError);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (!useSavedCard) {
+        await initStripe({
+          publishableKey: process.env.EXPO_PUBLIC_STRIPE_PUBLISHABLE_KEY!,
+        });
+      }
+
+      const result = await bookingService.tipBooking(bookingId, amountCents, useSavedCard);
+      let status = result.status;
+
+      if (result.clientSecret) {
+        const { error: paymentError } = await confirmPayment(result.clientSecret, {
+          paymentMethodType: 'Card',
+        });
+
+        if (paymentError) {
+          logger.error('Tip payment failed:', paymentError);
+          Alert.alert('Payment Failed', paymentError.message || 'Your card could not be charged.');
+          return;
+        }
+        // The webhook settles the tip once Stripe confirms the charge
+        status = 'pending';
+      }
+
+      onTipped(status);
+      Alert.alert(
+        'Thanks for the tip!',
+        `$${(amountCents / 100).toFixed(2)} goes to ${barberName}.`,
+        [{ text: 'OK', onPress: onClose }]
+      );
+    } catch (error) {
+      Alert.alert('Tip Failed', error instanceof Error ? error.message : 'Failed to send the tip. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    try {
+      await bookingService.declineTip(bookingId);
+      onTipped('declined');
+    } catch (error) {
+      // Closing the prompt still works; it just comes back next time
+      logger.error('Error declining tip:', error);
+    }
+    onClose();
+  };
+
+  const optionStyle = (selected: boolean) => [
+    tw`py-3 rounded-xl items-center border`,
+    {
+      backgroundColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.05)',
+      borderColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.1)',
+    },
+  ];
+
+  if (!isVisible) return null;
+
+  return (
+    <Modal
+      visible={isVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <SafeAreaView style={[tw`flex-1`, { backgroundColor: theme.colors.background }]}>
+        {/* Header */}
+        <View style={tw`px-5 pt-4 pb-4 border-b border-white/10 flex-row items-center justify-between`}>
+          <TouchableOpacity onPress={onClose}>
+            <Icon name="x" size={24} color={theme.colors.secondary} />
+          </TouchableOpacity>
+          <Text style={[tw`text-lg font-semibold`, { color: theme.colors.foreground }]}>
+            Tip {barberName}
+          </Text>
+          <View style={tw`w-6`} />
+        </View>
+
+        <ScrollView style={tw`flex-1`} showsVerticalScrollIndicator={false}>
+          <View style={tw`p-5`}>
+            <Text style={[tw`text-sm mb-4`, { color: theme.colors.mutedForeground }]}>
+              How was your cut? The whole tip goes to your barber.
+            </Text>
+
+            <View style={tw`flex-row mb-4`}>
+              {TIP_PERCENTAGES.map((option, index) => (
+                <TouchableOpacity
+                  key={option}
+                  onPress={() => setPercentage(option)}
+                  style={[tw`flex-1`, index > 0 && tw`ml-2`, ...optionStyle(percentage === option)]}
+                >
+                  <Text style={[tw`text-base font-bold`, { color: percentage === option ? theme.colors.background : theme.colors.foreground }]}>
+                    {option}%
+                  </Text>
+                  <Text style={[tw`text-xs`, { color: percentage === option ? theme.colors.background : theme.colors.mutedForeground }]}>
+                    ${(calculateTipCents(serviceTotalCents, option) / 100).toFixed(2)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <TextInput
+              value={customAmount}
+              onFocus={() => setPercentage(null)}
+              onChangeText={text => {
+                setPercentage(null);
+                setCustomAmount(text);
+              }}
+              placeholder="Custom amount"
+              placeholderTextColor={theme.colors.mutedForeground}
+              keyboardType="decimal-pad"
+              style={[
+                tw`p-4 rounded-xl mb-6 text-base`,
+                {
+                  color: theme.colors.foreground,
+                  backgroundColor: 'rgba(255,255,255,0.05)',
+                  borderWidth: 1,
+                  borderColor: percentage === null ? theme.colors.secondary : 'rgba(255,255,255,0.1)',
+                },
+              ]}
+            />
+
+            <Text style={[tw`text-base font-semibold mb-3`, { color: theme.colors.foreground }]}>
+              Pay with
+            </Text>
+            <View style={tw`flex-row mb-2`}>
+              <TouchableOpacity onPress={() => setUseSavedCard(true)} style={[tw`flex-1`, ...optionStyle(useSavedCard)]}>
+                <Text style={{ color: useSavedCard ? theme.colors.background : theme.colors.foreground }}>Card on file</Text>
+              </TouchableOpacity>
+              <TouchableOpacity onPress={() => setUseSavedCard(false)} style={[tw`flex-1 ml-2`, ...optionStyle(!useSavedCard)]}>
+                <Text style={{ color: !useSavedCard ? theme.colors.background : theme.colors.foreground }}>New card</Text>
+              </TouchableOpacity>
+            </View>
+
+            {!useSavedCard && (
+              <CardField
+                postalCodeEnabled={false}
+                placeholders={{
+                  number: "4242 4242 4242 4242",
+                }}
+                cardStyle={{
+                  backgroundColor: 'rgba(255,255,255,0.05)',
+                  textColor: theme.colors.foreground,
+                  fontSize: 16,
+                  borderRadius: 12,
+                  borderWidth: 1,
+                  borderColor: 'rgba(255,255,255,0.2)',
+                }}
+                style={{
+                  width: '100%',
+                  height: 56,
+                  marginVertical: 20,
+                }}
+              />
+            )}
+
+            {amountError && amountCents > 0 && (
+              <Text style={[tw`text-sm mt-2`, { color: theme.colors.destructive }]}>{amountError}</Text>
+            )}
+          </View>
+        </ScrollView>
+
+        <View style={tw`p-5 border-t border-white/10`}>
+          <TouchableOpacity
+            style={[tw`py-4 rounded-xl items-center`, { backgroundColor: theme.colors.secondary, opacity: loading || amountError ? 0.6 : 1 }]}
+            onPress={handleTip}
+            disabled={loading}
+          >
+            {loading ? (
+              <ActivityIndicator color={theme.colors.background} />
+            ) : (
+              <Text style={[tw`text-base font-semibold`, { color: theme.colors.background }]}>
+                Tip ${(amountCents / 100).toFixed(2)}
+              </Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={tw`py-3 mt-2 items-center`} onPress={handleDecline} disabled={loading}>
+            <Text style={{ color: theme.colors.mutedForeground }}>No thanks</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
@@ -14,6 +14,7 @@ import { theme } from '../../lib/theme';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../hooks/useAuth';
 import { logger } from '../../lib/logger';
+import { bookingService, BarberLifecycleMetrics } from '../../lib/bookingService';
 import { Card, CardContent, LoadingSpinner } from '../ui';
 import { 
   DollarSign,
@@ -26,11 +27,15 @@ import {
   ArrowDownRight,
   ExternalLink,
   Loader2,
-  RefreshCw
+  RefreshCw,
+  Clock
 } from 'lucide-react-native';
 
 const API_BASE_URL = process.env.EXPO_PUBLIC_API_URL || "https://www.bocmstyle.com";
 
+// Appointment insights cover check-ins, starts and completions over this many days
+const METRICS_WINDOW_DAYS = 90;
+
 interface EarningsData {
   totalEarnings: number;
   monthlyEarnings: number;
@@ -38,6 +43,7 @@ interface EarningsData {
   pendingPayouts: number;
   completedBookings: number;
   averageServicePrice: number;
+  tips: number; // Tips in the selected period, paid to the barber in full
   stripeConnected: boolean;
   stripeAccountId?: string;
 }
@@ -55,10 +61,12 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
     pendingPayouts: 0,
     completedBookings: 0,
     averageServicePrice: 0,
+    tips: 0,
     stripeConnected: false
   });
   const [isLoading, setIsLoading] = useState(true);
   const [period, setPeriod] = useState<'week' | 'month' | 'year'>('month');
+  const [metrics, setMetrics] = useState<BarberLifecycleMetrics | null>(null);
 
   useEffect(() => {
     if (barberId) {
@@ -66,6 +74,15 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
     }
   }, [barberId, period]);
 
+  useEffect(() => {
+    if (!barberId) return;
+
+    const since = new Date(Date.now() - METRICS_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+    bookingService.getLifecycleMetrics(barberId, since)
+      .then(setMetrics)
+      .catch(error => logger.error('Error loading appointment metrics:', error));
+  }, [barberId]);
+
   const loadEarningsData = async () => {
     try {
       setIsLoading(true);
@@ -98,7 +115,10 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
           created_at,
           barber_payout,
           service_id,
+          service_price,
           addon_total,
+          tip_amount,
+          tip_status,
           services:service_id(price)
         `)
         .eq('barber_id', barberId)
@@ -107,17 +127,22 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
       if (error) throw error;
 
       // Calculate earnings
-      // Barber earnings = service price (paid at appointment) + addons (paid at appointment) + barber_payout (from platform fee)
+      // Barber earnings = service price (paid at appointment) + addons (paid at appointment) + barber_payout (from platform fee) + tips
       let totalEarnings = 0;
+      let totalServiceEarnings = 0;
       let monthlyEarnings = 0;
       let weeklyEarnings = 0;
       let yearlyEarnings = 0;
+      let monthlyTips = 0;
+      let weeklyTips = 0;
+      let yearlyTips = 0;
 
       bookings?.forEach(booking => {
         const bookingDate = new Date(booking.created_at);
         
-        // Get service price (paid directly at appointment)
-        const servicePrice = Number((booking.services as any)?.price || 0);
+        // Get service price (paid directly at appointment); service_price is the historical
+        // total of every service booked in the appointment
+        const servicePrice = Number(booking.service_price ?? (booking.services as any)?.price ?? 0);
         
         // Get addon total (paid directly at appointment)
         const addonTotal = Number(booking.addon_total || 0);
@@ -125,23 +150,30 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
         // Get barber's share from platform fee (from Stripe)
         const barberPayout = Number(booking.barber_payout || 0);
         
+        // Tips go to the barber in full (via Stripe)
+        const tip = booking.tip_status === 'succeeded' ? Number(booking.tip_amount || 0) : 0;
+        
         // Total earnings for this booking
-        const bookingEarnings = servicePrice + addonTotal + barberPayout;
+        const bookingEarnings = servicePrice + addonTotal + barberPayout + tip;
         
         totalEarnings += bookingEarnings;
+        totalServiceEarnings += bookingEarnings - tip;
         
         if (bookingDate >= startOfWeek) {
           weeklyEarnings += bookingEarnings;
+          weeklyTips += tip;
         }
         if (bookingDate >= startOfMonth) {
           monthlyEarnings += bookingEarnings;
+          monthlyTips += tip;
         }
         if (bookingDate >= startOfYear) {
           yearlyEarnings += bookingEarnings;
+          yearlyTips += tip;
         }
       });
 
-      const averageServicePrice = bookings?.length ? totalEarnings / bookings.length : 0;
+      const averageServicePrice = bookings?.length ? totalServiceEarnings / bookings.length : 0;
 
       setEarnings({
         totalEarnings,
@@ -150,6 +182,7 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
         pendingPayouts: 0, // Could be derived from Stripe balance transactions
         completedBookings: bookings?.length || 0,
         averageServicePrice,
+        tips: period === 'month' ? monthlyTips : period === 'week' ? weeklyTips : yearlyTips,
         stripeConnected: barber?.stripe_account_status === 'active',
         stripeAccountId: barber?.stripe_account_id
       });
@@ -562,7 +595,7 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
             ${earnings.monthlyEarnings.toFixed(2)}
           </Text>
           <Text style={[tw`text-xs mb-2`, { color: theme.colors.mutedForeground }]}>
-            Includes: Service price + Add-ons (at appointment) + Platform fee share (via Stripe)
+            Includes: Service price + Add-ons (at appointment) + Platform fee share + Tips (via Stripe)
           </Text>
 
           <View style={tw`flex-row justify-between`}>
@@ -582,6 +615,14 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
                 ${earnings.averageServicePrice.toFixed(2)}
               </Text>
             </View>
+            <View>
+              <Text style={[tw`text-xs`, { color: theme.colors.mutedForeground }]}>
+                Tips
+              </Text>
+              <Text style={[tw`text-base font-semibold`, { color: theme.colors.foreground }]}>
+                ${earnings.tips.toFixed(2)}
+              </Text>
+            </View>
           </View>
         </CardContent>
       </Card>
@@ -653,6 +694,44 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
         )}
       </View>
 
+      {/* Appointment Insights - punctuality and service time from check-ins */}
+      {metrics && metrics.checked_in_count > 0 && (
+        <Card style={[tw`mt-3`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
+          <CardContent style={tw`p-4`}>
+            <View style={tw`flex-row items-center mb-3`}>
+              <Clock size={16} color={theme.colors.secondary} style={tw`mr-2`} />
+              <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>
+                Appointment Insights
+              </Text>
+              <Text style={[tw`text-xs ml-2`, { color: theme.colors.mutedForeground }]}>
+                Last {METRICS_WINDOW_DAYS} days
+              </Text>
+            </View>
+            {[
+              { label: 'Clients on time', value: `${Math.round((metrics.on_time_count / metrics.checked_in_count) * 100)}%` },
+              {
+                label: 'Average arrival',
+                value: metrics.avg_arrival_minutes === null
+                  ? '-'
+                  : `${Math.round(Math.abs(Number(metrics.avg_arrival_minutes)))} min ${Number(metrics.avg_arrival_minutes) <= 0 ? 'early' : 'late'}`,
+              },
+              { label: 'Average wait', value: metrics.avg_wait_minutes === null ? '-' : `${Math.round(Number(metrics.avg_wait_minutes))} min` },
+              {
+                label: 'Average service time',
+                value: metrics.avg_service_minutes === null
+                  ? '-'
+                  : `${Math.round(Number(metrics.avg_service_minutes))} min${metrics.avg_booked_minutes !== null ? ` (${Math.round(Number(metrics.avg_booked_minutes))} booked)` : ''}`,
+              },
+            ].map(row => (
+              <View key={row.label} style={tw`flex-row items-center justify-between mb-1`}>
+                <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>{row.label}</Text>
+                <Text style={[tw`text-sm font-semibold`, { color: theme.colors.foreground }]}>{row.value}</Text>
+              </View>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Success Message */}
       {earnings.stripeConnected && (
         <View style={[tw`mt-6 p-4 rounded-xl flex-row items-start`, { backgroundColor: theme.colors.secondary + '10', borderWidth: 1, borderColor: theme.colors.secondary + '20' }]}>
@@ -0,0 +1,304 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  Switch,
+  Alert,
+} from 'react-native';
+import tw from 'twrnc';
+import { theme } from '../../lib/theme';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../hooks/useAuth';
+import { Card, CardContent, LoadingSpinner } from '../ui';
+import { Bell, Moon, MessageSquare, Save, Minus, Plus } from 'lucide-react-native';
+import { notificationService } from '../../lib/notifications';
+import {
+  NOTIFICATION_EVENTS,
+  PREFERENCE_CHANNELS,
+  isChannelEnabled,
+  setChannelEnabled,
+  notificationPreferencesService,
+} from '../../lib/notificationPreferences';
+import type { ChannelPreferences } from '../../lib/notificationPreferences';
+import { logger } from '../../lib/logger';
+
+interface NotificationSettingsProps {
+  onUpdate?: () => void;
+}
+
+const DEFAULT_QUIET_START_HOUR = 22;
+const DEFAULT_QUIET_END_HOUR = 7;
+
+// 22 -> "10:00 PM"
+function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 === 0 ? 12 : hour % 12}:00 ${suffix}`;
+}
+
+// 22 -> "22:00"
+function toTime(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`;
+}
+
+export function NotificationSettings({ onUpdate }: NotificationSettingsProps) {
+  const { user, userProfile } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [channels, setChannels] = useState<ChannelPreferences>({});
+  const [quietHoursEnabled, setQuietHoursEnabled] = useState(false);
+  const [quietStartHour, setQuietStartHour] = useState(DEFAULT_QUIET_START_HOUR);
+  const [quietEndHour, setQuietEndHour] = useState(DEFAULT_QUIET_END_HOUR);
+  const [phone, setPhone] = useState<string | null>(null);
+  const [smsConsent, setSmsConsent] = useState(false);
+
+  const role = userProfile?.role === 'barber' ? 'barber' : 'client';
+  const events = NOTIFICATION_EVENTS.filter(({ roles }) => roles.includes(role));
+
+  useEffect(() => {
+    if (user) {
+      loadPreferences();
+    }
+  }, [user]);
+
+  const loadPreferences = async () => {
+    if (!user) return;
+
+    try {
+      setIsLoading(true);
+
+      const [preferences, { data: profile }] = await Promise.all([
+        notificationPreferencesService.getPreferences(),
+        supabase
+          .from('profiles')
+          .select('phone, sms_notifications')
+          .eq('id', user.id)
+          .single(),
+      ]);
+
+      setPhone(profile?.phone || null);
+      setSmsConsent(!!profile?.sms_notifications);
+
+      if (preferences) {
+        setChannels(preferences.channels || {});
+        setQuietHoursEnabled(!!preferences.quiet_hours_start);
+        if (preferences.quiet_hours_start && preferences.quiet_hours_end) {
+          setQuietStartHour(Number(preferences.quiet_hours_start.split(':')[0]));
+          setQuietEndHour(Number(preferences.quiet_hours_end.split(':')[0]));
+        }
+      }
+    } catch (error) {
+      logger.error('Error loading notification preferences:', error);
+      Alert.alert('Error', 'Failed to load notification preferences');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSmsConsentToggle = (value: boolean) => {
+    if (value && !phone) {
+      Alert.alert('Phone Number Needed', 'Add your phone number in your profile to get text messages.');
+      return;
+    }
+    setSmsConsent(value);
+  };
+
+  const handleEnablePush = async () => {
+    try {
+      await notificationService.initialize();
+      Alert.alert('Push Notifications Enabled', 'This device will now get push notifications.');
+    } catch (error) {
+      logger.error('Error enabling push notifications:', error);
+      Alert.alert('Error', 'Failed to enable push notifications. Please check your device settings.');
+    }
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    if (quietHoursEnabled && quietStartHour === quietEndHour) {
+      Alert.alert('Quiet Hours', 'Quiet hours must start and end at different times.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+
+      await notificationPreferencesService.savePreferences({
+        channels,
+        quiet_hours_start: quietHoursEnabled ? toTime(quietStartHour) : null,
+        quiet_hours_end: quietHoursEnabled ? toTime(quietEndHour) : null,
+      });
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ sms_notifications: smsConsent })
+        .eq('id', user.id);
+
+      if (error) throw error;
+
+      Alert.alert('Success', 'Notification preferences updated successfully!');
+      onUpdate?.();
+    } catch (error) {
+      logger.error('Error saving notification preferences:', error);
+      Alert.alert('Error', 'Failed to update notification preferences');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const HourStepper = ({ label, hour, onChange }: { label: string; hour: number; onChange: (hour: number) => void }) => (
+    <View style={tw`flex-row items-center justify-between py-2`}>
+      <Text style={[tw`text-sm`, { color: theme.colors.foreground }]}>{label}</Text>
+      <View style={tw`flex-row items-center`}>
+        <TouchableOpacity
+          style={[tw`p-2 rounded-lg`, { backgroundColor: theme.colors.input }]}
+          onPress={() => onChange((hour + 23) % 24)}
+        >
+          <Minus size={16} color={theme.colors.foreground} />
+        </TouchableOpacity>
+        <Text style={[tw`mx-3 w-20 text-center font-medium`, { color: theme.colors.foreground }]}>
+          {formatHour(hour)}
+        </Text>
+        <TouchableOpacity
+          style={[tw`p-2 rounded-lg`, { backgroundColor: theme.colors.input }]}
+          onPress={() => onChange((hour + 1) % 24)}
+        >
+          <Plus size={16} color={theme.colors.foreground} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={tw`py-8 items-center`}>
+        <LoadingSpinner color={theme.colors.secondary} />
+      </View>
+    );
+  }
+
+  return (
+    <View>
+      {/* Channels per event */}
+      <Card style={[tw`mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
+        <CardContent style={tw`p-4`}>
+          <View style={tw`flex-row items-center mb-2`}>
+            <Bell size={20} color={theme.colors.secondary} style={tw`mr-2`} />
+            <Text style={[tw`text-lg font-semibold`, { color: theme.colors.foreground }]}>
+              Notifications
+            </Text>
+          </View>
+          <Text style={[tw`text-sm mb-4`, { color: theme.colors.mutedForeground }]}>
+            Choose what you hear about and where. Everything also shows up in your in-app notifications.
+          </Text>
+
+          {events.map(({ event, label, description }) => (
+            <View key={event} style={tw`py-3 border-t border-white/10`}>
+              <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>{label}</Text>
+              <Text style={[tw`text-xs mb-2`, { color: theme.colors.mutedForeground }]}>{description}</Text>
+              <View style={tw`flex-row justify-between`}>
+                {PREFERENCE_CHANNELS.map(({ channel, label: channelLabel }) => (
+                  <View key={channel} style={tw`flex-row items-center`}>
+                    <Text style={[tw`text-sm mr-2`, { color: theme.colors.mutedForeground }]}>{channelLabel}</Text>
+                    <Switch
+                      accessibilityLabel={`${label} by ${channelLabel.toLowerCase()}`}
+                      value={isChannelEnabled({ channels }, event, channel)}
+                      onValueChange={(value) => setChannels(setChannelEnabled(channels, event, channel, value))}
+                      trackColor={{ false: theme.colors.input, true: theme.colors.secondary }}
+                      thumbColor={theme.colors.foreground}
+                    />
+                  </View>
+                ))}
+              </View>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            onPress={handleEnablePush}
+            style={[tw`mt-2 px-4 py-2 rounded-xl flex-row items-center justify-center`, { backgroundColor: theme.colors.input }]}
+          >
+            <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>Turn On Push Notifications on This Device</Text>
+          </TouchableOpacity>
+        </CardContent>
+      </Card>
+
+      {/* Text message consent */}
+      <Card style={[tw`mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
+        <CardContent style={tw`p-4`}>
+          <View style={tw`flex-row items-center justify-between`}>
+            <View style={tw`flex-1 mr-4`}>
+              <View style={tw`flex-row items-center mb-1`}>
+                <MessageSquare size={18} color={theme.colors.secondary} style={tw`mr-2`} />
+                <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>
+                  Text Messages
+                </Text>
+              </View>
+              <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                {phone
+                  ? `Allow texts to ${phone}. Message and data rates may apply.`
+                  : 'Add your phone number in your profile to get text messages.'}
+              </Text>
+            </View>
+            <Switch
+              value={smsConsent}
+              onValueChange={handleSmsConsentToggle}
+              trackColor={{ false: theme.colors.input, true: theme.colors.secondary }}
+              thumbColor={theme.colors.foreground}
+            />
+          </View>
+        </CardContent>
+      </Card>
+
+      {/* Quiet Hours */}
+      <Card style={[tw`mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
+        <CardContent style={tw`p-4`}>
+          <View style={tw`flex-row items-center justify-between`}>
+            <View style={tw`flex-1 mr-4`}>
+              <View style={tw`flex-row items-center mb-1`}>
+                <Moon size={18} color={theme.colors.secondary} style={tw`mr-2`} />
+                <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>
+                  Quiet Hours
+                </Text>
+              </View>
+              <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                Pause push notifications and texts. Emails and in-app notifications still arrive.
+              </Text>
+            </View>
+            <Switch
+              value={quietHoursEnabled}
+              onValueChange={setQuietHoursEnabled}
+              trackColor={{ false: theme.colors.input, true: theme.colors.secondary }}
+              thumbColor={theme.colors.foreground}
+            />
+          </View>
+
+          {quietHoursEnabled && (
+            <View style={tw`mt-3`}>
+              <HourStepper label="From" hour={quietStartHour} onChange={setQuietStartHour} />
+              <HourStepper label="Until" hour={quietEndHour} onChange={setQuietEndHour} />
+            </View>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Save Button */}
+      <TouchableOpacity
+        style={[tw`py-4 rounded-xl flex-row items-center justify-center`, { backgroundColor: theme.colors.secondary }]}
+        onPress={handleSave}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <LoadingSpinner color={theme.colors.primaryForeground} />
+        ) : (
+          <>
+            <Save size={20} color={theme.colors.primaryForeground} style={tw`mr-2`} />
+            <Text style={[tw`font-semibold text-base`, { color: theme.colors.primaryForeground }]}>
+              Save Preferences
+            </Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
@@ -28,7 +28,6 @@ import {
   Facebook,
   Music,
   Sparkles,
-  Check,
   Info,
   Camera
 } from 'lucide-react-native';
@@ -39,7 +38,6 @@ import {
   BARBER_SPECIALTIES, 
   extractHandle 
 } from '../../utils/settings.utils';
-import { notificationService } from '../../lib/notifications';
 import { logger } from '../../lib/logger';
 
 
@@ -70,7 +68,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
       tiktok: '',
       facebook: ''
     },
-    sms_notifications: false,
   });
 
   useEffect(() => {
@@ -118,7 +115,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
               tiktok: barber.tiktok || '',
               facebook: barber.facebook || ''
             },
-            sms_notifications: profile.sms_notifications || false,
           });
         }
       } else {
@@ -139,7 +135,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
             tiktok: '',
             facebook: ''
           },
-          sms_notifications: profile.sms_notifications || false,
         });
       }
     } catch (error) {
@@ -195,7 +190,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
           location: formData.location,
           description: formData.description,
           is_public: formData.isPublic,
-          sms_notifications: formData.sms_notifications,
         })
         .eq('id', user?.id);
 
@@ -276,46 +270,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
     setFormData({ ...formData, specialties: newSpecialties });
   };
 
-  const handlePushNotificationToggle = async () => {
-    try {
-      if (!formData.sms_notifications) {
-        // Enable push notifications
-        logger.log('🔔 Requesting push notification permissions...');
-        
-        // Initialize notifications and request permissions
-        await notificationService.initialize();
-        
-        // Update local state
-        setFormData({ ...formData, sms_notifications: true });
-        
-        Alert.alert(
-          'Push Notifications Enabled',
-          'You will now receive notifications for bookings, payments, and other important updates.',
-          [{ text: 'OK' }]
-        );
-      } else {
-        // Disable push notifications
-        logger.log('🔕 Disabling push notifications...');
-        
-        // Update local state
-        setFormData({ ...formData, sms_notifications: false });
-        
-        Alert.alert(
-          'Push Notifications Disabled',
-          'You will no longer receive push notifications. You can re-enable them anytime.',
-          [{ text: 'OK' }]
-        );
-      }
-    } catch (error) {
-      logger.error('Error toggling push notifications:', error);
-      Alert.alert(
-        'Error',
-        'Failed to update push notification settings. Please try again.',
-        [{ text: 'OK' }]
-      );
-    }
-  };
-
   const InputField = ({ 
     label, 
     value, 
@@ -555,37 +509,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
           </Card>
         )}
 
-        {/* Notifications */}
-        <Card style={[tw`mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
-          <CardContent style={tw`p-4`}>
-            <View style={tw`flex-row items-center mb-4`}>
-              <AlertCircle size={20} color={theme.colors.secondary} style={tw`mr-2`} />
-              <Text style={[tw`text-lg font-semibold`, { color: theme.colors.foreground }]}>
-                Push Notifications
-              </Text>
-            </View>
-
-
-
-            <TouchableOpacity
-              onPress={handlePushNotificationToggle}
-              style={[
-                tw`px-4 py-2 rounded-xl flex-row items-center justify-center`,
-                { backgroundColor: formData.sms_notifications ? theme.colors.secondary : theme.colors.input }
-              ]}
-            >
-              {formData.sms_notifications ? (
-                <>
-                  <Check size={16} color={theme.colors.primaryForeground} style={tw`mr-2`} />
-                  <Text style={[tw`font-medium`, { color: theme.colors.primaryForeground }]}>Push Notifications Enabled</Text>
-                </>
-              ) : (
-                <Text style={[tw`font-medium`, { color: theme.colors.foreground }]}>Enable Push Notifications</Text>
-              )}
-            </TouchableOpacity>
-          </CardContent>
-        </Card>
-
         {/* Visibility Settings */}
         <Card style={[tw`mb-6`, { backgroundColor: 'rgba(255,255,255,0.05)', borderColor: 'rgba(255,255,255,0.1)' }]}>
           <CardContent style={tw`p-4`}>
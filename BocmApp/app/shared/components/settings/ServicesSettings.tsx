@@ -25,9 +25,28 @@ import {
   AlertCircle,
   CheckCircle,
   Sparkles,
-  Package
+  Package,
+  CreditCard
 } from 'lucide-react-native';
 import type { Service } from '../../types/settings.types';
+import type { ServicePaymentMode } from '../../types';
+import { describeServicePrepayment } from '../../lib/servicePrepayment';
+
+const PAYMENT_MODE_OPTIONS: { value: ServicePaymentMode; label: string }[] = [
+  { value: 'fee_only', label: 'Fee only' },
+  { value: 'deposit', label: 'Deposit' },
+  { value: 'full', label: 'Full price' },
+];
+
+const EMPTY_SERVICE: Service = {
+  name: '',
+  price: 0,
+  duration: 30,
+  description: '',
+  payment_mode: 'fee_only',
+  deposit_type: 'fixed',
+  deposit_amount: null
+};
 
 interface ServicesSettingsProps {
   onUpdate?: () => void;
@@ -40,12 +59,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [barberId, setBarberId] = useState<string | null>(null);
   const [validationErrors, setValidationErrors] = useState<{[key: string]: string}>({});
-  const [formData, setFormData] = useState<Service>({
-    name: '',
-    price: 0,
-    duration: 30,
-    description: ''
-  });
+  const [formData, setFormData] = useState<Service>(EMPTY_SERVICE);
 
   useEffect(() => {
     if (user) {
@@ -97,6 +111,13 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
     if (!formData.name?.trim()) errors.name = 'Service name is required';
     if (!formData.duration || formData.duration < 1) errors.duration = 'Duration must be at least 1 minute';
     if (!formData.price || formData.price < 0) errors.price = 'Price must be at least $0';
+    if (formData.payment_mode === 'deposit') {
+      if (!formData.deposit_amount || formData.deposit_amount <= 0) {
+        errors.deposit_amount = 'Deposit must be more than 0';
+      } else if (formData.deposit_type === 'percentage' && formData.deposit_amount > 100) {
+        errors.deposit_amount = 'A percentage deposit can be at most 100%';
+      }
+    }
     
     setValidationErrors(errors);
     return Object.keys(errors).length === 0;
@@ -113,6 +134,13 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
       return;
     }
 
+    // Deposit settings are only kept while the service takes a deposit
+    const paymentTerms = {
+      payment_mode: formData.payment_mode || 'fee_only',
+      deposit_type: formData.payment_mode === 'deposit' ? formData.deposit_type : null,
+      deposit_amount: formData.payment_mode === 'deposit' ? formData.deposit_amount : null,
+    };
+
     try {
       setIsLoading(true);
       if (editingService) {
@@ -124,6 +152,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
             price: formData.price,
             duration: formData.duration,
             description: formData.description,
+            ...paymentTerms,
           })
           .eq('id', editingService.id);
 
@@ -139,6 +168,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
             price: formData.price,
             duration: formData.duration,
             description: formData.description,
+            ...paymentTerms,
           });
 
         if (error) throw error;
@@ -196,18 +226,16 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
       name: service.name,
       price: service.price,
       duration: service.duration,
-      description: service.description || ''
+      description: service.description || '',
+      payment_mode: service.payment_mode || 'fee_only',
+      deposit_type: service.deposit_type || 'fixed',
+      deposit_amount: service.deposit_amount ?? null
     });
   };
 
   const resetForm = () => {
     setEditingService(null);
-    setFormData({
-      name: '',
-      price: 0,
-      duration: 30,
-      description: ''
-    });
+    setFormData(EMPTY_SERVICE);
     setValidationErrors({});
   };
 
@@ -351,6 +379,82 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
               />
             </View>
 
+            <View style={tw`mb-4`}>
+              <View style={tw`flex-row items-center mb-2`}>
+                <CreditCard size={14} color={theme.colors.secondary} style={tw`mr-2`} />
+                <Text style={[tw`text-sm font-medium`, { color: theme.colors.foreground }]}>
+                  Payment When Booking
+                </Text>
+              </View>
+              <View style={tw`flex-row gap-2`}>
+                {PAYMENT_MODE_OPTIONS.map(option => {
+                  const selected = (formData.payment_mode || 'fee_only') === option.value;
+                  return (
+                    <TouchableOpacity
+                      key={option.value}
+                      onPress={() => setFormData({ ...formData, payment_mode: option.value })}
+                      style={[
+                        tw`flex-1 py-2 rounded-xl items-center`,
+                        {
+                          backgroundColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.05)',
+                          borderWidth: 1,
+                          borderColor: selected ? theme.colors.secondary : 'rgba(255,255,255,0.1)'
+                        }
+                      ]}
+                    >
+                      <Text style={[tw`text-sm font-medium`, { color: selected ? theme.colors.primaryForeground : theme.colors.foreground }]}>
+                        {option.label}
+                      </Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              <Text style={[tw`text-xs mt-2`, { color: theme.colors.mutedForeground }]}>
+                {formData.payment_mode === 'full'
+                  ? 'Clients pay the full price and add-ons in the app'
+                  : formData.payment_mode === 'deposit'
+                    ? 'Clients pay a deposit in the app and the rest at the appointment'
+                    : 'Clients pay only the booking fee in the app and pay you at the appointment'}
+              </Text>
+
+              {formData.payment_mode === 'deposit' && (
+                <View style={tw`flex-row gap-3 mt-3`}>
+                  <TouchableOpacity
+                    onPress={() => setFormData({
+                      ...formData,
+                      deposit_type: formData.deposit_type === 'percentage' ? 'fixed' : 'percentage'
+                    })}
+                    style={[tw`px-4 py-3 rounded-xl justify-center`, { backgroundColor: theme.colors.secondary + '20' }]}
+                  >
+                    <Text style={[tw`font-semibold`, { color: theme.colors.secondary }]}>
+                      {formData.deposit_type === 'percentage' ? '%' : '$'}
+                    </Text>
+                  </TouchableOpacity>
+                  <View style={tw`flex-1`}>
+                    <TextInput
+                      value={formData.deposit_amount ? formData.deposit_amount.toString() : ''}
+                      onChangeText={(text) => setFormData({ ...formData, deposit_amount: parseFloat(text) || null })}
+                      placeholder={formData.deposit_type === 'percentage' ? '25' : '10.00'}
+                      placeholderTextColor={theme.colors.mutedForeground}
+                      keyboardType="numeric"
+                      style={[
+                        tw`px-4 py-3 rounded-xl text-base`,
+                        {
+                          backgroundColor: 'rgba(255,255,255,0.05)',
+                          color: theme.colors.foreground,
+                          borderWidth: 1,
+                          borderColor: validationErrors.deposit_amount ? theme.colors.destructive : 'rgba(255,255,255,0.1)'
+                        }
+                      ]}
+                    />
+                    {validationErrors.deposit_amount && (
+                      <Text style={[tw`text-xs mt-1`, { color: theme.colors.destructive }]}>{validationErrors.deposit_amount}</Text>
+                    )}
+                  </View>
+                </View>
+              )}
+            </View>
+
             <View style={tw`flex-row gap-3`}>
               <TouchableOpacity
                 style={[tw`flex-1 py-3 rounded-xl flex-row items-center justify-center`, { backgroundColor: theme.colors.secondary }]}
@@ -411,7 +515,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
                 </Text>
                 <TouchableOpacity
                   style={[tw`px-6 py-3 rounded-xl flex-row items-center`, { backgroundColor: theme.colors.secondary }]}
-                  onPress={() => setFormData({ name: '', price: 0, duration: 30, description: '' })}
+                  onPress={() => setFormData(EMPTY_SERVICE)}
                 >
                   <Plus size={18} color={theme.colors.primaryForeground} style={tw`mr-2`} />
                   <Text style={[tw`font-semibold`, { color: theme.colors.primaryForeground }]}>
@@ -444,6 +548,14 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
                             </Text>
                           </View>
                         </View>
+                        {describeServicePrepayment(service) && (
+                          <View style={tw`flex-row items-center mb-2`}>
+                            <CreditCard size={14} color={theme.colors.mutedForeground} style={tw`mr-1`} />
+                            <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
+                              {describeServicePrepayment(service)}
+                            </Text>
+                          </View>
+                        )}
                         {service.description && (
                           <Text style={[tw`text-sm`, { color: theme.colors.mutedForeground }]}>
                             {service.description}
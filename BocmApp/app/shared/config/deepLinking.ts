@@ -18,6 +18,7 @@ export const linking: LinkingOptions<any> = {
         screens: {
           Browse: 'browse',
           Calendar: 'calendar',
+          Inbox: 'notifications',
           // Cuts: 'reels', // Commented out - TikTok-style feed disabled
           Profile: 'profile',
           Settings: 'settings',
@@ -30,6 +31,8 @@ export const linking: LinkingOptions<any> = {
       BarberOnboarding: 'barber/onboarding',
       BookingCalendar: 'book/:barberId?',
       BookingSuccess: 'booking/success',
+      Messages: 'messages',
+      Jobs: 'jobs',
       
       // Admin routes
       SuperAdmin: 'super-admin',
@@ -145,6 +148,9 @@ export function handleDeepLink(url: string) {
     '/terms': 'Terms',
     '/browse': 'Browse',
     '/calendar': 'Calendar',
+    '/notifications': 'Inbox',
+    '/messages': 'Messages',
+    '/jobs': 'Jobs',
     // '/reels': 'Cuts', // Commented out - TikTok-style feed disabled
     '/profile': 'Profile',
     '/settings': 'Settings',
@@ -54,6 +54,24 @@ export const ROUTE_MAPPING: RouteMapping[] = [
     requiresAuth: true,
     description: 'Calendar page'
   },
+  {
+    nextjs: '/notifications',
+    reactNavigation: 'Inbox',
+    requiresAuth: true,
+    description: 'Notification inbox'
+  },
+  {
+    nextjs: '/messages',
+    reactNavigation: 'Messages',
+    requiresAuth: true,
+    description: 'Direct messages'
+  },
+  {
+    nextjs: '/jobs',
+    reactNavigation: 'Jobs',
+    requiresAuth: true,
+    description: 'Job board'
+  },
   // {
   //   nextjs: '/reels',
   //   reactNavigation: 'Cuts',
@@ -139,6 +157,9 @@ export const DEEP_LINKING_CONFIG = {
       Terms: 'terms',
       Browse: 'browse',
       Calendar: 'calendar',
+      Inbox: 'notifications',
+      Messages: 'messages',
+      Jobs: 'jobs',
       Cuts: 'reels',
       Profile: 'profile',
       Settings: 'settings',
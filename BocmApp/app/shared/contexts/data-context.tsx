@@ -32,36 +32,8 @@ interface BarberFromDB {
   state?: string
 }
 
-// Types
-export type JobPost = {
-  id: string
-  businessId: string
-  businessName: string
-  businessImage: string
-  title: string
-  description: string
-  requirements: string[]
-  location: string
-  salary: string
-  postedDate: string
-  status: "open" | "closed"
-}
-
-export type Application = {
-  id: string
-  jobId: string
-  barberId: string
-  barber: {
-    id: string
-    name: string
-    image: string
-    experience: string
-    location: string
-  }
-  status: "pending" | "reviewing" | "accepted" | "rejected"
-  appliedDate: string
-  coverLetter: string
-}
+// Job board types are shared with the job board service
+export type { JobPost, JobApplication } from '../types'
 
 interface DataContextType {
   barbers: BarberFromDB[]
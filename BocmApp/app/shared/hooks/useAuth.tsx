@@ -4,6 +4,7 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
 import { User } from '@supabase/supabase-js';
 import { logger } from '../lib/logger';
+import { pushTokenService } from '../lib/pushTokens';
 import { withTimeout } from '../lib/errorRecovery';
 import { setUserContext } from '../lib/sentry';
 import { Alert } from 'react-native';
@@ -539,6 +540,8 @@ export function AuthProvider({ children }: { children: ReactNode }): React.React
 
   const logout = async () => {
     try {
+      // Pushes for this account stop once it signs out of the device
+      await pushTokenService.unregister();
       await supabase.auth.signOut();
       setUser(null);
       setUserProfile(null);
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './useAuth';
+import { messagingService } from '../lib/messaging';
+import { logger } from '../lib/logger';
+import type { Message } from '../types';
+
+export interface MessageAttachment {
+  uri: string;
+  mimeType: string;
+}
+
+// One open conversation: its messages live over Realtime, marked read as they arrive
+export function useConversationMessages(conversationId: string | null) {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const channelSuffix = useRef(Math.random().toString(36).slice(2));
+
+  const signAttachments = useCallback(async (items: Message[]) => {
+    const paths = items.map(message => message.attachment_path).filter((path): path is string => !!path);
+    const urls = await messagingService.getAttachmentUrls(paths);
+    setAttachmentUrls(prev => ({ ...prev, ...urls }));
+  }, []);
+
+  useEffect(() => {
+    if (!user || !conversationId) {
+      setMessages([]);
+      setLoading(!!user);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    messagingService.getMessages(conversationId)
+      .then(async loaded => {
+        if (cancelled) return;
+        setMessages(loaded);
+        await signAttachments(loaded);
+        await messagingService.markRead(conversationId);
+      })
+      .catch(error => logger.error('Error loading conversation:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    const unsubscribe = messagingService.subscribe(payload => {
+      if (payload.table !== 'messages') return;
+      const message = payload.new as Message;
+
+      setMessages(prev => {
+        const index = prev.findIndex(m => m.id === message.id);
+        if (index === -1) return [...prev, message];
+        return prev.map(m => (m.id === message.id ? message : m));
+      });
+
+      if (payload.eventType === 'INSERT') {
+        signAttachments([message]);
+        if (message.sender_id !== user.id) {
+          messagingService.markRead(conversationId);
+        }
+      }
+    }, `conversation-${conversationId}-${channelSuffix.current}`, conversationId);
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [user?.id, conversationId, signAttachments]);
+
+  const sendMessage = useCallback(async (text: string, attachment?: MessageAttachment | null) => {
+    if (!user || !conversationId) return;
+    setSending(true);
+    try {
+      const attachmentPath = attachment
+        ? await messagingService.uploadAttachment(conversationId, user.id, attachment.uri, attachment.mimeType)
+        : null;
+      const message = await messagingService.sendMessage(conversationId, text, attachmentPath);
+
+      // Realtime may have delivered it already
+      setMessages(prev => (prev.some(m => m.id === message.id) ? prev : [...prev, message]));
+      if (message.attachment_path) {
+        await signAttachments([message]);
+      }
+    } finally {
+      setSending(false);
+    }
+  }, [user?.id, conversationId, signAttachments]);
+
+  return {
+    messages,
+    attachmentUrls,
+    loading,
+    sending,
+    sendMessage,
+  };
+}
@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './useAuth';
+import { messagingService } from '../lib/messaging';
+import { logger } from '../lib/logger';
+import type { ConversationSummary } from '../types';
+
+// The signed-in user's conversations, newest first, with unread counts kept live over Realtime.
+// Loading them also tells senders their messages were delivered.
+export function useConversations() {
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  // The inbox badge and the messages screen are mounted together, each needs its own channel
+  const channelSuffix = useRef(Math.random().toString(36).slice(2));
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return;
+    try {
+      await messagingService.markDelivered();
+      setConversations(await messagingService.getConversations(user.id));
+    } catch (error) {
+      logger.error('Error loading conversations:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    if (!user) {
+      setConversations([]);
+      setLoading(false);
+      return;
+    }
+
+    loadConversations();
+    return messagingService.subscribe(loadConversations, `conversations-${user.id}-${channelSuffix.current}`);
+  }, [user?.id, loadConversations]);
+
+  const unreadCount = conversations.reduce((total, conversation) => total + conversation.unread_count, 0);
+
+  return {
+    conversations,
+    unreadCount,
+    loading,
+    refresh: loadConversations,
+  };
+}
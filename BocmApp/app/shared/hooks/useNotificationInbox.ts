@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useAuth } from './useAuth';
+import { notificationInboxService, InboxNotification } from '../lib/notificationInbox';
+import { logger } from '../lib/logger';
+
+// The signed-in user's notifications and unread count, kept live over Realtime
+export function useNotificationInbox(limit = 50) {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  // The tab bar badge and the inbox screen are mounted together, each needs its own channel
+  const channelSuffix = useRef(Math.random().toString(36).slice(2));
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [userNotifications, count] = await Promise.all([
+        notificationInboxService.getNotifications(user.id, limit),
+        notificationInboxService.getUnreadCount(user.id),
+      ]);
+      setNotifications(userNotifications);
+      setUnreadCount(count);
+    } catch (error) {
+      logger.error('Error loading notification inbox:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, limit]);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    loadNotifications();
+    return notificationInboxService.subscribe(
+      user.id,
+      loadNotifications,
+      `notifications-${user.id}-${channelSuffix.current}`
+    );
+  }, [user?.id, loadNotifications]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId);
+    if (!notification || notification.read) return;
+
+    setNotifications(prev => prev.map(n => (n.id === notificationId ? { ...n, read: true } : n)));
+    setUnreadCount(prev => Math.max(0, prev - 1));
+    try {
+      await notificationInboxService.markAsRead(notificationId);
+    } catch {
+      await loadNotifications();
+    }
+  }, [notifications, loadNotifications]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user) return;
+
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    setUnreadCount(0);
+    try {
+      await notificationInboxService.markAllAsRead(user.id);
+    } catch {
+      await loadNotifications();
+    }
+  }, [user?.id, loadNotifications]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refresh: loadNotifications,
+  };
+}
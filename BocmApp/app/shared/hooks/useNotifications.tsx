@@ -140,6 +140,30 @@ export const useNotifications = (): UseNotificationsReturn => {
         // Navigate to cut details
         logger.log('Navigate to cut:', data.cutId);
         break;
+      case 'new_message':
+        // Navigate to the conversation
+        logger.log('Navigate to conversation:', data.conversationId);
+        break;
+      case 'job_application_received':
+      case 'job_application_updated':
+        // A barber applied to the user's job post, or a shop answered their application
+        logger.log('Navigate to job application:', data.applicationId);
+        break;
+      case 'waitlist_offer':
+        // Sent by the server when a waitlisted slot is held for this client
+        logger.log('Navigate to waitlist offer from barber:', data.barberId);
+        break;
+      case 'ondemand_request':
+      case 'ondemand_cancelled':
+        // Sent to the barber when an on-demand request arrives or is withdrawn
+        logger.log('Navigate to on-demand request:', data.requestId);
+        break;
+      case 'ondemand_accepted':
+      case 'ondemand_declined':
+      case 'ondemand_expired':
+        // Sent to the client once their on-demand request is answered or expires
+        logger.log('Navigate to on-demand request outcome:', data.requestId, data.bookingId);
+        break;
       default:
         logger.log('Unknown notification type:', data?.type);
     }
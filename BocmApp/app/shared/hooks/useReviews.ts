@@ -4,6 +4,30 @@ import { Review, ReviewStats } from '../types';
 import { Alert } from 'react-native';
 import { logger } from '../lib/logger';
 
+const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
+
+// Asks the server to push the new review to the barber's devices; the review stands even if this fails
+async function notifyReviewSubmitted(reviewId: string): Promise<void> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) return;
+
+    const response = await fetch(`${API_URL}/api/reviews/notify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ reviewId }),
+    });
+    if (!response.ok) {
+      throw new Error(`Review notification failed (${response.status})`);
+    }
+  } catch (error) {
+    logger.error('Error sending review notification:', error);
+  }
+}
+
 export function useReviews(barberId?: string) {
   const [reviews, setReviews] = useState<Review[]>([]);
   const [stats, setStats] = useState<ReviewStats | null>(null);
@@ -135,6 +159,8 @@ export function useReviews(barberId?: string) {
 
       if (error) throw error;
 
+      await notifyReviewSubmitted(data.id);
+
       // Refresh reviews
       await fetchReviews(reviewData.barberId);
       await fetchReviewStats(reviewData.barberId);
@@ -0,0 +1,68 @@
+/**
+ * Appointment lifecycle: the client checks in, the barber starts the service, then completes it.
+ * These mirror the checks the booking APIs make, so the calendar only offers actions that will succeed.
+ */
+
+// How early a client can check in before the appointment starts
+export const CHECK_IN_OPENS_MINUTES = 60;
+
+// Clients scan the barber's QR code with the phone camera; the web app finishes the check-in
+const CHECK_IN_BASE_URL = 'https://bocmstyle.com/check-in';
+
+export type AppointmentStage = 'upcoming' | 'checked_in' | 'in_service' | 'completed' | 'cancelled' | 'missed';
+
+export interface LifecycleBooking {
+  date: string;
+  endTime?: string | null;
+  status: string; // Calendar status, where no-shows are shown as "missed"
+  checkedInAt?: string | null;
+  serviceStartedAt?: string | null;
+}
+
+export const APPOINTMENT_STAGE_LABELS: Record<AppointmentStage, string> = {
+  upcoming: 'Upcoming',
+  checked_in: 'Checked in',
+  in_service: 'In service',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  missed: 'Missed',
+};
+
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+
+export function getAppointmentStage(booking: LifecycleBooking): AppointmentStage {
+  if (booking.status === 'completed') return 'completed';
+  if (booking.status === 'cancelled') return 'cancelled';
+  if (booking.status === 'missed' || booking.status === 'no_show') return 'missed';
+  if (booking.serviceStartedAt) return 'in_service';
+  if (booking.checkedInAt) return 'checked_in';
+  return 'upcoming';
+}
+
+export function canCheckIn(booking: LifecycleBooking, now: Date = new Date()): boolean {
+  if (!ACTIVE_STATUSES.includes(booking.status) || booking.checkedInAt) return false;
+  if (now.getTime() < new Date(booking.date).getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000) return false;
+  return !booking.endTime || now < new Date(booking.endTime);
+}
+
+export function canStartService(booking: LifecycleBooking, now: Date = new Date()): boolean {
+  if (!ACTIVE_STATUSES.includes(booking.status) || booking.serviceStartedAt) return false;
+  // A checked-in client may be seated early
+  return !!booking.checkedInAt || new Date(booking.date).getTime() - now.getTime() <= CHECK_IN_OPENS_MINUTES * 60 * 1000;
+}
+
+export function canComplete(booking: LifecycleBooking, now: Date = new Date()): boolean {
+  if (!ACTIVE_STATUSES.includes(booking.status)) return false;
+  return !!booking.serviceStartedAt || new Date(booking.date) <= now;
+}
+
+// "12 min early", "On time" or "5 min late" for a check-in against the start time
+export function describeArrival(date: string, checkedInAt: string): string {
+  const minutes = Math.round((new Date(checkedInAt).getTime() - new Date(date).getTime()) / (60 * 1000));
+  if (minutes === 0) return 'On time';
+  return minutes < 0 ? `${-minutes} min early` : `${minutes} min late`;
+}
+
+export function getCheckInUrl(checkInCode: string): string {
+  return `${CHECK_IN_BASE_URL}/${checkInCode}`;
+}
@@ -0,0 +1,80 @@
+/**
+ * Availability Service
+ *
+ * Reads bookable slots from the availability engine in the database
+ * (get_available_slots / check_slot_availability). The same functions back the
+ * check_booking_conflicts trigger, so every slot offered here is one the
+ * database will accept, and the web app sees exactly the same grid.
+ *
+ * @module availabilityService
+ */
+
+import { supabase } from './supabase';
+import { logger } from './logger';
+
+/**
+ * One row of the get_available_slots() database function
+ */
+export interface AvailabilitySlot {
+  slot_start: string; // ISO timestamp of the slot start
+  slot_time: string; // HH:mm in the barber's schedule
+  available: boolean;
+  reason: string | null; // Why the slot cannot be booked, null when available
+}
+
+/**
+ * Fetch the slot grid for a barber on a date
+ *
+ * @param barberId - The barber ID
+ * @param date - The date as yyyy-MM-dd
+ * @param serviceDuration - The service duration in minutes
+ * @returns Slots in start order, including unavailable ones with their reason
+ */
+export async function fetchSlotAvailability(
+  barberId: string,
+  date: string,
+  serviceDuration: number
+): Promise<AvailabilitySlot[]> {
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_barber_id: barberId,
+    p_date: date,
+    p_duration_minutes: serviceDuration,
+  });
+
+  if (error) {
+    logger.error('Error fetching available slots:', error);
+    throw error;
+  }
+
+  return (data || []) as AvailabilitySlot[];
+}
+
+/**
+ * Check whether a single start time can be booked
+ *
+ * @param barberId - The barber ID
+ * @param start - ISO timestamp of the appointment start
+ * @param serviceDuration - The service duration in minutes
+ * @param excludeBookingId - Booking to ignore (e.g. the one being moved)
+ * @returns null when bookable, otherwise the rejection reason
+ */
+export async function checkSlotAvailability(
+  barberId: string,
+  start: string,
+  serviceDuration: number,
+  excludeBookingId?: string
+): Promise<string | null> {
+  const { data, error } = await supabase.rpc('check_slot_availability', {
+    p_barber_id: barberId,
+    p_start: start,
+    p_duration_minutes: serviceDuration,
+    p_exclude_booking_id: excludeBookingId ?? null,
+  });
+
+  if (error) {
+    logger.error('Error checking slot availability:', error);
+    throw error;
+  }
+
+  return (data as string | null) ?? null;
+}
@@ -91,6 +91,8 @@ export function getBookingPricingData(booking: {
  * - Fee-only bookings: customer pays platform fee only (price = platform_fee + barber_payout)
  *   Service price is paid directly to barber at appointment
  * - Developer bookings: no platform fee, price = service_price + addon_total
+ * - Deposit and prepaid bookings: price also includes amount_prepaid, which went to the
+ *   barber toward the service and add-ons and is already part of the total below
  * 
  * The `price` field represents what was charged via Stripe (platform fee for fee-only, full amount for others).
  * The `platform_fee` field in the database is BOCM's share of the platform fee split.
@@ -101,6 +103,7 @@ export function getClientBookingDetails(
     platform_fee?: number; // BOCM's share (not the total platform fee)
     barber_payout?: number; // Barber's share (for detecting old bookings)
     addon_total?: number;
+    amount_prepaid?: number; // Paid online toward the service and add-ons
   },
   servicePrice?: number
 ): BookingDetailsBreakdown {
@@ -119,7 +122,7 @@ export function getClientBookingDetails(
   
   let platformFeeCharged = 0;
   if (!isDeveloperBooking && !isOldBooking) {
-    const platformFeeFromFields = (booking.platform_fee || 0) + (booking.barber_payout || 0);
+    const platformFeeFromFields = (booking.platform_fee || 0) + (booking.barber_payout || 0) - (booking.amount_prepaid || 0);
     // Use the sum of platform_fee + barber_payout (which equals price for fee-only bookings)
     // Fallback to price if sum is 0, but only if price is reasonable (<= $5, which is close to $3.38)
     platformFeeCharged = platformFeeFromFields > 0 
@@ -147,7 +150,8 @@ export function getClientBookingDetails(
  * IMPORTANT: For barbers, the payout includes:
  * - Service price (paid directly at appointment)
  * - Add-ons (paid directly at appointment)
- * - Barber's share from platform fee (barber_payout from database)
+ * - Barber's share from platform fee (barber_payout from database, less any amount_prepaid
+ *   since that is the service and add-ons paid online rather than at the appointment)
  * 
  * For developer bookings (price = 0, platform_fee = 0, barber_payout = 0), 
  * the barber receives service_price + addon_total (no platform fee split).
@@ -158,6 +162,7 @@ export function getBarberBookingDetails(
     platform_fee?: number; // BOCM's share
     barber_payout?: number; // Barber's share from platform fee
     addon_total?: number;
+    amount_prepaid?: number; // Paid online toward the service and add-ons
   },
   servicePrice?: number
 ): BookingDetailsBreakdown {
@@ -174,7 +179,7 @@ export function getBarberBookingDetails(
   // - Barber payout: service + addons (at appointment) + barber_payout (from platform fee, 0 for developer)
   const servicePriceAtAppointment = servicePrice || 0;
   const addonsAtAppointment = booking.addon_total || 0;
-  const platformFeeShare = booking.barber_payout || 0;
+  const platformFeeShare = (booking.barber_payout || 0) - (booking.amount_prepaid || 0);
   
   // Check if this is an old booking (price > $5 indicates it's likely the service price, not platform fee)
   // Old bookings were created before fee-only model, so price = service price, not platform fee
@@ -187,7 +192,7 @@ export function getBarberBookingDetails(
   // Note: For fee-only bookings, price = platform_fee + barber_payout (total platform fee charged, ~$3.38)
   let validatedPlatformFee = 0;
   if (!isDeveloperBooking && !isOldBooking) {
-    const platformFeeCharged = (booking.platform_fee || 0) + (booking.barber_payout || 0);
+    const platformFeeCharged = (booking.platform_fee || 0) + (booking.barber_payout || 0) - (booking.amount_prepaid || 0);
     // Use the sum of platform_fee + barber_payout (which equals price for fee-only bookings)
     // Fallback to price if sum is 0, but only if price is reasonable (<= $5, which is close to $3.38)
     validatedPlatformFee = platformFeeCharged > 0 
@@ -1,14 +1,42 @@
 // lib/bookingService.ts
 import { supabase } from './supabase';
 import { logger } from './logger';
+import { fetchSlotAvailability } from './availabilityService';
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
 
 export type { Service } from '../types';
-import type { Service } from '../types';
+import type { Service, TipStatus } from '../types';
 
 export interface TimeSlot {
   date: string;
   time: string;
   available: boolean;
+  slotStart?: string; // ISO timestamp of the slot start
+}
+
+export type SeriesScope = 'this' | 'following' | 'all';
+
+export interface SeriesOccurrence {
+  occurrence_start: string;
+  booking_id: string | null;
+  skipped_reason: string | null; // Set when the occurrence could not be booked
+}
+
+export interface SeriesChangeResult {
+  created: SeriesOccurrence[];
+  skipped: SeriesOccurrence[];
+}
+
+// Punctuality and service time over the barber's recent appointments, in minutes
+export interface BarberLifecycleMetrics {
+  checked_in_count: number;
+  on_time_count: number;
+  avg_arrival_minutes: number | null; // Negative when clients arrive early
+  avg_wait_minutes: number | null; // Time clients wait to be seated
+  completed_count: number;
+  avg_service_minutes: number | null;
+  avg_booked_minutes: number | null; // Booked length of the same appointments
 }
 
 export interface Booking {
@@ -16,15 +44,29 @@ export interface Booking {
   barber_id: string;
   client_id: string;
   service_id: string;
+  additional_service_ids?: string[]; // Services booked alongside service_id in the same appointment
   date: string;
   price: number;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'completed';
+  status: 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no_show';
+  reschedule_count?: number;
+  series_id?: string | null; // Set for occurrences of a recurring series
+  group_id?: string | null; // Set for each person's appointment in a group booking
+  group_member_name?: string | null;
+  checked_in_at?: string | null;
+  check_in_method?: 'manual' | 'qr' | null;
+  service_started_at?: string | null;
+  completed_at?: string | null;
+  cancelled_at?: string;
+  policy_fee?: number;
+  policy_fee_status?: 'pending' | 'succeeded' | 'failed';
+  tip_amount?: number | null; // Dollars tipped after the appointment
+  tip_status?: TipStatus | null;
   payment_status: 'pending' | 'paid' | 'failed' | 'refunded';
   payment_intent_id?: string;
   platform_fee?: number;
   barber_payout?: number;
   addon_total?: number;
-  service_price?: number; // Historical service price at time of booking
+  service_price?: number; // Historical total of every booked service at time of booking
   guest_name?: string;
   guest_email?: string;
   guest_phone?: string;
@@ -33,6 +75,17 @@ export interface Booking {
   updated_at: string;
 }
 
+export interface CancelBookingResult {
+  booking: Booking;
+  refunded: boolean;
+  fee: { amount: number; status: 'succeeded' | 'pending' | 'failed'; error?: string } | null;
+}
+
+export interface TipResult {
+  status: TipStatus;
+  clientSecret: string | null; // Set when the tip is paid with a new card
+}
+
 export interface CreateBookingData {
   barber_id: string;
   service_id: string;
@@ -66,76 +119,16 @@ class BookingService {
   }
 
   // Get available time slots for a specific date (using barber ID directly)
+  // Slots come from the database availability engine, which also validates bookings
   async getAvailableSlots(barberId: string, date: string, serviceDuration: number): Promise<TimeSlot[]> {
+    const slots = await fetchSlotAvailability(barberId, date, serviceDuration);
 
-    // Get existing bookings for the date
-    const startOfDay = `${date}T00:00:00`;
-    const endOfDay = `${date}T23:59:59`;
-
-    const { data: bookings, error } = await supabase
-      .from('bookings')
-      .select('date')
-      .eq('barber_id', barberId)
-      .gte('date', startOfDay)
-      .lte('date', endOfDay)
-      .neq('status', 'cancelled');
-
-    if (error) {
-      logger.error('Error fetching bookings:', error);
-      throw error;
-    }
-
-    // Generate time slots based on service duration
-    const slots: TimeSlot[] = [];
-    const bookedTimes = new Set((bookings || []).map(b => new Date(b.date).toISOString()));
-
-    // Calculate slot interval based on service duration
-    // Use the service duration as the interval, but minimum 10 minutes
-    const slotInterval = Math.max(serviceDuration, 10);
-    
-    // Start from 9 AM and go until 6 PM
-    const startHour = 9;
-    const endHour = 18;
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += slotInterval) {
-        const slotTime = new Date(date);
-        slotTime.setHours(hour, minute, 0, 0);
-        
-        // Skip if this would go past 6 PM
-        const endTime = new Date(slotTime);
-        endTime.setMinutes(endTime.getMinutes() + serviceDuration);
-        if (endTime.getHours() >= endHour) {
-          continue;
-        }
-        
-        const slotISO = slotTime.toISOString();
-        const isBooked = bookedTimes.has(slotISO);
-        
-        // Check if there's enough time for the service
-        let hasEnoughTime = true;
-        if (!isBooked) {
-          const serviceEndTime = new Date(slotTime);
-          serviceEndTime.setMinutes(serviceEndTime.getMinutes() + serviceDuration);
-          
-          for (const bookedTime of bookedTimes) {
-            const booked = new Date(bookedTime);
-            if (booked >= slotTime && booked < serviceEndTime) {
-              hasEnoughTime = false;
-              break;
-            }
-          }
-        }
-
-        slots.push({
-          date: date,
-          time: `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
-          available: !isBooked && hasEnoughTime && slotTime > new Date()
-        });
-      }
-    }
-
-    return slots;
+    return slots.map(slot => ({
+      date,
+      time: slot.slot_time,
+      available: slot.available,
+      slotStart: slot.slot_start,
+    }));
   }
 
   // Create a booking after payment
@@ -220,20 +213,183 @@ class BookingService {
     return data || [];
   }
 
-  // Cancel a booking
-  async cancelBooking(bookingId: string): Promise<void> {
-    const { error } = await supabase
-      .from('bookings')
-      .update({ 
-        status: 'cancelled',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', bookingId);
+  // Cancel a booking. The cancellation API refunds the booking fee or charges the
+  // barber's late cancellation fee according to their cancellation policy.
+  async cancelBooking(bookingId: string): Promise<CancelBookingResult> {
+    return this.postBookingAction('/api/bookings/cancel', bookingId, 'Failed to cancel booking');
+  }
+
+  // Barber-only: mark a started booking as a no-show and charge the barber's no-show fee
+  async markNoShow(bookingId: string): Promise<CancelBookingResult> {
+    return this.postBookingAction('/api/bookings/no-show', bookingId, 'Failed to mark booking as a no-show');
+  }
+
+  // Check in from the booking: the client when they arrive, or the barber for a client at the chair
+  async checkIn(bookingId: string): Promise<Booking> {
+    const { booking } = await this.postAction<{ booking: Booking }>('/api/bookings/check-in', { bookingId }, 'Failed to check in');
+    return booking;
+  }
+
+  // Barber-only: the client is in the chair
+  async startService(bookingId: string): Promise<Booking> {
+    const { booking } = await this.postAction<{ booking: Booking }>('/api/bookings/start', { bookingId }, 'Failed to start appointment');
+    return booking;
+  }
+
+  // Barber-only: timestamps the completion so service time feeds the barber's metrics
+  async completeBooking(bookingId: string): Promise<Booking> {
+    const { booking } = await this.postAction<{ booking: Booking }>('/api/bookings/complete', { bookingId }, 'Failed to complete appointment');
+    return booking;
+  }
+
+  // Client-only: tip the barber after a completed appointment. A new card comes back with a
+  // client secret to confirm with Stripe; a saved card is charged straight away
+  async tipBooking(bookingId: string, amountCents: number, useSavedCard: boolean): Promise<TipResult> {
+    return this.postAction('/api/bookings/tip', { bookingId, amountCents, useSavedCard }, 'Failed to send the tip');
+  }
+
+  // Client-only: "No thanks" on the tip prompt
+  async declineTip(bookingId: string): Promise<boolean> {
+    const { declined } = await this.postAction<{ declined: boolean }>('/api/bookings/tip/decline', { bookingId }, 'Failed to update the booking');
+    return declined;
+  }
+
+  // The code in the barber's check-in QR code
+  async getCheckInCode(barberId: string): Promise<string> {
+    const { data, error } = await supabase
+      .from('barbers')
+      .select('check_in_code')
+      .eq('id', barberId)
+      .single();
+
+    if (error) {
+      logger.error('Error fetching check-in code:', error);
+      throw error;
+    }
+
+    return data.check_in_code;
+  }
+
+  // Punctuality and average service time over the barber's appointments since `since`
+  async getLifecycleMetrics(barberId: string, since: Date): Promise<BarberLifecycleMetrics> {
+    const { data, error } = await supabase
+      .rpc('get_barber_lifecycle_metrics', { p_barber_id: barberId, p_since: since.toISOString() })
+      .single();
 
     if (error) {
-      logger.error('Error cancelling booking:', error);
+      logger.error('Error fetching appointment metrics:', error);
       throw error;
     }
+
+    return data as BarberLifecycleMetrics;
+  }
+
+  // The barber's cancellation policy, readable by clients through a security definer function
+  async getCancellationPolicy(barberId: string): Promise<{ windowHours: number; noShowFee: number }> {
+    const { data, error } = await supabase
+      .rpc('get_cancellation_policy', { p_barber_id: barberId })
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching cancellation policy:', error);
+      throw error;
+    }
+
+    const policy = data as { cancellation_window_hours: number; no_show_fee: number } | null;
+    return {
+      windowHours: policy?.cancellation_window_hours ?? 24,
+      noShowFee: Number(policy?.no_show_fee ?? 0),
+    };
+  }
+
+  private async postBookingAction(path: string, bookingId: string, failureMessage: string): Promise<CancelBookingResult> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to update a booking');
+    }
+
+    const response = await fetch(`${API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ bookingId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      logger.error(`${failureMessage}:`, result.error);
+      throw new Error(result.error || failureMessage);
+    }
+
+    return { refunded: false, ...result };
+  }
+
+  // Cancel an occurrence of a recurring series: just this one, this and following, or all upcoming
+  async cancelSeries(bookingId: string, scope: SeriesScope): Promise<{ bookings: Booking[] }> {
+    return this.postAction('/api/bookings/series/cancel', { bookingId, scope }, 'Failed to cancel recurring appointments');
+  }
+
+  // Barber-only: move an occurrence to newStart; 'following' and 'all' move the rest of the series with it.
+  // Occurrences that no longer fit the schedule are skipped and returned in `skipped`.
+  async updateSeries(bookingId: string, scope: SeriesScope, newStart: string): Promise<SeriesChangeResult> {
+    return this.postAction('/api/bookings/series/update', { bookingId, scope, newStart }, 'Failed to update recurring appointments');
+  }
+
+  // Cancel every upcoming appointment in a group booking together (the organizer or the barber)
+  async cancelGroup(groupId: string): Promise<Omit<CancelBookingResult, 'booking'> & { bookings: Booking[] }> {
+    return this.postAction('/api/bookings/group/cancel', { groupId }, 'Failed to cancel group booking');
+  }
+
+  private async postAction<T>(path: string, body: object, failureMessage: string): Promise<T> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to update a booking');
+    }
+
+    const response = await fetch(`${API_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      logger.error(`${failureMessage}:`, result.error);
+      throw new Error(result.error || failureMessage);
+    }
+
+    return result;
+  }
+
+  // Move a booking to a new start time. The reschedule API enforces the barber's
+  // cutoff and reschedule limit and keeps the original payment on the booking.
+  async rescheduleBooking(bookingId: string, newDate: string): Promise<Booking> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to reschedule a booking');
+    }
+
+    const response = await fetch(`${API_URL}/api/bookings/reschedule`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ bookingId, newDate }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      logger.error('Error rescheduling booking:', result.error);
+      throw new Error(result.error || 'Failed to reschedule booking');
+    }
+
+    return result.booking;
   }
 
   // Calculate fees (fee-only payment model)
@@ -9,6 +9,7 @@
 
 import { supabase } from '../supabase';
 import { logger } from '../logger';
+import { fetchSlotAvailability } from '../availabilityService';
 import { format } from 'date-fns';
 
 /**
@@ -54,6 +55,7 @@ export interface Service {
 export interface TimeSlot {
   time: string;
   available: boolean;
+  slotStart?: string; // ISO timestamp of the slot start
 }
 
 /**
@@ -361,6 +363,9 @@ export async function fetchBarberServices(barberId: string): Promise<Service[]>
 /**
  * Fetch available time slots for a given date and service
  * 
+ * Slots come from the database availability engine, so they honour the
+ * barber's weekly schedule, special hours, time off, buffers and restrictions.
+ * 
  * @param barberId - The barber ID
  * @param date - The date to check
  * @param serviceDuration - The service duration in minutes
@@ -373,69 +378,13 @@ export async function fetchAvailableTimeSlots(
 ): Promise<TimeSlot[]> {
   try {
     const dateStr = format(date, 'yyyy-MM-dd');
-    
-    const { data: bookings, error } = await supabase
-      .from('bookings')
-      .select('date')
-      .eq('barber_id', barberId)
-      .gte('date', `${dateStr}T00:00:00`)
-      .lte('date', `${dateStr}T23:59:59`)
-      .neq('status', 'cancelled');
-
-    if (error) {
-      logger.error('Error fetching bookings for time slots:', error);
-      return [];
-    }
-
-    // Generate time slots
-    const slots: TimeSlot[] = [];
-    const bookedTimes = new Set((bookings || []).map(b => new Date(b.date).toISOString()));
-
-    // Calculate slot interval based on service duration (minimum 10 minutes)
-    const slotInterval = Math.max(serviceDuration, 10);
-    
-    // Business hours: 9 AM to 6 PM
-    const startHour = 9;
-    const endHour = 18;
-    
-    for (let hour = startHour; hour < endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += slotInterval) {
-        const slotTime = new Date(date);
-        slotTime.setHours(hour, minute, 0, 0);
-        
-        // Skip if service would go past 6 PM
-        const endTime = new Date(slotTime);
-        endTime.setMinutes(endTime.getMinutes() + serviceDuration);
-        if (endTime.getHours() >= endHour) {
-          continue;
-        }
-        
-        const slotISO = slotTime.toISOString();
-        const isBooked = bookedTimes.has(slotISO);
-        
-        // Check if there's enough time for the service
-        let hasEnoughTime = true;
-        if (!isBooked) {
-          const serviceEndTime = new Date(slotTime);
-          serviceEndTime.setMinutes(serviceEndTime.getMinutes() + serviceDuration);
-          
-          for (const bookedTime of bookedTimes) {
-            const booked = new Date(bookedTime);
-            if (booked >= slotTime && booked < serviceEndTime) {
-              hasEnoughTime = false;
-              break;
-            }
-          }
-        }
-
-        slots.push({
-          time: `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`,
-          available: !isBooked && hasEnoughTime && slotTime > new Date()
-        });
-      }
-    }
+    const slots = await fetchSlotAvailability(barberId, dateStr, serviceDuration);
 
-    return slots;
+    return slots.map(slot => ({
+      time: slot.slot_time,
+      available: slot.available,
+      slotStart: slot.slot_start,
+    }));
   } catch (error) {
     logger.error('Error fetching time slots:', error);
     return [];
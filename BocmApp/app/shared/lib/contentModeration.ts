@@ -43,6 +43,25 @@ const INAPPROPRIATE_PATTERNS = [
   /(?:^|\s)([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g, // Email addresses
 ];
 
+/**
+ * Inappropriate words in text, matched as whole words
+ * @param text Text to check
+ * @returns The words found
+ */
+function findInappropriateWords(text: string): string[] {
+  const lowerText = text.toLowerCase();
+  const detectedWords: string[] = [];
+
+  for (const word of INAPPROPRIATE_WORDS) {
+    // Use word boundaries to avoid false positives (e.g., "class" containing "ass")
+    const regex = new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
+    if (regex.test(lowerText)) {
+      detectedWords.push(word);
+    }
+  }
+  return detectedWords;
+}
+
 /**
  * Check if text contains inappropriate content
  * @param text Text to check
@@ -57,17 +76,7 @@ export function checkTextContent(text: string): {
     return { isInappropriate: false };
   }
 
-  const lowerText = text.toLowerCase();
-  const detectedWords: string[] = [];
-  
-  // Check for inappropriate words
-  for (const word of INAPPROPRIATE_WORDS) {
-    // Use word boundaries to avoid false positives (e.g., "class" containing "ass")
-    const regex = new RegExp(`\\b${word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'gi');
-    if (regex.test(lowerText)) {
-      detectedWords.push(word);
-    }
-  }
+  const detectedWords = findInappropriateWords(text);
   
   // Check for suspicious patterns (URLs, emails, phone numbers)
   const suspiciousPatterns: string[] = [];
@@ -207,3 +216,63 @@ export function validateReviewContent(comment: string): {
   return { isValid: true };
 }
 
+/**
+ * Check if a direct message can be sent
+ * Messages may share phone numbers and addresses (that is what they are for), so only
+ * language and length are checked; the server checks again before sending.
+ */
+export function validateMessageContent(text: string): {
+  isValid: boolean;
+  reason?: string;
+} {
+  if (text.length > 1000) {
+    return {
+      isValid: false,
+      reason: 'Message is too long. Maximum length is 1000 characters.',
+    };
+  }
+
+  if (findInappropriateWords(text).length > 0) {
+    return {
+      isValid: false,
+      reason: 'Message contains inappropriate language.',
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Check if a job post, or a cover letter applying to one, can be published
+ * Job posts are public, so they need enough detail to apply on; cover letters may be empty.
+ */
+export function validateJobContent(text: string, kind: 'post' | 'coverLetter'): {
+  isValid: boolean;
+  reason?: string;
+} {
+  const label = kind === 'post' ? 'Job description' : 'Cover letter';
+  const maxLength = kind === 'post' ? 5000 : 2000;
+
+  if (kind === 'post' && text.trim().length < 20) {
+    return {
+      isValid: false,
+      reason: 'Job description is too short. Describe the shop and what the job comes with.',
+    };
+  }
+
+  if (text.length > maxLength) {
+    return {
+      isValid: false,
+      reason: `${label} is too long. Maximum length is ${maxLength} characters.`,
+    };
+  }
+
+  if (findInappropriateWords(text).length > 0) {
+    return {
+      isValid: false,
+      reason: `${label} contains inappropriate language.`,
+    };
+  }
+
+  return { isValid: true };
+}
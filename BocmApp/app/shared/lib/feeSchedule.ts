@@ -0,0 +1,57 @@
+// lib/feeSchedule.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { FeeSchedule } from '../types';
+
+// The standard platform schedule; mirrors src/shared/lib/fee-calculator.ts
+export const PLATFORM_FEE_CENTS = 338;
+
+export type FeeTerms = Pick<FeeSchedule, 'fee_type' | 'fee_cents' | 'fee_percentage' | 'stripe_fee_cents' | 'platform_share'> & {
+  id?: string;
+};
+
+export const DEFAULT_FEE_SCHEDULE: FeeTerms = {
+  fee_type: 'fixed',
+  fee_cents: PLATFORM_FEE_CENTS,
+  fee_percentage: null,
+  stripe_fee_cents: 38,
+  platform_share: 0.6,
+};
+
+export interface BookingFee {
+  platformFeeCents: number; // Charged to the client
+  bocmNetShareCents: number; // Kept by the platform after absorbing Stripe's fee
+}
+
+/**
+ * The booking fee under a schedule and what the platform keeps of it
+ * @param schedule The schedule in effect for the barber
+ * @param servicesCents Services total, which percentage schedules charge a share of
+ */
+export function calculateBookingFee(schedule: FeeTerms = DEFAULT_FEE_SCHEDULE, servicesCents = 0): BookingFee {
+  const platformFeeCents = schedule.fee_type === 'percentage'
+    ? Math.max(schedule.fee_cents, Math.round(servicesCents * Number(schedule.fee_percentage) / 100))
+    : schedule.fee_cents;
+  const stripeFeeCents = platformFeeCents === 0 ? 0 : schedule.stripe_fee_cents ?? Math.round(platformFeeCents * 0.029) + 30;
+  const netCents = Math.max(0, platformFeeCents - stripeFeeCents);
+
+  return {
+    platformFeeCents,
+    bocmNetShareCents: Math.max(0, Math.round(netCents * Number(schedule.platform_share)) - stripeFeeCents),
+  };
+}
+
+class FeeScheduleService {
+  // The barber's own schedule while one is in effect, otherwise the platform's
+  async resolve(barberId: string): Promise<FeeSchedule> {
+    const { data, error } = await supabase.rpc('resolve_fee_schedule', { p_barber_id: barberId });
+
+    if (error || !data?.id) {
+      logger.error('Error resolving fee schedule:', error);
+      throw new Error(error?.message || 'No fee schedule is in effect for this barber');
+    }
+    return data as FeeSchedule;
+  }
+}
+
+export const feeScheduleService = new FeeScheduleService();
@@ -0,0 +1,37 @@
+/**
+ * Group bookings: one client books several people with the same barber in one checkout.
+ * Each person gets their own appointment, back to back or at the same time.
+ */
+
+export type GroupTiming = 'back_to_back' | 'parallel';
+
+// Matches the booking_groups members check
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 6;
+
+/**
+ * Minutes the barber must be free from the group's start time
+ * Back to back needs every appointment in a row; at the same time needs the longest one
+ */
+export function getGroupSlotDuration(durations: number[], timing: GroupTiming): number {
+  if (durations.length === 0) return 0;
+
+  return timing === 'parallel'
+    ? Math.max(...durations)
+    : durations.reduce((total, duration) => total + duration, 0);
+}
+
+/**
+ * Start time of each person's appointment, in the order they were added
+ */
+export function getGroupSchedule(durations: number[], start: Date, timing: GroupTiming): Date[] {
+  let offsetMinutes = 0;
+
+  return durations.map(duration => {
+    const memberStart = new Date(start.getTime() + offsetMinutes * 60000);
+    if (timing === 'back_to_back') {
+      offsetMinutes += duration;
+    }
+    return memberStart;
+  });
+}
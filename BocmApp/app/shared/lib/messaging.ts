@@ -0,0 +1,252 @@
+// lib/messaging.ts
+import * as FileSystem from 'expo-file-system';
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { Conversation, ConversationSummary, Message } from '../types';
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
+
+export const MESSAGE_ATTACHMENTS_BUCKET = 'message-attachments';
+// Signed attachment URLs last an hour; the conversation reloads them when it is reopened
+const ATTACHMENT_URL_TTL_SECONDS = 60 * 60;
+
+// A conversation row with both participants joined
+export interface ConversationRow extends Conversation {
+  client: { id: string; name: string | null; avatar_url: string | null } | null;
+  barber: {
+    id: string;
+    user_id: string;
+    business_name: string | null;
+    profiles: { name: string | null; avatar_url: string | null } | null;
+  } | null;
+}
+
+const CONVERSATION_SELECT = `
+  *,
+  client:client_id(id, name, avatar_url),
+  barber:barber_id(id, user_id, business_name, profiles:user_id(name, avatar_url))
+`;
+
+/**
+ * The participant a user is talking to
+ * @param conversation Conversation with both participants joined
+ * @param userId The signed-in user
+ * @returns The barber for the client, the client for the barber
+ */
+export function getOtherParticipant(conversation: ConversationRow, userId: string): ConversationSummary['other_user'] {
+  if (conversation.client_id === userId) {
+    return {
+      id: conversation.barber?.user_id || '',
+      name: conversation.barber?.business_name || conversation.barber?.profiles?.name || 'Barber',
+      avatar_url: conversation.barber?.profiles?.avatar_url || null,
+    };
+  }
+  return {
+    id: conversation.client_id,
+    name: conversation.client?.name || 'Client',
+    avatar_url: conversation.client?.avatar_url || null,
+  };
+}
+
+/**
+ * Direct messages between clients and barbers. Conversations are read straight from
+ * the database; sending goes through the server, which checks blocks and moderation
+ * and pushes the message to the recipient.
+ */
+class MessagingService {
+  async getConversations(userId: string): Promise<ConversationSummary[]> {
+    const [{ data, error }, { data: unread, error: unreadError }] = await Promise.all([
+      supabase
+        .from('conversations')
+        .select(CONVERSATION_SELECT)
+        .order('last_message_at', { ascending: false, nullsFirst: false }),
+      supabase
+        .from('messages')
+        .select('conversation_id')
+        .neq('sender_id', userId)
+        .neq('status', 'read'),
+    ]);
+
+    if (error || unreadError) {
+      logger.error('Error loading conversations:', error || unreadError);
+      throw error || unreadError;
+    }
+
+    const unreadCounts = new Map<string, number>();
+    for (const message of unread || []) {
+      unreadCounts.set(message.conversation_id, (unreadCounts.get(message.conversation_id) || 0) + 1);
+    }
+
+    return ((data || []) as unknown as ConversationRow[]).map(({ client, barber, ...conversation }) => ({
+      ...conversation,
+      other_user: getOtherParticipant({ ...conversation, client, barber }, userId),
+      unread_count: unreadCounts.get(conversation.id) || 0,
+    }));
+  }
+
+  async getConversation(conversationId: string, userId: string): Promise<ConversationSummary | null> {
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_SELECT)
+      .eq('id', conversationId)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error loading conversation:', error);
+      throw error;
+    }
+    if (!data) return null;
+
+    const { client, barber, ...conversation } = data as unknown as ConversationRow;
+    return {
+      ...conversation,
+      other_user: getOtherParticipant({ ...conversation, client, barber }, userId),
+      unread_count: 0,
+    };
+  }
+
+  // Oldest first, the most recent `limit` messages
+  async getMessages(conversationId: string, limit = 100): Promise<Message[]> {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Error loading messages:', error);
+      throw error;
+    }
+    return ((data || []) as Message[]).reverse();
+  }
+
+  /**
+   * Opens the conversation with another user, creating it the first time. The database
+   * refuses users who blocked each other, and barbers messaging someone who never booked them.
+   * @returns The conversation id
+   */
+  async startConversation(otherUserId: string, bookingId?: string | null): Promise<string> {
+    const { data, error } = await supabase.rpc('start_conversation', {
+      p_other_user_id: otherUserId,
+      p_booking_id: bookingId || null,
+    });
+
+    if (error) {
+      logger.error('Error starting conversation:', error);
+      throw new Error(error.message || 'Could not start the conversation');
+    }
+    return data as string;
+  }
+
+  async sendMessage(conversationId: string, text: string, attachmentPath?: string | null): Promise<Message> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to send messages');
+    }
+
+    const response = await fetch(`${API_URL}/api/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ conversationId, text, attachmentPath: attachmentPath || null }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send message');
+    }
+    return result.message as Message;
+  }
+
+  /**
+   * Uploads a photo from the device to attach to the next message
+   * @returns Its storage path, <conversation id>/<sender id>/<file>
+   */
+  async uploadAttachment(conversationId: string, userId: string, uri: string, mimeType: string): Promise<string> {
+    const extension = mimeType.split('/')[1] === 'jpeg' ? 'jpg' : mimeType.split('/')[1] || 'jpg';
+    const path = `${conversationId}/${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`;
+
+    // Supabase Storage takes bytes; read the file as base64 like ImageUpload does
+    const base64 = await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 });
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+      bytes[i] = binary.charCodeAt(i);
+    }
+
+    const { error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .upload(path, bytes, { contentType: mimeType });
+
+    if (error) {
+      logger.error('Error uploading message attachment:', error);
+      throw error;
+    }
+    return path;
+  }
+
+  // Attachments are private, so they are shown through signed URLs keyed by path
+  async getAttachmentUrls(paths: string[]): Promise<Record<string, string>> {
+    if (paths.length === 0) return {};
+
+    const { data, error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENTS_BUCKET)
+      .createSignedUrls(paths, ATTACHMENT_URL_TTL_SECONDS);
+
+    if (error) {
+      logger.error('Error signing message attachments:', error);
+      return {};
+    }
+
+    const urls: Record<string, string> = {};
+    for (const item of data || []) {
+      if (item.path && item.signedUrl) {
+        urls[item.path] = item.signedUrl;
+      }
+    }
+    return urls;
+  }
+
+  // Receipts: the other participant's messages reached this device, or were read in the open conversation
+  async markDelivered(): Promise<void> {
+    const { error } = await supabase.rpc('mark_messages_delivered');
+    if (error) {
+      logger.error('Error marking messages delivered:', error);
+    }
+  }
+
+  async markRead(conversationId: string): Promise<void> {
+    const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+    if (error) {
+      logger.error('Error marking conversation read:', error);
+    }
+  }
+
+  /**
+   * Calls onChange when a message is sent or its status changes, and when a conversation changes.
+   * Realtime applies the row level security policies, so only the user's own conversations come
+   * through; pass a conversation id to listen to one thread.
+   * @returns Unsubscribe function
+   */
+  subscribe(
+    onChange: (payload: { table: string; eventType: string; new: Record<string, any> }) => void,
+    channelName: string,
+    conversationId?: string
+  ): () => void {
+    const messageFilter = conversationId ? { filter: `conversation_id=eq.${conversationId}` } : {};
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'messages', ...messageFilter }, onChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'conversations' }, onChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+export const messagingService = new MessagingService();
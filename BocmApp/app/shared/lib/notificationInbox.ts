@@ -0,0 +1,123 @@
+// lib/notificationInbox.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { RootStackParamList } from '../types';
+
+export interface InboxNotification {
+  id: string;
+  user_id: string;
+  title: string;
+  message: string;
+  type: string;
+  booking_id?: string | null;
+  review_id?: string | null;
+  cut_id?: string | null;
+  job_application_id?: string | null;
+  read: boolean;
+  created_at: string;
+}
+
+export interface NotificationTarget {
+  screen: keyof RootStackParamList;
+  params?: RootStackParamList[keyof RootStackParamList];
+}
+
+/**
+ * Where opening a notification takes the user
+ * @param notification Inbox notification
+ * @returns The screen to navigate to, or null when it has nothing to open
+ */
+export function getNotificationTarget(
+  notification: Pick<InboxNotification, 'booking_id' | 'review_id' | 'cut_id' | 'job_application_id'>
+): NotificationTarget | null {
+  if (notification.cut_id) {
+    return { screen: 'Cuts', params: { cutId: notification.cut_id } };
+  }
+  if (notification.job_application_id) {
+    return { screen: 'Jobs', params: { applicationId: notification.job_application_id } };
+  }
+  // Reviews are about the recipient, so they open their own profile
+  if (notification.review_id) {
+    return { screen: 'MainTabs', params: { screen: 'Profile' } };
+  }
+  if (notification.booking_id) {
+    return { screen: 'MainTabs', params: { screen: 'Calendar', params: { bookingId: notification.booking_id } } };
+  }
+  return null;
+}
+
+/**
+ * The signed-in user's notification inbox, backed by the notifications table
+ */
+class NotificationInboxService {
+  async getNotifications(userId: string, limit = 50): Promise<InboxNotification[]> {
+    const { data, error } = await supabase
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      logger.error('Error loading notifications:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  async getUnreadCount(userId: string): Promise<number> {
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      logger.error('Error counting unread notifications:', error);
+      throw error;
+    }
+    return count || 0;
+  }
+
+  async markAsRead(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('id', notificationId);
+
+    if (error) {
+      logger.error('Error marking notification as read:', error);
+      throw error;
+    }
+  }
+
+  async markAllAsRead(userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read: true })
+      .eq('user_id', userId)
+      .eq('read', false);
+
+    if (error) {
+      logger.error('Error marking all notifications as read:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Calls onChange whenever one of the user's notifications is added or changes
+   * @returns Unsubscribe function
+   */
+  subscribe(userId: string, onChange: () => void, channelName = `notifications-${userId}`): () => void {
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, onChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+}
+
+export const notificationInboxService = new NotificationInboxService();
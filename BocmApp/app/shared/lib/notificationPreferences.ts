@@ -0,0 +1,214 @@
+// lib/notificationPreferences.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { DEFAULT_BARBER_TIMEZONE, getDeviceTimeZone } from './timezoneUtils';
+
+export type NotificationEvent =
+  | 'booking_created'
+  | 'booking_cancelled'
+  | 'booking_reminder'
+  | 'review_received'
+  | 'payout'
+  | 'new_follower_cut'
+  | 'new_message'
+  | 'job_application';
+
+// In-app notifications always go to the inbox; the other channels can be turned off per event
+export type PreferenceChannel = 'push' | 'sms' | 'email';
+
+export type ChannelPreferences = Partial<Record<NotificationEvent, Partial<Record<PreferenceChannel, boolean>>>>;
+
+export interface NotificationPreferences {
+  channels: ChannelPreferences;
+  quiet_hours_start: string | null; // HH:MM[:SS] in the user's timezone
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+export const NOTIFICATION_EVENTS: {
+  event: NotificationEvent;
+  label: string;
+  description: string;
+  roles: Array<'client' | 'barber'>;
+}[] = [
+  { event: 'booking_created', label: 'New bookings', description: 'A booking is made or confirmed', roles: ['client', 'barber'] },
+  { event: 'booking_cancelled', label: 'Cancellations', description: 'A booking is cancelled', roles: ['client', 'barber'] },
+  { event: 'booking_reminder', label: 'Reminders', description: 'An appointment is coming up', roles: ['client', 'barber'] },
+  { event: 'review_received', label: 'Reviews', description: 'A client reviews you', roles: ['barber'] },
+  { event: 'payout', label: 'Payouts', description: 'Money is paid out to your account', roles: ['barber'] },
+  { event: 'new_follower_cut', label: 'New cuts', description: 'A barber you follow posts a cut', roles: ['client', 'barber'] },
+  { event: 'new_message', label: 'Messages', description: 'Someone sends you a direct message', roles: ['client', 'barber'] },
+  { event: 'job_application', label: 'Job applications', description: 'Someone applies to your job post, or a shop answers your application', roles: ['barber'] },
+];
+
+export const PREFERENCE_CHANNELS: { channel: PreferenceChannel; label: string }[] = [
+  { channel: 'push', label: 'Push' },
+  { channel: 'sms', label: 'Text' },
+  { channel: 'email', label: 'Email' },
+];
+
+// Matches DEFAULT_CHANNEL_PREFERENCES on the server, which applies them to every message it sends
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationEvent, Record<PreferenceChannel, boolean>> = {
+  booking_created: { push: true, sms: true, email: true },
+  booking_cancelled: { push: true, sms: true, email: true },
+  booking_reminder: { push: true, sms: true, email: true },
+  review_received: { push: true, sms: false, email: true },
+  payout: { push: true, sms: false, email: true },
+  new_follower_cut: { push: true, sms: false, email: false },
+  new_message: { push: true, sms: false, email: false },
+  job_application: { push: true, sms: false, email: false },
+};
+
+// Notification types shown on this device that users can turn off; anything else is always shown
+const EVENT_BY_NOTIFICATION_TYPE: Record<string, NotificationEvent> = {
+  booking_confirmation: 'booking_created',
+  new_booking: 'booking_created',
+  appointment_cancelled: 'booking_cancelled',
+  booking_reminder: 'booking_reminder',
+  new_message: 'new_message',
+  job_application_received: 'job_application',
+  job_application_updated: 'job_application',
+};
+
+/**
+ * The event a notification type belongs to
+ * @param type Notification type, e.g. "booking_reminder"
+ * @returns The event, or null when the type cannot be turned off
+ */
+export function getPreferenceEvent(type: string): NotificationEvent | null {
+  return EVENT_BY_NOTIFICATION_TYPE[type] ?? null;
+}
+
+/**
+ * Whether an event is sent on a channel, falling back to the defaults
+ */
+export function isChannelEnabled(
+  preferences: Pick<NotificationPreferences, 'channels'> | null | undefined,
+  event: NotificationEvent,
+  channel: PreferenceChannel
+): boolean {
+  return preferences?.channels?.[event]?.[channel] ?? DEFAULT_CHANNEL_PREFERENCES[event][channel];
+}
+
+/**
+ * Set one event and channel, keeping the rest of the overrides
+ */
+export function setChannelEnabled(
+  channels: ChannelPreferences,
+  event: NotificationEvent,
+  channel: PreferenceChannel,
+  enabled: boolean
+): ChannelPreferences {
+  return { ...channels, [event]: { ...channels[event], [channel]: enabled } };
+}
+
+// "22:00" or "22:00:00" -> minutes after midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Whether an instant falls in the user's quiet hours, which may run past midnight
+ * @param preferences Saved preferences
+ * @param at Instant to check
+ */
+export function isInQuietHours(
+  preferences: Omit<NotificationPreferences, 'channels'> | null | undefined,
+  at: Date = new Date()
+): boolean {
+  if (!preferences?.quiet_hours_start || !preferences.quiet_hours_end) return false;
+
+  const start = toMinutes(preferences.quiet_hours_start);
+  const end = toMinutes(preferences.quiet_hours_end);
+  if (start === end) return false;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: preferences.timezone || DEFAULT_BARBER_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const hour = Number(parts.find(part => part.type === 'hour')?.value);
+  const minute = Number(parts.find(part => part.type === 'minute')?.value);
+  const now = hour * 60 + minute;
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Whether a notification of this type may be shown on the device at an instant
+ * @param preferences Saved preferences
+ * @param type Notification type
+ * @param at When the notification would be shown
+ */
+export function shouldShowPush(
+  preferences: NotificationPreferences | null | undefined,
+  type: string,
+  at: Date = new Date()
+): boolean {
+  const event = getPreferenceEvent(type);
+  if (!event) return true;
+
+  return isChannelEnabled(preferences, event, 'push') && !isInQuietHours(preferences, at);
+}
+
+/**
+ * Loads and saves the signed-in user's notification preferences.
+ * The server applies the same preferences to every push, text and email it sends.
+ */
+class NotificationPreferencesService {
+  private cached: { userId: string; preferences: NotificationPreferences | null } | null = null;
+
+  async getPreferences(): Promise<NotificationPreferences | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    if (this.cached?.userId === user.id) return this.cached.preferences;
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('channels, quiet_hours_start, quiet_hours_end, timezone')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error loading notification preferences:', error);
+      throw error;
+    }
+
+    this.cached = { userId: user.id, preferences: data };
+    return data;
+  }
+
+  async savePreferences(preferences: Omit<NotificationPreferences, 'timezone'> & { timezone?: string }): Promise<NotificationPreferences> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be signed in to change notification preferences');
+    }
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        channels: preferences.channels,
+        quiet_hours_start: preferences.quiet_hours_start,
+        quiet_hours_end: preferences.quiet_hours_end,
+        // Quiet hours follow the device's clock
+        timezone: preferences.timezone || getDeviceTimeZone(),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' })
+      .select('channels, quiet_hours_start, quiet_hours_end, timezone')
+      .single();
+
+    if (error) {
+      logger.error('Error saving notification preferences:', error);
+      throw error;
+    }
+
+    this.cached = { userId: user.id, preferences: data };
+    return data;
+  }
+}
+
+export const notificationPreferencesService = new NotificationPreferencesService();
@@ -1,8 +1,9 @@
 import * as Notifications from 'expo-notifications';
 import * as Device from 'expo-device';
 import { Platform } from 'react-native';
-import { supabase } from './supabase';
 import { logger } from './logger';
+import { notificationPreferencesService, shouldShowPush } from './notificationPreferences';
+import { pushTokenService } from './pushTokens';
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -16,8 +17,10 @@ Notifications.setNotificationHandler({
 });
 
 export interface NotificationData {
-  type: 'booking_confirmation' | 'booking_reminder' | 'new_booking' | 'payment_received' | 'appointment_cancelled' | 'cut_created';
+  type: 'booking_confirmation' | 'booking_reminder' | 'new_booking' | 'payment_received' | 'appointment_cancelled' | 'cut_created' | 'waitlist_offer' | 'ondemand_request' | 'ondemand_accepted' | 'ondemand_declined' | 'ondemand_expired' | 'ondemand_cancelled' | 'new_message' | 'job_application_received' | 'job_application_updated';
   bookingId?: string;
+  waitlistId?: string;
+  requestId?: string; // On-demand request
   barberId?: string;
   clientId?: string;
   serviceName?: string;
@@ -25,6 +28,8 @@ export interface NotificationData {
   amount?: string;
   cutId?: string;
   cutTitle?: string;
+  conversationId?: string; // Direct message
+  applicationId?: string; // Job application
 }
 
 export class NotificationService {
@@ -65,7 +70,7 @@ export class NotificationService {
         this.expoPushToken = token.data;
         logger.log('Push token obtained:', this.expoPushToken);
         
-        // Save token to user's profile
+        // Register this device so the server can push to it
         await this.savePushToken();
       } else {
         logger.log('Must use physical device for push notifications');
@@ -81,25 +86,11 @@ export class NotificationService {
     }
   }
 
-  // Save push token to user's profile
+  // Register the push token for this device; each device the user signs in on gets its own
   private async savePushToken(): Promise<void> {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user || !this.expoPushToken) return;
-
-      const { error } = await supabase
-        .from('profiles')
-        .update({ 
-          push_token: this.expoPushToken,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', user.id);
-
-      if (error) {
-        logger.error('Error saving push token:', error);
-      } else {
-        logger.log('Push token saved to profile');
-      }
+      if (!this.expoPushToken) return;
+      await pushTokenService.register(this.expoPushToken, Device.deviceName || Device.modelName);
     } catch (error) {
       logger.error('Error saving push token:', error);
     }
@@ -139,6 +130,11 @@ export class NotificationService {
     data?: NotificationData,
     channelId?: string
   ): Promise<void> {
+    if (data && !(await this.isWanted(data.type))) {
+      logger.log('Notification held back by preferences:', title);
+      return;
+    }
+
     try {
       await Notifications.scheduleNotificationAsync({
         content: {
@@ -187,6 +183,11 @@ export class NotificationService {
     
     // Schedule the reminder using seconds trigger
     const secondsFromNow = Math.max(0, (minutesBefore - 30) * 60); // 30 minutes before
+
+    if (!(await this.isWanted('booking_reminder', new Date(Date.now() + secondsFromNow * 1000)))) {
+      logger.log('Booking reminder held back by preferences');
+      return;
+    }
     
     try {
       await Notifications.scheduleNotificationAsync({
@@ -281,6 +282,16 @@ export class NotificationService {
     }, 'bookings');
   }
 
+  // Whether the user wants this type of notification shown at that time; shows it if preferences cannot be loaded
+  private async isWanted(type: string, at: Date = new Date()): Promise<boolean> {
+    try {
+      const preferences = await notificationPreferencesService.getPreferences();
+      return shouldShowPush(preferences, type, at);
+    } catch (error) {
+      return true;
+    }
+  }
+
   // Get all scheduled notifications
   async getScheduledNotifications(): Promise<Notifications.NotificationRequest[]> {
     return await Notifications.getAllScheduledNotificationsAsync();
@@ -324,8 +335,8 @@ export class NotificationService {
 // Export singleton instance
 export const notificationService = NotificationService.getInstance();
 
-// Helper function to format appointment time
-export const formatAppointmentTime = (date: Date): string => {
+// Helper function to format appointment time, in the barber's timezone when given
+export const formatAppointmentTime = (date: Date, timeZone?: string): string => {
   return date.toLocaleDateString('en-US', {
     weekday: 'long',
     month: 'long',
@@ -333,6 +344,7 @@ export const formatAppointmentTime = (date: Date): string => {
     hour: 'numeric',
     minute: '2-digit',
     hour12: true,
+    ...(timeZone && { timeZone, timeZoneName: 'short' as const }),
   });
 };
 
@@ -341,7 +353,8 @@ export const scheduleBookingReminders = async (
   bookingId: string,
   appointmentDate: Date,
   serviceName: string,
-  barberName: string
+  barberName: string,
+  barberTimeZone?: string
 ): Promise<void> => {
   const service = notificationService;
   
@@ -351,7 +364,7 @@ export const scheduleBookingReminders = async (
     await service.sendBookingReminder(
       bookingId,
       serviceName,
-      formatAppointmentTime(appointmentDate),
+      formatAppointmentTime(appointmentDate, barberTimeZone),
       barberName,
       30
     );
@@ -363,7 +376,7 @@ export const scheduleBookingReminders = async (
     await service.sendBookingReminder(
       bookingId,
       serviceName,
-      formatAppointmentTime(appointmentDate),
+      formatAppointmentTime(appointmentDate, barberTimeZone),
       barberName,
       1440 // 24 hours in minutes
     );
@@ -0,0 +1,182 @@
+/**
+ * On-demand "mobile barber" requests: the client asks a nearby barber to come to them.
+ * The platform fee is held on the client's card while the barber decides; it is only
+ * captured if they accept, which turns the request into a normal booking.
+ */
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { OnDemandRequest } from '../types';
+
+const API_URL = process.env.EXPO_PUBLIC_API_URL || '';
+
+// How soon the client can ask for a barber, in minutes from now
+export const ONDEMAND_TIME_OPTIONS = [30, 60, 120, 240];
+
+export interface OnDemandServiceOption {
+  id: string;
+  name: string;
+  duration: number;
+  price: number; // Regular price
+  onDemandPrice: number; // With the barber's surge multiplier applied
+}
+
+export interface OnDemandBarberMatch {
+  barberId: string;
+  name: string;
+  avatarUrl: string | null;
+  distanceMiles: number;
+  surgeMultiplier: number;
+  services: OnDemandServiceOption[];
+}
+
+export interface OnDemandRequestInput {
+  barberId: string;
+  serviceId: string;
+  requestedTime: string;
+  latitude: number;
+  longitude: number;
+  address?: string;
+  notes?: string;
+}
+
+export interface OnDemandPaymentHold {
+  clientSecret: string;
+  paymentIntentId: string;
+  price: number;
+  surgeMultiplier: number;
+}
+
+/**
+ * Service price for an on-demand request, rounded to cents
+ */
+export function getOnDemandPrice(price: number, surgeMultiplier: number): number {
+  return Math.round(price * Math.max(1, surgeMultiplier) * 100) / 100;
+}
+
+class OnDemandService {
+  // Barbers taking on-demand requests that cover this location at this time, nearest first
+  async findBarbers(latitude: number, longitude: number, requestedTime: string): Promise<OnDemandBarberMatch[]> {
+    const { data: matches, error } = await supabase.rpc('find_ondemand_barbers', {
+      p_lat: latitude,
+      p_lng: longitude,
+      p_requested_time: requestedTime,
+    });
+
+    if (error) {
+      logger.error('Error matching on-demand barbers:', error);
+      throw error;
+    }
+
+    const rows = (matches || []) as { barber_id: string; distance_miles: number; surge_multiplier: number }[];
+    if (rows.length === 0) return [];
+
+    const barberIds = rows.map(row => row.barber_id);
+    const [{ data: barbers, error: barbersError }, { data: services, error: servicesError }] = await Promise.all([
+      supabase.from('barbers').select('id, business_name, profiles:user_id(name, avatar_url)').in('id', barberIds),
+      supabase.from('services').select('id, barber_id, name, duration, price').in('barber_id', barberIds),
+    ]);
+
+    if (barbersError || servicesError) {
+      logger.error('Error loading on-demand barbers:', barbersError || servicesError);
+      throw barbersError || servicesError;
+    }
+
+    return rows
+      .map(row => {
+        const barber = (barbers || []).find((b: any) => b.id === row.barber_id) as any;
+        const surgeMultiplier = Number(row.surge_multiplier) || 1;
+
+        return {
+          barberId: row.barber_id,
+          name: barber?.business_name || barber?.profiles?.name || 'Barber',
+          avatarUrl: barber?.profiles?.avatar_url || null,
+          distanceMiles: Number(row.distance_miles),
+          surgeMultiplier,
+          services: (services || [])
+            .filter((service: any) => service.barber_id === row.barber_id)
+            .map((service: any) => ({
+              id: service.id,
+              name: service.name,
+              duration: service.duration,
+              price: Number(service.price),
+              onDemandPrice: getOnDemandPrice(Number(service.price), surgeMultiplier),
+            })),
+        };
+      })
+      .filter(match => match.services.length > 0);
+  }
+
+  // Holds the platform fee for the request; the client confirms the hold with their card next
+  async createRequest(input: OnDemandRequestInput): Promise<OnDemandPaymentHold> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('Please sign in to request a barber');
+    }
+
+    const response = await fetch(`${process.env.EXPO_PUBLIC_SUPABASE_URL}/functions/v1/create-ondemand-request`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY}`,
+      },
+      body: JSON.stringify({ ...input, clientId: user.id }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      logger.error('Error creating on-demand request:', result);
+      throw new Error(result.error || 'Failed to send request');
+    }
+
+    return result as OnDemandPaymentHold;
+  }
+
+  // The signed-in client's request that is still waiting for an answer, if any
+  async getPendingRequest(): Promise<OnDemandRequest | null> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('ondemand_requests')
+      .select('*')
+      .eq('client_id', user.id)
+      .eq('status', 'pending')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching on-demand request:', error);
+      throw error;
+    }
+
+    return (data as OnDemandRequest | null) ?? null;
+  }
+
+  // Withdraws a request the barber has not answered; the hold on the card is released
+  async cancelRequest(requestId: string): Promise<OnDemandRequest> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) {
+      throw new Error('You must be signed in to withdraw a request');
+    }
+
+    const response = await fetch(`${API_URL}/api/ondemand/cancel`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`,
+      },
+      body: JSON.stringify({ requestId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to withdraw request');
+    }
+
+    return result.request;
+  }
+}
+
+export const onDemandService = new OnDemandService();
@@ -0,0 +1,56 @@
+// lib/prepaidBalances.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { PrepaidBalance } from '../types';
+
+// Gift cards and packages at checkout; mirrors src/shared/lib/prepaid-balances.ts
+export type CreditableBalance = Pick<PrepaidBalance, 'kind' | 'service_id' | 'amount_remaining' | 'visits_remaining'>;
+
+// "$42.50 left" or "3 of 5 visits left"
+export function describePrepaidBalance(balance: Pick<PrepaidBalance, 'kind' | 'amount_remaining' | 'visits_remaining' | 'visit_count'>): string {
+  return balance.kind === 'package'
+    ? `${balance.visits_remaining} of ${balance.visit_count} visits left`
+    : `$${Number(balance.amount_remaining).toFixed(2)} left`;
+}
+
+/**
+ * What a balance covers on a booking, in cents. A gift card pays toward whatever is
+ * owed for the services and add-ons; a package covers one visit of its service.
+ * @param services The booked services, prices in dollars
+ * @param owedCents What is left to pay for the services and add-ons after any promo code
+ */
+export function calculatePrepaidCredit(
+  balance: CreditableBalance,
+  services: { id: string; price: number }[],
+  owedCents: number
+): number {
+  if (balance.kind === 'package') {
+    const service = services.find(s => s.id === balance.service_id);
+    if (!service || balance.visits_remaining <= 0) return 0;
+    return Math.max(0, Math.min(Math.round(Number(service.price) * 100), owedCents));
+  }
+
+  return Math.max(0, Math.min(Math.round(Number(balance.amount_remaining) * 100), owedCents));
+}
+
+class PrepaidBalanceService {
+  // The client's balances with the barber that still have something left
+  async getUsableBalances(clientId: string, barberId: string): Promise<PrepaidBalance[]> {
+    const { data, error } = await supabase
+      .from('prepaid_balances')
+      .select('*')
+      .eq('owner_id', clientId)
+      .eq('barber_id', barberId)
+      .eq('status', 'active')
+      .or('amount_remaining.gt.0,visits_remaining.gt.0')
+      .order('created_at');
+
+    if (error) {
+      logger.error('Error loading usable balances:', error);
+      throw error;
+    }
+    return data || [];
+  }
+}
+
+export const prepaidBalanceService = new PrepaidBalanceService();
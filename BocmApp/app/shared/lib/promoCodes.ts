@@ -0,0 +1,99 @@
+// lib/promoCodes.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import type { PromoDiscount } from './servicePrepayment';
+import type { PromoCode, PromoCodePreview } from '../types';
+
+// Promo code discounts; mirrors src/shared/lib/promo-codes.ts
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/;
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export type PromoTerms = Pick<PromoCode, 'barber_id' | 'discount_type' | 'discount_value' | 'service_ids'>;
+
+// The booking a code is being applied to
+export interface PromoCodeBooking {
+  barberId: string;
+  serviceIds: string[];
+  start: string; // ISO start of the appointment
+}
+
+export interface PromoCodeCheck {
+  promo: PromoCodePreview | null;
+  rejection: string | null; // Shown to the client when the code cannot be used
+}
+
+// Codes are matched case-insensitively and stored upper case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * What a code takes off a booking, before the limits calculatePaymentSplit applies.
+ * A barber code discounts the services it applies to (add-ons are never discounted);
+ * a platform code discounts the booking fee.
+ * @param services The booked services, prices in dollars
+ * @param platformFeeCents The booking fee under the barber's fee schedule
+ */
+export function calculatePromoDiscount(
+  promo: PromoTerms,
+  services: { id: string; price: number }[],
+  platformFeeCents: number
+): PromoDiscount {
+  const fundedBy = promo.barber_id ? 'barber' : 'platform';
+  const baseCents = fundedBy === 'platform'
+    ? platformFeeCents
+    : services
+      .filter(service => promo.service_ids.length === 0 || promo.service_ids.includes(service.id))
+      .reduce((sum, service) => sum + Math.round(Number(service.price) * 100), 0);
+
+  const cents = promo.discount_type === 'percentage'
+    ? Math.round(baseCents * Math.min(Number(promo.discount_value), 100) / 100)
+    : Math.round(Number(promo.discount_value) * 100);
+
+  return { fundedBy, cents: Math.max(0, Math.min(cents, baseCents)) };
+}
+
+// "20% off", "$5.00 off the booking fee", "first visit only, Tue"
+export function describePromoCode(promo: Pick<PromoCode, 'barber_id' | 'discount_type' | 'discount_value' | 'first_visit_only' | 'weekdays'>): string {
+  const amount = promo.discount_type === 'percentage'
+    ? `${Number(promo.discount_value)}% off`
+    : `$${Number(promo.discount_value).toFixed(2)} off`;
+  const details = [
+    promo.barber_id ? amount : `${amount} the booking fee`,
+    promo.first_visit_only ? 'first visit only' : null,
+    promo.weekdays.length > 0 ? [...promo.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ') : null,
+  ];
+  return details.filter(Boolean).join(', ');
+}
+
+class PromoCodeService {
+  /**
+   * Finds the code for the barber (their own, else a platform code) and checks it
+   * against the booking for the signed-in client: active period, usage limits,
+   * services, day and first visit. Checkout checks the code again.
+   */
+  async preview(code: string, booking: PromoCodeBooking): Promise<PromoCodeCheck> {
+    const normalized = normalizePromoCode(code);
+    if (!PROMO_CODE_PATTERN.test(normalized)) {
+      return { promo: null, rejection: 'This promo code is not valid' };
+    }
+
+    const { data, error } = await supabase.rpc('preview_promo_code', {
+      p_code: normalized,
+      p_barber_id: booking.barberId,
+      p_service_ids: booking.serviceIds,
+      p_start: booking.start,
+    }).single();
+
+    if (error) {
+      logger.error('Error checking promo code:', error);
+      throw error;
+    }
+
+    const { rejection, ...promo } = data as PromoCodePreview & { rejection: string | null };
+    return promo.id ? { promo, rejection: null } : { promo: null, rejection: rejection || 'This promo code is not valid' };
+  }
+}
+
+export const promoCodeService = new PromoCodeService();
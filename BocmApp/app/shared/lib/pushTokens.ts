@@ -0,0 +1,51 @@
+// lib/pushTokens.ts
+import { Platform } from 'react-native';
+import { supabase } from './supabase';
+import { logger } from './logger';
+
+/**
+ * Registers this device's Expo push token with the server, which sends every push to
+ * each device a user is signed in on and drops tokens Expo can no longer reach.
+ */
+class PushTokenService {
+  private registeredToken: string | null = null;
+
+  // Claims the token for the signed-in user; a token registered by someone else on this device moves over
+  async register(token: string, deviceName?: string | null): Promise<void> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.rpc('register_push_token', {
+      p_token: token,
+      p_platform: Platform.OS === 'ios' || Platform.OS === 'android' ? Platform.OS : null,
+      p_device_name: deviceName || null,
+    });
+
+    if (error) {
+      logger.error('Error registering push token:', error);
+      throw error;
+    }
+
+    this.registeredToken = token;
+    logger.log('Push token registered');
+  }
+
+  // Stops pushes to this device; call before signing out, while the session can still delete the row
+  async unregister(): Promise<void> {
+    if (!this.registeredToken) return;
+
+    const { error } = await supabase
+      .from('push_tokens')
+      .delete()
+      .eq('token', this.registeredToken);
+
+    if (error) {
+      logger.error('Error removing push token:', error);
+      return;
+    }
+
+    this.registeredToken = null;
+  }
+}
+
+export const pushTokenService = new PushTokenService();
@@ -0,0 +1,123 @@
+// lib/servicePrepayment.ts
+import type { Service } from '../types';
+import { calculateBookingFee, DEFAULT_FEE_SCHEDULE, FeeTerms } from './feeSchedule';
+
+export { PLATFORM_FEE_CENTS } from './feeSchedule';
+
+// Mirrors src/shared/lib/fee-calculator.ts and the create-payment-intent edge function
+const STRIPE_PERCENT_FEE = 0.029;
+
+export type PrepaidService = Pick<Service, 'price' | 'payment_mode' | 'deposit_type' | 'deposit_amount'>;
+
+// A promo code's discount, from calculatePromoDiscount in promoCodes.ts
+export interface PromoDiscount {
+  fundedBy: 'barber' | 'platform';
+  cents: number;
+}
+
+export interface PaymentSplit {
+  platformFeeCents: number; // The booking fee under the barber's fee schedule, before any platform promo code
+  discountCents: number; // What the promo code took off
+  creditCents: number; // Covered by a gift card or package the barber was already paid for
+  paymentMode: NonNullable<Service['payment_mode']>;
+  prepaidCents: number; // Charged now toward the services and add-ons, on top of the booking fee
+  totalCents: number; // Charged now
+  applicationFeeCents: number; // Kept by the platform
+  barberTransferCents: number; // Sent to the barber's Stripe account
+  dueAtAppointmentCents: number; // Paid to the barber in person
+}
+
+/**
+ * The part of one service's price the barber asks for when booking
+ * @param service Price in dollars and the barber's prepayment settings
+ * @returns Cents; a fixed deposit never exceeds the price
+ */
+export function calculateServicePrepaymentCents(service: PrepaidService): number {
+  const priceCents = Math.round(Number(service.price) * 100);
+
+  switch (service.payment_mode) {
+    case 'full':
+      return priceCents;
+    case 'deposit': {
+      const amount = Number(service.deposit_amount) || 0;
+      const depositCents = service.deposit_type === 'percentage'
+        ? Math.round(priceCents * Math.min(amount, 100) / 100)
+        : Math.round(amount * 100);
+      return Math.max(0, Math.min(depositCents, priceCents));
+    }
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Split a booking's payment: the booking fee plus each service's deposit or full price.
+ * Add-ons are prepaid only when every service is. A barber's promo code comes off what is
+ * left to pay at the appointment first, then off the prepayment; a platform promo code
+ * comes off the booking fee, at most what the platform keeps. A gift card or package
+ * credit comes off what is left to pay like a barber's promo code.
+ * @param services The booked services
+ * @param addonTotalCents Selected add-ons
+ * @param schedule The fee schedule in effect for the barber
+ * @param discount The applied promo code's discount, if any
+ * @param creditCents What the client's gift card or package covers
+ */
+export function calculatePaymentSplit(
+  services: PrepaidService[],
+  addonTotalCents = 0,
+  schedule: FeeTerms = DEFAULT_FEE_SCHEDULE,
+  discount: PromoDiscount | null = null,
+  creditCents = 0
+): PaymentSplit {
+  const servicesCents = services.reduce((sum, service) => sum + Math.round(Number(service.price) * 100), 0);
+  const { platformFeeCents, bocmNetShareCents } = calculateBookingFee(schedule, servicesCents);
+  const allFull = services.length > 0 && services.every(service => service.payment_mode === 'full');
+
+  const barberDiscountCents = discount?.fundedBy === 'barber'
+    ? Math.min(Math.max(0, discount.cents), servicesCents + addonTotalCents)
+    : 0;
+  const appliedCreditCents = Math.min(Math.max(0, creditCents), servicesCents + addonTotalCents - barberDiscountCents);
+  const owedToBarberCents = servicesCents + addonTotalCents - barberDiscountCents - appliedCreditCents;
+  const prepaidCents = Math.min(
+    owedToBarberCents,
+    services.reduce((sum, service) => sum + calculateServicePrepaymentCents(service), 0) + (allFull ? addonTotalCents : 0)
+  );
+
+  const keptCents = bocmNetShareCents + Math.round(prepaidCents * STRIPE_PERCENT_FEE);
+  const platformDiscountCents = discount?.fundedBy === 'platform'
+    ? Math.min(Math.max(0, discount.cents), keptCents, platformFeeCents)
+    : 0;
+
+  const totalCents = platformFeeCents - platformDiscountCents + prepaidCents;
+  const applicationFeeCents = keptCents - platformDiscountCents;
+  const dueAtAppointmentCents = owedToBarberCents - prepaidCents;
+
+  return {
+    platformFeeCents,
+    discountCents: barberDiscountCents + platformDiscountCents,
+    creditCents: appliedCreditCents,
+    paymentMode: prepaidCents === 0 ? 'fee_only' : dueAtAppointmentCents === 0 ? 'full' : 'deposit',
+    prepaidCents,
+    totalCents,
+    applicationFeeCents,
+    barberTransferCents: totalCents - applicationFeeCents,
+    dueAtAppointmentCents,
+  };
+}
+
+/**
+ * What a client pays up front for a service, e.g. "$10.00 deposit" or "25% deposit"
+ * @returns null for fee-only services
+ */
+export function describeServicePrepayment(service: PrepaidService): string | null {
+  switch (service.payment_mode) {
+    case 'full':
+      return 'Paid in full when booking';
+    case 'deposit':
+      return service.deposit_type === 'percentage'
+        ? `${Number(service.deposit_amount)}% deposit`
+        : `$${(calculateServicePrepaymentCents(service) / 100).toFixed(2)} deposit`;
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,184 @@
+// lib/shopBooking.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+import { AvailabilitySlot, fetchSlotAvailability } from './availabilityService';
+import type { DepositType, ServicePaymentMode, Shop } from '../types';
+
+// One barber's version of a service the shop offers
+export interface ShopServiceOffer {
+  barberId: string;
+  barberName: string;
+  timezone: string;
+  isDeveloper: boolean;
+  service: {
+    id: string;
+    name: string;
+    description: string | null;
+    duration: number;
+    price: number;
+    payment_mode?: ServicePaymentMode;
+    deposit_type?: DepositType | null;
+    deposit_amount?: number | null;
+  };
+}
+
+// A service one or more of the shop's barbers offer, matched on its name
+export interface ShopServiceOption {
+  name: string;
+  offers: ShopServiceOffer[];
+  minPrice: number;
+  maxPrice: number;
+}
+
+// A start time on the shop's combined schedule and the barbers free then
+export interface ShopSlot {
+  slotStart: string;
+  barberIds: string[];
+}
+
+/**
+ * Normalize a service name so the same service on two barbers' menus matches
+ * @param name Service name as the barber typed it
+ * @returns Lowercase name with single spaces
+ */
+export function normalizeServiceName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * Group every barber's services into the shop's first-available menu
+ * @param offers Each barber's services
+ * @returns Options in name order; each barber appears once per option
+ */
+export function groupShopServices(offers: ShopServiceOffer[]): ShopServiceOption[] {
+  const byName = new Map<string, ShopServiceOption>();
+
+  for (const offer of offers) {
+    const key = normalizeServiceName(offer.service.name);
+    const option = byName.get(key);
+    if (!option) {
+      byName.set(key, {
+        name: offer.service.name.trim(),
+        offers: [offer],
+        minPrice: offer.service.price,
+        maxPrice: offer.service.price,
+      });
+    } else if (!option.offers.some(existing => existing.barberId === offer.barberId)) {
+      option.offers.push(offer);
+      option.minPrice = Math.min(option.minPrice, offer.service.price);
+      option.maxPrice = Math.max(option.maxPrice, offer.service.price);
+    }
+  }
+
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Merge barbers' slot grids into the start times at least one of them is free
+ * @param schedules Each barber's slots for the same date
+ * @returns Start times earliest first, matched on the instant rather than the local label
+ */
+export function mergeShopSlots(schedules: { barberId: string; slots: AvailabilitySlot[] }[]): ShopSlot[] {
+  const byStart = new Map<string, string[]>();
+
+  for (const { barberId, slots } of schedules) {
+    for (const slot of slots) {
+      if (!slot.available) continue;
+      const key = new Date(slot.slot_start).toISOString();
+      byStart.set(key, [...(byStart.get(key) || []), barberId]);
+    }
+  }
+
+  return Array.from(byStart.entries())
+    .map(([slotStart, barberIds]) => ({ slotStart, barberIds }))
+    .sort((a, b) => a.slotStart.localeCompare(b.slotStart));
+}
+
+/**
+ * Price of an option, e.g. "$25" or "$25–$40" when barbers charge differently
+ */
+export function formatShopPriceRange(option: ShopServiceOption): string {
+  return option.minPrice === option.maxPrice
+    ? `$${option.minPrice}`
+    : `$${option.minPrice}–$${option.maxPrice}`;
+}
+
+/**
+ * "Any available barber" booking at a shop. The client picks a service and a time on
+ * the combined schedule; assign_shop_barber applies the shop's assignment rule and the
+ * booking is then made with that barber like any other.
+ */
+class ShopBookingService {
+  // The shop a barber works out of, if any
+  async getShopForBarber(barberId: string): Promise<Shop | null> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('shop:shop_id(*)')
+      .eq('barber_id', barberId)
+      .eq('status', 'active')
+      .order('joined_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error loading barber shop:', error);
+      throw error;
+    }
+    return ((data as unknown as { shop: Shop | null } | null)?.shop) || null;
+  }
+
+  // Every active barber's services, grouped by name
+  async getBookableServices(shopId: string): Promise<ShopServiceOption[]> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('barber_id, profile:user_id(name), barber:barber_id(timezone, is_developer, services(id, name, description, duration, price, payment_mode, deposit_type, deposit_amount))')
+      .eq('shop_id', shopId)
+      .eq('status', 'active')
+      .not('barber_id', 'is', null)
+      .order('joined_at', { ascending: true });
+
+    if (error) {
+      logger.error('Error loading shop services:', error);
+      throw error;
+    }
+
+    const offers = ((data || []) as any[]).flatMap(member =>
+      (member.barber?.services || []).map((service: ShopServiceOffer['service']) => ({
+        barberId: member.barber_id,
+        barberName: member.profile?.name || 'Barber',
+        timezone: member.barber.timezone,
+        isDeveloper: !!member.barber.is_developer,
+        service,
+      }))
+    );
+    return groupShopServices(offers);
+  }
+
+  // Start times on the date (yyyy-MM-dd), each barber checked against their own duration
+  async getServiceAvailability(option: ShopServiceOption, date: string): Promise<ShopSlot[]> {
+    const schedules = await Promise.all(
+      option.offers.map(async offer => ({
+        barberId: offer.barberId,
+        slots: await fetchSlotAvailability(offer.barberId, date, offer.service.duration),
+      }))
+    );
+    return mergeShopSlots(schedules);
+  }
+
+  // The shop's assignment rule picks one of its barbers who offer the service and are free at slotStart
+  async assignBarber(shopId: string, serviceName: string, slotStart: string): Promise<string> {
+    const { data, error } = await supabase.rpc('assign_shop_barber', {
+      p_shop_id: shopId,
+      p_service_name: serviceName,
+      p_start: slotStart,
+    });
+
+    if (error || !data) {
+      logger.error('Error assigning shop barber:', error);
+      throw new Error(error?.message || 'No barber is free at that time');
+    }
+    return data as string;
+  }
+}
+
+export const shopBookingService = new ShopBookingService();
@@ -0,0 +1,71 @@
+/**
+ * Timezone utility functions for scheduling
+ *
+ * Appointments are computed and displayed in the barber's timezone, with the
+ * client's local time shown alongside when the two differ.
+ */
+
+// Matches the barbers.timezone column default
+export const DEFAULT_BARBER_TIMEZONE = 'America/New_York';
+
+export interface AppointmentTimeLabels {
+  barberTime: string; // e.g. "9:00 AM EST"
+  localTime: string | null; // e.g. "6:00 AM PST", null when the device is in the barber's zone
+}
+
+/**
+ * The timezone the device is set to
+ * @returns IANA timezone name
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Format the time of an instant in a timezone
+ * @param date Instant to format
+ * @param timeZone IANA timezone name
+ * @param withZoneName Append the short zone name (e.g. "EST")
+ * @returns Formatted time, e.g. "9:00 AM EST"
+ */
+export function formatTimeInZone(date: Date | string, timeZone: string, withZoneName = true): string {
+  return new Date(date).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone,
+    ...(withZoneName && { timeZoneName: 'short' as const }),
+  });
+}
+
+/**
+ * Whether two timezones have the same UTC offset at a given instant
+ * @param date Instant to compare at
+ * @param timeZoneA IANA timezone name
+ * @param timeZoneB IANA timezone name
+ * @returns True when both zones show the same wall clock
+ */
+export function isSameOffset(date: Date | string, timeZoneA: string, timeZoneB: string): boolean {
+  const wallClock = (timeZone: string) => new Date(date).toLocaleString('en-US', { timeZone, hour12: false });
+  return wallClock(timeZoneA) === wallClock(timeZoneB);
+}
+
+/**
+ * Appointment time in the barber's zone plus the device's local time when it differs
+ * @param date Appointment start
+ * @param barberTimeZone The barber's timezone, falls back to the default
+ * @param localTimeZone The viewer's timezone, defaults to the device timezone
+ * @returns Labels for display
+ */
+export function getAppointmentTimeLabels(
+  date: Date | string,
+  barberTimeZone: string | null | undefined,
+  localTimeZone: string = getDeviceTimeZone()
+): AppointmentTimeLabels {
+  const timeZone = barberTimeZone || DEFAULT_BARBER_TIMEZONE;
+
+  return {
+    barberTime: formatTimeInZone(date, timeZone),
+    localTime: isSameOffset(date, timeZone, localTimeZone) ? null : formatTimeInZone(date, localTimeZone),
+  };
+}
@@ -0,0 +1,60 @@
+// lib/tipping.ts
+import type { TipStatus } from '../types';
+
+// Tip amounts and when to ask for one; mirrors src/shared/lib/tipping.ts
+export const TIP_PERCENTAGES = [15, 20, 25];
+export const MIN_TIP_CENTS = 100; // $1.00
+export const MAX_TIP_CENTS = 50000; // $500.00
+// Clients are prompted for this long after the appointment is completed
+export const TIP_PROMPT_DAYS = 7;
+
+export interface TippableBooking {
+  status: string;
+  client_id?: string | null;
+  completed_at?: string | null;
+  tip_status?: TipStatus | null;
+}
+
+/**
+ * A preset tip: a percentage of what the services and add-ons cost
+ * @param serviceTotalCents Services and add-ons, in cents
+ */
+export function calculateTipCents(serviceTotalCents: number, percentage: number): number {
+  return Math.max(0, Math.round(serviceTotalCents * percentage / 100));
+}
+
+// Null when the amount can be tipped, otherwise the reason shown to the client
+export function getTipAmountError(amountCents: number): string | null {
+  if (!Number.isInteger(amountCents) || amountCents < MIN_TIP_CENTS) {
+    return `The smallest tip is $${(MIN_TIP_CENTS / 100).toFixed(2)}`;
+  }
+  if (amountCents > MAX_TIP_CENTS) {
+    return `Tips are limited to $${(MAX_TIP_CENTS / 100).toFixed(2)}`;
+  }
+  return null;
+}
+
+// Null when the client can tip on the booking, otherwise the reason shown to them
+export function getTipBlocker(booking: TippableBooking): string | null {
+  if (booking.status !== 'completed') {
+    return 'You can tip once the appointment is completed';
+  }
+  if (!booking.client_id) {
+    return 'Sign in to tip your barber';
+  }
+  if (booking.tip_status === 'succeeded') {
+    return 'You already tipped for this appointment';
+  }
+  if (booking.tip_status === 'pending') {
+    return 'Your tip is still processing';
+  }
+  return null;
+}
+
+// Recently completed bookings the client has neither tipped on nor declined to
+export function shouldPromptForTip(booking: TippableBooking, now: Date = new Date()): boolean {
+  if (getTipBlocker(booking) || booking.tip_status || !booking.completed_at) {
+    return false;
+  }
+  return now.getTime() - new Date(booking.completed_at).getTime() < TIP_PROMPT_DAYS * 24 * 60 * 60 * 1000;
+}
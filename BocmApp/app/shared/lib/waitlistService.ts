@@ -0,0 +1,86 @@
+// lib/waitlistService.ts
+import { supabase } from './supabase';
+import { logger } from './logger';
+
+export interface WaitlistEntry {
+  id: string;
+  barber_id: string;
+  client_id: string;
+  service_id: string;
+  date: string; // yyyy-MM-dd in the barber's timezone
+  status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+  offered_slot_start: string | null;
+  offered_slot_end: string | null;
+  offer_expires_at: string | null;
+  booking_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Booking waitlist for fully booked days.
+ * When a booking on the day is cancelled, the server holds the slot for the
+ * first client in line and notifies them by push and email.
+ */
+class WaitlistService {
+  async joinWaitlist(barberId: string, serviceId: string, date: string): Promise<WaitlistEntry> {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      throw new Error('You must be signed in to join the waitlist');
+    }
+
+    const { data, error } = await supabase
+      .from('booking_waitlist')
+      .insert({
+        barber_id: barberId,
+        client_id: user.id,
+        service_id: serviceId,
+        date,
+      })
+      .select('*')
+      .single();
+
+    if (error) {
+      logger.error('Error joining waitlist:', error);
+      // One active entry per barber and day
+      if (error.code === '23505') {
+        throw new Error("You're already on the waitlist for this day");
+      }
+      throw error;
+    }
+
+    return data as WaitlistEntry;
+  }
+
+  async leaveWaitlist(entryId: string): Promise<void> {
+    const { error } = await supabase
+      .from('booking_waitlist')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', entryId);
+
+    if (error) {
+      logger.error('Error leaving waitlist:', error);
+      throw error;
+    }
+  }
+
+  // The signed-in client's active entry for a barber and day, if any
+  async getActiveEntry(barberId: string, date: string): Promise<WaitlistEntry | null> {
+    const { data, error } = await supabase
+      .from('booking_waitlist')
+      .select('*')
+      .eq('barber_id', barberId)
+      .eq('date', date)
+      .in('status', ['waiting', 'offered'])
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching waitlist entry:', error);
+      throw error;
+    }
+
+    return (data as WaitlistEntry | null) ?? null;
+  }
+}
+
+export const waitlistService = new WaitlistService();
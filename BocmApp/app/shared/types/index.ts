@@ -50,6 +50,17 @@ export type RootStackParamList = {
     cutId?: string;
     barberId?: string;
   };
+  Messages: undefined;
+  // Opens conversationId, or starts a conversation with otherUserId (optionally about bookingId)
+  Conversation: {
+    conversationId?: string;
+    otherUserId?: string;
+    bookingId?: string | null;
+    title?: string;
+  };
+  // applicationId is set when a notification opens the job board
+  Jobs: { applicationId?: string } | undefined;
+  JobApplicants: { jobId: string; title?: string; applicationId?: string };
 }
 
 // User Types
@@ -146,6 +157,7 @@ export interface Barber {
   longitude?: number;
   city?: string;
   state?: string;
+  timezone?: string; // IANA timezone the barber's schedule is expressed in
   // Relations
   user?: User;
   services?: Service[];
@@ -157,6 +169,27 @@ export interface Barber {
 }
 
 // Service Types
+// How much of a service the client pays online when booking
+export type ServicePaymentMode = 'fee_only' | 'deposit' | 'full';
+export type DepositType = 'fixed' | 'percentage';
+
+// The booking fee and its split, from fee_schedules
+export type FeeType = 'fixed' | 'percentage';
+
+export interface FeeSchedule {
+  id: string;
+  barber_id: string | null; // null for the platform-wide schedule
+  name: string;
+  fee_type: FeeType;
+  fee_cents: number; // The fee when fixed, the minimum when a percentage
+  fee_percentage: number | null; // Percent of the services total
+  stripe_fee_cents: number | null; // null estimates Stripe's 2.9% + $0.30
+  platform_share: number; // 0 to 1, of the fee left after Stripe
+  effective_from: string;
+  effective_until: string | null;
+  created_at: string;
+}
+
 export interface Service {
   id: string;
   barber_id: string;
@@ -164,6 +197,9 @@ export interface Service {
   description?: string;
   duration: number;
   price: number;
+  payment_mode?: ServicePaymentMode;
+  deposit_type?: DepositType | null;
+  deposit_amount?: number | null; // Dollars when fixed, percent of the price when percentage
   created_at: string;
   updated_at: string;
   barber?: Barber;
@@ -201,11 +237,64 @@ export type PaymentStatus =
   | 'refunded'
   | 'partially_refunded'
 
+// declined when the client chose not to tip, so they are not asked again
+export type TipStatus = 'pending' | 'succeeded' | 'failed' | 'declined' | 'refunded';
+
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+// A barber's promo code (barber_id set) comes off the services; a platform code off the booking fee
+export interface PromoCode {
+  id: string;
+  barber_id: string | null;
+  code: string;
+  description: string | null;
+  discount_type: PromoDiscountType;
+  discount_value: number; // Percent when a percentage, otherwise dollars
+  max_redemptions: number | null;
+  max_redemptions_per_client: number | null;
+  first_visit_only: boolean;
+  service_ids: string[]; // Empty applies to every service
+  weekdays: number[]; // 0 = Sunday in the barber's timezone; empty applies every day
+  starts_at: string;
+  expires_at: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// What preview_promo_code shows the booking form about a code it can use
+export type PromoCodePreview = Pick<
+  PromoCode,
+  'id' | 'barber_id' | 'code' | 'discount_type' | 'discount_value' | 'service_ids' | 'first_visit_only' | 'weekdays'
+>;
+
+// A gift card (a dollar balance) or package (visits of one service) bought from a barber
+export interface PrepaidBalance {
+  id: string;
+  code: string; // Claims a gift
+  kind: 'gift_card' | 'package';
+  barber_id: string;
+  package_id: string | null;
+  service_id: string | null; // The service a package's visits are for
+  purchaser_id: string;
+  owner_id: string | null; // Null until a gift is claimed
+  is_gift: boolean;
+  purchase_amount: number;
+  visit_count: number | null;
+  amount_remaining: number; // Dollars; for a package, the paid value of the visits left
+  visits_remaining: number;
+  status: 'pending' | 'active' | 'void';
+  created_at: string;
+}
+
 export interface Booking {
   id: string;
   barber_id: string;
   client_id?: string;
   service_id: string;
+  additional_service_ids?: string[]; // Services booked alongside service_id in the same appointment
+  group_id?: string | null; // Set for each person's appointment in a group booking
+  group_member_name?: string | null;
   date: string;
   status: BookingStatus;
   payment_status: PaymentStatus;
@@ -220,7 +309,17 @@ export interface Booking {
   barber_payout?: number;
   payment_intent_id?: string;
   addon_total?: number;
-  service_price?: number; // Historical service price at time of booking
+  service_price?: number; // Historical total of every booked service at time of booking
+  payment_mode?: ServicePaymentMode;
+  amount_prepaid?: number; // Paid online toward the services and add-ons
+  fee_schedule_id?: string | null; // Fee schedule the booking was charged under
+  tip_amount?: number | null; // Dollars tipped after the appointment
+  tip_status?: TipStatus | null;
+  tipped_at?: string | null;
+  promo_code_id?: string | null;
+  discount_amount?: number; // Dollars the promo code took off
+  prepaid_balance_id?: string | null;
+  prepaid_credit?: number; // Dollars covered by a gift card or package
   // Relations
   barber?: Barber;
   service?: Service;
@@ -326,10 +425,15 @@ export interface OnDemandRequest {
   location_lat: number;
   location_lng: number;
   location_address: string;
-  status: string;
-  price: number;
+  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled' | 'completed';
+  price: number; // Surge-adjusted service price, paid at the appointment
   surge_multiplier: number;
+  distance_miles?: number;
   notes?: string;
+  expires_at?: string; // The barber must answer by then
+  responded_at?: string;
+  payment_intent_id?: string;
+  booking_id?: string; // Set once accepted
   created_at: string;
   updated_at: string;
 }
@@ -487,34 +591,76 @@ export interface DateTimeSelection {
 }
 
 // Job Types
+export type JobType = 'chair_rental' | 'position';
+export type JobStatus = 'open' | 'closed' | 'filled';
+export type JobApplicationStatus = 'pending' | 'reviewing' | 'accepted' | 'rejected';
+
+// One row of job_posts
 export interface JobPost {
   id: string;
-  businessId: string;
-  businessName: string;
-  businessImage: string;
+  poster_id: string;
+  business_name: string;
+  business_image: string | null;
+  job_type: JobType;
   title: string;
   description: string;
   requirements: string[];
+  compensation: string | null;
   location: string;
-  salary: string;
-  postedDate: string;
-  status: "open" | "closed";
+  latitude: number | null;
+  longitude: number | null;
+  status: JobStatus;
+  created_at: string;
+  updated_at: string;
+  distance?: number; // Miles from the browsing barber, when they share their location
 }
 
+// One row of job_applications; the review stats are from when the barber applied
 export interface JobApplication {
   id: string;
-  jobId: string;
-  barberId: string;
+  job_id: string;
+  applicant_id: string;
+  barber_id: string;
+  cover_letter: string;
+  review_count: number;
+  average_rating: number | null;
+  cut_count: number;
+  status: JobApplicationStatus;
+  created_at: string;
+  updated_at: string;
+}
+
+// An application as the poster sees it, with the barber's profile and latest cuts
+export interface JobApplicant extends JobApplication {
   barber: {
     id: string;
     name: string;
-    image: string;
-    experience: string;
-    location: string;
+    avatar_url: string | null;
+    username: string | null;
+    bio: string | null;
+    specialties: string[];
+    location: string | null;
   };
-  status: "pending" | "reviewing" | "accepted" | "rejected";
-  appliedDate: string;
-  coverLetter: string;
+  cuts: { id: string; title: string; url: string; thumbnail: string | null }[];
+}
+
+// Shop Types
+// How a first-available booking picks among the barbers free at that time
+export type ShopAssignmentRule = 'round_robin' | 'least_booked' | 'highest_rated';
+
+// One row of shops
+export interface Shop {
+  id: string;
+  owner_id: string;
+  name: string;
+  slug: string;
+  description: string | null;
+  location: string | null;
+  phone: string | null;
+  image_url: string | null;
+  assignment_rule: ShopAssignmentRule;
+  created_at: string;
+  updated_at: string;
 }
 
 // Calendar Types
@@ -542,29 +688,44 @@ export interface CalendarDay {
 }
 
 // Message Types
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+// One row of messages
 export interface Message {
   id: string;
-  conversationId: string;
-  senderId: string;
+  conversation_id: string;
+  sender_id: string;
   text: string;
-  timestamp: Date;
-  status: 'sent' | 'delivered' | 'read';
-  createdAt: string;
-  updatedAt: string;
+  attachment_path: string | null; // object in the message-attachments bucket
+  status: MessageStatus;
+  delivered_at: string | null;
+  read_at: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // Conversation Types
+// One row of conversations: a client and a barber, optionally about one booking
 export interface Conversation {
   id: string;
-  participants: string[];
-  lastMessage: {
-    text: string;
-    timestamp: Date;
-    senderId: string;
+  client_id: string;
+  barber_id: string; // barbers.id, like bookings.barber_id
+  booking_id: string | null;
+  last_message_text: string | null;
+  last_message_sender_id: string | null;
+  last_message_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A conversation as one participant sees it in their list
+export interface ConversationSummary extends Conversation {
+  other_user: {
+    id: string;
+    name: string;
+    avatar_url: string | null;
   };
-  unreadCount: number;
-  createdAt: string;
-  updatedAt: string;
+  unread_count: number;
 }
 
 // API Response types
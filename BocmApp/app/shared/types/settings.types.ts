@@ -1,3 +1,5 @@
+import type { DepositType, ServicePaymentMode } from './index';
+
 export interface ProfileFormData {
   name: string;
   username: string;
@@ -15,7 +17,6 @@ export interface ProfileFormData {
     tiktok: string;
     facebook: string;
   };
-  sms_notifications: boolean;
 }
 
 export interface Service {
@@ -25,6 +26,9 @@ export interface Service {
   price: number;
   description?: string;
   barber_id?: string;
+  payment_mode?: ServicePaymentMode;
+  deposit_type?: DepositType | null;
+  deposit_amount?: number | null;
 }
 
 export interface ServiceAddon {
@@ -44,4 +48,4 @@ export interface SettingsData {
   notificationsConfigured: boolean;
 }
 
-export type Tab = 'profile' | 'services' | 'addons' | 'availability' | 'earnings'; 
\ No newline at end of file
+export type Tab = 'profile' | 'notifications' | 'services' | 'addons' | 'availability' | 'earnings'; 
\ No newline at end of file
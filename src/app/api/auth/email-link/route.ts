@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server'
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { authLinkEmail } from '@/shared/lib/email-templates'
+import { logger } from '@/shared/lib/logger'
+import type { AuthLinkType } from '@/shared/types/email-templates'
+
+const LINK_TYPES: Record<AuthLinkType, 'recovery' | 'magiclink'> = {
+  password_reset: 'recovery',
+  magic_link: 'magiclink'
+}
+
+// auth.email.otp_expiry in supabase/config.toml
+const LINK_EXPIRY_HOURS = 24
+// One email per address and link type in this window; repeat requests are dropped by the dedupe key
+const RESEND_WINDOW_MS = 60 * 1000
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://www.bocmstyle.com'
+
+// Sends a password reset or sign-in link in our own email template instead of Supabase's.
+// Always answers success so the response never reveals whether an account exists.
+export async function POST(request: Request) {
+  try {
+    const { email, type } = await request.json() as { email?: string; type?: AuthLinkType }
+
+    if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email) || !type || !LINK_TYPES[type]) {
+      return NextResponse.json(
+        { error: 'Missing required fields: email, type' },
+        { status: 400 }
+      )
+    }
+
+    const address = email.trim().toLowerCase()
+    const { data, error } = await supabaseAdmin.auth.admin.generateLink({
+      type: LINK_TYPES[type],
+      email: address,
+      options: { redirectTo: `${APP_URL}/auth/callback` }
+    })
+
+    if (error || !data?.properties?.action_link) {
+      logger.warn('Auth link was not generated', { type, error: error?.message })
+      return NextResponse.json({ success: true })
+    }
+
+    const rendered = authLinkEmail({
+      type,
+      link: data.properties.action_link,
+      expiresInHours: LINK_EXPIRY_HOURS
+    })
+
+    await NotificationDelivery.send({
+      channel: 'email',
+      to: address,
+      recipientId: data.user?.id || null,
+      type: 'auth_link',
+      title: rendered.subject,
+      body: rendered.text,
+      loggedBody: `${type} link sent`,
+      html: rendered.html,
+      dedupeKey: `auth:${type}:${address}:${Math.floor(Date.now() / RESEND_WINDOW_MS)}`
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in auth email link route', error)
+    return NextResponse.json(
+      { error: 'Failed to send email' },
+      { status: 500 }
+    )
+  }
+}
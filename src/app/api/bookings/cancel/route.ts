@@ -0,0 +1,164 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingPaymentService, PolicyFeeResult } from '@/shared/lib/booking-payment-service'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import {
+  CancellationParty,
+  getCancellationBlocker,
+  getCancellationOutcome,
+  getCancellationPolicy
+} from '@/shared/lib/cancellation-policy'
+import { logger } from '@/shared/lib/logger'
+
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, barber_id, date, status, payment_status, payment_intent_id, price, group_id, service:service_id(name), barber:barber_id(user_id, stripe_account_id, timezone)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const service = booking.service as unknown as { name: string } | null
+    const barber = booking.barber as unknown as { user_id: string; stripe_account_id: string | null; timezone: string | null }
+
+    let cancelledBy: CancellationParty
+    if (booking.client_id && booking.client_id === user.id) {
+      cancelledBy = 'client'
+    } else if (barber?.user_id === user.id) {
+      cancelledBy = 'barber'
+    } else {
+      return NextResponse.json(
+        { error: 'You can only cancel your own bookings' },
+        { status: 403 }
+      )
+    }
+
+    const blocker = getCancellationBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const { data: restrictions } = await supabaseAdmin
+      .from('booking_restrictions')
+      .select('cancellation_window_hours, no_show_fee')
+      .eq('barber_id', booking.barber_id)
+      .maybeSingle()
+
+    const outcome = getCancellationOutcome(booking, getCancellationPolicy(restrictions), cancelledBy)
+
+    // Matching on status stops a second request from cancelling (and charging) twice
+    const { data: cancelled, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: user.id,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error cancelling booking', updateError)
+      return NextResponse.json(
+        { error: 'Failed to cancel booking' },
+        { status: 500 }
+      )
+    }
+
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    // The booking is cancelled either way; payment problems are reported back, not rolled back
+    let refunded = false
+    let feeResult: PolicyFeeResult | null = null
+
+    if (outcome.type === 'refund') {
+      try {
+        // A group member's booking shares the group's payment, so only their part is refunded
+        refunded = !!(await BookingPaymentService.refundPlatformFee(
+          booking,
+          cancelledBy === 'barber' ? 'barber_cancellation' : 'early_cancellation',
+          booking.group_id ? Math.round(Number(booking.price) * 100) : undefined
+        ))
+      } catch (refundError) {
+        logger.error('Error refunding cancelled booking', refundError)
+      }
+    } else if (outcome.type === 'fee') {
+      feeResult = await BookingPaymentService.chargePolicyFee(booking, barber?.stripe_account_id, outcome.amount, 'late_cancellation')
+    }
+
+    try {
+      await BookingNotifications.sendCancellation({ ...cancelled, service, barber }, {
+        cancelledBy,
+        refunded,
+        feeCents: outcome.type === 'fee' && feeResult?.status === 'succeeded' ? Math.round(outcome.amount * 100) : null
+      })
+    } catch (notificationError) {
+      logger.error('Error sending cancellation notifications', notificationError)
+    }
+
+    try {
+      await WaitlistOfferService.offerFreedSlot(booking.barber_id, booking.date)
+    } catch (waitlistError) {
+      logger.error('Error offering cancelled slot to waitlist', waitlistError)
+    }
+
+    return NextResponse.json({
+      booking: cancelled,
+      refunded,
+      fee: outcome.type === 'fee' && feeResult ? { amount: outcome.amount, status: feeResult.status, error: feeResult.error } : null
+    })
+  } catch (error) {
+    logger.error('Error in cancel route', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel booking' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,178 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationService } from '@/shared/lib/notification-service'
+import { CheckInMethod, describeArrival, getCheckInBlocker, CHECK_IN_OPENS_MINUTES } from '@/shared/lib/appointment-lifecycle'
+import { logger } from '@/shared/lib/logger'
+
+const BOOKING_FIELDS = 'id, client_id, barber_id, date, end_time, status, checked_in_at, group_member_name, guest_name, barber:barber_id(user_id)'
+
+// Checks a client in: from the booking (the client, or the barber for a client at the chair),
+// or by the client scanning the barber's check-in QR code
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, checkInCode } = await request.json()
+
+    if (!bookingId && !checkInCode) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId or checkInCode' },
+        { status: 400 }
+      )
+    }
+
+    let booking
+    let method: CheckInMethod
+
+    if (bookingId) {
+      const { data, error } = await supabaseAdmin
+        .from('bookings')
+        .select(BOOKING_FIELDS)
+        .eq('id', bookingId)
+        .single()
+
+      if (error || !data) {
+        return NextResponse.json(
+          { error: 'Booking not found' },
+          { status: 404 }
+        )
+      }
+
+      const barber = data.barber as unknown as { user_id: string } | null
+      if (data.client_id !== user.id && barber?.user_id !== user.id) {
+        return NextResponse.json(
+          { error: 'Not authorized to check in this booking' },
+          { status: 403 }
+        )
+      }
+
+      booking = data
+      method = 'manual'
+    } else {
+      const { data: barber } = await supabaseAdmin
+        .from('barbers')
+        .select('id')
+        .eq('check_in_code', checkInCode)
+        .maybeSingle()
+
+      if (!barber) {
+        return NextResponse.json(
+          { error: 'This check-in code is not valid' },
+          { status: 404 }
+        )
+      }
+
+      // The scanning client's appointment with this barber that is open for check-in
+      const now = new Date()
+      const { data: candidates, error } = await supabaseAdmin
+        .from('bookings')
+        .select(BOOKING_FIELDS)
+        .eq('barber_id', barber.id)
+        .eq('client_id', user.id)
+        .in('status', ['pending', 'confirmed'])
+        .is('checked_in_at', null)
+        .lte('date', new Date(now.getTime() + CHECK_IN_OPENS_MINUTES * 60 * 1000).toISOString())
+        .order('date', { ascending: false })
+
+      if (error) {
+        logger.error('Error finding booking for check-in code', error)
+        return NextResponse.json(
+          { error: 'Failed to check in' },
+          { status: 500 }
+        )
+      }
+
+      booking = (candidates || []).find(candidate => !getCheckInBlocker(candidate, now))
+      if (!booking) {
+        return NextResponse.json(
+          { error: `You don't have an appointment with this barber to check in to right now` },
+          { status: 404 }
+        )
+      }
+
+      method = 'qr'
+    }
+
+    const blocker = getCheckInBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        checked_in_at: new Date().toISOString(),
+        check_in_method: method,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+      .is('checked_in_at', null)
+      .in('status', ['pending', 'confirmed'])
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error checking in booking', updateError)
+      return NextResponse.json(
+        { error: 'Failed to check in' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    // Let the barber know their client has arrived, unless they checked them in themselves
+    const barber = booking.barber as unknown as { user_id: string } | null
+    if (barber?.user_id && barber.user_id !== user.id) {
+      const { data: client } = booking.client_id
+        ? await supabaseAdmin.from('profiles').select('name').eq('id', booking.client_id).maybeSingle()
+        : { data: null }
+      const clientName = booking.group_member_name || client?.name || booking.guest_name || 'Your client'
+
+      try {
+        await NotificationService.createNotification({
+          user_id: barber.user_id,
+          title: 'Client Checked In',
+          message: `${clientName} has checked in (${describeArrival(updated)?.toLowerCase()}).`,
+          type: 'booking_checked_in',
+          booking_id: booking.id
+        })
+      } catch (notificationError) {
+        logger.error('Error sending check-in notification', notificationError)
+      }
+    }
+
+    return NextResponse.json({ booking: updated })
+  } catch (error) {
+    logger.error('Error in check-in route', error)
+    return NextResponse.json(
+      { error: 'Failed to check in' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,110 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { getCompleteBlocker } from '@/shared/lib/appointment-lifecycle'
+import { logger } from '@/shared/lib/logger'
+
+// Barber-only: the service is done. Completed bookings can be reviewed by the client.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, date, status, service_started_at, service:service_id(name), barber:barber_id(user_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const service = booking.service as unknown as { name: string } | null
+    const barber = booking.barber as unknown as { user_id: string } | null
+    if (barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the barber can complete an appointment' },
+        { status: 403 }
+      )
+    }
+
+    const blocker = getCompleteBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        status: 'completed',
+        completed_at: now,
+        updated_at: now
+      })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error completing appointment', updateError)
+      return NextResponse.json(
+        { error: 'Failed to complete appointment' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    try {
+      await BookingNotifications.sendReviewRequest({ ...updated, service, barber })
+    } catch (notificationError) {
+      logger.error('Error sending review request', notificationError)
+    }
+
+    return NextResponse.json({ booking: updated })
+  } catch (error) {
+    logger.error('Error in complete appointment route', error)
+    return NextResponse.json(
+      { error: 'Failed to complete appointment' },
+      { status: 500 }
+    )
+  }
+}
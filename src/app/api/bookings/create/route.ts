@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { supabaseAdmin } from "@/shared/lib/supabase"
-import { sendBookingConfirmationSMS } from "@/shared/utils/sendSMS"
+import { BookingNotifications } from "@/shared/lib/booking-notifications"
 import { logger } from "@/shared/lib/logger"
+import { getSelectionTotals, normalizeAdditionalServiceIds } from "@/shared/lib/service-selection"
 
 export async function POST(request: Request) {
   try {
@@ -9,6 +10,7 @@ export async function POST(request: Request) {
     const { 
       barber_id, 
       service_id, 
+      additional_service_ids,
       date, 
       end_time,
       price, 
@@ -55,21 +57,23 @@ export async function POST(request: Request) {
       }
     }
 
-    // Fetch service price to store historically (required for accurate pricing even if service price changes later)
-    const { data: service, error: serviceError } = await supabaseAdmin
+    // Fetch service prices to store historically (required for accurate pricing even if service prices change later)
+    const additionalServiceIds = normalizeAdditionalServiceIds(service_id, additional_service_ids)
+    const serviceIds = [service_id, ...additionalServiceIds]
+    const { data: services, error: serviceError } = await supabaseAdmin
       .from('services')
-      .select('price')
-      .eq('id', service_id)
-      .single()
+      .select('price, duration')
+      .eq('barber_id', barber_id)
+      .in('id', serviceIds)
 
-    if (serviceError || !service) {
+    if (serviceError || !services || services.length !== serviceIds.length) {
       return NextResponse.json(
         { error: 'Service not found' },
         { status: 400 }
       )
     }
 
-    const service_price = service.price ? Number(service.price) : null
+    const service_price = getSelectionTotals(services).price
 
     // Create the booking using the admin client
     const { data: booking, error: bookingError } = await supabaseAdmin
@@ -77,6 +81,7 @@ export async function POST(request: Request) {
       .insert({
         barber_id,
         service_id,
+        additional_service_ids: additionalServiceIds,
         date,
         end_time: end_time || null,
         price,
@@ -96,7 +101,7 @@ export async function POST(request: Request) {
       })
       .select(`
         *,
-        barber:barber_id(id, user_id),
+        barber:barber_id(id, user_id, timezone),
         service:service_id(*),
         client:client_id(*)
       `)
@@ -170,40 +175,14 @@ export async function POST(request: Request) {
       )
     }
 
-    // Get the barber's profile data for SMS
-    let barberWithSmsData = booking;
-    if (booking.barber) {
-      try {
-        const { data: barberProfile, error: profileError } = await supabaseAdmin
-          .from('profiles')
-          .select('phone, carrier, sms_notifications')
-          .eq('id', booking.barber.user_id)
-          .single();
-
-        if (!profileError && barberProfile) {
-          barberWithSmsData = {
-            ...booking,
-            barber: {
-              ...booking.barber,
-              phone: barberProfile.phone,
-              carrier: barberProfile.carrier,
-              sms_notifications: barberProfile.sms_notifications
-            }
-          };
-        }
-      } catch (error) {
-        logger.error('Failed to fetch barber profile for SMS', error);
-      }
-    }
-
-    // Send SMS notifications to both barber and client
+    // Notify both barber and client
     try {
-      logger.debug('Sending SMS notifications for booking', { bookingId: booking.id })
-      const smsResults = await sendBookingConfirmationSMS(barberWithSmsData)
-      logger.debug('SMS notification results', { results: smsResults })
-    } catch (smsError) {
-      logger.error('Failed to send SMS notifications', smsError)
-      // Don't fail the booking creation if SMS fails
+      logger.debug('Sending notifications for booking', { bookingId: booking.id })
+      const deliveries = await BookingNotifications.sendConfirmation(booking)
+      logger.debug('Notification delivery results', { deliveries: deliveries.map(d => ({ channel: d.channel, status: d.status })) })
+    } catch (notificationError) {
+      logger.error('Failed to send booking notifications', notificationError)
+      // Don't fail the booking creation if notifications fail
     }
 
     return NextResponse.json({ booking })
@@ -0,0 +1,199 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingPaymentService, PolicyFeeResult } from '@/shared/lib/booking-payment-service'
+import { NotificationService } from '@/shared/lib/notification-service'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import {
+  CancellationParty,
+  getCancellationOutcome,
+  getCancellationPolicy
+} from '@/shared/lib/cancellation-policy'
+import { DEFAULT_BARBER_TIMEZONE, formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import { logger } from '@/shared/lib/logger'
+
+// Cancels every upcoming appointment in a group booking at once. The cancellation
+// policy is applied to the group as a whole, timed from its first appointment.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { groupId } = await request.json()
+
+    if (!groupId) {
+      return NextResponse.json(
+        { error: 'Missing required field: groupId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: group, error: groupError } = await supabaseAdmin
+      .from('booking_groups')
+      .select('id, client_id, barber_id, name, status, barber:barber_id(user_id, stripe_account_id, timezone)')
+      .eq('id', groupId)
+      .single()
+
+    if (groupError || !group) {
+      return NextResponse.json(
+        { error: 'Group booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = group.barber as unknown as { user_id: string; stripe_account_id: string | null; timezone: string | null }
+
+    let cancelledBy: CancellationParty
+    if (group.client_id === user.id) {
+      cancelledBy = 'client'
+    } else if (barber?.user_id === user.id) {
+      cancelledBy = 'barber'
+    } else {
+      return NextResponse.json(
+        { error: 'You can only cancel your own bookings' },
+        { status: 403 }
+      )
+    }
+
+    const { data: members, error: membersError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, date, status, payment_status, payment_intent_id, price')
+      .eq('group_id', group.id)
+      .in('status', ['pending', 'confirmed'])
+      .gt('date', new Date().toISOString())
+      .order('date', { ascending: true })
+
+    if (membersError) {
+      logger.error('Error fetching group bookings', membersError)
+      return NextResponse.json(
+        { error: 'Failed to cancel group booking' },
+        { status: 500 }
+      )
+    }
+
+    if (!members || members.length === 0) {
+      return NextResponse.json(
+        { error: 'This group has no upcoming appointments to cancel' },
+        { status: 409 }
+      )
+    }
+
+    const { data: restrictions } = await supabaseAdmin
+      .from('booking_restrictions')
+      .select('cancellation_window_hours, no_show_fee')
+      .eq('barber_id', group.barber_id)
+      .maybeSingle()
+
+    const firstMember = members[0]
+    const outcome = getCancellationOutcome(firstMember, getCancellationPolicy(restrictions), cancelledBy)
+
+    // Every member is cancelled in one transaction, or none are
+    const { data: cancelledRows, error: cancelError } = await supabaseAdmin
+      .rpc('cancel_booking_group', {
+        p_group_id: group.id,
+        p_cancelled_by: user.id
+      })
+
+    if (cancelError) {
+      logger.error('Error cancelling group bookings', cancelError)
+      return NextResponse.json(
+        { error: 'Failed to cancel group booking' },
+        { status: 500 }
+      )
+    }
+
+    const cancelled = (cancelledRows || []) as { id: string; date: string; price: number; payment_intent_id: string | null }[]
+
+    // The bookings are cancelled either way; payment problems are reported back, not rolled back
+    let refunded = false
+    const feeResults: PolicyFeeResult[] = []
+
+    if (outcome.type === 'refund' && cancelled.length > 0) {
+      try {
+        const refundCents = cancelled.reduce((total, booking) => total + Math.round(Number(booking.price) * 100), 0)
+        refunded = !!(await BookingPaymentService.refundPlatformFee(
+          cancelled[0],
+          cancelledBy === 'barber' ? 'barber_cancellation' : 'early_cancellation',
+          refundCents
+        ))
+      } catch (refundError) {
+        logger.error('Error refunding cancelled group booking', refundError)
+      }
+    } else if (outcome.type === 'fee') {
+      for (const booking of cancelled) {
+        feeResults.push(await BookingPaymentService.chargePolicyFee(booking, barber?.stripe_account_id, outcome.amount, 'late_cancellation'))
+      }
+    }
+
+    const timeZone = barber?.timezone || DEFAULT_BARBER_TIMEZONE
+    const when = `${formatDateInZone(firstMember.date, timeZone)} at ${formatTimeInZone(firstMember.date, timeZone)}`
+    const label = group.name ? `group booking "${group.name}"` : `group booking for ${cancelled.length} people`
+
+    if (cancelled.length > 0) {
+      try {
+        if (cancelledBy === 'client') {
+          if (barber?.user_id) {
+            await NotificationService.createNotification({
+              user_id: barber.user_id,
+              title: 'Group Booking Cancelled',
+              message: `A client cancelled their ${label} on ${when}`,
+              type: 'booking_cancelled',
+              booking_id: cancelled[0].id
+            })
+          }
+        } else {
+          await NotificationService.createNotification({
+            user_id: group.client_id,
+            title: 'Group Booking Cancelled',
+            message: `Your ${label} on ${when} was cancelled by the barber${refunded ? '. Your booking fees will be refunded.' : ''}`,
+            type: 'booking_cancelled',
+            booking_id: cancelled[0].id
+          })
+        }
+      } catch (notificationError) {
+        logger.error('Error sending group cancellation notifications', notificationError)
+      }
+    }
+
+    for (const freed of cancelled) {
+      try {
+        await WaitlistOfferService.offerFreedSlot(group.barber_id, freed.date)
+      } catch (waitlistError) {
+        logger.error('Error offering cancelled group slot to waitlist', waitlistError)
+      }
+    }
+
+    return NextResponse.json({
+      bookings: cancelled,
+      refunded,
+      fee: outcome.type === 'fee'
+        ? {
+            amount: outcome.amount * feeResults.length,
+            status: feeResults.every(result => result.status === 'succeeded') ? 'succeeded' : feeResults.some(result => result.status === 'failed') ? 'failed' : 'pending',
+            error: feeResults.find(result => result.error)?.error
+          }
+        : null
+    })
+  } catch (error) {
+    logger.error('Error in group cancel route', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel group booking' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingPaymentService } from '@/shared/lib/booking-payment-service'
+import { NotificationService } from '@/shared/lib/notification-service'
+import { getCancellationPolicy, getNoShowBlocker } from '@/shared/lib/cancellation-policy'
+import { DEFAULT_BARBER_TIMEZONE, formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import { logger } from '@/shared/lib/logger'
+
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, barber_id, date, status, checked_in_at, payment_intent_id, service:service_id(name), barber:barber_id(user_id, stripe_account_id, timezone)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const service = booking.service as unknown as { name: string } | null
+    const barber = booking.barber as unknown as { user_id: string; stripe_account_id: string | null; timezone: string | null }
+
+    if (barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the barber can mark a booking as a no-show' },
+        { status: 403 }
+      )
+    }
+
+    const blocker = getNoShowBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        status: 'no_show',
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error marking booking as no-show', updateError)
+      return NextResponse.json(
+        { error: 'Failed to mark booking as a no-show' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    const { data: restrictions } = await supabaseAdmin
+      .from('booking_restrictions')
+      .select('cancellation_window_hours, no_show_fee')
+      .eq('barber_id', booking.barber_id)
+      .maybeSingle()
+
+    const { noShowFee } = getCancellationPolicy(restrictions)
+    const feeResult = noShowFee > 0
+      ? await BookingPaymentService.chargePolicyFee(booking, barber.stripe_account_id, noShowFee, 'no_show')
+      : null
+
+    if (booking.client_id) {
+      const timeZone = barber.timezone || DEFAULT_BARBER_TIMEZONE
+      const when = `${formatDateInZone(booking.date, timeZone)} at ${formatTimeInZone(booking.date, timeZone)}`
+      const feeNote = feeResult?.status === 'succeeded' ? ` A no-show fee of $${noShowFee.toFixed(2)} was charged.` : ''
+
+      try {
+        await NotificationService.createNotification({
+          user_id: booking.client_id,
+          title: 'Missed Appointment',
+          message: `Your ${service?.name || 'appointment'} on ${when} was marked as a no-show.${feeNote}`,
+          type: 'booking_no_show',
+          booking_id: booking.id
+        })
+      } catch (notificationError) {
+        logger.error('Error sending no-show notification', notificationError)
+      }
+    }
+
+    return NextResponse.json({
+      booking: updated,
+      fee: feeResult ? { amount: noShowFee, status: feeResult.status, error: feeResult.error } : null
+    })
+  } catch (error) {
+    logger.error('Error in no-show route', error)
+    return NextResponse.json(
+      { error: 'Failed to mark booking as a no-show' },
+      { status: 500 }
+    )
+  }
+}
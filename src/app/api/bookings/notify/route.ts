@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { logger } from '@/shared/lib/logger'
+
+const EVENTS = ['requested', 'status_updated'] as const
+type BookingEvent = typeof EVENTS[number]
+
+// Sends the messages for a booking the caller just created or updated in the browser.
+// The messages are built here from the booking as stored, never from the request.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, event } = await request.json() as { bookingId?: string; event?: BookingEvent }
+
+    if (!bookingId || !event || !EVENTS.includes(event)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, event' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, date, status, client_id, guest_name, guest_email, barber:barber_id(user_id, timezone), service:service_id(name)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = booking.barber as unknown as { user_id: string; timezone: string | null } | null
+    if (booking.client_id !== user.id && barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only send notifications for your own bookings' },
+        { status: 403 }
+      )
+    }
+
+    const notifiable = {
+      ...booking,
+      barber,
+      service: booking.service as unknown as { name: string } | null
+    }
+    const deliveries = event === 'requested'
+      ? await BookingNotifications.sendRequested(notifiable)
+      : await BookingNotifications.sendStatusUpdate(notifiable)
+
+    return NextResponse.json({
+      deliveries: deliveries.map(delivery => ({ channel: delivery.channel, status: delivery.status }))
+    })
+  } catch (error) {
+    logger.error('Error in booking notify route', error)
+    return NextResponse.json(
+      { error: 'Failed to send booking notifications' },
+      { status: 500 }
+    )
+  }
+}
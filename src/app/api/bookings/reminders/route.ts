@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { ReminderScheduler } from '@/shared/lib/reminder-scheduler'
+import { logger } from '@/shared/lib/logger'
+
+// Run on a schedule (see vercel.json, or the send-reminders edge function) to send due appointment reminders
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const result = await ReminderScheduler.sendDueReminders()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    logger.error('Error in appointment reminder run', error)
+    return NextResponse.json(
+      { error: 'Failed to send reminders' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,186 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { AvailabilityService } from '@/shared/lib/availability-service'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import { getReschedulePolicy, getRescheduleRejection } from '@/shared/lib/reschedule-policy'
+import { logger } from '@/shared/lib/logger'
+
+// Trigger messages from check_booking_conflicts() that mean the new slot was taken
+const SLOT_REJECTIONS = [
+  'Booking time conflicts with existing booking',
+  'Booking time is not within barber availability',
+  'Daily booking limit exceeded',
+  'Booking too far in advance',
+  'Same day bookings not allowed',
+  'Minimum interval between bookings not met',
+  'This time is being held for a waitlisted client'
+]
+
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, newDate } = await request.json()
+
+    if (!bookingId || !newDate) {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, newDate' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, barber_id, date, end_time, status, reschedule_count, service:service_id(name, duration), barber:barber_id(user_id, timezone)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    if (booking.client_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the client who made this booking can reschedule it' },
+        { status: 403 }
+      )
+    }
+
+    const { data: restrictions } = await supabaseAdmin
+      .from('booking_restrictions')
+      .select('reschedule_cutoff_hours, max_reschedules')
+      .eq('barber_id', booking.barber_id)
+      .maybeSingle()
+
+    const newStart = new Date(newDate)
+    const rejection = getRescheduleRejection(booking, newStart, getReschedulePolicy(restrictions))
+
+    if (rejection) {
+      return NextResponse.json(
+        { error: rejection },
+        { status: 409 }
+      )
+    }
+
+    const service = booking.service as unknown as { name: string; duration: number }
+    const barber = booking.barber as unknown as { user_id: string; timezone: string | null }
+    // end_time covers every service booked in the appointment
+    const duration = booking.end_time
+      ? Math.round((new Date(booking.end_time).getTime() - new Date(booking.date).getTime()) / 60000)
+      : service.duration
+
+    // Check the new slot up front for a clear message; the trigger re-checks atomically on update
+    const slotRejection = await AvailabilityService.checkSlot(
+      booking.barber_id,
+      newStart.toISOString(),
+      duration,
+      booking.id,
+      user.id
+    )
+
+    if (slotRejection) {
+      return NextResponse.json(
+        { error: slotRejection },
+        { status: 409 }
+      )
+    }
+
+    // Only the start time moves: payment_intent_id, price and fees stay on the same row.
+    // Matching on reschedule_count stops two concurrent requests from both passing the limit.
+    const previousDate = booking.date
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        date: newStart.toISOString(),
+        reschedule_count: (booking.reschedule_count ?? 0) + 1,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+      .eq('reschedule_count', booking.reschedule_count ?? 0)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      const slotMessage = SLOT_REJECTIONS.find(message => updateError.message?.includes(message))
+      if (slotMessage) {
+        return NextResponse.json(
+          { error: slotMessage },
+          { status: 409 }
+        )
+      }
+
+      logger.error('Error rescheduling booking', updateError)
+      return NextResponse.json(
+        { error: 'Failed to reschedule booking' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    const { error: historyError } = await supabaseAdmin
+      .from('booking_reschedules')
+      .insert({
+        booking_id: booking.id,
+        previous_date: previousDate,
+        new_date: updated.date,
+        rescheduled_by: user.id
+      })
+
+    if (historyError) {
+      logger.error('Error recording reschedule history', historyError)
+    }
+
+    // Notify both parties; the booking has already moved, so failures are only logged
+    try {
+      await BookingNotifications.sendRescheduled({
+        ...updated,
+        end_time: new Date(new Date(updated.date).getTime() + duration * 60000).toISOString(),
+        service,
+        barber
+      }, previousDate)
+    } catch (notificationError) {
+      logger.error('Error sending reschedule notifications', notificationError)
+    }
+
+    try {
+      await WaitlistOfferService.offerFreedSlot(booking.barber_id, previousDate)
+    } catch (waitlistError) {
+      logger.error('Error offering rescheduled slot to waitlist', waitlistError)
+    }
+
+    return NextResponse.json({ booking: updated })
+  } catch (error) {
+    logger.error('Error in reschedule route', error)
+    return NextResponse.json(
+      { error: 'Failed to reschedule booking' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,129 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationService } from '@/shared/lib/notification-service'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import { SeriesScope } from '@/shared/types/booking-series'
+import { logger } from '@/shared/lib/logger'
+
+const SCOPES: SeriesScope[] = ['this', 'following', 'all']
+
+// Cancels one occurrence, this and following occurrences, or the whole series.
+// Series bookings carry no payment, so there is nothing to refund or charge.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, scope } = await request.json()
+
+    if (!bookingId || !SCOPES.includes(scope)) {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, scope' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, barber_id, date, status, series_id, service:service_id(name), barber:barber_id(user_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = booking.barber as unknown as { user_id: string } | null
+    const cancelledByBarber = barber?.user_id === user.id
+
+    if (!cancelledByBarber && booking.client_id !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only cancel your own bookings' },
+        { status: 403 }
+      )
+    }
+
+    if (!booking.series_id) {
+      return NextResponse.json(
+        { error: 'This booking is not part of a recurring series' },
+        { status: 400 }
+      )
+    }
+
+    if (!['pending', 'confirmed'].includes(booking.status) || new Date(booking.date) <= new Date()) {
+      return NextResponse.json(
+        { error: 'Only upcoming bookings can be cancelled' },
+        { status: 409 }
+      )
+    }
+
+    const { data: cancelled, error: cancelError } = await supabaseAdmin
+      .rpc('cancel_series_bookings', {
+        p_booking_id: booking.id,
+        p_scope: scope,
+        p_cancelled_by: user.id
+      })
+
+    if (cancelError) {
+      logger.error('Error cancelling series bookings', cancelError)
+      return NextResponse.json(
+        { error: 'Failed to cancel recurring appointments' },
+        { status: 500 }
+      )
+    }
+
+    const bookings = (cancelled || []) as { id: string; date: string }[]
+
+    if (booking.client_id && cancelledByBarber && bookings.length > 0) {
+      const service = booking.service as unknown as { name: string } | null
+      try {
+        await NotificationService.createNotification({
+          user_id: booking.client_id,
+          title: 'Recurring Booking Cancelled',
+          message: bookings.length === 1
+            ? `Your ${service?.name || 'appointment'} was cancelled by the barber`
+            : `${bookings.length} of your recurring ${service?.name || 'appointment'} bookings were cancelled by the barber`,
+          type: 'booking_cancelled',
+          booking_id: booking.id
+        })
+      } catch (notificationError) {
+        logger.error('Error sending series cancellation notification', notificationError)
+      }
+    }
+
+    for (const freed of bookings) {
+      try {
+        await WaitlistOfferService.offerFreedSlot(booking.barber_id, freed.date)
+      } catch (waitlistError) {
+        logger.error('Error offering cancelled series slot to waitlist', waitlistError)
+      }
+    }
+
+    return NextResponse.json({ bookings })
+  } catch (error) {
+    logger.error('Error in series cancel route', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel recurring appointments' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,133 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { getRecurrenceRuleError, RecurrenceRule } from '@/shared/lib/recurrence-rule'
+import { SeriesOccurrence } from '@/shared/types/booking-series'
+import { logger } from '@/shared/lib/logger'
+
+// Barber-only: creates a recurring series for a regular client and books every occurrence
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { serviceId, startsOn, startTime, intervalWeeks, endsOn, guestName, guestEmail, guestPhone, notes, price } = await request.json()
+
+    if (!serviceId || !guestName) {
+      return NextResponse.json(
+        { error: 'Missing required fields: serviceId, guestName' },
+        { status: 400 }
+      )
+    }
+
+    const rule: RecurrenceRule = { intervalWeeks: Number(intervalWeeks), startTime, startsOn, endsOn }
+    const ruleError = getRecurrenceRuleError(rule)
+    if (ruleError) {
+      return NextResponse.json(
+        { error: ruleError },
+        { status: 400 }
+      )
+    }
+
+    const { data: barber } = await supabaseAdmin
+      .from('barbers')
+      .select('id')
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (!barber) {
+      return NextResponse.json(
+        { error: 'Only barbers can create recurring appointments' },
+        { status: 403 }
+      )
+    }
+
+    const { data: service } = await supabaseAdmin
+      .from('services')
+      .select('id, price')
+      .eq('id', serviceId)
+      .eq('barber_id', barber.id)
+      .maybeSingle()
+
+    if (!service) {
+      return NextResponse.json(
+        { error: 'Service not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: series, error: seriesError } = await supabaseAdmin
+      .from('booking_series')
+      .insert({
+        barber_id: barber.id,
+        service_id: service.id,
+        guest_name: guestName,
+        guest_email: guestEmail || null,
+        guest_phone: guestPhone || null,
+        interval_weeks: rule.intervalWeeks,
+        start_time: rule.startTime,
+        starts_on: rule.startsOn,
+        ends_on: rule.endsOn,
+        price: typeof price === 'number' ? price : service.price,
+        notes: notes || null
+      })
+      .select('*')
+      .single()
+
+    if (seriesError || !series) {
+      logger.error('Error creating booking series', seriesError)
+      return NextResponse.json(
+        { error: 'Failed to create recurring appointments' },
+        { status: 500 }
+      )
+    }
+
+    const { data: occurrences, error: generateError } = await supabaseAdmin
+      .rpc('generate_series_bookings', { p_series_id: series.id })
+
+    if (generateError) {
+      logger.error('Error generating series bookings', generateError)
+      await supabaseAdmin.from('booking_series').delete().eq('id', series.id)
+      return NextResponse.json(
+        { error: 'Failed to create recurring appointments' },
+        { status: 500 }
+      )
+    }
+
+    const results = (occurrences || []) as SeriesOccurrence[]
+    const created = results.filter(occurrence => occurrence.booking_id)
+    const skipped = results.filter(occurrence => !occurrence.booking_id)
+
+    // A series with no bookable occurrence is not kept
+    if (created.length === 0) {
+      await supabaseAdmin.from('booking_series').delete().eq('id', series.id)
+      return NextResponse.json(
+        { error: skipped[0]?.skipped_reason || 'None of these appointments could be booked', skipped },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ series, created, skipped })
+  } catch (error) {
+    logger.error('Error in booking series route', error)
+    return NextResponse.json(
+      { error: 'Failed to create recurring appointments' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,116 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { SeriesOccurrence, SeriesScope } from '@/shared/types/booking-series'
+import { logger } from '@/shared/lib/logger'
+
+const SCOPES: SeriesScope[] = ['this', 'following', 'all']
+
+// Errors raised by update_series_bookings() and check_booking_conflicts() that the barber can act on
+const UPDATE_REJECTIONS = [
+  'Only upcoming appointments can be changed',
+  'Booking time is in the past',
+  'Booking time conflicts with existing booking',
+  'Booking time is not within barber availability',
+  'Daily booking limit exceeded',
+  'Booking too far in advance',
+  'Same day bookings not allowed',
+  'Minimum interval between bookings not met',
+  'This time is being held for a waitlisted client'
+]
+
+// Barber-only: moves one occurrence, this and following occurrences, or the whole series
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, scope, newStart } = await request.json()
+
+    if (!bookingId || !SCOPES.includes(scope) || !newStart || isNaN(new Date(newStart).getTime())) {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, scope, newStart' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, series_id, barber:barber_id(user_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = booking.barber as unknown as { user_id: string } | null
+    if (barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the barber can change recurring appointments' },
+        { status: 403 }
+      )
+    }
+
+    if (!booking.series_id) {
+      return NextResponse.json(
+        { error: 'This booking is not part of a recurring series' },
+        { status: 400 }
+      )
+    }
+
+    const { data: occurrences, error: updateError } = await supabaseAdmin
+      .rpc('update_series_bookings', {
+        p_booking_id: booking.id,
+        p_scope: scope,
+        p_new_start: new Date(newStart).toISOString()
+      })
+
+    if (updateError) {
+      const rejection = UPDATE_REJECTIONS.find(message => updateError.message?.includes(message))
+      if (rejection) {
+        return NextResponse.json(
+          { error: rejection },
+          { status: 409 }
+        )
+      }
+
+      logger.error('Error updating series bookings', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update recurring appointments' },
+        { status: 500 }
+      )
+    }
+
+    const results = (occurrences || []) as SeriesOccurrence[]
+
+    return NextResponse.json({
+      created: results.filter(occurrence => occurrence.booking_id),
+      skipped: results.filter(occurrence => !occurrence.booking_id)
+    })
+  } catch (error) {
+    logger.error('Error in series update route', error)
+    return NextResponse.json(
+      { error: 'Failed to update recurring appointments' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { getStartServiceBlocker } from '@/shared/lib/appointment-lifecycle'
+import { logger } from '@/shared/lib/logger'
+
+// Barber-only: the client is in the chair
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, date, end_time, status, checked_in_at, service_started_at, barber:barber_id(user_id)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = booking.barber as unknown as { user_id: string } | null
+    if (barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the barber can start an appointment' },
+        { status: 403 }
+      )
+    }
+
+    const blocker = getStartServiceBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const now = new Date().toISOString()
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        service_started_at: now,
+        // A client seated without checking in arrived by the time service started
+        ...(booking.checked_in_at ? {} : { checked_in_at: now, check_in_method: 'manual' }),
+        updated_at: now
+      })
+      .eq('id', booking.id)
+      .eq('status', booking.status)
+      .is('service_started_at', null)
+      .select('*')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error starting appointment', updateError)
+      return NextResponse.json(
+        { error: 'Failed to start appointment' },
+        { status: 500 }
+      )
+    }
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ booking: updated })
+  } catch (error) {
+    logger.error('Error in start appointment route', error)
+    return NextResponse.json(
+      { error: 'Failed to start appointment' },
+      { status: 500 }
+    )
+  }
+}
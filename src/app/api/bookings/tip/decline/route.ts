@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+
+// Client-only: "No thanks" on the tip prompt, so they are not asked again for this booking.
+// They can still tip later from the booking.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId } = await request.json()
+
+    if (!bookingId) {
+      return NextResponse.json(
+        { error: 'Missing required field: bookingId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: declined, error: updateError } = await supabaseAdmin
+      .from('bookings')
+      .update({ tip_status: 'declined', updated_at: new Date().toISOString() })
+      .eq('id', bookingId)
+      .eq('client_id', user.id)
+      .eq('status', 'completed')
+      .is('tip_status', null)
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      logger.error('Error declining tip', updateError)
+      return NextResponse.json(
+        { error: 'Failed to update the booking' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ declined: !!declined })
+  } catch (error) {
+    logger.error('Error in decline tip route', error)
+    return NextResponse.json(
+      { error: 'Failed to update the booking' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,168 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingPaymentService } from '@/shared/lib/booking-payment-service'
+import { getTipAmountError, getTipBlocker } from '@/shared/lib/tipping'
+import { logger } from '@/shared/lib/logger'
+
+// Client-only: tip the barber after a completed appointment. With useSavedCard the tip is
+// charged to the card saved with the booking payment; otherwise the response carries a
+// client secret for the client to confirm with a new card.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { bookingId, amountCents, useSavedCard = true } = await request.json()
+
+    if (!bookingId || typeof amountCents !== 'number') {
+      return NextResponse.json(
+        { error: 'Missing required fields: bookingId, amountCents' },
+        { status: 400 }
+      )
+    }
+
+    const amountError = getTipAmountError(amountCents)
+    if (amountError) {
+      return NextResponse.json(
+        { error: amountError },
+        { status: 400 }
+      )
+    }
+
+    const { data: booking, error: bookingError } = await supabaseAdmin
+      .from('bookings')
+      .select('id, client_id, status, completed_at, payment_intent_id, tip_status, tip_payment_intent_id, barber:barber_id(stripe_account_id, stripe_account_status)')
+      .eq('id', bookingId)
+      .single()
+
+    if (bookingError || !booking) {
+      return NextResponse.json(
+        { error: 'Booking not found' },
+        { status: 404 }
+      )
+    }
+
+    if (booking.client_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the client can tip on this booking' },
+        { status: 403 }
+      )
+    }
+
+    // A tip left waiting for a new card can be replaced; one that is settling cannot
+    let unpaidTipCancelled = false
+    if (booking.tip_status === 'pending' && booking.tip_payment_intent_id) {
+      unpaidTipCancelled = await BookingPaymentService.cancelUnpaidTip(booking.tip_payment_intent_id)
+    }
+
+    const blocker = unpaidTipCancelled ? null : getTipBlocker(booking)
+    if (blocker) {
+      return NextResponse.json(
+        { error: blocker },
+        { status: 409 }
+      )
+    }
+
+    const barber = booking.barber as unknown as { stripe_account_id: string | null; stripe_account_status: string | null } | null
+    if (!barber?.stripe_account_id || barber.stripe_account_status !== 'active') {
+      return NextResponse.json(
+        { error: 'Your barber is not set up to receive tips yet' },
+        { status: 400 }
+      )
+    }
+
+    // Claim the tip so a double tap cannot charge twice
+    const claim = supabaseAdmin
+      .from('bookings')
+      .update({
+        tip_amount: amountCents / 100,
+        tip_status: 'pending',
+        tip_payment_intent_id: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', booking.id)
+    const { data: claimed, error: claimError } = await (booking.tip_status
+      ? claim.eq('tip_status', booking.tip_status)
+      : claim.is('tip_status', null)
+    ).select('id').maybeSingle()
+
+    if (claimError) {
+      logger.error('Error recording tip', claimError)
+      return NextResponse.json(
+        { error: 'Failed to record the tip' },
+        { status: 500 }
+      )
+    }
+
+    if (!claimed) {
+      return NextResponse.json(
+        { error: 'This booking was changed by another request. Please refresh and try again.' },
+        { status: 409 }
+      )
+    }
+
+    let customerId: string | null = null
+    if (!useSavedCard) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('stripe_customer_id')
+        .eq('id', user.id)
+        .maybeSingle()
+      customerId = profile?.stripe_customer_id || null
+    }
+
+    const result = await BookingPaymentService.chargeTip(booking, barber.stripe_account_id, amountCents, {
+      useSavedCard,
+      customerId
+    })
+
+    const now = new Date().toISOString()
+    const { error: recordError } = await supabaseAdmin
+      .from('bookings')
+      .update({
+        tip_status: result.status,
+        tip_payment_intent_id: result.paymentIntentId || null,
+        tipped_at: result.status === 'succeeded' ? now : null,
+        updated_at: now
+      })
+      .eq('id', booking.id)
+
+    if (recordError) {
+      logger.error('Error recording tip outcome', recordError)
+    }
+
+    if (result.status === 'failed') {
+      return NextResponse.json(
+        { error: result.error || 'Failed to charge the tip' },
+        { status: 402 }
+      )
+    }
+
+    return NextResponse.json({
+      status: result.status,
+      clientSecret: result.clientSecret || null
+    })
+  } catch (error) {
+    logger.error('Error in tip route', error)
+    return NextResponse.json(
+      { error: 'Failed to send the tip' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import { logger } from '@/shared/lib/logger'
+
+// Run on a schedule (see vercel.json) so expired holds move on to the next waitlisted client
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const expired = await WaitlistOfferService.expireOffers()
+
+    return NextResponse.json({ success: true, expired })
+  } catch (error) {
+    logger.error('Error in waitlist offer expiry', error)
+    return NextResponse.json(
+      { error: 'Failed to expire waitlist offers' },
+      { status: 500 }
+    )
+  }
+}
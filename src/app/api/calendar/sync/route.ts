@@ -4,6 +4,7 @@ import { createClient } from '@supabase/supabase-js';
 import { cookies } from 'next/headers';
 import { GoogleCalendarAPI, CalendarSyncService } from '@/shared/lib/google-calendar-api';
 import { logger } from '@/shared/lib/logger';
+import { DEFAULT_BARBER_TIMEZONE } from '@/shared/lib/timezone-utils';
 
 export async function POST(request: NextRequest) {
   try {
@@ -108,11 +109,11 @@ export async function POST(request: NextRequest) {
                 location: booking.barbers.location || 'Barber Shop',
                 start: {
                   dateTime: booking.start_time,
-                  timeZone: 'UTC'
+                  timeZone: booking.barbers.timezone || DEFAULT_BARBER_TIMEZONE
                 },
                 end: {
                   dateTime: booking.end_time,
-                  timeZone: 'UTC'
+                  timeZone: booking.barbers.timezone || DEFAULT_BARBER_TIMEZONE
                 },
                 reminders: {
                   useDefault: false,
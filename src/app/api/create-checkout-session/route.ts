@@ -1,7 +1,17 @@
 import { NextResponse } from "next/server"
 import Stripe from "stripe"
-import { supabase } from '@/shared/lib/supabase'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
 import { logger } from '@/shared/lib/logger'
+import { AvailabilityService } from '@/shared/lib/availability-service'
+import { getSelectionTotals, normalizeAdditionalServiceIds } from '@/shared/lib/service-selection'
+import { calculateFeeBreakdown, calculatePaymentSplit, STRIPE_MINIMUM_CHARGE_CENTS } from '@/shared/lib/fee-calculator'
+import { FeeScheduleService } from '@/shared/lib/fee-schedule-service'
+import { PromoCodeService } from '@/shared/lib/promo-code-service'
+import { calculatePromoDiscount, getPromoFunding } from '@/shared/lib/promo-codes'
+import { calculatePrepaidCredit } from '@/shared/lib/prepaid-balances'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import type { PromoCode } from '@/shared/types/promo-code'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: "2024-06-20" as any,
@@ -49,11 +59,37 @@ export async function POST(request: Request) {
       guestName, 
       guestEmail, 
       guestPhone, 
-      clientId, 
-      paymentType,
-      addonIds = []
+      clientId: requestedClientId, 
+      addonIds = [],
+      additionalServiceIds: requestedAdditionalServiceIds = [],
+      promoCode,
+      prepaidBalanceId
     } = body
 
+    // The client is whoever the bearer token belongs to, so promo code limits and gift
+    // cards are checked against the real account; a guest sends no token
+    let clientId: string | null = null
+    const authHeader = request.headers.get('authorization')
+    if (authHeader?.startsWith('Bearer ')) {
+      const token = authHeader.replace('Bearer ', '')
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+      if (authError || !user) {
+        return NextResponse.json(
+          { error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+      clientId = user.id
+    }
+
+    if (requestedClientId && requestedClientId !== 'guest' && requestedClientId !== clientId) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
     // Validate required fields
     if (!barberId || !serviceId || !date) {
       return NextResponse.json(
@@ -84,25 +120,50 @@ export async function POST(request: Request) {
       )
     }
 
-    // Get service details
-    const { data: service, error: serviceError } = await supabase
+    // Get details for every booked service; the first is the booking's primary service
+    const additionalServiceIds = normalizeAdditionalServiceIds(serviceId, requestedAdditionalServiceIds)
+    const serviceIds = [serviceId, ...additionalServiceIds]
+    const { data: services, error: serviceError } = await supabase
       .from('services')
-      .select('name, price, duration')
-      .eq('id', serviceId)
-      .single()
+      .select('id, name, price, duration, payment_mode, deposit_type, deposit_amount')
+      .eq('barber_id', barberId)
+      .in('id', serviceIds)
 
-    if (serviceError || !service?.price) {
+    const service = services?.find(s => s.id === serviceId)
+    if (serviceError || !service?.price || services?.length !== serviceIds.length) {
       return NextResponse.json(
         { error: 'Service not found or missing price' },
         { status: 400 }
       )
     }
 
-    const servicePrice = Math.round(Number(service.price) * 100) // Convert to cents
+    const serviceTotals = getSelectionTotals(services)
+
+    // Reject slots the booking trigger would refuse before the client is charged
+    let slotRejection: string | null = null
+    try {
+      slotRejection = await AvailabilityService.checkSlot(barberId, date, serviceTotals.duration, undefined, clientId || undefined)
+    } catch (slotError) {
+      logger.error('Availability check failed', slotError)
+      return NextResponse.json(
+        { error: 'Failed to check availability' },
+        { status: 500 }
+      )
+    }
+
+    if (slotRejection) {
+      return NextResponse.json(
+        { error: slotRejection },
+        { status: 409 }
+      )
+    }
+
+    const servicePrice = Math.round(serviceTotals.price * 100) // Convert to cents
     
     // Get add-ons if any are selected (deduplicate first)
     let addonTotal = 0
     let addonItems: any[] = []
+    let addonRecords: { id: string; price: number }[] = []
     
     if (addonIds && addonIds.length > 0) {
       // Deduplicate addon IDs to prevent double-counting
@@ -121,6 +182,7 @@ export async function POST(request: Request) {
       }
 
       addonTotal = addons.reduce((total, addon) => total + addon.price, 0)
+      addonRecords = addons
       addonItems = addons.map(addon => ({
         price_data: {
           currency: "usd",
@@ -135,34 +197,142 @@ export async function POST(request: Request) {
     }
     
     // Platform fee calculation (matches mobile app)
-    // Customer pays $3.38, Stripe takes $0.38, net is $3.00
-    // Split $3.00: 60% to BOCM ($1.80), 40% to barber ($1.20)
-    // BOCM absorbs the Stripe fee as a platform cost, so BOCM net = $1.80 - $0.38 = $1.42
-    const platformFee = 338 // $3.38 in cents (what customer pays)
-    const stripeFee = 38 // $0.38 in cents (Stripe's fee - absorbed by platform)
-    const netAfterStripe = platformFee - stripeFee // $3.00 = 300 cents
-    const bocmGrossShare = Math.round(netAfterStripe * 0.60) // 60% = $1.80 = 180 cents
-    let bocmShare = bocmGrossShare - stripeFee // Platform net after absorbing Stripe fee = $1.42 = 142 cents
-    let barberShare = Math.round(netAfterStripe * 0.40) // 40% = $1.20 = 120 cents
+    // The fee and its split come from the fee schedule in effect for the barber. Under the
+    // standard one the customer pays $3.38, Stripe takes $0.38, net is $3.00, split 60% to
+    // BOCM ($1.80) and 40% to the barber ($1.20); BOCM absorbs the Stripe fee, netting $1.42
+    // On top of the fee the client prepays whatever deposit or full price the barber
+    // set on the services; that goes to the barber less Stripe's percentage on it
+    let feeSchedule
+    try {
+      feeSchedule = await FeeScheduleService.resolve(barberId)
+    } catch (scheduleError) {
+      logger.error('Fee schedule lookup failed', scheduleError)
+      return NextResponse.json(
+        { error: 'Failed to determine the booking fee' },
+        { status: 500 }
+      )
+    }
+
+    const feeBreakdown = calculateFeeBreakdown(feeSchedule, servicePrice)
+
+    // A barber's promo code comes off the services, a platform code off the booking fee
+    let promo: PromoCode | null = null
+    if (promoCode) {
+      try {
+        const check = await PromoCodeService.check(promoCode, { barberId, clientId, serviceIds, start: date })
+        if (check.rejection) {
+          return NextResponse.json(
+            { error: check.rejection },
+            { status: 400 }
+          )
+        }
+        promo = check.promo
+      } catch (promoError) {
+        logger.error('Promo code check failed', promoError)
+        return NextResponse.json(
+          { error: 'Failed to check the promo code' },
+          { status: 500 }
+        )
+      }
+    }
+
+    const discount = promo ? calculatePromoDiscount(promo, services, feeBreakdown.platformFee) : null
+
+    // A gift card or package the signed-in client owns with this barber covers what is left to pay;
+    // the barber was paid for it when it was bought
+    let creditCents = 0
+    if (prepaidBalanceId) {
+      const { data: balance } = await supabaseAdmin
+        .from('prepaid_balances')
+        .select('kind, service_id, amount_remaining, visits_remaining, owner_id, barber_id, status')
+        .eq('id', prepaidBalanceId)
+        .maybeSingle()
+
+      if (!balance || !clientId || balance.owner_id !== clientId || balance.barber_id !== barberId || balance.status !== 'active') {
+        return NextResponse.json(
+          { error: 'This gift card or package cannot be used for this booking' },
+          { status: 400 }
+        )
+      }
+
+      const owed = calculatePaymentSplit(services, Math.round(addonTotal * 100), feeSchedule, discount)
+      creditCents = calculatePrepaidCredit(balance, services, owed.prepaidCents + owed.dueAtAppointmentCents)
+      if (creditCents === 0) {
+        return NextResponse.json(
+          { error: 'This gift card or package has nothing left to use on these services' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const split = calculatePaymentSplit(services, Math.round(addonTotal * 100), feeSchedule, discount, creditCents)
+    // What the client pays toward the booking fee once a platform code is taken off
+    const platformFee = split.totalCents - split.prepaidCents
+    let barberShare = feeBreakdown.barberShare
+    let applicationFee = split.applicationFeeCents
 
     // If barber is a developer, bypass all platform fees
     if (barber.is_developer) {
-      bocmShare = 0
+      applicationFee = 0
       barberShare = 0
     }
 
-    // Customer only pays the platform fee (fee-only payment model)
-    // Service price and addons are paid directly to barber at appointment
-    const totalAmount = platformFee
-    const transferAmount = barberShare // Barber gets 40% of fee (or 0 if developer)
-    
+    // A no-fee schedule with nothing prepaid is booked below without a charge; anything
+    // else must reach Stripe's minimum
+    if (split.totalCents > 0 && split.totalCents < STRIPE_MINIMUM_CHARGE_CENTS) {
+      return NextResponse.json(
+        { error: 'This booking is below the minimum card payment' },
+        { status: 400 }
+      )
+    }
+
+    // Hold a use of the promo code while the client pays, so its limits cannot be overrun
+    let promoRedemptionId: string | null = null
+    if (promo && split.discountCents > 0) {
+      try {
+        const reservation = await PromoCodeService.reserve(promo, { barberId, clientId, serviceIds, start: date }, split.discountCents)
+        if (reservation.rejection) {
+          return NextResponse.json(
+            { error: reservation.rejection },
+            { status: 400 }
+          )
+        }
+        promoRedemptionId = reservation.redemptionId
+      } catch (promoError) {
+        logger.error('Promo code reservation failed', promoError)
+        return NextResponse.json(
+          { error: 'Failed to check the promo code' },
+          { status: 500 }
+        )
+      }
+    }
+
+    // Draw the credit now so the balance cannot be spent twice while the client pays
+    let prepaidReservationId: string | null = null
+    if (split.creditCents > 0 && prepaidBalanceId && clientId) {
+      try {
+        prepaidReservationId = await PrepaidService.reserveCredit(prepaidBalanceId, clientId, split.creditCents)
+      } catch (creditError) {
+        if (promoRedemptionId) {
+          await PromoCodeService.releaseReservation(promoRedemptionId).catch(releaseError =>
+            logger.error('Error releasing promo code', releaseError))
+        }
+        return NextResponse.json(
+          { error: creditError instanceof Error ? creditError.message : 'This gift card or package cannot be used for this booking' },
+          { status: 400 }
+        )
+      }
+    }
+
     const lineItems = [
       {
         price_data: {
           currency: "usd",
           product_data: {
             name: "Processing Fee",
-            description: "Payment processing fee"
+            description: promo && discount?.fundedBy === 'platform'
+              ? `Payment processing fee, promo code ${promo.code} applied`
+              : "Payment processing fee"
           },
           unit_amount: platformFee,
         },
@@ -170,47 +340,212 @@ export async function POST(request: Request) {
       }
     ]
 
+    // Anything not prepaid is still paid directly to the barber at the appointment
+    if (split.prepaidCents > 0) {
+      lineItems.push({
+        price_data: {
+          currency: "usd",
+          product_data: {
+            name: split.paymentMode === 'full' ? "Service Prepayment" : "Deposit",
+            description: split.paymentMode === 'full'
+              ? split.creditCents > 0
+                ? `Paid in full to your barber after $${(split.creditCents / 100).toFixed(2)} of prepaid credit`
+                : "Paid in full to your barber"
+              : `Toward your service; $${(split.dueAtAppointmentCents / 100).toFixed(2)} due at the appointment`
+          },
+          unit_amount: split.prepaidCents,
+        },
+        quantity: 1,
+      })
+    }
+
+    // Nothing to charge: the booking is confirmed straight away, as the webhook would once paid
+    if (split.totalCents === 0) {
+      const { data: booking, error: bookingError } = await supabaseAdmin
+        .from('bookings')
+        .insert({
+          barber_id: barberId,
+          service_id: serviceId,
+          additional_service_ids: additionalServiceIds,
+          date,
+          status: 'confirmed',
+          payment_status: 'succeeded',
+          price: 0,
+          service_price: serviceTotals.price, // Store historical total of the booked services
+          addon_total: 0, // Let the trigger calculate this from booking_addons
+          platform_fee: 0,
+          barber_payout: 0,
+          payment_mode: split.paymentMode,
+          amount_prepaid: 0,
+          fee_schedule_id: split.feeScheduleId,
+          promo_code_id: promo?.id || null,
+          discount_amount: promo ? split.discountCents / 100 : 0,
+          prepaid_balance_id: split.creditCents > 0 ? prepaidBalanceId : null,
+          prepaid_credit: split.creditCents / 100,
+          notes: notes || null,
+          guest_name: guestName || null,
+          guest_email: guestEmail || null,
+          guest_phone: guestPhone || null,
+          client_id: clientId || null,
+        })
+        .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+        .single()
+
+      if (bookingError) {
+        logger.error('Error creating booking without payment', bookingError)
+        if (promoRedemptionId) {
+          await PromoCodeService.releaseReservation(promoRedemptionId).catch(releaseError =>
+            logger.error('Error releasing promo code', releaseError))
+        }
+        if (prepaidReservationId) {
+          await PrepaidService.releaseCredit(prepaidReservationId).catch(releaseError =>
+            logger.error('Error releasing prepaid credit', releaseError))
+        }
+        return NextResponse.json(
+          { error: 'Failed to create booking' },
+          { status: 500 }
+        )
+      }
+
+      if (promo && promoRedemptionId) {
+        const { error: redemptionError } = await supabaseAdmin
+          .from('promo_code_redemptions')
+          .update({ booking_id: booking.id, status: 'redeemed', reserved_until: null })
+          .eq('id', promoRedemptionId)
+
+        if (redemptionError) {
+          logger.error('Error recording promo code redemption', redemptionError)
+        }
+      }
+
+      if (prepaidReservationId) {
+        const { error: redeemError } = await supabaseAdmin.rpc('redeem_prepaid_balance', {
+          p_balance_id: prepaidBalanceId,
+          p_booking_id: booking.id,
+          p_credit: split.creditCents / 100,
+          p_reservation_id: prepaidReservationId
+        })
+
+        if (redeemError) {
+          logger.error('Error redeeming prepaid balance', redeemError)
+        }
+      }
+
+      if (addonRecords.length > 0) {
+        const { error: addonError } = await supabaseAdmin
+          .from('booking_addons')
+          .insert(addonRecords.map(addon => ({ booking_id: booking.id, addon_id: addon.id, price: addon.price })))
+
+        if (addonError) {
+          logger.error('Error adding add-ons to booking', addonError)
+        }
+      }
+
+      try {
+        await BookingNotifications.sendConfirmation(booking)
+      } catch (notificationError) {
+        logger.error('Failed to send booking notifications', notificationError)
+      }
+
+      return NextResponse.json({
+        noPaymentRequired: true,
+        booking: {
+          id: booking.id,
+          barber_id: booking.barber_id,
+          service_id: booking.service_id,
+          date: booking.date,
+          status: booking.status,
+          payment_status: booking.payment_status,
+          price: booking.price
+        }
+      })
+    }
+
     // Create success and cancel URLs
     const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://bocmstyle.com'
     const successUrl = `${baseUrl}/booking/success?session_id={CHECKOUT_SESSION_ID}`
     const cancelUrl = `${baseUrl}/booking/cancel`
 
+    // Reuse the client's Stripe customer so the card saved below stays on one customer
+    let stripeCustomerId: string | null = null
+    if (clientId) {
+      const { data: profile } = await supabaseAdmin
+        .from('profiles')
+        .select('stripe_customer_id')
+        .eq('id', clientId)
+        .maybeSingle()
+      stripeCustomerId = profile?.stripe_customer_id || null
+    }
+
+    const metadata = {
+      barberId,
+      serviceId,
+      date,
+      notes: notes || '',
+      guestName: guestName || '',
+      guestEmail: guestEmail || '',
+      guestPhone: guestPhone || '',
+      clientId: clientId || 'guest',
+      serviceName: serviceIds.map(id => services.find(s => s.id === id)?.name).join(' + '),
+      servicePrice: servicePrice.toString(),
+      additionalServiceIds: additionalServiceIds.join(','),
+      addonTotal: Math.round(addonTotal * 100).toString(),
+      addonIds: [...new Set(addonIds)].join(','),
+      platformFee: platformFee.toString(),
+      feeScheduleId: split.feeScheduleId || '',
+      promoCodeId: promo?.id || '',
+      promoRedemptionId: promoRedemptionId || '',
+      discountCents: split.discountCents.toString(),
+      discountFundedBy: promo ? getPromoFunding(promo) : '',
+      prepaidBalanceId: creditCents > 0 ? prepaidBalanceId : '',
+      prepaidCreditCents: split.creditCents.toString(),
+      prepaidReservationId: prepaidReservationId || '',
+      paymentType: 'fee',
+      feeType: 'fee_only',
+      paymentMode: split.paymentMode,
+      amountPrepaid: split.prepaidCents.toString(),
+      bocmShare: applicationFee.toString(),
+      barberShare: barberShare.toString(),
+      isDeveloper: barber.is_developer ? 'true' : 'false',
+      // Add flag to indicate if add-ons need separate payment
+      addonsPaidSeparately: (split.paymentMode !== 'full' && addonIds.length > 0).toString(),
+    }
+
     // Create Stripe Checkout session
-    const session = await stripe.checkout.sessions.create({
-      payment_method_types: ["card"],
-      line_items: lineItems,
-      mode: "payment",
-      success_url: successUrl,
-      cancel_url: cancelUrl,
-      payment_intent_data: {
-        transfer_data: {
-          destination: barber.stripe_account_id,
+    let session: Stripe.Checkout.Session
+    try {
+      session = await stripe.checkout.sessions.create({
+        payment_method_types: ["card"],
+        // A platform promo code can take the whole fee off a prepaid booking
+        line_items: lineItems.filter(item => item.price_data.unit_amount > 0),
+        mode: "payment",
+        success_url: successUrl,
+        cancel_url: cancelUrl,
+        ...(stripeCustomerId ? { customer: stripeCustomerId } : { customer_creation: 'always' as const }),
+        payment_intent_data: {
+          // Saved for late cancellation and no-show fees under the barber's cancellation policy
+          setup_future_usage: 'off_session',
+          transfer_data: {
+            destination: barber.stripe_account_id,
+          },
+          application_fee_amount: applicationFee, // The schedule's platform share ($1.42 standard) plus Stripe's percentage on any prepayment (or 0 for developer)
+          // The payment_intent.succeeded webhook records the split from these
+          metadata,
         },
-        application_fee_amount: bocmShare, // Platform net after absorbing Stripe fee = $1.42 (or 0 for developer)
-      },
-      metadata: {
-        barberId,
-        serviceId,
-        date,
-        notes: notes || '',
-        guestName: guestName || '',
-        guestEmail: guestEmail || '',
-        guestPhone: guestPhone || '',
-        clientId: clientId || 'guest',
-        serviceName: service.name,
-        servicePrice: servicePrice.toString(),
-        addonTotal: Math.round(addonTotal * 100).toString(),
-        addonIds: [...new Set(addonIds)].join(','),
-        platformFee: platformFee.toString(),
-        paymentType: 'fee', // Always fee-only payment model
-        feeType: 'fee_only',
-        bocmShare: bocmShare.toString(),
-        barberShare: barberShare.toString(),
-        isDeveloper: barber.is_developer ? 'true' : 'false',
-        // Add flag to indicate if add-ons need separate payment
-        addonsPaidSeparately: (paymentType === 'fee' && addonIds.length > 0).toString(),
-      },
-    })
+        metadata,
+      })
+    } catch (stripeError) {
+      // No checkout was started, so the held promo code use and credit are given back
+      if (promoRedemptionId) {
+        await PromoCodeService.releaseReservation(promoRedemptionId).catch(releaseError =>
+          logger.error('Error releasing promo code', releaseError))
+      }
+      if (prepaidReservationId) {
+        await PrepaidService.releaseCredit(prepaidReservationId).catch(releaseError =>
+          logger.error('Error releasing prepaid credit', releaseError))
+      }
+      throw stripeError
+    }
 
     logger.debug('Checkout session created successfully', {
       sessionId: session.id,
@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { supabaseAdmin } from '@/shared/lib/supabase'
-import { sendBookingConfirmationSMS } from "@/shared/utils/sendSMS"
+import { BookingNotifications } from "@/shared/lib/booking-notifications"
 import { logger } from '@/shared/lib/logger'
+import { getSelectionTotals, normalizeAdditionalServiceIds } from '@/shared/lib/service-selection'
 
 export async function POST(request: Request) {
   try {
@@ -19,7 +20,8 @@ export async function POST(request: Request) {
       guestPhone, 
       clientId, 
       paymentType,
-      addonIds = []
+      addonIds = [],
+      additionalServiceIds: requestedAdditionalServiceIds = []
     } = body
 
     // Validate required fields
@@ -51,21 +53,24 @@ export async function POST(request: Request) {
       )
     }
 
-    // Get service details
-    const { data: service, error: serviceError } = await supabaseAdmin
+    // Get details for every booked service; the first is the booking's primary service
+    const additionalServiceIds = normalizeAdditionalServiceIds(serviceId, requestedAdditionalServiceIds)
+    const serviceIds = [serviceId, ...additionalServiceIds]
+    const { data: services, error: serviceError } = await supabaseAdmin
       .from('services')
-      .select('name, price, duration')
-      .eq('id', serviceId)
-      .single()
+      .select('id, name, price, duration')
+      .eq('barber_id', barberId)
+      .in('id', serviceIds)
 
-    if (serviceError || !service?.price) {
+    const service = services?.find(s => s.id === serviceId)
+    if (serviceError || !service?.price || services?.length !== serviceIds.length) {
       return NextResponse.json(
         { error: 'Service not found or missing price' },
         { status: 400 }
       )
     }
 
-    const servicePrice = Number(service.price)
+    const servicePrice = getSelectionTotals(services).price
     
     // Get add-ons if any are selected (deduplicate first)
     let addonTotal = 0
@@ -97,6 +102,7 @@ export async function POST(request: Request) {
     const bookingData = {
       barber_id: barberId,
       service_id: serviceId,
+      additional_service_ids: additionalServiceIds,
       date: date,
       notes: notes || '',
       guest_name: guestName || null,
@@ -106,7 +112,7 @@ export async function POST(request: Request) {
       status: 'confirmed',
       payment_status: 'succeeded', // Developer bookings are automatically paid
       price: servicePrice + addonTotal,
-      service_price: servicePrice, // Store historical service price
+      service_price: servicePrice, // Store historical total of the booked services
       addon_total: 0, // Let the trigger calculate this from booking_addons
       platform_fee: platformFee,
       barber_payout: barberPayout,
@@ -161,14 +167,14 @@ export async function POST(request: Request) {
       }
     }
 
-    // Send SMS notifications to both barber and client
+    // Notify both barber and client
     try {
-      logger.debug('Sending SMS notifications for developer booking', { bookingId: booking.id })
-      const smsResults = await sendBookingConfirmationSMS(booking)
-      logger.debug('SMS notification results', { smsResults })
-    } catch (smsError) {
-      logger.error('Failed to send SMS notifications', smsError)
-      // Don't fail the booking creation if SMS fails
+      logger.debug('Sending notifications for developer booking', { bookingId: booking.id })
+      const deliveries = await BookingNotifications.sendConfirmation(booking)
+      logger.debug('Notification delivery results', { deliveries: deliveries.map(d => ({ channel: d.channel, status: d.status })) })
+    } catch (notificationError) {
+      logger.error('Failed to send booking notifications', notificationError)
+      // Don't fail the booking creation if notifications fail
     }
 
     logger.debug('Developer booking created successfully', {
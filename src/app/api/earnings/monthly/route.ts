@@ -14,6 +14,7 @@ interface EarningsResponse {
   breakdown?: {
     serviceFees: number
     platformFees: number
+    tips: number
     totalEarnings: number
   }
 }
@@ -46,7 +47,7 @@ export async function GET(request: Request) {
 
     const { data: currentMonthData, error: currentError } = await supabase
       .from('bookings')
-      .select('price, platform_fee, barber_payout')
+      .select('price, platform_fee, barber_payout, tip_amount, tip_status')
       .eq('barber_id', barberId)
       .eq('payment_status', 'succeeded')
       .gte('created_at', firstDayOfMonth.toISOString())
@@ -70,7 +71,7 @@ export async function GET(request: Request) {
 
     const { data: prevMonthData, error: prevError } = await supabase
       .from('bookings')
-      .select('price, platform_fee, barber_payout')
+      .select('price, platform_fee, barber_payout, tip_amount, tip_status')
       .eq('barber_id', barberId)
       .eq('payment_status', 'succeeded')
       .gte('created_at', firstDayOfPrevMonth.toISOString())
@@ -121,12 +122,16 @@ export async function GET(request: Request) {
         calculatedBarberPayout 
       })
       
+      // Tips go to the barber in full, so they count towards earnings on top of the payout
+      const tip = booking.tip_status === 'succeeded' ? booking.tip_amount || 0 : 0
+
       return {
         serviceFees: acc.serviceFees + price,
         platformFees: acc.platformFees + platformFee,
-        totalEarnings: acc.totalEarnings + calculatedBarberPayout
+        tips: acc.tips + tip,
+        totalEarnings: acc.totalEarnings + calculatedBarberPayout + tip
       }
-    }, { serviceFees: 0, platformFees: 0, totalEarnings: 0 }) || { serviceFees: 0, platformFees: 0, totalEarnings: 0 }
+    }, { serviceFees: 0, platformFees: 0, tips: 0, totalEarnings: 0 }) || { serviceFees: 0, platformFees: 0, tips: 0, totalEarnings: 0 }
 
     // Calculate previous month breakdown
     const prevBreakdown = prevMonthData?.reduce((acc, booking) => {
@@ -141,12 +146,16 @@ export async function GET(request: Request) {
         calculatedBarberPayout = price * 0.8
       }
       
+      // Tips go to the barber in full, so they count towards earnings on top of the payout
+      const tip = booking.tip_status === 'succeeded' ? booking.tip_amount || 0 : 0
+
       return {
         serviceFees: acc.serviceFees + price,
         platformFees: acc.platformFees + platformFee,
-        totalEarnings: acc.totalEarnings + calculatedBarberPayout
+        tips: acc.tips + tip,
+        totalEarnings: acc.totalEarnings + calculatedBarberPayout + tip
       }
-    }, { serviceFees: 0, platformFees: 0, totalEarnings: 0 }) || { serviceFees: 0, platformFees: 0, totalEarnings: 0 }
+    }, { serviceFees: 0, platformFees: 0, tips: 0, totalEarnings: 0 }) || { serviceFees: 0, platformFees: 0, tips: 0, totalEarnings: 0 }
 
     // Convert to cents for consistent API response
     const currentTotal = Math.round(currentBreakdown.totalEarnings * 100)
@@ -169,6 +178,7 @@ export async function GET(request: Request) {
       breakdown: {
         serviceFees: currentBreakdown.serviceFees * 100,
         platformFees: currentBreakdown.platformFees * 100,
+        tips: currentBreakdown.tips * 100,
         totalEarnings: currentBreakdown.totalEarnings * 100
       }
     }
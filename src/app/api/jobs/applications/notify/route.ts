@@ -0,0 +1,112 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { logger } from '@/shared/lib/logger'
+
+const STATUS_PUSH: Record<string, { title: string; body: (business: string, job: string) => string }> = {
+  reviewing: {
+    title: 'Application Under Review',
+    body: (business, job) => `${business} is reviewing your application for ${job}`
+  },
+  accepted: {
+    title: 'Application Accepted',
+    body: (business, job) => `${business} accepted your application for ${job}`
+  },
+  rejected: {
+    title: 'Application Update',
+    body: (business, job) => `${business} went with another applicant for ${job}`
+  }
+}
+
+// Pushes the latest step of a job application to the other party: a new application to
+// the poster, a status change to the applicant. The inbox entry is written by the database.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { applicationId } = await request.json() as { applicationId?: string }
+
+    if (!applicationId) {
+      return NextResponse.json(
+        { error: 'Missing required field: applicationId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: application, error: applicationError } = await supabaseAdmin
+      .from('job_applications')
+      .select('id, applicant_id, status, job:job_id(poster_id, title, business_name), applicant:applicant_id(name)')
+      .eq('id', applicationId)
+      .single()
+
+    if (applicationError || !application) {
+      return NextResponse.json(
+        { error: 'Application not found' },
+        { status: 404 }
+      )
+    }
+
+    const job = application.job as unknown as { poster_id: string; title: string; business_name: string }
+    const applicant = application.applicant as unknown as { name: string | null } | null
+
+    if (user.id !== application.applicant_id && user.id !== job.poster_id) {
+      return NextResponse.json(
+        { error: 'You can only send notifications for your own applications' },
+        { status: 403 }
+      )
+    }
+
+    const statusPush = STATUS_PUSH[application.status]
+    const push = application.status === 'pending'
+      ? {
+        recipientId: job.poster_id,
+        title: 'New Application',
+        body: `${applicant?.name || 'A barber'} applied to ${job.title}`,
+        type: 'job_application_received'
+      }
+      : {
+        recipientId: application.applicant_id,
+        title: statusPush.title,
+        body: statusPush.body(job.business_name, job.title),
+        type: 'job_application_updated'
+      }
+
+    // Only the other party hears about it
+    if (push.recipientId === user.id) {
+      return NextResponse.json({ success: true, deliveries: 0 })
+    }
+
+    const deliveries = await PushDispatcher.send(push.recipientId, {
+      type: push.type,
+      title: push.title,
+      body: push.body,
+      data: { applicationId: application.id },
+      dedupeKey: `job-application:${application.id}:${application.status}:push`
+    })
+
+    return NextResponse.json({ success: true, deliveries: deliveries.length })
+  } catch (error) {
+    logger.error('Error sending application notification', error)
+    return NextResponse.json(
+      { error: 'Failed to send application notification' },
+      { status: 500 }
+    )
+  }
+}
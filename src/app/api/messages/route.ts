@@ -0,0 +1,141 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { CONVERSATION_SELECT, ConversationRow, getOtherParticipant } from '@/shared/lib/messaging-service'
+import { MESSAGE_RULES, validateContent } from '@/shared/lib/contentModeration'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { logger } from '@/shared/lib/logger'
+
+// Sends a direct message. Messages are only written here, so blocks and moderation
+// cannot be skipped by writing to the database from the browser or the app.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { conversationId, text = '', attachmentPath = null } = await request.json() as {
+      conversationId?: string
+      text?: string
+      attachmentPath?: string | null
+    }
+    const messageText = text.trim()
+
+    if (!conversationId) {
+      return NextResponse.json(
+        { error: 'Missing required field: conversationId' },
+        { status: 400 }
+      )
+    }
+
+    if (!messageText && !attachmentPath) {
+      return NextResponse.json(
+        { error: 'Write a message or attach a photo' },
+        { status: 400 }
+      )
+    }
+
+    const { data, error: conversationError } = await supabaseAdmin
+      .from('conversations')
+      .select(CONVERSATION_SELECT)
+      .eq('id', conversationId)
+      .single()
+
+    const conversation = data as unknown as ConversationRow | null
+    const barberUserId = conversation?.barber?.user_id
+    if (conversationError || !conversation || (user.id !== conversation.client_id && user.id !== barberUserId)) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const recipientId = user.id === conversation.client_id ? barberUserId : conversation.client_id
+    if (!recipientId) {
+      return NextResponse.json(
+        { error: 'Conversation not found' },
+        { status: 404 }
+      )
+    }
+
+    const { data: blocked, error: blockError } = await supabaseAdmin.rpc('is_blocked_between', {
+      p_user_a: user.id,
+      p_user_b: recipientId
+    })
+    if (blockError) throw blockError
+    if (blocked) {
+      return NextResponse.json(
+        { error: 'You cannot message this user' },
+        { status: 403 }
+      )
+    }
+
+    if (messageText) {
+      const validation = validateContent(messageText, MESSAGE_RULES)
+      if (!validation.isValid) {
+        return NextResponse.json(
+          { error: validation.issues[0], issues: validation.issues },
+          { status: 422 }
+        )
+      }
+    }
+
+    // Uploads are stored under <conversation id>/<sender id>/ by the storage policies
+    if (attachmentPath && !attachmentPath.startsWith(`${conversationId}/${user.id}/`)) {
+      return NextResponse.json(
+        { error: 'Invalid attachment' },
+        { status: 400 }
+      )
+    }
+
+    const { data: message, error: insertError } = await supabaseAdmin
+      .from('messages')
+      .insert({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        text: messageText,
+        attachment_path: attachmentPath
+      })
+      .select('*')
+      .single()
+
+    if (insertError) throw insertError
+
+    // The message is saved either way; a failed push only means the recipient sees it next time they open the app
+    try {
+      const sender = getOtherParticipant(conversation, recipientId)
+      await PushDispatcher.send(recipientId, {
+        type: 'new_message',
+        title: sender.name,
+        body: messageText || 'Sent a photo',
+        data: { conversationId },
+        bookingId: conversation.booking_id,
+        dedupeKey: `message:${message.id}:push`
+      })
+    } catch (pushError) {
+      logger.error('Error pushing message', pushError)
+    }
+
+    return NextResponse.json({ success: true, message })
+  } catch (error) {
+    logger.error('Error sending message', error)
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    )
+  }
+}
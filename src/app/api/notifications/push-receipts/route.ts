@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { getNotificationProvider } from '@/shared/lib/notification-providers'
+import { logger } from '@/shared/lib/logger'
+
+// Run on a schedule (see vercel.json) to read Expo's push receipts and drop tokens of uninstalled apps
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  // Pushes only reach Expo with the live provider
+  if (getNotificationProvider('push').name !== 'expo') {
+    return NextResponse.json({ success: true, checked: 0, failed: 0, pruned: 0 })
+  }
+
+  try {
+    const result = await PushDispatcher.checkReceipts()
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    logger.error('Error checking push receipts', error)
+    return NextResponse.json(
+      { error: 'Failed to check push receipts' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { logger } from '@/shared/lib/logger'
+
+// Texts the signed-in user at the phone number on their profile to confirm SMS notifications reach them
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('phone')
+      .eq('id', user.id)
+      .single()
+
+    if (profileError || !profile?.phone) {
+      return NextResponse.json(
+        { error: 'Add a phone number to your profile first' },
+        { status: 400 }
+      )
+    }
+
+    const delivery = await NotificationDelivery.send({
+      channel: 'sms',
+      to: profile.phone,
+      recipientId: user.id,
+      type: 'sms_test',
+      title: 'SMS notifications enabled',
+      body: 'Thank you for enabling SMS notifications! You will now receive important updates by text.'
+    })
+
+    if (delivery?.status !== 'sent') {
+      return NextResponse.json(
+        { error: delivery?.last_error || 'Failed to send test SMS' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error in test SMS route', error)
+    return NextResponse.json(
+      { error: 'Failed to send test SMS' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { OnDemandRequestService } from '@/shared/lib/ondemand-request-service'
+import { logger } from '@/shared/lib/logger'
+import type { OnDemandRequest } from '@/shared/types/booking-restrictions'
+
+// The client withdraws an on-demand request the barber has not answered yet
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { requestId } = await request.json()
+
+    if (!requestId) {
+      return NextResponse.json(
+        { error: 'Missing required field: requestId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: ondemandRequest, error: requestError } = await supabaseAdmin
+      .from('ondemand_requests')
+      .select('*')
+      .eq('id', requestId)
+      .single()
+
+    if (requestError || !ondemandRequest) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      )
+    }
+
+    if (ondemandRequest.client_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the client who sent this request can withdraw it' },
+        { status: 403 }
+      )
+    }
+
+    const cancelled = await OnDemandRequestService.closeRequest(ondemandRequest as OnDemandRequest, 'cancelled')
+    if (!cancelled) {
+      return NextResponse.json(
+        { error: `This request was already ${ondemandRequest.status}` },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ request: cancelled })
+  } catch (error) {
+    logger.error('Error withdrawing on-demand request', error)
+    return NextResponse.json(
+      { error: 'Failed to withdraw request' },
+      { status: 500 }
+    )
+  }
+}
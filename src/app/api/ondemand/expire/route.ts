@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { OnDemandRequestService } from '@/shared/lib/ondemand-request-service'
+import { logger } from '@/shared/lib/logger'
+
+// Run on a schedule (see vercel.json) so unanswered requests release the client's hold
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const expired = await OnDemandRequestService.expireRequests()
+
+    return NextResponse.json({ success: true, expired })
+  } catch (error) {
+    logger.error('Error in on-demand request expiry', error)
+    return NextResponse.json(
+      { error: 'Failed to expire on-demand requests' },
+      { status: 500 }
+    )
+  }
+}
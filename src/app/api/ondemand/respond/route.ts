@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { OnDemandRequestService } from '@/shared/lib/ondemand-request-service'
+import { isOnDemandRequestOpen } from '@/shared/lib/ondemand-timing'
+import { logger } from '@/shared/lib/logger'
+import type { OnDemandRequest } from '@/shared/types/booking-restrictions'
+
+// The barber accepts or declines an on-demand request from their inbox
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { requestId, action } = await request.json()
+
+    if (!requestId || (action !== 'accept' && action !== 'decline')) {
+      return NextResponse.json(
+        { error: "Missing required fields: requestId and action ('accept' or 'decline')" },
+        { status: 400 }
+      )
+    }
+
+    const { data: ondemandRequest, error: requestError } = await supabaseAdmin
+      .from('ondemand_requests')
+      .select('*, barber:barber_id(user_id)')
+      .eq('id', requestId)
+      .single()
+
+    if (requestError || !ondemandRequest) {
+      return NextResponse.json(
+        { error: 'Request not found' },
+        { status: 404 }
+      )
+    }
+
+    const barber = ondemandRequest.barber as unknown as { user_id: string } | null
+
+    if (barber?.user_id !== user.id) {
+      return NextResponse.json(
+        { error: 'Only the requested barber can answer this request' },
+        { status: 403 }
+      )
+    }
+
+    if (!isOnDemandRequestOpen(ondemandRequest)) {
+      return NextResponse.json(
+        { error: ondemandRequest.status === 'pending' ? 'This request has expired' : `This request was already ${ondemandRequest.status}` },
+        { status: 409 }
+      )
+    }
+
+    if (action === 'decline') {
+      const declined = await OnDemandRequestService.closeRequest(ondemandRequest as OnDemandRequest, 'declined')
+      if (!declined) {
+        return NextResponse.json(
+          { error: 'This request was already answered' },
+          { status: 409 }
+        )
+      }
+
+      return NextResponse.json({ request: declined })
+    }
+
+    try {
+      const booking = await OnDemandRequestService.acceptRequest(ondemandRequest as OnDemandRequest)
+      return NextResponse.json({ booking })
+    } catch (acceptError) {
+      // Raised when the time is no longer bookable or the hold has lapsed
+      const message = (acceptError as { message?: string })?.message || 'Failed to accept request'
+      return NextResponse.json(
+        { error: message },
+        { status: 409 }
+      )
+    }
+  } catch (error) {
+    logger.error('Error answering on-demand request', error)
+    return NextResponse.json(
+      { error: 'Failed to answer request' },
+      { status: 500 }
+    )
+  }
+}
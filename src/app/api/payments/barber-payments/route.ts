@@ -30,6 +30,9 @@ export async function GET(request: Request) {
         price,
         platform_fee,
         barber_payout,
+        tip_amount,
+        tip_status,
+        tip_payment_intent_id,
         notes,
         guest_name,
         guest_email,
@@ -71,9 +74,11 @@ export async function GET(request: Request) {
       // Don't fail the request, just log the error
     }
 
-    // Create a map of booking_id to payment details
+    // Create a map of booking_id to payment details; tips are recorded as their own payment
+    const tipPaymentIntents = new Set(bookings?.map(b => b.tip_payment_intent_id).filter(Boolean))
     const paymentMap = new Map()
     payments?.forEach(payment => {
+      if (tipPaymentIntents.has(payment.payment_intent_id)) return
       paymentMap.set(payment.booking_id, payment)
     })
 
@@ -88,17 +93,20 @@ export async function GET(request: Request) {
       const price = booking.price || 0
       const platformFee = booking.platform_fee || 0
       const barberPayout = booking.barber_payout || 0
+      const tip = booking.tip_status === 'succeeded' ? booking.tip_amount || 0 : 0
 
       return {
         totalRevenue: acc.totalRevenue + price,
         totalPlatformFees: acc.totalPlatformFees + platformFee,
         totalBarberPayout: acc.totalBarberPayout + barberPayout,
+        totalTips: acc.totalTips + tip,
         totalBookings: acc.totalBookings + 1
       }
     }, {
       totalRevenue: 0,
       totalPlatformFees: 0,
       totalBarberPayout: 0,
+      totalTips: 0,
       totalBookings: 0
     })
 
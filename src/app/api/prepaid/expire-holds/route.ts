@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { logger } from '@/shared/lib/logger'
+
+// Run on a schedule (see vercel.json) so gift card and package credit held by abandoned checkouts goes back
+export async function GET(request: Request) {
+  const cronSecret = process.env.CRON_SECRET
+
+  if (cronSecret && request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  try {
+    const released = await PrepaidService.releaseExpiredCredit()
+
+    return NextResponse.json({ success: true, released })
+  } catch (error) {
+    logger.error('Error in prepaid credit expiry', error)
+    return NextResponse.json(
+      { error: 'Failed to release expired prepaid credit' },
+      { status: 500 }
+    )
+  }
+}
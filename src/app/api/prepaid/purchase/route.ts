@@ -0,0 +1,206 @@
+import { NextResponse } from 'next/server'
+import Stripe from 'stripe'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { calculatePrepaidApplicationFeeCents, getGiftCardAmountError } from '@/shared/lib/prepaid-balances'
+import { logger } from '@/shared/lib/logger'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: "2024-06-20" as any,
+})
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+// Buy a gift card or package from a barber's page. The balance is created pending and
+// the payment goes to the barber's Connect account; the payment_intent.succeeded
+// webhook activates the balance and emails a gift's recipient their claim link.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { barberId, packageId, amountCents, isGift = false, recipientName, recipientEmail, message } = await request.json()
+
+    if (!barberId || (!packageId && typeof amountCents !== 'number')) {
+      return NextResponse.json(
+        { error: 'Missing required fields: barberId, and packageId or amountCents' },
+        { status: 400 }
+      )
+    }
+
+    if (isGift && (!recipientName?.trim() || !EMAIL_PATTERN.test(recipientEmail?.trim() || ''))) {
+      return NextResponse.json(
+        { error: "A gift needs the recipient's name and a valid email" },
+        { status: 400 }
+      )
+    }
+
+    const { data: barber, error: barberError } = await supabaseAdmin
+      .from('barbers')
+      .select('id, user_id, stripe_account_id, stripe_account_status, gift_cards_enabled')
+      .eq('id', barberId)
+      .single()
+
+    if (barberError || !barber?.stripe_account_id || barber.stripe_account_status !== 'active') {
+      return NextResponse.json(
+        { error: 'Barber account is not ready to accept payments' },
+        { status: 400 }
+      )
+    }
+
+    if (barber.user_id === user.id) {
+      return NextResponse.json(
+        { error: 'You cannot buy your own gift cards or packages' },
+        { status: 400 }
+      )
+    }
+
+    let balance: {
+      kind: 'gift_card' | 'package'
+      package_id: string | null
+      service_id: string | null
+      visit_count: number | null
+      purchaseCents: number
+      name: string
+    }
+
+    if (packageId) {
+      const { data: pkg, error: packageError } = await supabaseAdmin
+        .from('barber_packages')
+        .select('id, name, service_id, visit_count, price')
+        .eq('id', packageId)
+        .eq('barber_id', barberId)
+        .eq('is_active', true)
+        .single()
+
+      if (packageError || !pkg) {
+        return NextResponse.json(
+          { error: 'This package is no longer available' },
+          { status: 404 }
+        )
+      }
+
+      balance = {
+        kind: 'package',
+        package_id: pkg.id,
+        service_id: pkg.service_id,
+        visit_count: pkg.visit_count,
+        purchaseCents: Math.round(Number(pkg.price) * 100),
+        name: pkg.name
+      }
+    } else {
+      if (!barber.gift_cards_enabled) {
+        return NextResponse.json(
+          { error: 'This barber does not sell gift cards' },
+          { status: 400 }
+        )
+      }
+
+      const amountError = getGiftCardAmountError(amountCents)
+      if (amountError) {
+        return NextResponse.json(
+          { error: amountError },
+          { status: 400 }
+        )
+      }
+
+      balance = {
+        kind: 'gift_card',
+        package_id: null,
+        service_id: null,
+        visit_count: null,
+        purchaseCents: amountCents,
+        name: 'Gift Card'
+      }
+    }
+
+    const { data: created, error: createError } = await supabaseAdmin
+      .from('prepaid_balances')
+      .insert({
+        kind: balance.kind,
+        barber_id: barberId,
+        package_id: balance.package_id,
+        service_id: balance.service_id,
+        purchaser_id: user.id,
+        is_gift: !!isGift,
+        recipient_name: isGift ? recipientName.trim() : null,
+        recipient_email: isGift ? recipientEmail.trim().toLowerCase() : null,
+        message: isGift && message?.trim() ? message.trim().slice(0, 500) : null,
+        purchase_amount: balance.purchaseCents / 100,
+        visit_count: balance.visit_count
+      })
+      .select('id')
+      .single()
+
+    if (createError || !created) {
+      logger.error('Error creating prepaid balance', createError)
+      return NextResponse.json(
+        { error: 'Failed to start the purchase' },
+        { status: 500 }
+      )
+    }
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://bocmstyle.com'
+    const metadata = {
+      type: 'prepaid_purchase',
+      balanceId: created.id,
+      barberId,
+      purchaserId: user.id
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      payment_method_types: ['card'],
+      line_items: [
+        {
+          price_data: {
+            currency: 'usd',
+            product_data: {
+              name: balance.name,
+              description: isGift ? `Gift for ${recipientName.trim()}` : undefined
+            },
+            unit_amount: balance.purchaseCents,
+          },
+          quantity: 1,
+        }
+      ],
+      mode: 'payment',
+      success_url: `${baseUrl}/gift?purchase=success`,
+      cancel_url: `${baseUrl}/gift?purchase=cancelled`,
+      customer_email: user.email,
+      payment_intent_data: {
+        transfer_data: {
+          destination: barber.stripe_account_id,
+        },
+        application_fee_amount: calculatePrepaidApplicationFeeCents(balance.purchaseCents),
+        metadata,
+      },
+      metadata,
+    })
+
+    return NextResponse.json({
+      url: session.url,
+      sessionId: session.id
+    })
+  } catch (error) {
+    logger.error('Error in prepaid purchase route', error)
+    return NextResponse.json(
+      { error: 'Failed to start the purchase' },
+      { status: 500 }
+    )
+  }
+}
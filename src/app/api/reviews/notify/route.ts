@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { logger } from '@/shared/lib/logger'
+
+// Pushes a review the caller just saved in the browser or the app to the barber's devices.
+// The in-app notification is written by the database when the review is inserted.
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get('authorization')
+
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      return NextResponse.json(
+        { error: 'Missing authorization header' },
+        { status: 401 }
+      )
+    }
+
+    const token = authHeader.replace('Bearer ', '')
+    const { data: { user }, error: authError } = await supabase.auth.getUser(token)
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { reviewId } = await request.json() as { reviewId?: string }
+
+    if (!reviewId) {
+      return NextResponse.json(
+        { error: 'Missing required field: reviewId' },
+        { status: 400 }
+      )
+    }
+
+    const { data: review, error: reviewError } = await supabaseAdmin
+      .from('reviews')
+      .select('id, client_id, booking_id, rating, barber:barber_id(user_id), client:client_id(name)')
+      .eq('id', reviewId)
+      .single()
+
+    if (reviewError || !review) {
+      return NextResponse.json(
+        { error: 'Review not found' },
+        { status: 404 }
+      )
+    }
+
+    if (review.client_id !== user.id) {
+      return NextResponse.json(
+        { error: 'You can only send notifications for your own reviews' },
+        { status: 403 }
+      )
+    }
+
+    const barber = review.barber as unknown as { user_id: string } | null
+    const client = review.client as unknown as { name: string | null } | null
+    if (!barber?.user_id) {
+      return NextResponse.json({ success: true, deliveries: 0 })
+    }
+
+    const deliveries = await PushDispatcher.send(barber.user_id, {
+      type: 'review_received',
+      title: 'New Review',
+      body: `${client?.name || 'A client'} left you a ${review.rating}-star review`,
+      data: { reviewId: review.id },
+      bookingId: review.booking_id,
+      dedupeKey: `review:${review.id}:barber:push`
+    })
+
+    return NextResponse.json({ success: true, deliveries: deliveries.length })
+  } catch (error) {
+    logger.error('Error sending review notification', error)
+    return NextResponse.json(
+      { error: 'Failed to send review notification' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { callInviteEmail } from '@/shared/lib/email-templates'
+import { logger } from '@/shared/lib/logger'
+
+// Use the provided Calendly link
+const CALENDLY_LINK = 'https://calendly.com/primbocm/30min'
+// One invite per address in this window; repeat requests are dropped by the dedupe key
+const RESEND_WINDOW_MS = 60 * 60 * 1000
+
+// The landing page's "book a call" form: emails the Calendly link to the visitor
+export async function POST(req: NextRequest) {
+  try {
+    const { email } = await req.json()
+    if (!email || typeof email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      return NextResponse.json(
+        { error: 'Invalid email' },
+        { status: 400 }
+      )
+    }
+
+    const address = email.trim().toLowerCase()
+    const rendered = callInviteEmail({ calendlyUrl: CALENDLY_LINK })
+
+    const delivery = await NotificationDelivery.send({
+      channel: 'email',
+      to: address,
+      recipientId: null,
+      type: 'call_invite',
+      title: rendered.subject,
+      body: rendered.text,
+      html: rendered.html,
+      dedupeKey: `call_invite:${address}:${Math.floor(Date.now() / RESEND_WINDOW_MS)}`
+    })
+
+    if (delivery?.status === 'failed') {
+      return NextResponse.json(
+        { error: 'Failed to send email' },
+        { status: 502 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    logger.error('Error sending call invite email', error)
+    return NextResponse.json(
+      { error: 'Failed to send email' },
+      { status: 500 }
+    )
+  }
+}
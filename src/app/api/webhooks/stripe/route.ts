@@ -2,7 +2,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
 import { supabaseAdmin } from "@/shared/lib/supabase"
 import { headers } from "next/headers"
-import { sendBookingConfirmationSMS } from '@/shared/utils/sendSMS'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { WaitlistOfferService } from '@/shared/lib/waitlist-offer-service'
+import { OnDemandRequestService } from '@/shared/lib/ondemand-request-service'
+import { getSelectionTotals, normalizeAdditionalServiceIds } from '@/shared/lib/service-selection'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { formatCents, giftReceivedEmail } from '@/shared/lib/email-templates'
+import { PromoCodeService } from '@/shared/lib/promo-code-service'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
 import { logger } from '@/shared/lib/logger'
 
 if (!process.env.STRIPE_SECRET_KEY) {
@@ -19,6 +26,335 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
 
 const supabase = supabaseAdmin
 
+// Helper function to record the outcome of a late cancellation or no-show fee charge
+async function updatePolicyFeeStatus(paymentIntent: Stripe.PaymentIntent, status: 'succeeded' | 'failed') {
+  const bookingId = paymentIntent.metadata?.bookingId
+  if (!bookingId) {
+    throw new Error('No booking ID found in policy fee metadata')
+  }
+
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      policy_fee_status: status,
+      policy_fee_payment_intent_id: paymentIntent.id,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', bookingId)
+
+  if (error) {
+    logger.error('Error updating policy fee status', error)
+    throw error
+  }
+
+  return bookingId
+}
+
+// Helper function to settle a tip. A tip replaced by a newer attempt is left alone; the
+// payment intent may also land before the tip route has recorded it.
+async function updateTipStatus(paymentIntent: Stripe.PaymentIntent, status: 'succeeded' | 'failed') {
+  const bookingId = paymentIntent.metadata?.bookingId
+  if (!bookingId) {
+    throw new Error('No booking ID found in tip metadata')
+  }
+
+  const now = new Date().toISOString()
+  const { error } = await supabase
+    .from('bookings')
+    .update({
+      tip_status: status,
+      tip_amount: paymentIntent.amount / 100,
+      tip_payment_intent_id: paymentIntent.id,
+      ...(status === 'succeeded' ? { tipped_at: now } : {}),
+      updated_at: now,
+    })
+    .eq('id', bookingId)
+    .or(`tip_payment_intent_id.eq.${paymentIntent.id},tip_payment_intent_id.is.null`)
+
+  if (error) {
+    logger.error('Error updating tip status', error)
+    throw error
+  }
+
+  return bookingId
+}
+
+// Helper function to record a refunded tip or policy fee. A fully refunded tip no longer
+// counts toward the barber's earnings.
+async function recordSeparateChargeRefund(charge: Stripe.Charge, booking: { id: string; tip_payment_intent_id: string | null }) {
+  const isPartialRefund = charge.amount_refunded < charge.amount
+
+  if (booking.tip_payment_intent_id === charge.payment_intent && !isPartialRefund) {
+    const { error } = await supabase
+      .from('bookings')
+      .update({ tip_status: 'refunded', updated_at: new Date().toISOString() })
+      .eq('id', booking.id)
+
+    if (error) {
+      logger.error('Error updating tip status', error)
+      throw error
+    }
+  }
+
+  const { error: refundError } = await supabase.from('payments').insert({
+    payment_intent_id: charge.payment_intent,
+    amount: -charge.amount_refunded,
+    currency: charge.currency,
+    status: isPartialRefund ? 'partially_refunded' : 'refunded',
+    barber_stripe_account_id: charge.transfer_data?.destination,
+    platform_fee: 0,
+    barber_payout: -charge.amount_refunded,
+    booking_id: booking.id,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+  })
+
+  if (refundError) {
+    logger.error('Error storing refund payment record', refundError)
+  }
+}
+
+// Helper function to activate a gift card or package once it is paid. Only a pending
+// balance is activated, so a repeated event does not add its value twice.
+async function activatePrepaidBalance(paymentIntent: Stripe.PaymentIntent) {
+  const balanceId = paymentIntent.metadata?.balanceId
+  if (!balanceId) {
+    throw new Error('No balance ID found in prepaid purchase metadata')
+  }
+
+  const now = new Date().toISOString()
+  const { data: balance, error } = await supabase
+    .from('prepaid_balances')
+    .update({ status: 'active', payment_intent_id: paymentIntent.id, updated_at: now })
+    .eq('id', balanceId)
+    .eq('status', 'pending')
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    logger.error('Error activating prepaid balance', error)
+    throw error
+  }
+
+  if (!balance) {
+    logger.debug('Prepaid balance already activated', { balanceId })
+    return null
+  }
+
+  const { error: ledgerError } = await supabase.from('prepaid_ledger').insert({
+    balance_id: balance.id,
+    entry_type: 'purchase',
+    amount: balance.purchase_amount,
+    visits: balance.kind === 'package' ? balance.visit_count : null,
+  })
+
+  if (ledgerError) {
+    logger.error('Error recording prepaid purchase', ledgerError)
+    throw ledgerError
+  }
+
+  // Bought for themselves, the purchaser owns it straight away
+  if (!balance.is_gift) {
+    const { error: ownerError } = await supabase
+      .from('prepaid_balances')
+      .update({ owner_id: balance.purchaser_id, claimed_at: now })
+      .eq('id', balance.id)
+
+    if (ownerError) {
+      logger.error('Error assigning prepaid balance', ownerError)
+      throw ownerError
+    }
+  }
+
+  return balance
+}
+
+// Helper function to void a refunded gift card or package; the ledger takes what is left
+async function voidPrepaidBalance(balance: { id: string; amount_remaining: number; visits_remaining: number }) {
+  const { error: ledgerError } = await supabase.from('prepaid_ledger').insert({
+    balance_id: balance.id,
+    entry_type: 'refund',
+    amount: -balance.amount_remaining,
+    visits: balance.visits_remaining ? -balance.visits_remaining : null,
+  })
+
+  if (ledgerError) {
+    logger.error('Error recording prepaid refund', ledgerError)
+    throw ledgerError
+  }
+
+  const { error } = await supabase
+    .from('prepaid_balances')
+    .update({ status: 'void', updated_at: new Date().toISOString() })
+    .eq('id', balance.id)
+
+  if (error) {
+    logger.error('Error voiding prepaid balance', error)
+    throw error
+  }
+}
+
+// Helper function to email a gift's recipient the code and link to claim it
+async function sendGiftReceived(balance: { id: string; code: string; kind: string; barber_id: string; service_id: string | null; purchaser_id: string; recipient_name: string | null; recipient_email: string | null; message: string | null; purchase_amount: number; visit_count: number | null }) {
+  if (!balance.recipient_email) return
+
+  const [{ data: barber }, { data: purchaser }, { data: service }] = await Promise.all([
+    supabase.from('barbers').select('profile:user_id(name)').eq('id', balance.barber_id).single(),
+    supabase.from('profiles').select('name').eq('id', balance.purchaser_id).single(),
+    balance.service_id
+      ? supabase.from('services').select('name').eq('id', balance.service_id).single()
+      : Promise.resolve({ data: null })
+  ])
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://www.bocmstyle.com'
+  const barberProfile = barber?.profile as unknown as { name: string } | null
+  const email = giftReceivedEmail({
+    recipientName: balance.recipient_name,
+    purchaserName: purchaser?.name || 'Someone',
+    barberName: barberProfile?.name || 'your barber',
+    description: balance.kind === 'package'
+      ? `${balance.visit_count} visit ${service?.name || 'service'} package`
+      : `${formatCents(Math.round(Number(balance.purchase_amount) * 100))} gift card`,
+    message: balance.message,
+    claimUrl: `${appUrl}/gift/${balance.code}`,
+    code: balance.code
+  })
+
+  await NotificationDelivery.send({
+    channel: 'email',
+    to: balance.recipient_email,
+    recipientId: null,
+    type: 'gift_received',
+    title: email.subject,
+    body: email.text,
+    loggedBody: `Gift ${balance.id} sent`, // anyone with the code can claim the gift
+    html: email.html,
+    dedupeKey: `gift:${balance.id}`
+  })
+}
+
+// Helper function to book every member of a group once the group's payment succeeds.
+// If a member can no longer be booked, none are and the whole payment is refunded.
+async function confirmBookingGroup(paymentIntent: Stripe.PaymentIntent) {
+  const groupId = paymentIntent.metadata.groupId
+
+  const { data: group, error: findError } = await supabase
+    .from('booking_groups')
+    .select('id, status')
+    .eq('id', groupId)
+    .single()
+
+  if (findError || !group) {
+    logger.error('Error finding booking group', findError)
+    throw findError || new Error('Booking group not found')
+  }
+
+  // Already handled by an earlier delivery of this event
+  if (group.status !== 'pending') {
+    return
+  }
+
+  // Each member booking carries an equal share of the platform fee (dollars)
+  const groupSize = Math.max(1, Number(paymentIntent.metadata.groupSize) || 1)
+  const platformFeeCents = paymentIntent.application_fee_amount || 0
+  const platformFee = Math.round(platformFeeCents / groupSize) / 100
+  const barberPayout = Math.round((paymentIntent.amount - platformFeeCents) / groupSize) / 100
+
+  const { data: bookings, error: confirmError } = await supabase.rpc('confirm_booking_group', {
+    p_group_id: groupId,
+    p_payment_intent_id: paymentIntent.id,
+    p_platform_fee: platformFee,
+    p_barber_payout: barberPayout,
+  })
+
+  if (confirmError) {
+    logger.error('Error booking group after payment, refunding', confirmError)
+
+    await stripe.refunds.create(
+      {
+        payment_intent: paymentIntent.id,
+        reverse_transfer: true,
+        refund_application_fee: true,
+        metadata: { groupId, reason: 'group_unavailable' },
+      },
+      { idempotencyKey: `group-refund-${groupId}` }
+    )
+
+    const { error: failError } = await supabase
+      .from('booking_groups')
+      .update({ status: 'failed', payment_intent_id: paymentIntent.id, updated_at: new Date().toISOString() })
+      .eq('id', groupId)
+
+    if (failError) {
+      logger.error('Error marking booking group failed', failError)
+      throw failError
+    }
+    return
+  }
+
+  const members = (bookings || []) as { id: string }[]
+
+  if (paymentIntent.metadata.feeScheduleId && members.length > 0) {
+    const { error: scheduleError } = await supabase
+      .from('bookings')
+      .update({ fee_schedule_id: paymentIntent.metadata.feeScheduleId })
+      .in('id', members.map(member => member.id))
+
+    if (scheduleError) {
+      logger.error('Error recording fee schedule on group bookings', scheduleError)
+    }
+  }
+
+  const { error: paymentError } = await supabase.from('payments').insert(
+    members.map(member => ({
+      payment_intent_id: paymentIntent.id,
+      amount: Math.round(paymentIntent.amount / groupSize),
+      currency: paymentIntent.currency,
+      status: paymentIntent.status,
+      barber_stripe_account_id: paymentIntent.transfer_data?.destination,
+      platform_fee: Math.round(platformFeeCents / groupSize),
+      barber_payout: Math.round((paymentIntent.amount - platformFeeCents) / groupSize),
+      booking_id: member.id,
+      created_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    }))
+  )
+
+  if (paymentError) {
+    logger.error('Error storing group payment in Supabase', paymentError)
+  }
+
+  // One confirmation for the group, sent for its first appointment
+  const { data: firstBooking } = await supabase
+    .from('bookings')
+    .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+    .eq('group_id', groupId)
+    .order('date', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (firstBooking) {
+    try {
+      await BookingNotifications.sendConfirmation(firstBooking)
+    } catch (notificationError) {
+      logger.error('Failed to send group booking notifications', notificationError)
+    }
+  }
+
+  logger.debug('Group booking created after payment', { groupId, paymentIntentId: paymentIntent.id, members: members.length })
+}
+
+// Helper function to give back the promo code use and the gift card or package credit
+// held for a booking payment that will not go through
+async function releaseCheckoutHolds(metadata: Stripe.Metadata | null | undefined) {
+  if (metadata?.promoRedemptionId) {
+    await PromoCodeService.releaseReservation(metadata.promoRedemptionId)
+  }
+  if (metadata?.prepaidReservationId) {
+    await PrepaidService.releaseCredit(metadata.prepaidReservationId)
+  }
+}
+
 // Helper function to update booking status
 async function updateBookingStatus(
   bookingId: string,
@@ -248,6 +584,11 @@ export async function POST(request: Request) {
           )
         }
 
+        // Gift card and package purchases are settled on payment_intent.succeeded
+        if (session.metadata?.type === 'prepaid_purchase') {
+          break
+        }
+
         if (!session.metadata?.bookingId) {
           logger.error('No booking ID found in session metadata')
           return NextResponse.json(
@@ -263,6 +604,20 @@ export async function POST(request: Request) {
           session.payment_intent as string
         )
 
+        // Remember the customer Checkout created so later bookings reuse the saved card
+        const clientId = session.metadata.clientId
+        if (typeof session.customer === 'string' && clientId && clientId !== 'guest') {
+          const { error: customerError } = await supabase
+            .from('profiles')
+            .update({ stripe_customer_id: session.customer })
+            .eq('id', clientId)
+            .is('stripe_customer_id', null)
+
+          if (customerError) {
+            logger.error('Error saving Stripe customer', customerError)
+          }
+        }
+
         break
       }
 
@@ -278,6 +633,14 @@ export async function POST(request: Request) {
           )
         }
 
+        // An unpaid gift card or package stays pending and is never activated
+        if (session.metadata?.type === 'prepaid_purchase') {
+          break
+        }
+
+        // Give back the promo code use and the credit held for the unpaid checkout
+        await releaseCheckoutHolds(session.metadata)
+
         if (!session.metadata?.bookingId) {
           logger.error('No booking ID found in session metadata')
           return NextResponse.json(
@@ -294,6 +657,17 @@ export async function POST(request: Request) {
         break
       }
 
+      case 'payment_intent.amount_capturable_updated': {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent
+        logger.debug('Processing payment_intent.amount_capturable_updated event', { paymentIntentId: paymentIntent.id })
+
+        // The platform fee hold for an on-demand request is in place, so the barber can see it
+        if (paymentIntent.metadata?.type === 'ondemand') {
+          await OnDemandRequestService.recordRequest(paymentIntent)
+        }
+        break
+      }
+
       case 'payment_intent.succeeded': {
         const paymentIntent = event.data.object as Stripe.PaymentIntent
         logger.debug('Processing payment_intent.succeeded event', { paymentIntentId: paymentIntent.id })
@@ -306,7 +680,74 @@ export async function POST(request: Request) {
           )
         }
 
+        // Late cancellation and no-show fees belong to an existing booking
+        if (paymentIntent.metadata?.type === 'policy_fee') {
+          const bookingId = await updatePolicyFeeStatus(paymentIntent, 'succeeded')
+
+          const { error: paymentError } = await supabase.from('payments').insert({
+            payment_intent_id: paymentIntent.id,
+            amount: paymentIntent.amount,
+            currency: paymentIntent.currency,
+            status: paymentIntent.status,
+            barber_stripe_account_id: paymentIntent.transfer_data?.destination,
+            platform_fee: paymentIntent.application_fee_amount || 0,
+            barber_payout: paymentIntent.amount - (paymentIntent.application_fee_amount || 0),
+            booking_id: bookingId,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+
+          if (paymentError) {
+            logger.error('Error storing policy fee payment', paymentError)
+          }
+          break
+        }
+
+        // Tips are paid to the barber in full after a completed appointment
+        if (paymentIntent.metadata?.type === 'tip') {
+          const bookingId = await updateTipStatus(paymentIntent, 'succeeded')
+
+          const { error: paymentError } = await supabase.from('payments').insert({
+            payment_intent_id: paymentIntent.id,
+            amount: paymentIntent.amount,
+            currency: paymentIntent.currency,
+            status: paymentIntent.status,
+            barber_stripe_account_id: paymentIntent.transfer_data?.destination,
+            platform_fee: 0,
+            barber_payout: paymentIntent.amount,
+            booking_id: bookingId,
+            created_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+
+          if (paymentError) {
+            logger.error('Error storing tip payment', paymentError)
+          }
+          break
+        }
+
+        // A gift card or package goes live, and a gift's recipient gets their claim link
+        if (paymentIntent.metadata?.type === 'prepaid_purchase') {
+          const balance = await activatePrepaidBalance(paymentIntent)
+
+          if (balance?.is_gift) {
+            try {
+              await sendGiftReceived(balance)
+            } catch (notificationError) {
+              logger.error('Failed to send gift email', notificationError)
+            }
+          }
+          break
+        }
+
+        // A group payment books every member of the group together
+        if (paymentIntent.metadata?.groupId) {
+          await confirmBookingGroup(paymentIntent)
+          break
+        }
+
         // Check if a booking already exists for this payment intent
+        // (accepted on-demand requests are booked before their hold is captured)
         const { data: existingBooking, error: findError } = await supabase
           .from('bookings')
           .select('id')
@@ -318,7 +759,8 @@ export async function POST(request: Request) {
         if (!existingBooking) {
           // Create the booking using metadata
           const meta = paymentIntent.metadata || {}
-          const { barberId, serviceId, date, notes, guestName, guestEmail, guestPhone, clientId, addonIds, addonTotal, addonsPaidSeparately } = meta
+          const { barberId, serviceId, date, notes, guestName, guestEmail, guestPhone, clientId, addonIds, addonTotal, addonsPaidSeparately, paymentMode, amountPrepaid, feeScheduleId, promoCodeId, promoRedemptionId, discountCents, discountFundedBy, prepaidBalanceId, prepaidCreditCents, prepaidReservationId } = meta
+          const additionalServiceIds = normalizeAdditionalServiceIds(serviceId, (meta.additionalServiceIds || '').split(','))
           
           // Debug logging
           logger.debug('Payment intent metadata', { meta })
@@ -333,6 +775,8 @@ export async function POST(request: Request) {
           }
 
           // Convert Stripe cents to dollars for bookings table (which stores NUMERIC dollars)
+          // barber_payout is everything transferred to the barber: their share of the
+          // platform fee plus any deposit or full prepayment of the service
           const platform_fee_cents = paymentIntent.application_fee_amount || 0
           const platform_fee = platform_fee_cents / 100
           const barber_payout_cents = paymentIntent.amount - platform_fee_cents
@@ -342,14 +786,13 @@ export async function POST(request: Request) {
           // This satisfies the check_payment_amounts constraint: platform_fee + barber_payout = price
           const price = platform_fee + barber_payout
           
-          // Get service price to store historically (so it doesn't change if service price is updated later)
-          const { data: service } = await supabase
+          // Get service prices to store historically (so they don't change if service prices are updated later)
+          const { data: services } = await supabase
             .from('services')
-            .select('price')
-            .eq('id', serviceId)
-            .single()
+            .select('price, duration')
+            .in('id', [serviceId, ...additionalServiceIds])
 
-          const servicePrice = service?.price ? Number(service.price) : 0
+          const servicePrice = getSelectionTotals(services || []).price
 
           // Calculate add-on total from add-ons table using addonIds (deduplicate first)
           let addon_total = 0
@@ -372,15 +815,23 @@ export async function POST(request: Request) {
           const { data: newBooking, error: createError } = await supabase.from('bookings').insert({
             barber_id: barberId,
             service_id: serviceId,
+            additional_service_ids: additionalServiceIds,
             date,
             status: 'confirmed',
             payment_status: 'succeeded',
             payment_intent_id: paymentIntent.id,
             price,        // total amount charged (platform_fee + barber_payout) to satisfy constraint
-            service_price: servicePrice, // Store historical service price
+            service_price: servicePrice, // Store historical total of the booked services
             addon_total: 0,  // Let the trigger calculate this from booking_addons
             platform_fee, // dollars - platform's share
-            barber_payout, // dollars - barber's share from platform fee
+            barber_payout, // dollars - barber's share from platform fee and any prepayment
+            payment_mode: paymentMode || 'fee_only',
+            amount_prepaid: (Number(amountPrepaid) || 0) / 100, // dollars - paid toward the services and add-ons
+            fee_schedule_id: feeScheduleId || null, // the fee schedule the booking was charged under
+            promo_code_id: promoCodeId || null,
+            discount_amount: promoCodeId ? (Number(discountCents) || 0) / 100 : 0, // dollars - off the services or the booking fee
+            prepaid_balance_id: prepaidBalanceId || null,
+            prepaid_credit: prepaidBalanceId ? (Number(prepaidCreditCents) || 0) / 100 : 0, // dollars - covered by a gift card or package
             notes: notes || null,
             guest_name: guestName || null,
             guest_email: guestEmail || null,
@@ -406,14 +857,56 @@ export async function POST(request: Request) {
           bookingId = newBooking.id
           logger.debug('Booking created after payment for payment_intent', { paymentIntentId: paymentIntent.id })
 
-          // Send SMS notifications to both barber and client
+          // Count the promo code against its limits and for the barber's report. The use held
+          // at checkout becomes the redemption, or is recorded again if the hold was released.
+          if (promoCodeId && Number(discountCents) > 0) {
+            const { error: redemptionError } = await supabase.from('promo_code_redemptions').upsert({
+              ...(promoRedemptionId ? { id: promoRedemptionId } : {}),
+              promo_code_id: promoCodeId,
+              booking_id: newBooking.id,
+              barber_id: barberId,
+              client_id: newBooking.client_id,
+              discount_amount: Number(discountCents) / 100,
+              funded_by: discountFundedBy === 'platform' ? 'platform' : 'barber',
+              status: 'redeemed',
+              reserved_until: null,
+            })
+
+            if (redemptionError) {
+              logger.error('Error recording promo code redemption', redemptionError)
+            }
+          }
+
+          // The credit drawn at checkout goes to the booking; a cancelled booking gives it back
+          if (prepaidBalanceId && Number(prepaidCreditCents) > 0) {
+            const { data: redeemed, error: redeemError } = await supabase.rpc('redeem_prepaid_balance', {
+              p_balance_id: prepaidBalanceId,
+              p_booking_id: newBooking.id,
+              p_credit: Number(prepaidCreditCents) / 100,
+              p_reservation_id: prepaidReservationId || null,
+            })
+
+            if (redeemError) {
+              logger.error('Error redeeming prepaid balance', redeemError)
+            } else if (Math.round(Number(redeemed) * 100) < Number(prepaidCreditCents)) {
+              // The balance was spent elsewhere before this payment landed
+              logger.error('Prepaid credit shortfall', {
+                bookingId: newBooking.id,
+                prepaidBalanceId,
+                creditCents: Number(prepaidCreditCents),
+                redeemedCents: Math.round(Number(redeemed) * 100),
+              })
+            }
+          }
+
+          // Notify both barber and client
           try {
-            logger.debug('Sending SMS notifications for Stripe booking', { bookingId: newBooking.id })
-            const smsResults = await sendBookingConfirmationSMS(newBooking)
-            logger.debug('SMS notification results', { smsResults })
-          } catch (smsError) {
-            logger.error('Failed to send SMS notifications', smsError)
-            // Don't fail the booking creation if SMS fails
+            logger.debug('Sending notifications for Stripe booking', { bookingId: newBooking.id })
+            const deliveries = await BookingNotifications.sendConfirmation(newBooking)
+            logger.debug('Notification delivery results', { deliveries: deliveries.map(d => ({ channel: d.channel, status: d.status })) })
+          } catch (notificationError) {
+            logger.error('Failed to send booking notifications', notificationError)
+            // Don't fail the booking creation if notifications fail
           }
 
           // Log successful booking creation for mobile payments
@@ -479,6 +972,13 @@ export async function POST(request: Request) {
               }
             }
           }
+
+          // Sent after the add-ons are recorded so the receipt lists them
+          try {
+            await BookingNotifications.sendReceipt(newBooking)
+          } catch (receiptError) {
+            logger.error('Failed to send booking receipt', receiptError)
+          }
         } else if (findError && typeof findError === 'object' && (findError as any).code !== 'PGRST116') {
           // Only log error if it's not the 'no rows' error
           logger.error('Error finding booking', findError)
@@ -535,6 +1035,41 @@ export async function POST(request: Request) {
           )
         }
 
+        // A declined fee charge leaves the cancelled or no-show booking as it is
+        if (paymentIntent.metadata?.type === 'policy_fee') {
+          await updatePolicyFeeStatus(paymentIntent, 'failed')
+          break
+        }
+
+        // A declined tip can be retried from the booking
+        if (paymentIntent.metadata?.type === 'tip') {
+          await updateTipStatus(paymentIntent, 'failed')
+          break
+        }
+
+        // The balance stays pending; the buyer can try again from the barber's page
+        if (paymentIntent.metadata?.type === 'prepaid_purchase') {
+          logger.debug('Prepaid purchase payment failed', { balanceId: paymentIntent.metadata.balanceId })
+          break
+        }
+
+        // On-demand requests are only recorded once their hold is authorized
+        if (paymentIntent.metadata?.type === 'ondemand') {
+          logger.debug('On-demand payment hold failed', { paymentIntentId: paymentIntent.id })
+          break
+        }
+
+        // Group members are only booked once payment succeeds, and the client can retry
+        // the same payment intent, so the group stays pending
+        if (paymentIntent.metadata?.groupId) {
+          logger.debug('Group payment attempt failed', { groupId: paymentIntent.metadata.groupId })
+          break
+        }
+
+        // A declined in-app payment gives back what it held; a later retry that succeeds
+        // draws the credit again
+        await releaseCheckoutHolds(paymentIntent.metadata)
+
         // Find booking with this payment intent ID
         const { data: booking, error: findError } = await supabase
           .from('bookings')
@@ -564,6 +1099,19 @@ export async function POST(request: Request) {
           paymentIntent.id
         )
 
+        try {
+          const { data: failedBooking } = await supabase
+            .from('bookings')
+            .select('*, barber:barber_id(*), service:service_id(*)')
+            .eq('id', booking.id)
+            .single()
+          if (failedBooking) {
+            await BookingNotifications.sendPaymentFailed(failedBooking)
+          }
+        } catch (notificationError) {
+          logger.error('Failed to send payment failed notification', notificationError)
+        }
+
         // Handle retry logic if needed
         if (paymentIntent.next_action) {
           logger.debug('Payment requires additional action', { nextAction: paymentIntent.next_action })
@@ -573,6 +1121,15 @@ export async function POST(request: Request) {
         break
       }
 
+      case 'payment_intent.canceled': {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent
+        logger.debug('Processing payment_intent.canceled event', { paymentIntentId: paymentIntent.id })
+
+        // A booking payment that will never be made gives back what it held
+        await releaseCheckoutHolds(paymentIntent.metadata)
+        break
+      }
+
       case 'charge.refunded': {
         const charge = event.data.object as Stripe.Charge
         logger.debug('Processing charge.refunded event', { chargeId: charge.id })
@@ -592,12 +1149,12 @@ export async function POST(request: Request) {
           )
         }
 
-        // Find booking with this payment intent ID
-        const { data: booking, error: findError } = await supabase
+        // Find the bookings paid with this payment intent (one, or every member of a group)
+        const { data: paidBookings, error: findError } = await supabase
           .from('bookings')
-          .select('id')
+          .select('id, barber_id, date, status')
           .eq('payment_intent_id', charge.payment_intent)
-          .single()
+          .order('date', { ascending: true })
 
         if (findError) {
           logger.error('Error finding booking', findError)
@@ -607,7 +1164,46 @@ export async function POST(request: Request) {
           )
         }
 
-        if (!booking) {
+        if (!paidBookings || paidBookings.length === 0) {
+          // A group that could not be booked after payment is refunded without bookings
+          const { data: failedGroup } = await supabase
+            .from('booking_groups')
+            .select('id')
+            .eq('payment_intent_id', charge.payment_intent)
+            .eq('status', 'failed')
+            .maybeSingle()
+
+          if (failedGroup) {
+            break
+          }
+
+          // A refunded gift card or package is voided along with whatever is left on it
+          const { data: refundedBalance } = await supabase
+            .from('prepaid_balances')
+            .select('id, amount_remaining, visits_remaining')
+            .eq('payment_intent_id', charge.payment_intent)
+            .eq('status', 'active')
+            .maybeSingle()
+
+          if (refundedBalance) {
+            if (charge.amount_refunded >= charge.amount) {
+              await voidPrepaidBalance(refundedBalance)
+            }
+            break
+          }
+
+          // Tips and late cancellation or no-show fees are charged apart from the booking payment
+          const { data: chargedBooking } = await supabase
+            .from('bookings')
+            .select('id, tip_payment_intent_id')
+            .or(`tip_payment_intent_id.eq.${charge.payment_intent},policy_fee_payment_intent_id.eq.${charge.payment_intent}`)
+            .maybeSingle()
+
+          if (chargedBooking) {
+            await recordSeparateChargeRefund(charge, chargedBooking)
+            break
+          }
+
           return NextResponse.json(
             { error: 'Booking not found' },
             { status: 404 }
@@ -616,13 +1212,37 @@ export async function POST(request: Request) {
 
         const isPartialRefund = charge.amount_refunded < charge.amount
         const refundStatus = isPartialRefund ? 'partially_refunded' : 'refunded'
-        
-        await updateBookingStatus(
-          booking.id,
-          refundStatus,
-          refundStatus,
-          charge.payment_intent as string
-        )
+
+        // Refunds usually follow a cancellation, so only the payment status changes; the booking
+        // keeps its cancelled status. Partial refunds are recorded in payments below.
+        for (const booking of isPartialRefund ? [] : paidBookings) {
+          // A full refund issued outside the app (e.g. from the Stripe dashboard) cancels an
+          // upcoming booking, which frees its slot for the waitlist
+          const cancelsUpcoming = ['pending', 'confirmed'].includes(booking.status) && new Date(booking.date) > new Date()
+
+          const { error: updateError } = await supabase
+            .from('bookings')
+            .update({
+              payment_status: 'refunded',
+              ...(cancelsUpcoming ? { status: 'cancelled', cancelled_at: new Date().toISOString() } : {}),
+              updated_at: new Date().toISOString(),
+            })
+            .eq('id', booking.id)
+
+          if (updateError) {
+            logger.error('Error updating booking', updateError)
+            throw updateError
+          }
+
+          if (cancelsUpcoming) {
+            try {
+              await WaitlistOfferService.offerFreedSlot(booking.barber_id, booking.date)
+            } catch (waitlistError) {
+              logger.error('Error offering refunded slot to waitlist', waitlistError)
+              // Don't fail the webhook for this, just log the error
+            }
+          }
+        }
 
         // Create a refund payment record
         const { error: refundError } = await supabase.from('payments').insert({
@@ -630,10 +1250,10 @@ export async function POST(request: Request) {
           amount: -charge.amount_refunded, // Negative amount for refunds
           currency: charge.currency,
           status: refundStatus,
-          barber_stripe_account_id: typeof charge.transfer === 'string' ? charge.transfer : charge.transfer?.destination,
+          barber_stripe_account_id: charge.transfer_data?.destination,
           platform_fee: 0, // No platform fee on refunds
           barber_payout: -charge.amount_refunded, // Negative payout for refunds
-          booking_id: booking.id,
+          booking_id: paidBookings[0].id,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString(),
         })
@@ -643,6 +1263,22 @@ export async function POST(request: Request) {
           // Don't fail the webhook for this, just log the error
         }
 
+        // One message per refund, about the first booking of a group
+        if (!isPartialRefund) {
+          try {
+            const { data: refundedBooking } = await supabase
+              .from('bookings')
+              .select('*, barber:barber_id(*), service:service_id(*)')
+              .eq('id', paidBookings[0].id)
+              .single()
+            if (refundedBooking) {
+              await BookingNotifications.sendRefunded(refundedBooking)
+            }
+          } catch (notificationError) {
+            logger.error('Failed to send refund notification', notificationError)
+          }
+        }
+
         break
       }
     }
@@ -8,6 +8,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui
 import { Avatar, AvatarFallback, AvatarImage } from '@/shared/components/ui/avatar'
 import { Button } from '@/shared/components/ui/button'
 import { BookingForm } from '@/shared/components/booking/booking-form'
+import { ShopBookingForm } from '@/shared/components/booking/shop-booking-form'
+import { PrepaidOffers } from '@/shared/components/booking/prepaid-offers'
+import { ShopService } from '@/shared/lib/shop-service'
+import type { Shop } from '@/shared/types'
 import { Service } from '@/shared/types/service'
 import { useToast } from '@/shared/components/ui/use-toast'
 import { Badge } from '@/shared/components/ui/badge'
@@ -187,6 +191,17 @@ function BookPageContent() {
   const [activeTab, setActiveTab] = useState('cuts')
   const [reviews, setReviews] = useState<Review[]>([])
   const [loadingReviews, setLoadingReviews] = useState(false)
+  // The barber's shop, for booking whichever of its barbers is free first
+  const [shop, setShop] = useState<Shop | null>(null)
+  const [showShopBooking, setShowShopBooking] = useState(false)
+
+  // Links can open a tab directly, e.g. ?tab=reviews from a review notification
+  useEffect(() => {
+    const tab = new URLSearchParams(window.location.search).get('tab')
+    if (tab && ['cuts', 'services', 'portfolio', 'reviews'].includes(tab)) {
+      setActiveTab(tab)
+    }
+  }, [])
 
   // Share functionality
   const handleShare = async () => {
@@ -428,6 +443,10 @@ function BookPageContent() {
 
       setBarber(barberObject)
 
+      ShopService.getShopForBarber(barberData.id)
+        .then(setShop)
+        .catch(() => setShop(null))
+
       // Fetch featured reels
       await fetchFeaturedReels(barberData.id)
 
@@ -795,6 +814,14 @@ function BookPageContent() {
               <Calendar className="h-4 w-4 mr-2" />
               Book Now
             </Button>
+            <Button
+              onClick={() => router.push(`/messages?to=${barber.userId}`)}
+              variant="outline"
+              className="border-white/20 text-white hover:bg-white/10 rounded-full"
+              aria-label={`Message ${barber.name}`}
+            >
+              <MessageCircle className="h-4 w-4" />
+            </Button>
             <Button
               onClick={handleShare}
               variant="outline"
@@ -804,6 +831,19 @@ function BookPageContent() {
             </Button>
           </div>
 
+          {shop && (
+            <div className="flex justify-center -mt-3 mb-6">
+              <Button
+                onClick={() => setShowShopBooking(true)}
+                variant="ghost"
+                className="text-secondary hover:text-secondary hover:bg-white/10 rounded-full text-sm"
+              >
+                <Users className="h-4 w-4 mr-2" />
+                Any available barber at {shop.name}
+              </Button>
+            </div>
+          )}
+
           {/* Social Links */}
           {(barber.instagram || barber.twitter || barber.facebook) && (
             <div className="flex justify-center gap-4 mb-6">
@@ -959,6 +999,7 @@ function BookPageContent() {
                 <p className="text-white/60">No services available</p>
               </div>
             )}
+            <PrepaidOffers barberId={barber.id} barberName={barber.name} services={barber.services || []} />
           </TabsContent>
 
           {/* Portfolio Tab */}
@@ -1130,6 +1171,14 @@ function BookPageContent() {
         </Dialog>
       )}
 
+      {shop && (
+        <ShopBookingForm
+          isOpen={showShopBooking}
+          onClose={() => setShowShopBooking(false)}
+          shop={shop}
+        />
+      )}
+
       {showBookingForm && barber && (
         <ErrorBoundary>
           <BookingForm
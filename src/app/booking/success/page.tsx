@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import { useToast } from "@/shared/components/ui/use-toast"
 import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
@@ -8,6 +8,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/sha
 import { Button } from '@/shared/components/ui/button'
 import { supabaseAdmin } from "@/shared/lib/supabase"
 import { logger } from "@/shared/lib/logger"
+import { formatDateInZone, getAppointmentTimeLabels, AppointmentTimeLabels, DEFAULT_BARBER_TIMEZONE } from "@/shared/lib/timezone-utils"
 
 export default function BookingSuccessPage({
   searchParams,
@@ -18,6 +19,7 @@ export default function BookingSuccessPage({
   const { toast } = useToast()
   const sessionId = searchParams.session_id
   const { push: safePush } = useSafeNavigation();
+  const [appointment, setAppointment] = useState<{ date: string; times: AppointmentTimeLabels; barberName: string | null } | null>(null)
 
   useEffect(() => {
     const handleSuccess = async () => {
@@ -51,12 +53,20 @@ export default function BookingSuccessPage({
         // Check if booking was created by webhook
         const { data: existingBooking } = await supabaseAdmin
           .from('bookings')
-          .select('id, status, payment_status')
+          .select('id, status, payment_status, date, barber:barber_id(timezone, profiles:user_id(name))')
           .eq('payment_intent_id', session.payment_intent)
           .single()
 
         if (existingBooking) {
           logger.debug('Booking created by webhook', { bookingId: existingBooking.id })
+          const barber = existingBooking.barber as { timezone?: string; profiles?: { name?: string } | null } | null
+          const barberTimeZone = barber?.timezone || DEFAULT_BARBER_TIMEZONE
+          setAppointment({
+            date: formatDateInZone(existingBooking.date, barberTimeZone),
+            times: getAppointmentTimeLabels(existingBooking.date, barberTimeZone),
+            // Shown so a first-available booking tells the client who they were given
+            barberName: barber?.profiles?.name || null,
+          })
           toast({
             title: "Payment Successful!",
             description: "Your booking has been confirmed and you'll receive a confirmation shortly.",
@@ -93,6 +103,21 @@ export default function BookingSuccessPage({
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {appointment && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+              {appointment.barberName && (
+                <p className="text-sm text-muted-foreground mb-1">With {appointment.barberName}</p>
+              )}
+              <p className="font-medium">{appointment.date}</p>
+              <p className="text-sm mt-1">{appointment.times.barberTime}</p>
+              {appointment.times.localTime && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {appointment.times.localTime} your time
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="bg-green-50 border border-green-200 rounded-lg p-4">
             <p className="text-green-800">
               ✅ Your payment was successful! 
@@ -8,14 +8,18 @@ import FullCalendar from '@fullcalendar/react';
 import timeGridPlugin from '@fullcalendar/timegrid';
 import dayGridPlugin from '@fullcalendar/daygrid';
 import interactionPlugin from '@fullcalendar/interaction';
-import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, User, DollarSign, Grid, Calendar, Scissors, Mail, Phone } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, Clock, User, DollarSign, Grid, Calendar, Scissors, Mail, Phone, MessageCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/shared/lib/supabase';
 import { useAuth } from '@/shared/hooks/use-auth-zustand';
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation';
 import { logger } from '@/shared/lib/logger';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/shared/components/ui/dialog';
 import { EnhancedCalendar } from '@/shared/components/calendar/enhanced-calendar';
 import { CalendarSyncSettings } from '@/shared/components/calendar-sync-settings';
+import { TipDialog } from '@/shared/components/booking/tip-dialog';
+import { getTipBlocker, shouldPromptForTip } from '@/shared/lib/tipping';
+import { TipStatus } from '@/shared/types/booking';
 
 interface CalendarEvent {
   id: string;
@@ -37,6 +41,10 @@ interface CalendarEvent {
     guestEmail: string;
     guestPhone: string;
     isBarberView: boolean;
+    otherUserId?: string; // the client or barber to message about this booking; guests have none
+    clientId?: string;
+    completedAt?: string | null;
+    tipStatus?: TipStatus | null;
   };
 }
 
@@ -48,9 +56,11 @@ export default function BarberCalendar() {
   const [mounted, setMounted] = useState(false);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [showEventDialog, setShowEventDialog] = useState(false);
+  const [tipEvent, setTipEvent] = useState<CalendarEvent | null>(null);
   const [userRole, setUserRole] = useState<'barber' | 'client' | null>(null);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
+  const { push: safePush } = useSafeNavigation();
 
   useEffect(() => {
     setMounted(true);
@@ -149,7 +159,8 @@ export default function BarberCalendar() {
                 isGuest: !client,
                 guestEmail: booking.guest_email,
                 guestPhone: booking.guest_phone,
-                isBarberView: true
+                isBarberView: true,
+                otherUserId: booking.client_id || undefined
               }
             };
           }));
@@ -229,7 +240,11 @@ export default function BarberCalendar() {
                 isGuest: false,
                 guestEmail: booking.guest_email,
                 guestPhone: booking.guest_phone,
-                isBarberView: false
+                isBarberView: false,
+                otherUserId: booking.barbers?.user_id || undefined,
+                clientId: booking.client_id,
+                completedAt: booking.completed_at,
+                tipStatus: booking.tip_status
               }
             };
             
@@ -250,6 +265,46 @@ export default function BarberCalendar() {
     fetchBookings();
   }, [user]);
 
+  // Notification links open a booking with ?booking=<id>: jump to its date and show its details once
+  const openedBookingRef = useRef<string | null>(null);
+  useEffect(() => {
+    const bookingId = new URLSearchParams(window.location.search).get('booking');
+    if (!bookingId || openedBookingRef.current === bookingId) return;
+
+    const event = events.find(e => e.id === bookingId);
+    if (!event) return;
+
+    openedBookingRef.current = bookingId;
+    calendarRef.current?.getApi().gotoDate(event.start);
+    setSelectedEvent(event);
+    setShowEventDialog(true);
+  }, [events]);
+
+  // Ask the client to tip on their most recently completed appointment, once per visit
+  const tipPromptedRef = useRef(false);
+  useEffect(() => {
+    if (userRole !== 'client' || tipPromptedRef.current) return;
+
+    const event = [...events].reverse().find(e => shouldPromptForTip({
+      status: e.extendedProps.status,
+      client_id: e.extendedProps.clientId,
+      completed_at: e.extendedProps.completedAt,
+      tip_status: e.extendedProps.tipStatus
+    }));
+    if (!event) return;
+
+    tipPromptedRef.current = true;
+    setTipEvent(event);
+  }, [events, userRole]);
+
+  const handleTipped = (bookingId: string, tipStatus: TipStatus) => {
+    const withTip = (event: CalendarEvent) => event.id === bookingId
+      ? { ...event, extendedProps: { ...event.extendedProps, tipStatus } }
+      : event;
+    setEvents(prev => prev.map(withTip));
+    setSelectedEvent(prev => prev ? withTip(prev) : prev);
+  };
+
   const handleEventClick = (info: any) => {
     const event = info.event;
     setSelectedEvent({
@@ -721,11 +776,51 @@ export default function BarberCalendar() {
                 <span className="text-white font-bold text-lg">Total</span>
                 <span className="text-secondary font-bold text-lg">${selectedEvent.extendedProps.price?.toFixed(2)}</span>
               </div>
+              {selectedEvent.extendedProps.otherUserId && (
+                <Button
+                  onClick={() => safePush(`/messages?to=${selectedEvent.extendedProps.otherUserId}&booking=${selectedEvent.id}`)}
+                  className="w-full bg-secondary text-primary font-semibold hover:bg-secondary/90"
+                >
+                  <MessageCircle className="h-4 w-4 mr-2" />
+                  Message {selectedEvent.extendedProps.isBarberView ? selectedEvent.extendedProps.clientName : selectedEvent.extendedProps.barberName}
+                </Button>
+              )}
+              {!selectedEvent.extendedProps.isBarberView && !getTipBlocker({
+                status: selectedEvent.extendedProps.status,
+                client_id: selectedEvent.extendedProps.clientId,
+                tip_status: selectedEvent.extendedProps.tipStatus
+              }) && (
+                <Button
+                  onClick={() => {
+                    setTipEvent(selectedEvent);
+                    setShowEventDialog(false);
+                  }}
+                  variant="outline"
+                  className="w-full border-secondary text-secondary font-semibold hover:bg-secondary/10"
+                >
+                  <DollarSign className="h-4 w-4 mr-2" />
+                  Leave a tip
+                </Button>
+              )}
+              {selectedEvent.extendedProps.tipStatus === 'succeeded' && (
+                <p className="text-center text-sm text-white/60">You tipped on this appointment</p>
+              )}
             </div>
           </DialogContent>
         </Dialog>
       )}
 
+      {tipEvent && (
+        <TipDialog
+          open={!!tipEvent}
+          onOpenChange={(open) => !open && setTipEvent(null)}
+          bookingId={tipEvent.id}
+          barberName={tipEvent.extendedProps.barberName || 'your barber'}
+          serviceTotal={tipEvent.extendedProps.price}
+          onTipped={(tipStatus) => handleTipped(tipEvent.id, tipStatus)}
+        />
+      )}
+
       <style dangerouslySetInnerHTML={{ __html: customStyles }} />
     </div>
   );
@@ -0,0 +1,60 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import { format } from 'date-fns'
+import { Loader2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { Button } from '@/shared/components/ui/button'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
+import { storeCurrentPageAsRedirect } from '@/shared/lib/redirect-utils'
+import { BookingService } from '@/shared/lib/booking-service'
+import { describeArrival } from '@/shared/lib/appointment-lifecycle'
+import { Booking } from '@/shared/types/booking'
+
+// Opened by scanning the barber's check-in QR code with the phone camera
+export default function CheckInPage({ params }: { params: { code: string } }) {
+  const { user, status } = useAuth()
+  const { push: safePush } = useSafeNavigation()
+  const [booking, setBooking] = useState<Booking | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const attempted = useRef(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      // Come back here to finish checking in after signing in
+      storeCurrentPageAsRedirect()
+      safePush('/login')
+      return
+    }
+    if (!user || attempted.current) return
+
+    attempted.current = true
+    BookingService.checkInWithCode(params.code)
+      .then(setBooking)
+      .catch(checkInError => setError(checkInError instanceof Error ? checkInError.message : 'Failed to check in'))
+  }, [user, status, params.code])
+
+  return (
+    <div className="container max-w-2xl py-10">
+      <Card>
+        <CardHeader>
+          <CardTitle>{booking ? "You're Checked In" : error ? "Couldn't Check You In" : 'Checking You In'}</CardTitle>
+          <CardDescription>
+            {booking
+              ? `Your ${format(new Date(booking.date), 'h:mm a')} appointment - ${describeArrival(booking)?.toLowerCase()}.`
+              : error || 'One moment...'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {booking ? (
+            <p>Your barber has been told you&apos;re here. Take a seat and they&apos;ll be with you shortly.</p>
+          ) : !error ? (
+            <Loader2 className="h-6 w-6 animate-spin" />
+          ) : null}
+          <Button onClick={() => safePush('/calendar')}>View My Appointments</Button>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { Gift } from 'lucide-react'
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { GlassyCard } from '@/shared/components/ui/glassy-card'
+import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
+import { Button } from '@/shared/components/ui/button'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { describePrepaidBalance } from '@/shared/lib/prepaid-balances'
+import { logger } from '@/shared/lib/logger'
+import { PrepaidBalanceLookup } from '@/shared/types/prepaid'
+
+// The link in a gift email; anyone signed in can claim an unclaimed gift with its code
+export default function ClaimGiftPage() {
+  const { code } = useParams() as { code: string }
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const [gift, setGift] = useState<PrepaidBalanceLookup | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [claiming, setClaiming] = useState(false)
+
+  useEffect(() => {
+    PrepaidService.lookup(code)
+      .then(setGift)
+      .catch(error => logger.error('Error looking up gift code', error))
+      .finally(() => setIsLoading(false))
+  }, [code])
+
+  const handleClaim = async () => {
+    setClaiming(true)
+    try {
+      await PrepaidService.claim(code)
+      toast({ title: 'Gift claimed!', description: `Use it when you book with ${gift?.barber_name}.` })
+      router.push(gift?.barber_username ? `/book/${gift.barber_username}` : '/gift')
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to claim the gift',
+        variant: 'destructive',
+      })
+    } finally {
+      setClaiming(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+      <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl max-w-md w-full">
+        {isLoading ? (
+          <CardContent className="py-10">
+            <LoadingSpinner size="md" text="Loading your gift..." />
+          </CardContent>
+        ) : !gift || gift.status === 'void' ? (
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-bebas text-white tracking-wide">Gift not found</CardTitle>
+            <CardDescription className="text-white/80">Check the code in your email and try again.</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="text-center space-y-3">
+              <Gift className="h-12 w-12 text-secondary mx-auto" />
+              <CardTitle className="text-2xl font-bebas text-white tracking-wide">
+                {gift.kind === 'package' ? `${gift.visit_count} ${gift.service_name || 'visit'} package` : `$${Number(gift.purchase_amount).toFixed(2)} gift card`}
+              </CardTitle>
+              <CardDescription className="text-white/80">
+                With {gift.barber_name} • {describePrepaidBalance(gift)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {gift.message && (
+                <p className="text-white/80 italic text-center">"{gift.message}"</p>
+              )}
+              {gift.is_claimed ? (
+                <p className="text-sm text-white/60 text-center">This gift has already been claimed.</p>
+              ) : gift.status === 'pending' ? (
+                <p className="text-sm text-white/60 text-center">This gift is still being processed. Check back in a few minutes.</p>
+              ) : user ? (
+                <Button
+                  onClick={handleClaim}
+                  disabled={claiming}
+                  className="w-full bg-secondary text-primary font-semibold hover:bg-secondary/90"
+                >
+                  {claiming ? 'Claiming...' : 'Claim gift'}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => router.push('/login')}
+                  className="w-full bg-secondary text-primary font-semibold hover:bg-secondary/90"
+                >
+                  Sign in to claim
+                </Button>
+              )}
+            </CardContent>
+          </>
+        )}
+      </GlassyCard>
+    </div>
+  )
+}
@@ -0,0 +1,157 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { useRouter, useSearchParams } from 'next/navigation'
+import { Gift, Package, Copy } from 'lucide-react'
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { GlassyCard } from '@/shared/components/ui/glassy-card'
+import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Badge } from '@/shared/components/ui/badge'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { describePrepaidBalance } from '@/shared/lib/prepaid-balances'
+import { logger } from '@/shared/lib/logger'
+import { PrepaidBalance } from '@/shared/types/prepaid'
+
+// The client's gift cards and packages, gifts they sent, and claiming a gift by its code
+export default function GiftWalletPage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const [balances, setBalances] = useState<PrepaidBalance[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [code, setCode] = useState('')
+
+  const loadWallet = async (userId: string) => {
+    try {
+      setBalances(await PrepaidService.getWallet(userId))
+    } catch (error) {
+      logger.error('Error loading gift cards and packages', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (user) loadWallet(user.id)
+  }, [user])
+
+  useEffect(() => {
+    if (searchParams.get('purchase') === 'success') {
+      toast({
+        title: 'Payment successful!',
+        description: 'Your purchase shows up here once the payment is confirmed.',
+      })
+    }
+  }, [searchParams])
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4">
+        <Button onClick={() => router.push('/login')} className="bg-secondary text-primary font-semibold hover:bg-secondary/90">
+          Sign in to see your gift cards
+        </Button>
+      </div>
+    )
+  }
+
+  const owned = balances.filter(balance => balance.owner_id === user.id)
+  // Gifts sent to someone else; the link stays here until it is claimed
+  const sent = balances.filter(balance => balance.is_gift && balance.purchaser_id === user.id && balance.owner_id !== user.id)
+
+  const copyLink = async (balance: PrepaidBalance) => {
+    await navigator.clipboard.writeText(`${window.location.origin}/gift/${balance.code}`)
+    toast({ title: 'Link copied', description: `Send it to ${balance.recipient_name || 'your friend'} to claim.` })
+  }
+
+  return (
+    <div className="min-h-screen bg-background px-4 py-10">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bebas text-white tracking-wide">Claim a Gift</CardTitle>
+            <CardDescription className="text-white/80">Enter the code from your gift email</CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="A1B2C3D4E5F6"
+              maxLength={12}
+              className="bg-white/10 border-white/20 text-white uppercase"
+            />
+            <Button
+              onClick={() => router.push(`/gift/${code.trim()}`)}
+              disabled={code.trim().length < 12}
+              className="bg-secondary text-primary font-semibold hover:bg-secondary/90"
+            >
+              Continue
+            </Button>
+          </CardContent>
+        </GlassyCard>
+
+        <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+          <CardHeader>
+            <CardTitle className="text-2xl font-bebas text-white tracking-wide">Your Gift Cards & Packages</CardTitle>
+            <CardDescription className="text-white/80">Used automatically when you choose them at checkout</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {isLoading ? (
+              <LoadingSpinner size="md" text="Loading..." />
+            ) : owned.length === 0 ? (
+              <p className="text-sm text-white/60 text-center py-4">Nothing here yet.</p>
+            ) : owned.map(balance => (
+              <GlassyCard key={balance.id} variant="hover" className="p-4 flex items-center gap-4">
+                {balance.kind === 'package'
+                  ? <Package className="h-5 w-5 text-secondary" />
+                  : <Gift className="h-5 w-5 text-secondary" />}
+                <div className="flex-1">
+                  <div className="font-semibold text-white">{balance.kind === 'package' ? 'Package' : 'Gift Card'}</div>
+                  <div className="text-sm text-white/70">{describePrepaidBalance(balance)}</div>
+                </div>
+                {balance.status === 'pending' && (
+                  <Badge className="bg-white/10 text-white/60 border-white/20">Processing</Badge>
+                )}
+              </GlassyCard>
+            ))}
+          </CardContent>
+        </GlassyCard>
+
+        {sent.length > 0 && (
+          <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bebas text-white tracking-wide">Gifts You Sent</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {sent.map(balance => (
+                <GlassyCard key={balance.id} variant="hover" className="p-4 flex items-center gap-4">
+                  <Gift className="h-5 w-5 text-secondary" />
+                  <div className="flex-1">
+                    <div className="font-semibold text-white">For {balance.recipient_name}</div>
+                    <div className="text-sm text-white/70">
+                      ${Number(balance.purchase_amount).toFixed(2)} {balance.kind === 'package' ? 'package' : 'gift card'}
+                    </div>
+                  </div>
+                  {balance.owner_id ? (
+                    <Badge className="bg-white/10 text-white/60 border-white/20">Claimed</Badge>
+                  ) : balance.status === 'active' ? (
+                    <Button variant="outline" size="sm" onClick={() => copyLink(balance)} className="border-white/20 text-white">
+                      <Copy className="h-4 w-4 mr-2" />
+                      Copy link
+                    </Button>
+                  ) : (
+                    <Badge className="bg-white/10 text-white/60 border-white/20">Processing</Badge>
+                  )}
+                </GlassyCard>
+              ))}
+            </CardContent>
+          </GlassyCard>
+        )}
+      </div>
+    </div>
+  )
+}
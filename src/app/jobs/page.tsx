@@ -0,0 +1,354 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Briefcase, Loader2, LocateFixed, Plus, Search } from 'lucide-react'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Badge } from '@/shared/components/ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { JobCard } from '@/shared/components/jobs/job-card'
+import { ApplyDialog } from '@/shared/components/jobs/apply-dialog'
+import { JobPostForm } from '@/shared/components/jobs/job-post-form'
+import { APPLICATION_STATUS_STYLES, JobApplicants } from '@/shared/components/jobs/job-applicants'
+import {
+  APPLICATION_STATUS_LABELS,
+  JOB_TYPE_LABELS,
+  JobBoardService,
+  MyJobApplication,
+  filterJobsNear
+} from '@/shared/lib/job-board-service'
+import type { JobPost, JobStatus, JobType } from '@/shared/types'
+
+type JobsTab = 'browse' | 'applications' | 'posts'
+
+const RADIUS_OPTIONS = [10, 25, 50, 100]
+
+export default function JobsPage() {
+  const { user, status } = useAuth()
+  const { push: safePush } = useSafeNavigation()
+  const { toast } = useToast()
+  const [tab, setTab] = useState<JobsTab>('browse')
+  const [jobs, setJobs] = useState<JobPost[]>([])
+  const [applications, setApplications] = useState<MyJobApplication[]>([])
+  const [postedJobs, setPostedJobs] = useState<JobPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [jobType, setJobType] = useState<JobType | 'all'>('all')
+  const [origin, setOrigin] = useState<{ lat: number; lon: number } | null>(null)
+  const [radius, setRadius] = useState(25)
+  const [applyingTo, setApplyingTo] = useState<JobPost | null>(null)
+  const [showPostForm, setShowPostForm] = useState(false)
+  const [openJobId, setOpenJobId] = useState<string | null>(null)
+  const [highlightId, setHighlightId] = useState<string | null>(null)
+  const linkedRef = useRef(false)
+
+  const isBarber = user?.role === 'barber'
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      safePush('/login')
+    }
+  }, [status])
+
+  const loadJobs = async () => {
+    try {
+      setJobs(await JobBoardService.getOpenJobs({ search, jobType }))
+    } catch {
+      toast({ title: 'Could not load jobs', variant: 'destructive' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadMine = async () => {
+    if (!user || !isBarber) return
+    try {
+      const [mine, posted] = await Promise.all([
+        JobBoardService.getMyApplications(user.id),
+        JobBoardService.getPostedJobs(user.id)
+      ])
+      setApplications(mine)
+      setPostedJobs(posted)
+    } catch {
+      toast({ title: 'Could not load your jobs', variant: 'destructive' })
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return
+    const timeout = setTimeout(loadJobs, 300)
+    return () => clearTimeout(timeout)
+  }, [user?.id, search, jobType])
+
+  useEffect(() => {
+    loadMine()
+  }, [user?.id])
+
+  // Notifications link to ?application=<id>: applicants see their application, posters its job's applicants
+  useEffect(() => {
+    if (!user || linkedRef.current) return
+    const applicationId = new URLSearchParams(window.location.search).get('application')
+    if (!applicationId) return
+    linkedRef.current = true
+
+    JobBoardService.getApplication(applicationId).then(application => {
+      if (!application) return
+      setHighlightId(application.id)
+      if (application.applicant_id === user.id) {
+        setTab('applications')
+      } else {
+        setTab('posts')
+        setOpenJobId(application.job_id)
+      }
+    })
+  }, [user?.id])
+
+  const locateMe = () => {
+    if (!navigator.geolocation) {
+      toast({ title: 'Location is not available in this browser', variant: 'destructive' })
+      return
+    }
+    navigator.geolocation.getCurrentPosition(
+      position => setOrigin({ lat: position.coords.latitude, lon: position.coords.longitude }),
+      () => toast({ title: 'Could not get your location', description: 'Allow location access to find jobs near you.', variant: 'destructive' })
+    )
+  }
+
+  const handleJobStatus = async (job: JobPost, jobStatus: JobStatus) => {
+    try {
+      await JobBoardService.setJobStatus(job.id, jobStatus)
+      setPostedJobs(prev => prev.map(posted => (posted.id === job.id ? { ...posted, status: jobStatus } : posted)))
+      loadJobs()
+    } catch {
+      toast({ title: 'Could not update the job', variant: 'destructive' })
+    }
+  }
+
+  const handleWithdraw = async (application: MyJobApplication) => {
+    try {
+      await JobBoardService.withdraw(application.id)
+      setApplications(prev => prev.filter(item => item.id !== application.id))
+    } catch {
+      toast({ title: 'Could not withdraw the application', variant: 'destructive' })
+    }
+  }
+
+  if (status === 'loading' || (user && loading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const appliedJobIds = new Set(applications.map(application => application.job_id))
+  const visibleJobs = origin ? filterJobsNear(jobs, origin, radius) : jobs
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bebas text-white tracking-wide">Jobs</h1>
+            <p className="text-white/60 text-sm">Chair rentals and open positions at shops near you</p>
+          </div>
+          {isBarber && (
+            <Button onClick={() => setShowPostForm(true)} className="bg-saffron text-primary hover:bg-saffron/90">
+              <Plus className="h-4 w-4 mr-2" />
+              Post a job
+            </Button>
+          )}
+        </div>
+
+        <Tabs value={tab} onValueChange={value => setTab(value as JobsTab)}>
+          <TabsList className="bg-white/10">
+            <TabsTrigger value="browse">Browse</TabsTrigger>
+            {isBarber && <TabsTrigger value="applications">My applications</TabsTrigger>}
+            {isBarber && <TabsTrigger value="posts">My posts</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="browse" className="space-y-4 mt-4">
+            <div className="flex flex-col md:flex-row gap-3">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/40" />
+                <Input
+                  value={search}
+                  onChange={event => setSearch(event.target.value)}
+                  placeholder="Search by title, shop or city"
+                  className="pl-9 bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                />
+              </div>
+              <Select value={jobType} onValueChange={value => setJobType(value as JobType | 'all')}>
+                <SelectTrigger className="md:w-44 bg-white/10 border-white/20 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All jobs</SelectItem>
+                  {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map(type => (
+                    <SelectItem key={type} value={type}>{JOB_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {origin ? (
+                <div className="flex gap-2">
+                  <Select value={String(radius)} onValueChange={value => setRadius(Number(value))}>
+                    <SelectTrigger className="w-32 bg-white/10 border-white/20 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RADIUS_OPTIONS.map(option => (
+                        <SelectItem key={option} value={String(option)}>Within {option} mi</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" onClick={() => setOrigin(null)} className="text-white/70 hover:text-white hover:bg-white/10">
+                    Anywhere
+                  </Button>
+                </div>
+              ) : (
+                <Button variant="outline" onClick={locateMe} className="border-white/20 text-white hover:bg-white/10">
+                  <LocateFixed className="h-4 w-4 mr-2" />
+                  Near me
+                </Button>
+              )}
+            </div>
+
+            {visibleJobs.length === 0 ? (
+              <div className="text-center text-white/60 py-16">
+                <Briefcase className="h-10 w-10 mx-auto mb-3 text-white/40" />
+                {origin ? `No open jobs within ${radius} miles` : 'No open jobs right now'}
+              </div>
+            ) : (
+              visibleJobs.map(job => (
+                <JobCard key={job.id} job={job}>
+                  <div className="flex justify-end">
+                    {job.poster_id === user.id ? (
+                      <Badge variant="outline" className="border-white/20 text-white/60">Your post</Badge>
+                    ) : appliedJobIds.has(job.id) ? (
+                      <Badge variant="outline" className="border-saffron/40 text-saffron">Applied</Badge>
+                    ) : isBarber ? (
+                      <Button size="sm" onClick={() => setApplyingTo(job)} className="bg-saffron text-primary hover:bg-saffron/90">
+                        View and apply
+                      </Button>
+                    ) : (
+                      <span className="text-xs text-white/50">Barbers can apply with their BOCM profile</span>
+                    )}
+                  </div>
+                </JobCard>
+              ))
+            )}
+          </TabsContent>
+
+          {isBarber && (
+            <TabsContent value="applications" className="space-y-4 mt-4">
+              {applications.length === 0 ? (
+                <div className="text-center text-white/60 py-16">You haven&apos;t applied to any jobs yet</div>
+              ) : (
+                applications.map(application => (
+                  <JobCard key={application.id} job={application.job}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge
+                          variant="outline"
+                          className={`${APPLICATION_STATUS_STYLES[application.status]} ${application.id === highlightId ? 'ring-1 ring-saffron' : ''}`}
+                        >
+                          {APPLICATION_STATUS_LABELS[application.status]}
+                        </Badge>
+                        <span className="text-xs text-white/50">
+                          Applied {new Date(application.created_at).toLocaleDateString()}
+                        </span>
+                      </div>
+                      {application.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleWithdraw(application)}
+                          className="text-white/70 hover:text-white hover:bg-white/10"
+                        >
+                          Withdraw
+                        </Button>
+                      )}
+                    </div>
+                  </JobCard>
+                ))
+              )}
+            </TabsContent>
+          )}
+
+          {isBarber && (
+            <TabsContent value="posts" className="space-y-4 mt-4">
+              {postedJobs.length === 0 ? (
+                <div className="text-center text-white/60 py-16">
+                  Renting out a chair or hiring? Post a job and barbers near you can apply.
+                </div>
+              ) : (
+                postedJobs.map(job => (
+                  <JobCard key={job.id} job={job}>
+                    <div className="flex flex-wrap justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setOpenJobId(openJobId === job.id ? null : job.id)}
+                        className="text-white/70 hover:text-white hover:bg-white/10"
+                      >
+                        {openJobId === job.id ? 'Hide applicants' : 'View applicants'}
+                      </Button>
+                      {job.status === 'open' ? (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => handleJobStatus(job, 'filled')} className="text-white/70 hover:text-white hover:bg-white/10">
+                            Mark filled
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => handleJobStatus(job, 'closed')} className="text-red-300 hover:text-red-200 hover:bg-red-500/10">
+                            Close
+                          </Button>
+                        </>
+                      ) : (
+                        <Button size="sm" variant="ghost" onClick={() => handleJobStatus(job, 'open')} className="text-saffron hover:bg-saffron/10">
+                          Reopen
+                        </Button>
+                      )}
+                    </div>
+                    {openJobId === job.id && <JobApplicants jobId={job.id} highlightId={highlightId} />}
+                  </JobCard>
+                ))
+              )}
+            </TabsContent>
+          )}
+        </Tabs>
+      </div>
+
+      <ApplyDialog
+        job={applyingTo}
+        userId={user.id}
+        onClose={() => setApplyingTo(null)}
+        onApplied={() => {
+          setApplyingTo(null)
+          loadMine()
+        }}
+      />
+
+      {isBarber && (
+        <JobPostForm
+          open={showPostForm}
+          userId={user.id}
+          defaults={{ businessName: user.name, businessImage: user.avatar_url, location: user.location }}
+          onClose={() => setShowPostForm(false)}
+          onPosted={() => {
+            setShowPostForm(false)
+            loadJobs()
+            loadMine()
+            setTab('posts')
+          }}
+        />
+      )}
+    </div>
+  )
+}
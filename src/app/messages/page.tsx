@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { ArrowLeft, Loader2, MessageCircle } from 'lucide-react'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
+import { useConversations } from '@/shared/hooks/use-conversations'
+import { MessagingService } from '@/shared/lib/messaging-service'
+import { ConversationThread } from '@/shared/components/messaging/conversation-thread'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { Button } from '@/shared/components/ui/button'
+import { cn } from '@/shared/lib/utils'
+
+export default function MessagesPage() {
+  const { user, status } = useAuth()
+  const { push: safePush } = useSafeNavigation()
+  const { toast } = useToast()
+  const { conversations, loading, refresh } = useConversations()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const startedRef = useRef(false)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      safePush('/login')
+    }
+  }, [status])
+
+  // Links open a conversation with ?conversation=<id>, or start one with ?to=<user id>[&booking=<id>]
+  useEffect(() => {
+    if (!user || startedRef.current) return
+    startedRef.current = true
+
+    const params = new URLSearchParams(window.location.search)
+    const conversationId = params.get('conversation')
+    const otherUserId = params.get('to')
+    if (conversationId) {
+      setSelectedId(conversationId)
+    } else if (otherUserId) {
+      MessagingService.startConversation(otherUserId, params.get('booking'))
+        .then(async id => {
+          await refresh()
+          selectConversation(id)
+        })
+        .catch(error => {
+          toast({
+            title: 'Could not start conversation',
+            description: error instanceof Error ? error.message : 'Please try again',
+            variant: 'destructive'
+          })
+        })
+    }
+  }, [user])
+
+  const selectConversation = (id: string | null) => {
+    setSelectedId(id)
+    window.history.replaceState(null, '', id ? `/messages?conversation=${id}` : '/messages')
+  }
+
+  if (status === 'loading' || (user && loading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const selected = conversations.find(conversation => conversation.id === selectedId) || null
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bebas text-white tracking-wide">Messages</h1>
+          <p className="text-white/60 text-sm">Talk to your barber or your clients directly</p>
+        </div>
+
+        <div className="grid md:grid-cols-[320px_1fr] gap-4 h-[70vh]">
+          <div className={cn('bg-white/5 border border-white/10 rounded-2xl overflow-y-auto', selected && 'hidden md:block')}>
+            {conversations.length === 0 ? (
+              <div className="p-12 text-center text-white/60">
+                <MessageCircle className="h-10 w-10 mx-auto mb-3 text-white/40" />
+                <p>No messages yet</p>
+              </div>
+            ) : (
+              conversations.map(conversation => (
+                <button
+                  key={conversation.id}
+                  onClick={() => selectConversation(conversation.id)}
+                  className={cn(
+                    'w-full text-left p-4 border-b border-white/10 flex items-center gap-3 transition-colors',
+                    conversation.id === selectedId ? 'bg-saffron/10' : 'hover:bg-white/10'
+                  )}
+                >
+                  {conversation.other_user.avatar_url ? (
+                    <img src={conversation.other_user.avatar_url} alt="" className="h-10 w-10 rounded-full object-cover" />
+                  ) : (
+                    <div className="h-10 w-10 rounded-full bg-white/10 flex items-center justify-center text-white font-semibold">
+                      {conversation.other_user.name.charAt(0).toUpperCase()}
+                    </div>
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className={cn('font-medium text-sm truncate', conversation.unread_count > 0 ? 'text-saffron' : 'text-white')}>
+                        {conversation.other_user.name}
+                      </span>
+                      {conversation.last_message_at && (
+                        <span className="text-xs text-white/40 flex-shrink-0">
+                          {new Date(conversation.last_message_at).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-white/60 truncate">
+                        {conversation.last_message_sender_id === user.id && 'You: '}
+                        {conversation.last_message_text || 'No messages yet'}
+                      </p>
+                      {conversation.unread_count > 0 && (
+                        <span className="bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1.5 flex items-center justify-center">
+                          {conversation.unread_count > 99 ? '99+' : conversation.unread_count}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
+              ))
+            )}
+          </div>
+
+          <div className={cn('bg-white/5 border border-white/10 rounded-2xl overflow-hidden', !selected && 'hidden md:block')}>
+            {selected ? (
+              <div className="flex flex-col h-full">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => selectConversation(null)}
+                  className="md:hidden self-start m-2 text-white/70 hover:text-white hover:bg-white/10"
+                >
+                  <ArrowLeft className="h-4 w-4 mr-2" />
+                  All messages
+                </Button>
+                <div className="flex-1 min-h-0">
+                  <ConversationThread conversation={selected} userId={user.id} />
+                </div>
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-white/50 text-sm">
+                Select a conversation
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
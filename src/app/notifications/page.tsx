@@ -0,0 +1,148 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Bell, CheckCheck, ChevronRight, Loader2, MessageCircle } from 'lucide-react'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
+import { useNotificationInbox } from '@/shared/hooks/use-notification-inbox'
+import { useConversations } from '@/shared/hooks/use-conversations'
+import { getNotificationHref } from '@/shared/lib/notification-links'
+import { Notification } from '@/shared/lib/notification-service'
+import { Button } from '@/shared/components/ui/button'
+import { cn } from '@/shared/lib/utils'
+
+type InboxFilter = 'all' | 'unread'
+
+export default function NotificationsPage() {
+  const { user, status } = useAuth()
+  const { push: safePush } = useSafeNavigation()
+  const { notifications, unreadCount, loading, markAsRead, markAllAsRead } = useNotificationInbox(100)
+  const { unreadCount: unreadMessages } = useConversations()
+  const [filter, setFilter] = useState<InboxFilter>('all')
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      safePush('/login')
+    }
+  }, [status])
+
+  const handleOpen = async (notification: Notification) => {
+    await markAsRead(notification.id)
+    const href = getNotificationHref(notification, user?.username)
+    if (href) {
+      safePush(href)
+    }
+  }
+
+  if (status === 'loading' || (user && loading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const visible = filter === 'unread' ? notifications.filter(n => !n.read) : notifications
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bebas text-white tracking-wide">Notifications</h1>
+            <p className="text-white/60 text-sm">
+              {unreadCount > 0 ? `${unreadCount} unread` : 'You\'re all caught up'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => safePush('/messages')}
+              className="text-white/80 hover:text-white hover:bg-white/10"
+            >
+              <MessageCircle className="h-4 w-4 mr-2" />
+              Messages
+              {unreadMessages > 0 && (
+                <span className="ml-2 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1.5 flex items-center justify-center">
+                  {unreadMessages > 99 ? '99+' : unreadMessages}
+                </span>
+              )}
+            </Button>
+            {unreadCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={markAllAsRead}
+                className="text-saffron hover:text-saffron/80 hover:bg-saffron/10"
+              >
+                <CheckCheck className="h-4 w-4 mr-2" />
+                Mark all as read
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          {(['all', 'unread'] as InboxFilter[]).map(option => (
+            <Button
+              key={option}
+              variant="ghost"
+              size="sm"
+              onClick={() => setFilter(option)}
+              className={cn(
+                'rounded-full border',
+                filter === option
+                  ? 'bg-saffron/10 border-saffron/30 text-saffron'
+                  : 'border-white/10 text-white/70 hover:bg-white/10'
+              )}
+            >
+              {option === 'all' ? 'All' : `Unread${unreadCount > 0 ? ` (${unreadCount})` : ''}`}
+            </Button>
+          ))}
+        </div>
+
+        {visible.length === 0 ? (
+          <div className="p-12 text-center text-white/60 bg-white/5 border border-white/10 rounded-2xl">
+            <Bell className="h-10 w-10 mx-auto mb-3 text-white/40" />
+            <p>{filter === 'unread' ? 'No unread notifications' : 'No notifications yet'}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {visible.map(notification => {
+              const href = getNotificationHref(notification, user.username)
+              return (
+                <button
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className={cn(
+                    'w-full text-left p-4 rounded-2xl border transition-all duration-300 flex items-center gap-4',
+                    !notification.read
+                      ? 'bg-saffron/10 border-saffron/20 hover:bg-saffron/15'
+                      : 'bg-white/5 border-white/10 hover:bg-white/10'
+                  )}
+                >
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="flex items-center gap-2">
+                      {!notification.read && <span className="h-2 w-2 bg-red-500 rounded-full flex-shrink-0" />}
+                      <span className={cn('font-medium text-sm', !notification.read ? 'text-saffron' : 'text-white')}>
+                        {notification.title}
+                      </span>
+                    </div>
+                    <p className="text-sm text-white/70 leading-relaxed">{notification.message}</p>
+                    <p className="text-xs text-white/50">{new Date(notification.created_at).toLocaleString()}</p>
+                  </div>
+                  {href && <ChevronRight className="h-5 w-5 text-white/40 flex-shrink-0" />}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,197 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams } from 'next/navigation'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { Clock, Loader2, MapPin, Phone, Store, Users } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '@/shared/components/ui/avatar'
+import { Badge } from '@/shared/components/ui/badge'
+import { Button } from '@/shared/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { Input } from '@/shared/components/ui/input'
+import { ShopBookingForm } from '@/shared/components/booking/shop-booking-form'
+import { SHOP_ROLE_LABELS, ShopService, ShopSlot } from '@/shared/lib/shop-service'
+import { logger } from '@/shared/lib/logger'
+import type { Shop, ShopMember } from '@/shared/types'
+
+// Slots are shown for a standard cut; the booking page fits the chosen services
+const SLOT_DURATION_MINUTES = 30
+
+export default function ShopPage() {
+  const { slug } = useParams() as { slug: string }
+  const [shop, setShop] = useState<Shop | null>(null)
+  const [barbers, setBarbers] = useState<ShopMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [slots, setSlots] = useState<ShopSlot[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [showShopBooking, setShowShopBooking] = useState(false)
+
+  useEffect(() => {
+    const loadShop = async () => {
+      try {
+        const found = await ShopService.getShopBySlug(slug)
+        setShop(found)
+        if (found) {
+          const members = await ShopService.getMembers(found.id)
+          setBarbers(members.filter(member => member.status === 'active' && member.barber_id))
+        }
+      } catch (error) {
+        logger.error('Error loading shop page', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadShop()
+  }, [slug])
+
+  useEffect(() => {
+    if (barbers.length === 0) return
+    setLoadingSlots(true)
+    ShopService.getCombinedAvailability(barbers.map(member => member.barber_id as string), date, SLOT_DURATION_MINUTES)
+      .then(setSlots)
+      .catch(() => setSlots([]))
+      .finally(() => setLoadingSlots(false))
+  }, [barbers, date])
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  if (!shop) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center text-white/60">
+        <Store className="h-10 w-10 mb-3 text-white/40" />
+        This shop could not be found
+      </div>
+    )
+  }
+
+  const barberById = new Map(barbers.map(member => [member.barber_id as string, member]))
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-start gap-4">
+          <Avatar className="h-20 w-20 border-2 border-secondary/40">
+            <AvatarImage src={shop.image_url || undefined} alt={shop.name} />
+            <AvatarFallback className="bg-secondary/20 text-secondary text-2xl font-bold">
+              {shop.name.charAt(0).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bebas text-white tracking-wide">{shop.name}</h1>
+            {shop.description && <p className="text-white/70 text-sm mt-1">{shop.description}</p>}
+            <div className="flex flex-wrap gap-4 mt-2 text-white/60 text-sm">
+              {shop.location && (
+                <span className="flex items-center gap-1"><MapPin className="h-4 w-4" />{shop.location}</span>
+              )}
+              {shop.phone && (
+                <a href={`tel:${shop.phone}`} className="flex items-center gap-1 hover:text-white">
+                  <Phone className="h-4 w-4" />{shop.phone}
+                </a>
+              )}
+            </div>
+          </div>
+          {barbers.length > 0 && (
+            <Button onClick={() => setShowShopBooking(true)} className="bg-saffron text-primary hover:bg-saffron/90">
+              <Users className="h-4 w-4 mr-2" />
+              Any available barber
+            </Button>
+          )}
+        </div>
+
+        <Card className="bg-white/5 border-white/10">
+          <CardHeader>
+            <CardTitle className="text-white">Barbers</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-3 sm:grid-cols-2">
+            {barbers.length === 0 && <p className="text-white/60 text-sm">No barbers have joined this shop yet.</p>}
+            {barbers.map(member => (
+              <div key={member.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+                <Avatar className="h-12 w-12">
+                  <AvatarImage src={member.profile?.avatar_url || undefined} alt={member.profile?.name} />
+                  <AvatarFallback className="bg-secondary/20 text-secondary">
+                    {(member.profile?.name || 'B').charAt(0).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <div className="flex-1 min-w-0">
+                  <p className="text-white font-semibold truncate">{member.profile?.name || 'Barber'}</p>
+                  {member.role !== 'barber' && (
+                    <Badge variant="secondary" className="text-xs">{SHOP_ROLE_LABELS[member.role]}</Badge>
+                  )}
+                </div>
+                {member.profile?.username && (
+                  <Button href={`/book/${member.profile.username}`} size="sm" className="bg-saffron text-primary hover:bg-saffron/90">
+                    Book
+                  </Button>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        {barbers.length > 0 && (
+          <Card className="bg-white/5 border-white/10">
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <CardTitle className="text-white flex items-center gap-2">
+                <Clock className="h-5 w-5 text-secondary" />
+                Availability
+              </CardTitle>
+              <Input
+                type="date"
+                value={date}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={event => event.target.value && setDate(event.target.value)}
+                className="w-44 bg-white/10 border-white/20 text-white"
+              />
+            </CardHeader>
+            <CardContent>
+              {loadingSlots ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-secondary" />
+                </div>
+              ) : slots.length === 0 ? (
+                <p className="text-white/60 text-sm text-center py-8">No open times on this day</p>
+              ) : (
+                <div className="space-y-2">
+                  {slots.map(slot => (
+                    <div key={slot.slot_start} className="flex items-center gap-3 p-2 rounded-lg bg-white/5">
+                      <span className="w-20 text-white font-medium text-sm">{format(new Date(slot.slot_start), 'h:mm a')}</span>
+                      <div className="flex flex-wrap gap-2">
+                        {slot.barberIds.map(barberId => {
+                          const member = barberById.get(barberId)
+                          if (!member) return null
+                          return member.profile?.username ? (
+                            <Link
+                              key={barberId}
+                              href={`/book/${member.profile.username}`}
+                              className="px-2 py-1 rounded-full text-xs bg-secondary/20 text-secondary hover:bg-secondary/30"
+                            >
+                              {member.profile.name}
+                            </Link>
+                          ) : (
+                            <span key={barberId} className="px-2 py-1 rounded-full text-xs bg-white/10 text-white/70">
+                              {member.profile?.name || 'Barber'}
+                            </span>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <ShopBookingForm isOpen={showShopBooking} onClose={() => setShowShopBooking(false)} shop={shop} />
+    </div>
+  )
+}
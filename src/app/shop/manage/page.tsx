@@ -0,0 +1,220 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Check, ExternalLink, Loader2, Store, X } from 'lucide-react'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { Button } from '@/shared/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { EnhancedCalendar } from '@/shared/components/calendar/enhanced-calendar'
+import { ShopForm } from '@/shared/components/shop/shop-form'
+import { ShopMembers } from '@/shared/components/shop/shop-members'
+import { ShopEarnings } from '@/shared/components/shop/shop-earnings'
+import { SHOP_ROLE_LABELS, ShopMembership, ShopService, canManageShop } from '@/shared/lib/shop-service'
+
+export default function ManageShopPage() {
+  const { user, status } = useAuth()
+  const { push: safePush } = useSafeNavigation()
+  const { toast } = useToast()
+  const [memberships, setMemberships] = useState<ShopMembership[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      safePush('/login')
+    }
+  }, [status])
+
+  const loadMemberships = async () => {
+    if (!user) return
+    try {
+      const found = await ShopService.getMemberships(user.id)
+      setMemberships(found)
+      setSelectedId(prev => prev ?? found.find(membership => membership.status === 'active')?.id ?? null)
+    } catch {
+      toast({ title: 'Could not load your shops', variant: 'destructive' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadMemberships()
+  }, [user?.id])
+
+  const handleAccept = async (membership: ShopMembership) => {
+    try {
+      await ShopService.acceptInvite(membership.id)
+      toast({ title: `You joined ${membership.shop.name}` })
+      setSelectedId(membership.id)
+      loadMemberships()
+    } catch (error) {
+      toast({
+        title: 'Could not accept the invitation',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  // Declining an invitation and leaving a shop both drop the membership
+  const handleLeave = async (membership: ShopMembership) => {
+    if (membership.status === 'active' && !confirm(`Leave ${membership.shop.name}?`)) return
+    try {
+      await ShopService.removeMember(membership.id)
+      setMemberships(prev => prev.filter(item => item.id !== membership.id))
+      if (selectedId === membership.id) setSelectedId(null)
+    } catch {
+      toast({ title: 'Could not update your membership', variant: 'destructive' })
+    }
+  }
+
+  if (status === 'loading' || (user && loading)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="h-12 w-12 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  if (!user) {
+    return null
+  }
+
+  const invitations = memberships.filter(membership => membership.status === 'invited')
+  const activeShops = memberships.filter(membership => membership.status === 'active')
+  const current = activeShops.find(membership => membership.id === selectedId) || activeShops[0]
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bebas text-white tracking-wide">Shop</h1>
+            <p className="text-white/60 text-sm">Your team, their appointments and the shop&apos;s earnings</p>
+          </div>
+          {activeShops.length > 1 && current && (
+            <Select value={current.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-52 bg-white/10 border-white/20 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {activeShops.map(membership => (
+                  <SelectItem key={membership.id} value={membership.id}>{membership.shop.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+
+        {invitations.map(invitation => (
+          <Card key={invitation.id} className="bg-secondary/10 border-secondary/30">
+            <CardContent className="flex items-center justify-between gap-4 p-4">
+              <p className="text-white text-sm">
+                <span className="font-semibold">{invitation.shop.name}</span> invited you to join as a {SHOP_ROLE_LABELS[invitation.role].toLowerCase()}
+              </p>
+              <div className="flex gap-2">
+                <Button size="sm" variant="ghost" onClick={() => handleLeave(invitation)} className="text-white/70 hover:text-white hover:bg-white/10">
+                  <X className="h-4 w-4 mr-1" />
+                  Decline
+                </Button>
+                <Button size="sm" onClick={() => handleAccept(invitation)} className="bg-saffron text-primary hover:bg-saffron/90">
+                  <Check className="h-4 w-4 mr-1" />
+                  Accept
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {!current ? (
+          user.role === 'barber' ? (
+            <Card className="bg-white/5 border-white/10">
+              <CardHeader>
+                <CardTitle className="text-white flex items-center gap-2">
+                  <Store className="h-5 w-5 text-secondary" />
+                  Set up your shop
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-white/60 text-sm mb-4">
+                  Bring your barbers together on one shop page and calendar. Each barber keeps their own services,
+                  schedule and Stripe payouts.
+                </p>
+                <ShopForm userId={user.id} onSaved={() => loadMemberships()} />
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="text-center text-white/60 py-16">
+              <Store className="h-10 w-10 mx-auto mb-3 text-white/40" />
+              You are not part of a shop
+            </div>
+          )
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <h2 className="text-xl text-white font-semibold">{current.shop.name}</h2>
+                <p className="text-white/50 text-sm">You are the {SHOP_ROLE_LABELS[current.role].toLowerCase()}</p>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" href={`/shop/${current.shop.slug}`} className="border-white/20 text-white hover:bg-white/10">
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  Shop page
+                </Button>
+                {current.role !== 'owner' && (
+                  <Button variant="ghost" onClick={() => handleLeave(current)} className="text-red-400 hover:text-red-300 hover:bg-white/10">
+                    Leave
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {canManageShop(current.role) ? (
+              <Tabs defaultValue="team" key={current.id}>
+                <TabsList className="bg-white/10">
+                  <TabsTrigger value="team">Team</TabsTrigger>
+                  <TabsTrigger value="calendar">Calendar</TabsTrigger>
+                  {current.role === 'owner' && <TabsTrigger value="earnings">Earnings</TabsTrigger>}
+                  <TabsTrigger value="details">Details</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="team" className="mt-4">
+                  <ShopMembers shopId={current.shop.id} userId={user.id} role={current.role} />
+                </TabsContent>
+
+                <TabsContent value="calendar" className="mt-4">
+                  <EnhancedCalendar shopId={current.shop.id} />
+                </TabsContent>
+
+                {current.role === 'owner' && (
+                  <TabsContent value="earnings" className="mt-4">
+                    <ShopEarnings shopId={current.shop.id} />
+                  </TabsContent>
+                )}
+
+                <TabsContent value="details" className="mt-4">
+                  <ShopForm
+                    userId={user.id}
+                    shop={current.shop}
+                    onSaved={shop => setMemberships(prev => prev.map(item => (item.shop.id === shop.id ? { ...item, shop } : item)))}
+                  />
+                </TabsContent>
+              </Tabs>
+            ) : (
+              <p className="text-white/60 text-sm">
+                Your bookings, schedule and payouts stay on your own <Link href="/calendar" className="text-secondary hover:underline">calendar</Link> and
+                Stripe account. The shop owner and managers can see your appointments on the shop calendar.
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
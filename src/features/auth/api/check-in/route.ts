@@ -1,27 +0,0 @@
-import { NextResponse } from "next/server"
-import { getServerSession } from "next-auth"
-import { authOptions } from "@/features/auth/lib/auth"
-import { logger } from "@/shared/lib/logger"
-
-export async function POST(request: Request) {
-  const session = await getServerSession(authOptions)
-
-  if (!session) {
-    return new NextResponse("Unauthorized", { status: 401 })
-  }
-
-  try {
-    const { barberId, clientId, appointmentId } = await request.json()
-
-    // Add your check-in logic here
-    // This could involve updating the appointment status, sending notifications, etc.
-
-    return NextResponse.json({ success: true })
-  } catch (error) {
-    logger.error("Error in check-in route", error)
-    return NextResponse.json(
-      { error: "Failed to process check-in" },
-      { status: 500 }
-    )
-  }
-} 
\ No newline at end of file
@@ -24,6 +24,7 @@ import { supabase } from "@/shared/lib/supabase"
 import type { Booking } from "@/shared/types/booking"
 import { useToast } from '@/shared/components/ui/use-toast'
 import { logger } from '@/shared/lib/logger'
+import { BookingService } from '@/shared/lib/booking-service'
 
 export default function BookingsPage() {
   const { user } = useAuth()
@@ -112,12 +113,7 @@ export default function BookingsPage() {
     if (!cancelBookingId) return
 
     try {
-      const { error } = await supabase
-        .from('bookings')
-        .update({ status: 'cancelled' })
-        .eq('id', cancelBookingId)
-
-      if (error) throw error
+      const result = await BookingService.cancelBooking(cancelBookingId)
 
       setBookings(bookings.map(booking => 
         booking.id === cancelBookingId 
@@ -125,10 +121,23 @@ export default function BookingsPage() {
           : booking
       ))
       setCancelBookingId(null)
+      toast({
+        title: "Booking cancelled",
+        description: result.refunded
+          ? "Your booking fee will be refunded."
+          : result.fee?.status === 'succeeded'
+          ? `A late cancellation fee of $${result.fee.amount.toFixed(2)} was charged.`
+          : "Your booking has been cancelled.",
+      })
     } catch (error) {
       logger.error('Error cancelling booking', error)
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel booking. Please try again.",
+        variant: "destructive",
+      })
     }
-  }, [cancelBookingId, bookings])
+  }, [cancelBookingId, bookings, toast])
 
   const handleCancelClick = useCallback((bookingId: string) => {
     setCancelBookingId(bookingId)
@@ -2,7 +2,9 @@
 
 import React from "react"
 
+import { Users } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { describeGroup, groupCalendarEvents } from "@/shared/lib/booking-group"
 import type { CalendarEvent } from "@/shared/types/calendar"
 
 interface CalendarDayViewProps {
@@ -23,16 +25,29 @@ export function CalendarDayView({ date, events, onEventClick }: CalendarDayViewP
     )
   }
 
+  const startsInHour = (start: Date, hour: number) => {
+    const eventDate = new Date(start)
+    return (
+      eventDate.getDate() === date.getDate() &&
+      eventDate.getMonth() === date.getMonth() &&
+      eventDate.getFullYear() === date.getFullYear() &&
+      eventDate.getHours() === hour
+    )
+  }
+
+  // Each person in a group booking is their own event; they are drawn as one linked block
+  const { singles, groups } = groupCalendarEvents(events)
+
   const getEventsForHour = (hour: number) => {
-    return events.filter((event) => {
-      const eventDate = new Date(event.start)
-      return (
-        eventDate.getDate() === date.getDate() &&
-        eventDate.getMonth() === date.getMonth() &&
-        eventDate.getFullYear() === date.getFullYear() &&
-        eventDate.getHours() === hour
-      )
-    })
+    return singles.filter((event) => startsInHour(event.start, hour))
+  }
+
+  const getGroupsForHour = (hour: number) => {
+    return groups.filter((block) => startsInHour(block.start, hour))
+  }
+
+  const formatTime = (time: Date) => {
+    return new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
   }
 
   const getEventColor = (status: string) => {
@@ -112,6 +127,51 @@ export function CalendarDayView({ date, events, onEventClick }: CalendarDayViewP
                   </div>
                 )
               })}
+
+              {getGroupsForHour(hour).map((block) => {
+                const durationMinutes = (new Date(block.end).getTime() - new Date(block.start).getTime()) / (1000 * 60)
+                const topPercentage = (new Date(block.start).getMinutes() / 60) * 100
+
+                // Groups often run past the hour, so the block overlaps the rows below it
+                return (
+                  <div
+                    key={block.group.id}
+                    className="absolute left-0 right-0 z-[5] mx-2 rounded border-2 border-dashed border-barber-500 bg-background/95 p-1 overflow-hidden"
+                    style={{
+                      top: `${topPercentage}%`,
+                      height: `${(durationMinutes / 60) * 100}%`,
+                    }}
+                  >
+                    <div className="flex items-center gap-1 px-2 py-1 text-xs font-medium">
+                      <Users className="h-3 w-3" />
+                      <span>{describeGroup(block.group)}</span>
+                      <span className="ml-auto opacity-70">
+                        {formatTime(block.start)} - {formatTime(block.end)}
+                      </span>
+                    </div>
+                    <div className="space-y-1">
+                      {block.events.map((event) => (
+                        <div
+                          key={event.id}
+                          className={cn(
+                            "px-3 py-1 rounded text-sm cursor-pointer border-l-4 border-white/60",
+                            getEventColor(event.status),
+                          )}
+                          onClick={() => onEventClick(event)}
+                        >
+                          <div className="flex justify-between gap-2">
+                            <span className="font-medium truncate">{event.group?.memberName || event.title}</span>
+                            <span className="text-xs whitespace-nowrap">
+                              {formatTime(event.start)} - {formatTime(event.end)}
+                            </span>
+                          </div>
+                          {event.service && <div className="text-xs opacity-90">{event.service.name}</div>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
             </div>
           </React.Fragment>
         ))}
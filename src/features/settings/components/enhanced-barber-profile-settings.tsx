@@ -32,7 +32,6 @@ import {
   Sparkles,
   Save,
   Info,
-  Phone,
   Check,
   X
 } from 'lucide-react'
@@ -40,8 +39,8 @@ import {
 import { BARBER_SPECIALTIES } from '@/shared/constants/specialties'
 import { SpecialtyAutocomplete } from '@/shared/components/ui/specialty-autocomplete'
 import { geocodeAddress, getAddressSuggestionsNominatim } from '@/shared/lib/geocode'
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/shared/components/ui/tooltip';
 import { logger } from '@/shared/lib/logger'
+import { BARBER_TIMEZONES, DEFAULT_BARBER_TIMEZONE } from '@/shared/lib/timezone-utils'
 
 const barberProfileSchema = z.object({
   // Basic Info
@@ -51,7 +50,6 @@ const barberProfileSchema = z.object({
   bio: z.string().max(500, 'Bio must be less than 500 characters'),
   location: z.string().min(2, 'Location is required'),
   phone: z.string().min(10, 'Please enter a valid phone number'),
-  carrier: z.string().min(2, 'Carrier is required'),
   sms_notifications: z.boolean().default(false),
   
   // Professional Info
@@ -59,6 +57,7 @@ const barberProfileSchema = z.object({
   priceRange: z.enum(['Budget ($15-$30)', 'Mid-range ($30-$60)', 'Premium ($60+)'], {
     required_error: 'Please select a price range'
   }),
+  timezone: z.string().min(1, 'Please select your timezone'),
   
   // Social Media
   instagram: z.string().optional().or(z.literal('')),
@@ -78,18 +77,6 @@ const PRICE_RANGES = [
   { value: 'Premium ($60+)', label: 'Premium ($60+)', description: 'Premium ($60+) - High-end services and expertise' }
 ]
 
-const CARRIER_OPTIONS = [
-  { value: 'verizon', label: 'Verizon' },
-  { value: 'att', label: 'AT&T' },
-  { value: 'tmobile', label: 'T-Mobile' },
-  { value: 'sprint', label: 'Sprint' },
-  { value: 'boost', label: 'Boost Mobile' },
-  { value: 'uscellular', label: 'US Cellular' },
-  { value: 'cricket', label: 'Cricket' },
-  { value: 'metro', label: 'MetroPCS' },
-  { value: 'googlefi', label: 'Google Fi' },
-];
-
 interface EnhancedBarberProfileSettingsProps {
   onSave?: () => void;
   showPreview?: boolean;
@@ -139,9 +126,9 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
       bio: '',
       location: '',
       phone: '',
-      carrier: '',
       specialties: [],
       priceRange: 'Mid-range ($30-$60)',
+      timezone: DEFAULT_BARBER_TIMEZONE,
       instagram: '',
       twitter: '',
       tiktok: '',
@@ -290,9 +277,9 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
         bio: barber.bio || profile.bio || '',
         location: profile.location || '',
         phone: profile.phone || '',
-        carrier: profile.carrier || '',
         specialties: barber.specialties || [],
         priceRange: barber.price_range || 'Mid-range ($30-$60)',
+        timezone: barber.timezone || DEFAULT_BARBER_TIMEZONE,
         instagram: barber.instagram || '',
         twitter: barber.twitter || '',
         tiktok: barber.tiktok || '',
@@ -354,7 +341,6 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
         .from('profiles')
         .update({
           sms_notifications: data.sms_notifications,
-          carrier: data.carrier,
           phone: data.phone,
           is_public: data.isPublic,
           location: formattedLocation,
@@ -373,6 +359,7 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
           bio: data.bio,
           specialties: data.specialties,
           price_range: data.priceRange,
+          timezone: data.timezone,
           instagram: extractHandle(data.instagram || ''),
           twitter: extractHandle(data.twitter || ''),
           tiktok: extractHandle(data.tiktok || ''),
@@ -391,16 +378,12 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
       })
 
       // After successful save, send test SMS if enabled
-      if (data.sms_notifications && data.phone && data.carrier) {
+      if (data.sms_notifications && data.phone) {
         try {
-          const res = await fetch('/api/bookings/send-sms', {
+          const { data: { session } } = await supabase.auth.getSession();
+          const res = await fetch('/api/notifications/test-sms', {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              phoneNumber: data.phone,
-              carrier: data.carrier,
-              message: 'Thank you for enabling SMS notifications! You will now receive important updates by text.'
-            })
+            headers: { 'Authorization': `Bearer ${session?.access_token}` }
           });
           if (res.ok) {
             toast({
@@ -411,7 +394,7 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
             const err = await res.json();
             toast({
               title: 'SMS failed',
-              description: err.error || 'Failed to send test SMS. Please check your carrier and phone number.',
+              description: err.error || 'Failed to send test SMS. Please check your phone number.',
               variant: 'destructive',
             });
           }
@@ -621,42 +604,6 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
                   />
                 </div>
 
-                <FormField
-                  control={form.control}
-                  name="carrier"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel className="flex items-center gap-2">
-                        Carrier *
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <span>We need your carrier to send you free SMS reminders. If you’re unsure, check your phone bill or carrier app.</span>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </FormLabel>
-                      <Select value={field.value} onValueChange={field.onChange}>
-                        <SelectTrigger className={`bg-white/10 border border-white/20 text-white placeholder:text-white/40 focus:border-secondary rounded-xl flex items-center gap-2 ${form.formState.errors.carrier ? 'border-red-400' : ''}`}>
-                          <Phone className="h-4 w-4 text-secondary mr-2" />
-                          <SelectValue placeholder="Select your carrier…" />
-                        </SelectTrigger>
-                        <SelectContent className="bg-darkpurple border-white/20 text-white">
-                          {CARRIER_OPTIONS.map((carrier) => (
-                            <SelectItem key={carrier.value} value={carrier.value} className="flex items-center justify-between">
-                              <span>{carrier.label}</span>
-                              {field.value === carrier.value && <Check className="h-4 w-4 text-secondary ml-2" />}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
                 <FormField
                   control={form.control}
                   name="sms_notifications"
@@ -742,6 +689,34 @@ export function EnhancedBarberProfileSettings({ onSave, showPreview = true, show
                     </FormItem>
                   )}
                 />
+
+                <FormField
+                  control={form.control}
+                  name="timezone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel className="text-white font-semibold">Timezone *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="bg-white/10 border-white/20 text-white focus:border-secondary rounded-xl">
+                            <SelectValue placeholder="Select your timezone" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent className="bg-black/90 border border-white/10 backdrop-blur-xl rounded-2xl text-white">
+                          {BARBER_TIMEZONES.map((zone) => (
+                            <SelectItem key={zone.value} value={zone.value}>
+                              {zone.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Your hours and time slots are in this timezone. Clients elsewhere also see their own local time.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               </div>
 
               <Separator className="bg-white/20" />
@@ -8,7 +8,7 @@ import { Label } from '@/shared/components/ui/label'
 import { Button } from '@/shared/components/ui/button'
 import { Textarea } from '@/shared/components/ui/textarea'
 import { useToast } from '@/shared/components/ui/use-toast'
-import { Loader2, Upload, CheckCircle, AlertCircle, User, Mail, Phone, MapPin, Building2, Instagram, Twitter, Facebook, Globe, Save, Camera, Sparkles, Info, Check } from 'lucide-react'
+import { Loader2, Upload, CheckCircle, AlertCircle, User, Mail, Phone, MapPin, Building2, Instagram, Twitter, Facebook, Globe, Save, Camera, Sparkles, Check } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
 import { Alert, AlertDescription } from '@/shared/components/ui/alert'
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
@@ -18,8 +18,6 @@ import { Switch } from '@/shared/components/ui/switch'
 import { SpecialtyAutocomplete } from '@/shared/components/ui/specialty-autocomplete'
 import { Badge } from '@/shared/components/ui/badge'
 import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
-import { Select, SelectTrigger, SelectContent, SelectItem, SelectValue } from '@/shared/components/ui/select';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/shared/components/ui/tooltip';
 import { logger } from '@/shared/lib/logger'
 
 interface ProfileFormData {
@@ -39,7 +37,6 @@ interface ProfileFormData {
     tiktok: string
     facebook: string
   }
-  carrier: string
   sms_notifications: boolean
 }
 
@@ -74,18 +71,6 @@ async function withTimeout(promise: Promise<any>, ms = 10000) {
   ])
 }
 
-const CARRIER_OPTIONS = [
-  { value: 'verizon', label: 'Verizon' },
-  { value: 'att', label: 'AT&T' },
-  { value: 'tmobile', label: 'T-Mobile' },
-  { value: 'sprint', label: 'Sprint' },
-  { value: 'boost', label: 'Boost Mobile' },
-  { value: 'uscellular', label: 'US Cellular' },
-  { value: 'cricket', label: 'Cricket' },
-  { value: 'metro', label: 'MetroPCS' },
-  { value: 'googlefi', label: 'Google Fi' },
-];
-
 export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
   const [isLoading, setIsLoading] = useState(false)
   const [isBarber, setIsBarber] = useState(false)
@@ -164,7 +149,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
     if (data.phone && !/^[\+]?[1-9][\d]{0,15}$/.test(data.phone.replace(/\s/g, ''))) {
       errors.phone = 'Please enter a valid phone number'
     }
-    if (!data.carrier?.trim()) errors.carrier = 'Carrier is required';
     if (isBarber && !data.businessName?.trim()) {
       errors.businessName = 'Business name is required for barbers'
     }
@@ -210,8 +194,7 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
           const parsedLocation = parseLocation(profile.location || '');
           setAddressFields(parsedLocation);
           
-          // Get carrier and phone from localStorage for autofill
-          const storedCarrier = typeof window !== 'undefined' ? localStorage.getItem('sms_carrier') : null;
+          // Get phone from localStorage for autofill
           const storedPhone = typeof window !== 'undefined' ? localStorage.getItem('sms_phone') : null;
           
           reset({
@@ -231,7 +214,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
               tiktok: barber.tiktok || '',
               facebook: barber.facebook || ''
             },
-            carrier: profile.carrier || storedCarrier || '',
             sms_notifications: profile.sms_notifications || false,
           })
         }
@@ -241,8 +223,7 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
         const parsedLocation = parseLocation(profile.location || '');
         setAddressFields(parsedLocation);
         
-                  // Get carrier and phone from localStorage for autofill
-          const storedCarrier = typeof window !== 'undefined' ? localStorage.getItem('sms_carrier') : null;
+                  // Get phone from localStorage for autofill
           const storedPhone = typeof window !== 'undefined' ? localStorage.getItem('sms_phone') : null;
           
           reset({
@@ -262,7 +243,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
             tiktok: '',
             facebook: ''
           },
-          carrier: profile.carrier || storedCarrier || '',
           sms_notifications: profile.sms_notifications || false,
         })
       }
@@ -398,7 +378,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
             location: combineAddressFields(addressFields), // Combine address fields
             description: data.description,
             is_public: data.isPublic,
-            carrier: data.carrier,
             sms_notifications: data.sms_notifications,
           })
           .eq('id', user?.id)
@@ -610,41 +589,6 @@ export function ProfileSettings({ onUpdate }: ProfileSettingsProps) {
                 {/* SMS Notifications Section */}
                 <div className="space-y-4">
                   <h4 className="text-white font-semibold text-sm uppercase tracking-wide">SMS Notifications</h4>
-                  <div className="space-y-2">
-                    <Label htmlFor="carrier" className="text-white font-medium flex items-center gap-2">
-                      <Phone className="h-4 w-4 text-secondary" />
-                      Carrier *
-                      <TooltipProvider>
-                        <Tooltip>
-                          <TooltipTrigger asChild>
-                            <Info className="h-4 w-4 text-secondary cursor-pointer" />
-                          </TooltipTrigger>
-                          <TooltipContent>
-                            <span>We need your carrier to send you free SMS reminders. If you’re unsure, check your phone bill or carrier app.</span>
-                          </TooltipContent>
-                        </Tooltip>
-                      </TooltipProvider>
-                    </Label>
-                    <Select
-                      value={watch('carrier')}
-                      onValueChange={(value) => setValue('carrier', value)}
-                    >
-                      <SelectTrigger className={`h-12 px-4 bg-white/10 border border-white/20 text-white placeholder:text-white/40 focus:border-secondary focus:ring-2 focus:ring-secondary/40 rounded-xl shadow-sm flex items-center gap-2 ${errors.carrier ? 'border-red-400' : ''}`}>
-                        <SelectValue placeholder="Select your carrier…" />
-                      </SelectTrigger>
-                      <SelectContent className="bg-white/10 border border-white/20 shadow-xl rounded-xl text-white">
-                        {CARRIER_OPTIONS.map((carrier) => (
-                          <SelectItem key={carrier.value} value={carrier.value} className="flex items-center justify-between px-4 py-2 hover:bg-secondary/10 rounded-lg transition-colors">
-                            <span>{carrier.label}</span>
-                            {watch('carrier') === carrier.value && <Check className="h-4 w-4 text-secondary ml-2" />}
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
-                    {errors.carrier && (
-                      <p className="text-red-400 text-sm">Carrier is required</p>
-                    )}
-                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="address" className="text-white font-medium flex items-center gap-2">
                       <MapPin className="h-4 w-4 text-secondary" />
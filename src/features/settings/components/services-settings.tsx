@@ -7,11 +7,14 @@ import { Button } from '@/shared/components/ui/button'
 import { Input } from '@/shared/components/ui/input'
 import { Label } from '@/shared/components/ui/label'
 import { Textarea } from '@/shared/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
 import { Alert, AlertDescription } from '@/shared/components/ui/alert'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
-import { Loader2, Plus, Edit, Trash2, Scissors, AlertCircle, CheckCircle, Sparkles, Clock, DollarSign, Package } from 'lucide-react'
+import { Loader2, Plus, Edit, Trash2, Scissors, AlertCircle, CheckCircle, Sparkles, Clock, DollarSign, Package, CreditCard } from 'lucide-react'
 import { Badge } from '@/shared/components/ui/badge'
 import { logger } from '@/shared/lib/logger'
+import { SERVICE_PAYMENT_MODE_LABELS, describeServicePrepayment } from '@/shared/lib/fee-calculator'
+import type { DepositType, ServicePaymentMode } from '@/shared/types'
 
 interface Service {
   id?: string
@@ -20,6 +23,9 @@ interface Service {
   price: number
   description?: string
   barber_id: string
+  payment_mode?: ServicePaymentMode
+  deposit_type?: DepositType | null
+  deposit_amount?: number | null
 }
 
 interface ServiceFormData {
@@ -27,8 +33,13 @@ interface ServiceFormData {
   price: number
   duration: number
   description: string
+  payment_mode: ServicePaymentMode
+  deposit_type: DepositType
+  deposit_amount: number
 }
 
+const DEFAULT_PAYMENT_TERMS = { payment_mode: 'fee_only' as ServicePaymentMode, deposit_type: 'fixed' as DepositType }
+
 interface ServicesSettingsProps {
   onUpdate?: () => void
 }
@@ -41,7 +52,11 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
   const [validationErrors, setValidationErrors] = useState<{[key: string]: string}>({})
   const { toast } = useToast()
   const { user } = useAuth()
-  const { register, handleSubmit, reset, formState: { errors }, setValue } = useForm<ServiceFormData>()
+  const { register, handleSubmit, reset, formState: { errors }, setValue, watch } = useForm<ServiceFormData>({
+    defaultValues: DEFAULT_PAYMENT_TERMS
+  })
+  const paymentMode = watch('payment_mode')
+  const depositType = watch('deposit_type')
 
   // Load barber ID and services
   useEffect(() => {
@@ -102,6 +117,13 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
     if (!data.name?.trim()) errors.name = 'Service name is required'
     if (!data.duration || data.duration < 1) errors.duration = 'Duration must be at least 1 minute'
     if (!data.price || data.price < 0) errors.price = 'Price must be at least $0'
+    if (data.payment_mode === 'deposit') {
+      if (!data.deposit_amount || data.deposit_amount <= 0) {
+        errors.deposit_amount = 'Deposit must be more than 0'
+      } else if (data.deposit_type === 'percentage' && data.deposit_amount > 100) {
+        errors.deposit_amount = 'A percentage deposit can be at most 100%'
+      }
+    }
     
     setValidationErrors(errors)
     return Object.keys(errors).length === 0
@@ -128,6 +150,13 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
       return
     }
 
+    // Deposit settings are only kept while the service takes a deposit
+    const paymentTerms = {
+      payment_mode: data.payment_mode,
+      deposit_type: data.payment_mode === 'deposit' ? data.deposit_type : null,
+      deposit_amount: data.payment_mode === 'deposit' ? data.deposit_amount : null,
+    }
+
     try {
       setIsLoading(true)
       if (editingService) {
@@ -139,6 +168,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
             price: data.price,
             duration: data.duration,
             description: data.description,
+            ...paymentTerms,
           })
           .eq('id', editingService.id)
 
@@ -165,6 +195,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
             price: data.price,
             duration: data.duration,
             description: data.description,
+            ...paymentTerms,
           })
 
         if (insertError) {
@@ -183,7 +214,7 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
       }
       
       await loadServices(barberId)
-      reset()
+      reset(DEFAULT_PAYMENT_TERMS)
       setEditingService(null)
       
       // Call onUpdate to refresh settings data
@@ -238,11 +269,14 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
     setValue('price', service.price)
     setValue('duration', service.duration)
     setValue('description', service.description || '')
+    setValue('payment_mode', service.payment_mode || 'fee_only')
+    setValue('deposit_type', service.deposit_type || 'fixed')
+    if (service.deposit_amount) setValue('deposit_amount', service.deposit_amount)
   }
 
   const cancelEdit = () => {
     setEditingService(null)
-    reset()
+    reset(DEFAULT_PAYMENT_TERMS)
     setValidationErrors({})
   }
 
@@ -412,6 +446,68 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
                 />
               </div>
             </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                <Label className="text-white font-semibold text-lg flex items-center gap-2">
+                  <CreditCard className="h-4 w-4 text-secondary" />
+                  Payment When Booking
+                </Label>
+                <Select value={paymentMode} onValueChange={value => setValue('payment_mode', value as ServicePaymentMode)}>
+                  <SelectTrigger className="bg-white/10 border border-white/20 text-white rounded-xl h-12 text-lg">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(SERVICE_PAYMENT_MODE_LABELS) as ServicePaymentMode[]).map(mode => (
+                      <SelectItem key={mode} value={mode}>{SERVICE_PAYMENT_MODE_LABELS[mode]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-white/50 text-sm">
+                  {paymentMode === 'full'
+                    ? 'Clients pay the full price and add-ons online; it is paid out to you with your booking fee share'
+                    : paymentMode === 'deposit'
+                      ? 'Clients pay a deposit online and the rest at the appointment'
+                      : 'Clients pay only the booking fee online and pay you at the appointment'}
+                </p>
+              </div>
+
+              {paymentMode === 'deposit' && (
+                <div className="space-y-3">
+                  <Label htmlFor="deposit_amount" className="text-white font-semibold text-lg flex items-center gap-2">
+                    <DollarSign className="h-4 w-4 text-secondary" />
+                    Deposit *
+                  </Label>
+                  <div className="flex gap-3">
+                    <Select value={depositType} onValueChange={value => setValue('deposit_type', value as DepositType)}>
+                      <SelectTrigger className="w-36 bg-white/10 border border-white/20 text-white rounded-xl h-12 text-lg">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fixed">Amount ($)</SelectItem>
+                        <SelectItem value="percentage">Percent (%)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      id="deposit_amount"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      max={depositType === 'percentage' ? 100 : undefined}
+                      {...register('deposit_amount', { valueAsNumber: true })}
+                      className="flex-1 bg-white/10 border border-white/20 text-white placeholder:text-white/40 focus:border-secondary rounded-xl h-12 text-lg"
+                      placeholder={depositType === 'percentage' ? '25' : '10.00'}
+                    />
+                  </div>
+                  {validationErrors.deposit_amount && (
+                    <p className="text-sm text-red-400 flex items-center gap-1">
+                      <AlertCircle className="h-3 w-3" />
+                      {validationErrors.deposit_amount}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
             
             <div className="flex gap-4 pt-6">
               <Button
@@ -493,6 +589,12 @@ export function ServicesSettings({ onUpdate }: ServicesSettingsProps) {
                           <Clock className="h-4 w-4" />
                           {formatDuration(service.duration)}
                         </div>
+                        {describeServicePrepayment(service) && (
+                          <div className="flex items-center gap-2 text-white/60 text-sm bg-white/5 px-3 py-1 rounded-full">
+                            <CreditCard className="h-4 w-4" />
+                            {describeServicePrepayment(service)}
+                          </div>
+                        )}
                       </div>
                       {service.description && (
                         <p className="text-white/70 text-base leading-relaxed" style={{ whiteSpace: 'pre-line' }}>{service.description}</p>
@@ -9,9 +9,15 @@ import { EnhancedBarberProfileSettings } from './enhanced-barber-profile-setting
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/shared/components/ui/tabs'
-import { User, Scissors, Share2, Calendar, DollarSign, Lock, Settings as SettingsIcon, AlertCircle, Sparkles, Package, RefreshCw } from 'lucide-react'
+import { User, Scissors, Share2, Calendar, DollarSign, Lock, Settings as SettingsIcon, AlertCircle, Sparkles, Package, RefreshCw, Zap, Bell } from 'lucide-react'
 import { AvailabilityManager } from '@/shared/components/booking/availability-manager'
+import { OnDemandSettings } from '@/shared/components/settings/ondemand-settings'
+import { OnDemandInbox } from '@/shared/components/settings/ondemand-inbox'
+import { NotificationPreferencesSettings } from '@/shared/components/settings/notification-preferences-settings'
 import { EarningsDashboard } from '@/shared/components/payment/earnings-dashboard'
+import { AppointmentMetrics } from '@/shared/components/settings/appointment-metrics'
+import { PromoCodesSettings } from '@/shared/components/settings/promo-codes-settings'
+import { PrepaidSettings } from '@/shared/components/settings/prepaid-settings'
 import { PaymentHistory } from '@/shared/components/payment/payment-history'
 import { Alert, AlertDescription } from '@/shared/components/ui/alert'
 import { Progress } from '@/shared/components/ui/progress'
@@ -25,7 +31,7 @@ import { useSafeNavigation } from '@/shared/hooks/use-safe-navigation'
 import { logger } from '@/shared/lib/logger'
 
 
-type Tab = 'profile' | 'services' | 'addons' | 'availability' | 'earnings'
+type Tab = 'profile' | 'notifications' | 'services' | 'addons' | 'availability' | 'ondemand' | 'earnings'
 
 interface SettingsData {
   profileComplete: boolean
@@ -90,7 +96,7 @@ export function SettingsPage() {
       // Fetch profile data
       const { data: profile, error: profileError } = await supabase
         .from('profiles')
-        .select('name, email, phone, location, bio, is_public, email_notifications, sms_notifications')
+        .select('name, email, phone, location, bio, is_public, sms_notifications')
         .eq('id', user.id)
         .single()
 
@@ -411,6 +417,18 @@ export function SettingsPage() {
                       <User className="h-4 w-4" />
                       <span className="hidden sm:inline">Profile</span>
                     </TabsTrigger>
+
+                    <TabsTrigger 
+                      value="notifications" 
+                      className={`relative flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-3 rounded-xl transition-all duration-200 text-xs sm:text-sm font-medium snap-start ${
+                        activeTab === 'notifications' 
+                          ? 'bg-secondary text-primary shadow-lg' 
+                          : 'text-white/70 hover:text-white hover:bg-white/10'
+                      }`}
+                    >
+                      <Bell className="h-4 w-4" />
+                      <span className="hidden sm:inline">Notifications</span>
+                    </TabsTrigger>
                     
                     {user?.role === 'barber' && (
                       <>
@@ -461,6 +479,18 @@ export function SettingsPage() {
                           <Calendar className="h-4 w-4" />
                           <span className="hidden sm:inline">Schedule</span>
                         </TabsTrigger>
+
+                        <TabsTrigger 
+                          value="ondemand" 
+                          className={`relative flex items-center gap-2 px-3 py-2 sm:px-4 sm:py-3 rounded-xl transition-all duration-200 text-xs sm:text-sm font-medium snap-start ${
+                            activeTab === 'ondemand' 
+                              ? 'bg-secondary text-primary shadow-lg' 
+                              : 'text-white/70 hover:text-white hover:bg-white/10'
+                          }`}
+                        >
+                          <Zap className="h-4 w-4" />
+                          <span className="hidden sm:inline">On-Demand</span>
+                        </TabsTrigger>
                       </>
                     )}
                     
@@ -480,6 +510,10 @@ export function SettingsPage() {
                   )}
                 </TabsContent>
 
+                <TabsContent value="notifications" className="mt-0">
+                  <NotificationPreferencesSettings />
+                </TabsContent>
+
                 {user?.role === 'barber' && (
                   <>
                     <TabsContent value="services" className="mt-0">
@@ -495,6 +529,13 @@ export function SettingsPage() {
                         <AvailabilityManager barberId={barberId} onUpdate={loadSettingsData} />
                       </div>
                     </TabsContent>
+
+                    <TabsContent value="ondemand" className="mt-0">
+                      <div className="space-y-6">
+                        <OnDemandInbox barberId={barberId} />
+                        <OnDemandSettings barberId={barberId} />
+                      </div>
+                    </TabsContent>
                     
                     <TabsContent value="earnings" className="mt-0">
                       <div className="space-y-6">
@@ -506,6 +547,9 @@ export function SettingsPage() {
                           <EarningsDashboard barberId={barberId} />
                           <PaymentHistory barberId={barberId} />
                         </div>
+                        <AppointmentMetrics barberId={barberId} />
+                        <PromoCodesSettings barberId={barberId} />
+                        <PrepaidSettings barberId={barberId} />
                       </div>
                     </TabsContent>
                   </>
@@ -7,26 +7,87 @@ import { logger } from '@/shared/lib/logger'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/shared/components/ui/dialog'
 import { useToast } from '@/shared/components/ui/use-toast'
 import { Booking } from '@/shared/types/booking'
-import { syncService } from '@/shared/lib/sync-service'
-import { format } from 'date-fns'
+import { BookingService } from '@/shared/lib/booking-service'
+import { CancellationPolicy, describeCancellationPolicy, getCancellationBlocker, isLateCancellation } from '@/shared/lib/cancellation-policy'
+import { Calendar } from '@/shared/components/ui/calendar'
+import { TimeSlotPicker } from './time-slot-picker'
+import { AvailabilitySlot } from '@/shared/types/availability'
+import { DEFAULT_BARBER_TIMEZONE } from '@/shared/lib/timezone-utils'
+import { format, startOfDay } from 'date-fns'
 
 interface BookingDetailsProps {
   booking: Booking | null
   isOpen: boolean
   onClose: () => void
   onBookingCancelled: (bookingId: string) => void
+  onBookingRescheduled?: (bookingId: string) => void
 }
 
-export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }: BookingDetailsProps) {
+export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled, onBookingRescheduled }: BookingDetailsProps) {
   const { user } = useAuth()
   const { toast } = useToast()
   const [loading, setLoading] = useState(false)
   const [showCancelConfirm, setShowCancelConfirm] = useState(false)
+  const [showReschedule, setShowReschedule] = useState(false)
+  const [rescheduleDate, setRescheduleDate] = useState<Date | undefined>(undefined)
+  const [rescheduleSlot, setRescheduleSlot] = useState<AvailabilitySlot | null>(null)
+  const [rescheduling, setRescheduling] = useState(false)
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null)
 
   if (!booking) return null
 
+  const canCancel = !getCancellationBlocker(booking)
+
+  // Multi-service bookings list every service; end_time covers all of them
+  const bookedServices = [...(booking.booking_services || [])].sort((a, b) => a.position - b.position)
+  const serviceDuration = booking.end_time
+    ? Math.round((new Date(booking.end_time).getTime() - new Date(booking.date).getTime()) / 60000)
+    : booking.service?.duration
+
+  // Clients can move their own upcoming bookings; the barber's cutoff and limit are enforced by the API
+  const canReschedule = !!user &&
+    booking.client_id === user.id &&
+    (booking.status === 'pending' || booking.status === 'confirmed') &&
+    new Date(booking.date) > new Date()
+
+  const handleReschedule = async () => {
+    if (!rescheduleSlot) return
+
+    setRescheduling(true)
+    try {
+      const updated = await BookingService.rescheduleBooking(booking.id, rescheduleSlot.slot_start)
+
+      toast({
+        title: "Booking rescheduled",
+        description: `Your booking has been moved to ${format(new Date(updated.date), 'PPP p')}.`,
+      })
+      setShowReschedule(false)
+      setRescheduleSlot(null)
+      onBookingRescheduled?.(booking.id)
+      onClose()
+    } catch (error) {
+      logger.error(`Failed to reschedule booking ${booking.id}`, error)
+      toast({
+        title: "Could not reschedule",
+        description: error instanceof Error ? error.message : "Failed to reschedule booking. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setRescheduling(false)
+    }
+  }
+
+  const openCancelConfirm = async () => {
+    setShowCancelConfirm(true)
+    try {
+      setCancellationPolicy(await BookingService.getCancellationPolicy(booking.barber_id))
+    } catch (error) {
+      logger.error(`Failed to load cancellation policy for booking ${booking.id}`, error)
+    }
+  }
+
   const handleCancel = async () => {
-    if (!user || !syncService) return
+    if (!user) return
 
     // Additional safety check
     if (!booking || !booking.id) {
@@ -53,13 +114,17 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
     try {
       logger.debug(`Cancelling booking ${booking.id} for user ${user.id}`);
       
-      await syncService.cancelBooking(booking.id)
+      const result = await BookingService.cancelBooking(booking.id)
       
       logger.debug(`Successfully cancelled booking ${booking.id}`);
       
       toast({
         title: "Booking cancelled",
-        description: "Your booking has been cancelled successfully.",
+        description: result.refunded
+          ? "Your booking has been cancelled and your booking fee will be refunded."
+          : result.fee?.status === 'succeeded'
+          ? `Your booking has been cancelled. A late cancellation fee of $${result.fee.amount.toFixed(2)} was charged.`
+          : "Your booking has been cancelled successfully.",
       })
       onBookingCancelled(booking.id)
       onClose()
@@ -67,7 +132,7 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
       logger.error(`Failed to cancel booking ${booking.id}`, error);
       toast({
         title: "Error",
-        description: "Failed to cancel booking. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to cancel booking. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -96,8 +161,12 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
               <p>{format(new Date(booking.date), 'p')}</p>
             </div>
             <div>
-              <h4 className="text-sm font-medium text-muted-foreground">Service</h4>
-              <p className="capitalize">{booking.service.name}</p>
+              <h4 className="text-sm font-medium text-muted-foreground">
+                {bookedServices.length > 1 ? 'Services' : 'Service'}
+              </h4>
+              <p className="capitalize">
+                {bookedServices.length > 0 ? bookedServices.map(s => s.name).join(' + ') : booking.service.name}
+              </p>
             </div>
             <div>
               <h4 className="text-sm font-medium text-muted-foreground">Status</h4>
@@ -105,6 +174,22 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
             </div>
           </div>
 
+          {bookedServices.length > 1 && (
+            <div>
+              <h4 className="text-sm font-medium text-muted-foreground">Price Breakdown</h4>
+              {bookedServices.map((bookedService) => (
+                <div key={bookedService.id} className="flex justify-between text-sm">
+                  <span>{bookedService.name} ({bookedService.duration} min)</span>
+                  <span>${Number(bookedService.price).toFixed(2)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between text-sm font-medium border-t mt-1 pt-1">
+                <span>Services total</span>
+                <span>${bookedServices.reduce((total, s) => total + Number(s.price), 0).toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+
           {booking.notes && (
             <div>
               <h4 className="text-sm font-medium text-muted-foreground">Notes</h4>
@@ -112,20 +197,82 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
             </div>
           )}
 
-          {booking.status === 'pending' && (
+          {(canCancel || canReschedule) && (
             <DialogFooter>
+              {canReschedule && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setShowReschedule(true)}
+                  disabled={loading}
+                >
+                  Reschedule
+                </Button>
+              )}
+              {canCancel && (
               <Button
                 type="button"
                 variant="destructive"
-                onClick={() => setShowCancelConfirm(true)}
+                onClick={openCancelConfirm}
                 disabled={loading}
               >
                 {loading ? "Cancelling..." : "Cancel Booking"}
               </Button>
+              )}
             </DialogFooter>
           )}
         </div>
 
+        <Dialog open={showReschedule} onOpenChange={setShowReschedule}>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>Reschedule Booking</DialogTitle>
+              <DialogDescription>
+                Pick a new time. Your booking fee carries over, so you won&apos;t be charged again.
+              </DialogDescription>
+            </DialogHeader>
+            <Calendar
+              mode="single"
+              selected={rescheduleDate}
+              onSelect={(date) => {
+                setRescheduleDate(date)
+                setRescheduleSlot(null)
+              }}
+              disabled={(date) => date < startOfDay(new Date())}
+            />
+            {rescheduleDate && serviceDuration && (
+              <TimeSlotPicker
+                barberId={booking.barber_id}
+                selectedDate={rescheduleDate}
+                serviceDuration={serviceDuration}
+                barberTimeZone={booking.barber?.timezone || DEFAULT_BARBER_TIMEZONE}
+                onSelectTime={(_, slot) => setRescheduleSlot(slot)}
+              />
+            )}
+            {rescheduleSlot && (
+              <p className="text-sm text-muted-foreground">
+                New time: {format(new Date(rescheduleSlot.slot_start), 'PPP p')}
+              </p>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setShowReschedule(false)}
+              >
+                Keep current time
+              </Button>
+              <Button
+                type="button"
+                onClick={handleReschedule}
+                disabled={!rescheduleSlot || rescheduling}
+              >
+                {rescheduling ? "Rescheduling..." : "Confirm new time"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={showCancelConfirm} onOpenChange={setShowCancelConfirm}>
           <DialogContent>
             <DialogHeader>
@@ -135,6 +282,13 @@ export function BookingDetails({ booking, isOpen, onClose, onBookingCancelled }:
               </DialogDescription>
             </DialogHeader>
             <p>Are you sure you want to cancel this booking?</p>
+            {cancellationPolicy && (
+              <p className="text-sm text-muted-foreground">
+                {booking.client_id === user?.id && isLateCancellation(booking, cancellationPolicy) && cancellationPolicy.noShowFee > 0
+                  ? `This is within ${cancellationPolicy.windowHours} hours of your appointment, so a late cancellation fee of $${cancellationPolicy.noShowFee.toFixed(2)} will be charged to your saved card.`
+                  : describeCancellationPolicy(cancellationPolicy)}
+              </p>
+            )}
             <DialogFooter>
               <Button
                 type="button"
@@ -22,6 +22,22 @@ import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { Badge } from '@/shared/components/ui/badge'
 import { Separator } from '@/shared/components/ui/separator'
 import { AddonSelector } from './addon-selector'
+import { WaitlistJoin } from './waitlist-join'
+import { AvailabilityService } from '@/shared/lib/availability-service'
+import { BookingService } from '@/shared/lib/booking-service'
+import { CancellationPolicy, describeCancellationPolicy } from '@/shared/lib/cancellation-policy'
+import { getSelectionTotals, toggleServiceSelection } from '@/shared/lib/service-selection'
+import { calculatePaymentSplit, DEFAULT_FEE_SCHEDULE, FeeTerms } from '@/shared/lib/fee-calculator'
+import { FeeScheduleService } from '@/shared/lib/fee-schedule-service'
+import { PromoCodeService } from '@/shared/lib/promo-code-service'
+import { calculatePromoDiscount, describePromoCode } from '@/shared/lib/promo-codes'
+import { PromoCodePreview } from '@/shared/types/promo-code'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { calculatePrepaidCredit, describePrepaidBalance } from '@/shared/lib/prepaid-balances'
+import { PrepaidBalance } from '@/shared/types/prepaid'
+import { AvailabilitySlot } from '@/shared/types/availability'
+import { format } from 'date-fns'
+import { DEFAULT_BARBER_TIMEZONE, formatTimeInZone, getAppointmentTimeLabels, isSameOffset, getLocalTimeZone } from '@/shared/lib/timezone-utils'
 
 const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
 
@@ -39,9 +55,8 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
   const [loading, setLoading] = useState(false)
   const [services, setServices] = useState<Service[]>([])
   const [addons, setAddons] = useState<ServiceAddon[]>([])
-  const [availableTimeSlots, setAvailableTimeSlots] = useState<string[]>([])
+  const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([])
   const [formData, setFormData] = useState({
-    serviceId: '',
     time: '',
     notes: '',
     guestName: '',
@@ -50,26 +65,68 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
   })
   const [selectedAddonIds, setSelectedAddonIds] = useState<string[]>([])
   const [date, setDate] = useState<Date>(selectedDate)
-  const [bookedTimes, setBookedTimes] = useState<Set<string>>(new Set())
   const [paymentType] = useState<'fee'>('fee')
-  const [selectedService, setSelectedService] = useState<Service | null>(null)
+  // Services in the order they were picked; the first is the booking's primary service
+  const [selectedServiceIds, setSelectedServiceIds] = useState<string[]>([])
   const [currentStep, setCurrentStep] = useState(1)
   const totalSteps = 4
   const [isDeveloperAccount, setIsDeveloperAccount] = useState(false)
+  const [barberTimeZone, setBarberTimeZone] = useState(DEFAULT_BARBER_TIMEZONE)
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy | null>(null)
+  const [feeSchedule, setFeeSchedule] = useState<FeeTerms>(DEFAULT_FEE_SCHEDULE)
+  const [promoCodeInput, setPromoCodeInput] = useState('')
+  const [appliedPromo, setAppliedPromo] = useState<PromoCodePreview | null>(null)
+  const [promoError, setPromoError] = useState<string | null>(null)
+  const [checkingPromo, setCheckingPromo] = useState(false)
+  const [prepaidBalances, setPrepaidBalances] = useState<PrepaidBalance[]>([])
+  const [selectedBalanceId, setSelectedBalanceId] = useState<string | null>(null)
 
   useEffect(() => {
     if (isOpen) {
       fetchServices()
       fetchBarberStatus()
+      fetchCancellationPolicy()
+      fetchFeeSchedule()
       setCurrentStep(1)
     }
   }, [isOpen, barberId])
 
   useEffect(() => {
-    if (isOpen && selectedService) {
+    if (isOpen && user) {
+      fetchPrepaidBalances(user.id)
+    }
+  }, [isOpen, barberId, user])
+
+  const selectedServices = selectedServiceIds
+    .map(id => services.find(s => s.id === id))
+    .filter((service): service is Service => !!service)
+  const serviceTotals = getSelectionTotals(selectedServices)
+  const selectedAddonTotal = addons
+    .filter(addon => selectedAddonIds.includes(addon.id))
+    .reduce((total, addon) => total + Number(addon.price), 0)
+  // What the barber asks for up front on top of the platform fee, if anything, less the promo code
+  const promoDiscount = appliedPromo
+    ? calculatePromoDiscount(appliedPromo, selectedServices, calculatePaymentSplit(selectedServices, 0, feeSchedule).platformFeeCents)
+    : null
+  const splitBeforeCredit = calculatePaymentSplit(selectedServices, Math.round(selectedAddonTotal * 100), feeSchedule, promoDiscount)
+  // A gift card or package the client holds with this barber covers what is left to pay
+  const selectedBalance = prepaidBalances.find(balance => balance.id === selectedBalanceId) || null
+  const prepaidCreditCents = selectedBalance
+    ? calculatePrepaidCredit(selectedBalance, selectedServices, splitBeforeCredit.prepaidCents + splitBeforeCredit.dueAtAppointmentCents)
+    : 0
+  const paymentSplit = calculatePaymentSplit(selectedServices, Math.round(selectedAddonTotal * 100), feeSchedule, promoDiscount, prepaidCreditCents)
+
+  // A code is checked against the services and time, so it has to be applied again when they change
+  useEffect(() => {
+    setAppliedPromo(null)
+    setPromoError(null)
+  }, [barberId, selectedServiceIds, formData.time])
+
+  useEffect(() => {
+    if (isOpen && serviceTotals.duration > 0) {
       fetchAvailability()
     }
-  }, [isOpen, barberId, date, selectedService])
+  }, [isOpen, barberId, date, serviceTotals.duration])
 
   const fetchServices = async () => {
     try {
@@ -104,95 +161,58 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
     try {
       const { data, error } = await supabase
         .from('barbers')
-        .select('is_developer')
+        .select('is_developer, timezone')
         .eq('id', barberId)
         .single()
 
       if (error) throw error
       setIsDeveloperAccount(data?.is_developer || false)
+      setBarberTimeZone(data?.timezone || DEFAULT_BARBER_TIMEZONE)
     } catch (error) {
       logger.error('Error fetching barber status', error)
       setIsDeveloperAccount(false)
     }
   }
 
-  const fetchAvailability = async () => {
-    if (!selectedService) return
-
+  const fetchCancellationPolicy = async () => {
     try {
-      const selectedDate = date.toISOString().split('T')[0]
-      const timeSlotInterval = selectedService.duration // Use service duration as interval
-      
-      // Get existing bookings for the selected date (treat any non-cancelled as taken)
-      const { data: bookings, error: bookingsError } = await supabase
-        .from('bookings')
-        .select('date')
-        .eq('barber_id', barberId)
-        .gte('date', `${selectedDate}T00:00:00`)
-        .lt('date', `${selectedDate}T23:59:59`)
-        .neq('status', 'cancelled')
-
-      if (bookingsError) throw bookingsError
-
-      // Log fetched bookings
-      logger.debug('Fetched bookings', { bookings })
-
-      // Set bookedTimes based on fetched bookings
-      const newBookedTimes = new Set(bookings?.map(b => new Date(b.date).toTimeString().slice(0, 5)) || [])
-      setBookedTimes(newBookedTimes)
-
-      // First check for special hours
-      const { data: specialHours, error: specialHoursError } = await supabase
-        .from('special_hours')
-        .select('*')
-        .eq('barber_id', barberId)
-        .eq('date', selectedDate)
-
-      if (specialHoursError) {
-        throw specialHoursError
-      }
-
-      // If there are special hours and the barber is closed, return no slots
-      if (specialHours?.[0]?.is_closed) {
-        setAvailableTimeSlots([])
-        return
-      }
+      setCancellationPolicy(await BookingService.getCancellationPolicy(barberId))
+    } catch (error) {
+      logger.error('Error fetching cancellation policy', error)
+      setCancellationPolicy(null)
+    }
+  }
 
-      // Build slots from either special hours or regular availability
-      const slots: string[] = []
+  // Checkout charges the fee under this schedule; the standard one is shown until it loads
+  const fetchFeeSchedule = async () => {
+    try {
+      setFeeSchedule(await FeeScheduleService.resolve(barberId))
+    } catch (error) {
+      logger.error('Error fetching fee schedule', error)
+      setFeeSchedule(DEFAULT_FEE_SCHEDULE)
+    }
+  }
 
-      if (specialHours?.[0]) {
-        const start = new Date(`2000-01-01T${specialHours[0].start_time}`)
-        const end = new Date(`2000-01-01T${specialHours[0].end_time}`)
-        for (let time = new Date(start); time < end; time.setMinutes(time.getMinutes() + timeSlotInterval)) {
-          const timeStr = time.toTimeString().slice(0, 5)
-          slots.push(timeStr)
-        }
-      } else {
-        // If no special hours, use regular availability
-        const dayOfWeek = date.getDay()
-        const { data: availability, error: availabilityError } = await supabase
-          .from('availability')
-          .select('*')
-          .eq('barber_id', barberId)
-          .eq('day_of_week', dayOfWeek)
+  const fetchPrepaidBalances = async (clientId: string) => {
+    try {
+      setPrepaidBalances(await PrepaidService.getUsableBalances(clientId, barberId))
+    } catch (error) {
+      logger.error('Error fetching gift cards and packages', error)
+      setPrepaidBalances([])
+    }
+    setSelectedBalanceId(null)
+  }
 
-        if (availabilityError) throw availabilityError
+  const fetchAvailability = async () => {
+    if (serviceTotals.duration <= 0) return
 
-        if (availability?.[0]) {
-          const start = new Date(`2000-01-01T${availability[0].start_time}`)
-          const end = new Date(`2000-01-01T${availability[0].end_time}`)
-          for (let time = new Date(start); time < end; time.setMinutes(time.getMinutes() + timeSlotInterval)) {
-            const timeStr = time.toTimeString().slice(0, 5)
-            slots.push(timeStr)
-          }
-        }
-      }
+    try {
+      const selectedDate = format(date, 'yyyy-MM-dd')
+      const slots = await AvailabilityService.getAvailableSlots(barberId, selectedDate, serviceTotals.duration)
 
-      // Log generated slots
-      logger.debug('Generated slots', { slots })
+      logger.debug('Fetched availability slots', { slots })
 
-      setAvailableTimeSlots(slots)
+      setTimeSlots(slots)
     } catch (error) {
       logger.error('Error fetching availability', error)
       toast({
@@ -203,11 +223,33 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
     }
   }
 
+  const handleApplyPromoCode = async () => {
+    const slot = timeSlots.find(s => s.slot_time === formData.time)
+    if (!promoCodeInput.trim() || !slot) return
+
+    setCheckingPromo(true)
+    setPromoError(null)
+    try {
+      const check = await PromoCodeService.preview(promoCodeInput, {
+        barberId,
+        serviceIds: selectedServiceIds,
+        start: slot.slot_start
+      })
+      setAppliedPromo(check.promo)
+      setPromoError(check.rejection)
+    } catch (error) {
+      logger.error('Error applying promo code', error)
+      setPromoError('Failed to check the promo code. Please try again.')
+    } finally {
+      setCheckingPromo(false)
+    }
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    const service = services.find(s => s.id === formData.serviceId)
-    if (!service) {
+    const [serviceId, ...additionalServiceIds] = selectedServiceIds
+    if (!serviceId) {
       toast({
         title: "Error",
         description: "Please select a service.",
@@ -238,8 +280,11 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
     setLoading(true)
 
     try {
-      const bookingDate = new Date(date)
-      bookingDate.setHours(parseInt(formData.time.split(':')[0]), parseInt(formData.time.split(':')[1]), 0, 0)
+      const selectedSlot = timeSlots.find(slot => slot.slot_time === formData.time)
+      if (!selectedSlot?.available) {
+        throw new Error('Selected time is no longer available')
+      }
+      const bookingDate = new Date(selectedSlot.slot_start)
 
       // Check if this is a developer account
       if (isDeveloperAccount) {
@@ -249,7 +294,8 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
         barberId,
-        serviceId: formData.serviceId,
+        serviceId,
+        additionalServiceIds,
         date: bookingDate.toISOString(),
         notes: formData.notes,
             guestName: user ? undefined : formData.guestName,
@@ -285,18 +331,30 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
 
         logger.debug('Creating Stripe Checkout session for web booking...')
         
+        // The server books for the signed-in account behind this token
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session?.access_token) {
+          throw new Error('Please sign in to book with this barber.')
+        }
+
         // Create Stripe Checkout session
         const response = await fetch('/api/create-checkout-session', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`
+          },
           body: JSON.stringify({
             barberId,
-            serviceId: formData.serviceId,
+            serviceId,
+            additionalServiceIds,
             date: bookingDate.toISOString(),
             notes: formData.notes,
             clientId: user.id,
             paymentType: 'fee',
-            addonIds: selectedAddonIds
+            addonIds: selectedAddonIds,
+            promoCode: appliedPromo?.code,
+            prepaidBalanceId: prepaidCreditCents > 0 ? selectedBalanceId : undefined
           })
         })
 
@@ -305,6 +363,16 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
           throw new Error(data.error || 'Failed to create checkout session')
         }
 
+        // A no-fee schedule with nothing prepaid is booked without a payment
+        if (data.noPaymentRequired) {
+          toast({
+            title: "Success!",
+            description: "Your booking is confirmed. There was nothing to pay.",
+          })
+          onBookingCreated(data.booking)
+          return
+        }
+
         logger.debug('Checkout session created', { data })
 
         // Redirect to Stripe Checkout
@@ -323,9 +391,8 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
   }
 
   const handleServiceChange = (serviceId: string) => {
-    setFormData({ ...formData, serviceId })
-    setSelectedService(services.find(s => s.id === serviceId) || null)
-    setFormData({ ...formData, serviceId, time: '' }) // Reset time when service changes
+    setSelectedServiceIds(toggleServiceSelection(selectedServiceIds, serviceId))
+    setFormData({ ...formData, time: '' }) // Reset time when services change
   }
 
   const formatTime = (time: string) => {
@@ -336,6 +403,14 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
     return `${displayHour}:${minutes} ${ampm}`
   }
 
+  // Barber's local time, with the client's local time alongside when they differ
+  const selectedTimeLabel = (() => {
+    const slot = timeSlots.find(s => s.slot_time === formData.time)
+    if (!slot) return formatTime(formData.time)
+    const { barberTime, localTime } = getAppointmentTimeLabels(slot.slot_start, barberTimeZone)
+    return localTime ? `${barberTime} (${localTime} your time)` : barberTime
+  })()
+
   const getDayName = (date: Date) => DAYS[date.getDay()]
   const getMonthName = (date: Date) => date.toLocaleDateString('en-US', { month: 'long' })
 
@@ -347,7 +422,7 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
 
   const canProceed = () => {
     switch (currentStep) {
-      case 1: return !!formData.serviceId
+      case 1: return selectedServiceIds.length > 0
       case 2: return !!formData.time
       case 3: return user || (isDeveloperAccount && formData.guestName && formData.guestEmail && formData.guestPhone)
       case 4: return true
@@ -373,7 +448,7 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
 
   const getStepDescription = () => {
     switch (currentStep) {
-      case 1: return "Select the service you'd like to book"
+      case 1: return "Select one or more services for your appointment"
       case 2: return "Choose your preferred appointment time"
       case 3: return "Provide your contact information"
       case 4: return "Review your booking details and confirm"
@@ -439,7 +514,7 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                   <Scissors className="h-8 w-8 text-secondary" />
                 </div>
                 <h3 className="text-xl font-bold text-white mb-2">What service do you need?</h3>
-                <p className="text-white/60">Choose from our available services</p>
+                <p className="text-white/60">Choose one or more of our available services</p>
               </div>
 
               <div className="space-y-4">
@@ -448,14 +523,14 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                     key={service.id}
                     className={cn(
                       "relative p-6 rounded-2xl border-2 cursor-pointer transition-all duration-300 group",
-                      formData.serviceId === service.id
+                      selectedServiceIds.includes(service.id)
                         ? "border-secondary bg-secondary/10 shadow-lg shadow-secondary/20"
                         : "border-white/10 bg-white/5 hover:border-secondary/30 hover:bg-white/10"
                     )}
                     onClick={() => handleServiceChange(service.id)}
                   >
                     {/* Selection indicator */}
-                    {formData.serviceId === service.id && (
+                    {selectedServiceIds.includes(service.id) && (
                       <div className="absolute top-4 right-4 w-6 h-6 bg-secondary rounded-full flex items-center justify-center">
                         <CheckCircle className="h-4 w-4 text-black" />
                       </div>
@@ -558,40 +633,54 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                   <Clock className="h-5 w-5 text-secondary" />
                   Select Time
                 </h4>
+                {barberTimeZone !== getLocalTimeZone() && (
+                  <p className="text-white/50 text-xs -mt-2 mb-4">
+                    Times are in the barber&apos;s timezone ({barberTimeZone.replace(/_/g, ' ')}). Your local time is shown underneath when it differs.
+                  </p>
+                )}
                 
-                {availableTimeSlots.length > 0 ? (
-                  <div className="grid grid-cols-3 gap-3">
-                    {availableTimeSlots.map((time) => {
-                      const [hours, minutes] = time.split(':').map((t) => parseInt(t))
-                      const slotDateTime = new Date(date)
-                      slotDateTime.setHours(hours, minutes, 0, 0)
-                      const isPast = slotDateTime <= new Date()
-                      const isBooked = bookedTimes.has(time)
-                      const isDisabled = isPast || isBooked
-
-                      return (
-                        <Button
-                          key={time}
-                          type="button"
-                          variant="ghost"
-                          disabled={isDisabled}
-                          className={cn(
-                            "h-16 text-sm font-medium transition-all duration-300 relative overflow-hidden group",
-                            isDisabled
-                              ? "bg-white/5 border border-white/10 text-white/40 opacity-50 cursor-not-allowed"
-                              : formData.time === time
-                                ? "bg-gradient-to-br from-secondary to-orange-500 text-white border-2 border-secondary/50 shadow-lg scale-105 transform"
-                                : "bg-white/5 border border-white/20 text-white hover:bg-gradient-to-br hover:from-secondary/20 hover:to-orange-500/20 hover:border-secondary/50 hover:scale-105 hover:shadow-md"
-                          )}
-                          onClick={() => {
-                            if (!isDisabled) setFormData({ ...formData, time })
-                          }}
-                        >
-                          <div className="font-semibold">{formatTime(time)}</div>
-                        </Button>
-                      )
-                    })}
-                  </div>
+                {timeSlots.length > 0 ? (
+                  <>
+                    <div className="grid grid-cols-3 gap-3">
+                      {timeSlots.map((slot) => {
+                        const time = slot.slot_time
+                        const isDisabled = !slot.available
+
+                        return (
+                          <Button
+                            key={time}
+                            type="button"
+                            variant="ghost"
+                            disabled={isDisabled}
+                            className={cn(
+                              "h-16 text-sm font-medium transition-all duration-300 relative overflow-hidden group",
+                              isDisabled
+                                ? "bg-white/5 border border-white/10 text-white/40 opacity-50 cursor-not-allowed"
+                                : formData.time === time
+                                  ? "bg-gradient-to-br from-secondary to-orange-500 text-white border-2 border-secondary/50 shadow-lg scale-105 transform"
+                                  : "bg-white/5 border border-white/20 text-white hover:bg-gradient-to-br hover:from-secondary/20 hover:to-orange-500/20 hover:border-secondary/50 hover:scale-105 hover:shadow-md"
+                            )}
+                            onClick={() => {
+                              if (!isDisabled) setFormData({ ...formData, time })
+                            }}
+                          >
+                            <div className="font-semibold">{formatTime(time)}</div>
+                            {!isSameOffset(slot.slot_start, barberTimeZone, getLocalTimeZone()) && (
+                              <div className="text-xs opacity-70">{formatTimeInZone(slot.slot_start, getLocalTimeZone())}</div>
+                            )}
+                          </Button>
+                        )
+                      })}
+                    </div>
+                    {selectedServiceIds.length > 0 && timeSlots.every(slot => !slot.available) && (
+                      <WaitlistJoin
+                        barberId={barberId}
+                        serviceId={selectedServiceIds[0]}
+                        date={format(date, 'yyyy-MM-dd')}
+                        className="mt-6 [&_p]:text-white/60"
+                      />
+                    )}
+                  </>
                 ) : (
                   <div className="text-center py-12">
                       <Clock className="h-16 w-16 mx-auto text-white/30 mb-4" />
@@ -700,16 +789,27 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                   Booking Summary
                 </h4>
 
-                      {selectedService && (
-                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
-                          <div>
-                      <p className="text-white font-semibold">{selectedService.name}</p>
-                      <p className="text-white/60 text-sm">{formatTime(formData.time)} • {date.toLocaleDateString()}</p>
-                          </div>
-                          <div className="text-right">
-                      <p className="text-xl font-bold text-secondary">${selectedService.price}</p>
-                          </div>
+                      {selectedServices.length > 0 && (
+                  <div className="p-4 bg-white/5 rounded-xl space-y-3">
+                    {selectedServices.map((service) => (
+                      <div key={service.id} className="flex items-center justify-between">
+                        <div>
+                          <p className="text-white font-semibold">{service.name}</p>
+                          <p className="text-white/60 text-sm">{service.duration} min</p>
                         </div>
+                        <p className="text-xl font-bold text-secondary">${service.price}</p>
+                      </div>
+                    ))}
+                    <p className="text-white/60 text-sm">
+                      {selectedTimeLabel} • {date.toLocaleDateString()} • {serviceTotals.duration} min total
+                    </p>
+                    {selectedServices.length > 1 && (
+                      <div className="flex items-center justify-between pt-3 border-t border-white/10">
+                        <p className="text-white font-medium">Services total</p>
+                        <p className="text-lg font-bold text-secondary">${serviceTotals.price.toFixed(2)}</p>
+                      </div>
+                    )}
+                  </div>
                       )}
                       
                 {/* Add-ons */}
@@ -732,6 +832,78 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                         </div>
                       )}
                       
+                 {/* Promo code */}
+                 {!isDeveloperAccount && (
+                   <div className="p-4 bg-white/5 rounded-xl space-y-2">
+                     <p className="text-white font-medium">Promo Code</p>
+                     <div className="flex gap-2">
+                       <Input
+                         value={promoCodeInput}
+                         onChange={(e) => {
+                           setPromoCodeInput(e.target.value.toUpperCase())
+                           setAppliedPromo(null)
+                           setPromoError(null)
+                         }}
+                         placeholder="Enter code"
+                         maxLength={20}
+                         className="bg-white/10 border-white/20 text-white uppercase"
+                       />
+                       <Button
+                         type="button"
+                         variant="outline"
+                         onClick={handleApplyPromoCode}
+                         disabled={checkingPromo || !promoCodeInput.trim() || !!appliedPromo}
+                         className="border-white/20 text-white hover:bg-white/10"
+                       >
+                         {checkingPromo ? <Loader2 className="h-4 w-4 animate-spin" /> : appliedPromo ? 'Applied' : 'Apply'}
+                       </Button>
+                     </div>
+                     {appliedPromo && (
+                       <div className="flex items-center justify-between">
+                         <p className="text-green-400 text-sm">{appliedPromo.code}: {describePromoCode(appliedPromo)}</p>
+                         <p className="text-green-400 font-semibold">-${(paymentSplit.discountCents / 100).toFixed(2)}</p>
+                       </div>
+                     )}
+                     {promoError && <p className="text-sm text-red-400">{promoError}</p>}
+                   </div>
+                 )}
+
+                 {/* Gift cards and packages */}
+                 {!isDeveloperAccount && prepaidBalances.length > 0 && (
+                   <div className="p-4 bg-white/5 rounded-xl space-y-2">
+                     <p className="text-white font-medium">Gift Cards & Packages</p>
+                     <div className="flex flex-wrap gap-2">
+                       {prepaidBalances.map(balance => (
+                         <Button
+                           key={balance.id}
+                           type="button"
+                           variant="outline"
+                           size="sm"
+                           onClick={() => setSelectedBalanceId(selectedBalanceId === balance.id ? null : balance.id)}
+                           className={cn(
+                             "border-white/20 text-white",
+                             selectedBalanceId === balance.id && "bg-secondary text-primary border-secondary hover:bg-secondary/90"
+                           )}
+                         >
+                           {balance.kind === 'package' ? 'Package' : 'Gift card'} • {describePrepaidBalance(balance)}
+                         </Button>
+                       ))}
+                     </div>
+                     {selectedBalance && (
+                       paymentSplit.creditCents > 0 ? (
+                         <div className="flex items-center justify-between">
+                           <p className="text-green-400 text-sm">Applied to your services</p>
+                           <p className="text-green-400 font-semibold">-${(paymentSplit.creditCents / 100).toFixed(2)}</p>
+                         </div>
+                       ) : (
+                         <p className="text-sm text-red-400">
+                           {selectedBalance.kind === 'package' ? "This package is for a service you haven't picked" : 'Nothing left to cover'}
+                         </p>
+                       )
+                     )}
+                   </div>
+                 )}
+
                       {/* Platform Fee */}
                  <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
                         <div>
@@ -742,7 +914,7 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                         </div>
                         <div className="text-right">
                      <p className="text-lg font-bold text-secondary">
-                       {isDeveloperAccount ? '$0.00' : '$3.38'}
+                       {isDeveloperAccount ? '$0.00' : `$${((paymentSplit.totalCents - paymentSplit.prepaidCents) / 100).toFixed(2)}`}
                      </p>
                      <Badge className={cn(
                        "text-xs",
@@ -755,6 +927,17 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                         </div>
                       </div>
                       
+                 {/* Deposit or prepayment */}
+                 {!isDeveloperAccount && paymentSplit.prepaidCents > 0 && (
+                   <div className="flex items-center justify-between p-4 bg-white/5 rounded-xl">
+                     <div>
+                       <p className="text-white font-medium">{paymentSplit.paymentMode === 'full' ? 'Prepayment' : 'Deposit'}</p>
+                       <p className="text-white/60 text-sm">Paid to your barber toward your appointment</p>
+                     </div>
+                     <p className="text-lg font-bold text-secondary">${(paymentSplit.prepaidCents / 100).toFixed(2)}</p>
+                   </div>
+                 )}
+
                       {/* Total */}
                  <div className="flex items-center justify-between p-4 bg-gradient-to-r from-secondary/10 to-orange-500/10 border border-secondary/20 rounded-xl">
                         <div>
@@ -763,8 +946,13 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                         </div>
                         <div className="text-right">
                           <p className="text-2xl font-bold text-secondary">
-                       {isDeveloperAccount ? '$0.00' : '$3.38'}
+                       {isDeveloperAccount ? '$0.00' : `$${(paymentSplit.totalCents / 100).toFixed(2)}`}
                           </p>
+                          {!isDeveloperAccount && (paymentSplit.prepaidCents > 0 || paymentSplit.creditCents > 0) && (
+                            <p className="text-white/60 text-sm">
+                              ${(paymentSplit.dueAtAppointmentCents / 100).toFixed(2)} due at appointment
+                            </p>
+                          )}
                         </div>
                       </div>
 
@@ -776,6 +964,16 @@ export function BookingForm({ isOpen, onClose, selectedDate, barberId, onBooking
                      }
                    </p>
                                  </div>
+
+                 {cancellationPolicy && !isDeveloperAccount && (
+                   <div className="p-4 bg-white/5 border border-white/10 rounded-xl">
+                     <p className="text-white font-medium text-sm mb-1">Cancellation Policy</p>
+                     <p className="text-white/60 text-sm">{describeCancellationPolicy(cancellationPolicy)}</p>
+                     {cancellationPolicy.noShowFee > 0 && (
+                       <p className="text-white/60 text-sm mt-1">Your card will be saved securely for this purpose.</p>
+                     )}
+                   </div>
+                 )}
                </div>
 
                {/* Navigation Buttons for Step 4 */}
@@ -0,0 +1,219 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Gift, Package } from "lucide-react"
+import { Button } from "@/shared/components/ui/button"
+import { Input } from "@/shared/components/ui/input"
+import { Label } from "@/shared/components/ui/label"
+import { Switch } from "@/shared/components/ui/switch"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/shared/components/ui/dialog"
+import { useToast } from "@/shared/components/ui/use-toast"
+import { useAuth } from "@/shared/hooks/use-auth-zustand"
+import { PrepaidService, PrepaidOffers as Offers } from "@/shared/lib/prepaid-service"
+import { describePackage, getGiftCardAmountError, GIFT_CARD_AMOUNTS } from "@/shared/lib/prepaid-balances"
+import { logger } from "@/shared/lib/logger"
+import { BarberPackage } from "@/shared/types/prepaid"
+import { cn } from "@/shared/utils/utils"
+
+interface PrepaidOffersProps {
+  barberId: string
+  barberName: string
+  services: { id: string; name: string; price: number }[]
+}
+
+// Gift cards and packages on the barber's page; both are paid to the barber at purchase
+export function PrepaidOffers({ barberId, barberName, services }: PrepaidOffersProps) {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user } = useAuth()
+  const [offers, setOffers] = useState<Offers | null>(null)
+  const [selected, setSelected] = useState<BarberPackage | 'gift_card' | null>(null)
+  const [amount, setAmount] = useState<number | null>(GIFT_CARD_AMOUNTS[1])
+  const [customAmount, setCustomAmount] = useState("")
+  const [isGift, setIsGift] = useState(false)
+  const [recipientName, setRecipientName] = useState("")
+  const [recipientEmail, setRecipientEmail] = useState("")
+  const [message, setMessage] = useState("")
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    PrepaidService.getOffers(barberId)
+      .then(setOffers)
+      .catch(error => logger.error('Error loading gift cards and packages', error))
+  }, [barberId])
+
+  const open = (offer: BarberPackage | 'gift_card') => {
+    if (!user) {
+      router.push('/login')
+      return
+    }
+    setSelected(offer)
+    setIsGift(offer === 'gift_card')
+    setAmount(GIFT_CARD_AMOUNTS[1])
+    setCustomAmount("")
+  }
+
+  if (!offers || (!offers.giftCardsEnabled && offers.packages.length === 0)) return null
+
+  const serviceFor = (pkg: BarberPackage) => services.find(s => s.id === pkg.service_id)
+  const amountCents = amount !== null ? amount * 100 : Math.round((parseFloat(customAmount) || 0) * 100)
+  const amountError = selected === 'gift_card' ? getGiftCardAmountError(amountCents) : null
+  const recipientMissing = isGift && (!recipientName.trim() || !recipientEmail.includes('@'))
+  const price = selected === 'gift_card' ? amountCents : selected ? Math.round(Number(selected.price) * 100) : 0
+
+  const handlePurchase = async () => {
+    if (!selected) return
+    setLoading(true)
+    try {
+      const url = await PrepaidService.purchase({
+        barberId,
+        ...(selected === 'gift_card' ? { amountCents } : { packageId: selected.id }),
+        isGift,
+        ...(isGift ? { recipientName, recipientEmail, message } : {}),
+      })
+      window.location.href = url
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to start the purchase. Please try again.",
+        variant: "destructive",
+      })
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 mt-6">
+      <h3 className="text-lg font-bebas text-white tracking-wide">Gift Cards & Packages</h3>
+      {offers.packages.map(pkg => {
+        const service = serviceFor(pkg)
+        return (
+          <div
+            key={pkg.id}
+            className="flex justify-between items-center p-4 bg-white/5 rounded-2xl border border-white/10"
+          >
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center gap-2 mb-1">
+                <Package className="h-4 w-4 text-secondary" />
+                <h4 className="font-semibold text-white text-base">{pkg.name}</h4>
+              </div>
+              <p className="text-white/60 text-sm">
+                {service ? describePackage(pkg, service.price) : `${pkg.visit_count} visits`}
+                {service && ` • ${service.name}`}
+              </p>
+            </div>
+            <Button onClick={() => open(pkg)} className="ml-4 bg-secondary text-primary font-semibold hover:bg-secondary/90">
+              ${Number(pkg.price).toFixed(2)}
+            </Button>
+          </div>
+        )
+      })}
+      {offers.giftCardsEnabled && (
+        <div className="flex justify-between items-center p-4 bg-white/5 rounded-2xl border border-white/10">
+          <div className="min-w-0 flex-1">
+            <div className="flex items-center gap-2 mb-1">
+              <Gift className="h-4 w-4 text-secondary" />
+              <h4 className="font-semibold text-white text-base">Gift Card</h4>
+            </div>
+            <p className="text-white/60 text-sm">Send a friend credit toward any service with {barberName}</p>
+          </div>
+          <Button onClick={() => open('gift_card')} className="ml-4 bg-secondary text-primary font-semibold hover:bg-secondary/90">
+            Buy
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(isOpen) => !isOpen && setSelected(null)}>
+        <DialogContent className="max-w-md w-full bg-white/5 border border-white/10 backdrop-blur-xl rounded-2xl shadow-2xl p-6">
+          <DialogHeader>
+            <DialogTitle className="text-2xl font-bold text-white">
+              {selected === 'gift_card' ? 'Gift Card' : selected?.name}
+            </DialogTitle>
+            <DialogDescription className="text-white/80">
+              Paid to {barberName} now and used when booking
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {selected === 'gift_card' && (
+              <>
+                <div className="grid grid-cols-3 gap-2">
+                  {GIFT_CARD_AMOUNTS.map(option => (
+                    <Button
+                      key={option}
+                      variant="outline"
+                      onClick={() => setAmount(option)}
+                      className={cn(
+                        "border-white/20 text-white font-bold",
+                        amount === option && "bg-secondary text-primary border-secondary hover:bg-secondary/90"
+                      )}
+                    >
+                      ${option}
+                    </Button>
+                  ))}
+                </div>
+                <Input
+                  type="number"
+                  inputMode="decimal"
+                  min="10"
+                  step="1"
+                  placeholder="Custom amount"
+                  value={customAmount}
+                  onFocus={() => setAmount(null)}
+                  onChange={(e) => {
+                    setAmount(null)
+                    setCustomAmount(e.target.value)
+                  }}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+                {amountError && amountCents > 0 && (
+                  <p className="text-sm text-red-400">{amountError}</p>
+                )}
+              </>
+            )}
+
+            <div className="flex items-center gap-3">
+              <Switch checked={isGift} onCheckedChange={setIsGift} />
+              <Label className="text-white">Send as a gift</Label>
+            </div>
+
+            {isGift && (
+              <div className="space-y-3">
+                <Input
+                  placeholder="Recipient's name"
+                  value={recipientName}
+                  onChange={(e) => setRecipientName(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+                <Input
+                  type="email"
+                  placeholder="Recipient's email"
+                  value={recipientEmail}
+                  onChange={(e) => setRecipientEmail(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+                <textarea
+                  placeholder="Add a message (optional)"
+                  value={message}
+                  maxLength={500}
+                  onChange={(e) => setMessage(e.target.value)}
+                  className="w-full min-h-[80px] rounded-md bg-white/10 border border-white/20 text-white p-3 text-sm placeholder:text-white/40"
+                />
+                <p className="text-xs text-white/60">We'll email them a link and code to claim it.</p>
+              </div>
+            )}
+
+            <Button
+              onClick={handlePurchase}
+              disabled={loading || !!amountError || recipientMissing}
+              className="w-full bg-secondary text-primary font-semibold hover:bg-secondary/90"
+            >
+              {loading ? "Starting checkout..." : `Pay $${(price / 100).toFixed(2)}`}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
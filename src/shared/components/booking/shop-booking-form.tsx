@@ -0,0 +1,317 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { CheckCircle, Clock, Loader2, Scissors, Users } from 'lucide-react'
+import { Button } from '@/shared/components/ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/shared/components/ui/dialog'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { logger } from '@/shared/lib/logger'
+import { supabase } from '@/shared/lib/supabase'
+import { calculateServicePrepaymentCents } from '@/shared/lib/fee-calculator'
+import { ShopService, ShopServiceOffer, ShopServiceOption, ShopSlot } from '@/shared/lib/shop-service'
+import { formatDateInZone, getAppointmentTimeLabels } from '@/shared/lib/timezone-utils'
+import { cn } from '@/lib/utils'
+import type { Shop } from '@/shared/types'
+
+interface ShopBookingFormProps {
+  isOpen: boolean
+  onClose: () => void
+  shop: Shop
+}
+
+type Step = 'service' | 'time' | 'review' | 'booked'
+
+function formatPriceRange(option: ShopServiceOption): string {
+  return option.minPrice === option.maxPrice ? `$${option.minPrice}` : `$${option.minPrice}–$${option.maxPrice}`
+}
+
+/**
+ * Books the shop's first available barber: the client picks a service and a time on
+ * the combined schedule of every barber offering it, and the shop's assignment rule
+ * picks who they see when they confirm.
+ */
+export function ShopBookingForm({ isOpen, onClose, shop }: ShopBookingFormProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [step, setStep] = useState<Step>('service')
+  const [options, setOptions] = useState<ShopServiceOption[]>([])
+  const [loadingOptions, setLoadingOptions] = useState(true)
+  const [option, setOption] = useState<ShopServiceOption | null>(null)
+  const [date, setDate] = useState(format(new Date(), 'yyyy-MM-dd'))
+  const [slots, setSlots] = useState<ShopSlot[]>([])
+  const [loadingSlots, setLoadingSlots] = useState(false)
+  const [slot, setSlot] = useState<ShopSlot | null>(null)
+  const [notes, setNotes] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [assigned, setAssigned] = useState<ShopServiceOffer | null>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setStep('service')
+    setSlot(null)
+    setAssigned(null)
+    setLoadingOptions(true)
+    ShopService.getBookableServices(shop.id)
+      .then(setOptions)
+      .catch(() => toast({ title: 'Could not load services', variant: 'destructive' }))
+      .finally(() => setLoadingOptions(false))
+  }, [isOpen, shop.id])
+
+  useEffect(() => {
+    if (!option) return
+    setSlot(null)
+    setLoadingSlots(true)
+    ShopService.getServiceAvailability(option, date)
+      .then(setSlots)
+      .catch(() => {
+        setSlots([])
+        toast({ title: 'Could not load available times', variant: 'destructive' })
+      })
+      .finally(() => setLoadingSlots(false))
+  }, [option, date])
+
+  // Barbers at one shop share a location, so times show in the first barber's zone
+  const timeZone = option?.offers[0]?.timezone
+
+  const handleConfirm = async () => {
+    if (!user || !option || !slot) return
+
+    setSubmitting(true)
+    try {
+      const barberId = await ShopService.assignBarber(shop.id, option.name, slot.slot_start)
+      const offer = option.offers.find(item => item.barberId === barberId)
+      if (!offer) {
+        throw new Error('The assigned barber does not offer this service')
+      }
+      setAssigned(offer)
+
+      const booking = {
+        barberId,
+        serviceId: offer.service.id,
+        date: slot.slot_start,
+        notes,
+        clientId: user.id,
+        paymentType: 'fee',
+        addonIds: []
+      }
+
+      if (offer.isDeveloper) {
+        const response = await fetch('/api/create-developer-booking', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(booking)
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create booking')
+        }
+        setStep('booked')
+      } else {
+        const { data: { session } } = await supabase.auth.getSession()
+        if (!session?.access_token) {
+          throw new Error('Please sign in to book')
+        }
+
+        const response = await fetch('/api/create-checkout-session', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`
+          },
+          body: JSON.stringify(booking)
+        })
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to create checkout session')
+        }
+        if (data.noPaymentRequired) {
+          setStep('booked')
+          return
+        }
+        // The success page names the assigned barber once payment goes through
+        window.location.href = data.url
+      }
+    } catch (error) {
+      logger.error('Error booking first available barber', error)
+      setAssigned(null)
+      toast({
+        title: 'Could not book',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const slotLabels = slot && timeZone ? getAppointmentTimeLabels(slot.slot_start, timeZone) : null
+  const takesPrepayment = !!option?.offers.some(offer => calculateServicePrepaymentCents(offer.service) > 0)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-lg w-full bg-black border border-white/10 rounded-3xl p-6 max-h-[90vh] overflow-y-auto">
+        <DialogTitle className="text-2xl font-bold text-white">Any available barber</DialogTitle>
+        <DialogDescription className="text-white/60">
+          Book the first free barber at {shop.name}
+        </DialogDescription>
+
+        {step === 'service' && (
+          <div className="space-y-3">
+            {loadingOptions ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-secondary" />
+              </div>
+            ) : options.length === 0 ? (
+              <p className="text-white/60 text-sm text-center py-8">No services are available at this shop yet</p>
+            ) : (
+              options.map(item => (
+                <button
+                  key={item.name}
+                  type="button"
+                  onClick={() => {
+                    setOption(item)
+                    setStep('time')
+                  }}
+                  className="w-full flex items-center gap-3 p-4 rounded-2xl border border-white/10 bg-white/5 text-left hover:border-secondary/50 transition-colors"
+                >
+                  <Scissors className="h-5 w-5 text-secondary shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-white font-semibold truncate">{item.name}</p>
+                    <p className="text-white/50 text-xs flex items-center gap-1">
+                      <Users className="h-3 w-3" />
+                      {item.offers.length === 1 ? '1 barber' : `${item.offers.length} barbers`}
+                    </p>
+                  </div>
+                  <span className="text-secondary font-bold">{formatPriceRange(item)}</span>
+                </button>
+              ))
+            )}
+          </div>
+        )}
+
+        {step === 'time' && option && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-white font-semibold">{option.name}</p>
+              <Input
+                type="date"
+                value={date}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={event => event.target.value && setDate(event.target.value)}
+                className="w-44 bg-white/10 border-white/20 text-white"
+              />
+            </div>
+
+            {loadingSlots ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-secondary" />
+              </div>
+            ) : slots.length === 0 ? (
+              <div className="text-center py-8">
+                <Clock className="h-10 w-10 mx-auto text-white/30 mb-2" />
+                <p className="text-white/60 text-sm">No barber is free on this day</p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-3 gap-2">
+                {slots.map(item => {
+                  const labels = getAppointmentTimeLabels(item.slot_start, timeZone)
+                  return (
+                    <Button
+                      key={item.slot_start}
+                      type="button"
+                      variant="ghost"
+                      onClick={() => setSlot(item)}
+                      className={cn(
+                        'h-14 flex-col text-sm',
+                        slot?.slot_start === item.slot_start
+                          ? 'bg-gradient-to-br from-secondary to-orange-500 text-white'
+                          : 'bg-white/5 border border-white/20 text-white hover:bg-white/10'
+                      )}
+                    >
+                      <span className="font-semibold">{labels.barberTime}</span>
+                      {labels.localTime && <span className="text-xs opacity-70">{labels.localTime}</span>}
+                    </Button>
+                  )
+                })}
+              </div>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setStep('service')} className="text-white/70 hover:text-white hover:bg-white/10">
+                Back
+              </Button>
+              <Button disabled={!slot} onClick={() => setStep('review')} className="bg-saffron text-primary hover:bg-saffron/90">
+                Continue
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && option && slot && (
+          <div className="space-y-4">
+            <div className="p-4 rounded-2xl bg-white/5 border border-white/10 space-y-1">
+              <p className="text-white font-semibold">{option.name}</p>
+              <p className="text-white/60 text-sm">
+                {timeZone && formatDateInZone(slot.slot_start, timeZone)} • {slotLabels?.barberTime}
+                {slotLabels?.localTime && ` (${slotLabels.localTime} your time)`}
+              </p>
+              <p className="text-white/60 text-sm">
+                {slot.barberIds.length === 1 ? 'One barber is' : `${slot.barberIds.length} barbers are`} free then.
+                You&apos;ll see who you&apos;re booked with once you confirm.
+              </p>
+              <p className="text-white/60 text-sm">
+                {takesPrepayment
+                  ? `${formatPriceRange(option)}. Some barbers here take a deposit or full payment at checkout`
+                  : `${formatPriceRange(option)}, paid to your barber at the appointment`}
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="shopBookingNotes" className="text-white font-medium mb-2 block">Additional Notes (Optional)</Label>
+              <Textarea
+                id="shopBookingNotes"
+                value={notes}
+                onChange={event => setNotes(event.target.value)}
+                placeholder="Any special requests or notes..."
+                className="bg-white/10 border-white/20 text-white placeholder-white/40 rounded-xl"
+              />
+            </div>
+
+            {!user && (
+              <p className="text-red-400 text-sm text-center">Please sign in to book</p>
+            )}
+
+            <div className="flex justify-between">
+              <Button variant="ghost" onClick={() => setStep('time')} className="text-white/70 hover:text-white hover:bg-white/10">
+                Back
+              </Button>
+              <Button disabled={!user || submitting} onClick={handleConfirm} className="bg-saffron text-primary hover:bg-saffron/90">
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Confirm booking
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'booked' && assigned && slot && (
+          <div className="text-center space-y-3 py-4">
+            <CheckCircle className="h-12 w-12 text-secondary mx-auto" />
+            <p className="text-white text-lg font-semibold">You&apos;re booked with {assigned.barberName}</p>
+            <p className="text-white/60 text-sm">
+              {assigned.service.name} • {formatDateInZone(slot.slot_start, assigned.timezone)} •{' '}
+              {getAppointmentTimeLabels(slot.slot_start, assigned.timezone).barberTime}
+            </p>
+            <Button onClick={onClose} className="bg-saffron text-primary hover:bg-saffron/90">
+              Done
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,98 +1,125 @@
 "use client"
 
+import { useEffect, useState } from "react"
+import { format } from "date-fns"
 import { Button } from "@/shared/components/ui/button"
 import { cn } from '@/shared/utils/utils'
+import { AvailabilityService } from "@/shared/lib/availability-service"
+import { AvailabilitySlot } from "@/shared/types/availability"
+import { logger } from "@/shared/lib/logger"
+import { WaitlistJoin } from "./waitlist-join"
+import { DEFAULT_BARBER_TIMEZONE, formatTimeInZone, getLocalTimeZone, isSameOffset } from "@/shared/lib/timezone-utils"
 
 interface TimeSlotPickerProps {
+  barberId: string
   selectedDate: Date
-  onSelectTime: (time: string) => void
+  serviceDuration: number
+  barberTimeZone?: string
+  serviceId?: string // Offers the waitlist when the day is fully booked
+  onSelectTime: (time: string, slot: AvailabilitySlot) => void
 }
 
-export function TimeSlotPicker({ selectedDate, onSelectTime }: TimeSlotPickerProps) {
-  // In a real app, these would be fetched from an API based on the barber's availability
-  const generateTimeSlots = () => {
-    // Mock time slots from 9 AM to 5 PM
-    const slots = []
-    const startHour = 9 // 9 AM
-    const endHour = 17 // 5 PM
+export function TimeSlotPicker({
+  barberId,
+  selectedDate,
+  serviceDuration,
+  barberTimeZone = DEFAULT_BARBER_TIMEZONE,
+  serviceId,
+  onSelectTime,
+}: TimeSlotPickerProps) {
+  const [timeSlots, setTimeSlots] = useState<AvailabilitySlot[]>([])
+  const [loading, setLoading] = useState(false)
 
-    // Generate time slots in 30-minute intervals
-    for (let hour = startHour; hour < endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += 30) {
-        const time = new Date(selectedDate)
-        time.setHours(hour, minute, 0, 0)
+  useEffect(() => {
+    let cancelled = false
 
-        // Format the time (e.g., "9:00 AM")
-        const formattedTime = time.toLocaleTimeString("en-US", {
-          hour: "numeric",
-          minute: "2-digit",
-          hour12: true,
-        })
-
-        // Determine if the slot is available (for demo purposes)
-        // In a real app, this would be based on the barber's schedule
-        const isAvailable = Math.random() > 0.3 // 70% chance of being available
-
-        slots.push({
-          time: formattedTime,
-          available: isAvailable,
-        })
+    const loadSlots = async () => {
+      setLoading(true)
+      try {
+        const slots = await AvailabilityService.getAvailableSlots(
+          barberId,
+          format(selectedDate, "yyyy-MM-dd"),
+          serviceDuration
+        )
+        if (!cancelled) setTimeSlots(slots)
+      } catch (error) {
+        logger.error("Error loading time slots", error)
+        if (!cancelled) setTimeSlots([])
+      } finally {
+        if (!cancelled) setLoading(false)
       }
     }
 
-    return slots
-  }
+    loadSlots()
+    return () => {
+      cancelled = true
+    }
+  }, [barberId, selectedDate, serviceDuration])
 
-  const timeSlots = generateTimeSlots()
+  // Format the time (e.g., "9:00 AM")
+  const formatTime = (time: string) => {
+    const [hours, minutes] = time.split(":")
+    const hour = Number.parseInt(hours)
+    const ampm = hour >= 12 ? "PM" : "AM"
+    const displayHour = hour % 12 || 12
+    return `${displayHour}:${minutes} ${ampm}`
+  }
 
   // Group time slots by morning and afternoon
-  const morningSlots = timeSlots.filter((slot) => {
-    const hour = Number.parseInt(slot.time.split(":")[0])
-    const isPM = slot.time.includes("PM")
-    return !isPM || (isPM && hour === 12)
-  })
+  const morningSlots = timeSlots.filter((slot) => Number.parseInt(slot.slot_time.split(":")[0]) < 12)
+  const afternoonSlots = timeSlots.filter((slot) => Number.parseInt(slot.slot_time.split(":")[0]) >= 12)
 
-  const afternoonSlots = timeSlots.filter((slot) => {
-    const hour = Number.parseInt(slot.time.split(":")[0])
-    const isPM = slot.time.includes("PM")
-    return isPM && hour !== 12
-  })
+  const renderSlots = (slots: AvailabilitySlot[]) => (
+    <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+      {slots.map((slot) => (
+        <Button
+          key={slot.slot_start}
+          variant="outline"
+          className={cn("h-12", !slot.available && "cursor-not-allowed opacity-50")}
+          disabled={!slot.available}
+          title={slot.reason ?? undefined}
+          onClick={() => slot.available && onSelectTime(slot.slot_time, slot)}
+        >
+          <span className="flex flex-col items-center">
+            {formatTime(slot.slot_time)}
+            {!isSameOffset(slot.slot_start, barberTimeZone, getLocalTimeZone()) && (
+              <span className="text-xs text-muted-foreground">{formatTimeInZone(slot.slot_start, getLocalTimeZone())}</span>
+            )}
+          </span>
+        </Button>
+      ))}
+    </div>
+  )
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground">Loading available times...</p>
+  }
+
+  if (timeSlots.length === 0) {
+    return <p className="text-sm text-muted-foreground">No available times on this date.</p>
+  }
+
+  const isFullyBooked = timeSlots.every((slot) => !slot.available)
 
   return (
     <div className="space-y-6">
-      <div>
-        <h3 className="text-lg font-medium mb-3">Morning</h3>
-        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
-          {morningSlots.map((slot, index) => (
-            <Button
-              key={index}
-              variant="outline"
-              className={cn("h-12", !slot.available && "cursor-not-allowed opacity-50")}
-              disabled={!slot.available}
-              onClick={() => slot.available && onSelectTime(slot.time)}
-            >
-              {slot.time}
-            </Button>
-          ))}
+      {morningSlots.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-3">Morning</h3>
+          {renderSlots(morningSlots)}
         </div>
-      </div>
+      )}
 
-      <div>
-        <h3 className="text-lg font-medium mb-3">Afternoon</h3>
-        <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
-          {afternoonSlots.map((slot, index) => (
-            <Button
-              key={index}
-              variant="outline"
-              className={cn("h-12", !slot.available && "cursor-not-allowed opacity-50")}
-              disabled={!slot.available}
-              onClick={() => slot.available && onSelectTime(slot.time)}
-            >
-              {slot.time}
-            </Button>
-          ))}
+      {afternoonSlots.length > 0 && (
+        <div>
+          <h3 className="text-lg font-medium mb-3">Afternoon</h3>
+          {renderSlots(afternoonSlots)}
         </div>
-      </div>
+      )}
+
+      {isFullyBooked && serviceId && (
+        <WaitlistJoin barberId={barberId} serviceId={serviceId} date={format(selectedDate, "yyyy-MM-dd")} />
+      )}
     </div>
   )
 }
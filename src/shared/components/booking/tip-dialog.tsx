@@ -0,0 +1,172 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/shared/components/ui/button"
+import { Input } from "@/shared/components/ui/input"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/shared/components/ui/dialog"
+import { useToast } from "@/shared/components/ui/use-toast"
+import { StripeElements } from "@/shared/components/payment/stripe-elements"
+import { BookingService } from "@/shared/lib/booking-service"
+import { calculateTipCents, getTipAmountError, TIP_PERCENTAGES } from "@/shared/lib/tipping"
+import { TipStatus } from "@/shared/types/booking"
+import { cn } from "@/shared/utils/utils"
+
+interface TipDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  bookingId: string
+  barberName: string
+  serviceTotal: number // services and add-ons, in dollars
+  onTipped: (status: TipStatus) => void
+}
+
+// Asks the client to tip after a completed appointment. The whole tip goes to the barber.
+export function TipDialog({ open, onOpenChange, bookingId, barberName, serviceTotal, onTipped }: TipDialogProps) {
+  const { toast } = useToast()
+  const serviceTotalCents = Math.round(serviceTotal * 100)
+  const [percentage, setPercentage] = useState<number | null>(TIP_PERCENTAGES[1])
+  const [customAmount, setCustomAmount] = useState("")
+  const [useSavedCard, setUseSavedCard] = useState(true)
+  const [clientSecret, setClientSecret] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!open) return
+    setPercentage(TIP_PERCENTAGES[1])
+    setCustomAmount("")
+    setUseSavedCard(true)
+    setClientSecret(null)
+  }, [open, bookingId])
+
+  const amountCents = percentage !== null
+    ? calculateTipCents(serviceTotalCents, percentage)
+    : Math.round((parseFloat(customAmount) || 0) * 100)
+  const amountError = getTipAmountError(amountCents)
+
+  const handleTip = async () => {
+    setLoading(true)
+    try {
+      const result = await BookingService.tipBooking(bookingId, amountCents, useSavedCard)
+      if (result.clientSecret) {
+        setClientSecret(result.clientSecret)
+        return
+      }
+      onTipped(result.status)
+      onOpenChange(false)
+      toast({
+        title: result.status === 'succeeded' ? "Thanks for the tip!" : "Tip sent",
+        description: `$${(amountCents / 100).toFixed(2)} goes to ${barberName}.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send the tip. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    try {
+      await BookingService.declineTip(bookingId)
+      onTipped('declined')
+    } catch (error) {
+      // Closing the prompt still works; it just comes back next time
+    }
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md w-full bg-white/5 border border-white/10 backdrop-blur-xl rounded-2xl shadow-2xl p-6">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-white">Tip {barberName}</DialogTitle>
+          <DialogDescription className="text-white/80">
+            How was your cut? The whole tip goes to your barber.
+          </DialogDescription>
+        </DialogHeader>
+
+        {clientSecret ? (
+          <StripeElements
+            clientSecret={clientSecret}
+            onPaymentComplete={() => {
+              // The webhook settles the tip once Stripe confirms the charge
+              onTipped('pending')
+              onOpenChange(false)
+            }}
+            onPaymentError={() => {}}
+          />
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2">
+              {TIP_PERCENTAGES.map((option) => (
+                <Button
+                  key={option}
+                  variant="outline"
+                  onClick={() => setPercentage(option)}
+                  className={cn(
+                    "flex flex-col h-auto py-3 border-white/20 text-white",
+                    percentage === option && "bg-secondary text-primary border-secondary hover:bg-secondary/90"
+                  )}
+                >
+                  <span className="font-bold">{option}%</span>
+                  <span className="text-xs">${(calculateTipCents(serviceTotalCents, option) / 100).toFixed(2)}</span>
+                </Button>
+              ))}
+            </div>
+            <Input
+              type="number"
+              inputMode="decimal"
+              min="1"
+              step="0.01"
+              placeholder="Custom amount"
+              value={customAmount}
+              onFocus={() => setPercentage(null)}
+              onChange={(e) => {
+                setPercentage(null)
+                setCustomAmount(e.target.value)
+              }}
+              className="bg-white/10 border-white/20 text-white"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => setUseSavedCard(true)}
+                className={cn("border-white/20 text-white", useSavedCard && "bg-white/20")}
+              >
+                Card on file
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setUseSavedCard(false)}
+                className={cn("border-white/20 text-white", !useSavedCard && "bg-white/20")}
+              >
+                New card
+              </Button>
+            </div>
+            {amountError && amountCents > 0 && (
+              <p className="text-sm text-red-400">{amountError}</p>
+            )}
+            <Button
+              onClick={handleTip}
+              disabled={loading || !!amountError}
+              className="w-full bg-secondary text-primary font-semibold hover:bg-secondary/90"
+            >
+              {loading ? "Sending..." : `Tip $${(amountCents / 100).toFixed(2)}`}
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={handleDecline}
+              disabled={loading}
+              className="w-full text-white/70"
+            >
+              No thanks
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,108 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/shared/components/ui/button"
+import { useToast } from "@/shared/components/ui/use-toast"
+import { useAuth } from "@/shared/hooks/use-auth-zustand"
+import { WaitlistService } from "@/shared/lib/waitlist-service"
+import { WaitlistEntry } from "@/shared/types/waitlist"
+import { logger } from "@/shared/lib/logger"
+import { cn } from "@/shared/utils/utils"
+
+interface WaitlistJoinProps {
+  barberId: string
+  serviceId: string
+  date: string // yyyy-MM-dd in the barber's timezone
+  className?: string
+}
+
+// Shown when a day is fully booked so the client can be offered a spot if one frees up
+export function WaitlistJoin({ barberId, serviceId, date, className }: WaitlistJoinProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [entry, setEntry] = useState<WaitlistEntry | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!user) return
+    let cancelled = false
+
+    WaitlistService.getActiveEntry(barberId, date)
+      .then((activeEntry) => {
+        if (!cancelled) setEntry(activeEntry)
+      })
+      .catch((error) => logger.error("Error loading waitlist entry", error))
+
+    return () => {
+      cancelled = true
+    }
+  }, [user, barberId, date])
+
+  const handleJoin = async () => {
+    setLoading(true)
+    try {
+      setEntry(await WaitlistService.joinWaitlist(barberId, serviceId, date))
+      toast({
+        title: "You're on the waitlist",
+        description: "We'll notify you if a spot opens up on this day.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to join the waitlist. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!entry) return
+    setLoading(true)
+    try {
+      await WaitlistService.leaveWaitlist(entry.id)
+      setEntry(null)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to leave the waitlist. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (!user) {
+    return (
+      <p className={cn("text-sm text-muted-foreground", className)}>
+        Sign in to join the waitlist for this day.
+      </p>
+    )
+  }
+
+  if (entry) {
+    return (
+      <div className={cn("space-y-2 text-center", className)}>
+        <p className="text-sm text-muted-foreground">
+          {entry.status === "offered"
+            ? "A spot has been held for you. Pick the open time to book it before the hold runs out."
+            : "You're on the waitlist. We'll notify you if a spot opens up."}
+        </p>
+        <Button type="button" variant="outline" size="sm" onClick={handleLeave} disabled={loading}>
+          Leave waitlist
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("space-y-2 text-center", className)}>
+      <p className="text-sm text-muted-foreground">This day is fully booked.</p>
+      <Button type="button" size="sm" onClick={handleJoin} disabled={loading}>
+        {loading ? "Joining..." : "Join the waitlist"}
+      </Button>
+    </div>
+  )
+}
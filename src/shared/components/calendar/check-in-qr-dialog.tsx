@@ -0,0 +1,71 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import QRCode from 'react-qr-code'
+import { Loader2, QrCode } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/shared/components/ui/dialog'
+import { supabase } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+
+interface CheckInQrDialogProps {
+  barberId: string
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+// The barber's check-in code as a QR code; clients scan it with their phone camera when they arrive
+export function CheckInQrDialog({ barberId, open, onOpenChange }: CheckInQrDialogProps) {
+  const [checkInCode, setCheckInCode] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open || checkInCode) return
+
+    const loadCode = async () => {
+      const { data, error } = await supabase
+        .from('barbers')
+        .select('check_in_code')
+        .eq('id', barberId)
+        .single()
+
+      if (error) {
+        logger.error('Error loading check-in code', error)
+        return
+      }
+      setCheckInCode(data.check_in_code)
+    }
+
+    loadCode()
+  }, [open, barberId, checkInCode])
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-black/95 backdrop-blur-3xl border border-white/20 max-w-sm rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white flex items-center gap-2">
+            <QrCode className="h-5 w-5 text-secondary" />
+            Check-in QR Code
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Clients scan this when they arrive to check in to their appointment with you.
+            Print it or leave it open at your chair.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="flex justify-center py-4">
+          {checkInCode ? (
+            <div className="p-6 bg-white rounded-3xl shadow-lg">
+              <QRCode
+                value={`${window.location.origin}/check-in/${checkInCode}`}
+                size={200}
+                level="H"
+                fgColor="#262b2e"
+                bgColor="#ffffff"
+              />
+            </div>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-secondary" />
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
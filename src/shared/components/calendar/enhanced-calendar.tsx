@@ -25,14 +25,39 @@ import {
   Loader2,
   ExternalLink,
   Download,
-  Plus
+  Plus,
+  Repeat,
+  Users,
+  QrCode,
+  LogIn,
+  Play,
+  CheckCircle
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { supabase } from '@/shared/lib/supabase'
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { format, addMonths, subMonths, startOfMonth, endOfMonth, eachDayOfInterval, isSameMonth, isSameDay, isToday, startOfWeek, endOfWeek } from 'date-fns'
 import { addToGoogleCalendar, addMultipleToGoogleCalendar, downloadICalFile } from '@/shared/lib/google-calendar-utils'
+import { DEFAULT_BARBER_TIMEZONE, formatTimeInZone, getLocalTimeZone, isSameOffset } from '@/shared/lib/timezone-utils'
 import { ManualAppointmentForm } from './manual-appointment-form'
+import { RecurringAppointmentDialog } from './recurring-appointment-dialog'
+import { CheckInQrDialog } from './check-in-qr-dialog'
+import { BookingService } from '@/shared/lib/booking-service'
+import { ShopService } from '@/shared/lib/shop-service'
+import type { ShopMember } from '@/shared/types'
+import { Booking } from '@/shared/types/booking'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { getNoShowBlocker } from '@/shared/lib/cancellation-policy'
+import { describeGroup } from '@/shared/lib/booking-group'
+import {
+  APPOINTMENT_STAGE_LABELS,
+  AppointmentStage,
+  describeArrival,
+  getAppointmentStage,
+  getCheckInBlocker,
+  getCompleteBlocker,
+  getStartServiceBlocker
+} from '@/shared/lib/appointment-lifecycle'
 
 interface CalendarEvent {
   id: string
@@ -51,20 +76,38 @@ interface CalendarEvent {
     basePrice: number
     addonTotal: number
     addonNames: string[]
+    services: { name: string; price: number }[]
     isGuest: boolean
     guestEmail: string
     guestPhone: string
     isBarberView: boolean
+    timeZone: string
+    barberId: string
+    serviceDuration: number
+    seriesId: string | null
+    group: { id: string; name: string | null; size: number; memberName: string | null } | null
+    stage: AppointmentStage
+    endTime: string | null
+    checkedInAt: string | null
+    serviceStartedAt: string | null
+    completedAt: string | null
   }
 }
 
+type LifecycleAction = 'check_in' | 'start' | 'complete'
+
+// Tells the shop's barbers apart on the shop calendar
+const SHOP_BARBER_COLORS = ['#f59e0b', '#3b82f6', '#22c55e', '#ec4899', '#a855f7', '#14b8a6', '#ef4444', '#eab308']
+
 interface EnhancedCalendarProps {
   className?: string
   onEventClick?: (event: CalendarEvent) => void
   onDateSelect?: (date: Date) => void
+  // Show every active barber's bookings in this shop, read-only, instead of the user's own
+  shopId?: string
 }
 
-export function EnhancedCalendar({ className, onEventClick, onDateSelect }: EnhancedCalendarProps) {
+export function EnhancedCalendar({ className, onEventClick, onDateSelect, shopId }: EnhancedCalendarProps) {
   const [currentDate, setCurrentDate] = useState(new Date())
   const [selectedDate, setSelectedDate] = useState<Date | null>(null)
   const [events, setEvents] = useState<CalendarEvent[]>([])
@@ -76,7 +119,15 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
   const [isMarkingMissed, setIsMarkingMissed] = useState(false)
   const [showManualAppointmentForm, setShowManualAppointmentForm] = useState(false)
   const [isBarber, setIsBarber] = useState(false)
+  const [seriesAction, setSeriesAction] = useState<'edit' | 'cancel' | null>(null)
+  const [isCancellingGroup, setIsCancellingGroup] = useState(false)
+  const [barberId, setBarberId] = useState<string | null>(null)
+  const [lifecycleAction, setLifecycleAction] = useState<LifecycleAction | null>(null)
+  const [showCheckInQr, setShowCheckInQr] = useState(false)
+  const [shopBarbers, setShopBarbers] = useState<ShopMember[]>([])
+  const [barberFilter, setBarberFilter] = useState<string | null>(null)
   const { user } = useAuth()
+  const { toast } = useToast()
 
   // Minimum swipe distance (in px)
   const minSwipeDistance = 50
@@ -96,7 +147,33 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
     }
     logger.debug('EnhancedCalendar: Fetching bookings for user', { userId: user.id })
     fetchBookings()
-  }, [user])
+  }, [user, shopId])
+
+  const shopBarberIds = shopBarbers.map(member => member.barber_id).join(',')
+
+  // Keep check-ins and status changes live while the calendar is open
+  useEffect(() => {
+    if (!user || (shopId && !shopBarberIds)) return
+
+    const filter = shopId
+      ? `barber_id=in.(${shopBarberIds})`
+      : barberId ? `barber_id=eq.${barberId}` : `client_id=eq.${user.id}`
+    const channel = supabase
+      .channel(`calendar-bookings-${shopId || barberId || user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'bookings', filter }, () => {
+        fetchBookings()
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, barberId, shopId, shopBarberIds])
+
+  // Realtime refreshes replace the events; keep the open dialog in step with them
+  useEffect(() => {
+    setSelectedEvent(prev => prev ? events.find(event => event.id === prev.id) || prev : null)
+  }, [events])
 
   // Touch gesture handlers for mobile swipe navigation
   const onTouchStart = (e: React.TouchEvent) => {
@@ -126,23 +203,47 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
     try {
       logger.debug('EnhancedCalendar: Starting fetchBookings for user', { userId: user?.id })
       
-      // Check if user is a barber or client
-      const { data: barberData, error: barberError } = await supabase
-        .from('barbers')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single()
+      // Check if user is a barber or client; the shop calendar is neither
+      const { data: barberData, error: barberError } = shopId
+        ? { data: null, error: null }
+        : await supabase
+            .from('barbers')
+            .select('id, timezone')
+            .eq('user_id', user?.id)
+            .single()
 
       logger.debug('EnhancedCalendar: Barber data', { barberData, error: barberError })
       
       // Update isBarber state based on barberData
       setIsBarber(!!barberData)
+      setBarberId(barberData?.id || null)
+
+      // Shop view: the shop's active barbers and the time zone each works in
+      let roster: ShopMember[] = []
+      let shopTimeZones = new Map<string, string>()
+      if (shopId) {
+        roster = (await ShopService.getMembers(shopId)).filter(member => member.status === 'active' && member.barber_id)
+        setShopBarbers(roster)
+
+        const { data: rosterBarbers } = await supabase
+          .from('barbers')
+          .select('id, timezone')
+          .in('id', roster.map(member => member.barber_id))
+        shopTimeZones = new Map((rosterBarbers || []).map(barber => [barber.id, barber.timezone]))
+      }
+      const barberView = !!barberData || !!shopId
+      const barberIds = shopId ? roster.map(member => member.barber_id as string) : barberData ? [barberData.id] : []
+
+      if (shopId && barberIds.length === 0) {
+        setEvents([])
+        return
+      }
       
       let bookingsQuery;
       
-      if (barberData) {
-        // User is a barber - fetch their bookings
-        logger.debug('EnhancedCalendar: User is a barber, fetching barber bookings')
+      if (barberView) {
+        // User is a barber (or manages the shop) - fetch the barbers' bookings
+        logger.debug('EnhancedCalendar: Fetching barber bookings', { barberIds })
         bookingsQuery = supabase
           .from('bookings')
           .select(`
@@ -155,9 +256,16 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                 name,
                 price
               )
-            )
+            ),
+            booking_services (
+              name,
+              price,
+              duration,
+              position
+            ),
+            booking_group:group_id (id, name)
           `)
-          .eq('barber_id', barberData.id)
+          .in('barber_id', barberIds)
           .eq('payment_status', 'succeeded') // Only show successful payments
           .order('date', { ascending: true })
       } else {
@@ -170,6 +278,7 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
             barbers:barber_id(
               id,
               user_id,
+              timezone,
               profiles:user_id(name, avatar_url)
             ),
             services:service_id(name, duration, price),
@@ -181,7 +290,14 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                 name,
                 price
               )
-            )
+            ),
+            booking_services (
+              name,
+              price,
+              duration,
+              position
+            ),
+            booking_group:group_id (id, name)
           `)
           .eq('client_id', user?.id)
           .eq('payment_status', 'succeeded') // Only show successful payments
@@ -206,7 +322,7 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
         let client = null
         let barber = null
         
-        if (barberData) {
+        if (barberView) {
           // Barber view - fetch service and client info
           if (!service) {
             const { data: serviceData } = await supabase
@@ -230,11 +346,23 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
           barber = booking.barbers
         }
 
+        // Multi-service bookings list every service; older rows may only have the service join
+        const bookedServices: { name: string; price: number; duration: number; position: number }[] =
+          [...(booking.booking_services || [])].sort((a: any, b: any) => a.position - b.position)
+        const serviceName = bookedServices.length > 0
+          ? bookedServices.map(s => s.name).join(' + ')
+          : service?.name || ''
+        const serviceDuration = bookedServices.length > 0
+          ? bookedServices.reduce((total, s) => total + s.duration, 0)
+          : service?.duration || 60
+
         const startDate = new Date(booking.date)
-        const endDate = new Date(startDate.getTime() + (service?.duration || 60) * 60000)
+        const endDate = booking.end_time
+          ? new Date(booking.end_time)
+          : new Date(startDate.getTime() + serviceDuration * 60000)
 
         // Calculate values in dollars
-        const basePrice = service?.price || 0
+        const basePrice = booking.service_price ?? service?.price ?? 0
         const addonTotal = booking.addon_total || 0
         const platformFee = booking.platform_fee || 0
         const barberPayout = typeof booking.barber_payout === 'number'
@@ -259,12 +387,12 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
 
         // Create title based on user role
         let title
-        if (barberData) {
-          // Barber view: "Service - Client Name"
-          title = `${service?.name || 'Service'} - ${client?.name || booking.guest_name || 'Guest'}`
+        if (barberView) {
+          // Barber view: "Service - Client Name" (the person's name for group members)
+          title = `${serviceName || 'Service'} - ${booking.group_member_name || client?.name || booking.guest_name || 'Guest'}`
         } else {
           // Client view: "Service with Barber Name"
-          title = `${service?.name || 'Service'} with ${barber?.profiles?.name || 'Barber'}`
+          title = `${serviceName || 'Service'} with ${barber?.profiles?.name || 'Barber'}`
         }
 
         return {
@@ -272,22 +400,42 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
           title,
           start: startDate.toISOString(),
           end: endDate.toISOString(),
-          backgroundColor: barberData ? '#ffc107' : '#3b82f6', // Yellow for barber, blue for client
-          borderColor: barberData ? '#ff8c00' : '#1d4ed8',
+          backgroundColor: barberView ? '#ffc107' : '#3b82f6', // Yellow for barber, blue for client
+          borderColor: barberView ? '#ff8c00' : '#1d4ed8',
           textColor: '#FFFFFF',
           extendedProps: {
             status: booking.status,
-            serviceName: service?.name || '',
-            clientName: client?.name || booking.guest_name || 'Guest',
-            barberName: barber?.profiles?.name || 'Barber',
+            serviceName,
+            clientName: booking.group_member_name || client?.name || booking.guest_name || 'Guest',
+            barberName: barber?.profiles?.name
+              || roster.find(member => member.barber_id === booking.barber_id)?.profile?.name
+              || 'Barber',
             price: barberPayout,
             basePrice: basePrice,
             addonTotal: addonTotal,
             addonNames: addonNames,
+            services: bookedServices.map(s => ({ name: s.name, price: Number(s.price) })),
             isGuest: !client,
             guestEmail: booking.guest_email,
             guestPhone: booking.guest_phone,
-            isBarberView: !!barberData
+            isBarberView: barberView,
+            timeZone: barberData?.timezone || barber?.timezone || shopTimeZones.get(booking.barber_id) || DEFAULT_BARBER_TIMEZONE,
+            barberId: booking.barber_id,
+            serviceDuration,
+            seriesId: booking.series_id || null,
+            group: booking.booking_group
+              ? {
+                  id: booking.booking_group.id,
+                  name: booking.booking_group.name,
+                  size: bookings.filter((b: any) => b.group_id === booking.group_id && b.status !== 'cancelled').length,
+                  memberName: booking.group_member_name || null
+                }
+              : null,
+            stage: getAppointmentStage(booking),
+            endTime: endDate.toISOString(),
+            checkedInAt: booking.checked_in_at || null,
+            serviceStartedAt: booking.service_started_at || null,
+            completedAt: booking.completed_at || null
           }
         }
       }))
@@ -309,10 +457,15 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
   const getEventsForDate = (date: Date) => {
     return events.filter(event => {
       const eventDate = new Date(event.start)
-      return isSameDay(eventDate, date)
+      return isSameDay(eventDate, date) && (!barberFilter || event.extendedProps.barberId === barberFilter)
     })
   }
 
+  const getBarberColor = (eventBarberId: string) => {
+    const index = shopBarbers.findIndex(member => member.barber_id === eventBarberId)
+    return SHOP_BARBER_COLORS[Math.max(index, 0) % SHOP_BARBER_COLORS.length]
+  }
+
   const hasEvents = (date: Date) => {
     return getEventsForDate(date).length > 0
   }
@@ -364,33 +517,22 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
     
     setIsMarkingMissed(true)
     try {
-      // Update the booking status in the database
-      const { error } = await supabase
-        .from('bookings')
-        .update({ 
-          status: 'cancelled', // Using 'cancelled' instead of 'missed' due to DB constraint
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedEvent.id)
-
-      if (error) {
-        logger.error('Error marking booking as missed', error)
-        throw error
-      }
+      // The no-show API also charges the no-show fee from the barber's cancellation policy
+      const result = await BookingService.markNoShow(selectedEvent.id)
 
       // Update the local event state
       setSelectedEvent(prev => prev ? {
         ...prev,
         extendedProps: {
           ...prev.extendedProps,
-          status: 'cancelled'
+          status: 'no_show'
         }
       } : null)
 
       // Refresh the events to update the calendar
       await fetchBookings()
 
-      logger.debug('Booking marked as missed successfully')
+      logger.debug('Booking marked as missed successfully', { fee: result.fee })
     } catch (error) {
       logger.error('Failed to mark booking as missed', error)
     } finally {
@@ -398,6 +540,58 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
     }
   }
 
+  const handleLifecycleAction = async (action: LifecycleAction) => {
+    if (!selectedEvent) return
+
+    setLifecycleAction(action)
+    try {
+      if (action === 'check_in') {
+        await BookingService.checkIn(selectedEvent.id)
+      } else if (action === 'start') {
+        await BookingService.startService(selectedEvent.id)
+      } else {
+        await BookingService.completeBooking(selectedEvent.id)
+      }
+      await fetchBookings()
+    } catch (error) {
+      logger.error('Failed to update appointment', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update appointment.',
+        variant: 'destructive'
+      })
+    } finally {
+      setLifecycleAction(null)
+    }
+  }
+
+  // Lifecycle checks take the booking fields the shared rules expect
+  const toLifecycleBooking = (event: CalendarEvent) => ({
+    date: event.start,
+    end_time: event.extendedProps.endTime,
+    status: event.extendedProps.status as Booking['status'],
+    checked_in_at: event.extendedProps.checkedInAt,
+    service_started_at: event.extendedProps.serviceStartedAt
+  })
+
+  const handleCancelGroup = async () => {
+    const group = selectedEvent?.extendedProps.group
+    if (!group || !confirm(`Cancel every upcoming appointment in this group (${describeGroup(group)})?`)) return
+
+    setIsCancellingGroup(true)
+    try {
+      const result = await BookingService.cancelGroup(group.id)
+      setShowEventDialog(false)
+      setSelectedEvent(null)
+      await fetchBookings()
+      logger.debug('Group booking cancelled', { groupId: group.id, cancelled: result.bookings.length, refunded: result.refunded })
+    } catch (error) {
+      logger.error('Failed to cancel group booking', error)
+    } finally {
+      setIsCancellingGroup(false)
+    }
+  }
+
   const formatTime = (date: Date) => {
     return format(date, 'h:mm a')
   }
@@ -822,6 +1016,34 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
           </button>
         </div>
 
+        {/* Shop view: one barber or everyone */}
+        {shopId && shopBarbers.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-4">
+            <button
+              onClick={() => setBarberFilter(null)}
+              className={cn(
+                "px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors",
+                !barberFilter ? "bg-secondary text-black border-secondary" : "bg-white/5 text-white/80 border-white/20 hover:bg-white/10"
+              )}
+            >
+              All barbers
+            </button>
+            {shopBarbers.map(member => (
+              <button
+                key={member.id}
+                onClick={() => setBarberFilter(member.barber_id)}
+                className={cn(
+                  "px-3 py-1.5 rounded-full text-xs font-semibold border transition-colors flex items-center gap-1.5",
+                  barberFilter === member.barber_id ? "bg-white/20 text-white border-white/40" : "bg-white/5 text-white/80 border-white/20 hover:bg-white/10"
+                )}
+              >
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getBarberColor(member.barber_id as string) }} />
+                {member.profile?.name || 'Barber'}
+              </button>
+            ))}
+          </div>
+        )}
+
         {/* Weekdays Header + Calendar Grid aligned */}
         <div className="w-full">
           <div className="weekdays-header">
@@ -889,6 +1111,14 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
               <Plus className="w-4 h-4 mr-2" />
               Add Manual Appointment
             </Button>
+            <Button
+              onClick={() => setShowCheckInQr(true)}
+              variant="outline"
+              className="w-full mt-2 bg-white/5 border-white/20 text-white hover:bg-white/10 rounded-lg"
+            >
+              <QrCode className="w-4 h-4 mr-2" />
+              Show Check-in QR Code
+            </Button>
           </div>
         )}
 
@@ -907,7 +1137,7 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                   const now = new Date()
                   const isPast = eventEnd < now
                   const isUpcoming = new Date(event.start) > now
-                  const isMissed = event.extendedProps.status === 'cancelled'
+                  const isMissed = event.extendedProps.status === 'cancelled' || event.extendedProps.status === 'no_show'
                   
                   return (
                     <div
@@ -929,11 +1159,23 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
-                          <h4 className="text-white font-semibold text-sm mb-1">
+                          <h4 className="text-white font-semibold text-sm mb-1 flex items-center gap-1">
                             {event.extendedProps.serviceName}
+                            {event.extendedProps.seriesId && (
+                              <Repeat className="w-3 h-3 text-white/60" aria-label="Recurring appointment" />
+                            )}
+                            {event.extendedProps.group && (
+                              <Users className="w-3 h-3 text-white/60" aria-label="Group booking" />
+                            )}
                           </h4>
-                          <p className="text-white/80 text-xs mb-2">
+                          <p className="text-white/80 text-xs mb-2 flex items-center gap-1.5">
                             {event.extendedProps.clientName}
+                            {shopId && (
+                              <>
+                                <span className="w-2 h-2 rounded-full ml-1" style={{ backgroundColor: getBarberColor(event.extendedProps.barberId) }} />
+                                <span className="text-white/60">{event.extendedProps.barberName}</span>
+                              </>
+                            )}
                           </p>
                           <div className={cn(
                             "flex items-center text-xs",
@@ -941,6 +1183,9 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                           )}>
                             <Clock className={cn("w-3 h-3 mr-1", isMissed ? "text-red-400" : isPast ? "text-green-400" : "text-secondary")} />
                             <span className="font-medium">{formatTime(new Date(event.start))}</span>
+                            {(event.extendedProps.stage === 'checked_in' || event.extendedProps.stage === 'in_service') && (
+                              <span className="ml-2 text-blue-300">· {APPOINTMENT_STAGE_LABELS[event.extendedProps.stage]}</span>
+                            )}
                           </div>
                         </div>
                         <div className="text-right">
@@ -1004,10 +1249,10 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                 variant={selectedEvent?.extendedProps.status === 'confirmed' ? 'default' : 'secondary'}
                 className={cn(
                   "text-xs font-semibold px-3 py-1",
-                  selectedEvent?.extendedProps.status === 'cancelled' && "bg-red-500/20 text-red-400 border-red-500/30"
+                  (selectedEvent?.extendedProps.status === 'cancelled' || selectedEvent?.extendedProps.status === 'no_show') && "bg-red-500/20 text-red-400 border-red-500/30"
                 )}
               >
-                {selectedEvent?.extendedProps.status}
+                {selectedEvent && APPOINTMENT_STAGE_LABELS[selectedEvent.extendedProps.stage]}
               </Badge>
             </div>
           </DialogHeader>
@@ -1028,8 +1273,20 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                     <h3 className="text-white font-bold text-xl mb-1">
                       {selectedEvent.extendedProps.serviceName}
                     </h3>
-                    <p className="text-white/60 text-sm">
+                    <p className="text-white/60 text-sm flex items-center gap-1">
                       {selectedEvent.extendedProps.isBarberView ? 'Client Request' : 'Your Service'}
+                      {selectedEvent.extendedProps.seriesId && (
+                        <>
+                          <Repeat className="w-3 h-3 ml-1" />
+                          Recurring
+                        </>
+                      )}
+                      {selectedEvent.extendedProps.group && (
+                        <>
+                          <Users className="w-3 h-3 ml-1" />
+                          {describeGroup(selectedEvent.extendedProps.group)}
+                        </>
+                      )}
                     </p>
                   </div>
                   <div className="text-right">
@@ -1099,27 +1356,43 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                       <p className="text-white/60 text-sm mt-1">
                         {formatDate(new Date(selectedEvent.start))}
                       </p>
+                      {!isSameOffset(selectedEvent.start, selectedEvent.extendedProps.timeZone, getLocalTimeZone()) && (
+                        <p className="text-white/60 text-sm mt-1">
+                          {formatTimeInZone(selectedEvent.start, selectedEvent.extendedProps.timeZone)} barber&apos;s time
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
               </div>
               
               {/* Price Breakdown */}
-              {selectedEvent.extendedProps.addonTotal > 0 && (
+              {(selectedEvent.extendedProps.addonTotal > 0 || selectedEvent.extendedProps.services.length > 1) && (
                 <div className="rounded-2xl p-6 bg-white/5 border border-white/10">
                   <h4 className="text-white font-semibold text-lg mb-4 flex items-center gap-2">
                     <DollarSign className="w-5 h-5 text-secondary" />
                     Price Breakdown
                   </h4>
                   <div className="space-y-3">
-                    <div className="flex justify-between items-center py-2 border-b border-white/10">
-                      <span className="text-white/80">Base Service</span>
-                      <span className="text-white font-semibold">${selectedEvent.extendedProps.basePrice}</span>
-                    </div>
-                    <div className="flex justify-between items-center py-2 border-b border-white/10">
-                      <span className="text-white/80">Add-ons</span>
-                      <span className="text-white font-semibold">${selectedEvent.extendedProps.addonTotal}</span>
-                    </div>
+                    {selectedEvent.extendedProps.services.length > 1 ? (
+                      selectedEvent.extendedProps.services.map((bookedService, index) => (
+                        <div key={index} className="flex justify-between items-center py-2 border-b border-white/10">
+                          <span className="text-white/80">{bookedService.name}</span>
+                          <span className="text-white font-semibold">${bookedService.price.toFixed(2)}</span>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="flex justify-between items-center py-2 border-b border-white/10">
+                        <span className="text-white/80">Base Service</span>
+                        <span className="text-white font-semibold">${selectedEvent.extendedProps.basePrice}</span>
+                      </div>
+                    )}
+                    {selectedEvent.extendedProps.addonTotal > 0 && (
+                      <div className="flex justify-between items-center py-2 border-b border-white/10">
+                        <span className="text-white/80">Add-ons</span>
+                        <span className="text-white font-semibold">${selectedEvent.extendedProps.addonTotal}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between items-center py-2 pt-3">
                       <span className="text-white font-bold text-lg">Total</span>
                       <span className="text-secondary font-bold text-xl">${selectedEvent.extendedProps.price}</span>
@@ -1142,10 +1415,86 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                 </div>
               )}
               
+              {/* Check-in, start and completion times */}
+              {selectedEvent.extendedProps.checkedInAt && (
+                <div className="rounded-2xl p-4 border bg-white/5 border-white/10 space-y-2 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="text-white/60">Checked in</span>
+                    <span className="text-white">
+                      {formatTime(new Date(selectedEvent.extendedProps.checkedInAt))}
+                      <span className="text-white/60"> · {describeArrival({ date: selectedEvent.start, checked_in_at: selectedEvent.extendedProps.checkedInAt })}</span>
+                    </span>
+                  </div>
+                  {selectedEvent.extendedProps.serviceStartedAt && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-white/60">Service started</span>
+                      <span className="text-white">{formatTime(new Date(selectedEvent.extendedProps.serviceStartedAt))}</span>
+                    </div>
+                  )}
+                  {selectedEvent.extendedProps.completedAt && (
+                    <div className="flex items-center justify-between">
+                      <span className="text-white/60">Completed</span>
+                      <span className="text-white">{formatTime(new Date(selectedEvent.extendedProps.completedAt))}</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="space-y-4">
+                {/* Appointment lifecycle: check in, start, complete. The shop calendar is read-only. */}
+                {!shopId && !getCheckInBlocker(toLifecycleBooking(selectedEvent)) && (
+                  <Button
+                    onClick={() => handleLifecycleAction('check_in')}
+                    disabled={!!lifecycleAction}
+                    className="w-full bg-blue-500 hover:bg-blue-600 text-white"
+                  >
+                    {lifecycleAction === 'check_in' ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <LogIn className="w-4 h-4 mr-2" />
+                    )}
+                    {selectedEvent.extendedProps.isBarberView ? 'Check In Client' : "I'm Here - Check In"}
+                  </Button>
+                )}
+                {selectedEvent.extendedProps.isBarberView && !shopId && (
+                  !getStartServiceBlocker(toLifecycleBooking(selectedEvent)) ||
+                  !getCompleteBlocker(toLifecycleBooking(selectedEvent))
+                ) && (
+                  <div className="flex gap-3">
+                    {!getStartServiceBlocker(toLifecycleBooking(selectedEvent)) && (
+                      <Button
+                        onClick={() => handleLifecycleAction('start')}
+                        disabled={!!lifecycleAction}
+                        className="flex-1 bg-secondary text-black hover:bg-secondary/90"
+                      >
+                        {lifecycleAction === 'start' ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <Play className="w-4 h-4 mr-2" />
+                        )}
+                        Start Service
+                      </Button>
+                    )}
+                    {!getCompleteBlocker(toLifecycleBooking(selectedEvent)) && (
+                      <Button
+                        onClick={() => handleLifecycleAction('complete')}
+                        disabled={!!lifecycleAction}
+                        className="flex-1 bg-green-500 hover:bg-green-600 text-white"
+                      >
+                        {lifecycleAction === 'complete' ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <CheckCircle className="w-4 h-4 mr-2" />
+                        )}
+                        Complete
+                      </Button>
+                    )}
+                  </div>
+                )}
+
                 {/* Barber-specific Actions */}
-                {selectedEvent.extendedProps.isBarberView && selectedEvent.extendedProps.status !== 'cancelled' && (
+                {selectedEvent.extendedProps.isBarberView && !shopId && !getNoShowBlocker({ date: selectedEvent.start, status: selectedEvent.extendedProps.status, checked_in_at: selectedEvent.extendedProps.checkedInAt }) && (
                   <div className="flex gap-3">
                     <Button
                       onClick={handleMarkAsMissed}
@@ -1168,6 +1517,50 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
                   </div>
                 )}
                 
+                {/* Recurring series actions */}
+                {selectedEvent.extendedProps.isBarberView && !shopId &&
+                  selectedEvent.extendedProps.seriesId &&
+                  ['pending', 'confirmed'].includes(selectedEvent.extendedProps.status) &&
+                  new Date(selectedEvent.start) > new Date() && (
+                  <div className="flex gap-3">
+                    <Button
+                      onClick={() => setSeriesAction('edit')}
+                      variant="outline"
+                      className="flex-1 bg-white/5 border-white/20 text-white hover:bg-white/10"
+                    >
+                      <Repeat className="w-4 h-4 mr-2" />
+                      Edit Recurring
+                    </Button>
+                    <Button
+                      onClick={() => setSeriesAction('cancel')}
+                      variant="outline"
+                      className="flex-1 bg-red-500/10 border-red-500/30 text-red-400 hover:bg-red-500/20"
+                    >
+                      <X className="w-4 h-4 mr-2" />
+                      Cancel Recurring
+                    </Button>
+                  </div>
+                )}
+
+                {/* Group booking actions */}
+                {!shopId && selectedEvent.extendedProps.group &&
+                  ['pending', 'confirmed'].includes(selectedEvent.extendedProps.status) &&
+                  new Date(selectedEvent.start) > new Date() && (
+                  <Button
+                    onClick={handleCancelGroup}
+                    disabled={isCancellingGroup}
+                    variant="outline"
+                    className="w-full bg-red-500/10 border-red-500/30 text-red-400 hover:bg-red-500/20"
+                  >
+                    {isCancellingGroup ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Users className="w-4 h-4 mr-2" />
+                    )}
+                    Cancel Whole Group
+                  </Button>
+                )}
+
                 {/* Calendar Integration */}
                 <div className="rounded-2xl p-4 bg-white/5 border border-white/10">
                   <h4 className="text-white font-semibold text-sm mb-3 flex items-center gap-2">
@@ -1244,6 +1637,31 @@ export function EnhancedCalendar({ className, onEventClick, onDateSelect }: Enha
         </DialogContent>
       </Dialog>
 
+      {selectedEvent && (
+        <RecurringAppointmentDialog
+          mode={seriesAction}
+          booking={{
+            id: selectedEvent.id,
+            barberId: selectedEvent.extendedProps.barberId,
+            serviceDuration: selectedEvent.extendedProps.serviceDuration,
+            timeZone: selectedEvent.extendedProps.timeZone
+          }}
+          onClose={() => setSeriesAction(null)}
+          onChanged={() => {
+            setShowEventDialog(false)
+            fetchBookings()
+          }}
+        />
+      )}
+
+      {barberId && (
+        <CheckInQrDialog
+          barberId={barberId}
+          open={showCheckInQr}
+          onOpenChange={setShowCheckInQr}
+        />
+      )}
+
       {/* Manual Appointment Form */}
       <ManualAppointmentForm
         isOpen={showManualAppointmentForm}
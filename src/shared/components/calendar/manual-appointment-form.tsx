@@ -14,6 +14,8 @@ import { supabase } from '@/shared/lib/supabase'
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { Calendar, Clock, User, DollarSign, Loader2, Plus, X, Scissors, AlertCircle } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { BookingService } from '@/shared/lib/booking-service'
+import { describeRecurrenceRule, getOccurrenceDates, getRecurrenceRuleError, RecurrenceRule } from '@/shared/lib/recurrence-rule'
 
 interface ManualAppointmentFormProps {
   isOpen: boolean
@@ -54,7 +56,9 @@ export function ManualAppointmentForm({
     duration: 60,
     price: 0,
     notes: '',
-    status: 'confirmed' as 'pending' | 'confirmed' | 'completed' | 'cancelled'
+    status: 'confirmed' as 'pending' | 'confirmed' | 'completed' | 'cancelled',
+    repeatWeeks: 0, // 0 = does not repeat
+    repeatUntil: ''
   })
 
   // Fetch barber ID and services when component opens
@@ -106,6 +110,10 @@ export function ManualAppointmentForm({
     }
   }
 
+  const repeatRule: RecurrenceRule | null = formData.repeatWeeks > 0
+    ? { intervalWeeks: formData.repeatWeeks, startTime: formData.time, startsOn: formData.date, endsOn: formData.repeatUntil }
+    : null
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {}
 
@@ -134,6 +142,13 @@ export function ManualAppointmentForm({
       newErrors.time = 'Selected time conflicts with existing appointments'
     }
 
+    if (repeatRule) {
+      const ruleError = getRecurrenceRuleError(repeatRule)
+      if (ruleError) {
+        newErrors.repeatUntil = ruleError
+      }
+    }
+
     // Validate email format if provided
     if (formData.clientEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(formData.clientEmail)) {
       newErrors.clientEmail = 'Please enter a valid email address'
@@ -236,6 +251,29 @@ export function ManualAppointmentForm({
         return
       }
 
+      // Recurring appointments are booked occurrence by occurrence by the series API
+      if (repeatRule) {
+        const result = await BookingService.createSeries({
+          ...repeatRule,
+          serviceId: formData.serviceId,
+          guestName: formData.clientName,
+          guestEmail: formData.clientEmail || undefined,
+          guestPhone: formData.clientPhone || undefined,
+          notes: formData.notes || undefined
+        })
+
+        toast({
+          title: 'Success!',
+          description: result.skipped.length > 0
+            ? `${result.created.length} appointments created. ${result.skipped.length} could not be booked and were skipped.`
+            : `${result.created.length} recurring appointments created.`,
+        })
+
+        onAppointmentCreated(result.series)
+        handleClose()
+        return
+      }
+
       const appointmentData = {
         barber_id: barberId,
         service_id: formData.serviceId,
@@ -277,7 +315,7 @@ export function ManualAppointmentForm({
       logger.error('Error creating manual appointment', error)
       toast({
         title: 'Error',
-        description: 'Failed to create appointment. Please try again.',
+        description: repeatRule && error instanceof Error ? error.message : 'Failed to create appointment. Please try again.',
         variant: 'destructive',
       })
     } finally {
@@ -296,7 +334,9 @@ export function ManualAppointmentForm({
       duration: 60,
       price: 0,
       notes: '',
-      status: 'confirmed'
+      status: 'confirmed',
+      repeatWeeks: 0,
+      repeatUntil: ''
     })
     setErrors({})
     onClose()
@@ -581,6 +621,59 @@ export function ManualAppointmentForm({
                 </Select>
               </div>
 
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="repeat" className="text-white font-medium">
+                    Repeat
+                  </Label>
+                  <Select
+                    value={String(formData.repeatWeeks)}
+                    onValueChange={(value) => handleInputChange('repeatWeeks', parseInt(value))}
+                  >
+                    <SelectTrigger id="repeat" className="bg-white/10 border-white/20 text-white focus:border-saffron mt-1">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent className="bg-black/95 border-white/20">
+                      <SelectItem value="0" className="text-white">Does not repeat</SelectItem>
+                      <SelectItem value="1" className="text-white">Every week</SelectItem>
+                      <SelectItem value="2" className="text-white">Every 2 weeks</SelectItem>
+                      <SelectItem value="3" className="text-white">Every 3 weeks</SelectItem>
+                      <SelectItem value="4" className="text-white">Every 4 weeks</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.repeatWeeks > 0 && (
+                  <div>
+                    <Label htmlFor="repeatUntil" className="text-white font-medium">
+                      Until *
+                    </Label>
+                    <Input
+                      id="repeatUntil"
+                      type="date"
+                      value={formData.repeatUntil}
+                      onChange={(e) => handleInputChange('repeatUntil', e.target.value)}
+                      min={formData.date || new Date().toISOString().split('T')[0]}
+                      className={cn(
+                        "bg-white/10 border-white/20 text-white focus:border-saffron mt-1",
+                        errors.repeatUntil && "border-red-500 focus:border-red-500"
+                      )}
+                    />
+                    {errors.repeatUntil && (
+                      <p className="text-red-400 text-sm mt-1 flex items-center gap-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {errors.repeatUntil}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {repeatRule && !getRecurrenceRuleError(repeatRule) && (
+                <p className="text-white/60 text-sm">
+                  {describeRecurrenceRule(repeatRule)} ({getOccurrenceDates(repeatRule).length} appointments)
+                </p>
+              )}
+
               {/* Availability Check */}
               {formData.date && formData.time && (
                 <div className="mt-4">
@@ -0,0 +1,154 @@
+"use client"
+
+import { useState } from 'react'
+import { format, startOfDay } from 'date-fns'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/shared/components/ui/button'
+import { Calendar } from '@/shared/components/ui/calendar'
+import { Label } from '@/shared/components/ui/label'
+import { RadioGroup, RadioGroupItem } from '@/shared/components/ui/radio-group'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/shared/components/ui/dialog'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { TimeSlotPicker } from '@/shared/components/booking/time-slot-picker'
+import { BookingService } from '@/shared/lib/booking-service'
+import { SERIES_SCOPE_LABELS } from '@/shared/lib/recurrence-rule'
+import { AvailabilitySlot } from '@/shared/types/availability'
+import { SeriesScope } from '@/shared/types/booking-series'
+import { logger } from '@/shared/lib/logger'
+
+interface RecurringAppointmentDialogProps {
+  mode: 'edit' | 'cancel' | null
+  booking: {
+    id: string
+    barberId: string
+    serviceDuration: number
+    timeZone: string
+  }
+  onClose: () => void
+  onChanged: () => void
+}
+
+// Edits or cancels an occurrence of a recurring series for this / following / all occurrences
+export function RecurringAppointmentDialog({ mode, booking, onClose, onChanged }: RecurringAppointmentDialogProps) {
+  const { toast } = useToast()
+  const [scope, setScope] = useState<SeriesScope>('this')
+  const [newDate, setNewDate] = useState<Date | undefined>(undefined)
+  const [newSlot, setNewSlot] = useState<AvailabilitySlot | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const handleClose = () => {
+    setScope('this')
+    setNewDate(undefined)
+    setNewSlot(null)
+    onClose()
+  }
+
+  const handleConfirm = async () => {
+    setSaving(true)
+    try {
+      if (mode === 'cancel') {
+        const { bookings } = await BookingService.cancelSeries(booking.id, scope)
+        toast({
+          title: 'Cancelled',
+          description: bookings.length === 1 ? 'The appointment was cancelled.' : `${bookings.length} appointments were cancelled.`,
+        })
+      } else if (newSlot) {
+        const { created, skipped } = await BookingService.updateSeries(booking.id, scope, newSlot.slot_start)
+        toast({
+          title: 'Updated',
+          description: skipped.length > 0
+            ? `${created.length} appointments moved. ${skipped.length} could not be booked and were skipped.`
+            : created.length === 1 ? 'The appointment was moved.' : `${created.length} appointments moved.`,
+        })
+      }
+
+      onChanged()
+      handleClose()
+    } catch (error) {
+      logger.error('Error changing recurring appointment', error)
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update recurring appointments.',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!mode} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="bg-black/95 border border-white/20 max-w-lg max-h-[90vh] overflow-y-auto rounded-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">
+            {mode === 'cancel' ? 'Cancel Recurring Appointment' : 'Edit Recurring Appointment'}
+          </DialogTitle>
+          <DialogDescription className="text-white/70">
+            {mode === 'cancel'
+              ? 'Choose which appointments in this series to cancel.'
+              : 'Pick the new time, then choose which appointments in this series to move.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'edit' && (
+          <div className="space-y-4">
+            <Calendar
+              mode="single"
+              selected={newDate}
+              onSelect={(date) => {
+                setNewDate(date)
+                setNewSlot(null)
+              }}
+              disabled={(date) => date < startOfDay(new Date())}
+            />
+            {newDate && (
+              <TimeSlotPicker
+                barberId={booking.barberId}
+                selectedDate={newDate}
+                serviceDuration={booking.serviceDuration}
+                barberTimeZone={booking.timeZone}
+                onSelectTime={(_, slot) => setNewSlot(slot)}
+              />
+            )}
+            {newSlot && (
+              <p className="text-sm text-white/70">
+                New time: {format(new Date(newSlot.slot_start), 'PPP p')}
+              </p>
+            )}
+          </div>
+        )}
+
+        <RadioGroup value={scope} onValueChange={(value) => setScope(value as SeriesScope)} className="py-2">
+          {(Object.keys(SERIES_SCOPE_LABELS) as SeriesScope[]).map((option) => (
+            <div key={option} className="flex items-center gap-3">
+              <RadioGroupItem value={option} id={`series-scope-${option}`} />
+              <Label htmlFor={`series-scope-${option}`} className="text-white">
+                {SERIES_SCOPE_LABELS[option]}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleClose}
+            className="bg-white/5 border-white/20 text-white hover:bg-white/10"
+          >
+            Back
+          </Button>
+          <Button
+            type="button"
+            variant={mode === 'cancel' ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={saving || (mode === 'edit' && !newSlot)}
+          >
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {mode === 'cancel' ? 'Cancel Appointments' : 'Save Changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
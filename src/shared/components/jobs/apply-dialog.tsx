@@ -0,0 +1,109 @@
+'use client'
+
+import { useState } from 'react'
+import { Loader2, Scissors, Star, User } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog'
+import { Button } from '@/shared/components/ui/button'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { JobBoardService } from '@/shared/lib/job-board-service'
+import { COVER_LETTER_RULES, validateContent } from '@/shared/lib/contentModeration'
+import type { JobPost } from '@/shared/types'
+
+interface ApplyDialogProps {
+  job: JobPost | null
+  userId: string
+  onClose: () => void
+  onApplied: () => void
+}
+
+export function ApplyDialog({ job, userId, onClose, onApplied }: ApplyDialogProps) {
+  const { toast } = useToast()
+  const [coverLetter, setCoverLetter] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleApply = async () => {
+    if (!job) return
+
+    const validation = validateContent(coverLetter, COVER_LETTER_RULES)
+    if (!validation.isValid) {
+      toast({ title: 'Check your cover letter', description: validation.issues[0], variant: 'destructive' })
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await JobBoardService.apply(job.id, userId, coverLetter)
+      toast({ title: 'Application sent', description: `${job.business_name} will see your profile, cuts and reviews.` })
+      setCoverLetter('')
+      onApplied()
+    } catch (error) {
+      toast({
+        title: 'Could not apply',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={!!job} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-black/95 border border-white/20 text-white rounded-3xl">
+        {job && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="text-white">{job.title}</DialogTitle>
+              <DialogDescription className="text-white/60">
+                {job.business_name} · {job.location}
+                {job.compensation && ` · ${job.compensation}`}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+              <p className="text-sm text-white/80 whitespace-pre-line">{job.description}</p>
+
+              {job.requirements.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-white mb-1">Requirements</h4>
+                  <ul className="list-disc list-inside text-sm text-white/70 space-y-0.5">
+                    {job.requirements.map(requirement => <li key={requirement}>{requirement}</li>)}
+                  </ul>
+                </div>
+              )}
+
+              <div className="bg-white/5 border border-white/10 rounded-xl p-3 text-sm text-white/70">
+                <p className="mb-2 text-white/80">Your application includes:</p>
+                <div className="flex flex-wrap gap-4">
+                  <span className="flex items-center gap-1"><User className="h-4 w-4 text-saffron" /> Your BOCM profile</span>
+                  <span className="flex items-center gap-1"><Scissors className="h-4 w-4 text-saffron" /> Your cuts</span>
+                  <span className="flex items-center gap-1"><Star className="h-4 w-4 text-saffron" /> Your review stats</span>
+                </div>
+              </div>
+
+              <Textarea
+                value={coverLetter}
+                onChange={event => setCoverLetter(event.target.value)}
+                placeholder="Introduce yourself: your experience, your clientele, when you can start (optional)"
+                maxLength={COVER_LETTER_RULES.maxLength}
+                rows={5}
+                className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+              />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={onClose} className="text-white/70 hover:text-white hover:bg-white/10">
+                Cancel
+              </Button>
+              <Button onClick={handleApply} disabled={submitting} className="bg-saffron text-primary hover:bg-saffron/90">
+                {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Apply
+              </Button>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
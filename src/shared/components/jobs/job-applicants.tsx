@@ -0,0 +1,185 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Loader2, MapPin, Scissors, Star, Users } from 'lucide-react'
+import { Badge } from '@/shared/components/ui/badge'
+import { Button } from '@/shared/components/ui/button'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { APPLICATION_STATUS_LABELS, JobBoardService } from '@/shared/lib/job-board-service'
+import { cn } from '@/shared/lib/utils'
+import type { JobApplicant, JobApplicationStatus } from '@/shared/types'
+
+export const APPLICATION_STATUS_STYLES: Record<JobApplicationStatus, string> = {
+  pending: 'border-white/20 text-white/70',
+  reviewing: 'border-blue-400/40 text-blue-300',
+  accepted: 'border-green-400/40 text-green-300',
+  rejected: 'border-red-400/40 text-red-300'
+}
+
+interface JobApplicantsProps {
+  jobId: string
+  highlightId?: string | null
+}
+
+// The applications to one job, with each barber's profile, cuts and review stats
+export function JobApplicants({ jobId, highlightId }: JobApplicantsProps) {
+  const { toast } = useToast()
+  const [applicants, setApplicants] = useState<JobApplicant[]>([])
+  const [loading, setLoading] = useState(true)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    setLoading(true)
+    JobBoardService.getApplicants(jobId)
+      .then(setApplicants)
+      .catch(() => toast({ title: 'Could not load applicants', variant: 'destructive' }))
+      .finally(() => setLoading(false))
+  }, [jobId])
+
+  const handleStatus = async (applicationId: string, status: Exclude<JobApplicationStatus, 'pending'>) => {
+    setUpdatingId(applicationId)
+    try {
+      await JobBoardService.setApplicationStatus(applicationId, status)
+      setApplicants(prev => prev.map(applicant => (applicant.id === applicationId ? { ...applicant, status } : applicant)))
+    } catch (error) {
+      toast({
+        title: 'Could not update the application',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-saffron" />
+      </div>
+    )
+  }
+
+  if (applicants.length === 0) {
+    return (
+      <div className="text-center text-white/50 text-sm py-6">
+        <Users className="h-8 w-8 mx-auto mb-2 text-white/30" />
+        No applications yet
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {applicants.map(applicant => {
+        const decided = applicant.status === 'accepted' || applicant.status === 'rejected'
+        return (
+          <div
+            key={applicant.id}
+            className={cn(
+              'bg-white/5 border rounded-xl p-4 space-y-3',
+              applicant.id === highlightId ? 'border-saffron/60' : 'border-white/10'
+            )}
+          >
+            <div className="flex items-start gap-3">
+              {applicant.barber.avatar_url ? (
+                <img src={applicant.barber.avatar_url} alt="" className="h-12 w-12 rounded-full object-cover" />
+              ) : (
+                <div className="h-12 w-12 rounded-full bg-white/10 flex items-center justify-center text-white font-semibold">
+                  {applicant.barber.name.charAt(0).toUpperCase()}
+                </div>
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  {applicant.barber.username ? (
+                    <Link href={`/book/${applicant.barber.username}`} className="text-white font-semibold hover:text-saffron">
+                      {applicant.barber.name}
+                    </Link>
+                  ) : (
+                    <span className="text-white font-semibold">{applicant.barber.name}</span>
+                  )}
+                  <Badge variant="outline" className={APPLICATION_STATUS_STYLES[applicant.status]}>
+                    {APPLICATION_STATUS_LABELS[applicant.status]}
+                  </Badge>
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-xs text-white/60 mt-1">
+                  <span className="flex items-center gap-1">
+                    <Star className="h-3.5 w-3.5 text-saffron" />
+                    {applicant.average_rating != null
+                      ? `${Number(applicant.average_rating).toFixed(1)} (${applicant.review_count} reviews)`
+                      : 'No reviews yet'}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Scissors className="h-3.5 w-3.5" />
+                    {applicant.cut_count} cuts
+                  </span>
+                  {applicant.barber.location && (
+                    <span className="flex items-center gap-1">
+                      <MapPin className="h-3.5 w-3.5" />
+                      {applicant.barber.location}
+                    </span>
+                  )}
+                </div>
+                {applicant.barber.specialties.length > 0 && (
+                  <p className="text-xs text-white/50 mt-1">{applicant.barber.specialties.join(' · ')}</p>
+                )}
+              </div>
+            </div>
+
+            {applicant.cover_letter && (
+              <p className="text-sm text-white/80 whitespace-pre-line">{applicant.cover_letter}</p>
+            )}
+
+            {applicant.cuts.length > 0 && (
+              <div className="flex gap-2 overflow-x-auto">
+                {applicant.cuts.map(cut => (
+                  <Link key={cut.id} href={`/cuts?cutId=${cut.id}`} className="flex-shrink-0">
+                    {cut.thumbnail ? (
+                      <img src={cut.thumbnail} alt={cut.title} className="h-20 w-16 rounded-lg object-cover" />
+                    ) : (
+                      <video src={cut.url} className="h-20 w-16 rounded-lg object-cover" muted />
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
+
+            {!decided && (
+              <div className="flex gap-2 justify-end">
+                {applicant.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    disabled={updatingId === applicant.id}
+                    onClick={() => handleStatus(applicant.id, 'reviewing')}
+                    className="text-white/70 hover:text-white hover:bg-white/10"
+                  >
+                    Mark reviewing
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={updatingId === applicant.id}
+                  onClick={() => handleStatus(applicant.id, 'rejected')}
+                  className="text-red-300 hover:text-red-200 hover:bg-red-500/10"
+                >
+                  Decline
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={updatingId === applicant.id}
+                  onClick={() => handleStatus(applicant.id, 'accepted')}
+                  className="bg-saffron text-primary hover:bg-saffron/90"
+                >
+                  Accept
+                </Button>
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
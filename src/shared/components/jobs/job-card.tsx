@@ -0,0 +1,60 @@
+'use client'
+
+import { Briefcase, DollarSign, MapPin } from 'lucide-react'
+import { Badge } from '@/shared/components/ui/badge'
+import { JOB_TYPE_LABELS } from '@/shared/lib/job-board-service'
+import type { JobPost } from '@/shared/types'
+import type { ReactNode } from 'react'
+
+interface JobCardProps {
+  job: JobPost
+  onClick?: () => void
+  children?: ReactNode // actions, shown under the details
+}
+
+export function JobCard({ job, onClick, children }: JobCardProps) {
+  return (
+    <div
+      onClick={onClick}
+      className={`bg-white/5 border border-white/10 rounded-2xl p-5 space-y-3 ${onClick ? 'cursor-pointer hover:bg-white/10 transition-colors' : ''}`}
+    >
+      <div className="flex items-start gap-3">
+        {job.business_image ? (
+          <img src={job.business_image} alt="" className="h-12 w-12 rounded-xl object-cover" />
+        ) : (
+          <div className="h-12 w-12 rounded-xl bg-saffron/20 flex items-center justify-center">
+            <Briefcase className="h-6 w-6 text-saffron" />
+          </div>
+        )}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 flex-wrap">
+            <h3 className="text-white font-semibold truncate">{job.title}</h3>
+            <Badge variant="outline" className="border-saffron/40 text-saffron">{JOB_TYPE_LABELS[job.job_type]}</Badge>
+            {job.status !== 'open' && (
+              <Badge variant="outline" className="border-white/20 text-white/60 capitalize">{job.status}</Badge>
+            )}
+          </div>
+          <p className="text-white/70 text-sm">{job.business_name}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-white/60">
+        <span className="flex items-center gap-1">
+          <MapPin className="h-4 w-4" />
+          {job.location}
+          {job.distance !== undefined && ` · ${job.distance.toFixed(1)} mi`}
+        </span>
+        {job.compensation && (
+          <span className="flex items-center gap-1">
+            <DollarSign className="h-4 w-4" />
+            {job.compensation}
+          </span>
+        )}
+        <span>Posted {new Date(job.created_at).toLocaleDateString()}</span>
+      </div>
+
+      <p className="text-white/80 text-sm line-clamp-3 whitespace-pre-line">{job.description}</p>
+      {children}
+    </div>
+  )
+}
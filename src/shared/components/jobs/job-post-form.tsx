@@ -0,0 +1,179 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/shared/components/ui/dialog'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { JOB_TYPE_LABELS, JobBoardService, parseRequirements } from '@/shared/lib/job-board-service'
+import { JOB_POST_RULES, validateContent } from '@/shared/lib/contentModeration'
+import type { JobType } from '@/shared/types'
+
+interface JobPostFormProps {
+  open: boolean
+  userId: string
+  defaults: { businessName?: string; businessImage?: string | null; location?: string }
+  onClose: () => void
+  onPosted: () => void
+}
+
+const inputClassName = 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+
+export function JobPostForm({ open, userId, defaults, onClose, onPosted }: JobPostFormProps) {
+  const { toast } = useToast()
+  const [jobType, setJobType] = useState<JobType>('chair_rental')
+  const [title, setTitle] = useState('')
+  const [businessName, setBusinessName] = useState(defaults.businessName || '')
+  const [location, setLocation] = useState(defaults.location || '')
+  const [compensation, setCompensation] = useState('')
+  const [description, setDescription] = useState('')
+  const [requirements, setRequirements] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    if (!title.trim() || !businessName.trim() || !location.trim()) {
+      toast({ title: 'Missing details', description: 'Add a title, your shop name and its location.', variant: 'destructive' })
+      return
+    }
+
+    const validation = validateContent([title, description, requirements].join('\n'), JOB_POST_RULES)
+    if (!validation.isValid) {
+      toast({ title: 'Check your job post', description: validation.issues[0], variant: 'destructive' })
+      return
+    }
+
+    setSubmitting(true)
+    try {
+      await JobBoardService.createJob(userId, {
+        business_name: businessName,
+        business_image: defaults.businessImage,
+        job_type: jobType,
+        title,
+        description,
+        requirements: parseRequirements(requirements),
+        compensation,
+        location
+      })
+      toast({ title: 'Job posted', description: 'Barbers near you can now find and apply to it.' })
+      setTitle('')
+      setCompensation('')
+      setDescription('')
+      setRequirements('')
+      onPosted()
+    } catch (error) {
+      toast({
+        title: 'Could not post the job',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => !isOpen && onClose()}>
+      <DialogContent className="max-w-lg bg-black/95 border border-white/20 text-white rounded-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-white">Post a job</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Rent out a chair or hire for your shop. Barbers apply with their profile, cuts and reviews.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4 max-h-[65vh] overflow-y-auto pr-1">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-white/80">Type</Label>
+              <Select value={jobType} onValueChange={value => setJobType(value as JobType)}>
+                <SelectTrigger className={inputClassName}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map(type => (
+                    <SelectItem key={type} value={type}>{JOB_TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-white/80">Pay or rent</Label>
+              <Input
+                value={compensation}
+                onChange={event => setCompensation(event.target.value)}
+                placeholder="$250/week, 60% commission"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-white/80">Title</Label>
+            <Input
+              value={title}
+              onChange={event => setTitle(event.target.value)}
+              placeholder="Chair available in a busy downtown shop"
+              maxLength={120}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-white/80">Shop name</Label>
+              <Input value={businessName} onChange={event => setBusinessName(event.target.value)} className={inputClassName} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-white/80">Location</Label>
+              <Input
+                value={location}
+                onChange={event => setLocation(event.target.value)}
+                placeholder="Street, city"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-white/80">Description</Label>
+            <Textarea
+              value={description}
+              onChange={event => setDescription(event.target.value)}
+              placeholder="The shop, the hours, what the chair or role comes with"
+              maxLength={JOB_POST_RULES.maxLength}
+              rows={5}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-white/80">Requirements, one per line</Label>
+            <Textarea
+              value={requirements}
+              onChange={event => setRequirements(event.target.value)}
+              placeholder={'Licensed barber\n2+ years experience'}
+              rows={3}
+              className={inputClassName}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" onClick={onClose} className="text-white/70 hover:text-white hover:bg-white/10">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting} className="bg-saffron text-primary hover:bg-saffron/90">
+              {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Post job
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
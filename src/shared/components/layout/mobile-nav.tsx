@@ -3,14 +3,16 @@
 import * as React from "react"
 import { useCallback, useMemo, useState, useEffect } from "react"
 import Link from "next/link"
-import { Home, Search, Settings as SettingsIcon, Calendar, User, Video, DollarSign, Users, LogOut } from "lucide-react"
+import { Bell, Home, Search, Settings as SettingsIcon, Calendar, User, Video, DollarSign, Users, LogOut } from "lucide-react"
 import { useAuth } from "@/shared/hooks/use-auth-zustand"
+import { useNotificationInbox } from "@/shared/hooks/use-notification-inbox"
 import { cn } from "@/shared/lib/utils"
 import { logger } from "@/shared/lib/logger"
 
 export function MobileNav() {
   const [pathname, setPathname] = useState<string>('')
   const { user, logout } = useAuth()
+  const { unreadCount } = useNotificationInbox(1)
 
   // Update pathname when component mounts and when route changes
   useEffect(() => {
@@ -69,7 +71,12 @@ export function MobileNav() {
     }
   }, [user?.role])
 
-  const allNavItems = [...baseNavItems, ...roleSpecificNavItems, { name: "Settings", href: "/settings", icon: SettingsIcon }]
+  const allNavItems = [
+    ...baseNavItems,
+    ...roleSpecificNavItems,
+    { name: "Inbox", href: "/notifications", icon: Bell },
+    { name: "Settings", href: "/settings", icon: SettingsIcon }
+  ]
 
   // Handler for logout
   const handleLogout = async () => {
@@ -81,18 +88,19 @@ export function MobileNav() {
     }
   }
 
-  // Custom nav order: Browse | Calendar | Profile | Settings
+  // Custom nav order: Browse | Inbox | Calendar | Profile | Settings
   function getOrderedNavItems() {
     const browse = allNavItems.find(item => item.href === '/browse');
+    const inbox = allNavItems.find(item => item.href === '/notifications');
     const calendar = allNavItems.find(item => item.href === '/calendar');
     const profile = allNavItems.find(item => item.href === '/settings/barber-profile');
     const settings = allNavItems.find(item => item.href === '/settings');
     
-    return [browse, calendar, profile, settings].filter(Boolean);
+    return [browse, inbox, calendar, profile, settings].filter(Boolean);
   }
   
   const orderedNavItems = getOrderedNavItems();
-  const centerIndex = 1; // Center the calendar item
+  const centerIndex = 2; // Center the calendar item
   const leftItems = orderedNavItems.slice(0, centerIndex);
   const centerItem = orderedNavItems[centerIndex];
   const rightItems = orderedNavItems.slice(centerIndex + 1, centerIndex + 3);
@@ -114,7 +122,8 @@ export function MobileNav() {
             (item.href === "/settings/barber-profile" && pathname.startsWith("/settings")) ||
             (item.href === "/settings" && pathname.startsWith("/settings")) ||
             (item.href === "/calendar" && pathname.startsWith("/calendar")) ||
-            (item.href === "/browse" && pathname.startsWith("/browse"))
+            (item.href === "/browse" && pathname.startsWith("/browse")) ||
+            (item.href === "/notifications" && pathname.startsWith("/notifications"))
           
           return (
             <Link
@@ -138,6 +147,13 @@ export function MobileNav() {
                   isActive ? "text-saffron scale-110" : "text-white/80 group-hover:scale-105 group-hover:text-saffron"
                 )} 
               />
+
+              {/* Unread badge */}
+              {item.href === "/notifications" && unreadCount > 0 && (
+                <span className="absolute top-1 right-2 h-5 min-w-[20px] px-1 rounded-full bg-red-500 text-[10px] font-bold text-white flex items-center justify-center shadow-lg shadow-red-500/50">
+                  {unreadCount > 99 ? '99+' : unreadCount}
+                </span>
+              )}
               <span className={cn(
                 "text-xs font-semibold transition-all duration-300 tracking-wide",
                 isActive ? "text-saffron" : "text-white/80 group-hover:text-saffron"
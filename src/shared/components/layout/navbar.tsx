@@ -27,6 +27,8 @@ import {
   Video,
   Compass,
   Bell,
+  Briefcase,
+  Store,
 } from "lucide-react"
 import { cn } from "@/shared/lib/utils"
 import { UpdatesBadge } from "@/shared/components/updates/updates-badge"
@@ -85,6 +87,16 @@ export function Navbar() {
           icon: Calendar,
           label: "Calendar",
         },
+        {
+          href: "/jobs",
+          icon: Briefcase,
+          label: "Jobs",
+        },
+        {
+          href: "/shop/manage",
+          icon: Store,
+          label: "Shop",
+        },
       ]
     }
 
@@ -0,0 +1,190 @@
+'use client'
+
+import { FormEvent, useEffect, useRef, useState } from 'react'
+import { Check, CheckCheck, ImagePlus, Loader2, Send, X } from 'lucide-react'
+import { useConversationMessages } from '@/shared/hooks/use-conversation-messages'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { Button } from '@/shared/components/ui/button'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { MESSAGE_RULES, validateContent } from '@/shared/lib/contentModeration'
+import { cn } from '@/shared/lib/utils'
+import type { ConversationSummary, MessageStatus } from '@/shared/types'
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+const ATTACHMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+
+interface ConversationThreadProps {
+  conversation: ConversationSummary
+  userId: string
+}
+
+function ReceiptIcon({ status }: { status: MessageStatus }) {
+  if (status === 'sent') return <Check className="h-3.5 w-3.5 text-white/50" aria-label="Sent" />
+  return (
+    <CheckCheck
+      className={cn('h-3.5 w-3.5', status === 'read' ? 'text-saffron' : 'text-white/50')}
+      aria-label={status === 'read' ? 'Read' : 'Delivered'}
+    />
+  )
+}
+
+export function ConversationThread({ conversation, userId }: ConversationThreadProps) {
+  const { toast } = useToast()
+  const { messages, attachmentUrls, loading, sending, sendMessage } = useConversationMessages(conversation.id)
+  const [text, setText] = useState('')
+  const [attachment, setAttachment] = useState<File | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages.length])
+
+  const handleFileChange = (file: File | undefined) => {
+    if (!file) return
+    if (!ATTACHMENT_TYPES.includes(file.type) || file.size > MAX_ATTACHMENT_BYTES) {
+      toast({
+        title: 'Photo not allowed',
+        description: 'Attach a JPEG, PNG, WebP or GIF image up to 10MB.',
+        variant: 'destructive'
+      })
+      return
+    }
+    setAttachment(file)
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+    const messageText = text.trim()
+    if (!messageText && !attachment) return
+
+    if (messageText) {
+      const validation = validateContent(messageText, MESSAGE_RULES)
+      if (!validation.isValid) {
+        toast({ title: 'Message not sent', description: validation.issues[0], variant: 'destructive' })
+        return
+      }
+    }
+
+    try {
+      await sendMessage(messageText, attachment)
+      setText('')
+      setAttachment(null)
+    } catch (error) {
+      toast({
+        title: 'Message not sent',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="px-4 py-3 border-b border-white/10">
+        <h2 className="text-white font-semibold">{conversation.other_user.name}</h2>
+        {conversation.booking_id && <p className="text-xs text-white/50">About a booking</p>}
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-4 py-4 space-y-2">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-secondary" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-center text-white/50 text-sm py-12">
+            Say hi, share a reference photo, or let {conversation.other_user.name} know you're running late.
+          </p>
+        ) : (
+          messages.map(message => {
+            const mine = message.sender_id === userId
+            const imageUrl = message.attachment_path ? attachmentUrls[message.attachment_path] : null
+            return (
+              <div key={message.id} className={cn('flex', mine ? 'justify-end' : 'justify-start')}>
+                <div
+                  className={cn(
+                    'max-w-[75%] rounded-2xl px-3 py-2 space-y-1',
+                    mine ? 'bg-saffron/20 border border-saffron/30' : 'bg-white/10 border border-white/10'
+                  )}
+                >
+                  {message.attachment_path && (
+                    imageUrl ? (
+                      <a href={imageUrl} target="_blank" rel="noopener noreferrer">
+                        <img src={imageUrl} alt="Attachment" className="rounded-xl max-h-64 object-cover" />
+                      </a>
+                    ) : (
+                      <div className="h-32 w-48 rounded-xl bg-white/5 animate-pulse" />
+                    )
+                  )}
+                  {message.text && <p className="text-sm text-white whitespace-pre-wrap break-words">{message.text}</p>}
+                  <div className="flex items-center justify-end gap-1 text-[10px] text-white/50">
+                    {new Date(message.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    {mine && <ReceiptIcon status={message.status} />}
+                  </div>
+                </div>
+              </div>
+            )
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="border-t border-white/10 p-3 space-y-2">
+        {attachment && (
+          <div className="flex items-center gap-2 text-sm text-white/70">
+            <ImagePlus className="h-4 w-4" />
+            <span className="truncate">{attachment.name}</span>
+            <button type="button" onClick={() => setAttachment(null)} aria-label="Remove photo">
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+        <div className="flex items-end gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ATTACHMENT_TYPES.join(',')}
+            className="hidden"
+            onChange={event => {
+              handleFileChange(event.target.files?.[0])
+              event.target.value = ''
+            }}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            onClick={() => fileInputRef.current?.click()}
+            className="text-white/70 hover:text-white hover:bg-white/10"
+            aria-label="Attach a photo"
+          >
+            <ImagePlus className="h-5 w-5" />
+          </Button>
+          <Textarea
+            value={text}
+            onChange={event => setText(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault()
+                handleSubmit(event)
+              }
+            }}
+            placeholder="Write a message"
+            maxLength={MESSAGE_RULES.maxLength}
+            rows={1}
+            className="flex-1 min-h-[40px] resize-none bg-white/5 border-white/10 text-white"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            disabled={sending || (!text.trim() && !attachment)}
+            className="bg-secondary text-primary hover:bg-secondary/90"
+            aria-label="Send"
+          >
+            {sending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </form>
+    </div>
+  )
+}
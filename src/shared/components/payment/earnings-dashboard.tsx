@@ -3,13 +3,15 @@
 import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/shared/components/ui/card"
 import { useToast } from "@/shared/components/ui/use-toast"
-import { Loader2, DollarSign, TrendingUp, TrendingDown, CreditCard, Sparkles } from "lucide-react"
+import { Loader2, DollarSign, TrendingUp, TrendingDown, CreditCard, Sparkles, Gift } from "lucide-react"
 import { Button } from "@/shared/components/ui/button"
 import { Badge } from "@/shared/components/ui/badge"
 import { LoadingSpinner } from "@/shared/components/ui/loading-spinner"
 import { GlassyCard } from "@/shared/components/ui/glassy-card"
 import { supabase } from "@/shared/lib/supabase"
 import { logger } from "@/shared/lib/logger"
+import { PrepaidService } from "@/shared/lib/prepaid-service"
+import { PrepaidLiability } from "@/shared/types/prepaid"
 
 interface MonthlyEarnings {
   current: number
@@ -19,6 +21,7 @@ interface MonthlyEarnings {
   breakdown: {
     serviceFees: number
     platformFees: number
+    tips: number
     totalEarnings: number
   }
 }
@@ -41,13 +44,24 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
   const [isLoading, setIsLoading] = useState(true)
   const [isSettingUp, setIsSettingUp] = useState(false)
   const [hasStripeAccount, setHasStripeAccount] = useState(false)
+  const [liability, setLiability] = useState<PrepaidLiability | null>(null)
 
   useEffect(() => {
     logger.debug('EarningsDashboard mounted', { barberId })
     loadEarnings()
     checkStripeAccount()
+    loadLiability()
   }, [barberId])
 
+  // Gift cards and packages are paid out at purchase, so what is left on them is still owed in cuts
+  const loadLiability = async () => {
+    try {
+      setLiability(await PrepaidService.getLiability(barberId))
+    } catch (error) {
+      logger.error('Error loading outstanding balances', error)
+    }
+  }
+
   const checkStripeAccount = async () => {
     logger.debug('Checking Stripe account for barber', { barberId })
     try {
@@ -332,7 +346,7 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
               <Sparkles className="h-4 w-4 text-secondary" />
               <h3 className="text-lg font-semibold text-white">Earnings Breakdown</h3>
             </div>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <GlassyCard variant="hover" className="p-4 space-y-2">
                 <div className="text-sm text-white/60">Service Fees</div>
                 <div className="text-2xl font-bold text-white">
@@ -347,9 +361,45 @@ export function EarningsDashboard({ barberId }: EarningsDashboardProps) {
                 </div>
                 <div className="text-xs text-white/40">Processing fees</div>
               </GlassyCard>
+              <GlassyCard variant="hover" className="p-4 space-y-2">
+                <div className="text-sm text-white/60">Tips</div>
+                <div className="text-2xl font-bold text-white">
+                  ${earnings?.breakdown?.tips ? (earnings.breakdown.tips / 100).toFixed(2) : "0.00"}
+                </div>
+                <div className="text-xs text-white/40">Paid to you in full</div>
+              </GlassyCard>
             </div>
           </div>
 
+          {/* Outstanding gift cards and packages */}
+          {liability && liability.open_balances > 0 && (
+            <div className="space-y-6">
+              <div className="flex items-center gap-2">
+                <Gift className="h-4 w-4 text-secondary" />
+                <h3 className="text-lg font-semibold text-white">Outstanding Gift Cards & Packages</h3>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <GlassyCard variant="hover" className="p-4 space-y-2">
+                  <div className="text-sm text-white/60">Gift Cards</div>
+                  <div className="text-2xl font-bold text-white">${Number(liability.gift_card_balance).toFixed(2)}</div>
+                  <div className="text-xs text-white/40">Not yet redeemed</div>
+                </GlassyCard>
+                <GlassyCard variant="hover" className="p-4 space-y-2">
+                  <div className="text-sm text-white/60">Packages</div>
+                  <div className="text-2xl font-bold text-white">${Number(liability.package_balance).toFixed(2)}</div>
+                  <div className="text-xs text-white/40">{liability.package_visits} visits still to cut</div>
+                </GlassyCard>
+                <GlassyCard variant="hover" className="p-4 space-y-2">
+                  <div className="text-sm text-white/60">Total Owed</div>
+                  <div className="text-2xl font-bold text-secondary">
+                    ${(Number(liability.gift_card_balance) + Number(liability.package_balance)).toFixed(2)}
+                  </div>
+                  <div className="text-xs text-white/40">Across {liability.open_balances} open balances, already paid to you</div>
+                </GlassyCard>
+              </div>
+            </div>
+          )}
+
           {/* Payment Setup Section */}
           {!hasStripeAccount && (
             <div className="text-center space-y-4 border-t border-white/10 pt-8">
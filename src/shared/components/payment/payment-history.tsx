@@ -4,12 +4,13 @@ import { useState, useEffect } from 'react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/shared/components/ui/card'
 import { Button } from '@/shared/components/ui/button'
 import { Badge } from '@/shared/components/ui/badge'
-import { Loader2, Calendar, DollarSign, User, Clock, TrendingUp, TrendingDown, Sparkles } from 'lucide-react'
+import { Loader2, Calendar, DollarSign, User, Clock, TrendingUp, TrendingDown, Sparkles, Heart } from 'lucide-react'
 import { useToast } from '@/shared/components/ui/use-toast'
 import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
 import { GlassyCard } from '@/shared/components/ui/glassy-card'
 import { format } from 'date-fns'
 import { logger } from '@/shared/lib/logger'
+import { TipStatus } from '@/shared/types/booking'
 
 interface PaymentHistoryProps {
   barberId: string
@@ -27,6 +28,8 @@ interface PaymentRecord {
   price: number
   platform_fee: number
   barber_payout: number
+  tip_amount: number | null
+  tip_status: TipStatus | null
   notes: string | null
   guest_name: string | null
   guest_email: string | null
@@ -66,6 +69,7 @@ interface PaymentHistoryResponse {
     totalRevenue: number
     totalPlatformFees: number
     totalBarberPayout: number
+    totalTips: number
     totalBookings: number
   }
   pagination: {
@@ -228,7 +232,7 @@ export function PaymentHistory({ barberId }: PaymentHistoryProps) {
       <CardContent>
         {/* Summary Cards */}
         {totals && (
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
             <GlassyCard variant="hover" className="p-4">
               <div className="flex items-center gap-2 mb-2">
                 {earningsData?.trend === "up" ? (
@@ -250,6 +254,13 @@ export function PaymentHistory({ barberId }: PaymentHistoryProps) {
               </div>
               <div className="text-2xl font-bold text-secondary">{formatCurrency(totals.totalBarberPayout)}</div>
             </GlassyCard>
+            <GlassyCard variant="hover" className="p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <Heart className="h-4 w-4 text-pink-400" />
+                <span className="text-sm text-white/60">Tips</span>
+              </div>
+              <div className="text-2xl font-bold text-white">{formatCurrency(totals.totalTips)}</div>
+            </GlassyCard>
             <GlassyCard variant="hover" className="p-4">
               <div className="flex items-center gap-2 mb-2">
                 <Calendar className="h-4 w-4 text-purple-400" />
@@ -294,6 +305,11 @@ export function PaymentHistory({ barberId }: PaymentHistoryProps) {
                   <div className="text-sm text-secondary font-medium">
                     You earned: {formatCurrency(payment.barber_payout)}
                   </div>
+                  {payment.tip_status === 'succeeded' && payment.tip_amount && (
+                    <div className="text-sm text-white/60">
+                      Tip: {formatCurrency(payment.tip_amount)}
+                    </div>
+                  )}
                 </div>
               </div>
               
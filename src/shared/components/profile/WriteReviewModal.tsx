@@ -9,6 +9,7 @@ import { useAuth } from "@/shared/hooks/use-auth-zustand";
 import { supabase } from "@/shared/lib/supabase";
 import { validateContent, moderateContentWithAI, getModerationStatus } from "@/shared/lib/contentModeration";
 import { logger } from "@/shared/lib/logger";
+import { notifyReviewSubmitted } from "@/shared/lib/review-notifications";
 
 interface WriteReviewModalProps {
   isOpen: boolean;
@@ -133,7 +134,7 @@ export function WriteReviewModal({ isOpen, onClose, barber }: WriteReviewModalPr
       }
 
       // Save the review to the database
-      const { error: reviewError } = await supabase
+      const { data: review, error: reviewError } = await supabase
         .from('reviews')
         .insert({
           booking_id: booking.id,
@@ -144,12 +145,16 @@ export function WriteReviewModal({ isOpen, onClose, barber }: WriteReviewModalPr
           is_verified: true, // Since it's from a verified booking
           is_public: true,
           is_moderated: moderation.isAppropriate // Use AI moderation result
-        });
+        })
+        .select('id')
+        .single();
 
       if (reviewError) {
         throw reviewError;
       }
 
+      await notifyReviewSubmitted(review.id);
+
       // Note: Barber stats are automatically updated by the database trigger
 
       toast({
@@ -0,0 +1,92 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { subDays } from 'date-fns'
+import { Clock, Timer, UserCheck, Hourglass } from 'lucide-react'
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { GlassyCard } from '@/shared/components/ui/glassy-card'
+import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
+import { BookingService } from '@/shared/lib/booking-service'
+import { BarberLifecycleMetrics } from '@/shared/types/booking'
+import { logger } from '@/shared/lib/logger'
+
+const METRICS_WINDOW_DAYS = 90
+
+interface AppointmentMetricsProps {
+  barberId: string
+}
+
+const formatMinutes = (minutes: number | null) =>
+  minutes === null ? '-' : `${Math.round(Math.abs(Number(minutes)))} min`
+
+// Punctuality and service time from check-ins, starts and completions
+export function AppointmentMetrics({ barberId }: AppointmentMetricsProps) {
+  const [metrics, setMetrics] = useState<BarberLifecycleMetrics | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    BookingService.getLifecycleMetrics(barberId, subDays(new Date(), METRICS_WINDOW_DAYS))
+      .then(setMetrics)
+      .catch(error => logger.error('Error loading appointment metrics', error))
+      .finally(() => setIsLoading(false))
+  }, [barberId])
+
+  const onTimeRate = metrics && metrics.checked_in_count > 0
+    ? Math.round((metrics.on_time_count / metrics.checked_in_count) * 100)
+    : null
+  const arrival = metrics?.avg_arrival_minutes ?? null
+  const serviceDifference = metrics?.avg_service_minutes != null && metrics.avg_booked_minutes != null
+    ? Math.round(Number(metrics.avg_service_minutes) - Number(metrics.avg_booked_minutes))
+    : null
+
+  return (
+    <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+      <CardHeader>
+        <CardTitle className="text-2xl font-bebas text-white tracking-wide">Appointment Insights</CardTitle>
+        <CardDescription className="text-white/80">
+          From client check-ins and the services you started and completed in the last {METRICS_WINDOW_DAYS} days
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <LoadingSpinner size="md" text="Loading insights..." />
+        ) : !metrics || metrics.checked_in_count === 0 ? (
+          <p className="text-sm text-white/60 text-center py-4">
+            Insights appear once clients start checking in to their appointments.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <GlassyCard variant="hover" className="p-4 space-y-2">
+              <div className="text-sm text-white/60 flex items-center gap-2"><UserCheck className="h-4 w-4" />Clients on time</div>
+              <div className="text-2xl font-bold text-white">{onTimeRate}%</div>
+              <div className="text-xs text-white/40">{metrics.checked_in_count} check-ins</div>
+            </GlassyCard>
+            <GlassyCard variant="hover" className="p-4 space-y-2">
+              <div className="text-sm text-white/60 flex items-center gap-2"><Clock className="h-4 w-4" />Average arrival</div>
+              <div className="text-2xl font-bold text-white">{formatMinutes(arrival)}</div>
+              <div className="text-xs text-white/40">
+                {arrival === null ? '' : Number(arrival) <= 0 ? 'Before the start time' : 'After the start time'}
+              </div>
+            </GlassyCard>
+            <GlassyCard variant="hover" className="p-4 space-y-2">
+              <div className="text-sm text-white/60 flex items-center gap-2"><Hourglass className="h-4 w-4" />Average wait</div>
+              <div className="text-2xl font-bold text-white">{formatMinutes(metrics.avg_wait_minutes)}</div>
+              <div className="text-xs text-white/40">Before you started the service</div>
+            </GlassyCard>
+            <GlassyCard variant="hover" className="p-4 space-y-2">
+              <div className="text-sm text-white/60 flex items-center gap-2"><Timer className="h-4 w-4" />Average service time</div>
+              <div className="text-2xl font-bold text-white">{formatMinutes(metrics.avg_service_minutes)}</div>
+              <div className="text-xs text-white/40">
+                {serviceDifference === null
+                  ? `${metrics.completed_count} completed`
+                  : serviceDifference === 0
+                    ? 'Right on the booked length'
+                    : `${Math.abs(serviceDifference)} min ${serviceDifference > 0 ? 'over' : 'under'} the booked length`}
+              </div>
+            </GlassyCard>
+          </div>
+        )}
+      </CardContent>
+    </GlassyCard>
+  )
+}
@@ -15,13 +15,24 @@ import { useToast } from '@/shared/components/ui/use-toast'
 import { supabase } from '@/shared/lib/supabase'
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { logger } from '@/shared/lib/logger'
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  MAX_REMINDER_OFFSETS,
+  REMINDER_OFFSET_OPTIONS,
+  describeReminderOffset,
+  getReminderOffsets,
+  normalizeReminderOffsets
+} from '@/shared/lib/reminder-schedule'
 import { 
   Clock, 
   Calendar, 
   Users, 
   AlertCircle,
   Info,
-  Settings
+  Settings,
+  CalendarClock,
+  CalendarX,
+  Bell
 } from 'lucide-react'
 
 const bookingRestrictionsSchema = z.object({
@@ -29,6 +40,11 @@ const bookingRestrictionsSchema = z.object({
   max_bookings_per_day: z.number().min(1).max(50),
   advance_booking_days: z.number().min(0).max(365),
   same_day_booking_enabled: z.boolean(),
+  reschedule_cutoff_hours: z.number().min(0).max(168),
+  max_reschedules: z.number().min(0).max(10),
+  cancellation_window_hours: z.number().min(0).max(168),
+  no_show_fee: z.number().min(0).max(500),
+  reminder_offsets_minutes: z.array(z.number().min(15).max(10080)).max(MAX_REMINDER_OFFSETS),
 })
 
 type BookingRestrictionsFormData = z.infer<typeof bookingRestrictionsSchema>
@@ -51,6 +67,11 @@ export function BookingRestrictionsSettings({ barberId, onUpdate }: BookingRestr
       max_bookings_per_day: 10,
       advance_booking_days: 30,
       same_day_booking_enabled: true,
+      reschedule_cutoff_hours: 24,
+      max_reschedules: 2,
+      cancellation_window_hours: 24,
+      no_show_fee: 0,
+      reminder_offsets_minutes: DEFAULT_REMINDER_OFFSETS,
     },
   })
 
@@ -80,6 +101,11 @@ export function BookingRestrictionsSettings({ barberId, onUpdate }: BookingRestr
           max_bookings_per_day: data.max_bookings_per_day,
           advance_booking_days: data.advance_booking_days,
           same_day_booking_enabled: data.same_day_booking_enabled,
+          reschedule_cutoff_hours: data.reschedule_cutoff_hours,
+          max_reschedules: data.max_reschedules,
+          cancellation_window_hours: data.cancellation_window_hours,
+          no_show_fee: Number(data.no_show_fee),
+          reminder_offsets_minutes: getReminderOffsets(data),
         })
       }
     } catch (error) {
@@ -106,6 +132,11 @@ export function BookingRestrictionsSettings({ barberId, onUpdate }: BookingRestr
           max_bookings_per_day: data.max_bookings_per_day,
           advance_booking_days: data.advance_booking_days,
           same_day_booking_enabled: data.same_day_booking_enabled,
+          reschedule_cutoff_hours: data.reschedule_cutoff_hours,
+          max_reschedules: data.max_reschedules,
+          cancellation_window_hours: data.cancellation_window_hours,
+          no_show_fee: data.no_show_fee,
+          reminder_offsets_minutes: normalizeReminderOffsets(data.reminder_offsets_minutes),
           updated_at: new Date().toISOString(),
         })
 
@@ -291,6 +322,166 @@ export function BookingRestrictionsSettings({ barberId, onUpdate }: BookingRestr
                 )}
               </div>
 
+              <Separator />
+
+              {/* Rescheduling */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <CalendarClock className="h-5 w-5" />
+                  Rescheduling
+                </h3>
+
+                <FormField
+                  control={form.control}
+                  name="reschedule_cutoff_hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reschedule Cutoff (hours)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="168"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Clients can move a booking up to this many hours before it starts. Set to 0 to allow rescheduling until the appointment begins.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="max_reschedules"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maximum Reschedules Per Booking</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="10"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        How many times a client can move the same booking. Set to 0 to turn off rescheduling.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Separator />
+
+              {/* Cancellations & No-Shows */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <CalendarX className="h-5 w-5" />
+                  Cancellations & No-Shows
+                </h3>
+
+                <FormField
+                  control={form.control}
+                  name="cancellation_window_hours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Cancellation Window (hours)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="168"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Clients who cancel at least this many hours before the appointment get their booking fee refunded. Later cancellations are charged the fee below.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="no_show_fee"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Late Cancellation & No-Show Fee ($)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="500"
+                          step="0.01"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Charged to the client&apos;s saved card for late cancellations and when you mark a booking as a no-show. Set to 0 to turn off the fee.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <Separator />
+
+              {/* Reminders */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <Bell className="h-5 w-5" />
+                  Reminders
+                </h3>
+
+                <FormField
+                  control={form.control}
+                  name="reminder_offsets_minutes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Remind Clients Before Their Appointment</FormLabel>
+                      <div className="flex flex-wrap gap-2">
+                        {REMINDER_OFFSET_OPTIONS.map((offset) => {
+                          const selected = field.value.includes(offset)
+                          return (
+                            <Button
+                              key={offset}
+                              type="button"
+                              size="sm"
+                              variant={selected ? 'default' : 'outline'}
+                              disabled={!selected && field.value.length >= MAX_REMINDER_OFFSETS}
+                              onClick={() => field.onChange(
+                                normalizeReminderOffsets(
+                                  selected
+                                    ? field.value.filter((value) => value !== offset)
+                                    : [...field.value, offset]
+                                )
+                              )}
+                            >
+                              {describeReminderOffset(offset)}
+                            </Button>
+                          )
+                        })}
+                      </div>
+                      <FormDescription>
+                        Choose up to {MAX_REMINDER_OFFSETS} times to remind you and your client about each appointment. Deselect all to turn reminders off.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
               {/* Save Button */}
               <div className="flex justify-end">
                 <Button type="submit" disabled={loading} className="min-w-[120px]">
@@ -313,6 +504,9 @@ export function BookingRestrictionsSettings({ barberId, onUpdate }: BookingRestr
             <p><strong>Daily Limits:</strong> Once you reach your daily booking limit, no more appointments can be scheduled for that day.</p>
             <p><strong>Advance Booking:</strong> Clients can only book appointments within your specified advance booking window.</p>
             <p><strong>Same-Day Bookings:</strong> When disabled, clients must book at least one day in advance.</p>
+            <p><strong>Rescheduling:</strong> A rescheduled booking keeps its original payment, so clients are not charged the booking fee again.</p>
+            <p><strong>Cancellations:</strong> Fees are paid out to your Stripe account, minus card processing. If you cancel a booking yourself, the client&apos;s booking fee is always refunded.</p>
+            <p><strong>Reminders:</strong> Reminders are only sent for confirmed bookings. If a booking is rescheduled, reminders follow the new time; cancelled bookings get none.</p>
           </div>
         </CardContent>
       </Card>
@@ -0,0 +1,337 @@
+"use client"
+
+import { useState, useEffect } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import * as z from 'zod'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/shared/components/ui/form'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { Switch } from '@/shared/components/ui/switch'
+import { Separator } from '@/shared/components/ui/separator'
+import { Alert, AlertDescription } from '@/shared/components/ui/alert'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { supabase } from '@/shared/lib/supabase'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { logger } from '@/shared/lib/logger'
+import { BARBER_TIMEZONES, DEFAULT_BARBER_TIMEZONE, getLocalTimeZone } from '@/shared/lib/timezone-utils'
+import {
+  NOTIFICATION_EVENTS,
+  PREFERENCE_CHANNELS,
+  isChannelEnabled,
+  setChannelEnabled
+} from '@/shared/lib/notification-preferences'
+import type { ChannelPreferences } from '@/shared/types/notification-preferences'
+import { Bell, Moon, Info } from 'lucide-react'
+
+const notificationPreferencesSchema = z.object({
+  channels: z.record(z.record(z.boolean())),
+  quiet_hours_enabled: z.boolean(),
+  quiet_hours_start: z.string().regex(/^\d{2}:\d{2}$/),
+  quiet_hours_end: z.string().regex(/^\d{2}:\d{2}$/),
+  timezone: z.string(),
+}).refine(data => !data.quiet_hours_enabled || data.quiet_hours_start !== data.quiet_hours_end, {
+  message: 'Quiet hours must start and end at different times',
+  path: ['quiet_hours_end'],
+})
+
+type NotificationPreferencesFormData = z.infer<typeof notificationPreferencesSchema>
+
+interface NotificationPreferencesSettingsProps {
+  onUpdate?: () => void
+}
+
+export function NotificationPreferencesSettings({ onUpdate }: NotificationPreferencesSettingsProps) {
+  const { user } = useAuth()
+  const { toast } = useToast()
+  const [loading, setLoading] = useState(false)
+  const [initialLoading, setInitialLoading] = useState(true)
+  const [smsConsent, setSmsConsent] = useState(false)
+
+  const form = useForm<NotificationPreferencesFormData>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: {
+      channels: {},
+      quiet_hours_enabled: false,
+      quiet_hours_start: '22:00',
+      quiet_hours_end: '07:00',
+      timezone: BARBER_TIMEZONES.some(zone => zone.value === getLocalTimeZone())
+        ? getLocalTimeZone()
+        : DEFAULT_BARBER_TIMEZONE,
+    },
+  })
+
+  useEffect(() => {
+    if (user) {
+      loadNotificationPreferences()
+    }
+  }, [user])
+
+  const loadNotificationPreferences = async () => {
+    if (!user) return
+
+    try {
+      setInitialLoading(true)
+
+      const [{ data, error }, { data: profile }] = await Promise.all([
+        supabase
+          .from('notification_preferences')
+          .select('*')
+          .eq('user_id', user.id)
+          .maybeSingle(),
+        supabase
+          .from('profiles')
+          .select('phone, sms_notifications')
+          .eq('id', user.id)
+          .single(),
+      ])
+
+      if (error) throw error
+
+      setSmsConsent(!!(profile?.phone && profile?.sms_notifications))
+
+      if (data) {
+        form.reset({
+          channels: data.channels || {},
+          quiet_hours_enabled: !!data.quiet_hours_start,
+          quiet_hours_start: data.quiet_hours_start?.slice(0, 5) || '22:00',
+          quiet_hours_end: data.quiet_hours_end?.slice(0, 5) || '07:00',
+          timezone: data.timezone,
+        })
+      }
+    } catch (error) {
+      logger.error('Error loading notification preferences', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to load notification preferences',
+        variant: 'destructive',
+      })
+    } finally {
+      setInitialLoading(false)
+    }
+  }
+
+  const onSubmit = async (data: NotificationPreferencesFormData) => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({
+          user_id: user.id,
+          channels: data.channels,
+          quiet_hours_start: data.quiet_hours_enabled ? data.quiet_hours_start : null,
+          quiet_hours_end: data.quiet_hours_enabled ? data.quiet_hours_end : null,
+          timezone: data.timezone,
+          updated_at: new Date().toISOString(),
+        }, { onConflict: 'user_id' })
+
+      if (error) throw error
+
+      toast({
+        title: 'Success',
+        description: 'Notification preferences updated successfully!',
+      })
+
+      onUpdate?.()
+    } catch (error) {
+      logger.error('Error updating notification preferences', error)
+      toast({
+        title: 'Error',
+        description: 'Failed to update notification preferences',
+        variant: 'destructive',
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (initialLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const role = user?.role === 'barber' ? 'barber' : 'client'
+  const events = NOTIFICATION_EVENTS.filter(({ roles }) => roles.includes(role))
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="h-5 w-5" />
+            Notifications
+          </CardTitle>
+          <CardDescription>
+            Choose what you hear about and where. Everything also shows up in your in-app notifications.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+
+              {/* Channels per event */}
+              <FormField
+                control={form.control}
+                name="channels"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-muted-foreground">
+                            <th className="py-2 pr-4 font-medium">Notify me about</th>
+                            {PREFERENCE_CHANNELS.map(({ channel, label }) => (
+                              <th key={channel} className="py-2 px-2 font-medium text-center">{label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {events.map(({ event, label, description }) => (
+                            <tr key={event} className="border-t">
+                              <td className="py-3 pr-4">
+                                <div className="font-medium">{label}</div>
+                                <div className="text-xs text-muted-foreground">{description}</div>
+                              </td>
+                              {PREFERENCE_CHANNELS.map(({ channel, label: channelLabel }) => (
+                                <td key={channel} className="py-3 px-2 text-center">
+                                  <Switch
+                                    aria-label={`${label} by ${channelLabel.toLowerCase()}`}
+                                    checked={isChannelEnabled({ channels: field.value as ChannelPreferences }, event, channel)}
+                                    onCheckedChange={(checked) => field.onChange(
+                                      setChannelEnabled(field.value as ChannelPreferences, event, channel, checked)
+                                    )}
+                                  />
+                                </td>
+                              ))}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {!smsConsent && (
+                <Alert>
+                  <Info className="h-4 w-4" />
+                  <AlertDescription>
+                    Texts are only sent once you add your phone number and turn on SMS notifications in your profile.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Separator />
+
+              {/* Quiet Hours */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold flex items-center gap-2">
+                  <Moon className="h-5 w-5" />
+                  Quiet Hours
+                </h3>
+
+                <FormField
+                  control={form.control}
+                  name="quiet_hours_enabled"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Pause Push Notifications and Texts</FormLabel>
+                        <FormDescription>
+                          Nothing buzzes your phone during these hours. Emails and in-app notifications still arrive.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch
+                          checked={field.value}
+                          onCheckedChange={field.onChange}
+                        />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                {form.watch('quiet_hours_enabled') && (
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="quiet_hours_start"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>From</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="quiet_hours_end"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Until</FormLabel>
+                          <FormControl>
+                            <Input type="time" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="timezone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Timezone</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select your timezone" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {BARBER_TIMEZONES.map((zone) => (
+                                <SelectItem key={zone.value} value={zone.value}>
+                                  {zone.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                )}
+              </div>
+
+              {/* Save Button */}
+              <div className="flex justify-end">
+                <Button type="submit" disabled={loading} className="min-w-[120px]">
+                  {loading ? 'Saving...' : 'Save Preferences'}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,151 @@
+"use client"
+
+import { useCallback, useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Button } from '@/shared/components/ui/button'
+import { Badge } from '@/shared/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { OnDemandService, OnDemandInboxRequest } from '@/shared/lib/ondemand-service'
+import { formatOnDemandTimeLeft } from '@/shared/lib/ondemand-timing'
+import { logger } from '@/shared/lib/logger'
+import { Inbox, MapPin, Clock, Zap } from 'lucide-react'
+
+// Requests expire on the server; refresh often enough that the time left stays honest
+const REFRESH_INTERVAL_MS = 30 * 1000
+
+interface OnDemandInboxProps {
+  barberId: string
+}
+
+export function OnDemandInbox({ barberId }: OnDemandInboxProps) {
+  const { toast } = useToast()
+  const [requests, setRequests] = useState<OnDemandInboxRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [respondingId, setRespondingId] = useState<string | null>(null)
+
+  const loadRequests = useCallback(async () => {
+    try {
+      setRequests(await OnDemandService.getPendingRequests(barberId))
+    } catch (error) {
+      logger.error('Error loading on-demand inbox', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [barberId])
+
+  useEffect(() => {
+    if (!barberId) return
+
+    loadRequests()
+    const interval = setInterval(loadRequests, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [barberId, loadRequests])
+
+  const handleRespond = async (request: OnDemandInboxRequest, action: 'accept' | 'decline') => {
+    setRespondingId(request.id)
+    try {
+      if (action === 'accept') {
+        await OnDemandService.acceptRequest(request.id)
+        toast({
+          title: 'Request accepted',
+          description: 'The appointment has been added to your calendar.',
+        })
+      } else {
+        await OnDemandService.declineRequest(request.id)
+        toast({
+          title: 'Request declined',
+          description: "The client has been told and their card won't be charged.",
+        })
+      }
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to answer request. Please try again.',
+        variant: 'destructive',
+      })
+    } finally {
+      setRespondingId(null)
+      loadRequests()
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Inbox className="h-5 w-5" />
+          On-Demand Requests
+        </CardTitle>
+        <CardDescription>
+          Clients nearby asking you to come to them. Requests expire if you don't answer in time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No pending requests</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => (
+              <div key={request.id} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="space-y-1">
+                    <p className="font-semibold">
+                      {request.service?.name || 'Service'}
+                      {request.client?.name ? ` for ${request.client.name}` : ''}
+                    </p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Clock className="h-4 w-4" />
+                      {format(new Date(request.requested_time), 'EEE, MMM d · h:mm a')}
+                    </p>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <MapPin className="h-4 w-4" />
+                      {request.location_address || 'Location shared'}
+                      {request.distance_miles != null ? ` · ${request.distance_miles} mi away` : ''}
+                    </p>
+                    {request.notes && <p className="text-sm">{request.notes}</p>}
+                  </div>
+                  <div className="text-right space-y-1">
+                    <p className="font-semibold">${Number(request.price).toFixed(2)}</p>
+                    {Number(request.surge_multiplier) > 1 && (
+                      <Badge variant="secondary" className="gap-1">
+                        <Zap className="h-3 w-3" />
+                        {Number(request.surge_multiplier)}x
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-muted-foreground">
+                    {request.expires_at ? formatOnDemandTimeLeft(request.expires_at) : ''}
+                  </span>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={respondingId === request.id}
+                      onClick={() => handleRespond(request, 'decline')}
+                    >
+                      Decline
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={respondingId === request.id}
+                      onClick={() => handleRespond(request, 'accept')}
+                    >
+                      Accept
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -15,6 +15,7 @@ import { useToast } from '@/shared/components/ui/use-toast'
 import { supabase } from '@/shared/lib/supabase'
 import { useAuth } from '@/shared/hooks/use-auth-zustand'
 import { logger } from '@/shared/lib/logger'
+import { ONDEMAND_RESPONSE_MINUTES } from '@/shared/lib/ondemand-timing'
 import { 
   Phone, 
   MapPin, 
@@ -116,7 +117,7 @@ export function OnDemandSettings({ barberId, onUpdate }: OnDemandSettingsProps)
           surge_pricing_enabled: data.surge_pricing_enabled,
           surge_multiplier: data.surge_multiplier,
           updated_at: new Date().toISOString(),
-        })
+        }, { onConflict: 'barber_id' })
 
       if (error) throw error
 
@@ -228,7 +229,7 @@ export function OnDemandSettings({ barberId, onUpdate }: OnDemandSettingsProps)
                             />
                           </FormControl>
                           <FormDescription>
-                            Maximum distance you're willing to travel for on-demand requests. Clients within this radius can request your service.
+                            Maximum distance you're willing to travel for on-demand requests, measured from the location on your profile. Clients within this radius can request your service.
                           </FormDescription>
                           <FormMessage />
                         </FormItem>
@@ -311,7 +312,7 @@ export function OnDemandSettings({ barberId, onUpdate }: OnDemandSettingsProps)
                           <div className="space-y-0.5">
                             <FormLabel className="text-base">Enable Surge Pricing</FormLabel>
                             <FormDescription>
-                              Automatically increase prices during high-demand periods to incentivize availability.
+                              Charge more for on-demand requests than for regular bookings.
                             </FormDescription>
                           </div>
                           <FormControl>
@@ -342,7 +343,7 @@ export function OnDemandSettings({ barberId, onUpdate }: OnDemandSettingsProps)
                               />
                             </FormControl>
                             <FormDescription>
-                              Multiply your regular service prices by this factor during surge periods (e.g., 1.5x = 50% increase).
+                              Your regular service prices are multiplied by this factor for on-demand requests (e.g., 1.5x = 50% increase).
                             </FormDescription>
                             <FormMessage />
                           </FormItem>
@@ -373,8 +374,8 @@ export function OnDemandSettings({ barberId, onUpdate }: OnDemandSettingsProps)
           <div className="space-y-2">
             <p><strong>Client Requests:</strong> Clients can request immediate service through the app, specifying their location and preferred time.</p>
             <p><strong>Notifications:</strong> You'll receive push notifications for new on-demand requests within your service area.</p>
-            <p><strong>Accept/Decline:</strong> You can accept or decline requests based on your availability and preferences.</p>
-            <p><strong>Surge Pricing:</strong> During busy periods, prices automatically increase to encourage more barbers to be available.</p>
+            <p><strong>Accept/Decline:</strong> Answer each request within {ONDEMAND_RESPONSE_MINUTES} minutes. Accepted requests become regular bookings in your calendar; unanswered requests expire.</p>
+            <p><strong>Surge Pricing:</strong> When enabled, your surge multiplier applies to the service price of every on-demand request.</p>
             <p><strong>Location Services:</strong> The app uses GPS to match clients with nearby barbers and calculate travel distances.</p>
           </div>
         </CardContent>
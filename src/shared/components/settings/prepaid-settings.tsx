@@ -0,0 +1,258 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Gift, Package, Plus, Loader2 } from 'lucide-react'
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { GlassyCard } from '@/shared/components/ui/glassy-card'
+import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Switch } from '@/shared/components/ui/switch'
+import { Badge } from '@/shared/components/ui/badge'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { supabase } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+import { PrepaidService } from '@/shared/lib/prepaid-service'
+import { describePackage } from '@/shared/lib/prepaid-balances'
+import { BarberPackage } from '@/shared/types/prepaid'
+import { cn } from '@/shared/utils/utils'
+
+interface PrepaidSettingsProps {
+  barberId: string
+}
+
+const EMPTY_FORM = {
+  serviceId: '',
+  name: '',
+  visitCount: '5',
+  price: '',
+}
+
+// Whether the barber sells gift cards, and the packages of visits they offer
+export function PrepaidSettings({ barberId }: PrepaidSettingsProps) {
+  const { toast } = useToast()
+  const [giftCardsEnabled, setGiftCardsEnabled] = useState(false)
+  const [packages, setPackages] = useState<BarberPackage[]>([])
+  const [services, setServices] = useState<{ id: string; name: string; price: number }[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [showForm, setShowForm] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const loadPackages = async () => {
+    try {
+      const [barberPackages, { data: barber }, { data: barberServices }] = await Promise.all([
+        PrepaidService.getPackages(barberId),
+        supabase.from('barbers').select('gift_cards_enabled').eq('id', barberId).single(),
+        supabase.from('services').select('id, name, price').eq('barber_id', barberId)
+      ])
+      setPackages(barberPackages)
+      setGiftCardsEnabled(!!barber?.gift_cards_enabled)
+      setServices(barberServices || [])
+    } catch (error) {
+      logger.error('Error loading packages', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPackages()
+  }, [barberId])
+
+  const handleGiftCardsToggle = async (enabled: boolean) => {
+    try {
+      await PrepaidService.setGiftCardsEnabled(barberId, enabled)
+      setGiftCardsEnabled(enabled)
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update gift cards', variant: 'destructive' })
+    }
+  }
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      await PrepaidService.createPackage(barberId, {
+        service_id: form.serviceId,
+        name: form.name.trim(),
+        visit_count: Number(form.visitCount),
+        price: Number(form.price),
+      })
+      toast({ title: 'Package created', description: `${form.name.trim()} is on your booking page.` })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await loadPackages()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create the package',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (pkg: BarberPackage) => {
+    try {
+      await PrepaidService.setPackageActive(pkg.id, !pkg.is_active)
+      setPackages(packages.map(p => p.id === pkg.id ? { ...p, is_active: !pkg.is_active } : p))
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update the package', variant: 'destructive' })
+    }
+  }
+
+  const selectedService = services.find(s => s.id === form.serviceId)
+  const visitCount = Number(form.visitCount)
+  const canCreate = !!selectedService && form.name.trim().length > 0 &&
+    Number.isInteger(visitCount) && visitCount >= 2 && visitCount <= 20 && Number(form.price) > 0
+
+  return (
+    <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl font-bebas text-white tracking-wide">Gift Cards & Packages</CardTitle>
+          <CardDescription className="text-white/80">
+            Sold from your booking page and paid out to you straight away; clients redeem them when they book
+          </CardDescription>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} className="bg-secondary text-primary font-semibold hover:bg-secondary/90">
+            <Plus className="h-4 w-4 mr-2" />
+            New package
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between p-4 rounded-xl bg-white/5 border border-white/10">
+          <div className="flex items-center gap-3">
+            <Gift className="h-5 w-5 text-secondary" />
+            <div>
+              <div className="font-semibold text-white">Sell gift cards</div>
+              <div className="text-xs text-white/60">Clients pick an amount and can send it to a friend</div>
+            </div>
+          </div>
+          <Switch
+            checked={giftCardsEnabled}
+            disabled={isLoading}
+            onCheckedChange={handleGiftCardsToggle}
+            aria-label="Sell gift cards"
+          />
+        </div>
+
+        {showForm && (
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-4">
+            <div className="space-y-2">
+              <Label className="text-white">Service</Label>
+              <div className="flex flex-wrap gap-2">
+                {services.map(service => (
+                  <Button
+                    key={service.id}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, serviceId: service.id, name: form.name || `${form.visitCount} ${service.name}s` })}
+                    className={cn("border-white/20 text-white", form.serviceId === service.id && "bg-secondary text-primary border-secondary")}
+                  >
+                    {service.name}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="5 Cut Pack"
+                  maxLength={80}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Visits</Label>
+                <Input
+                  type="number"
+                  min="2"
+                  max="20"
+                  value={form.visitCount}
+                  onChange={(e) => setForm({ ...form, visitCount: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Package price ($)</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={selectedService ? (selectedService.price * Math.max(1, visitCount - 1)).toFixed(2) : ''}
+                  value={form.price}
+                  onChange={(e) => setForm({ ...form, price: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+            </div>
+            {canCreate && selectedService && (
+              <p className="text-sm text-white/70">
+                Clients see: {describePackage({ visit_count: visitCount, price: Number(form.price) }, selectedService.price)}
+              </p>
+            )}
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" onClick={() => { setForm(EMPTY_FORM); setShowForm(false) }} className="text-white/70">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={saving || !canCreate}
+                className="bg-secondary text-primary font-semibold hover:bg-secondary/90"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create package
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <LoadingSpinner size="md" text="Loading packages..." />
+        ) : packages.length === 0 ? (
+          <p className="text-sm text-white/60 text-center py-4">
+            Offer a package like 5 cuts for the price of 4 to keep regulars coming back.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {packages.map(pkg => {
+              const service = services.find(s => s.id === pkg.service_id)
+              return (
+                <GlassyCard key={pkg.id} variant="hover" className="p-4 flex items-center gap-4">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Package className="h-4 w-4 text-secondary" />
+                      <span className="font-bold text-white">{pkg.name}</span>
+                      {!pkg.is_active && (
+                        <Badge className="bg-white/10 text-white/60 border-white/20">Paused</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-white/80">
+                      {service ? describePackage(pkg, service.price) : `${pkg.visit_count} visits for $${Number(pkg.price).toFixed(2)}`}
+                    </p>
+                    {service && <p className="text-xs text-white/40">{service.name}</p>}
+                  </div>
+                  <Switch
+                    checked={pkg.is_active}
+                    onCheckedChange={() => handleToggleActive(pkg)}
+                    aria-label={pkg.is_active ? 'Pause package' : 'Resume package'}
+                  />
+                </GlassyCard>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </GlassyCard>
+  )
+}
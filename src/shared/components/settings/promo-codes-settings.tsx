@@ -0,0 +1,314 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Tag, Plus, Loader2 } from 'lucide-react'
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/shared/components/ui/card'
+import { GlassyCard } from '@/shared/components/ui/glassy-card'
+import { LoadingSpinner } from '@/shared/components/ui/loading-spinner'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Switch } from '@/shared/components/ui/switch'
+import { Badge } from '@/shared/components/ui/badge'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { supabase } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+import { PromoCodeService } from '@/shared/lib/promo-code-service'
+import { describePromoCode, WEEKDAY_LABELS } from '@/shared/lib/promo-codes'
+import { PromoCode, PromoCodeReport, PromoDiscountType } from '@/shared/types/promo-code'
+import { cn } from '@/shared/utils/utils'
+
+interface PromoCodesSettingsProps {
+  barberId: string
+}
+
+const EMPTY_FORM = {
+  code: '',
+  discountType: 'percentage' as PromoDiscountType,
+  discountValue: '',
+  maxRedemptions: '',
+  maxPerClient: '1',
+  firstVisitOnly: false,
+  serviceIds: [] as string[],
+  weekdays: [] as number[],
+  expiresOn: '',
+}
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+
+// The barber's promo codes, how often each was redeemed and what it gave away
+export function PromoCodesSettings({ barberId }: PromoCodesSettingsProps) {
+  const { toast } = useToast()
+  const [codes, setCodes] = useState<PromoCode[]>([])
+  const [report, setReport] = useState<PromoCodeReport[]>([])
+  const [services, setServices] = useState<{ id: string; name: string }[]>([])
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [showForm, setShowForm] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  const loadCodes = async () => {
+    try {
+      const [barberCodes, barberReport, { data: barberServices }] = await Promise.all([
+        PromoCodeService.getBarberCodes(barberId),
+        PromoCodeService.getReport(barberId),
+        supabase.from('services').select('id, name').eq('barber_id', barberId)
+      ])
+      setCodes(barberCodes)
+      setReport(barberReport)
+      setServices(barberServices || [])
+    } catch (error) {
+      logger.error('Error loading promo codes', error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCodes()
+  }, [barberId])
+
+  const handleCreate = async () => {
+    setSaving(true)
+    try {
+      await PromoCodeService.createCode(barberId, {
+        code: form.code,
+        discount_type: form.discountType,
+        discount_value: Number(form.discountValue),
+        max_redemptions: form.maxRedemptions ? Number(form.maxRedemptions) : null,
+        max_redemptions_per_client: form.maxPerClient ? Number(form.maxPerClient) : null,
+        first_visit_only: form.firstVisitOnly,
+        service_ids: form.serviceIds,
+        weekdays: form.weekdays,
+        // Good through the end of the chosen day
+        expires_at: form.expiresOn ? new Date(`${form.expiresOn}T23:59:59`).toISOString() : null,
+      })
+      toast({ title: 'Promo code created', description: `${form.code.toUpperCase()} is ready to share.` })
+      setForm(EMPTY_FORM)
+      setShowForm(false)
+      await loadCodes()
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to create the promo code',
+        variant: 'destructive',
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (promo: PromoCode) => {
+    try {
+      await PromoCodeService.setActive(promo.id, !promo.is_active)
+      setCodes(codes.map(c => c.id === promo.id ? { ...c, is_active: !promo.is_active } : c))
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update the promo code', variant: 'destructive' })
+    }
+  }
+
+  const discountValue = Number(form.discountValue)
+  const canCreate = form.code.trim().length >= 3 && discountValue > 0 &&
+    (form.discountType === 'fixed' || discountValue <= 100)
+
+  return (
+    <GlassyCard className="bg-white/5 border border-white/10 shadow-xl backdrop-blur-xl rounded-2xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl font-bebas text-white tracking-wide">Promo Codes</CardTitle>
+          <CardDescription className="text-white/80">
+            Discounts come off your service price; the booking fee is unchanged
+          </CardDescription>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} className="bg-secondary text-primary font-semibold hover:bg-secondary/90">
+            <Plus className="h-4 w-4 mr-2" />
+            New code
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showForm && (
+          <div className="p-4 rounded-xl bg-white/5 border border-white/10 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label className="text-white">Code</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="FIRSTCUT"
+                  maxLength={20}
+                  className="bg-white/10 border-white/20 text-white uppercase"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Discount</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.discountValue}
+                    onChange={(e) => setForm({ ...form, discountValue: e.target.value })}
+                    className="bg-white/10 border-white/20 text-white"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setForm({ ...form, discountType: form.discountType === 'percentage' ? 'fixed' : 'percentage' })}
+                    className="border-white/20 text-white w-14"
+                  >
+                    {form.discountType === 'percentage' ? '%' : '$'}
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Expires</Label>
+                <Input
+                  type="date"
+                  value={form.expiresOn}
+                  onChange={(e) => setForm({ ...form, expiresOn: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Total uses</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={form.maxRedemptions}
+                  onChange={(e) => setForm({ ...form, maxRedemptions: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-white">Uses per client</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  placeholder="Unlimited"
+                  value={form.maxPerClient}
+                  onChange={(e) => setForm({ ...form, maxPerClient: e.target.value })}
+                  className="bg-white/10 border-white/20 text-white"
+                />
+              </div>
+              <div className="flex items-center gap-3 pt-7">
+                <Switch
+                  checked={form.firstVisitOnly}
+                  onCheckedChange={(checked) => setForm({ ...form, firstVisitOnly: checked })}
+                />
+                <Label className="text-white">First visit only</Label>
+              </div>
+            </div>
+
+            {services.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-white">Services <span className="text-white/40">(all when none are picked)</span></Label>
+                <div className="flex flex-wrap gap-2">
+                  {services.map(service => (
+                    <Button
+                      key={service.id}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setForm({ ...form, serviceIds: toggle(form.serviceIds, service.id) })}
+                      className={cn("border-white/20 text-white", form.serviceIds.includes(service.id) && "bg-secondary text-primary border-secondary")}
+                    >
+                      {service.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label className="text-white">Days <span className="text-white/40">(every day when none are picked)</span></Label>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAY_LABELS.map((label, day) => (
+                  <Button
+                    key={label}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setForm({ ...form, weekdays: toggle(form.weekdays, day) })}
+                    className={cn("border-white/20 text-white", form.weekdays.includes(day) && "bg-secondary text-primary border-secondary")}
+                  >
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2 justify-end">
+              <Button variant="ghost" onClick={() => { setForm(EMPTY_FORM); setShowForm(false) }} className="text-white/70">
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={saving || !canCreate}
+                className="bg-secondary text-primary font-semibold hover:bg-secondary/90"
+              >
+                {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Create code
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <LoadingSpinner size="md" text="Loading promo codes..." />
+        ) : codes.length === 0 ? (
+          <p className="text-sm text-white/60 text-center py-4">
+            Create a code to bring in new clients or fill quiet days.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {codes.map(promo => {
+              const stats = report.find(row => row.promo_code_id === promo.id)
+              const expired = !!promo.expires_at && new Date(promo.expires_at) <= new Date()
+              return (
+                <GlassyCard key={promo.id} variant="hover" className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+                  <div className="flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Tag className="h-4 w-4 text-secondary" />
+                      <span className="font-bold text-white tracking-wide">{promo.code}</span>
+                      {expired ? (
+                        <Badge className="bg-white/10 text-white/60 border-white/20">Expired</Badge>
+                      ) : !promo.is_active && (
+                        <Badge className="bg-white/10 text-white/60 border-white/20">Paused</Badge>
+                      )}
+                    </div>
+                    <p className="text-sm text-white/80">{describePromoCode(promo)}</p>
+                    <p className="text-xs text-white/40">
+                      {promo.max_redemptions ? `${stats?.redemption_count ?? 0} of ${promo.max_redemptions} used` : `${stats?.redemption_count ?? 0} used`}
+                      {promo.expires_at && ` • Expires ${format(new Date(promo.expires_at), 'MMM d, yyyy')}`}
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-2 gap-4 text-right">
+                    <div>
+                      <div className="text-xs text-white/60">Discounts given</div>
+                      <div className="font-semibold text-white">${Number(stats?.discount_total ?? 0).toFixed(2)}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-white/60">Booked revenue</div>
+                      <div className="font-semibold text-secondary">${Number(stats?.booking_total ?? 0).toFixed(2)}</div>
+                    </div>
+                  </div>
+                  <Switch
+                    checked={promo.is_active}
+                    disabled={expired}
+                    onCheckedChange={() => handleToggleActive(promo)}
+                    aria-label={promo.is_active ? 'Pause code' : 'Resume code'}
+                  />
+                </GlassyCard>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </GlassyCard>
+  )
+}
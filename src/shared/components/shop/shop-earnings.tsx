@@ -0,0 +1,108 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { addMonths, format, startOfMonth } from 'date-fns'
+import { CheckCircle, Loader2, AlertCircle } from 'lucide-react'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/shared/components/ui/table'
+import { ShopService, totalShopEarnings } from '@/shared/lib/shop-service'
+import type { ShopEarningsRow } from '@/shared/types'
+
+interface ShopEarningsProps {
+  shopId: string
+}
+
+// How many months back the owner can look
+const MONTHS_SHOWN = 12
+
+function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+export function ShopEarnings({ shopId }: ShopEarningsProps) {
+  const [monthsAgo, setMonthsAgo] = useState(0)
+  const [rows, setRows] = useState<ShopEarningsRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const from = startOfMonth(addMonths(new Date(), -monthsAgo))
+
+  useEffect(() => {
+    setLoading(true)
+    setError(null)
+    ShopService.getEarnings(shopId, from, addMonths(from, 1))
+      .then(setRows)
+      .catch(err => setError(err instanceof Error ? err.message : 'Could not load earnings'))
+      .finally(() => setLoading(false))
+  }, [shopId, monthsAgo])
+
+  const totals = totalShopEarnings(rows)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-white/60 text-sm">
+          Paid bookings per barber. Payouts go straight to each barber&apos;s own Stripe account.
+        </p>
+        <Select value={String(monthsAgo)} onValueChange={value => setMonthsAgo(Number(value))}>
+          <SelectTrigger className="w-44 bg-white/10 border-white/20 text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: MONTHS_SHOWN }, (_, index) => (
+              <SelectItem key={index} value={String(index)}>
+                {format(startOfMonth(addMonths(new Date(), -index)), 'MMMM yyyy')}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin text-secondary" />
+        </div>
+      ) : error ? (
+        <p className="text-red-400 text-sm text-center py-8">{error}</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow className="border-white/10">
+              <TableHead className="text-white/60">Barber</TableHead>
+              <TableHead className="text-white/60 text-right">Bookings</TableHead>
+              <TableHead className="text-white/60 text-right">Gross</TableHead>
+              <TableHead className="text-white/60 text-right">Barber payout</TableHead>
+              <TableHead className="text-white/60">Stripe</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.barber_id} className="border-white/10">
+                <TableCell className="text-white">{row.name}</TableCell>
+                <TableCell className="text-white/80 text-right">{row.booking_count}</TableCell>
+                <TableCell className="text-white/80 text-right">{formatMoney(row.gross)}</TableCell>
+                <TableCell className="text-white/80 text-right">{formatMoney(row.barber_payout)}</TableCell>
+                <TableCell>
+                  {row.stripe_account_ready ? (
+                    <span className="flex items-center gap-1 text-green-400 text-xs"><CheckCircle className="h-3 w-3" />Connected</span>
+                  ) : (
+                    <span className="flex items-center gap-1 text-yellow-400 text-xs"><AlertCircle className="h-3 w-3" />Not set up</span>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow className="border-white/10 bg-white/5">
+              <TableCell className="text-white font-semibold">Shop total</TableCell>
+              <TableCell className="text-white font-semibold text-right">{totals.booking_count}</TableCell>
+              <TableCell className="text-white font-semibold text-right">{formatMoney(totals.gross)}</TableCell>
+              <TableCell className="text-white font-semibold text-right">{formatMoney(totals.barber_payout)}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+import { FormEvent, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Label } from '@/shared/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { Textarea } from '@/shared/components/ui/textarea'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { SHOP_ASSIGNMENT_RULE_LABELS, ShopService, slugifyShopName } from '@/shared/lib/shop-service'
+import type { Shop, ShopAssignmentRule } from '@/shared/types'
+
+interface ShopFormProps {
+  userId: string
+  // Edits this shop; creates a new one when absent
+  shop?: Shop
+  onSaved: (shop: Shop) => void
+}
+
+const inputClassName = 'bg-white/10 border-white/20 text-white placeholder:text-white/40'
+
+export function ShopForm({ userId, shop, onSaved }: ShopFormProps) {
+  const { toast } = useToast()
+  const [name, setName] = useState(shop?.name || '')
+  const [description, setDescription] = useState(shop?.description || '')
+  const [location, setLocation] = useState(shop?.location || '')
+  const [phone, setPhone] = useState(shop?.phone || '')
+  const [assignmentRule, setAssignmentRule] = useState<ShopAssignmentRule>(shop?.assignment_rule || 'round_robin')
+  const [saving, setSaving] = useState(false)
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault()
+
+    if (name.trim().length < 2) {
+      toast({ title: 'Missing details', description: 'Give your shop a name.', variant: 'destructive' })
+      return
+    }
+
+    setSaving(true)
+    try {
+      const input = { name, description, location, phone, assignment_rule: assignmentRule }
+      const saved = shop ? await ShopService.updateShop(shop.id, input) : await ShopService.createShop(userId, input)
+      toast({ title: shop ? 'Shop updated' : 'Shop created', description: shop ? undefined : 'Invite your barbers from the Team tab.' })
+      onSaved(saved)
+    } catch (error) {
+      toast({
+        title: shop ? 'Could not update the shop' : 'Could not create the shop',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-1">
+        <Label className="text-white/80">Shop name</Label>
+        <Input value={name} onChange={event => setName(event.target.value)} maxLength={80} className={inputClassName} />
+        {!shop && slugifyShopName(name) && (
+          <p className="text-white/50 text-xs">Your shop page will be /shop/{slugifyShopName(name)}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label className="text-white/80">Location</Label>
+          <Input
+            value={location}
+            onChange={event => setLocation(event.target.value)}
+            placeholder="Street, city"
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-white/80">Phone</Label>
+          <Input value={phone} onChange={event => setPhone(event.target.value)} type="tel" className={inputClassName} />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-white/80">About the shop</Label>
+        <Textarea
+          value={description}
+          onChange={event => setDescription(event.target.value)}
+          maxLength={1000}
+          rows={4}
+          className={inputClassName}
+        />
+      </div>
+
+      {shop && (
+        <div className="space-y-1">
+          <Label className="text-white/80">First-available bookings go to</Label>
+          <Select value={assignmentRule} onValueChange={value => setAssignmentRule(value as ShopAssignmentRule)}>
+            <SelectTrigger className="bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SHOP_ASSIGNMENT_RULE_LABELS) as ShopAssignmentRule[]).map(rule => (
+                <SelectItem key={rule} value={rule}>{SHOP_ASSIGNMENT_RULE_LABELS[rule]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-white/50 text-xs">
+            When a client books any available barber, who gets it among the barbers free at that time
+          </p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="submit" disabled={saving} className="bg-saffron text-primary hover:bg-saffron/90">
+          {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {shop ? 'Save' : 'Create shop'}
+        </Button>
+      </div>
+    </form>
+  )
+}
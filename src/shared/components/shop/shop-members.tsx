@@ -0,0 +1,173 @@
+'use client'
+
+import { FormEvent, useEffect, useState } from 'react'
+import { Loader2, UserPlus, X } from 'lucide-react'
+import { Avatar, AvatarFallback, AvatarImage } from '@/shared/components/ui/avatar'
+import { Badge } from '@/shared/components/ui/badge'
+import { Button } from '@/shared/components/ui/button'
+import { Input } from '@/shared/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
+import { useToast } from '@/shared/components/ui/use-toast'
+import { SHOP_ROLE_LABELS, ShopService } from '@/shared/lib/shop-service'
+import type { ShopMember, ShopRole } from '@/shared/types'
+
+interface ShopMembersProps {
+  shopId: string
+  userId: string
+  // The viewer's role; owners and managers invite, only owners change roles
+  role: ShopRole
+}
+
+type InviteRole = Exclude<ShopRole, 'owner'>
+
+export function ShopMembers({ shopId, userId, role }: ShopMembersProps) {
+  const { toast } = useToast()
+  const [members, setMembers] = useState<ShopMember[]>([])
+  const [loading, setLoading] = useState(true)
+  const [username, setUsername] = useState('')
+  const [inviteRole, setInviteRole] = useState<InviteRole>('barber')
+  const [inviting, setInviting] = useState(false)
+
+  const isOwner = role === 'owner'
+
+  useEffect(() => {
+    ShopService.getMembers(shopId)
+      .then(setMembers)
+      .catch(() => toast({ title: 'Could not load the team', variant: 'destructive' }))
+      .finally(() => setLoading(false))
+  }, [shopId])
+
+  const handleInvite = async (event: FormEvent) => {
+    event.preventDefault()
+    if (!username.trim()) return
+
+    setInviting(true)
+    try {
+      const member = await ShopService.inviteMember(shopId, userId, username, inviteRole)
+      setMembers(prev => [...prev, member])
+      setUsername('')
+      toast({ title: 'Invitation sent', description: `${member.profile?.name || 'They'} can accept it from their notifications.` })
+    } catch (error) {
+      toast({
+        title: 'Could not send the invitation',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    } finally {
+      setInviting(false)
+    }
+  }
+
+  const handleRoleChange = async (member: ShopMember, newRole: InviteRole) => {
+    try {
+      await ShopService.setMemberRole(member.id, newRole)
+      setMembers(prev => prev.map(item => (item.id === member.id ? { ...item, role: newRole } : item)))
+    } catch (error) {
+      toast({
+        title: 'Could not change the role',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      })
+    }
+  }
+
+  const handleRemove = async (member: ShopMember) => {
+    const name = member.profile?.name || 'this member'
+    const prompt = member.status === 'invited' ? `Cancel the invitation to ${name}?` : `Remove ${name} from the shop?`
+    if (!confirm(prompt)) return
+
+    try {
+      await ShopService.removeMember(member.id)
+      setMembers(prev => prev.filter(item => item.id !== member.id))
+    } catch {
+      toast({ title: 'Could not remove the member', variant: 'destructive' })
+    }
+  }
+
+  // Owners remove anyone but themselves; managers remove barbers
+  const canRemove = (member: ShopMember) =>
+    member.role !== 'owner' && (isOwner || member.role === 'barber')
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-secondary" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleInvite} className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={username}
+          onChange={event => setUsername(event.target.value)}
+          placeholder="Invite by username"
+          className="flex-1 bg-white/10 border-white/20 text-white placeholder:text-white/40"
+        />
+        {isOwner && (
+          <Select value={inviteRole} onValueChange={value => setInviteRole(value as InviteRole)}>
+            <SelectTrigger className="sm:w-36 bg-white/10 border-white/20 text-white">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="barber">{SHOP_ROLE_LABELS.barber}</SelectItem>
+              <SelectItem value="manager">{SHOP_ROLE_LABELS.manager}</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
+        <Button type="submit" disabled={inviting || !username.trim()} className="bg-saffron text-primary hover:bg-saffron/90">
+          {inviting ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <UserPlus className="h-4 w-4 mr-2" />}
+          Invite
+        </Button>
+      </form>
+
+      <div className="space-y-2">
+        {members.map(member => (
+          <div key={member.id} className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border border-white/10">
+            <Avatar className="h-10 w-10">
+              <AvatarImage src={member.profile?.avatar_url || undefined} alt={member.profile?.name} />
+              <AvatarFallback className="bg-secondary/20 text-secondary">
+                {(member.profile?.name || 'B').charAt(0).toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="text-white font-medium truncate">
+                {member.profile?.name || 'Member'}
+                {member.user_id === userId && <span className="text-white/50 font-normal"> (you)</span>}
+              </p>
+              {member.profile?.username && <p className="text-white/50 text-xs">@{member.profile.username}</p>}
+            </div>
+            {member.status === 'invited' && (
+              <Badge variant="outline" className="border-white/20 text-white/60">Invited</Badge>
+            )}
+            {isOwner && member.role !== 'owner' && member.status === 'active' ? (
+              <Select value={member.role} onValueChange={value => handleRoleChange(member, value as InviteRole)}>
+                <SelectTrigger className="w-32 h-8 bg-white/10 border-white/20 text-white text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="barber" disabled={!member.barber_id}>{SHOP_ROLE_LABELS.barber}</SelectItem>
+                  <SelectItem value="manager">{SHOP_ROLE_LABELS.manager}</SelectItem>
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="secondary" className="text-xs">{SHOP_ROLE_LABELS[member.role]}</Badge>
+            )}
+            {canRemove(member) && (
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => handleRemove(member)}
+                className="h-8 w-8 text-white/50 hover:text-red-400 hover:bg-white/10"
+                aria-label={`Remove ${member.profile?.name || 'member'}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -5,7 +5,6 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Button } from '@/shared/components/ui/button'
 import { Checkbox } from '@/shared/components/ui/checkbox'
 import { Label } from '@/shared/components/ui/label'
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/shared/components/ui/select'
 import { Input } from '@/shared/components/ui/input'
 import { Bell, X, MessageSquare, Shield, CheckCircle, Phone } from 'lucide-react'
 import { cn } from '@/shared/lib/utils'
@@ -23,29 +22,23 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
   const [dontShowAgain, setDontShowAgain] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
   const [phoneNumber, setPhoneNumber] = useState('')
-  const [carrier, setCarrier] = useState('')
   const [step, setStep] = useState<'info' | 'details'>('info')
 
   // Debug popup render
   logger.debug('SMS Popup Render', { isOpen, step })
 
-  // Auto-fill phone and carrier when popup opens
+  // Auto-fill phone when popup opens
   useEffect(() => {
     if (isOpen && step === 'details') {
       // Priority 1: Try to get from localStorage (previously saved)
       const savedPhone = localStorage.getItem('sms-phone-number')
-      const savedCarrier = localStorage.getItem('sms-carrier')
-      
+
       if (savedPhone) {
         setPhoneNumber(savedPhone)
       } else if (user?.phone) {
         // Priority 2: Try to get from user profile
         setPhoneNumber(user.phone)
       }
-
-      if (savedCarrier) {
-        setCarrier(savedCarrier)
-      }
     }
   }, [isOpen, step, user])
 
@@ -55,18 +48,17 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
       return
     }
 
-    if (!phoneNumber || !carrier) {
+    if (!phoneNumber) {
       return
     }
 
     setIsLoading(true)
     try {
-      // Call the parent's SMS enable function with phone and carrier data
+      // Call the parent's SMS enable function
       await onEnableSMS()
       
-      // Save phone and carrier info
+      // Save phone info
       localStorage.setItem('sms-phone-number', phoneNumber)
-      localStorage.setItem('sms-carrier', carrier)
       
       // If user checked "don't show again", save to localStorage
       if (dontShowAgain) {
@@ -89,23 +81,9 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
     // Reset form state
     setStep('info')
     setPhoneNumber('')
-    setCarrier('')
     onClose()
   }
 
-  // Carrier options
-  const carriers = [
-    { value: 'verizon', label: 'Verizon' },
-    { value: 'att', label: 'AT&T' },
-    { value: 'tmobile', label: 'T-Mobile' },
-    { value: 'sprint', label: 'Sprint' },
-    { value: 'boost', label: 'Boost Mobile' },
-    { value: 'cricket', label: 'Cricket Wireless' },
-    { value: 'metro', label: 'Metro by T-Mobile' },
-    { value: 'straight-talk', label: 'Straight Talk' },
-    { value: 'other', label: 'Other' }
-  ]
-
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-md w-full bg-black/95 border border-white/20 backdrop-blur-xl rounded-3xl shadow-2xl p-0 overflow-hidden">
@@ -122,7 +100,7 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
               <DialogDescription className="text-white/60 mt-1">
                 {step === 'info' 
                   ? 'Enable SMS notifications for the best experience'
-                  : 'We need your phone number and carrier to send you notifications'
+                  : 'We need your phone number to send you notifications'
                 }
               </DialogDescription>
             </div>
@@ -202,28 +180,6 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
                 </div>
                 <p className="text-white/50 text-xs">We'll send you a verification code</p>
               </div>
-
-              {/* Carrier Selection */}
-              <div className="space-y-2">
-                <Label htmlFor="carrier" className="text-white font-medium text-sm">Mobile Carrier</Label>
-                <Select value={carrier} onValueChange={setCarrier}>
-                  <SelectTrigger className="bg-white/10 border-white/20 text-white focus:border-secondary rounded-xl">
-                    <SelectValue placeholder="Select your carrier" />
-                  </SelectTrigger>
-                  <SelectContent className="bg-black/95 border-white/20">
-                    {carriers.map((carrierOption) => (
-                      <SelectItem 
-                        key={carrierOption.value} 
-                        value={carrierOption.value}
-                        className="text-white hover:bg-white/10 focus:bg-white/10"
-                      >
-                        {carrierOption.label}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-                <p className="text-white/50 text-xs">This helps us deliver messages reliably</p>
-              </div>
             </>
           )}
         </div>
@@ -232,7 +188,7 @@ export function SMSPermissionPopup({ isOpen, onClose, onEnableSMS }: SMSPermissi
         <div className="p-6 border-t border-white/10 space-y-3">
           <Button
             onClick={handleEnableSMS}
-            disabled={isLoading || (step === 'details' && (!phoneNumber || !carrier))}
+            disabled={isLoading || (step === 'details' && !phoneNumber)}
             className="w-full bg-secondary text-black font-semibold rounded-xl hover:bg-secondary/90 transition-all duration-300"
           >
             {isLoading ? (
@@ -293,33 +249,27 @@ export function useSMSPermissionPopup() {
     // Get SMS state from localStorage (popup) and profile (if available)
     const isSMSEnabled = localStorage.getItem('sms-notifications-enabled') === 'true'
     const hasPhoneNumber = localStorage.getItem('sms-phone-number')
-    const hasCarrier = localStorage.getItem('sms-carrier')
 
     // For debugging: also check profile fields if available
     const profileSMS = localStorage.getItem('sms_notifications') === 'true'
     const profilePhone = localStorage.getItem('profile_phone')
-    const profileCarrier = localStorage.getItem('profile_carrier')
 
     // Final values to use (prefer profile if present, else popup/localStorage)
     const smsEnabled = isSMSEnabled || profileSMS
     const phone = hasPhoneNumber || profilePhone
-    const carrier = hasCarrier || profileCarrier
 
-    // Show popup if NOT (all three: enabled, phone, carrier)
-    const shouldShow = !smsEnabled || !phone || !carrier
+    // Show popup if NOT (both: enabled, phone)
+    const shouldShow = !smsEnabled || !phone
 
     // Debug logging
     logger.debug('SMS Popup Debug', {
       isDismissed,
       isSMSEnabled,
       hasPhoneNumber,
-      hasCarrier,
       profileSMS,
       profilePhone,
-      profileCarrier,
       smsEnabled,
       phone,
-      carrier,
       shouldShow
     })
 
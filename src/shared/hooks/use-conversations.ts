@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { MessagingService } from '@/shared/lib/messaging-service'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { logger } from '@/shared/lib/logger'
+import type { ConversationSummary } from '@/shared/types'
+
+// The signed-in user's conversations, newest first, with unread counts kept live over Realtime.
+// Loading them also tells senders their messages were delivered.
+export function useConversations() {
+  const { user } = useAuth()
+  const [conversations, setConversations] = useState<ConversationSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  // The conversation list and the open thread each need their own channel
+  const channelSuffix = useRef(Math.random().toString(36).slice(2))
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return
+    try {
+      await MessagingService.markDelivered()
+      setConversations(await MessagingService.getConversations(user.id))
+    } catch (error) {
+      logger.error('Error loading conversations', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    if (!user) {
+      setConversations([])
+      setLoading(false)
+      return
+    }
+
+    loadConversations()
+    return MessagingService.subscribe(loadConversations, `conversations-${user.id}-${channelSuffix.current}`)
+  }, [user, loadConversations])
+
+  const unreadCount = conversations.reduce((total, conversation) => total + conversation.unread_count, 0)
+
+  return {
+    conversations,
+    unreadCount,
+    loading,
+    refresh: loadConversations
+  }
+}
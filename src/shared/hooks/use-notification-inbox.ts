@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { NotificationService, Notification } from '@/shared/lib/notification-service'
+import { useAuth } from '@/shared/hooks/use-auth-zustand'
+import { logger } from '@/shared/lib/logger'
+
+// The signed-in user's notifications and unread count, kept live over Realtime
+export function useNotificationInbox(limit = 50) {
+  const { user } = useAuth()
+  const [notifications, setNotifications] = useState<Notification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+  // The bell and the notifications page can be mounted together, each needs its own channel
+  const channelSuffix = useRef(Math.random().toString(36).slice(2))
+
+  const loadNotifications = useCallback(async () => {
+    if (!user) return
+    try {
+      const [userNotifications, count] = await Promise.all([
+        NotificationService.getUserNotifications(user.id, limit),
+        NotificationService.getUnreadCount(user.id)
+      ])
+      setNotifications(userNotifications)
+      setUnreadCount(count)
+    } catch (error) {
+      logger.error('Error loading notifications', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [user, limit])
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([])
+      setUnreadCount(0)
+      setLoading(false)
+      return
+    }
+
+    loadNotifications()
+    return NotificationService.subscribeToUserNotifications(
+      user.id,
+      loadNotifications,
+      `notifications-${user.id}-${channelSuffix.current}`
+    )
+  }, [user, loadNotifications])
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    const notification = notifications.find(n => n.id === notificationId)
+    if (!notification || notification.read) return
+
+    setNotifications(prev => prev.map(n => n.id === notificationId ? { ...n, read: true } : n))
+    setUnreadCount(prev => Math.max(0, prev - 1))
+    try {
+      await NotificationService.markAsRead(notificationId)
+    } catch (error) {
+      logger.error('Error marking notification as read', error)
+      await loadNotifications()
+    }
+  }, [notifications, loadNotifications])
+
+  const markAllAsRead = useCallback(async () => {
+    if (!user) return
+
+    setNotifications(prev => prev.map(n => ({ ...n, read: true })))
+    setUnreadCount(0)
+    try {
+      await NotificationService.markAllAsRead(user.id)
+    } catch (error) {
+      logger.error('Error marking all notifications as read', error)
+      await loadNotifications()
+    }
+  }, [user, loadNotifications])
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markAsRead,
+    markAllAsRead,
+    refresh: loadNotifications
+  }
+}
@@ -3,6 +3,7 @@ import { supabase } from '@/shared/lib/supabase';
 import { useToast } from '@/shared/components/ui/use-toast';
 import { Review, ReviewStats } from '@/shared/types';
 import { logger } from '@/shared/lib/logger';
+import { notifyReviewSubmitted } from '@/shared/lib/review-notifications';
 
 export function useReviews(barberId?: string) {
   const { toast } = useToast();
@@ -120,6 +121,8 @@ export function useReviews(barberId?: string) {
 
       if (error) throw error;
 
+      await notifyReviewSubmitted(data.id);
+
       toast({
         title: 'Success',
         description: 'Review submitted successfully!',
@@ -0,0 +1,97 @@
+/**
+ * Tests for the appointment lifecycle: check-in, start of service and completion
+ */
+
+import {
+  getAppointmentStage,
+  getCheckInBlocker,
+  getStartServiceBlocker,
+  getCompleteBlocker,
+  describeArrival,
+} from '../appointment-lifecycle';
+
+describe('Appointment Lifecycle', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const booking = {
+    date: '2025-03-10T12:30:00Z',
+    end_time: '2025-03-10T13:00:00Z',
+    status: 'confirmed' as const,
+  };
+
+  describe('getAppointmentStage', () => {
+    it('should follow the booking through check-in, service and completion', () => {
+      expect(getAppointmentStage(booking)).toBe('upcoming');
+      expect(getAppointmentStage({ ...booking, checked_in_at: '2025-03-10T12:25:00Z' })).toBe('checked_in');
+      expect(getAppointmentStage({ ...booking, checked_in_at: '2025-03-10T12:25:00Z', service_started_at: '2025-03-10T12:31:00Z' })).toBe('in_service');
+      expect(getAppointmentStage({ ...booking, status: 'completed' })).toBe('completed');
+    });
+
+    it('should report cancelled and no-show bookings as such', () => {
+      expect(getAppointmentStage({ ...booking, status: 'cancelled' })).toBe('cancelled');
+      expect(getAppointmentStage({ ...booking, status: 'no_show' })).toBe('no_show');
+    });
+  });
+
+  describe('getCheckInBlocker', () => {
+    it('should allow check-in within the hour before the start', () => {
+      expect(getCheckInBlocker(booking, now)).toBeNull();
+    });
+
+    it('should reject check-in too far ahead', () => {
+      expect(getCheckInBlocker({ ...booking, date: '2025-03-10T14:00:00Z', end_time: null }, now)).toContain('Check-in opens');
+    });
+
+    it('should allow a late arrival until the appointment ends', () => {
+      expect(getCheckInBlocker(booking, new Date('2025-03-10T12:45:00Z'))).toBeNull();
+      expect(getCheckInBlocker(booking, new Date('2025-03-10T13:00:00Z'))).toContain('already ended');
+    });
+
+    it('should reject a second check-in', () => {
+      expect(getCheckInBlocker({ ...booking, checked_in_at: '2025-03-10T11:55:00Z' }, now)).toContain('already checked in');
+    });
+
+    it('should reject a cancelled booking', () => {
+      expect(getCheckInBlocker({ ...booking, status: 'cancelled' }, now)).toContain('Only upcoming');
+    });
+  });
+
+  describe('getStartServiceBlocker', () => {
+    it('should allow seating a checked-in client early', () => {
+      expect(getStartServiceBlocker({ ...booking, checked_in_at: '2025-03-10T11:55:00Z' }, now)).toBeNull();
+    });
+
+    it('should reject starting an appointment that is not due', () => {
+      expect(getStartServiceBlocker({ ...booking, date: '2025-03-10T15:00:00Z' }, now)).toContain('not due');
+    });
+
+    it('should reject starting twice', () => {
+      expect(getStartServiceBlocker({ ...booking, service_started_at: '2025-03-10T11:58:00Z' }, now)).toContain('already started');
+    });
+  });
+
+  describe('getCompleteBlocker', () => {
+    it('should allow completing a started service', () => {
+      expect(getCompleteBlocker({ ...booking, service_started_at: '2025-03-10T11:58:00Z' }, now)).toBeNull();
+    });
+
+    it('should reject completing an appointment that has not started', () => {
+      expect(getCompleteBlocker(booking, now)).toContain('after it starts');
+    });
+
+    it('should reject completing twice', () => {
+      expect(getCompleteBlocker({ ...booking, status: 'completed' }, now)).toContain('Only active');
+    });
+  });
+
+  describe('describeArrival', () => {
+    it('should describe early, on-time and late check-ins', () => {
+      expect(describeArrival({ date: booking.date, checked_in_at: '2025-03-10T12:18:00Z' })).toBe('12 min early');
+      expect(describeArrival({ date: booking.date, checked_in_at: booking.date })).toBe('On time');
+      expect(describeArrival({ date: booking.date, checked_in_at: '2025-03-10T12:35:00Z' })).toBe('5 min late');
+    });
+
+    it('should return null before check-in', () => {
+      expect(describeArrival(booking)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for group bookings in the calendar
+ */
+
+import { groupCalendarEvents, describeGroup } from '../booking-group';
+import type { CalendarEvent } from '@/shared/types/calendar';
+
+const person = { id: 'p1', name: 'Sam', role: 'client' };
+
+const makeEvent = (id: string, start: string, end: string, group?: CalendarEvent['group']): CalendarEvent => ({
+  id,
+  title: id,
+  start: new Date(start),
+  end: new Date(end),
+  status: 'confirmed',
+  service: { name: 'Haircut', duration: 30, price: 30 },
+  barber: person,
+  client: person,
+  group,
+});
+
+describe('Booking Group', () => {
+  const group = { id: 'g1', name: 'Smith party', size: 2, memberName: null };
+
+  describe('groupCalendarEvents', () => {
+    it('should keep events outside a group as standalone events', () => {
+      const single = makeEvent('a', '2025-03-11T10:00:00Z', '2025-03-11T10:30:00Z');
+      expect(groupCalendarEvents([single])).toEqual({ singles: [single], groups: [] });
+    });
+
+    it('should link back to back members into one block spanning the group', () => {
+      const second = makeEvent('b', '2025-03-11T10:30:00Z', '2025-03-11T11:15:00Z', { ...group, memberName: 'Jo' });
+      const first = makeEvent('a', '2025-03-11T10:00:00Z', '2025-03-11T10:30:00Z', { ...group, memberName: 'Al' });
+
+      const { singles, groups } = groupCalendarEvents([second, first]);
+
+      expect(singles).toEqual([]);
+      expect(groups).toHaveLength(1);
+      expect(groups[0].events.map(event => event.id)).toEqual(['a', 'b']);
+      expect(groups[0].start).toEqual(new Date('2025-03-11T10:00:00Z'));
+      expect(groups[0].end).toEqual(new Date('2025-03-11T11:15:00Z'));
+    });
+
+    it('should keep different groups apart', () => {
+      const { groups } = groupCalendarEvents([
+        makeEvent('a', '2025-03-11T10:00:00Z', '2025-03-11T10:30:00Z', group),
+        makeEvent('b', '2025-03-11T14:00:00Z', '2025-03-11T14:30:00Z', { ...group, id: 'g2' }),
+      ]);
+
+      expect(groups.map(block => block.group.id)).toEqual(['g1', 'g2']);
+    });
+  });
+
+  describe('describeGroup', () => {
+    it('should show the group name and size', () => {
+      expect(describeGroup(group)).toBe('Smith party · 2 people');
+    });
+
+    it('should fall back to a generic label', () => {
+      expect(describeGroup({ name: null, size: 3 })).toBe('Group · 3 people');
+    });
+  });
+});
@@ -11,18 +11,19 @@ jest.mock('@/shared/lib/supabase', () => ({
         })),
       })),
     })),
+    auth: {
+      getSession: jest.fn(() => Promise.resolve({ data: { session: { access_token: 'token-123' } } })),
+    },
   },
 }))
 
-jest.mock('../notification-service', () => ({
-  NotificationService: {
-    createNotification: jest.fn(),
-  },
-}))
+const mockFetch = jest.fn()
 
 describe('BookingService', () => {
   beforeEach(() => {
     jest.clearAllMocks()
+    mockFetch.mockResolvedValue({ ok: true, json: () => Promise.resolve({ deliveries: [] }) })
+    global.fetch = mockFetch as any
   })
 
   it('should create a booking with fee and cut', async () => {
@@ -100,4 +101,39 @@ describe('BookingService', () => {
       payment_status: 'pending',
     })).rejects.toThrow('Either client_id or guest information must be provided')
   })
-}) 
\ No newline at end of file
+
+  it('should have the server send the booking notifications', async () => {
+    await BookingService.createBooking({
+      barber_id: 'barber123',
+      service_id: 'service123',
+      date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      price: 100,
+      client_id: 'client123',
+      payment_intent_id: 'pi_123',
+      status: 'pending',
+      payment_status: 'pending',
+    })
+
+    expect(mockFetch).toHaveBeenCalledWith('/api/bookings/notify', expect.objectContaining({
+      method: 'POST',
+      body: JSON.stringify({ bookingId: '123', event: 'requested' }),
+    }))
+  })
+
+  it('should keep the booking when its notifications fail', async () => {
+    mockFetch.mockResolvedValue({ ok: false, json: () => Promise.resolve({ error: 'Failed to send booking notifications' }) })
+
+    const booking = await BookingService.createBooking({
+      barber_id: 'barber123',
+      service_id: 'service123',
+      date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      price: 100,
+      client_id: 'client123',
+      payment_intent_id: 'pi_123',
+      status: 'pending',
+      payment_status: 'pending',
+    })
+
+    expect(booking.id).toBe('123')
+  })
+})
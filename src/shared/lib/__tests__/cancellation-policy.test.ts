@@ -0,0 +1,94 @@
+/**
+ * Tests for cancellation and no-show policy checks
+ */
+
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  getCancellationPolicy,
+  getCancellationBlocker,
+  getNoShowBlocker,
+  getCancellationOutcome,
+  describeCancellationPolicy,
+} from '../cancellation-policy';
+
+describe('Cancellation Policy', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const policy = { windowHours: 24, noShowFee: 15 };
+  const booking = {
+    date: '2025-03-12T15:00:00Z', // 51 hours away
+    status: 'confirmed',
+    payment_status: 'succeeded',
+  };
+  const lateBooking = { ...booking, date: '2025-03-11T06:00:00Z' }; // 18 hours away
+
+  describe('getCancellationPolicy', () => {
+    it('should fall back to defaults when the barber has no restrictions', () => {
+      expect(getCancellationPolicy(null)).toEqual(DEFAULT_CANCELLATION_POLICY);
+    });
+
+    it('should read numeric fees returned as strings', () => {
+      expect(getCancellationPolicy({ cancellation_window_hours: 12, no_show_fee: '20.00' as unknown as number })).toEqual({
+        windowHours: 12,
+        noShowFee: 20,
+      });
+    });
+  });
+
+  describe('getCancellationBlocker', () => {
+    it('should allow an upcoming booking', () => {
+      expect(getCancellationBlocker(booking, now)).toBeNull();
+    });
+
+    it('should reject bookings that are no longer upcoming', () => {
+      expect(getCancellationBlocker({ ...booking, status: 'completed' }, now)).toContain('Only upcoming bookings');
+      expect(getCancellationBlocker({ ...booking, date: '2025-03-10T11:00:00Z' }, now)).toBe('This appointment has already started');
+    });
+  });
+
+  describe('getNoShowBlocker', () => {
+    it('should allow a booking that has started', () => {
+      expect(getNoShowBlocker({ ...booking, date: '2025-03-10T11:00:00Z' }, now)).toBeNull();
+    });
+
+    it('should reject a booking that has not started yet', () => {
+      expect(getNoShowBlocker(booking, now)).toContain('after it starts');
+    });
+
+    it('should reject a booking already marked', () => {
+      expect(getNoShowBlocker({ ...booking, date: '2025-03-10T11:00:00Z', status: 'no_show' }, now)).toContain('Only upcoming bookings');
+    });
+
+    it('should reject a client who checked in', () => {
+      expect(getNoShowBlocker({ ...booking, date: '2025-03-10T11:00:00Z', checked_in_at: '2025-03-10T10:55:00Z' }, now)).toContain('checked in');
+    });
+  });
+
+  describe('getCancellationOutcome', () => {
+    it('should refund the platform fee for an early client cancellation', () => {
+      expect(getCancellationOutcome(booking, policy, 'client', now)).toEqual({ type: 'refund' });
+    });
+
+    it('should charge the fee for a late client cancellation', () => {
+      expect(getCancellationOutcome(lateBooking, policy, 'client', now)).toEqual({ type: 'fee', amount: 15 });
+    });
+
+    it('should not charge a late cancellation when the barber has no fee', () => {
+      expect(getCancellationOutcome(lateBooking, { ...policy, noShowFee: 0 }, 'client', now)).toEqual({ type: 'none' });
+    });
+
+    it('should always refund when the barber cancels', () => {
+      expect(getCancellationOutcome(lateBooking, policy, 'barber', now)).toEqual({ type: 'refund' });
+    });
+
+    it('should not refund a booking that was never paid', () => {
+      expect(getCancellationOutcome({ ...booking, payment_status: 'pending' }, policy, 'client', now)).toEqual({ type: 'none' });
+    });
+  });
+
+  describe('describeCancellationPolicy', () => {
+    it('should mention the fee only when one is set', () => {
+      expect(describeCancellationPolicy(policy)).toContain('$15.00');
+      expect(describeCancellationPolicy({ ...policy, noShowFee: 0 })).not.toContain('$');
+    });
+  });
+});
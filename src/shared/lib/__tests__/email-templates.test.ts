@@ -0,0 +1,239 @@
+/**
+ * Tests for transactional email templates and booking calendar invites
+ */
+
+import {
+  authLinkEmail,
+  bookingCancelledEmail,
+  bookingConfirmationEmail,
+  bookingRescheduledEmail,
+  escapeHtml,
+  formatCents,
+  giftReceivedEmail,
+  receiptEmail,
+  reviewRequestEmail,
+} from '../email-templates';
+import { buildBookingIcs, getBookingIcsUid } from '../booking-ics';
+import { calculateFeeBreakdown } from '../fee-calculator';
+
+describe('Email Templates', () => {
+  const booking = {
+    bookingId: 'booking-1',
+    audience: 'client' as const,
+    recipientName: 'Jordan',
+    clientName: 'Jordan',
+    barberName: 'Marcus',
+    serviceName: 'Fade',
+    start: '2025-03-12T19:00:00.000Z', // 3:00 PM in New York
+    end: '2025-03-12T19:45:00.000Z',
+    timeZone: 'America/New_York',
+    location: 'Atlanta, GA',
+    manageUrl: 'https://www.bocmstyle.com/calendar',
+    sequence: 0,
+  };
+
+  describe('bookingConfirmationEmail', () => {
+    it('should render the booking in the barber timezone as HTML and plain text', () => {
+      const email = bookingConfirmationEmail(booking);
+
+      expect(email.subject).toContain('Marcus');
+      expect(email.text).toContain('Your Fade with Marcus is booked for');
+      expect(email.text).toContain('3:00');
+      expect(email.html).toContain('<h1');
+      expect(email.html).toContain('Atlanta, GA');
+    });
+
+    it('should attach a calendar invite', () => {
+      const [invite] = bookingConfirmationEmail(booking).attachments!;
+
+      expect(invite.filename).toBe('invite.ics');
+      expect(invite.contentType).toContain('method=REQUEST');
+      expect(invite.content).toContain('DTSTART:20250312T190000Z');
+      expect(invite.content).toContain('DTEND:20250312T194500Z');
+      expect(invite.content).toContain(`UID:${getBookingIcsUid('booking-1')}`);
+    });
+
+    it('should write the barber copy about the client', () => {
+      const email = bookingConfirmationEmail({ ...booking, audience: 'barber', recipientName: 'Marcus' });
+
+      expect(email.subject).toContain('New booking: Jordan');
+      expect(email.text).toContain('Client: Jordan');
+    });
+
+    it('should escape names in the HTML', () => {
+      const email = bookingConfirmationEmail({ ...booking, barberName: '<script>alert(1)</script>' });
+
+      expect(email.html).not.toContain('<script>');
+      expect(email.html).toContain('&lt;script&gt;');
+    });
+  });
+
+  describe('bookingRescheduledEmail', () => {
+    it('should show the old time and update the same calendar event', () => {
+      const email = bookingRescheduledEmail({
+        ...booking,
+        sequence: 1,
+        previousStart: '2025-03-11T19:00:00.000Z',
+      });
+
+      expect(email.text).toContain('Was:');
+      expect(email.attachments![0].content).toContain('SEQUENCE:1');
+      expect(email.attachments![0].content).toContain(`UID:${getBookingIcsUid('booking-1')}`);
+    });
+  });
+
+  describe('bookingCancelledEmail', () => {
+    it('should cancel the calendar event and mention the refund', () => {
+      const email = bookingCancelledEmail({ ...booking, sequence: 1, cancelledBy: 'barber', refunded: true });
+
+      expect(email.text).toContain('Marcus cancelled your Fade');
+      expect(email.text).toContain('booking fee will be refunded');
+      expect(email.attachments![0].contentType).toContain('method=CANCEL');
+      expect(email.attachments![0].content).toContain('STATUS:CANCELLED');
+    });
+
+    it('should mention a late cancellation fee', () => {
+      const email = bookingCancelledEmail({ ...booking, cancelledBy: 'client', refunded: false, feeCents: 1500 });
+
+      expect(email.text).toContain('You cancelled the Fade');
+      expect(email.text).toContain('$15.00');
+    });
+  });
+
+  describe('receiptEmail', () => {
+    const receipt = {
+      bookingId: 'booking-1',
+      audience: 'client' as const,
+      recipientName: 'Jordan',
+      clientName: 'Jordan',
+      barberName: 'Marcus',
+      start: booking.start,
+      timeZone: booking.timeZone,
+      services: [{ name: 'Fade', amountCents: 3500 }],
+      addons: [{ name: 'Hot towel', amountCents: 500 }],
+      fees: calculateFeeBreakdown(),
+      amountPaidCents: 338,
+      paidAt: '2025-03-10T15:00:00.000Z',
+    };
+
+    it('should show the booking fee paid today and the rest due at the appointment', () => {
+      const email = receiptEmail(receipt);
+
+      expect(email.text).toContain('Fade: $35.00');
+      expect(email.text).toContain('Add-on: Hot towel: $5.00');
+      expect(email.text).toContain('Booking fee: $3.38');
+      expect(email.text).toContain('Paid today: $3.38');
+      expect(email.text).toContain('Due at appointment: $40.00');
+    });
+
+    it('should show the barber how the booking fee was split', () => {
+      const email = receiptEmail({ ...receipt, audience: 'barber', recipientName: 'Marcus' });
+
+      expect(email.text).toContain('Card processing: -$0.38');
+      expect(email.text).toContain('BOCM share: -$1.80');
+      expect(email.text).toContain('Your share of the booking fee: $1.20');
+      expect(email.text).toContain('Collect at appointment: $40.00');
+    });
+
+    it('should show a deposit paid online and the balance left to collect', () => {
+      const email = receiptEmail({ ...receipt, audience: 'barber', recipientName: 'Marcus', amountPaidCents: 1338 });
+
+      expect(email.text).toContain('Paid online toward the service: $10.00');
+      expect(email.text).toContain('Card processing on it: -$0.29');
+      expect(email.text).toContain('Collect at appointment: $30.00');
+    });
+  });
+
+  describe('reviewRequestEmail', () => {
+    it('should link to the review page', () => {
+      const email = reviewRequestEmail({
+        recipientName: 'Jordan',
+        barberName: 'Marcus',
+        serviceName: 'Fade',
+        reviewUrl: 'https://www.bocmstyle.com/profile',
+      });
+
+      expect(email.subject).toBe('How was your Fade with Marcus?');
+      expect(email.text).toContain('Leave a review: https://www.bocmstyle.com/profile');
+    });
+  });
+
+  describe('giftReceivedEmail', () => {
+    it('should carry the code and the claim link', () => {
+      const email = giftReceivedEmail({
+        recipientName: 'Sam',
+        purchaserName: 'Jordan',
+        barberName: 'Marcus',
+        description: '$50.00 gift card',
+        message: 'Happy birthday <3',
+        claimUrl: 'https://www.bocmstyle.com/gift/A1B2C3D4E5F6',
+        code: 'A1B2C3D4E5F6',
+      });
+
+      expect(email.subject).toBe('Jordan sent you a gift for Marcus');
+      expect(email.text).toContain('Gift code: A1B2C3D4E5F6');
+      expect(email.text).toContain('Claim your gift: https://www.bocmstyle.com/gift/A1B2C3D4E5F6');
+      expect(email.html).toContain('Happy birthday &lt;3');
+    });
+  });
+
+  describe('authLinkEmail', () => {
+    it('should render password reset and magic links', () => {
+      const link = 'https://example.supabase.co/auth/v1/verify?token=abc&type=recovery';
+      const reset = authLinkEmail({ type: 'password_reset', link, expiresInHours: 24 });
+      const magic = authLinkEmail({ type: 'magic_link', link, expiresInHours: 24 });
+
+      expect(reset.subject).toBe('Reset your BOCM password');
+      expect(reset.text).toContain(`Reset password: ${link}`);
+      expect(reset.html).toContain('token=abc&amp;type=recovery');
+      expect(magic.subject).toBe('Your BOCM sign-in link');
+    });
+  });
+
+  describe('helpers', () => {
+    it('should format cents as dollars', () => {
+      expect(formatCents(338)).toBe('$3.38');
+      expect(formatCents(-38)).toBe('-$0.38');
+    });
+
+    it('should escape HTML', () => {
+      expect(escapeHtml(`<a href="x">Tom & Jerry's</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&#39;s&lt;/a&gt;');
+    });
+  });
+});
+
+describe('Booking ICS', () => {
+  const event = {
+    bookingId: 'booking-1',
+    start: '2025-03-12T19:00:00.000Z',
+    end: '2025-03-12T19:45:00.000Z',
+    summary: 'Fade with Marcus',
+    description: 'Line up, beard; extra notes',
+  };
+
+  it('should use CRLF line endings and escape text', () => {
+    const ics = buildBookingIcs(event);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toContain('METHOD:REQUEST');
+    expect(ics).toContain('DESCRIPTION:Line up\\, beard\\; extra notes');
+  });
+
+  it('should fold lines longer than 75 octets', () => {
+    const ics = buildBookingIcs({ ...event, description: 'x'.repeat(200) });
+
+    for (const line of ics.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(ics).toContain('\r\n x');
+  });
+
+  it('should cancel with the same UID', () => {
+    const ics = buildBookingIcs({ ...event, cancelled: true, sequence: 2 });
+
+    expect(ics).toContain('METHOD:CANCEL');
+    expect(ics).toContain('STATUS:CANCELLED');
+    expect(ics).toContain('SEQUENCE:2');
+    expect(ics).toContain(`UID:${getBookingIcsUid('booking-1')}`);
+  });
+});
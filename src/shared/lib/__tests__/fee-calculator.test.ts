@@ -2,6 +2,11 @@ import {
   calculateFeeBreakdown, 
   calculateBarberPayout, 
   calculatePlatformFee,
+  calculatePaymentSplit,
+  calculateServicePrepaymentCents,
+  describeServicePrepayment,
+  DEFAULT_FEE_SCHEDULE,
+  FeeTerms,
   PLATFORM_FEE_CENTS,
   STRIPE_FEE_CENTS,
   BOCM_SHARE_PERCENTAGE,
@@ -131,5 +136,125 @@ describe('Fee Calculator', () => {
       expect(breakdown.stripeFee + breakdown.netAfterStripe).toBe(breakdown.platformFee)
     })
   })
+
+  describe('calculateServicePrepaymentCents', () => {
+    it('should charge nothing up front for fee-only services', () => {
+      expect(calculateServicePrepaymentCents({ price: 40 })).toBe(0)
+      expect(calculateServicePrepaymentCents({ price: 40, payment_mode: 'fee_only' })).toBe(0)
+    })
+
+    it('should charge fixed and percentage deposits', () => {
+      expect(calculateServicePrepaymentCents({ price: 40, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 })).toBe(1000)
+      expect(calculateServicePrepaymentCents({ price: 45, payment_mode: 'deposit', deposit_type: 'percentage', deposit_amount: 25 })).toBe(1125)
+    })
+
+    it('should never take a deposit above the service price', () => {
+      expect(calculateServicePrepaymentCents({ price: 20, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 50 })).toBe(2000)
+    })
+
+    it('should charge the whole price for full prepayment', () => {
+      expect(calculateServicePrepaymentCents({ price: 35.5, payment_mode: 'full' })).toBe(3550)
+    })
+  })
+
+  describe('describeServicePrepayment', () => {
+    it('should describe what the client pays up front', () => {
+      expect(describeServicePrepayment({ price: 40 })).toBeNull()
+      expect(describeServicePrepayment({ price: 40, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 })).toBe('$10.00 deposit')
+      expect(describeServicePrepayment({ price: 40, payment_mode: 'deposit', deposit_type: 'percentage', deposit_amount: 25 })).toBe('25% deposit')
+      expect(describeServicePrepayment({ price: 40, payment_mode: 'full' })).toBe('Paid in full when booking')
+    })
+  })
+
+  describe('calculatePaymentSplit', () => {
+    it('should keep fee-only bookings at the booking fee', () => {
+      const split = calculatePaymentSplit([{ price: 50 }], 1000)
+
+      expect(split.paymentMode).toBe('fee_only')
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS)
+      expect(split.applicationFeeCents).toBe(142) // $1.42
+      expect(split.barberTransferCents).toBe(PLATFORM_FEE_CENTS - 142)
+      expect(split.dueAtAppointmentCents).toBe(6000)
+    })
+
+    it('should route a deposit to the barber less Stripe\'s percentage', () => {
+      const split = calculatePaymentSplit([{ price: 50, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 }], 500)
+
+      expect(split.paymentMode).toBe('deposit')
+      expect(split.prepaidCents).toBe(1000)
+      expect(split.totalCents).toBe(1338)
+      expect(split.applicationFeeCents).toBe(142 + 29)
+      expect(split.barberTransferCents).toBe(1338 - 171)
+      expect(split.dueAtAppointmentCents).toBe(4500) // $40 left on the service plus the $5 add-on
+    })
+
+    it('should prepay add-ons when every service is prepaid in full', () => {
+      const split = calculatePaymentSplit([{ price: 50, payment_mode: 'full' }], 500)
+
+      expect(split.paymentMode).toBe('full')
+      expect(split.prepaidCents).toBe(5500)
+      expect(split.totalCents).toBe(5838)
+      expect(split.applicationFeeCents).toBe(142 + 160)
+      expect(split.dueAtAppointmentCents).toBe(0)
+    })
+  })
+
+  describe('fee schedules', () => {
+    const promotion: FeeTerms = { ...DEFAULT_FEE_SCHEDULE, id: 'promo-schedule', platform_share: 0 }
+    const percentage: FeeTerms = {
+      id: 'percentage-schedule',
+      fee_type: 'percentage',
+      fee_cents: 200,
+      fee_percentage: 5,
+      stripe_fee_cents: null,
+      platform_share: 0.6
+    }
+
+    it('should use the standard schedule by default', () => {
+      expect(calculateFeeBreakdown(DEFAULT_FEE_SCHEDULE)).toEqual(calculateFeeBreakdown())
+      expect(calculateFeeBreakdown().feeScheduleId).toBeNull()
+    })
+
+    it('should give the barber the whole fee during a 0% promotion', () => {
+      const breakdown = calculateFeeBreakdown(promotion)
+
+      expect(breakdown.platformFee).toBe(338)
+      expect(breakdown.bocmShare).toBe(0)
+      expect(breakdown.stripeFeeUncovered).toBe(38) // Paid by the platform, not taken from the barber
+      expect(breakdown.barberShare).toBe(338)
+      expect(breakdown.feeScheduleId).toBe('promo-schedule')
+
+      const split = calculatePaymentSplit([{ price: 50 }], 0, promotion)
+      expect(split.applicationFeeCents).toBe(0)
+      expect(split.barberTransferCents).toBe(338)
+      expect(split.feeScheduleId).toBe('promo-schedule')
+    })
+
+    it('should report the barber payout that is transferred during a 0% promotion', () => {
+      const split = calculatePaymentSplit([{ price: 50 }], 0, promotion)
+
+      expect(calculateBarberPayout(5000, 'fee', promotion)).toBe(split.barberTransferCents)
+      expect(calculateFeeBreakdown().stripeFeeUncovered).toBe(0)
+    })
+
+    it('should charge a percentage of the services, never below the minimum', () => {
+      const large = calculateFeeBreakdown(percentage, 10000)
+      expect(large.platformFee).toBe(500) // 5% of $100
+      expect(large.stripeFee).toBe(45) // Estimated 2.9% + $0.30
+      expect(large.bocmShare).toBe(273)
+      expect(large.barberShare).toBe(182)
+
+      expect(calculateFeeBreakdown(percentage, 2000).platformFee).toBe(200) // 5% of $20 is under the minimum
+    })
+
+    it('should charge nothing on a no-fee schedule', () => {
+      const free: FeeTerms = { ...DEFAULT_FEE_SCHEDULE, fee_cents: 0, stripe_fee_cents: 0, platform_share: 0 }
+      const split = calculatePaymentSplit([{ price: 40 }], 0, free)
+
+      expect(split.platformFeeCents).toBe(0)
+      expect(split.totalCents).toBe(0)
+      expect(calculateBarberPayout(4000, 'fee', free)).toBe(0)
+    })
+  })
 })
 
@@ -73,6 +73,21 @@ describe('Google Calendar Utils', () => {
       expect(event.description).toContain('Guest Phone: 123-456-7890');
     });
 
+    it("should use the barber's timezone when provided", () => {
+      const zonedEvent = {
+        ...mockEvent,
+        extendedProps: {
+          ...mockEvent.extendedProps,
+          timeZone: 'America/Chicago',
+        },
+      };
+
+      const event = generateGoogleCalendarEvent(zonedEvent, 'client', mockUserInfo);
+
+      expect(event.start.timeZone).toBe('America/Chicago');
+      expect(event.end.timeZone).toBe('America/Chicago');
+    });
+
     it('should set reminders correctly', () => {
       const event = generateGoogleCalendarEvent(mockEvent, 'barber', mockUserInfo);
 
@@ -0,0 +1,85 @@
+/**
+ * Tests for the job board: browsing jobs by distance, and what a post needs
+ */
+
+import { filterJobsNear, parseRequirements } from '../job-board-service';
+import { JOB_POST_RULES, validateContent } from '../contentModeration';
+import type { JobPost } from '@/shared/types';
+
+jest.mock('@/shared/lib/supabase', () => ({
+  supabase: {},
+}));
+
+function job(id: string, latitude: number | null, longitude: number | null): JobPost {
+  return {
+    id,
+    poster_id: 'owner-1',
+    business_name: 'Fresh Cuts',
+    business_image: null,
+    job_type: 'chair_rental',
+    title: 'Chair for rent',
+    description: 'A chair in a busy shop',
+    requirements: [],
+    compensation: '$250/week',
+    location: 'Brooklyn, NY',
+    latitude,
+    longitude,
+    status: 'open',
+    created_at: '2025-03-12T16:00:00Z',
+    updated_at: '2025-03-12T16:00:00Z',
+  };
+}
+
+// Midtown Manhattan
+const origin = { lat: 40.7549, lon: -73.984 };
+
+describe('filterJobsNear', () => {
+  const brooklyn = job('brooklyn', 40.6782, -73.9442); // about 6 miles
+  const philadelphia = job('philadelphia', 39.9526, -75.1652); // about 80 miles
+  const harlem = job('harlem', 40.8116, -73.9465); // about 4.5 miles
+
+  it('should keep jobs within the radius, closest first', () => {
+    const nearby = filterJobsNear([brooklyn, philadelphia, harlem], origin, 25);
+
+    expect(nearby.map(item => item.id)).toEqual(['harlem', 'brooklyn']);
+    expect(nearby[0].distance).toBeGreaterThan(4);
+    expect(nearby[0].distance).toBeLessThan(5);
+  });
+
+  it('should widen to further jobs with a bigger radius', () => {
+    expect(filterJobsNear([brooklyn, philadelphia], origin, 100).map(item => item.id)).toEqual(['brooklyn', 'philadelphia']);
+  });
+
+  it('should leave out jobs whose location was not geocoded', () => {
+    expect(filterJobsNear([job('unknown', null, null)], origin, 100)).toEqual([]);
+  });
+
+  it('should read coordinates that come back from the database as strings', () => {
+    const fromDatabase = { ...harlem, latitude: '40.8116' as unknown as number, longitude: '-73.9465' as unknown as number };
+
+    expect(filterJobsNear([fromDatabase], origin, 10)).toHaveLength(1);
+  });
+});
+
+describe('parseRequirements', () => {
+  it('should read one requirement per line, without bullets or blank lines', () => {
+    expect(parseRequirements('- Licensed barber\n\n• 2+ years experience\n  Own clippers  ')).toEqual([
+      'Licensed barber',
+      '2+ years experience',
+      'Own clippers',
+    ]);
+  });
+});
+
+describe('validateContent with JOB_POST_RULES', () => {
+  it('should ask for enough detail to apply on', () => {
+    expect(validateContent('Chair open', JOB_POST_RULES).isValid).toBe(false);
+    expect(
+      validateContent('Chair open in a busy downtown shop, walk-ins all day and a loyal clientele.', JOB_POST_RULES).isValid
+    ).toBe(true);
+  });
+
+  it('should not judge the tone of a job post', () => {
+    expect(validateContent('HIRING NOW!!! Chair open in a busy downtown shop, start Monday!!!', JOB_POST_RULES).isValid).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Tests for direct messages: who a conversation is with, and what a message may say
+ */
+
+import { getOtherParticipant, ConversationRow } from '../messaging-service';
+import { MESSAGE_RULES, validateContent } from '../contentModeration';
+
+jest.mock('@/shared/lib/supabase', () => ({
+  supabase: {},
+}));
+
+const conversation: ConversationRow = {
+  id: 'conversation-1',
+  client_id: 'client-user',
+  barber_id: 'barber-1',
+  booking_id: null,
+  last_message_text: null,
+  last_message_sender_id: null,
+  last_message_at: null,
+  created_at: '2025-03-12T16:00:00Z',
+  updated_at: '2025-03-12T16:00:00Z',
+  client: { id: 'client-user', name: 'Jordan', avatar_url: null },
+  barber: {
+    id: 'barber-1',
+    user_id: 'barber-user',
+    business_name: 'Fresh Cuts',
+    profiles: { name: 'Sam', avatar_url: 'https://example.com/sam.jpg' },
+  },
+};
+
+describe('getOtherParticipant', () => {
+  it('should show the client the barber, by business name', () => {
+    expect(getOtherParticipant(conversation, 'client-user')).toEqual({
+      id: 'barber-user',
+      name: 'Fresh Cuts',
+      avatar_url: 'https://example.com/sam.jpg',
+    });
+  });
+
+  it('should show the barber the client', () => {
+    expect(getOtherParticipant(conversation, 'barber-user')).toEqual({
+      id: 'client-user',
+      name: 'Jordan',
+      avatar_url: null,
+    });
+  });
+});
+
+describe('validateContent with MESSAGE_RULES', () => {
+  it('should allow short, casual messages', () => {
+    expect(validateContent('ok', MESSAGE_RULES).isValid).toBe(true);
+    expect(validateContent('Running 10 min late...', MESSAGE_RULES).isValid).toBe(true);
+    expect(validateContent('OMW!!!', MESSAGE_RULES).isValid).toBe(true);
+  });
+
+  it('should not mistake words that contain a keyword for it', () => {
+    expect(validateContent('Hello, can I bring a reference photo?', MESSAGE_RULES).isValid).toBe(true);
+    expect(validateContent('Class ran late, still good for 3?', MESSAGE_RULES).isValid).toBe(true);
+  });
+
+  it('should reject explicit language and overlong messages', () => {
+    expect(validateContent('you are a bitch', MESSAGE_RULES).issues).toContain('Contains inappropriate language');
+    expect(validateContent('a'.repeat(1001), MESSAGE_RULES).issues).toContain('Message must be less than 1000 characters');
+  });
+
+  it('should keep the review rules by default', () => {
+    expect(validateContent('ok').issues).toContain('Review must be at least 10 characters long');
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Tests for the notification delivery layer: preferences, retries, permanent failures, dedupe and the delivery log
+ */
+
+import { NotificationDelivery } from '../notification-delivery';
+import { getNotificationProvider, PermanentDeliveryError, toE164 } from '../notification-providers';
+import { supabaseAdmin } from '@/shared/lib/supabase';
+import type { OutgoingMessage } from '@/shared/types/notification-delivery';
+
+jest.mock('@/shared/lib/supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../notification-providers', () => ({
+  ...jest.requireActual('../notification-providers'),
+  getNotificationProvider: jest.fn(),
+}));
+
+const mockFrom = supabaseAdmin.from as jest.Mock;
+const mockGetProvider = getNotificationProvider as jest.Mock;
+
+const message: OutgoingMessage = {
+  channel: 'sms',
+  to: '(555) 123-4567',
+  recipientId: 'user-1',
+  type: 'booking_confirmed',
+  title: 'Booking Confirmed',
+  body: 'See you there!',
+  bookingId: 'booking-1',
+  dedupeKey: 'booking:booking-1:confirmed:client:sms',
+};
+
+describe('NotificationDelivery', () => {
+  let insertResult: { data: unknown; error: unknown };
+  let preferences: unknown;
+  let insert: jest.Mock;
+  let update: jest.Mock;
+  let send: jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    insertResult = { data: { id: 'delivery-1', ...message }, error: null };
+    preferences = null;
+    const select = jest.fn(() => ({
+      eq: () => ({ maybeSingle: () => Promise.resolve({ data: preferences, error: null }) }),
+    }));
+    insert = jest.fn(() => ({
+      select: () => ({ single: () => Promise.resolve(insertResult) }),
+    }));
+    update = jest.fn((values) => ({
+      eq: () => ({
+        select: () => ({ single: () => Promise.resolve({ data: { id: 'delivery-1', ...values }, error: null }) }),
+      }),
+    }));
+    mockFrom.mockReturnValue({ insert, update, select });
+
+    send = jest.fn();
+    mockGetProvider.mockReturnValue({ name: 'twilio', send });
+  });
+
+  it('should log the message and record a successful delivery', async () => {
+    send.mockResolvedValue({ providerMessageId: 'SM123' });
+
+    const delivery = await NotificationDelivery.send(message, { retryDelayMs: 0 });
+
+    expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+      channel: 'sms',
+      provider: 'twilio',
+      recipient_id: 'user-1',
+      dedupe_key: 'booking:booking-1:confirmed:client:sms',
+    }));
+    expect(delivery).toEqual(expect.objectContaining({
+      status: 'sent',
+      attempts: 1,
+      provider_message_id: 'SM123',
+    }));
+  });
+
+  it('should retry a failed attempt', async () => {
+    send
+      .mockRejectedValueOnce(new Error('Service unavailable'))
+      .mockResolvedValueOnce({ providerMessageId: 'SM123' });
+
+    const delivery = await NotificationDelivery.send(message, { retryDelayMs: 0 });
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(delivery).toEqual(expect.objectContaining({ status: 'sent', attempts: 2, last_error: null }));
+  });
+
+  it('should give up after the last attempt and record the error', async () => {
+    send.mockRejectedValue(new Error('Service unavailable'));
+
+    const delivery = await NotificationDelivery.send(message, { maxAttempts: 3, retryDelayMs: 0 });
+
+    expect(send).toHaveBeenCalledTimes(3);
+    expect(delivery).toEqual(expect.objectContaining({
+      status: 'failed',
+      attempts: 3,
+      last_error: 'Service unavailable',
+    }));
+  });
+
+  it('should not retry a permanent failure', async () => {
+    send.mockRejectedValue(new PermanentDeliveryError('Invalid phone number'));
+
+    const delivery = await NotificationDelivery.send(message, { retryDelayMs: 0 });
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(delivery).toEqual(expect.objectContaining({ status: 'failed', last_error: 'Invalid phone number' }));
+  });
+
+  it('should skip a message that was already sent', async () => {
+    insertResult = { data: null, error: { code: '23505', message: 'duplicate key value' } };
+
+    const delivery = await NotificationDelivery.send(message, { retryDelayMs: 0 });
+
+    expect(delivery).toBeNull();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should not send a message the recipient turned off', async () => {
+    preferences = {
+      channels: { booking_created: { sms: false } },
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+      timezone: 'America/New_York',
+    };
+
+    const delivery = await NotificationDelivery.send(message, { retryDelayMs: 0 });
+
+    expect(delivery).toBeNull();
+    expect(insert).not.toHaveBeenCalled();
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('should send in-app messages whatever the preferences', async () => {
+    send.mockResolvedValue({});
+    preferences = {
+      channels: { booking_created: { push: false, sms: false, email: false } },
+      quiet_hours_start: null,
+      quiet_hours_end: null,
+      timezone: 'America/New_York',
+    };
+
+    const delivery = await NotificationDelivery.send({ ...message, channel: 'in_app', to: 'user-1' }, { retryDelayMs: 0 });
+
+    expect(delivery).toEqual(expect.objectContaining({ status: 'sent' }));
+  });
+
+  it('should send the other messages when one cannot be logged', async () => {
+    send.mockResolvedValue({});
+    insert
+      .mockImplementationOnce(() => ({
+        select: () => ({ single: () => Promise.resolve({ data: null, error: { code: '42P01', message: 'relation does not exist' } }) }),
+      }));
+
+    const deliveries = await NotificationDelivery.sendAll(
+      [message, { ...message, channel: 'email', to: 'client@example.com', dedupeKey: undefined }],
+      { retryDelayMs: 0 }
+    );
+
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].status).toBe('sent');
+  });
+});
+
+describe('toE164', () => {
+  it('should add the US country code to 10-digit numbers', () => {
+    expect(toE164('(555) 123-4567')).toBe('+15551234567');
+    expect(toE164('1-555-123-4567')).toBe('+15551234567');
+  });
+
+  it('should keep numbers that already have a country code', () => {
+    expect(toE164('+44 20 7946 0958')).toBe('+442079460958');
+  });
+
+  it('should reject anything that is not a phone number', () => {
+    expect(toE164('12345')).toBeNull();
+    expect(toE164('')).toBeNull();
+  });
+});
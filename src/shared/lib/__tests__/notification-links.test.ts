@@ -0,0 +1,34 @@
+/**
+ * Tests for notification deep links
+ */
+
+import { getNotificationHref } from '../notification-links';
+
+describe('getNotificationHref', () => {
+  it('should open a booking on the calendar', () => {
+    expect(getNotificationHref({ booking_id: 'booking-1' })).toBe('/calendar?booking=booking-1');
+  });
+
+  it('should open a cut', () => {
+    expect(getNotificationHref({ cut_id: 'cut-1' })).toBe('/cuts?cutId=cut-1');
+  });
+
+  it('should open the reviews tab of the recipient booking page before the reviewed booking', () => {
+    const review = { booking_id: 'booking-1', review_id: 'review-1' };
+
+    expect(getNotificationHref(review, 'marcus')).toBe('/book/marcus?tab=reviews');
+    expect(getNotificationHref(review, null)).toBeNull();
+  });
+
+  it('should open a job application on the job board', () => {
+    expect(getNotificationHref({ job_application_id: 'application-1' })).toBe('/jobs?application=application-1');
+  });
+
+  it('should open shop management for a shop invitation', () => {
+    expect(getNotificationHref({ shop_id: 'shop-1' })).toBe('/shop/manage');
+  });
+
+  it('should return null when there is nothing to open', () => {
+    expect(getNotificationHref({})).toBeNull();
+  });
+});
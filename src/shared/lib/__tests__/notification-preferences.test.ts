@@ -0,0 +1,89 @@
+/**
+ * Tests for notification preferences and quiet hours
+ */
+
+import {
+  getPreferenceEvent,
+  isChannelEnabled,
+  isInQuietHours,
+  setChannelEnabled,
+  shouldDeliver,
+} from '../notification-preferences';
+
+describe('Notification Preferences', () => {
+  const preferences = {
+    channels: { booking_reminder: { sms: false } },
+    quiet_hours_start: '22:00:00',
+    quiet_hours_end: '07:00:00',
+    timezone: 'America/New_York',
+  };
+  const night = new Date('2025-03-12T04:00:00Z'); // 11:00 PM in New York
+  const day = new Date('2025-03-12T16:00:00Z'); // 12:00 PM in New York
+
+  describe('getPreferenceEvent', () => {
+    it('should map message types to the event users turn on and off', () => {
+      expect(getPreferenceEvent('booking_confirmed')).toBe('booking_created');
+      expect(getPreferenceEvent('booking_reminder')).toBe('booking_reminder');
+    });
+
+    it('should leave time-critical messages unmapped', () => {
+      expect(getPreferenceEvent('waitlist_offer')).toBeNull();
+    });
+  });
+
+  describe('isChannelEnabled', () => {
+    it('should fall back to the defaults', () => {
+      expect(isChannelEnabled(null, 'booking_reminder', 'sms')).toBe(true);
+      expect(isChannelEnabled(null, 'new_follower_cut', 'sms')).toBe(false);
+    });
+
+    it('should read the saved overrides', () => {
+      expect(isChannelEnabled(preferences, 'booking_reminder', 'sms')).toBe(false);
+      expect(isChannelEnabled(preferences, 'booking_reminder', 'push')).toBe(true);
+    });
+  });
+
+  describe('setChannelEnabled', () => {
+    it('should keep the other channels of the event', () => {
+      expect(setChannelEnabled(preferences.channels, 'booking_reminder', 'email', false)).toEqual({
+        booking_reminder: { sms: false, email: false },
+      });
+    });
+  });
+
+  describe('isInQuietHours', () => {
+    it('should handle quiet hours that run past midnight', () => {
+      expect(isInQuietHours(preferences, night)).toBe(true);
+      expect(isInQuietHours(preferences, new Date('2025-03-12T10:30:00Z'))).toBe(true); // 6:30 AM
+      expect(isInQuietHours(preferences, day)).toBe(false);
+    });
+
+    it('should use the user\'s timezone', () => {
+      expect(isInQuietHours({ ...preferences, timezone: 'America/Los_Angeles' }, night)).toBe(false); // 8:00 PM
+    });
+
+    it('should be off without quiet hours', () => {
+      expect(isInQuietHours({ ...preferences, quiet_hours_start: null, quiet_hours_end: null }, night)).toBe(false);
+    });
+  });
+
+  describe('shouldDeliver', () => {
+    it('should hold back push and texts during quiet hours', () => {
+      expect(shouldDeliver(preferences, { channel: 'push', type: 'booking_created' }, night)).toBe(false);
+      expect(shouldDeliver(preferences, { channel: 'push', type: 'booking_created' }, day)).toBe(true);
+    });
+
+    it('should still send email and in-app messages during quiet hours', () => {
+      expect(shouldDeliver(preferences, { channel: 'email', type: 'booking_created' }, night)).toBe(true);
+      expect(shouldDeliver(preferences, { channel: 'in_app', type: 'booking_created' }, night)).toBe(true);
+    });
+
+    it('should not send a channel the user turned off', () => {
+      expect(shouldDeliver(preferences, { channel: 'sms', type: 'booking_reminder' }, day)).toBe(false);
+    });
+
+    it('should always send time-critical messages', () => {
+      expect(shouldDeliver(preferences, { channel: 'push', type: 'ondemand_request' }, night)).toBe(true);
+    });
+  });
+});
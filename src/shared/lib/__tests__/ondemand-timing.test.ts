@@ -0,0 +1,51 @@
+/**
+ * Tests for on-demand request deadlines
+ */
+
+import { getOnDemandExpiry, isOnDemandRequestOpen, formatOnDemandTimeLeft, ONDEMAND_RESPONSE_MINUTES } from '../ondemand-timing';
+
+describe('On-Demand Timing', () => {
+  const now = new Date('2025-03-11T10:00:00Z');
+
+  describe('getOnDemandExpiry', () => {
+    it('should give the barber the full response window', () => {
+      expect(getOnDemandExpiry(now, '2025-03-11T12:00:00Z')).toEqual(
+        new Date(now.getTime() + ONDEMAND_RESPONSE_MINUTES * 60 * 1000)
+      );
+    });
+
+    it('should never run past the requested time', () => {
+      expect(getOnDemandExpiry(now, '2025-03-11T10:05:00Z')).toEqual(new Date('2025-03-11T10:05:00Z'));
+    });
+  });
+
+  describe('isOnDemandRequestOpen', () => {
+    const request = {
+      status: 'pending' as const,
+      expires_at: '2025-03-11T10:15:00Z',
+      requested_time: '2025-03-11T11:00:00Z',
+    };
+
+    it('should be open while pending and before the deadline', () => {
+      expect(isOnDemandRequestOpen(request, now)).toBe(true);
+    });
+
+    it('should close once the deadline passes', () => {
+      expect(isOnDemandRequestOpen(request, new Date('2025-03-11T10:15:00Z'))).toBe(false);
+    });
+
+    it('should close once answered', () => {
+      expect(isOnDemandRequestOpen({ ...request, status: 'declined' }, now)).toBe(false);
+    });
+  });
+
+  describe('formatOnDemandTimeLeft', () => {
+    it('should show whole minutes left', () => {
+      expect(formatOnDemandTimeLeft('2025-03-11T10:12:30Z', now)).toBe('12 min left');
+    });
+
+    it('should show when under a minute is left', () => {
+      expect(formatOnDemandTimeLeft('2025-03-11T10:00:30Z', now)).toBe('Less than a minute left');
+    });
+  });
+});
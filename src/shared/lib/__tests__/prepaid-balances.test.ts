@@ -0,0 +1,86 @@
+/**
+ * Tests for gift cards and packages: what they sell for and what they cover at checkout
+ */
+
+import { calculatePaymentSplit, calculateStripeFeeCents, PLATFORM_FEE_CENTS } from '../fee-calculator';
+import {
+  calculatePrepaidApplicationFeeCents,
+  calculatePrepaidCredit,
+  describePackage,
+  describePrepaidBalance,
+  getGiftCardAmountError,
+} from '../prepaid-balances';
+
+describe('Prepaid balances', () => {
+  const giftCard = { kind: 'gift_card' as const, service_id: null, amount_remaining: 25, visits_remaining: 0 };
+  const cutPackage = { kind: 'package' as const, service_id: 'cut', amount_remaining: 160, visits_remaining: 4 };
+  const services = [{ id: 'cut', price: 40 }, { id: 'beard', price: 20 }];
+
+  describe('getGiftCardAmountError', () => {
+    it('should only sell gift cards within the limits', () => {
+      expect(getGiftCardAmountError(5000)).toBeNull();
+      expect(getGiftCardAmountError(500)).toBe('Gift cards start at $10.00');
+      expect(getGiftCardAmountError(60000)).toBe('Gift cards go up to $500.00');
+      expect(getGiftCardAmountError(1050.5)).toBe('Gift cards start at $10.00');
+    });
+  });
+
+  describe('calculatePrepaidApplicationFeeCents', () => {
+    it('should keep only the Stripe fee from a purchase', () => {
+      expect(calculatePrepaidApplicationFeeCents(5000)).toBe(calculateStripeFeeCents(5000));
+    });
+  });
+
+  describe('describePackage', () => {
+    it('should describe a package priced at whole visits', () => {
+      expect(describePackage({ visit_count: 5, price: 160 }, 40)).toBe('5 visits for the price of 4');
+    });
+
+    it('should otherwise show the price and the saving', () => {
+      expect(describePackage({ visit_count: 5, price: 180 }, 40)).toBe('5 visits for $180.00, save $20.00');
+      expect(describePackage({ visit_count: 3, price: 120 }, 40)).toBe('3 visits for $120.00');
+    });
+  });
+
+  describe('describePrepaidBalance', () => {
+    it('should show dollars for a gift card and visits for a package', () => {
+      expect(describePrepaidBalance({ ...giftCard, visit_count: null, amount_remaining: 42.5 })).toBe('$42.50 left');
+      expect(describePrepaidBalance({ ...cutPackage, visit_count: 5 })).toBe('4 of 5 visits left');
+    });
+  });
+
+  describe('calculatePrepaidCredit', () => {
+    it('should cover up to what is left on a gift card', () => {
+      expect(calculatePrepaidCredit(giftCard, services, 6000)).toBe(2500);
+      expect(calculatePrepaidCredit(giftCard, services, 1000)).toBe(1000);
+    });
+
+    it('should cover one visit of the package service', () => {
+      expect(calculatePrepaidCredit(cutPackage, services, 6000)).toBe(4000);
+      expect(calculatePrepaidCredit(cutPackage, [{ id: 'beard', price: 20 }], 2000)).toBe(0);
+      expect(calculatePrepaidCredit({ ...cutPackage, visits_remaining: 0 }, services, 6000)).toBe(0);
+    });
+  });
+
+  describe('calculatePaymentSplit with a credit', () => {
+    it('should take the credit off what is due at the appointment', () => {
+      const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, null, 2500);
+
+      expect(split.creditCents).toBe(2500);
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+      expect(split.dueAtAppointmentCents).toBe(1500);
+    });
+
+    it('should lower a prepayment once nothing is left due at the appointment', () => {
+      const split = calculatePaymentSplit([{ price: 40, payment_mode: 'full' }], 0, undefined, null, 4000);
+
+      expect(split.prepaidCents).toBe(0);
+      expect(split.dueAtAppointmentCents).toBe(0);
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+    });
+
+    it('should never credit more than is owed', () => {
+      expect(calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'barber', cents: 1000 }, 5000).creditCents).toBe(3000);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Tests for promo code discounts and how they split between the barber and the platform
+ */
+
+import { calculatePaymentSplit, PLATFORM_FEE_CENTS } from '../fee-calculator';
+import { calculatePromoDiscount, describePromoCode, normalizePromoCode } from '../promo-codes';
+
+describe('Promo codes', () => {
+  const barberCode = {
+    barber_id: 'barber-1',
+    discount_type: 'percentage' as const,
+    discount_value: 20,
+    service_ids: [] as string[],
+    first_visit_only: false,
+    weekdays: [] as number[],
+  };
+  const platformCode = { ...barberCode, barber_id: null, discount_type: 'fixed' as const, discount_value: 5 };
+  const services = [{ id: 'cut', price: 40 }, { id: 'beard', price: 20 }];
+
+  describe('normalizePromoCode', () => {
+    it('should trim and upper-case codes', () => {
+      expect(normalizePromoCode('  firstCut ')).toBe('FIRSTCUT');
+    });
+  });
+
+  describe('calculatePromoDiscount', () => {
+    it('should take a barber code off the services', () => {
+      expect(calculatePromoDiscount(barberCode, services, PLATFORM_FEE_CENTS)).toEqual({ fundedBy: 'barber', cents: 1200 });
+    });
+
+    it('should only discount the services a code is restricted to', () => {
+      expect(calculatePromoDiscount({ ...barberCode, discount_value: 50, service_ids: ['beard'] }, services, PLATFORM_FEE_CENTS).cents).toBe(1000);
+      expect(calculatePromoDiscount({ ...barberCode, discount_type: 'fixed', discount_value: 30, service_ids: ['beard'] }, services, PLATFORM_FEE_CENTS).cents).toBe(2000);
+    });
+
+    it('should take a platform code off the booking fee, at most the whole fee', () => {
+      expect(calculatePromoDiscount({ ...platformCode, discount_type: 'percentage', discount_value: 25 }, services, PLATFORM_FEE_CENTS))
+        .toEqual({ fundedBy: 'platform', cents: 85 });
+      expect(calculatePromoDiscount(platformCode, services, PLATFORM_FEE_CENTS).cents).toBe(PLATFORM_FEE_CENTS);
+    });
+  });
+
+  describe('calculatePaymentSplit with a promo code', () => {
+    it('should take a barber code off what is due at the appointment', () => {
+      const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'barber', cents: 800 });
+
+      expect(split.discountCents).toBe(800);
+      expect(split.dueAtAppointmentCents).toBe(3200);
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS);
+      expect(split.applicationFeeCents).toBe(142);
+    });
+
+    it('should take the rest of a barber code off the deposit', () => {
+      const split = calculatePaymentSplit(
+        [{ price: 40, payment_mode: 'deposit', deposit_type: 'fixed', deposit_amount: 10 }],
+        0,
+        undefined,
+        { fundedBy: 'barber', cents: 3500 }
+      );
+
+      expect(split.prepaidCents).toBe(500);
+      expect(split.dueAtAppointmentCents).toBe(0);
+      expect(split.paymentMode).toBe('full');
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS + 500);
+      expect(split.applicationFeeCents).toBe(142 + 15);
+    });
+
+    it('should fund a platform code from the platform share, leaving the barber share unchanged', () => {
+      const withoutCode = calculatePaymentSplit([{ price: 40 }]);
+      const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'platform', cents: 85 });
+
+      expect(split.discountCents).toBe(85);
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS - 85);
+      expect(split.applicationFeeCents).toBe(142 - 85);
+      expect(split.barberTransferCents).toBe(withoutCode.barberTransferCents);
+      expect(split.dueAtAppointmentCents).toBe(4000);
+    });
+
+    it('should cap a platform code at what the platform keeps', () => {
+      const split = calculatePaymentSplit([{ price: 40 }], 0, undefined, { fundedBy: 'platform', cents: PLATFORM_FEE_CENTS });
+
+      expect(split.discountCents).toBe(142);
+      expect(split.totalCents).toBe(PLATFORM_FEE_CENTS - 142);
+      expect(split.applicationFeeCents).toBe(0);
+    });
+  });
+
+  describe('describePromoCode', () => {
+    it('should describe the discount and its rules', () => {
+      expect(describePromoCode({ ...barberCode, first_visit_only: true, weekdays: [4, 2] })).toBe('20% off, first visit only, Tue, Thu');
+      expect(describePromoCode(platformCode)).toBe('$5.00 off the booking fee');
+    });
+  });
+});
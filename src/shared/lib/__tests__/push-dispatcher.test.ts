@@ -0,0 +1,145 @@
+/**
+ * Tests for the push dispatcher: one push per device, and pruning devices Expo can no longer reach
+ */
+
+import { PushDispatcher } from '../push-dispatcher';
+import { PushTokens, isExpoPushToken } from '../push-tokens';
+import { expoProvider, PermanentDeliveryError } from '../notification-providers';
+import { supabaseAdmin } from '@/shared/lib/supabase';
+
+jest.mock('@/shared/lib/supabase', () => ({
+  supabaseAdmin: { from: jest.fn() },
+}));
+
+jest.mock('../push-tokens', () => ({
+  ...jest.requireActual('../push-tokens'),
+  PushTokens: { getForUsers: jest.fn(), remove: jest.fn() },
+}));
+
+const mockFrom = supabaseAdmin.from as jest.Mock;
+const mockRemove = PushTokens.remove as jest.Mock;
+const phone = 'ExponentPushToken[phone]';
+const tablet = 'ExponentPushToken[tablet]';
+
+describe('PushDispatcher', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('toMessages', () => {
+    it('should send one push per device, each with its own dedupe key', () => {
+      const messages = PushDispatcher.toMessages('user-1', [phone, tablet], {
+        type: 'booking_created',
+        title: 'New Booking',
+        body: 'Jordan booked a Fade',
+        data: { bookingId: 'booking-1' },
+        bookingId: 'booking-1',
+        dedupeKey: 'booking:booking-1:confirmed:barber:push',
+      });
+
+      expect(messages).toHaveLength(2);
+      expect(messages[0]).toEqual(expect.objectContaining({
+        channel: 'push',
+        to: phone,
+        recipientId: 'user-1',
+        data: { type: 'booking_created', bookingId: 'booking-1' },
+        dedupeKey: `booking:booking-1:confirmed:barber:push:${phone}`,
+      }));
+      expect(messages[1].dedupeKey).toBe(`booking:booking-1:confirmed:barber:push:${tablet}`);
+    });
+
+    it('should send nothing to a user without devices', () => {
+      expect(PushDispatcher.toMessages('user-1', [], { type: 'booking_created', title: 'New Booking', body: '' })).toEqual([]);
+    });
+  });
+
+  describe('checkReceipts', () => {
+    let updates: Array<Record<string, unknown>>;
+
+    beforeEach(() => {
+      updates = [];
+      const deliveries = [
+        { id: 'delivery-1', recipient: phone, provider_message_id: 'ticket-1' },
+        { id: 'delivery-2', recipient: tablet, provider_message_id: 'ticket-2' },
+        { id: 'delivery-3', recipient: phone, provider_message_id: 'ticket-3' },
+      ];
+      const query: Record<string, jest.Mock> = {};
+      for (const method of ['select', 'eq', 'is', 'not', 'lte', 'gte']) {
+        query[method] = jest.fn(() => query);
+      }
+      query.limit = jest.fn(() => Promise.resolve({ data: deliveries, error: null }));
+      query.update = jest.fn((values) => {
+        updates.push(values);
+        return {
+          eq: () => Promise.resolve({ error: null }),
+          in: () => Promise.resolve({ error: null }),
+        };
+      });
+      mockFrom.mockReturnValue(query);
+
+      global.fetch = jest.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({
+          data: {
+            'ticket-1': { status: 'ok' },
+            'ticket-2': { status: 'error', message: 'not registered', details: { error: 'DeviceNotRegistered' } },
+            // ticket-3 is not ready yet
+          },
+        }),
+      }) as jest.Mock;
+    });
+
+    it('should mark undelivered pushes failed and prune unregistered devices', async () => {
+      const result = await PushDispatcher.checkReceipts(new Date('2025-03-12T16:00:00Z'));
+
+      expect(result).toEqual({ checked: 2, failed: 1, pruned: 1 });
+      expect(mockRemove).toHaveBeenCalledWith([tablet]);
+      expect(updates).toContainEqual(expect.objectContaining({
+        status: 'failed',
+        last_error: 'Push notification was not delivered: DeviceNotRegistered',
+      }));
+    });
+  });
+});
+
+describe('expoProvider', () => {
+  const originalFetch = global.fetch;
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should drop a token Expo says is no longer registered', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ data: { status: 'error', details: { error: 'DeviceNotRegistered' } } }),
+    }) as jest.Mock;
+
+    await expect(expoProvider.send({ channel: 'push', to: phone, type: 'booking_created', title: 'New Booking', body: '' }))
+      .rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(mockRemove).toHaveBeenCalledWith([phone]);
+  });
+
+  it('should drop a token that is not an Expo push token without sending', async () => {
+    global.fetch = jest.fn() as jest.Mock;
+
+    await expect(expoProvider.send({ channel: 'push', to: 'not-a-token', type: 'booking_created', title: 'New Booking', body: '' }))
+      .rejects.toBeInstanceOf(PermanentDeliveryError);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(mockRemove).toHaveBeenCalledWith(['not-a-token']);
+  });
+});
+
+describe('isExpoPushToken', () => {
+  it('should accept Expo tokens only', () => {
+    expect(isExpoPushToken('ExponentPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe(true);
+    expect(isExpoPushToken('ExpoPushToken[xxxxxxxxxxxxxxxxxxxxxx]')).toBe(true);
+    expect(isExpoPushToken('fcm-device-token')).toBe(false);
+  });
+});
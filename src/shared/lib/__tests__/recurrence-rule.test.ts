@@ -0,0 +1,67 @@
+/**
+ * Tests for booking series recurrence rules
+ */
+
+import {
+  getRecurrenceRuleError,
+  getOccurrenceDates,
+  describeRecurrenceRule,
+} from '../recurrence-rule';
+
+describe('Recurrence Rule', () => {
+  const rule = {
+    intervalWeeks: 2,
+    startTime: '15:00',
+    startsOn: '2025-03-11', // Tuesday
+    endsOn: '2025-04-22',
+  };
+
+  describe('getRecurrenceRuleError', () => {
+    it('should accept a valid rule', () => {
+      expect(getRecurrenceRuleError(rule)).toBeNull();
+    });
+
+    it('should reject intervals outside 1 to 8 weeks', () => {
+      expect(getRecurrenceRuleError({ ...rule, intervalWeeks: 0 })).toContain('1 to 8 weeks');
+      expect(getRecurrenceRuleError({ ...rule, intervalWeeks: 9 })).toContain('1 to 8 weeks');
+    });
+
+    it('should reject a series that ends before it starts', () => {
+      expect(getRecurrenceRuleError({ ...rule, endsOn: '2025-03-01' })).toBe('The series must end after it starts');
+    });
+
+    it('should reject a series longer than a year', () => {
+      expect(getRecurrenceRuleError({ ...rule, endsOn: '2026-06-01' })).toContain('at most one year');
+    });
+  });
+
+  describe('getOccurrenceDates', () => {
+    it('should step by the interval until the end date', () => {
+      expect(getOccurrenceDates(rule)).toEqual([
+        '2025-03-11',
+        '2025-03-25',
+        '2025-04-08',
+        '2025-04-22',
+      ]);
+    });
+
+    it('should keep the weekday across a daylight saving change', () => {
+      const dates = getOccurrenceDates({ ...rule, intervalWeeks: 1, startsOn: '2025-03-04', endsOn: '2025-03-18' });
+      expect(dates).toEqual(['2025-03-04', '2025-03-11', '2025-03-18']);
+    });
+
+    it('should return nothing for an invalid rule', () => {
+      expect(getOccurrenceDates({ ...rule, intervalWeeks: 0 })).toEqual([]);
+    });
+  });
+
+  describe('describeRecurrenceRule', () => {
+    it('should describe the weekday, time and end date', () => {
+      expect(describeRecurrenceRule(rule)).toBe('Every 2 weeks on Tuesday at 3:00 PM until Apr 22, 2025');
+    });
+
+    it('should say every week for a weekly rule', () => {
+      expect(describeRecurrenceRule({ ...rule, intervalWeeks: 1, startTime: '09:30' })).toContain('Every week on Tuesday at 9:30 AM');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for reminder offset settings
+ */
+
+import {
+  DEFAULT_REMINDER_OFFSETS,
+  describeReminderOffset,
+  getReminderOffsets,
+  normalizeReminderOffsets,
+} from '../reminder-schedule';
+
+describe('Reminder Schedule', () => {
+  describe('getReminderOffsets', () => {
+    it('should fall back to defaults when the barber has no restrictions', () => {
+      expect(getReminderOffsets(null)).toEqual(DEFAULT_REMINDER_OFFSETS);
+    });
+
+    it('should keep an empty list so reminders can be turned off', () => {
+      expect(getReminderOffsets({ reminder_offsets_minutes: [] })).toEqual([]);
+    });
+  });
+
+  describe('normalizeReminderOffsets', () => {
+    it('should sort offsets furthest from the appointment first', () => {
+      expect(normalizeReminderOffsets([120, 1440, 30])).toEqual([1440, 120, 30]);
+    });
+
+    it('should drop duplicates and out of range offsets', () => {
+      expect(normalizeReminderOffsets([120, 120, 5, 20160])).toEqual([120]);
+    });
+
+    it('should keep at most three offsets', () => {
+      expect(normalizeReminderOffsets([30, 60, 120, 240])).toEqual([240, 120, 60]);
+    });
+  });
+
+  describe('describeReminderOffset', () => {
+    it('should use the largest whole unit', () => {
+      expect(describeReminderOffset(10080)).toBe('1 week');
+      expect(describeReminderOffset(2880)).toBe('2 days');
+      expect(describeReminderOffset(1440)).toBe('1 day');
+      expect(describeReminderOffset(720)).toBe('12 hours');
+      expect(describeReminderOffset(90)).toBe('90 minutes');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for reschedule policy checks
+ */
+
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  getReschedulePolicy,
+  getRescheduleBlocker,
+  getRescheduleRejection,
+} from '../reschedule-policy';
+
+describe('Reschedule Policy', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const policy = { cutoffHours: 24, maxReschedules: 2 };
+  const booking = {
+    date: '2025-03-12T15:00:00Z', // 51 hours away
+    status: 'confirmed',
+    reschedule_count: 0,
+  };
+
+  describe('getReschedulePolicy', () => {
+    it('should fall back to defaults when the barber has no restrictions', () => {
+      expect(getReschedulePolicy(null)).toEqual(DEFAULT_RESCHEDULE_POLICY);
+    });
+
+    it('should read the barber restrictions', () => {
+      expect(getReschedulePolicy({ reschedule_cutoff_hours: 4, max_reschedules: 0 })).toEqual({
+        cutoffHours: 4,
+        maxReschedules: 0,
+      });
+    });
+  });
+
+  describe('getRescheduleBlocker', () => {
+    it('should allow an upcoming booking outside the cutoff', () => {
+      expect(getRescheduleBlocker(booking, policy, now)).toBeNull();
+    });
+
+    it('should reject cancelled and completed bookings', () => {
+      expect(getRescheduleBlocker({ ...booking, status: 'cancelled' }, policy, now)).toContain('Only upcoming bookings');
+      expect(getRescheduleBlocker({ ...booking, status: 'completed' }, policy, now)).toContain('Only upcoming bookings');
+    });
+
+    it('should reject when the barber disabled rescheduling', () => {
+      expect(getRescheduleBlocker(booking, { ...policy, maxReschedules: 0 }, now)).toBe('This barber does not allow rescheduling');
+    });
+
+    it('should reject once the maximum number of reschedules is reached', () => {
+      expect(getRescheduleBlocker({ ...booking, reschedule_count: 2 }, policy, now)).toContain('maximum of 2 times');
+    });
+
+    it('should reject inside the cutoff window', () => {
+      const soon = { ...booking, date: '2025-03-11T06:00:00Z' }; // 18 hours away
+      expect(getRescheduleBlocker(soon, policy, now)).toContain('more than 24 hours');
+    });
+  });
+
+  describe('getRescheduleRejection', () => {
+    it('should accept a new future time', () => {
+      expect(getRescheduleRejection(booking, new Date('2025-03-13T15:00:00Z'), policy, now)).toBeNull();
+    });
+
+    it('should reject a new time in the past', () => {
+      expect(getRescheduleRejection(booking, new Date('2025-03-09T15:00:00Z'), policy, now)).toBe('The new time must be in the future');
+    });
+
+    it('should reject moving to the same time', () => {
+      expect(getRescheduleRejection(booking, new Date(booking.date), policy, now)).toBe('The booking is already at this time');
+    });
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tests for multi-service booking selection
+ */
+
+import {
+  toggleServiceSelection,
+  normalizeAdditionalServiceIds,
+  getSelectionTotals,
+} from '../service-selection';
+
+describe('Service Selection', () => {
+  describe('toggleServiceSelection', () => {
+    it('should append services in the order they are picked', () => {
+      expect(toggleServiceSelection(['haircut'], 'beard')).toEqual(['haircut', 'beard']);
+    });
+
+    it('should remove a selected service and promote the next one', () => {
+      expect(toggleServiceSelection(['haircut', 'beard', 'eyebrows'], 'haircut')).toEqual(['beard', 'eyebrows']);
+    });
+  });
+
+  describe('normalizeAdditionalServiceIds', () => {
+    it('should drop duplicates and the primary service', () => {
+      expect(normalizeAdditionalServiceIds('haircut', ['beard', 'haircut', 'beard', 'eyebrows'])).toEqual(['beard', 'eyebrows']);
+    });
+
+    it('should ignore anything that is not a list of ids', () => {
+      expect(normalizeAdditionalServiceIds('haircut', 'beard')).toEqual([]);
+      expect(normalizeAdditionalServiceIds('haircut', ['', 42, 'beard'])).toEqual(['beard']);
+    });
+  });
+
+  describe('getSelectionTotals', () => {
+    it('should sum prices and durations', () => {
+      expect(getSelectionTotals([
+        { price: 30, duration: 30 },
+        { price: 15, duration: 20 },
+        { price: 10, duration: 10 },
+      ])).toEqual({ price: 55, duration: 60 });
+    });
+
+    it('should return zero for an empty selection', () => {
+      expect(getSelectionTotals([])).toEqual({ price: 0, duration: 0 });
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for shops: addresses, roles, the combined schedule, the first-available menu
+ * and earnings across barbers
+ */
+
+import {
+  ShopServiceOffer,
+  canManageShop,
+  groupShopServices,
+  mergeShopAvailability,
+  normalizeServiceName,
+  slugifyShopName,
+  totalShopEarnings,
+} from '../shop-service';
+import type { AvailabilitySlot } from '@/shared/types/availability';
+import type { ShopEarningsRow } from '@/shared/types';
+
+jest.mock('@/shared/lib/supabase', () => ({
+  supabase: {},
+}));
+
+function slot(slot_start: string, available = true): AvailabilitySlot {
+  return { slot_start, slot_time: '', available, reason: available ? null : 'booked' };
+}
+
+function earnings(barber_id: string, gross: number, booking_count: number): ShopEarningsRow {
+  return {
+    barber_id,
+    user_id: `${barber_id}-user`,
+    name: barber_id,
+    role: 'barber',
+    stripe_account_ready: true,
+    booking_count,
+    gross,
+    platform_fees: booking_count * 3.38,
+    barber_payout: gross - booking_count * 2,
+  };
+}
+
+function offer(barberId: string, name: string, price: number, duration = 30): ShopServiceOffer {
+  return {
+    barberId,
+    barberName: barberId,
+    timezone: 'America/New_York',
+    isDeveloper: false,
+    service: { id: `${barberId}-${name}`, name, description: null, duration, price },
+  };
+}
+
+describe('slugifyShopName', () => {
+  it('should make a lowercase address from the name', () => {
+    expect(slugifyShopName('Fresh Cuts & Co.')).toBe('fresh-cuts-co');
+  });
+
+  it('should drop accents and trim separators', () => {
+    expect(slugifyShopName('  Peluquería Álvarez!  ')).toBe('peluqueria-alvarez');
+  });
+
+  it('should be empty when the name has no letters or numbers', () => {
+    expect(slugifyShopName('***')).toBe('');
+  });
+});
+
+describe('canManageShop', () => {
+  it('should let owners and managers manage the shop', () => {
+    expect(canManageShop('owner')).toBe(true);
+    expect(canManageShop('manager')).toBe(true);
+  });
+
+  it('should not let barbers or non-members manage the shop', () => {
+    expect(canManageShop('barber')).toBe(false);
+    expect(canManageShop(null)).toBe(false);
+  });
+});
+
+describe('mergeShopAvailability', () => {
+  it('should list every time at least one barber is free, earliest first', () => {
+    const merged = mergeShopAvailability([
+      { barberId: 'marcus', slots: [slot('2026-10-20T14:00:00Z'), slot('2026-10-20T14:30:00Z', false)] },
+      { barberId: 'dee', slots: [slot('2026-10-20T14:30:00Z'), slot('2026-10-20T13:30:00Z')] },
+    ]);
+
+    expect(merged).toEqual([
+      { slot_start: '2026-10-20T13:30:00.000Z', barberIds: ['dee'] },
+      { slot_start: '2026-10-20T14:00:00.000Z', barberIds: ['marcus'] },
+      { slot_start: '2026-10-20T14:30:00.000Z', barberIds: ['dee'] },
+    ]);
+  });
+
+  it('should match the same instant across barbers in different time zones', () => {
+    const merged = mergeShopAvailability([
+      { barberId: 'marcus', slots: [slot('2026-10-20T10:00:00-04:00')] },
+      { barberId: 'dee', slots: [slot('2026-10-20T14:00:00+00:00')] },
+    ]);
+
+    expect(merged).toEqual([{ slot_start: '2026-10-20T14:00:00.000Z', barberIds: ['marcus', 'dee'] }]);
+  });
+});
+
+describe('normalizeServiceName', () => {
+  it('should ignore case and extra spaces', () => {
+    expect(normalizeServiceName('  Skin   Fade ')).toBe(normalizeServiceName('skin fade'));
+  });
+});
+
+describe('groupShopServices', () => {
+  it('should group barbers offering the same service and track the price range', () => {
+    const options = groupShopServices([
+      offer('barber-a', 'Skin Fade', 40),
+      offer('barber-b', 'skin fade', 30, 45),
+      offer('barber-b', 'Beard Trim', 15),
+    ]);
+
+    expect(options.map(option => option.name)).toEqual(['Beard Trim', 'Skin Fade']);
+    expect(options[1].offers.map(item => item.barberId)).toEqual(['barber-a', 'barber-b']);
+    expect(options[1].minPrice).toBe(30);
+    expect(options[1].maxPrice).toBe(40);
+  });
+
+  it('should list a barber once per service', () => {
+    const options = groupShopServices([offer('barber-a', 'Cut', 25), offer('barber-a', 'cut', 35)]);
+
+    expect(options).toHaveLength(1);
+    expect(options[0].offers).toHaveLength(1);
+    expect(options[0].maxPrice).toBe(25);
+  });
+
+  it('should keep each barber\'s own duration for the availability lookup', () => {
+    const [option] = groupShopServices([offer('barber-a', 'Cut', 25, 30), offer('barber-b', 'Cut', 25, 60)]);
+
+    expect(option.offers.map(item => item.service.duration)).toEqual([30, 60]);
+  });
+});
+
+describe('totalShopEarnings', () => {
+  it('should add up every barber', () => {
+    const totals = totalShopEarnings([earnings('marcus', 400, 10), earnings('dee', 150, 5)]);
+
+    expect(totals.booking_count).toBe(15);
+    expect(totals.gross).toBe(550);
+    expect(totals.barber_payout).toBe(520);
+  });
+
+  it('should be zero for a shop without bookings', () => {
+    expect(totalShopEarnings([])).toEqual({ booking_count: 0, gross: 0, platform_fees: 0, barber_payout: 0 });
+  });
+});
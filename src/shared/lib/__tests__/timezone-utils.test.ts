@@ -0,0 +1,76 @@
+/**
+ * Tests for scheduling timezone utilities
+ */
+
+import {
+  DEFAULT_BARBER_TIMEZONE,
+  formatTimeInZone,
+  formatDateInZone,
+  isSameOffset,
+  getAppointmentTimeLabels,
+} from '../timezone-utils';
+
+describe('Timezone Utils', () => {
+  // 15:00 UTC is 10:00 AM in New York (EST) and 7:00 AM in Los Angeles (PST)
+  const winterInstant = '2025-01-15T15:00:00Z';
+  // 14:00 UTC is 10:00 AM in New York (EDT) after the March DST change
+  const summerInstant = '2025-07-15T14:00:00Z';
+
+  describe('formatTimeInZone', () => {
+    it('should format the wall time in the given zone', () => {
+      expect(formatTimeInZone(winterInstant, 'America/New_York')).toBe('10:00 AM EST');
+      expect(formatTimeInZone(winterInstant, 'America/Los_Angeles')).toBe('7:00 AM PST');
+    });
+
+    it('should follow daylight saving time', () => {
+      expect(formatTimeInZone(summerInstant, 'America/New_York')).toBe('10:00 AM EDT');
+    });
+
+    it('should omit the zone name when asked', () => {
+      expect(formatTimeInZone(winterInstant, 'America/New_York', false)).toBe('10:00 AM');
+    });
+  });
+
+  describe('formatDateInZone', () => {
+    it('should use the calendar date in the given zone', () => {
+      // 03:00 UTC on the 16th is still the 15th in Los Angeles
+      expect(formatDateInZone('2025-01-16T03:00:00Z', 'America/Los_Angeles')).toBe('Wednesday, January 15, 2025');
+    });
+  });
+
+  describe('isSameOffset', () => {
+    it('should compare offsets at the given instant', () => {
+      expect(isSameOffset(winterInstant, 'America/New_York', 'America/Detroit')).toBe(true);
+      expect(isSameOffset(winterInstant, 'America/New_York', 'America/Chicago')).toBe(false);
+    });
+
+    it('should account for zones without daylight saving time', () => {
+      // Phoenix matches Denver in winter but not in summer
+      expect(isSameOffset(winterInstant, 'America/Phoenix', 'America/Denver')).toBe(true);
+      expect(isSameOffset(summerInstant, 'America/Phoenix', 'America/Denver')).toBe(false);
+    });
+  });
+
+  describe('getAppointmentTimeLabels', () => {
+    it('should only return the barber time when the viewer is in the same zone', () => {
+      const labels = getAppointmentTimeLabels(winterInstant, 'America/New_York', 'America/New_York');
+
+      expect(labels.barberTime).toBe('10:00 AM EST');
+      expect(labels.localTime).toBeNull();
+    });
+
+    it('should include the viewer local time when zones differ', () => {
+      const labels = getAppointmentTimeLabels(winterInstant, 'America/New_York', 'America/Los_Angeles');
+
+      expect(labels.barberTime).toBe('10:00 AM EST');
+      expect(labels.localTime).toBe('7:00 AM PST');
+    });
+
+    it('should fall back to the default barber timezone', () => {
+      const labels = getAppointmentTimeLabels(winterInstant, null, DEFAULT_BARBER_TIMEZONE);
+
+      expect(labels.barberTime).toBe('10:00 AM EST');
+      expect(labels.localTime).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Tests for tip amounts and the tip prompt
+ */
+
+import {
+  calculateTipCents,
+  getTipAmountError,
+  getTipBlocker,
+  shouldPromptForTip,
+  TIP_PERCENTAGES,
+} from '../tipping';
+
+describe('Tipping', () => {
+  const now = new Date('2025-03-10T12:00:00Z');
+  const booking = {
+    status: 'completed',
+    client_id: 'client-1',
+    completed_at: '2025-03-09T18:00:00Z',
+    tip_status: null,
+  };
+
+  describe('calculateTipCents', () => {
+    it('should take each preset percentage of the services and add-ons', () => {
+      expect(TIP_PERCENTAGES.map(percentage => calculateTipCents(4550, percentage))).toEqual([683, 910, 1138]);
+    });
+  });
+
+  describe('getTipAmountError', () => {
+    it('should accept amounts between $1 and $500', () => {
+      expect(getTipAmountError(100)).toBeNull();
+      expect(getTipAmountError(50000)).toBeNull();
+    });
+
+    it('should reject amounts outside the limits', () => {
+      expect(getTipAmountError(99)).toBe('The smallest tip is $1.00');
+      expect(getTipAmountError(50001)).toBe('Tips are limited to $500.00');
+      expect(getTipAmountError(150.5)).toBe('The smallest tip is $1.00');
+    });
+  });
+
+  describe('getTipBlocker', () => {
+    it('should allow tipping on a completed booking, including after a failed tip', () => {
+      expect(getTipBlocker(booking)).toBeNull();
+      expect(getTipBlocker({ ...booking, tip_status: 'failed' })).toBeNull();
+      expect(getTipBlocker({ ...booking, tip_status: 'declined' })).toBeNull();
+    });
+
+    it('should block tips before completion, for guests, and twice', () => {
+      expect(getTipBlocker({ ...booking, status: 'confirmed' })).toBe('You can tip once the appointment is completed');
+      expect(getTipBlocker({ ...booking, client_id: null })).toBe('Sign in to tip your barber');
+      expect(getTipBlocker({ ...booking, tip_status: 'succeeded' })).toBe('You already tipped for this appointment');
+      expect(getTipBlocker({ ...booking, tip_status: 'pending' })).toBe('Your tip is still processing');
+    });
+  });
+
+  describe('shouldPromptForTip', () => {
+    it('should prompt for a recently completed booking without a tip', () => {
+      expect(shouldPromptForTip(booking, now)).toBe(true);
+    });
+
+    it('should not prompt again once the client tipped or declined', () => {
+      expect(shouldPromptForTip({ ...booking, tip_status: 'declined' }, now)).toBe(false);
+      expect(shouldPromptForTip({ ...booking, tip_status: 'failed' }, now)).toBe(false);
+    });
+
+    it('should stop prompting a week after the appointment', () => {
+      expect(shouldPromptForTip({ ...booking, completed_at: '2025-03-02T12:00:00Z' }, now)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+// Appointment lifecycle rules shared by the check-in, start and complete APIs and the calendars
+import { Booking } from '@/shared/types/booking'
+
+// How early a client can check in before the appointment starts
+export const CHECK_IN_OPENS_MINUTES = 60
+
+export type CheckInMethod = 'manual' | 'qr'
+
+export type AppointmentStage =
+  | 'upcoming'
+  | 'checked_in'
+  | 'in_service'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show'
+
+type LifecycleBooking = Pick<Booking, 'date' | 'status'> &
+  Partial<Pick<Booking, 'end_time' | 'checked_in_at' | 'service_started_at' | 'completed_at'>>
+
+const ACTIVE_STATUSES = ['pending', 'confirmed']
+
+export const APPOINTMENT_STAGE_LABELS: Record<AppointmentStage, string> = {
+  upcoming: 'Upcoming',
+  checked_in: 'Checked in',
+  in_service: 'In service',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show'
+}
+
+export function getAppointmentStage(booking: LifecycleBooking): AppointmentStage {
+  if (booking.status === 'completed') return 'completed'
+  if (booking.status === 'cancelled') return 'cancelled'
+  if (booking.status === 'no_show') return 'no_show'
+  if (booking.service_started_at) return 'in_service'
+  if (booking.checked_in_at) return 'checked_in'
+  return 'upcoming'
+}
+
+/**
+ * Whether the client can check in now
+ * Returns null when allowed, otherwise the reason shown to the user
+ */
+export function getCheckInBlocker(booking: LifecycleBooking, now: Date = new Date()): string | null {
+  if (!ACTIVE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming appointments can be checked in'
+  }
+
+  if (booking.checked_in_at) {
+    return 'This appointment is already checked in'
+  }
+
+  const start = new Date(booking.date)
+  if (now.getTime() < start.getTime() - CHECK_IN_OPENS_MINUTES * 60 * 1000) {
+    return `Check-in opens ${CHECK_IN_OPENS_MINUTES} minutes before your appointment`
+  }
+
+  if (booking.end_time && now >= new Date(booking.end_time)) {
+    return 'This appointment has already ended'
+  }
+
+  return null
+}
+
+/**
+ * Whether the barber can start the service now
+ * Returns null when allowed, otherwise the reason shown to the barber
+ */
+export function getStartServiceBlocker(booking: LifecycleBooking, now: Date = new Date()): string | null {
+  if (!ACTIVE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming appointments can be started'
+  }
+
+  if (booking.service_started_at) {
+    return 'This appointment has already started'
+  }
+
+  // The client may be seated early once they have checked in
+  if (!booking.checked_in_at && new Date(booking.date).getTime() - now.getTime() > CHECK_IN_OPENS_MINUTES * 60 * 1000) {
+    return 'This appointment is not due yet'
+  }
+
+  return null
+}
+
+/**
+ * Whether the barber can complete the appointment
+ * Returns null when allowed, otherwise the reason shown to the barber
+ */
+export function getCompleteBlocker(booking: LifecycleBooking, now: Date = new Date()): string | null {
+  if (!ACTIVE_STATUSES.includes(booking.status)) {
+    return 'Only active appointments can be completed'
+  }
+
+  if (!booking.service_started_at && new Date(booking.date) > now) {
+    return 'An appointment can only be completed after it starts'
+  }
+
+  return null
+}
+
+// Minutes between two timestamps, rounded; positive when `to` is later
+export function minutesBetween(from: string | Date, to: string | Date): number {
+  return Math.round((new Date(to).getTime() - new Date(from).getTime()) / (60 * 1000))
+}
+
+// "12 min early", "On time" or "5 min late" for a check-in against the start time
+export function describeArrival(booking: Pick<Booking, 'date'> & { checked_in_at?: string | null }): string | null {
+  if (!booking.checked_in_at) return null
+
+  const minutes = minutesBetween(booking.date, booking.checked_in_at)
+  if (minutes === 0) return 'On time'
+  return minutes < 0 ? `${-minutes} min early` : `${minutes} min late`
+}
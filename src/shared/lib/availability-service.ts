@@ -0,0 +1,55 @@
+import { supabase } from './supabase'
+import { AvailabilitySlot, SlotUnavailableReason } from '@/shared/types/availability'
+import { logger } from './logger'
+
+/**
+ * Client for the availability engine in the database.
+ *
+ * Slot generation and booking validation both run in Postgres
+ * (get_available_slots / check_slot_availability) so the slots shown here are
+ * exactly the ones the check_booking_conflicts trigger will accept.
+ */
+export class AvailabilityService {
+  // Get the slot grid for a barber on a date (yyyy-MM-dd)
+  static async getAvailableSlots(barberId: string, date: string, durationMinutes: number): Promise<AvailabilitySlot[]> {
+    try {
+      const { data, error } = await supabase.rpc('get_available_slots', {
+        p_barber_id: barberId,
+        p_date: date,
+        p_duration_minutes: durationMinutes
+      })
+
+      if (error) throw error
+      return (data || []) as AvailabilitySlot[]
+    } catch (error) {
+      logger.error('Error fetching available slots', error)
+      throw error
+    }
+  }
+
+  // Check a single start time; returns null when bookable, otherwise the reason.
+  // clientId lets server-side callers book a slot held for that client by a waitlist offer.
+  static async checkSlot(
+    barberId: string,
+    start: string,
+    durationMinutes: number,
+    excludeBookingId?: string,
+    clientId?: string
+  ): Promise<SlotUnavailableReason | null> {
+    try {
+      const { data, error } = await supabase.rpc('check_slot_availability', {
+        p_barber_id: barberId,
+        p_start: start,
+        p_duration_minutes: durationMinutes,
+        p_exclude_booking_id: excludeBookingId ?? null,
+        p_client_id: clientId ?? null
+      })
+
+      if (error) throw error
+      return (data as SlotUnavailableReason | null) ?? null
+    } catch (error) {
+      logger.error('Error checking slot availability', error)
+      throw error
+    }
+  }
+}
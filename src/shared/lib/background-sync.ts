@@ -1,6 +1,7 @@
 import { supabase } from './supabase';
 import { GoogleCalendarAPI, CalendarSyncService } from './google-calendar-api';
 import { logger } from './logger';
+import { DEFAULT_BARBER_TIMEZONE } from './timezone-utils';
 
 interface SyncJob {
   id: string;
@@ -206,11 +207,11 @@ export class BackgroundSyncService {
               location: booking.barbers.location || 'Barber Shop',
               start: {
                 dateTime: booking.start_time,
-                timeZone: 'UTC'
+                timeZone: booking.barbers.timezone || DEFAULT_BARBER_TIMEZONE
               },
               end: {
                 dateTime: booking.end_time,
-                timeZone: 'UTC'
+                timeZone: booking.barbers.timezone || DEFAULT_BARBER_TIMEZONE
               },
               reminders: {
                 useDefault: false,
@@ -0,0 +1,50 @@
+// Group bookings in the calendar: every person in a group is their own booking,
+// shown together as one linked block
+import type { CalendarEvent, CalendarEventGroup } from '@/shared/types/calendar'
+
+export interface CalendarGroupBlock {
+  group: CalendarEventGroup
+  events: CalendarEvent[] // In start order
+  start: Date // Earliest member start
+  end: Date // Latest member end
+}
+
+/**
+ * Splits events into standalone events and group blocks
+ * Members of a group appear only inside their block
+ */
+export function groupCalendarEvents(events: CalendarEvent[]): { singles: CalendarEvent[]; groups: CalendarGroupBlock[] } {
+  const singles: CalendarEvent[] = []
+  const blocks = new Map<string, CalendarGroupBlock>()
+
+  for (const event of events) {
+    if (!event.group) {
+      singles.push(event)
+      continue
+    }
+
+    const block = blocks.get(event.group.id)
+    if (!block) {
+      blocks.set(event.group.id, { group: event.group, events: [event], start: event.start, end: event.end })
+      continue
+    }
+
+    block.events.push(event)
+    if (event.start < block.start) block.start = event.start
+    if (event.end > block.end) block.end = event.end
+  }
+
+  const groups = [...blocks.values()].map(block => ({
+    ...block,
+    events: [...block.events].sort((a, b) => a.start.getTime() - b.start.getTime())
+  }))
+
+  return { singles, groups }
+}
+
+/**
+ * e.g. "Smith party · 3 people" or "Group · 2 people"
+ */
+export function describeGroup(group: Pick<CalendarEventGroup, 'name' | 'size'>): string {
+  return `${group.name || 'Group'} · ${group.size} ${group.size === 1 ? 'person' : 'people'}`
+}
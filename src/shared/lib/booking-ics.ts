@@ -0,0 +1,80 @@
+/**
+ * iCalendar (.ics) invites attached to booking emails
+ * Every email about a booking carries the same UID, so calendar apps update or
+ * remove the event they already have instead of adding another one.
+ */
+
+export interface BookingIcsEvent {
+  bookingId: string
+  start: Date | string
+  end: Date | string
+  summary: string
+  description: string
+  location?: string | null
+  // Increases with every change so calendars apply updates in order
+  sequence?: number
+  cancelled?: boolean
+}
+
+const ICS_DOMAIN = 'bocmstyle.com'
+// Calendar apps only apply an invite or cancellation that names its organizer
+const ICS_ORGANIZER = `ORGANIZER;CN=BOCM:mailto:no-reply@${ICS_DOMAIN}`
+
+// 2025-03-12T15:00:00.000Z -> 20250312T150000Z
+function formatIcsDate(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Commas, semicolons, backslashes and newlines have meaning in iCalendar text
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const chunks: string[] = []
+  let rest = line
+  while (Buffer.byteLength(rest) > 75) {
+    let cut = Math.min(rest.length, chunks.length === 0 ? 75 : 74)
+    while (Buffer.byteLength(rest.slice(0, cut)) > (chunks.length === 0 ? 75 : 74)) cut--
+    chunks.push(rest.slice(0, cut))
+    rest = rest.slice(cut)
+  }
+  chunks.push(rest)
+  return chunks.join('\r\n ')
+}
+
+export function getBookingIcsUid(bookingId: string): string {
+  return `booking-${bookingId}@${ICS_DOMAIN}`
+}
+
+export function buildBookingIcs(event: BookingIcsEvent): string {
+  const method = event.cancelled ? 'CANCEL' : 'REQUEST'
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//BOCM//Bookings//EN',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    'BEGIN:VEVENT',
+    `UID:${getBookingIcsUid(event.bookingId)}`,
+    `SEQUENCE:${event.sequence ?? 0}`,
+    `DTSTAMP:${formatIcsDate(new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    `DESCRIPTION:${escapeIcsText(event.description)}`,
+    event.location ? `LOCATION:${escapeIcsText(event.location)}` : '',
+    ICS_ORGANIZER,
+    `STATUS:${event.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ]
+
+  return lines.filter(line => line !== '').map(foldLine).join('\r\n') + '\r\n'
+}
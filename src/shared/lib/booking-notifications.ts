@@ -0,0 +1,487 @@
+// Server-only: booking messages for the client and the barber on every channel they can be reached on
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { PushTokens } from '@/shared/lib/push-tokens'
+import { calculateFeeBreakdown, DEFAULT_FEE_SCHEDULE } from '@/shared/lib/fee-calculator'
+import {
+  bookingCancelledEmail,
+  bookingConfirmationEmail,
+  bookingRescheduledEmail,
+  receiptEmail,
+  reviewRequestEmail
+} from '@/shared/lib/email-templates'
+import { DEFAULT_BARBER_TIMEZONE, formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import type { BookingReminder } from '@/shared/types/booking-restrictions'
+import type { BookingEmailData, EmailAudience, RenderedEmail } from '@/shared/types/email-templates'
+import type { DeliveryChannel, NotificationDelivery as DeliveryRecord, OutgoingMessage } from '@/shared/types/notification-delivery'
+
+// A booking as selected with barber:barber_id(*), service:service_id(*)
+export interface NotifiableBooking {
+  id: string
+  date: string
+  end_time?: string | null
+  status?: string
+  price?: number | string | null // dollars charged online
+  fee_schedule_id?: string | null // schedule the booking fee was charged under
+  reschedule_count?: number | null
+  created_at?: string
+  client_id?: string | null
+  guest_name?: string | null
+  guest_email?: string | null
+  barber?: { user_id: string; timezone?: string | null } | null
+  service?: { name: string; duration?: number | null } | null
+}
+
+interface ContactProfile {
+  id: string
+  name: string | null
+  username: string | null
+  location: string | null
+  email: string | null
+  phone: string | null
+  sms_notifications: boolean | null
+}
+
+interface Recipient {
+  userId: string | null
+  name: string
+  email: string | null
+  phone: string | null
+  pushTokens: string[] // one per device
+  smsConsent: boolean
+}
+
+interface BookingMessage {
+  event: string // part of the dedupe key, so each event reaches each recipient once per channel
+  type: string
+  title: string
+  body: string
+  channels: DeliveryChannel[]
+  email?: RenderedEmail // replaces the title and body on the email channel
+}
+
+type BookingParties = Awaited<ReturnType<typeof BookingNotifications['getParties']>>
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://www.bocmstyle.com'
+const DEFAULT_DURATION_MINUTES = 30
+
+const STATUS_MESSAGES: Record<string, { type: string; title: string; body: string }> = {
+  confirmed: { type: 'booking_status_updated', title: 'Booking Confirmed', body: 'Your booking has been confirmed' },
+  cancelled: { type: 'booking_cancelled', title: 'Booking Cancelled', body: 'Your booking has been cancelled' }
+}
+
+export class BookingNotifications {
+  // Payment went through: the client gets their confirmation and the barber hears about the new booking
+  static async sendConfirmation(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const parties = await this.getParties(booking)
+    const { client, barber, barberName, clientName, serviceName, date, time } = parties
+
+    return NotificationDelivery.sendAll([
+      ...this.buildMessages(booking, client, 'client', {
+        event: 'confirmed',
+        type: 'booking_confirmed',
+        title: 'Booking Confirmed',
+        body: `Your ${serviceName} with ${barberName} is booked for ${date} at ${time}. See you there!`,
+        channels: ['in_app', 'push', 'sms', 'email'],
+        email: bookingConfirmationEmail(this.toEmailData(booking, parties, 'client'))
+      }),
+      ...this.buildMessages(booking, barber, 'barber', {
+        event: 'confirmed',
+        type: 'booking_created',
+        title: 'New Booking',
+        body: `${clientName} booked a ${serviceName} for ${date} at ${time}.`,
+        channels: ['in_app', 'push', 'sms', 'email'],
+        email: bookingConfirmationEmail(this.toEmailData(booking, parties, 'barber'))
+      })
+    ])
+  }
+
+  // The client moved the booking; both sides get the new time and an updated calendar invite
+  static async sendRescheduled(booking: NotifiableBooking, previousDate: string): Promise<DeliveryRecord[]> {
+    const parties = await this.getParties(booking)
+    const { client, barber, serviceName, date, time } = parties
+    // Each move of the same booking is its own event
+    const event = `rescheduled:${booking.reschedule_count ?? 0}`
+
+    return NotificationDelivery.sendAll([
+      ...this.buildMessages(booking, client, 'client', {
+        event,
+        type: 'booking_rescheduled',
+        title: 'Booking Rescheduled',
+        body: `Your ${serviceName} booking has been moved to ${date} at ${time}`,
+        channels: ['in_app', 'push', 'email'],
+        email: bookingRescheduledEmail({ ...this.toEmailData(booking, parties, 'client'), previousStart: previousDate })
+      }),
+      ...this.buildMessages(booking, barber, 'barber', {
+        event,
+        type: 'booking_rescheduled',
+        title: 'Booking Rescheduled',
+        body: `A client moved their ${serviceName} booking to ${date} at ${time}`,
+        channels: ['in_app', 'push', 'email'],
+        email: bookingRescheduledEmail({ ...this.toEmailData(booking, parties, 'barber'), previousStart: previousDate })
+      })
+    ])
+  }
+
+  /**
+   * The other party hears about the cancellation on every channel; whoever cancelled
+   * gets the email only, so the event also leaves their calendar
+   */
+  static async sendCancellation(
+    booking: NotifiableBooking,
+    details: { cancelledBy: EmailAudience; refunded: boolean; feeCents?: number | null }
+  ): Promise<DeliveryRecord[]> {
+    const parties = await this.getParties(booking)
+    const { client, barber, serviceName, date, time } = parties
+    // A cancellation must outrank every invite sent before it
+    const sequence = (booking.reschedule_count ?? 0) + 1
+
+    const bodies: Record<EmailAudience, string> = {
+      client: `Your ${serviceName} booking on ${date} at ${time} was cancelled by the barber${details.refunded ? '. Your booking fee will be refunded.' : ''}`,
+      barber: `A client cancelled their ${serviceName} booking on ${date} at ${time}`
+    }
+
+    const messages = (['client', 'barber'] as const).flatMap(audience =>
+      this.buildMessages(booking, audience === 'client' ? client : barber, audience, {
+        event: 'cancelled',
+        type: 'booking_cancelled',
+        title: 'Booking Cancelled',
+        body: bodies[audience],
+        channels: audience === details.cancelledBy ? ['email'] : ['in_app', 'push', 'email'],
+        email: bookingCancelledEmail({
+          ...this.toEmailData(booking, parties, audience),
+          // Clients are offered the barber's booking page to book again
+          ...(audience === 'client' && parties.barberUsername ? { manageUrl: `${APP_URL}/book/${parties.barberUsername}` } : {}),
+          sequence,
+          ...details
+        })
+      })
+    )
+
+    return NotificationDelivery.sendAll(messages)
+  }
+
+  // Emailed once the booking is paid for: the client gets their receipt and the barber their share of the fee
+  static async sendReceipt(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const parties = await this.getParties(booking)
+
+    const [{ data: services, error: servicesError }, { data: addons, error: addonsError }] = await Promise.all([
+      supabaseAdmin
+        .from('booking_services')
+        .select('name, price')
+        .eq('booking_id', booking.id)
+        .order('position', { ascending: true }),
+      supabaseAdmin
+        .from('booking_addons')
+        .select('price, addon:addon_id(name)')
+        .eq('booking_id', booking.id)
+    ])
+
+    if (servicesError) throw servicesError
+    if (addonsError) throw addonsError
+
+    // The fee as charged, not as the barber's schedule stands today
+    let feeSchedule = DEFAULT_FEE_SCHEDULE
+    if (booking.fee_schedule_id) {
+      const { data: schedule, error: scheduleError } = await supabaseAdmin
+        .from('fee_schedules')
+        .select('*')
+        .eq('id', booking.fee_schedule_id)
+        .single()
+
+      if (scheduleError) throw scheduleError
+      feeSchedule = schedule
+    }
+
+    const serviceItems = (services || []).map(service => ({
+      name: service.name,
+      amountCents: Math.round(Number(service.price) * 100)
+    }))
+    const addonItems = (addons || []).map(addon => ({
+      name: (addon.addon as unknown as { name: string } | null)?.name || 'Add-on',
+      amountCents: Math.round(Number(addon.price) * 100)
+    }))
+
+    const receiptFor = (audience: EmailAudience) => receiptEmail({
+      bookingId: booking.id,
+      audience,
+      recipientName: (audience === 'client' ? parties.client : parties.barber)?.name || 'there',
+      clientName: parties.clientName,
+      barberName: parties.barberName,
+      start: booking.date,
+      timeZone: parties.timeZone,
+      services: serviceItems,
+      addons: addonItems,
+      fees: calculateFeeBreakdown(feeSchedule, serviceItems.reduce((total, item) => total + item.amountCents, 0)),
+      amountPaidCents: Math.round(Number(booking.price || 0) * 100),
+      paidAt: booking.created_at || new Date().toISOString()
+    })
+
+    return NotificationDelivery.sendAll([
+      ...this.buildMessages(booking, parties.client, 'client', {
+        event: 'receipt',
+        type: 'booking_receipt',
+        title: 'Receipt',
+        body: '',
+        channels: ['email'],
+        email: receiptFor('client')
+      }),
+      ...this.buildMessages(booking, parties.barber, 'barber', {
+        event: 'receipt',
+        type: 'booking_receipt',
+        title: 'Receipt',
+        body: '',
+        channels: ['email'],
+        email: receiptFor('barber')
+      })
+    ])
+  }
+
+  // The appointment is done; clients with an account can review the barber from their profile
+  static async sendReviewRequest(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const { client, barberName, serviceName } = await this.getParties(booking)
+    if (!client.userId) return []
+
+    return NotificationDelivery.sendAll(
+      this.buildMessages(booking, client, 'client', {
+        event: 'review_request',
+        type: 'booking_completed',
+        title: 'Appointment Complete',
+        body: `Thanks for visiting! Let your barber know how your ${serviceName} went by leaving a review.`,
+        channels: ['in_app', 'push', 'email'],
+        email: reviewRequestEmail({
+          recipientName: client.name,
+          barberName,
+          serviceName,
+          reviewUrl: `${APP_URL}/profile`
+        })
+      })
+    )
+  }
+
+  // Sent by the reminder scheduler; each claimed reminder reaches each recipient once per channel
+  static async sendReminder(booking: NotifiableBooking, reminder: Pick<BookingReminder, 'id'>): Promise<DeliveryRecord[]> {
+    const { client, barber, barberName, clientName, serviceName, date, time } = await this.getParties(booking)
+
+    return NotificationDelivery.sendAll([
+      ...this.buildMessages(booking, client, 'client', {
+        event: `reminder:${reminder.id}`,
+        type: 'booking_reminder',
+        title: 'Appointment Reminder',
+        body: `Your ${serviceName} with ${barberName} is on ${date} at ${time}. See you soon!`,
+        channels: ['in_app', 'push', 'sms', 'email']
+      }),
+      ...this.buildMessages(booking, barber, 'barber', {
+        event: `reminder:${reminder.id}`,
+        type: 'booking_reminder',
+        title: 'Appointment Reminder',
+        body: `${clientName} is coming in for a ${serviceName} on ${date} at ${time}.`,
+        channels: ['in_app', 'push', 'sms']
+      })
+    ])
+  }
+
+  // A booking request was made before payment; both sides see it in the app and the barber gets a push
+  static async sendRequested(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const { client, barber, date, time } = await this.getParties(booking)
+
+    return NotificationDelivery.sendAll([
+      ...this.buildMessages(booking, barber, 'barber', {
+        event: 'requested',
+        type: 'booking_created',
+        title: 'New Booking',
+        body: `New booking request for ${date} at ${time}`,
+        channels: ['in_app', 'push']
+      }),
+      ...this.buildMessages(booking, client, 'client', {
+        event: 'requested',
+        type: 'booking_created',
+        title: 'Booking Confirmation',
+        body: `Your booking has been created for ${date} at ${time}`,
+        channels: ['in_app']
+      })
+    ])
+  }
+
+  // The card was declined; the client can retry from the booking
+  static async sendPaymentFailed(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const { client, barberName, serviceName } = await this.getParties(booking)
+
+    return NotificationDelivery.sendAll(
+      this.buildMessages(booking, client, 'client', {
+        event: 'payment_failed',
+        type: 'payment_failed',
+        title: 'Payment Failed',
+        body: `Your payment for the ${serviceName} with ${barberName} did not go through. Please try another card.`,
+        channels: ['in_app', 'push']
+      })
+    )
+  }
+
+  // The booking fee came back to the client's card in full
+  static async sendRefunded(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const { client, serviceName, date } = await this.getParties(booking)
+
+    return NotificationDelivery.sendAll(
+      this.buildMessages(booking, client, 'client', {
+        event: 'refunded',
+        type: 'payment_refunded',
+        title: 'Refund Issued',
+        body: `Your payment for the ${serviceName} on ${date} has been refunded.`,
+        channels: ['in_app', 'push']
+      })
+    )
+  }
+
+  // Tells the client about the booking's current status
+  static async sendStatusUpdate(booking: NotifiableBooking): Promise<DeliveryRecord[]> {
+    const status = booking.status || 'updated'
+    const { client } = await this.getParties(booking)
+    const message = STATUS_MESSAGES[status] || {
+      type: 'booking_status_updated',
+      title: 'Booking Status Updated',
+      body: `Your booking status has been updated to ${status}`
+    }
+
+    return NotificationDelivery.sendAll(
+      this.buildMessages(booking, client, 'client', {
+        event: `status_${status}`,
+        ...message,
+        channels: ['in_app', 'push']
+      })
+    )
+  }
+
+  private static async getParties(booking: NotifiableBooking) {
+    const userIds = [booking.client_id, booking.barber?.user_id].filter((id): id is string => !!id)
+    const [{ data, error }, pushTokens] = await Promise.all([
+      supabaseAdmin
+        .from('profiles')
+        .select('id, name, username, location, email, phone, sms_notifications')
+        .in('id', userIds),
+      PushTokens.getForUsers(userIds)
+    ])
+
+    if (error) throw error
+
+    const profiles = (data || []) as ContactProfile[]
+    const clientProfile = profiles.find(profile => profile.id === booking.client_id)
+    const barberProfile = profiles.find(profile => profile.id === booking.barber?.user_id)
+
+    // Render in the barber's timezone; the server's own timezone is meaningless to both parties
+    const timeZone = booking.barber?.timezone || DEFAULT_BARBER_TIMEZONE
+
+    return {
+      // Guests only gave an email address at checkout
+      client: clientProfile
+        ? this.toRecipient(clientProfile, pushTokens.get(clientProfile.id) || [])
+        : {
+            userId: null,
+            name: booking.guest_name || 'there',
+            email: booking.guest_email || null,
+            phone: null,
+            pushTokens: [],
+            smsConsent: false
+          },
+      barber: barberProfile ? this.toRecipient(barberProfile, pushTokens.get(barberProfile.id) || []) : null,
+      clientName: clientProfile?.name || booking.guest_name || 'Guest',
+      barberName: barberProfile?.name || 'your barber',
+      barberUsername: barberProfile?.username || null,
+      location: barberProfile?.location || null,
+      serviceName: booking.service?.name || 'appointment',
+      timeZone,
+      date: formatDateInZone(booking.date, timeZone),
+      time: formatTimeInZone(booking.date, timeZone)
+    }
+  }
+
+  private static toRecipient(profile: ContactProfile, pushTokens: string[]): Recipient {
+    return {
+      userId: profile.id,
+      name: profile.name || 'there',
+      email: profile.email,
+      phone: profile.phone,
+      pushTokens,
+      smsConsent: profile.sms_notifications === true
+    }
+  }
+
+  private static toEmailData(booking: NotifiableBooking, parties: BookingParties, audience: EmailAudience): BookingEmailData {
+    const recipient = audience === 'client' ? parties.client : parties.barber
+    const duration = booking.service?.duration || DEFAULT_DURATION_MINUTES
+    const end = booking.end_time || new Date(new Date(booking.date).getTime() + duration * 60000).toISOString()
+    // Guests have no calendar to manage bookings in, so they get the barber's booking page
+    const manageUrl = audience === 'client' && !parties.client.userId && parties.barberUsername
+      ? `${APP_URL}/book/${parties.barberUsername}`
+      : `${APP_URL}/calendar`
+
+    return {
+      bookingId: booking.id,
+      audience,
+      recipientName: recipient?.name || 'there',
+      clientName: parties.clientName,
+      barberName: parties.barberName,
+      serviceName: parties.serviceName,
+      start: booking.date,
+      end,
+      timeZone: parties.timeZone,
+      location: parties.location,
+      manageUrl,
+      sequence: booking.reschedule_count ?? 0
+    }
+  }
+
+  /**
+   * One message per channel the recipient can be reached on, and one push per device;
+   * NotificationDelivery applies their preferences
+   */
+  private static buildMessages(
+    booking: NotifiableBooking,
+    recipient: Recipient | null,
+    role: 'client' | 'barber',
+    message: BookingMessage
+  ): OutgoingMessage[] {
+    if (!recipient) return []
+
+    const addresses: Record<Exclude<DeliveryChannel, 'push'>, string | null> = {
+      in_app: recipient.userId,
+      sms: recipient.smsConsent ? recipient.phone : null,
+      email: recipient.email
+    }
+
+    return message.channels.flatMap((channel): OutgoingMessage[] => {
+      const dedupeKey = `booking:${booking.id}:${message.event}:${role}:${channel}`
+
+      if (channel === 'push') {
+        return recipient.userId
+          ? PushDispatcher.toMessages(recipient.userId, recipient.pushTokens, {
+              type: message.type,
+              title: message.title,
+              body: message.body,
+              data: { bookingId: booking.id },
+              bookingId: booking.id,
+              dedupeKey
+            })
+          : []
+      }
+
+      const to = addresses[channel]
+      if (!to) return []
+
+      const email = channel === 'email' ? message.email : undefined
+      return [{
+        channel,
+        to,
+        recipientId: recipient.userId,
+        type: message.type,
+        title: email ? email.subject : message.title,
+        body: email ? email.text : channel === 'sms' ? `${message.title}\n\n${message.body}` : message.body,
+        html: email?.html,
+        attachments: email?.attachments,
+        bookingId: booking.id,
+        dedupeKey
+      }]
+    })
+  }
+}
@@ -0,0 +1,219 @@
+// Server-only: refunds, policy fee charges and tips for existing bookings through Stripe Connect
+import Stripe from 'stripe'
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { calculateStripeFeeCents } from './fee-calculator'
+import { logger } from './logger'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20' as any,
+})
+
+export interface PaidBooking {
+  id: string
+  payment_intent_id?: string | null
+}
+
+export interface PolicyFeeResult {
+  status: 'succeeded' | 'pending' | 'failed'
+  paymentIntentId?: string
+  error?: string
+}
+
+export interface TipCharge {
+  status: 'succeeded' | 'pending' | 'failed'
+  paymentIntentId?: string
+  clientSecret?: string | null // Set when the client pays with a new card
+  error?: string
+}
+
+export class BookingPaymentService {
+  // Refunds the platform fee paid at booking, and any deposit or prepayment taken with it,
+  // pulling the barber's share back from their Connect account. The charge.refunded
+  // webhook marks the booking as refunded.
+  // amountCents refunds part of a payment shared by a group booking; omit it to refund it all.
+  static async refundPlatformFee(booking: PaidBooking, reason: string, amountCents?: number): Promise<Stripe.Refund | null> {
+    if (!booking.payment_intent_id) {
+      return null
+    }
+
+    try {
+      return await stripe.refunds.create(
+        {
+          payment_intent: booking.payment_intent_id,
+          amount: amountCents,
+          reverse_transfer: true,
+          refund_application_fee: true,
+          metadata: { bookingId: booking.id, reason },
+        },
+        { idempotencyKey: `booking-refund-${booking.id}` }
+      )
+    } catch (error) {
+      logger.error('Error refunding platform fee', error)
+      throw error
+    }
+  }
+
+  // Charges a late cancellation or no-show fee to the card saved with the booking payment.
+  // The fee goes to the barber's Connect account; the platform keeps only the Stripe fee.
+  static async chargePolicyFee(
+    booking: PaidBooking,
+    barberStripeAccountId: string | null | undefined,
+    amount: number,
+    reason: 'late_cancellation' | 'no_show'
+  ): Promise<PolicyFeeResult> {
+    const amountCents = Math.round(amount * 100)
+
+    const recordResult = async (result: PolicyFeeResult) => {
+      const { error } = await supabaseAdmin
+        .from('bookings')
+        .update({
+          policy_fee: amount,
+          policy_fee_status: result.status,
+          policy_fee_payment_intent_id: result.paymentIntentId || null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', booking.id)
+
+      if (error) {
+        logger.error('Error recording policy fee', error)
+      }
+      return result
+    }
+
+    if (!booking.payment_intent_id || !barberStripeAccountId) {
+      return recordResult({ status: 'failed', error: 'No saved payment method for this booking' })
+    }
+
+    try {
+      const original = await stripe.paymentIntents.retrieve(booking.payment_intent_id)
+      const customerId = typeof original.customer === 'string' ? original.customer : original.customer?.id
+      const paymentMethodId = typeof original.payment_method === 'string' ? original.payment_method : original.payment_method?.id
+
+      if (!customerId || !paymentMethodId) {
+        return recordResult({ status: 'failed', error: 'No saved payment method for this booking' })
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create(
+        {
+          amount: amountCents,
+          currency: original.currency || 'usd',
+          customer: customerId,
+          payment_method: paymentMethodId,
+          off_session: true,
+          confirm: true,
+          application_fee_amount: Math.min(calculateStripeFeeCents(amountCents), amountCents),
+          transfer_data: {
+            destination: barberStripeAccountId,
+          },
+          metadata: {
+            bookingId: booking.id,
+            type: 'policy_fee',
+            reason,
+          },
+        },
+        { idempotencyKey: `policy-fee-${booking.id}` }
+      )
+
+      return recordResult({
+        status: paymentIntent.status === 'succeeded' ? 'succeeded' : 'pending',
+        paymentIntentId: paymentIntent.id,
+      })
+    } catch (error) {
+      // Declines and authentication requests come back as card errors with the failed intent attached
+      if (error instanceof Stripe.errors.StripeCardError) {
+        logger.error('Policy fee charge declined', error)
+        return recordResult({
+          status: 'failed',
+          paymentIntentId: error.payment_intent?.id,
+          error: error.message,
+        })
+      }
+
+      logger.error('Error charging policy fee', error)
+      return recordResult({ status: 'failed', error: 'Failed to charge the fee' })
+    }
+  }
+
+  // Tips go to the barber's Connect account in full, with no application fee.
+  // With a saved card the tip is charged straight away, off session, to the card saved with
+  // the booking payment; otherwise the client confirms the returned intent with a new card.
+  // The payment_intent webhooks settle the booking's tip_status either way.
+  static async chargeTip(
+    booking: PaidBooking,
+    barberStripeAccountId: string,
+    amountCents: number,
+    options: { useSavedCard: boolean; customerId?: string | null }
+  ): Promise<TipCharge> {
+    const metadata = { bookingId: booking.id, type: 'tip' }
+
+    if (!options.useSavedCard) {
+      try {
+        const paymentIntent = await stripe.paymentIntents.create({
+          amount: amountCents,
+          currency: 'usd',
+          customer: options.customerId || undefined,
+          transfer_data: {
+            destination: barberStripeAccountId,
+          },
+          metadata,
+        })
+
+        return { status: 'pending', paymentIntentId: paymentIntent.id, clientSecret: paymentIntent.client_secret }
+      } catch (error) {
+        logger.error('Error starting tip payment', error)
+        return { status: 'failed', error: 'Failed to start the tip payment' }
+      }
+    }
+
+    if (!booking.payment_intent_id) {
+      return { status: 'failed', error: 'No saved payment method for this booking' }
+    }
+
+    try {
+      const original = await stripe.paymentIntents.retrieve(booking.payment_intent_id)
+      const customerId = typeof original.customer === 'string' ? original.customer : original.customer?.id
+      const paymentMethodId = typeof original.payment_method === 'string' ? original.payment_method : original.payment_method?.id
+
+      if (!customerId || !paymentMethodId) {
+        return { status: 'failed', error: 'No saved payment method for this booking' }
+      }
+
+      const paymentIntent = await stripe.paymentIntents.create({
+        amount: amountCents,
+        currency: original.currency || 'usd',
+        customer: customerId,
+        payment_method: paymentMethodId,
+        off_session: true,
+        confirm: true,
+        transfer_data: {
+          destination: barberStripeAccountId,
+        },
+        metadata,
+      })
+
+      return {
+        status: paymentIntent.status === 'succeeded' ? 'succeeded' : 'pending',
+        paymentIntentId: paymentIntent.id,
+      }
+    } catch (error) {
+      if (error instanceof Stripe.errors.StripeCardError) {
+        logger.error('Tip charge declined', error)
+        return { status: 'failed', paymentIntentId: error.payment_intent?.id, error: error.message }
+      }
+
+      logger.error('Error charging tip', error)
+      return { status: 'failed', error: 'Failed to charge the tip' }
+    }
+  }
+
+  // A tip started with a new card that the client never paid is dropped before they try again
+  static async cancelUnpaidTip(paymentIntentId: string): Promise<boolean> {
+    const paymentIntent = await stripe.paymentIntents.retrieve(paymentIntentId)
+    if (!['requires_payment_method', 'requires_confirmation', 'requires_action'].includes(paymentIntent.status)) {
+      return false
+    }
+
+    await stripe.paymentIntents.cancel(paymentIntentId)
+    return true
+  }
+}
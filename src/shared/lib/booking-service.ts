@@ -1,8 +1,11 @@
 import { supabase } from '@/shared/lib/supabase';
-import { NotificationService } from './notification-service';
 import { Booking, BookingStatus, PaymentStatus } from '../types';
 import { reportApiError } from '@/shared/utils/error-reporter';
 import { logger } from './logger';
+import { CancellationPolicy, getCancellationPolicy } from './cancellation-policy';
+import { RecurrenceRule } from './recurrence-rule';
+import { BookingSeries, SeriesChangeResult, SeriesScope } from '../types/booking-series';
+import { BarberLifecycleMetrics, Booking as BookingRecord, TipStatus } from '../types/booking';
 
 export interface CreateBookingInput extends Omit<Booking, 'id' | 'created_at' | 'updated_at'> {
   payment_intent_id: string;
@@ -10,6 +13,20 @@ export interface CreateBookingInput extends Omit<Booking, 'id' | 'created_at' |
   barber_payout?: number;
 }
 
+export interface CancelBookingResult {
+  booking: Booking;
+  refunded: boolean;
+  fee: { amount: number; status: 'succeeded' | 'pending' | 'failed'; error?: string } | null;
+}
+
+export interface CreateSeriesInput extends RecurrenceRule {
+  serviceId: string;
+  guestName: string;
+  guestEmail?: string;
+  guestPhone?: string;
+  notes?: string;
+}
+
 export class BookingService {
   static async createBooking(booking: CreateBookingInput): Promise<Booking> {
     try {
@@ -86,25 +103,7 @@ export class BookingService {
         throw error;
       }
 
-      // Create notification for the barber
-      await NotificationService.createNotification({
-        user_id: booking.barber_id,
-        title: 'New Booking',
-        message: `New booking request for ${new Date(booking.date).toLocaleDateString()} at ${new Date(booking.date).toLocaleTimeString()}`,
-        type: 'booking_created',
-        booking_id: data.id
-      });
-
-      // Create notification for the client if it's a registered user
-      if (booking.client_id) {
-        await NotificationService.createNotification({
-          user_id: booking.client_id,
-          title: 'Booking Confirmation',
-          message: `Your booking has been created for ${new Date(booking.date).toLocaleDateString()} at ${new Date(booking.date).toLocaleTimeString()}`,
-          type: 'booking_created',
-          booking_id: data.id
-        });
-      }
+      await this.sendNotifications(data.id, 'requested');
 
       return data;
     } catch (error) {
@@ -135,22 +134,9 @@ export class BookingService {
         throw error;
       }
 
-      // Create notification for status change
-      const notificationTitle = updates.status === 'confirmed' ? 'Booking Confirmed' : 
-                              updates.status === 'cancelled' ? 'Booking Cancelled' : 
-                              'Booking Status Updated';
-      
-      const notificationMessage = updates.status === 'confirmed' ? 'Your booking has been confirmed' :
-                                updates.status === 'cancelled' ? 'Your booking has been cancelled' :
-                                `Your booking status has been updated to ${updates.status}`;
-
-      await NotificationService.createNotification({
-        user_id: data.client_id,
-        title: notificationTitle,
-        message: notificationMessage,
-        type: 'booking_status_updated',
-        booking_id: data.id
-      });
+      if (updates.status) {
+        await this.sendNotifications(data.id, 'status_updated');
+      }
 
       return data;
     } catch (error) {
@@ -162,7 +148,7 @@ export class BookingService {
   static async getBooking(id: string): Promise<Booking> {
     const { data, error } = await supabase
       .from('bookings')
-      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*), booking_services(*)')
       .eq('id', id)
       .single();
 
@@ -173,7 +159,7 @@ export class BookingService {
   static async getBarberBookings(barberId: string): Promise<Booking[]> {
     const { data, error } = await supabase
       .from('bookings')
-      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*), booking_services(*)')
       .eq('barber_id', barberId)
       .order('date', { ascending: true });
 
@@ -184,7 +170,7 @@ export class BookingService {
   static async getClientBookings(clientId: string): Promise<Booking[]> {
     const { data, error } = await supabase
       .from('bookings')
-      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+      .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*), booking_services(*)')
       .eq('client_id', clientId)
       .order('date', { ascending: true });
 
@@ -192,12 +178,192 @@ export class BookingService {
     return data;
   }
 
-  static async cancelBooking(id: string): Promise<Booking> {
-    return this.updateBooking(id, { status: 'cancelled' as BookingStatus });
+  // Cancels through the cancellation API, which refunds the platform fee or charges the
+  // barber's late cancellation fee according to their cancellation policy.
+  static async cancelBooking(id: string): Promise<CancelBookingResult> {
+    return this.postBookingAction('/api/bookings/cancel', id, 'Failed to cancel booking');
+  }
+
+  // Barber-only: marks a started booking as a no-show and charges the barber's no-show fee.
+  static async markNoShow(id: string): Promise<CancelBookingResult> {
+    return this.postBookingAction('/api/bookings/no-show', id, 'Failed to mark booking as a no-show');
+  }
+
+  static async getCancellationPolicy(barberId: string): Promise<CancellationPolicy> {
+    const { data, error } = await supabase
+      .rpc('get_cancellation_policy', { p_barber_id: barberId })
+      .maybeSingle();
+
+    if (error) {
+      logger.error('Error fetching cancellation policy', error);
+      throw error;
+    }
+    return getCancellationPolicy(data as { cancellation_window_hours: number; no_show_fee: number } | null);
+  }
+
+  private static async postBookingAction(path: string, id: string, failureMessage: string): Promise<CancelBookingResult> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('You must be signed in to update a booking');
+      }
+
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ bookingId: id })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || failureMessage);
+      }
+
+      return { refunded: false, ...result };
+    } catch (error) {
+      logger.error(failureMessage, error);
+      throw error;
+    }
+  }
+
+  // Moves a booking to a new start time through the reschedule API, which enforces the
+  // barber's reschedule policy and keeps the original payment on the booking.
+  static async rescheduleBooking(id: string, newDate: string): Promise<Booking> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('You must be signed in to reschedule a booking');
+      }
+
+      const response = await fetch('/api/bookings/reschedule', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ bookingId: id, newDate })
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to reschedule booking');
+      }
+
+      return result.booking;
+    } catch (error) {
+      logger.error('Error rescheduling booking', error);
+      throw error;
+    }
+  }
+
+  // Barber-only: creates a recurring series and books every occurrence the schedule allows.
+  // Occurrences that conflict are skipped and returned in `skipped`.
+  static async createSeries(input: CreateSeriesInput): Promise<SeriesChangeResult & { series: BookingSeries }> {
+    return this.postAction('/api/bookings/series', input, 'Failed to create recurring appointments');
+  }
+
+  static async cancelSeries(id: string, scope: SeriesScope): Promise<{ bookings: Booking[] }> {
+    return this.postAction('/api/bookings/series/cancel', { bookingId: id, scope }, 'Failed to cancel recurring appointments');
+  }
+
+  // Barber-only: moves the booking to newStart; 'following' and 'all' move the rest of the series with it
+  static async updateSeries(id: string, scope: SeriesScope, newStart: string): Promise<SeriesChangeResult> {
+    return this.postAction('/api/bookings/series/update', { bookingId: id, scope, newStart }, 'Failed to update recurring appointments');
   }
 
-  static async completeBooking(id: string): Promise<Booking> {
-    return this.updateBooking(id, { status: 'completed' as BookingStatus });
+  // Cancels every upcoming appointment in a group booking together
+  static async cancelGroup(groupId: string): Promise<Omit<CancelBookingResult, 'booking'> & { bookings: Booking[] }> {
+    return this.postAction('/api/bookings/group/cancel', { groupId }, 'Failed to cancel group booking');
+  }
+
+  private static async postAction<T>(path: string, body: object, failureMessage: string): Promise<T> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('You must be signed in to update a booking');
+      }
+
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify(body)
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || failureMessage);
+      }
+
+      return result;
+    } catch (error) {
+      logger.error(failureMessage, error);
+      throw error;
+    }
+  }
+
+  // Messages are sent by the server through the notification delivery layer; a booking
+  // change stands even if its notifications fail
+  private static async sendNotifications(id: string, event: 'requested' | 'status_updated'): Promise<void> {
+    try {
+      await this.postAction('/api/bookings/notify', { bookingId: id, event }, 'Failed to send booking notifications');
+    } catch {
+      // Logged by postAction
+    }
+  }
+
+  // Checks the client in from the booking; the barber can also check in a client at the chair
+  static async checkIn(id: string): Promise<BookingRecord> {
+    const { booking } = await this.postAction<{ booking: BookingRecord }>('/api/bookings/check-in', { bookingId: id }, 'Failed to check in');
+    return booking;
+  }
+
+  // Checks the signed-in client in to their appointment with the barber whose QR code they scanned
+  static async checkInWithCode(checkInCode: string): Promise<BookingRecord> {
+    const { booking } = await this.postAction<{ booking: BookingRecord }>('/api/bookings/check-in', { checkInCode }, 'Failed to check in');
+    return booking;
+  }
+
+  // Barber-only: the client is in the chair
+  static async startService(id: string): Promise<BookingRecord> {
+    const { booking } = await this.postAction<{ booking: BookingRecord }>('/api/bookings/start', { bookingId: id }, 'Failed to start appointment');
+    return booking;
+  }
+
+  // Barber-only: timestamps the completion so service time feeds the barber's metrics
+  static async completeBooking(id: string): Promise<BookingRecord> {
+    const { booking } = await this.postAction<{ booking: BookingRecord }>('/api/bookings/complete', { bookingId: id }, 'Failed to complete appointment');
+    return booking;
+  }
+
+  // Client-only: tips the barber after a completed appointment. A new card comes back with a
+  // client secret to confirm; a saved card is charged straight away
+  static async tipBooking(id: string, amountCents: number, useSavedCard: boolean): Promise<{ status: TipStatus; clientSecret: string | null }> {
+    return this.postAction('/api/bookings/tip', { bookingId: id, amountCents, useSavedCard }, 'Failed to send the tip');
+  }
+
+  // Client-only: "No thanks" on the tip prompt
+  static async declineTip(id: string): Promise<boolean> {
+    const { declined } = await this.postAction<{ declined: boolean }>('/api/bookings/tip/decline', { bookingId: id }, 'Failed to update the booking');
+    return declined;
+  }
+
+  // Punctuality and average service time over the barber's appointments since `since`
+  static async getLifecycleMetrics(barberId: string, since: Date): Promise<BarberLifecycleMetrics> {
+    const { data, error } = await supabase
+      .rpc('get_barber_lifecycle_metrics', { p_barber_id: barberId, p_since: since.toISOString() })
+      .single();
+
+    if (error) {
+      logger.error('Error fetching appointment metrics', error);
+      throw error;
+    }
+    return data as BarberLifecycleMetrics;
   }
 
   static async updatePaymentStatus(id: string, status: PaymentStatus): Promise<Booking> {
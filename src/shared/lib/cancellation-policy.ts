@@ -0,0 +1,108 @@
+// Cancellation and no-show policy checks shared by the booking APIs and the booking UIs
+import { BookingRestrictions } from '@/shared/types/booking-restrictions'
+
+export interface CancellationPolicy {
+  windowHours: number // Client cancellations within this many hours of the start are late
+  noShowFee: number // Dollars, charged for late cancellations and no-shows; 0 disables
+}
+
+// Matches the booking_restrictions column defaults
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  windowHours: 24,
+  noShowFee: 0
+}
+
+export type CancellationParty = 'client' | 'barber'
+
+export type CancellationOutcome =
+  | { type: 'refund' } // Refund the platform fee paid at booking
+  | { type: 'fee'; amount: number } // Charge the policy fee to the saved card
+  | { type: 'none' }
+
+const CANCELLABLE_STATUSES = ['pending', 'confirmed']
+
+export function getCancellationPolicy(
+  restrictions?: Pick<BookingRestrictions, 'cancellation_window_hours' | 'no_show_fee'> | null
+): CancellationPolicy {
+  return {
+    windowHours: restrictions?.cancellation_window_hours ?? DEFAULT_CANCELLATION_POLICY.windowHours,
+    noShowFee: Number(restrictions?.no_show_fee ?? DEFAULT_CANCELLATION_POLICY.noShowFee)
+  }
+}
+
+export function isLateCancellation(
+  booking: { date: string },
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): boolean {
+  const hoursUntilStart = (new Date(booking.date).getTime() - now.getTime()) / (60 * 60 * 1000)
+  return hoursUntilStart < policy.windowHours
+}
+
+/**
+ * Whether the booking can be cancelled at all
+ * Returns null when allowed, otherwise the reason shown to the user
+ */
+export function getCancellationBlocker(
+  booking: { date: string; status: string },
+  now: Date = new Date()
+): string | null {
+  if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming bookings can be cancelled'
+  }
+
+  if (new Date(booking.date) <= now) {
+    return 'This appointment has already started'
+  }
+
+  return null
+}
+
+/**
+ * Whether the barber can mark the booking as a no-show
+ * Returns null when allowed, otherwise the reason shown to the barber
+ */
+export function getNoShowBlocker(
+  booking: { date: string; status: string; checked_in_at?: string | null },
+  now: Date = new Date()
+): string | null {
+  if (!CANCELLABLE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming bookings can be marked as a no-show'
+  }
+
+  if (booking.checked_in_at) {
+    return 'This client has checked in'
+  }
+
+  if (new Date(booking.date) > now) {
+    return 'A booking can only be marked as a no-show after it starts'
+  }
+
+  return null
+}
+
+/**
+ * What happens to the money when a booking is cancelled
+ * The barber cancelling, or the client cancelling before the window, refunds the platform fee;
+ * a late client cancellation keeps the fee and charges the barber's no-show fee on top
+ */
+export function getCancellationOutcome(
+  booking: { date: string; payment_status?: string | null },
+  policy: CancellationPolicy,
+  cancelledBy: CancellationParty,
+  now: Date = new Date()
+): CancellationOutcome {
+  if (cancelledBy === 'barber' || !isLateCancellation(booking, policy, now)) {
+    return booking.payment_status === 'succeeded' ? { type: 'refund' } : { type: 'none' }
+  }
+
+  return policy.noShowFee > 0 ? { type: 'fee', amount: policy.noShowFee } : { type: 'none' }
+}
+
+export function describeCancellationPolicy(policy: CancellationPolicy): string {
+  const window = `${policy.windowHours} hour${policy.windowHours === 1 ? '' : 's'}`
+  if (policy.noShowFee > 0) {
+    return `Cancel at least ${window} before your appointment for a refund of the booking fee. Late cancellations and no-shows are charged $${policy.noShowFee.toFixed(2)}.`
+  }
+  return `Cancel at least ${window} before your appointment for a refund of the booking fee.`
+}
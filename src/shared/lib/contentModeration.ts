@@ -37,53 +37,106 @@ const AGGRESSIVE_WORDS = [
   'worthless', 'pathetic', 'ridiculous', 'stupid', 'idiot', 'moron'
 ];
 
+// What validateContent allows for one kind of text
+export interface ContentRules {
+  label: string; // shown in the issues, e.g. "Review"
+  minLength: number;
+  maxLength: number;
+  minWords: number;
+  checkTone: boolean; // caps, punctuation, repetition and negative language
+  wholeWords: boolean; // match explicit keywords as whole words only, so "hello" is not "hell"
+}
+
+export const REVIEW_RULES: ContentRules = {
+  label: 'Review',
+  minLength: 10,
+  maxLength: 500,
+  minWords: 3,
+  checkTone: true,
+  wholeWords: false
+};
+
+// Direct messages are short and casual ("ok!!", "OMW"), so only language and length are checked
+export const MESSAGE_RULES: ContentRules = {
+  label: 'Message',
+  minLength: 1,
+  maxLength: 1000,
+  minWords: 0,
+  checkTone: false,
+  wholeWords: true
+};
+
+// Job posts are public, so they need enough detail to apply on; tone is the poster's business
+export const JOB_POST_RULES: ContentRules = {
+  label: 'Job description',
+  minLength: 20,
+  maxLength: 5000,
+  minWords: 5,
+  checkTone: false,
+  wholeWords: true
+};
+
+export const COVER_LETTER_RULES: ContentRules = {
+  label: 'Cover letter',
+  minLength: 0,
+  maxLength: 2000,
+  minWords: 0,
+  checkTone: false,
+  wholeWords: true
+};
+
 // Client-side content validation
-export function validateContent(text: string): ContentValidation {
+export function validateContent(text: string, rules: ContentRules = REVIEW_RULES): ContentValidation {
   const issues: string[] = [];
   const suggestions: string[] = [];
+  const noun = rules.label.toLowerCase();
   
   // Check length
-  if (text.length < 10) {
-    issues.push('Review must be at least 10 characters long');
+  if (text.length < rules.minLength) {
+    issues.push(`${rules.label} must be at least ${rules.minLength} characters long`);
     suggestions.push('Please provide more details about your experience');
   }
-  if (text.length > 500) {
-    issues.push('Review must be less than 500 characters');
-    suggestions.push('Please keep your review concise');
+  if (text.length > rules.maxLength) {
+    issues.push(`${rules.label} must be less than ${rules.maxLength} characters`);
+    suggestions.push(`Please keep your ${noun} concise`);
   }
 
   // Check for explicit keywords
   const lowerText = text.toLowerCase();
-  const foundExplicit = EXPLICIT_KEYWORDS.filter(word => lowerText.includes(word));
+  const foundExplicit = EXPLICIT_KEYWORDS.filter(word =>
+    rules.wholeWords ? new RegExp(`\\b${word}\\b`).test(lowerText) : lowerText.includes(word)
+  );
   if (foundExplicit.length > 0) {
     issues.push(`Contains inappropriate language`);
-    suggestions.push('Please use respectful language in your review');
+    suggestions.push(`Please use respectful language in your ${noun}`);
   }
 
-  // Check for spam patterns
-  const spamFound = SPAM_PATTERNS.some(pattern => pattern.test(text));
-  if (spamFound) {
-    issues.push('Contains spam-like patterns (excessive caps, punctuation)');
-    suggestions.push('Please write your review in a natural, respectful tone');
-  }
+  if (rules.checkTone) {
+    // Check for spam patterns
+    const spamFound = SPAM_PATTERNS.some(pattern => pattern.test(text));
+    if (spamFound) {
+      issues.push('Contains spam-like patterns (excessive caps, punctuation)');
+      suggestions.push(`Please write your ${noun} in a natural, respectful tone`);
+    }
 
-  // Check for repetitive characters
-  if (/(.)\1{4,}/.test(text)) {
-    issues.push('Contains too many repetitive characters');
-    suggestions.push('Please avoid excessive repetition');
-  }
+    // Check for repetitive characters
+    if (/(.)\1{4,}/.test(text)) {
+      issues.push('Contains too many repetitive characters');
+      suggestions.push('Please avoid excessive repetition');
+    }
 
-  // Check for aggressive language
-  const aggressiveCount = AGGRESSIVE_WORDS.filter(word => lowerText.includes(word)).length;
-  if (aggressiveCount > 2) {
-    issues.push('Contains overly negative language');
-    suggestions.push('Please provide constructive feedback');
+    // Check for aggressive language
+    const aggressiveCount = AGGRESSIVE_WORDS.filter(word => lowerText.includes(word)).length;
+    if (aggressiveCount > 2) {
+      issues.push('Contains overly negative language');
+      suggestions.push('Please provide constructive feedback');
+    }
   }
 
   // Check for minimum meaningful content
   const words = text.trim().split(/\s+/).filter(word => word.length > 0);
-  if (words.length < 3) {
-    issues.push('Review is too short');
+  if (words.length < rules.minWords) {
+    issues.push(`${rules.label} is too short`);
     suggestions.push('Please provide more details about your experience');
   }
 
@@ -0,0 +1,355 @@
+// Transactional emails, rendered from typed data as HTML with a plain-text twin
+import { buildBookingIcs } from '@/shared/lib/booking-ics'
+import { STRIPE_PERCENT_FEE } from '@/shared/lib/fee-calculator'
+import { formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import type {
+  AuthLinkEmailData,
+  BookingCancelledEmailData,
+  BookingEmailData,
+  BookingRescheduledEmailData,
+  CallInviteEmailData,
+  GiftReceivedEmailData,
+  ReceiptEmailData,
+  ReceiptLineItem,
+  RenderedEmail,
+  ReviewRequestEmailData
+} from '@/shared/types/email-templates'
+import type { EmailAttachment } from '@/shared/types/notification-delivery'
+
+const BRAND_NAME = 'BOCM'
+const BRAND_COLOR = '#c98f42'
+const SUPPORT_EMAIL = 'primbocm@gmail.com'
+
+// A label and value shown in the details table and as "Label: value" in plain text
+type DetailRow = [label: string, value: string]
+
+interface EmailContent {
+  subject: string
+  preheader: string // the preview line most inboxes show after the subject
+  heading: string
+  paragraphs: string[]
+  details?: DetailRow[]
+  action?: { label: string; url: string }
+  footnote?: string
+  attachments?: EmailAttachment[]
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+// 1250 -> "$12.50"; negative amounts are deductions
+export function formatCents(cents: number): string {
+  const dollars = `$${(Math.abs(cents) / 100).toFixed(2)}`
+  return cents < 0 ? `-${dollars}` : dollars
+}
+
+function formatWhen(date: string, timeZone: string): string {
+  return `${formatDateInZone(date, timeZone)} at ${formatTimeInZone(date, timeZone)}`
+}
+
+function render(content: EmailContent): RenderedEmail {
+  const detailsHtml = content.details?.length
+    ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:24px 0;border-collapse:collapse;">${
+        content.details.map(([label, value]) => `
+          <tr>
+            <td style="padding:8px 0;border-bottom:1px solid #eeeeee;color:#666666;">${escapeHtml(label)}</td>
+            <td style="padding:8px 0;border-bottom:1px solid #eeeeee;text-align:right;font-weight:600;">${escapeHtml(value)}</td>
+          </tr>`).join('')
+      }</table>`
+    : ''
+
+  const actionHtml = content.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:12px 24px;background:${BRAND_COLOR};color:#ffffff;text-decoration:none;border-radius:8px;font-weight:600;">${escapeHtml(content.action.label)}</a></p>`
+    : ''
+
+  const html = `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(content.subject)}</title>
+  </head>
+  <body style="margin:0;padding:0;background:#f5f5f5;font-family:Helvetica,Arial,sans-serif;color:#222222;">
+    <span style="display:none;max-height:0;overflow:hidden;">${escapeHtml(content.preheader)}</span>
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+      <tr>
+        <td align="center" style="padding:24px 12px;">
+          <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;">
+            <tr>
+              <td style="padding:24px 32px;background:#111111;border-radius:12px 12px 0 0;color:${BRAND_COLOR};font-size:20px;font-weight:700;letter-spacing:2px;">${BRAND_NAME}</td>
+            </tr>
+            <tr>
+              <td style="padding:32px;">
+                <h1 style="margin:0 0 16px;font-size:22px;">${escapeHtml(content.heading)}</h1>
+                ${content.paragraphs.map(paragraph => `<p style="margin:0 0 12px;line-height:1.5;">${escapeHtml(paragraph)}</p>`).join('\n                ')}
+                ${detailsHtml}
+                ${actionHtml}
+                ${content.footnote ? `<p style="margin:24px 0 0;font-size:13px;color:#888888;line-height:1.5;">${escapeHtml(content.footnote)}</p>` : ''}
+              </td>
+            </tr>
+          </table>
+          <p style="margin:16px 0 0;font-size:12px;color:#999999;">Questions? Reply to this email or write to ${SUPPORT_EMAIL}.</p>
+        </td>
+      </tr>
+    </table>
+  </body>
+</html>`
+
+  const text = [
+    content.heading,
+    '',
+    ...content.paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(content.details?.length ? [...content.details.map(([label, value]) => `${label}: ${value}`), ''] : []),
+    ...(content.action ? [`${content.action.label}: ${content.action.url}`, ''] : []),
+    ...(content.footnote ? [content.footnote, ''] : []),
+    `Questions? Reply to this email or write to ${SUPPORT_EMAIL}.`
+  ].join('\n')
+
+  return {
+    subject: content.subject,
+    html,
+    text,
+    ...(content.attachments ? { attachments: content.attachments } : {})
+  }
+}
+
+function bookingDetails(data: BookingEmailData): DetailRow[] {
+  return [
+    ['Service', data.serviceName],
+    [data.audience === 'client' ? 'Barber' : 'Client', data.audience === 'client' ? data.barberName : data.clientName],
+    ['When', formatWhen(data.start, data.timeZone)],
+    ...(data.location ? [['Where', data.location] as DetailRow] : [])
+  ]
+}
+
+function calendarInvite(data: BookingEmailData, cancelled = false): EmailAttachment {
+  const withWhom = data.audience === 'client' ? data.barberName : data.clientName
+  return {
+    filename: cancelled ? 'cancelled.ics' : 'invite.ics',
+    contentType: `text/calendar; charset=utf-8; method=${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    content: buildBookingIcs({
+      bookingId: data.bookingId,
+      start: data.start,
+      end: data.end,
+      summary: `${data.serviceName} with ${withWhom}`,
+      description: cancelled ? 'This booking was cancelled.' : `Manage your booking: ${data.manageUrl}`,
+      location: data.location,
+      sequence: data.sequence,
+      cancelled
+    })
+  }
+}
+
+export function bookingConfirmationEmail(data: BookingEmailData): RenderedEmail {
+  const when = formatWhen(data.start, data.timeZone)
+  const isClient = data.audience === 'client'
+
+  return render({
+    subject: isClient
+      ? `You're booked with ${data.barberName} on ${formatDateInZone(data.start, data.timeZone)}`
+      : `New booking: ${data.clientName} on ${formatDateInZone(data.start, data.timeZone)}`,
+    preheader: `${data.serviceName} on ${when}`,
+    heading: isClient ? 'Your booking is confirmed' : 'You have a new booking',
+    paragraphs: [
+      `Hi ${data.recipientName},`,
+      isClient
+        ? `Your ${data.serviceName} with ${data.barberName} is booked for ${when}. The attached invite adds it to your calendar.`
+        : `${data.clientName} booked a ${data.serviceName} for ${when}. The attached invite adds it to your calendar.`
+    ],
+    details: bookingDetails(data),
+    action: { label: 'View booking', url: data.manageUrl },
+    attachments: [calendarInvite(data)]
+  })
+}
+
+export function bookingRescheduledEmail(data: BookingRescheduledEmailData): RenderedEmail {
+  const when = formatWhen(data.start, data.timeZone)
+  const isClient = data.audience === 'client'
+
+  return render({
+    subject: `Booking moved to ${formatDateInZone(data.start, data.timeZone)}`,
+    preheader: `Now ${when}`,
+    heading: 'Your booking has been rescheduled',
+    paragraphs: [
+      `Hi ${data.recipientName},`,
+      isClient
+        ? `Your ${data.serviceName} with ${data.barberName} has moved to ${when}.`
+        : `${data.clientName} moved their ${data.serviceName} to ${when}.`,
+      'Open the attached invite to update the event in your calendar.'
+    ],
+    details: [
+      ...bookingDetails(data),
+      ['Was', formatWhen(data.previousStart, data.timeZone)]
+    ],
+    action: { label: 'View booking', url: data.manageUrl },
+    attachments: [calendarInvite(data)]
+  })
+}
+
+export function bookingCancelledEmail(data: BookingCancelledEmailData): RenderedEmail {
+  const when = formatWhen(data.start, data.timeZone)
+  const isClient = data.audience === 'client'
+  const cancelledByYou = data.cancelledBy === data.audience
+
+  const paragraphs = [
+    `Hi ${data.recipientName},`,
+    cancelledByYou
+      ? `You cancelled the ${data.serviceName} on ${when}.`
+      : isClient
+        ? `${data.barberName} cancelled your ${data.serviceName} on ${when}. We're sorry for the trouble.`
+        : `${data.clientName} cancelled their ${data.serviceName} on ${when}.`
+  ]
+  if (isClient && data.refunded) {
+    paragraphs.push('Your booking fee will be refunded to your card within 5 to 10 business days.')
+  }
+  if (isClient && data.feeCents) {
+    paragraphs.push(`A late cancellation fee of ${formatCents(data.feeCents)} was charged under ${data.barberName}'s cancellation policy.`)
+  }
+
+  return render({
+    subject: `Booking cancelled: ${data.serviceName} on ${formatDateInZone(data.start, data.timeZone)}`,
+    preheader: `${data.serviceName} on ${when} is cancelled`,
+    heading: 'Your booking has been cancelled',
+    paragraphs,
+    details: bookingDetails(data),
+    action: isClient ? { label: 'Book again', url: data.manageUrl } : undefined,
+    footnote: 'Open the attached file to remove the event from your calendar.',
+    attachments: [calendarInvite(data, true)]
+  })
+}
+
+function lineItemTotal(items: ReceiptLineItem[]): number {
+  return items.reduce((sum, item) => sum + item.amountCents, 0)
+}
+
+/**
+ * Clients see what they paid online and what is left to pay at the appointment.
+ * Barbers also see how the booking fee was split, using the FeeBreakdown.
+ */
+export function receiptEmail(data: ReceiptEmailData): RenderedEmail {
+  const { fees } = data
+  const subtotal = lineItemTotal(data.services) + lineItemTotal(data.addons)
+  // Service and add-ons are paid at the appointment unless they were charged with the booking fee
+  const dueAtAppointment = Math.max(0, subtotal + fees.platformFee - data.amountPaidCents)
+  // A deposit or prepayment goes to the barber less Stripe's percentage on it
+  const prepaid = Math.max(0, data.amountPaidCents - fees.platformFee)
+  const isClient = data.audience === 'client'
+
+  const items: DetailRow[] = [
+    ...data.services.map(item => [item.name, formatCents(item.amountCents)] as DetailRow),
+    ...data.addons.map(item => [`Add-on: ${item.name}`, formatCents(item.amountCents)] as DetailRow)
+  ]
+
+  const details: DetailRow[] = isClient
+    ? [
+        ...items,
+        ['Booking fee', formatCents(fees.platformFee)],
+        ['Paid today', formatCents(data.amountPaidCents)],
+        ['Due at appointment', formatCents(dueAtAppointment)]
+      ]
+    : [
+        ...items,
+        ['Booking fee paid by client', formatCents(fees.platformFee)],
+        ['Card processing', formatCents(-fees.stripeFee)],
+        [`${BRAND_NAME} share`, formatCents(-fees.bocmShare)],
+        ['Your share of the booking fee', formatCents(fees.barberShare)],
+        ...(prepaid > 0
+          ? [
+              ['Paid online toward the service', formatCents(prepaid)] as DetailRow,
+              ['Card processing on it', formatCents(-Math.round(prepaid * STRIPE_PERCENT_FEE))] as DetailRow
+            ]
+          : []),
+        ['Collect at appointment', formatCents(dueAtAppointment)]
+      ]
+
+  return render({
+    subject: isClient
+      ? `Your receipt from ${data.barberName}`
+      : `Booking fee receipt for ${data.clientName}`,
+    preheader: isClient
+      ? `${formatCents(data.amountPaidCents)} paid on ${formatDateInZone(data.paidAt, data.timeZone)}`
+      : `You earned ${formatCents(fees.barberShare)} from this booking fee`,
+    heading: 'Receipt',
+    paragraphs: [
+      `Hi ${data.recipientName},`,
+      isClient
+        ? `Thanks for booking with ${data.barberName} for ${formatWhen(data.start, data.timeZone)}.`
+        : `Here is the breakdown for ${data.clientName}'s booking on ${formatWhen(data.start, data.timeZone)}.`
+    ],
+    details,
+    footnote: `Booking reference ${data.bookingId}. Paid ${formatDateInZone(data.paidAt, data.timeZone)}.`
+  })
+}
+
+export function reviewRequestEmail(data: ReviewRequestEmailData): RenderedEmail {
+  return render({
+    subject: `How was your ${data.serviceName} with ${data.barberName}?`,
+    preheader: 'It only takes a minute',
+    heading: 'How did it go?',
+    paragraphs: [
+      `Hi ${data.recipientName},`,
+      `Thanks for visiting ${data.barberName}. A quick review helps them grow and helps other clients find a great barber.`
+    ],
+    action: { label: 'Leave a review', url: data.reviewUrl }
+  })
+}
+
+const AUTH_LINK_COPY = {
+  password_reset: {
+    subject: 'Reset your BOCM password',
+    heading: 'Reset your password',
+    body: 'We got a request to reset your password. Use the button below to choose a new one.',
+    action: 'Reset password'
+  },
+  magic_link: {
+    subject: 'Your BOCM sign-in link',
+    heading: 'Sign in to BOCM',
+    body: 'Use the button below to sign in. No password needed.',
+    action: 'Sign in'
+  }
+}
+
+export function authLinkEmail(data: AuthLinkEmailData): RenderedEmail {
+  const copy = AUTH_LINK_COPY[data.type]
+
+  return render({
+    subject: copy.subject,
+    preheader: `This link expires in ${data.expiresInHours} hours`,
+    heading: copy.heading,
+    paragraphs: [copy.body, `The link expires in ${data.expiresInHours} hours and can only be used once.`],
+    action: { label: copy.action, url: data.link },
+    footnote: "If you didn't ask for this, you can ignore this email. Your account is safe."
+  })
+}
+
+export function callInviteEmail(data: CallInviteEmailData): RenderedEmail {
+  return render({
+    subject: `Book a 30 minute call with ${BRAND_NAME}`,
+    preheader: 'Pick a time that works for you',
+    heading: "Let's talk",
+    paragraphs: ['Thanks for your interest in BOCM. Pick a time for a 30 minute call and we will walk you through it.'],
+    action: { label: 'Pick a time', url: data.calendlyUrl }
+  })
+}
+
+export function giftReceivedEmail(data: GiftReceivedEmailData): RenderedEmail {
+  return render({
+    subject: `${data.purchaserName} sent you a gift for ${data.barberName}`,
+    preheader: `A ${data.description} is waiting for you`,
+    heading: 'You got a gift',
+    paragraphs: [
+      data.recipientName ? `Hi ${data.recipientName},` : 'Hi,',
+      `${data.purchaserName} sent you a ${data.description} with ${data.barberName}. Claim it to use it when you book.`,
+      ...(data.message ? [`"${data.message}"`] : [])
+    ],
+    details: [['Gift code', data.code]],
+    action: { label: 'Claim your gift', url: data.claimUrl },
+    footnote: 'You can also enter the gift code on BOCM to claim it. Anyone with the code can claim it, so keep it to yourself.'
+  })
+}
@@ -1,45 +1,127 @@
 // Fee calculation utilities
+// The fee and its split come from the fee schedule that applies to the barber (see
+// FeeScheduleService); the constants below are the standard platform schedule
+import type { DepositType, FeeSchedule, ServicePaymentMode } from '@/shared/types'
+import type { PromoFunding } from '@/shared/types/promo-code'
+
 export const PLATFORM_FEE_CENTS = 338 // $3.38 in cents (what customer pays)
 export const STRIPE_FEE_CENTS = 38 // $0.38 in cents (Stripe's fee: 2.9% + $0.30)
 export const BOCM_SHARE_PERCENTAGE = 0.60 // 60%
 export const BARBER_SHARE_PERCENTAGE = 0.40 // 40%
+export const STRIPE_PERCENT_FEE = 0.029 // 2.9% of every charge, plus $0.30 per charge
+export const STRIPE_MINIMUM_CHARGE_CENTS = 50 // Stripe refuses smaller USD charges
+
+// The parts of a fee schedule the calculation needs; id is set when it came from the database
+export type FeeTerms = Pick<FeeSchedule, 'fee_type' | 'fee_cents' | 'fee_percentage' | 'stripe_fee_cents' | 'platform_share'> & {
+  id?: string
+}
+
+// The standard platform schedule, seeded as the first row of fee_schedules
+export const DEFAULT_FEE_SCHEDULE: FeeTerms = {
+  fee_type: 'fixed',
+  fee_cents: PLATFORM_FEE_CENTS,
+  fee_percentage: null,
+  stripe_fee_cents: STRIPE_FEE_CENTS,
+  platform_share: BOCM_SHARE_PERCENTAGE
+}
+
+export const SERVICE_PAYMENT_MODE_LABELS: Record<ServicePaymentMode, string> = {
+  fee_only: 'Booking fee only',
+  deposit: 'Deposit',
+  full: 'Full prepayment'
+}
+
+// A booked service's price (dollars) and its barber's prepayment settings
+export interface PrepaidService {
+  price: number
+  payment_mode?: ServicePaymentMode | null
+  deposit_type?: DepositType | null
+  deposit_amount?: number | null // dollars when fixed, percent of the price when percentage
+}
+
+// A promo code's discount, from calculatePromoDiscount in promo-codes.ts
+export interface PromoDiscount {
+  fundedBy: PromoFunding
+  cents: number
+}
+
+export interface PaymentSplit {
+  feeScheduleId: string | null // Stamped on the booking
+  platformFeeCents: number // The booking fee under the schedule, before any platform promo code
+  discountCents: number // What the promo code took off, after the limits below
+  creditCents: number // Covered by a gift card or package the barber was already paid for
+  paymentMode: ServicePaymentMode // fee_only, deposit when part of the services is prepaid, full when all of it is
+  prepaidCents: number // Service and add-on amount charged now, on top of the booking fee
+  totalCents: number // What the client is charged now
+  applicationFeeCents: number // What the platform keeps
+  barberTransferCents: number // What transfer_data routes to the barber's Connect account
+  dueAtAppointmentCents: number // Left for the barber to collect in person
+}
 
 export interface FeeBreakdown {
   platformFee: number // Total platform fee in cents ($3.38)
   stripeFee: number // Stripe's fee in cents ($0.38) - absorbed by platform
   netAfterStripe: number // Net amount after Stripe fee in cents ($3.00)
   bocmShare: number // Platform's gross share in cents (60% of net = $1.80)
-  bocmNetShare: number // Platform's net share after Stripe fee (60% of net - Stripe fee = $1.42)
-  barberShare: number // Barber's share in cents (40% of net = $1.20)
+  bocmNetShare: number // Platform's net share after Stripe fee (60% of net - Stripe fee = $1.42), never below 0
+  stripeFeeUncovered: number // Stripe fee beyond the platform's share, paid by the platform and left in the barber's transfer ($0 standard)
+  barberShare: number // Barber's share in cents (40% of net = $1.20), plus any uncovered Stripe fee
+  feeScheduleId: string | null // Schedule the fee came from, null for DEFAULT_FEE_SCHEDULE
 }
 
-export function calculateFeeBreakdown(): FeeBreakdown {
+/**
+ * Splits the booking fee under a fee schedule. Amounts in the comments are the
+ * standard schedule's.
+ * @param schedule The schedule that applies to the barber, from FeeScheduleService.resolve
+ * @param servicesCents Services total, which percentage schedules charge a share of
+ */
+export function calculateFeeBreakdown(schedule: FeeTerms = DEFAULT_FEE_SCHEDULE, servicesCents = 0): FeeBreakdown {
+  // A percentage schedule never charges less than its fee_cents minimum
+  const platformFee = schedule.fee_type === 'percentage'
+    ? Math.max(schedule.fee_cents, Math.round(servicesCents * Number(schedule.fee_percentage) / 100))
+    : schedule.fee_cents // $3.38
+
   // Stripe takes $0.38 from the $3.38 payment (this is a platform cost)
-  const netAfterStripe = PLATFORM_FEE_CENTS - STRIPE_FEE_CENTS // $3.00 = 300 cents
+  const stripeFee = platformFee === 0 ? 0 : schedule.stripe_fee_cents ?? calculateStripeFeeCents(platformFee)
+  const netAfterStripe = Math.max(0, platformFee - stripeFee) // $3.00 = 300 cents
   
   // Split the net amount 60/40
-  const bocmShare = Math.round(netAfterStripe * BOCM_SHARE_PERCENTAGE) // 60% = $1.80 = 180 cents
-  const barberShare = Math.round(netAfterStripe * BARBER_SHARE_PERCENTAGE) // 40% = $1.20 = 120 cents
-  
-  // BOCM absorbs the Stripe fee as a platform cost
-  const bocmNetShare = bocmShare - STRIPE_FEE_CENTS // $1.80 - $0.38 = $1.42
+  const bocmShare = Math.round(netAfterStripe * Number(schedule.platform_share)) // 60% = $1.80 = 180 cents
+
+  // BOCM absorbs the Stripe fee as a platform cost. When its share is too small to cover
+  // the fee (a 0% promotion), the platform keeps nothing and the rest stays in the
+  // barber's transfer, as calculatePaymentSplit routes it
+  const bocmNetShare = Math.max(0, bocmShare - stripeFee) // $1.80 - $0.38 = $1.42
+  const stripeFeeUncovered = Math.max(0, stripeFee - bocmShare) // $0.00
+  const barberShare = netAfterStripe - bocmShare + stripeFeeUncovered // 40% = $1.20 = 120 cents
 
   return {
-    platformFee: PLATFORM_FEE_CENTS, // $3.38
-    stripeFee: STRIPE_FEE_CENTS, // $0.38 (absorbed by platform)
+    platformFee, // $3.38
+    stripeFee, // $0.38 (absorbed by platform)
     netAfterStripe, // $3.00
     bocmShare, // $1.80 (60% of net, before Stripe fee)
     bocmNetShare, // $1.42 (platform's net after absorbing Stripe fee)
-    barberShare // $1.20 (40% of net)
+    stripeFeeUncovered, // $0.00 (the platform's share covers it)
+    barberShare, // $1.20 (40% of net)
+    feeScheduleId: schedule.id ?? null
   }
 }
 
-export function calculateBarberPayout(): number {
-  const { barberShare } = calculateFeeBreakdown()
+export function calculateBarberPayout(
+  servicePriceCents = 0,
+  paymentType: 'fee' | 'full' = 'fee',
+  schedule: FeeTerms = DEFAULT_FEE_SCHEDULE
+): number {
+  const { barberShare } = calculateFeeBreakdown(schedule, servicePriceCents)
   
   // For fee-only payments, barber only gets their share of the fee after Stripe
   // Service and addons are paid directly to barber at appointment
-  return barberShare // $1.20 (40% of net $3.00)
+  if (paymentType === 'fee') {
+    return barberShare // $1.20 (40% of net $3.00)
+  }
+
+  // A prepaid service goes to the barber along with their share of the fee
+  return servicePriceCents + barberShare
 }
 
 export function calculatePlatformFee(): number {
@@ -47,4 +129,100 @@ export function calculatePlatformFee(): number {
   
   // Platform gets their net share after absorbing Stripe fee
   return bocmNetShare // $1.42 (60% of net $3.00 minus $0.38 Stripe fee)
-} 
\ No newline at end of file
+}
+
+// Stripe's card processing fee for an arbitrary charge (2.9% + $0.30), in cents
+export function calculateStripeFeeCents(amountCents: number): number {
+  return Math.round(amountCents * STRIPE_PERCENT_FEE) + 30
+}
+
+// The part of one service's price, in cents, charged when booking
+export function calculateServicePrepaymentCents(service: PrepaidService): number {
+  const priceCents = Math.round(Number(service.price) * 100)
+
+  switch (service.payment_mode) {
+    case 'full':
+      return priceCents
+    case 'deposit': {
+      const amount = Number(service.deposit_amount) || 0
+      const depositCents = service.deposit_type === 'percentage'
+        ? Math.round(priceCents * Math.min(amount, 100) / 100)
+        : Math.round(amount * 100)
+      return Math.max(0, Math.min(depositCents, priceCents))
+    }
+    default:
+      return 0
+  }
+}
+
+// What a client pays up front for a service, e.g. "$10 deposit" or "25% deposit"
+export function describeServicePrepayment(service: PrepaidService): string | null {
+  switch (service.payment_mode) {
+    case 'full':
+      return 'Paid in full when booking'
+    case 'deposit':
+      return service.deposit_type === 'percentage'
+        ? `${Number(service.deposit_amount)}% deposit`
+        : `$${(calculateServicePrepaymentCents(service) / 100).toFixed(2)} deposit`
+    default:
+      return null
+  }
+}
+
+/**
+ * How a booking's payment is split. The booking fee is shared as in calculateFeeBreakdown;
+ * each service adds its deposit or full price, and add-ons are prepaid only when every
+ * service is. The prepaid part goes to the barber less Stripe's percentage on it, since
+ * the $0.30 per charge is already covered by the booking fee.
+ *
+ * A barber's promo code comes off what is left to pay at the appointment first, then
+ * off the prepayment. A platform promo code comes off the booking fee, at most what the
+ * platform keeps, so the barber's share is the same as without it.
+ *
+ * A gift card or package credit was paid to the barber when it was bought, so like a
+ * barber's promo code it comes off what is left to pay, at the appointment first.
+ */
+export function calculatePaymentSplit(
+  services: PrepaidService[],
+  addonTotalCents = 0,
+  schedule: FeeTerms = DEFAULT_FEE_SCHEDULE,
+  discount: PromoDiscount | null = null,
+  creditCents = 0
+): PaymentSplit {
+  const servicesCents = services.reduce((sum, service) => sum + Math.round(Number(service.price) * 100), 0)
+  const { platformFee, bocmNetShare, feeScheduleId } = calculateFeeBreakdown(schedule, servicesCents)
+  const allFull = services.length > 0 && services.every(service => service.payment_mode === 'full')
+
+  const barberDiscountCents = discount?.fundedBy === 'barber'
+    ? Math.min(Math.max(0, discount.cents), servicesCents + addonTotalCents)
+    : 0
+  const appliedCreditCents = Math.min(Math.max(0, creditCents), servicesCents + addonTotalCents - barberDiscountCents)
+  const owedToBarberCents = servicesCents + addonTotalCents - barberDiscountCents - appliedCreditCents
+  const prepaidCents = Math.min(
+    owedToBarberCents,
+    services.reduce((sum, service) => sum + calculateServicePrepaymentCents(service), 0) + (allFull ? addonTotalCents : 0)
+  )
+
+  // A schedule that gives the barber the whole fee leaves the platform nothing to keep
+  const keptCents = bocmNetShare + Math.round(prepaidCents * STRIPE_PERCENT_FEE)
+  const platformDiscountCents = discount?.fundedBy === 'platform'
+    ? Math.min(Math.max(0, discount.cents), keptCents, platformFee)
+    : 0
+
+  const totalCents = platformFee - platformDiscountCents + prepaidCents
+  const applicationFeeCents = keptCents - platformDiscountCents
+  const dueAtAppointmentCents = owedToBarberCents - prepaidCents
+
+  return {
+    feeScheduleId,
+    platformFeeCents: platformFee,
+    discountCents: barberDiscountCents + platformDiscountCents,
+    creditCents: appliedCreditCents,
+    paymentMode: prepaidCents === 0 ? 'fee_only' : dueAtAppointmentCents === 0 ? 'full' : 'deposit',
+    prepaidCents,
+    totalCents,
+    applicationFeeCents,
+    barberTransferCents: totalCents - applicationFeeCents,
+    dueAtAppointmentCents
+  }
+}
@@ -0,0 +1,45 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import type { FeeSchedule } from '@/shared/types'
+
+export class FeeScheduleService {
+  /**
+   * The schedule a booking with this barber is charged under: the barber's own override
+   * while one is in effect, otherwise the platform-wide schedule
+   * @param barberId The barber being booked
+   * @param at When the booking is paid for
+   */
+  static async resolve(barberId: string, at: Date = new Date()): Promise<FeeSchedule> {
+    const { data, error } = await supabase.rpc('resolve_fee_schedule', {
+      p_barber_id: barberId,
+      p_at: at.toISOString()
+    })
+
+    if (error) {
+      logger.error('Error resolving fee schedule', error)
+      throw error
+    }
+    // A composite return comes back with null columns when nothing matched
+    if (!data?.id) {
+      throw new Error('No fee schedule is in effect for this barber')
+    }
+
+    return data as FeeSchedule
+  }
+
+  // The schedule a booking was stamped with, for receipts and payout reports
+  static async getById(scheduleId: string): Promise<FeeSchedule | null> {
+    const { data, error } = await supabase
+      .from('fee_schedules')
+      .select('*')
+      .eq('id', scheduleId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error loading fee schedule', error)
+      throw error
+    }
+
+    return data
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { logger } from './logger'
+import { getLocalTimeZone } from './timezone-utils'
 
 export interface GoogleCalendarEvent {
   summary: string
@@ -41,6 +42,7 @@ export function generateGoogleCalendarEvent(
       isGuest: boolean
       guestEmail?: string
       guestPhone?: string
+      timeZone?: string // Barber's timezone; defaults to the device timezone
     }
   },
   userRole: 'barber' | 'client',
@@ -76,17 +78,19 @@ Price: $${event.extendedProps.price}
 Booked through BOCM`
   }
 
+  const timeZone = event.extendedProps.timeZone || getLocalTimeZone()
+
   return {
     summary,
     description,
     location: userInfo.location,
     start: {
       dateTime: startDate.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      timeZone
     },
     end: {
       dateTime: endDate.toISOString(),
-      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+      timeZone
     },
     reminders: {
       useDefault: false,
@@ -0,0 +1,321 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { geocodeAddress } from './geocode'
+import type {
+  JobApplicant,
+  JobApplication,
+  JobApplicationStatus,
+  JobPost,
+  JobStatus,
+  JobType
+} from '@/shared/types'
+
+// Cuts shown with each application, newest first
+const APPLICANT_CUT_LIMIT = 6
+const EARTH_RADIUS_MILES = 3959
+
+export interface JobPostInput {
+  business_name: string
+  business_image?: string | null
+  job_type: JobType
+  title: string
+  description: string
+  requirements: string[]
+  compensation?: string | null
+  location: string
+}
+
+export interface MyJobApplication extends JobApplication {
+  job: JobPost
+}
+
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+  chair_rental: 'Chair rental',
+  position: 'Position'
+}
+
+export const APPLICATION_STATUS_LABELS: Record<JobApplicationStatus, string> = {
+  pending: 'Pending',
+  reviewing: 'Reviewing',
+  accepted: 'Accepted',
+  rejected: 'Not selected'
+}
+
+function distanceInMiles(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLon = toRadians(lon2 - lon1)
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2)
+  return EARTH_RADIUS_MILES * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Jobs within radiusMiles of a point, closest first, with their distance set.
+ * Jobs whose location could not be geocoded are left out.
+ */
+export function filterJobsNear(jobs: JobPost[], origin: { lat: number; lon: number }, radiusMiles: number): JobPost[] {
+  return jobs
+    .filter(job => job.latitude != null && job.longitude != null)
+    .map(job => ({
+      ...job,
+      distance: distanceInMiles(origin.lat, origin.lon, Number(job.latitude), Number(job.longitude))
+    }))
+    .filter(job => job.distance <= radiusMiles)
+    .sort((a, b) => a.distance - b.distance)
+}
+
+// Requirements are typed one per line
+export function parseRequirements(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/^[-*•]\s*/, '').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Chair rentals and positions posted by shops, and barbers' applications to them.
+ *
+ * Everything is read and written straight from the database under row level security.
+ * Application statuses change through set_job_application_status, and the database adds
+ * each step to the other party's inbox; /api/jobs/applications/notify pushes it to their devices.
+ */
+export class JobBoardService {
+  static async getOpenJobs(filters: { search?: string; jobType?: JobType | 'all' } = {}): Promise<JobPost[]> {
+    let query = supabase
+      .from('job_posts')
+      .select('*')
+      .eq('status', 'open')
+      .order('created_at', { ascending: false })
+
+    if (filters.jobType && filters.jobType !== 'all') {
+      query = query.eq('job_type', filters.jobType)
+    }
+
+    const search = filters.search?.trim().replace(/[%,()]/g, '')
+    if (search) {
+      query = query.or(`title.ilike.%${search}%,business_name.ilike.%${search}%,location.ilike.%${search}%`)
+    }
+
+    const { data, error } = await query
+    if (error) {
+      logger.error('Error loading jobs', error)
+      throw error
+    }
+    return (data || []) as JobPost[]
+  }
+
+  static async getJob(jobId: string): Promise<JobPost | null> {
+    const { data, error } = await supabase
+      .from('job_posts')
+      .select('*')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error loading job', error)
+      throw error
+    }
+    return data as JobPost | null
+  }
+
+  static async getPostedJobs(userId: string): Promise<JobPost[]> {
+    const { data, error } = await supabase
+      .from('job_posts')
+      .select('*')
+      .eq('poster_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading posted jobs', error)
+      throw error
+    }
+    return (data || []) as JobPost[]
+  }
+
+  // The location is geocoded so the job shows up when barbers browse nearby
+  static async createJob(userId: string, input: JobPostInput): Promise<JobPost> {
+    const coordinates = await geocodeAddress(input.location)
+
+    const { data, error } = await supabase
+      .from('job_posts')
+      .insert({
+        poster_id: userId,
+        business_name: input.business_name.trim(),
+        business_image: input.business_image || null,
+        job_type: input.job_type,
+        title: input.title.trim(),
+        description: input.description.trim(),
+        requirements: input.requirements,
+        compensation: input.compensation?.trim() || null,
+        location: input.location.trim(),
+        latitude: coordinates?.lat ?? null,
+        longitude: coordinates?.lon ?? null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error posting job', error)
+      throw error
+    }
+    return data as JobPost
+  }
+
+  static async setJobStatus(jobId: string, status: JobStatus): Promise<void> {
+    const { error } = await supabase
+      .from('job_posts')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('id', jobId)
+
+    if (error) {
+      logger.error('Error updating job status', error)
+      throw error
+    }
+  }
+
+  // The database attaches the barber profile and review stats
+  static async apply(jobId: string, userId: string, coverLetter: string): Promise<JobApplication> {
+    const { data, error } = await supabase
+      .from('job_applications')
+      .insert({ job_id: jobId, applicant_id: userId, cover_letter: coverLetter.trim() })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error applying to job', error)
+      throw new Error(error.code === '23505' ? 'You have already applied to this job' : error.message)
+    }
+
+    await this.notifyApplication(data.id)
+    return data as JobApplication
+  }
+
+  static async withdraw(applicationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('job_applications')
+      .delete()
+      .eq('id', applicationId)
+
+    if (error) {
+      logger.error('Error withdrawing application', error)
+      throw error
+    }
+  }
+
+  static async getApplication(applicationId: string): Promise<JobApplication | null> {
+    const { data, error } = await supabase
+      .from('job_applications')
+      .select('*')
+      .eq('id', applicationId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error loading application', error)
+      throw error
+    }
+    return data as JobApplication | null
+  }
+
+  static async getMyApplications(userId: string): Promise<MyJobApplication[]> {
+    const { data, error } = await supabase
+      .from('job_applications')
+      .select('*, job:job_id(*)')
+      .eq('applicant_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading applications', error)
+      throw error
+    }
+    // Jobs the poster closed since are hidden from everyone but the poster
+    return ((data || []) as MyJobApplication[]).filter(application => application.job)
+  }
+
+  // Applications to one of the poster's jobs, with each barber's profile and latest cuts
+  static async getApplicants(jobId: string): Promise<JobApplicant[]> {
+    const { data, error } = await supabase
+      .from('job_applications')
+      .select('*, barber:barber_id(id, bio, specialties, profiles:user_id(name, avatar_url, username, location))')
+      .eq('job_id', jobId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading applicants', error)
+      throw error
+    }
+
+    const rows = (data || []) as any[]
+    const barberIds = rows.map(row => row.barber_id)
+    const { data: cuts, error: cutsError } = barberIds.length
+      ? await supabase
+        .from('cuts')
+        .select('id, barber_id, title, url, thumbnail')
+        .in('barber_id', barberIds)
+        .eq('is_public', true)
+        .order('created_at', { ascending: false })
+      : { data: [], error: null }
+
+    if (cutsError) {
+      logger.error('Error loading applicant cuts', cutsError)
+    }
+
+    return rows.map(({ barber, ...application }) => ({
+      ...application,
+      barber: {
+        id: application.barber_id,
+        name: barber?.profiles?.name || 'Barber',
+        avatar_url: barber?.profiles?.avatar_url || null,
+        username: barber?.profiles?.username || null,
+        bio: barber?.bio || null,
+        specialties: barber?.specialties || [],
+        location: barber?.profiles?.location || null
+      },
+      cuts: (cuts || [])
+        .filter(cut => cut.barber_id === application.barber_id)
+        .slice(0, APPLICANT_CUT_LIMIT)
+        .map(({ barber_id, ...cut }) => cut)
+    }))
+  }
+
+  // Pending -> reviewing -> accepted or rejected; only the poster can move an application
+  static async setApplicationStatus(applicationId: string, status: Exclude<JobApplicationStatus, 'pending'>): Promise<JobApplication> {
+    const { data, error } = await supabase.rpc('set_job_application_status', {
+      p_application_id: applicationId,
+      p_status: status
+    })
+
+    if (error) {
+      logger.error('Error updating application status', error)
+      throw new Error(error.message || 'Failed to update the application')
+    }
+
+    await this.notifyApplication(applicationId)
+    return data as JobApplication
+  }
+
+  // Best effort: the application and its inbox notification stand even if the push fails
+  static async notifyApplication(applicationId: string): Promise<void> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) return
+
+      const response = await fetch('/api/jobs/applications/notify', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ applicationId })
+      })
+
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}))
+        throw new Error(result.error || 'Failed to send application notification')
+      }
+    } catch (error) {
+      logger.error('Error sending application notification', error)
+    }
+  }
+}
@@ -0,0 +1,150 @@
+// Server-only: sends every SMS, email, push and in-app message through the provider for its channel
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { getNotificationProvider, PermanentDeliveryError } from '@/shared/lib/notification-providers'
+import { shouldDeliver } from '@/shared/lib/notification-preferences'
+import { logger } from '@/shared/lib/logger'
+import type { NotificationDelivery as DeliveryRecord, OutgoingMessage } from '@/shared/types/notification-delivery'
+
+export const MAX_DELIVERY_ATTEMPTS = 3
+const RETRY_DELAY_MS = 1000 // doubled after each failed attempt
+
+export interface DeliveryOptions {
+  maxAttempts?: number
+  retryDelayMs?: number
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+/**
+ * Logs each message in notification_deliveries, then sends it, retrying failures
+ * that may pass on another attempt. Delivery failures are recorded on the row, never thrown.
+ */
+export class NotificationDelivery {
+  /**
+   * Sends one message and returns its delivery record.
+   * Returns null when a message with the same dedupe key was already sent,
+   * or the recipient's notification preferences hold it back.
+   */
+  static async send(message: OutgoingMessage, options: DeliveryOptions = {}): Promise<DeliveryRecord | null> {
+    if (!(await this.isWanted(message))) {
+      logger.debug('Notification held back by recipient preferences', {
+        recipientId: message.recipientId,
+        channel: message.channel,
+        type: message.type
+      })
+      return null
+    }
+
+    const maxAttempts = options.maxAttempts ?? MAX_DELIVERY_ATTEMPTS
+    const retryDelayMs = options.retryDelayMs ?? RETRY_DELAY_MS
+    const provider = getNotificationProvider(message.channel)
+
+    const { data: delivery, error } = await supabaseAdmin
+      .from('notification_deliveries')
+      .insert({
+        channel: message.channel,
+        provider: provider.name,
+        recipient_id: message.recipientId || null,
+        recipient: message.to,
+        type: message.type,
+        booking_id: message.bookingId || null,
+        title: message.title,
+        body: message.loggedBody ?? message.body,
+        dedupe_key: message.dedupeKey || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        logger.debug('Notification already sent', { dedupeKey: message.dedupeKey })
+        return null
+      }
+      throw error
+    }
+
+    let attempts = 0
+    let lastError: string | null = null
+    let providerMessageId: string | null = null
+    let sent = false
+
+    while (attempts < maxAttempts && !sent) {
+      attempts++
+      try {
+        const receipt = await provider.send(message)
+        providerMessageId = receipt.providerMessageId || null
+        sent = true
+      } catch (sendError) {
+        lastError = sendError instanceof Error ? sendError.message : String(sendError)
+        logger.warn('Notification delivery attempt failed', {
+          deliveryId: delivery.id,
+          channel: message.channel,
+          provider: provider.name,
+          attempt: attempts,
+          error: lastError
+        })
+        if (sendError instanceof PermanentDeliveryError) break
+        if (attempts < maxAttempts) await wait(retryDelayMs * 2 ** (attempts - 1))
+      }
+    }
+
+    const now = new Date().toISOString()
+    const { data: updated, error: updateError } = await supabaseAdmin
+      .from('notification_deliveries')
+      .update({
+        status: sent ? 'sent' : 'failed',
+        attempts,
+        last_error: sent ? null : lastError,
+        provider_message_id: providerMessageId,
+        sent_at: sent ? now : null,
+        updated_at: now
+      })
+      .eq('id', delivery.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      logger.error('Error recording notification delivery', updateError, { deliveryId: delivery.id })
+    }
+    if (!sent) {
+      logger.error('Notification delivery failed', undefined, {
+        deliveryId: delivery.id,
+        channel: message.channel,
+        error: lastError
+      })
+    }
+
+    return (updated as DeliveryRecord | null) || { ...delivery, status: sent ? 'sent' : 'failed', attempts, last_error: lastError }
+  }
+
+  /**
+   * Sends messages side by side; one message failing to log does not stop the others.
+   * Returns the delivery records of the messages that were sent or attempted.
+   */
+  static async sendAll(messages: OutgoingMessage[], options: DeliveryOptions = {}): Promise<DeliveryRecord[]> {
+    const results = await Promise.all(
+      messages.map(message =>
+        this.send(message, options).catch(error => {
+          logger.error('Error sending notification', error, { channel: message.channel, type: message.type })
+          return null
+        })
+      )
+    )
+    return results.filter((delivery): delivery is DeliveryRecord => delivery !== null)
+  }
+
+  // Guests have no preferences; everyone else gets the defaults until they save their own
+  private static async isWanted(message: OutgoingMessage): Promise<boolean> {
+    if (!message.recipientId || message.channel === 'in_app') return true
+
+    const { data: preferences, error } = await supabaseAdmin
+      .from('notification_preferences')
+      .select('channels, quiet_hours_start, quiet_hours_end, timezone')
+      .eq('user_id', message.recipientId)
+      .maybeSingle()
+
+    if (error) throw error
+
+    return shouldDeliver(preferences, message)
+  }
+}
@@ -0,0 +1,24 @@
+import type { Notification } from '@/shared/lib/notification-service'
+
+type LinkableNotification = Pick<Notification, 'booking_id' | 'review_id' | 'cut_id' | 'job_application_id' | 'shop_id'>
+
+// Where opening a notification takes the user, or null when it has nothing to open.
+// Reviews are about the recipient, so they open the reviews tab of their own booking page.
+export function getNotificationHref(notification: LinkableNotification, username?: string | null): string | null {
+  if (notification.cut_id) {
+    return `/cuts?cutId=${notification.cut_id}`
+  }
+  if (notification.job_application_id) {
+    return `/jobs?application=${notification.job_application_id}`
+  }
+  if (notification.shop_id) {
+    return '/shop/manage'
+  }
+  if (notification.review_id) {
+    return username ? `/book/${username}?tab=reviews` : null
+  }
+  if (notification.booking_id) {
+    return `/calendar?booking=${notification.booking_id}`
+  }
+  return null
+}
@@ -0,0 +1,130 @@
+// What each user wants to hear about and where, shared by the settings screen and the delivery layer
+import { DEFAULT_BARBER_TIMEZONE } from '@/shared/lib/timezone-utils'
+import type { OutgoingMessage } from '@/shared/types/notification-delivery'
+import type {
+  ChannelPreferences,
+  NotificationEvent,
+  NotificationPreferences,
+  PreferenceChannel
+} from '@/shared/types/notification-preferences'
+
+type PreferenceSettings = Pick<NotificationPreferences, 'channels' | 'quiet_hours_start' | 'quiet_hours_end' | 'timezone'>
+
+export const NOTIFICATION_EVENTS: {
+  event: NotificationEvent
+  label: string
+  description: string
+  roles: Array<'client' | 'barber'>
+}[] = [
+  { event: 'booking_created', label: 'New bookings', description: 'A booking is made or confirmed', roles: ['client', 'barber'] },
+  { event: 'booking_cancelled', label: 'Cancellations', description: 'A booking is cancelled', roles: ['client', 'barber'] },
+  { event: 'booking_reminder', label: 'Reminders', description: 'An appointment is coming up', roles: ['client', 'barber'] },
+  { event: 'review_received', label: 'Reviews', description: 'A client reviews you', roles: ['barber'] },
+  { event: 'payout', label: 'Payouts', description: 'Money is paid out to your account', roles: ['barber'] },
+  { event: 'new_follower_cut', label: 'New cuts', description: 'A barber you follow posts a cut', roles: ['client', 'barber'] },
+  { event: 'new_message', label: 'Messages', description: 'Someone sends you a direct message', roles: ['client', 'barber'] },
+  { event: 'job_application', label: 'Job applications', description: 'Someone applies to your job post, or a shop answers your application', roles: ['barber'] }
+]
+
+export const PREFERENCE_CHANNELS: { channel: PreferenceChannel; label: string }[] = [
+  { channel: 'push', label: 'Push' },
+  { channel: 'sms', label: 'Text' },
+  { channel: 'email', label: 'Email' }
+]
+
+// Texts cost the user (and us) the most, so they are on by default for appointments only
+export const DEFAULT_CHANNEL_PREFERENCES: Record<NotificationEvent, Record<PreferenceChannel, boolean>> = {
+  booking_created: { push: true, sms: true, email: true },
+  booking_cancelled: { push: true, sms: true, email: true },
+  booking_reminder: { push: true, sms: true, email: true },
+  review_received: { push: true, sms: false, email: true },
+  payout: { push: true, sms: false, email: true },
+  new_follower_cut: { push: true, sms: false, email: false },
+  new_message: { push: true, sms: false, email: false },
+  job_application: { push: true, sms: false, email: false }
+}
+
+// Message types that users can turn off. Anything else (waitlist offers, on-demand
+// requests, test messages) is time-critical or asked for, and always sent.
+const EVENT_BY_MESSAGE_TYPE: Record<string, NotificationEvent> = {
+  booking_created: 'booking_created',
+  booking_confirmed: 'booking_created',
+  booking_cancelled: 'booking_cancelled',
+  booking_reminder: 'booking_reminder',
+  review_received: 'review_received',
+  payout: 'payout',
+  new_follower_cut: 'new_follower_cut',
+  new_message: 'new_message',
+  job_application_received: 'job_application',
+  job_application_updated: 'job_application'
+}
+
+export function getPreferenceEvent(type: string): NotificationEvent | null {
+  return EVENT_BY_MESSAGE_TYPE[type] ?? null
+}
+
+export function isChannelEnabled(
+  preferences: Pick<PreferenceSettings, 'channels'> | null | undefined,
+  event: NotificationEvent,
+  channel: PreferenceChannel
+): boolean {
+  return preferences?.channels?.[event]?.[channel] ?? DEFAULT_CHANNEL_PREFERENCES[event][channel]
+}
+
+// Sets one event and channel, keeping the rest of the overrides
+export function setChannelEnabled(
+  channels: ChannelPreferences,
+  event: NotificationEvent,
+  channel: PreferenceChannel,
+  enabled: boolean
+): ChannelPreferences {
+  return { ...channels, [event]: { ...channels[event], [channel]: enabled } }
+}
+
+// "22:00" or "22:00:00" -> minutes after midnight
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+// Quiet hours may run past midnight, e.g. 22:00 to 07:00
+export function isInQuietHours(
+  preferences: Omit<PreferenceSettings, 'channels'> | null | undefined,
+  at: Date = new Date()
+): boolean {
+  if (!preferences?.quiet_hours_start || !preferences.quiet_hours_end) return false
+
+  const start = toMinutes(preferences.quiet_hours_start)
+  const end = toMinutes(preferences.quiet_hours_end)
+  if (start === end) return false
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: preferences.timezone || DEFAULT_BARBER_TIMEZONE,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(at)
+  const hour = Number(parts.find(part => part.type === 'hour')?.value)
+  const minute = Number(parts.find(part => part.type === 'minute')?.value)
+  const now = hour * 60 + minute
+
+  return start < end ? now >= start && now < end : now >= start || now < end
+}
+
+/**
+ * Whether a message may go out now. In-app messages and message types users
+ * cannot turn off are always sent; quiet hours hold back push and SMS only.
+ */
+export function shouldDeliver(
+  preferences: PreferenceSettings | null | undefined,
+  message: Pick<OutgoingMessage, 'channel' | 'type'>,
+  at: Date = new Date()
+): boolean {
+  if (message.channel === 'in_app') return true
+
+  const event = getPreferenceEvent(message.type)
+  if (!event) return true
+  if (!isChannelEnabled(preferences, event, message.channel)) return false
+
+  return message.channel === 'email' || !isInQuietHours(preferences, at)
+}
@@ -0,0 +1,217 @@
+// Server-only: the services that deliver each notification channel
+import { appendFile } from 'fs/promises'
+import nodemailer from 'nodemailer'
+import { NotificationService } from '@/shared/lib/notification-service'
+import { isExpoPushToken, PushTokens } from '@/shared/lib/push-tokens'
+import { logger } from '@/shared/lib/logger'
+import type { DeliveryChannel, OutgoingMessage } from '@/shared/types/notification-delivery'
+
+const TWILIO_API_URL = 'https://api.twilio.com/2010-04-01'
+const EXPO_PUSH_URL = 'https://exp.host/--/api/v2/push/send'
+const DEFAULT_EMAIL_FROM = 'BOCM <no-reply@bocmstyle.com>'
+
+export interface ProviderReceipt {
+  providerMessageId?: string | null
+}
+
+export interface NotificationProvider {
+  name: string
+  send(message: OutgoingMessage): Promise<ProviderReceipt>
+}
+
+/**
+ * A failure that would happen again on every attempt, such as an invalid phone number
+ * or a provider that is not configured, so the message is not retried
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PermanentDeliveryError'
+  }
+}
+
+/**
+ * Converts a phone number as users type it into E.164 (+15551234567).
+ * Numbers without a country code are taken to be US numbers. Returns null when it is not a phone number.
+ */
+export function toE164(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '')
+  if (phone.trim().startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+  if (digits.length === 10) return `+1${digits}`
+  if (digits.length === 11 && digits.startsWith('1')) return `+${digits}`
+  return null
+}
+
+// Development: nothing leaves the machine. Messages are logged and, when
+// NOTIFICATION_OUTBOX_FILE is set, appended to that file as JSON lines.
+export const consoleProvider: NotificationProvider = {
+  name: 'console',
+  async send(message) {
+    logger.info('Notification delivered to console', {
+      channel: message.channel,
+      to: message.to,
+      type: message.type,
+      title: message.title,
+      body: message.body
+    })
+
+    const outboxFile = process.env.NOTIFICATION_OUTBOX_FILE
+    if (outboxFile) {
+      await appendFile(outboxFile, `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`)
+    }
+    return {}
+  }
+}
+
+// In-app notifications are rows in the notifications table
+export const databaseProvider: NotificationProvider = {
+  name: 'database',
+  async send(message) {
+    const notification = await NotificationService.createNotification({
+      user_id: message.to,
+      title: message.title,
+      message: message.body,
+      type: message.type,
+      booking_id: message.bookingId || undefined
+    })
+    return { providerMessageId: notification?.id }
+  }
+}
+
+export const twilioProvider: NotificationProvider = {
+  name: 'twilio',
+  async send(message) {
+    const accountSid = process.env.TWILIO_ACCOUNT_SID
+    const authToken = process.env.TWILIO_AUTH_TOKEN
+    const from = process.env.TWILIO_FROM_NUMBER
+    if (!accountSid || !authToken || !from) {
+      throw new PermanentDeliveryError('SMS provider is not configured')
+    }
+
+    const to = toE164(message.to)
+    if (!to) {
+      throw new PermanentDeliveryError('Invalid phone number')
+    }
+
+    const response = await fetch(`${TWILIO_API_URL}/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}`
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: message.body }).toString()
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      // 4xx means Twilio refused this message (bad number, opted out); anything else may pass on a retry
+      const error = `SMS was rejected (${response.status}): ${result.message || 'unknown error'}`
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        throw new PermanentDeliveryError(error)
+      }
+      throw new Error(error)
+    }
+    return { providerMessageId: result.sid }
+  }
+}
+
+let transporter: nodemailer.Transporter | null = null
+
+// SMTP_HOST selects any SMTP server; otherwise the Gmail account the app has always sent from.
+// Mail catchers such as the local Inbucket (SMTP_HOST=localhost SMTP_PORT=54325) take no credentials.
+function getTransporter(): nodemailer.Transporter {
+  if (!transporter) {
+    transporter = process.env.SMTP_HOST
+      ? nodemailer.createTransport({
+          host: process.env.SMTP_HOST,
+          port: Number(process.env.SMTP_PORT || 587),
+          secure: Number(process.env.SMTP_PORT) === 465,
+          auth: process.env.SMTP_USER
+            ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+            : undefined
+        })
+      : nodemailer.createTransport({
+          service: 'gmail',
+          auth: { user: process.env.GMAIL_USER, pass: process.env.GMAIL_PASS }
+        })
+  }
+  return transporter
+}
+
+export const smtpProvider: NotificationProvider = {
+  name: 'smtp',
+  async send(message) {
+    const from = process.env.EMAIL_FROM || process.env.SMTP_USER || process.env.GMAIL_USER || DEFAULT_EMAIL_FROM
+    if (!process.env.SMTP_HOST && !(process.env.GMAIL_USER && process.env.GMAIL_PASS)) {
+      throw new PermanentDeliveryError('Email provider is not configured')
+    }
+
+    const info = await getTransporter().sendMail({
+      from,
+      to: message.to,
+      subject: message.title,
+      text: message.body,
+      html: message.html,
+      attachments: message.attachments
+    })
+    return { providerMessageId: info.messageId }
+  }
+}
+
+// Expo's ticket error for a token whose app was uninstalled or lost its permission
+export const DEVICE_NOT_REGISTERED = 'DeviceNotRegistered'
+
+export const expoProvider: NotificationProvider = {
+  name: 'expo',
+  async send(message) {
+    if (!isExpoPushToken(message.to)) {
+      await PushTokens.remove([message.to])
+      throw new PermanentDeliveryError('Invalid push token')
+    }
+
+    const response = await fetch(EXPO_PUSH_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ to: message.to, title: message.title, body: message.body, data: message.data })
+    })
+    if (!response.ok) {
+      throw new Error(`Push notification was rejected (${response.status})`)
+    }
+
+    // Expo accepts the request and reports each message in its ticket
+    const { data: ticket } = await response.json()
+    if (ticket?.status === 'error') {
+      if (ticket.details?.error === DEVICE_NOT_REGISTERED) {
+        await PushTokens.remove([message.to])
+      }
+      throw new PermanentDeliveryError(`Push notification was rejected: ${ticket.details?.error || ticket.message}`)
+    }
+    return { providerMessageId: ticket?.id }
+  }
+}
+
+const LIVE_PROVIDERS: Record<DeliveryChannel, NotificationProvider> = {
+  sms: twilioProvider,
+  email: smtpProvider,
+  push: expoProvider,
+  in_app: databaseProvider
+}
+
+/**
+ * The provider for a channel. NOTIFICATION_PROVIDER=console sends SMS, email and push
+ * to the console provider instead, which is the default outside production.
+ * EMAIL_PROVIDER=smtp|console overrides it for email only, so email can go to a local
+ * mail catcher while texts and pushes stay on the console.
+ * In-app notifications always go to the database.
+ */
+export function getNotificationProvider(channel: DeliveryChannel): NotificationProvider {
+  const mode = (channel === 'email' && process.env.EMAIL_PROVIDER)
+    || process.env.NOTIFICATION_PROVIDER
+    || (process.env.NODE_ENV === 'production' ? 'live' : 'console')
+  if (mode === 'console' && channel !== 'in_app') {
+    return consoleProvider
+  }
+  return LIVE_PROVIDERS[channel]
+}
@@ -1,4 +1,4 @@
-import { supabase } from '@/shared/lib/supabase';
+import { supabase, supabaseAdmin } from '@/shared/lib/supabase';
 
 export interface Notification {
   id: string;
@@ -7,13 +7,19 @@ export interface Notification {
   message: string;
   type: string;
   booking_id?: string;
+  review_id?: string;
+  cut_id?: string;
+  job_application_id?: string;
+  shop_id?: string;
   read: boolean;
   created_at: string;
 }
 
 export class NotificationService {
+  // Notifications are written for other users (e.g. the barber on a client action),
+  // which RLS does not allow, so inserts go through the service role on the server.
   static async createNotification(notification: Omit<Notification, 'id' | 'created_at' | 'read'>) {
-    const { data, error } = await supabase
+    const { data, error } = await supabaseAdmin
       .from('notifications')
       .insert([notification])
       .select()
@@ -23,15 +29,16 @@ export class NotificationService {
     return data;
   }
 
-  static async getUserNotifications(userId: string) {
+  static async getUserNotifications(userId: string, limit = 50): Promise<Notification[]> {
     const { data, error } = await supabase
       .from('notifications')
       .select('*')
       .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: false })
+      .limit(limit);
 
     if (error) throw error;
-    return data;
+    return data || [];
   }
 
   static async markAsRead(notificationId: string) {
@@ -68,4 +75,16 @@ export class NotificationService {
     if (error) throw error;
     return count || 0;
   }
+
+  // Calls onChange whenever one of the user's notifications is added or changes; returns the unsubscribe
+  static subscribeToUserNotifications(userId: string, onChange: () => void, channelName = `notifications-${userId}`) {
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` }, onChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,329 @@
+// Server-only: records, answers and expires on-demand requests and their payment holds
+import Stripe from 'stripe'
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { PushTokens } from '@/shared/lib/push-tokens'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { getOnDemandExpiry } from '@/shared/lib/ondemand-timing'
+import { DEFAULT_BARBER_TIMEZONE, formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import { logger } from '@/shared/lib/logger'
+import type { OnDemandRequest } from '@/shared/types/booking-restrictions'
+import type { OutgoingMessage } from '@/shared/types/notification-delivery'
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2024-06-20' as any,
+})
+
+interface RequestParties {
+  clientId: string
+  clientPushTokens: string[]
+  barberUserId: string | null
+  barberPushTokens: string[]
+  barberName: string
+  serviceName: string
+  when: string
+}
+
+export class OnDemandRequestService {
+  /**
+   * Records the request once the client's platform fee hold is authorized and tells the barber.
+   * Returns null when the request was already recorded by an earlier webhook delivery.
+   */
+  static async recordRequest(paymentIntent: Stripe.PaymentIntent): Promise<OnDemandRequest | null> {
+    const meta = paymentIntent.metadata || {}
+
+    if (!meta.barberId || !meta.serviceId || !meta.clientId || !meta.requestedTime) {
+      throw new Error('Missing required on-demand metadata')
+    }
+
+    try {
+      const { data, error } = await supabaseAdmin
+        .from('ondemand_requests')
+        .upsert(
+          {
+            client_id: meta.clientId,
+            barber_id: meta.barberId,
+            service_id: meta.serviceId,
+            requested_time: meta.requestedTime,
+            location_lat: Number(meta.latitude),
+            location_lng: Number(meta.longitude),
+            location_address: meta.address || null,
+            notes: meta.notes || null,
+            status: 'pending',
+            price: Number(meta.price),
+            surge_multiplier: Number(meta.surgeMultiplier) || 1,
+            distance_miles: meta.distanceMiles ? Number(meta.distanceMiles) : null,
+            expires_at: getOnDemandExpiry(new Date(), meta.requestedTime).toISOString(),
+            payment_intent_id: paymentIntent.id,
+          },
+          { onConflict: 'payment_intent_id', ignoreDuplicates: true }
+        )
+        .select()
+
+      if (error) throw error
+
+      const request = (data as OnDemandRequest[] | null)?.[0]
+      if (!request) return null
+
+      const parties = await this.getParties(request)
+      const title = 'New on-demand request'
+      const message = `${parties.serviceName} requested for ${parties.when}. Answer before it expires.`
+
+      await this.notify(parties.barberUserId, parties.barberPushTokens, title, message, 'ondemand_request', request)
+
+      return request
+    } catch (error) {
+      logger.error('Error recording on-demand request', error)
+      throw error
+    }
+  }
+
+  /**
+   * Books the requested time and captures the client's hold.
+   * If the hold can no longer be captured, the booking is cancelled again and the request expires.
+   */
+  static async acceptRequest(request: OnDemandRequest) {
+    if (!request.payment_intent_id) {
+      throw new Error('On-demand request has no payment hold')
+    }
+
+    try {
+      const paymentIntent = await stripe.paymentIntents.retrieve(request.payment_intent_id)
+
+      // Same split as a paid booking: the platform keeps the application fee, the barber the rest (dollars)
+      const platformFeeCents = paymentIntent.application_fee_amount || 0
+      const { data: booking, error } = await supabaseAdmin.rpc('accept_ondemand_request', {
+        p_request_id: request.id,
+        p_platform_fee: platformFeeCents / 100,
+        p_barber_payout: (paymentIntent.amount - platformFeeCents) / 100,
+      })
+
+      if (error) throw error
+
+      if (paymentIntent.metadata?.feeScheduleId) {
+        const { error: scheduleError } = await supabaseAdmin
+          .from('bookings')
+          .update({ fee_schedule_id: paymentIntent.metadata.feeScheduleId })
+          .eq('id', booking.id)
+
+        if (scheduleError) {
+          logger.error('Error recording fee schedule on on-demand booking', scheduleError)
+        }
+      }
+
+      try {
+        await stripe.paymentIntents.capture(
+          paymentIntent.id,
+          {},
+          { idempotencyKey: `ondemand-capture-${request.id}` }
+        )
+      } catch (captureError) {
+        logger.error('Error capturing on-demand hold, undoing booking', captureError)
+
+        const now = new Date().toISOString()
+        await supabaseAdmin
+          .from('bookings')
+          .update({ status: 'cancelled', payment_status: 'failed', cancelled_at: now, updated_at: now })
+          .eq('id', booking.id)
+        await supabaseAdmin
+          .from('ondemand_requests')
+          .update({ status: 'expired', booking_id: null, updated_at: now })
+          .eq('id', request.id)
+
+        throw new Error("The client's payment hold has lapsed, so this request can no longer be accepted")
+      }
+
+      const parties = await this.getParties(request)
+      await this.notify(
+        parties.clientId,
+        parties.clientPushTokens,
+        'Your barber is on the way',
+        `${parties.barberName} accepted your ${parties.serviceName} request for ${parties.when}.`,
+        'ondemand_accepted',
+        request,
+        booking.id
+      )
+
+      const { data: fullBooking } = await supabaseAdmin
+        .from('bookings')
+        .select('*, barber:barber_id(*), service:service_id(*), client:client_id(*)')
+        .eq('id', booking.id)
+        .single()
+
+      if (fullBooking) {
+        try {
+          await BookingNotifications.sendConfirmation(fullBooking)
+        } catch (notificationError) {
+          logger.error('Failed to send on-demand booking notifications', notificationError)
+        }
+      }
+
+      return booking
+    } catch (error) {
+      logger.error('Error accepting on-demand request', error)
+      throw error
+    }
+  }
+
+  /**
+   * Closes a pending request, either declined by the barber or withdrawn by the client,
+   * releases the hold and tells the other side. Returns null if it was no longer pending.
+   */
+  static async closeRequest(request: OnDemandRequest, status: 'declined' | 'cancelled'): Promise<OnDemandRequest | null> {
+    try {
+      const now = new Date().toISOString()
+      const { data, error } = await supabaseAdmin
+        .from('ondemand_requests')
+        .update({ status, responded_at: now, updated_at: now })
+        .eq('id', request.id)
+        .eq('status', 'pending')
+        .select()
+        .maybeSingle()
+
+      if (error) throw error
+      if (!data) return null
+
+      await this.releaseHold(request)
+
+      const parties = await this.getParties(request)
+      if (status === 'declined') {
+        await this.notify(
+          parties.clientId,
+          parties.clientPushTokens,
+          'Request declined',
+          `${parties.barberName} can't make your ${parties.serviceName} request for ${parties.when}. Your card was not charged.`,
+          'ondemand_declined',
+          request
+        )
+      } else {
+        await this.notify(
+          parties.barberUserId,
+          parties.barberPushTokens,
+          'Request withdrawn',
+          `The ${parties.serviceName} request for ${parties.when} was withdrawn by the client.`,
+          'ondemand_cancelled',
+          request
+        )
+      }
+
+      return data as OnDemandRequest
+    } catch (error) {
+      logger.error('Error closing on-demand request', error)
+      throw error
+    }
+  }
+
+  /**
+   * Expires requests the barber did not answer in time and releases their holds.
+   * Returns the number of expired requests.
+   */
+  static async expireRequests(): Promise<number> {
+    try {
+      const { data, error } = await supabaseAdmin.rpc('expire_ondemand_requests')
+
+      if (error) throw error
+
+      const expired = (data as OnDemandRequest[] | null) || []
+      for (const request of expired) {
+        try {
+          await this.releaseHold(request)
+
+          const parties = await this.getParties(request)
+          await this.notify(
+            parties.clientId,
+            parties.clientPushTokens,
+            'Request expired',
+            `${parties.barberName} didn't answer your ${parties.serviceName} request in time. Your card was not charged.`,
+            'ondemand_expired',
+            request
+          )
+        } catch (releaseError) {
+          logger.error('Error releasing expired on-demand request', releaseError)
+        }
+      }
+
+      return expired.length
+    } catch (error) {
+      logger.error('Error expiring on-demand requests', error)
+      throw error
+    }
+  }
+
+  // Cancelling an uncaptured payment intent releases the authorization on the client's card
+  private static async releaseHold(request: OnDemandRequest) {
+    if (!request.payment_intent_id) return
+
+    try {
+      await stripe.paymentIntents.cancel(request.payment_intent_id)
+    } catch (error) {
+      // Already released (e.g. the authorization lapsed on its own)
+      if ((error as Stripe.errors.StripeError)?.code === 'payment_intent_unexpected_state') {
+        return
+      }
+      throw error
+    }
+  }
+
+  private static async getParties(request: OnDemandRequest): Promise<RequestParties> {
+    const [{ data: barber }, { data: service }] = await Promise.all([
+      supabaseAdmin.from('barbers').select('user_id, timezone, profile:user_id(name)').eq('id', request.barber_id).single(),
+      supabaseAdmin.from('services').select('name').eq('id', request.service_id).single()
+    ])
+
+    const barberInfo = barber as unknown as {
+      user_id: string | null
+      timezone: string | null
+      profile: { name: string | null } | null
+    } | null
+    const timeZone = barberInfo?.timezone || DEFAULT_BARBER_TIMEZONE
+    const barberUserId = barberInfo?.user_id || null
+    const pushTokens = await PushTokens.getForUsers([request.client_id, ...(barberUserId ? [barberUserId] : [])])
+
+    return {
+      clientId: request.client_id,
+      clientPushTokens: pushTokens.get(request.client_id) || [],
+      barberUserId,
+      barberPushTokens: (barberUserId && pushTokens.get(barberUserId)) || [],
+      barberName: barberInfo?.profile?.name || 'Your barber',
+      serviceName: service?.name || 'appointment',
+      when: `${formatDateInZone(request.requested_time, timeZone)} at ${formatTimeInZone(request.requested_time, timeZone)}`
+    }
+  }
+
+  // Each channel is best effort; the request state stands even if a message fails to send
+  private static async notify(
+    userId: string | null,
+    pushTokens: string[],
+    title: string,
+    message: string,
+    type: string,
+    request: OnDemandRequest,
+    bookingId?: string
+  ) {
+    if (!userId) return
+
+    const messages: OutgoingMessage[] = [
+      {
+        channel: 'in_app',
+        to: userId,
+        recipientId: userId,
+        type,
+        title,
+        body: message,
+        bookingId,
+        dedupeKey: `ondemand:${request.id}:${type}:in_app`
+      },
+      ...PushDispatcher.toMessages(userId, pushTokens, {
+        type,
+        title,
+        body: message,
+        data: { requestId: request.id, bookingId },
+        bookingId,
+        dedupeKey: `ondemand:${request.id}:${type}:push`
+      })
+    ]
+
+    await NotificationDelivery.sendAll(messages)
+  }
+}
@@ -0,0 +1,73 @@
+import { supabase } from './supabase'
+import { OnDemandRequest } from '@/shared/types/booking-restrictions'
+import { Booking } from '@/shared/types/booking'
+import { logger } from './logger'
+
+export interface OnDemandInboxRequest extends OnDemandRequest {
+  service: { name: string; duration: number } | null
+  client: { name: string | null } | null
+}
+
+/**
+ * Barber side of on-demand requests.
+ *
+ * Clients send requests from the mobile app with their platform fee held on
+ * their card. The barber accepts (the request becomes a booking and the fee is
+ * captured) or declines (the hold is released) before the request expires
+ * (see OnDemandRequestService).
+ */
+export class OnDemandService {
+  static async getPendingRequests(barberId: string): Promise<OnDemandInboxRequest[]> {
+    try {
+      const { data, error } = await supabase
+        .from('ondemand_requests')
+        .select('*, service:service_id(name, duration), client:client_id(name)')
+        .eq('barber_id', barberId)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('expires_at', { ascending: true })
+
+      if (error) throw error
+      return (data || []) as OnDemandInboxRequest[]
+    } catch (error) {
+      logger.error('Error fetching on-demand requests', error)
+      throw error
+    }
+  }
+
+  static async acceptRequest(requestId: string): Promise<{ booking: Booking }> {
+    return this.respond(requestId, 'accept', 'Failed to accept request')
+  }
+
+  static async declineRequest(requestId: string): Promise<{ request: OnDemandRequest }> {
+    return this.respond(requestId, 'decline', 'Failed to decline request')
+  }
+
+  private static async respond<T>(requestId: string, action: 'accept' | 'decline', failureMessage: string): Promise<T> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) {
+        throw new Error('You must be signed in to answer requests')
+      }
+
+      const response = await fetch('/api/ondemand/respond', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify({ requestId, action })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || failureMessage)
+      }
+
+      return result
+    } catch (error) {
+      logger.error(failureMessage, error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,36 @@
+// On-demand request deadlines shared by the Stripe webhook, the response API and the barber inbox
+import type { OnDemandRequest } from '@/shared/types/booking-restrictions'
+
+// How long a barber has to answer before the request expires and the hold is released
+export const ONDEMAND_RESPONSE_MINUTES = 15
+
+/**
+ * The barber must answer within the response window, and never after the requested time
+ */
+export function getOnDemandExpiry(createdAt: Date, requestedTime: string | Date): Date {
+  const deadline = new Date(createdAt.getTime() + ONDEMAND_RESPONSE_MINUTES * 60 * 1000)
+  const requested = new Date(requestedTime)
+  return requested < deadline ? requested : deadline
+}
+
+/**
+ * Whether the barber can still accept or decline the request
+ */
+export function isOnDemandRequestOpen(
+  request: Pick<OnDemandRequest, 'status' | 'expires_at' | 'requested_time'>,
+  now: Date = new Date()
+): boolean {
+  if (request.status !== 'pending') return false
+
+  const expiresAt = request.expires_at ? new Date(request.expires_at) : new Date(request.requested_time)
+  return expiresAt > now && new Date(request.requested_time) > now
+}
+
+/**
+ * e.g. "12 min left" or "Less than a minute left"
+ */
+export function formatOnDemandTimeLeft(expiresAt: string, now: Date = new Date()): string {
+  const minutes = Math.floor((new Date(expiresAt).getTime() - now.getTime()) / 60000)
+  if (minutes < 1) return 'Less than a minute left'
+  return `${minutes} min left`
+}
@@ -0,0 +1,73 @@
+// Gift cards and prepaid packages, shared by the barber's page, checkout and the earnings dashboard
+import { calculateStripeFeeCents } from './fee-calculator'
+import type { BarberPackage, PrepaidBalance } from '@/shared/types/prepaid'
+
+export const GIFT_CARD_AMOUNTS = [25, 50, 100] // dollars, offered as presets
+export const MIN_GIFT_CARD_CENTS = 1000 // $10.00
+export const MAX_GIFT_CARD_CENTS = 50000 // $500.00
+
+export type CreditableBalance = Pick<PrepaidBalance, 'kind' | 'service_id' | 'amount_remaining' | 'visits_remaining'>
+
+// Null when the amount can be bought, otherwise the reason shown to the buyer
+export function getGiftCardAmountError(amountCents: number): string | null {
+  if (!Number.isInteger(amountCents) || amountCents < MIN_GIFT_CARD_CENTS) {
+    return `Gift cards start at $${(MIN_GIFT_CARD_CENTS / 100).toFixed(2)}`
+  }
+  if (amountCents > MAX_GIFT_CARD_CENTS) {
+    return `Gift cards go up to $${(MAX_GIFT_CARD_CENTS / 100).toFixed(2)}`
+  }
+  return null
+}
+
+/**
+ * What the platform keeps from a gift card or package sale. The whole payment goes to
+ * the barber less Stripe's fee, which the platform pays on the barber's behalf.
+ */
+export function calculatePrepaidApplicationFeeCents(amountCents: number): number {
+  return Math.min(amountCents, calculateStripeFeeCents(amountCents))
+}
+
+// Cents saved against paying for each visit separately; 0 when the package costs more
+export function calculatePackageSavingsCents(pkg: Pick<BarberPackage, 'visit_count' | 'price'>, servicePrice: number): number {
+  return Math.max(0, Math.round(servicePrice * 100) * pkg.visit_count - Math.round(Number(pkg.price) * 100))
+}
+
+// "5 visits for the price of 4", otherwise "5 visits for $180.00, save $20.00"
+export function describePackage(pkg: Pick<BarberPackage, 'visit_count' | 'price'>, servicePrice: number): string {
+  const priceCents = Math.round(Number(pkg.price) * 100)
+  const serviceCents = Math.round(servicePrice * 100)
+  if (serviceCents > 0 && priceCents % serviceCents === 0 && priceCents / serviceCents < pkg.visit_count) {
+    return `${pkg.visit_count} visits for the price of ${priceCents / serviceCents}`
+  }
+
+  const savingsCents = calculatePackageSavingsCents(pkg, servicePrice)
+  const price = `${pkg.visit_count} visits for $${(priceCents / 100).toFixed(2)}`
+  return savingsCents > 0 ? `${price}, save $${(savingsCents / 100).toFixed(2)}` : price
+}
+
+// "$42.50 left" or "3 of 5 visits left"
+export function describePrepaidBalance(balance: Pick<PrepaidBalance, 'kind' | 'amount_remaining' | 'visits_remaining' | 'visit_count'>): string {
+  return balance.kind === 'package'
+    ? `${balance.visits_remaining} of ${balance.visit_count} visits left`
+    : `$${Number(balance.amount_remaining).toFixed(2)} left`
+}
+
+/**
+ * What a balance covers on a booking, in cents. A gift card pays toward whatever is
+ * owed for the services and add-ons; a package covers one visit of its service.
+ * @param services The booked services, prices in dollars
+ * @param owedCents What is left to pay for the services and add-ons after any promo code
+ */
+export function calculatePrepaidCredit(
+  balance: CreditableBalance,
+  services: { id: string; price: number }[],
+  owedCents: number
+): number {
+  if (balance.kind === 'package') {
+    const service = services.find(s => s.id === balance.service_id)
+    if (!service || balance.visits_remaining <= 0) return 0
+    return Math.max(0, Math.min(Math.round(Number(service.price) * 100), owedCents))
+  }
+
+  return Math.max(0, Math.min(Math.round(Number(balance.amount_remaining) * 100), owedCents))
+}
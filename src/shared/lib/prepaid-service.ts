@@ -0,0 +1,228 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { logger } from './logger'
+import type { BarberPackage, PrepaidBalance, PrepaidBalanceLookup, PrepaidLiability } from '@/shared/types/prepaid'
+
+export interface PrepaidOffers {
+  giftCardsEnabled: boolean
+  packages: BarberPackage[]
+}
+
+export interface CreatePackageInput {
+  service_id: string
+  name: string
+  description?: string | null
+  visit_count: number
+  price: number
+}
+
+export interface PrepaidPurchaseInput {
+  barberId: string
+  packageId?: string // a package, otherwise a gift card of amountCents
+  amountCents?: number
+  isGift: boolean
+  recipientName?: string
+  recipientEmail?: string
+  message?: string
+}
+
+export class PrepaidService {
+  // What the barber's page offers for sale
+  static async getOffers(barberId: string): Promise<PrepaidOffers> {
+    const [{ data: barber, error: barberError }, { data: packages, error: packagesError }] = await Promise.all([
+      supabase.from('barbers').select('gift_cards_enabled').eq('id', barberId).single(),
+      supabase.from('barber_packages').select('*').eq('barber_id', barberId).eq('is_active', true).order('price')
+    ])
+
+    if (barberError || packagesError) {
+      logger.error('Error loading gift cards and packages', barberError || packagesError)
+      throw barberError || packagesError
+    }
+    return { giftCardsEnabled: !!barber?.gift_cards_enabled, packages: packages || [] }
+  }
+
+  static async getPackages(barberId: string): Promise<BarberPackage[]> {
+    const { data, error } = await supabase
+      .from('barber_packages')
+      .select('*')
+      .eq('barber_id', barberId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading packages', error)
+      throw error
+    }
+    return data || []
+  }
+
+  static async createPackage(barberId: string, input: CreatePackageInput): Promise<BarberPackage> {
+    const { data, error } = await supabase
+      .from('barber_packages')
+      .insert({ ...input, barber_id: barberId })
+      .select('*')
+      .single()
+
+    if (error) {
+      logger.error('Error creating package', error)
+      throw error
+    }
+    return data
+  }
+
+  // Packages that have been sold are kept for their balances, so they are paused rather than deleted
+  static async setPackageActive(packageId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('barber_packages')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', packageId)
+
+    if (error) {
+      logger.error('Error updating package', error)
+      throw error
+    }
+  }
+
+  static async setGiftCardsEnabled(barberId: string, enabled: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('barbers')
+      .update({ gift_cards_enabled: enabled })
+      .eq('id', barberId)
+
+    if (error) {
+      logger.error('Error updating gift card setting', error)
+      throw error
+    }
+  }
+
+  // Starts Stripe Checkout for a gift card or package; resolves to the Checkout URL
+  static async purchase(input: PrepaidPurchaseInput): Promise<string> {
+    try {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (!session?.access_token) {
+        throw new Error('Sign in to buy a gift card or package')
+      }
+
+      const response = await fetch('/api/prepaid/purchase', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${session.access_token}`
+        },
+        body: JSON.stringify(input)
+      })
+
+      const result = await response.json()
+      if (!response.ok || !result.url) {
+        throw new Error(result.error || 'Failed to start the purchase')
+      }
+      return result.url
+    } catch (error) {
+      logger.error('Error starting prepaid purchase', error)
+      throw error
+    }
+  }
+
+  // Everything the user owns, and the gifts they bought for someone else
+  static async getWallet(userId: string): Promise<PrepaidBalance[]> {
+    const { data, error } = await supabase
+      .from('prepaid_balances')
+      .select('*')
+      .or(`owner_id.eq.${userId},purchaser_id.eq.${userId}`)
+      .neq('status', 'void')
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading gift cards and packages', error)
+      throw error
+    }
+    return data || []
+  }
+
+  // The client's balances with the barber that still have something left, for checkout
+  static async getUsableBalances(clientId: string, barberId: string): Promise<PrepaidBalance[]> {
+    const { data, error } = await supabase
+      .from('prepaid_balances')
+      .select('*')
+      .eq('owner_id', clientId)
+      .eq('barber_id', barberId)
+      .eq('status', 'active')
+      .or('amount_remaining.gt.0,visits_remaining.gt.0')
+      .order('created_at')
+
+    if (error) {
+      logger.error('Error loading usable balances', error)
+      throw error
+    }
+    return data || []
+  }
+
+  // What a code is worth, for the claim page; null when no balance matches
+  static async lookup(code: string): Promise<PrepaidBalanceLookup | null> {
+    const { data, error } = await supabase.rpc('find_prepaid_balance', { p_code: code })
+
+    if (error) {
+      logger.error('Error looking up gift code', error)
+      throw error
+    }
+    return (data?.[0] as PrepaidBalanceLookup) || null
+  }
+
+  // Gives an unclaimed gift to the signed-in user
+  static async claim(code: string): Promise<PrepaidBalance> {
+    const { data, error } = await supabase.rpc('claim_prepaid_balance', { p_code: code })
+
+    if (error) {
+      logger.error('Error claiming gift', error)
+      throw new Error(error.message || 'Failed to claim the gift')
+    }
+    return data as PrepaidBalance
+  }
+
+  // Server only: draws the credit from the client's balance while they pay, so it cannot
+  // be spent twice. The webhook gives the draw its booking once paid.
+  static async reserveCredit(balanceId: string, clientId: string, creditCents: number): Promise<string> {
+    const { data, error } = await supabaseAdmin.rpc('reserve_prepaid_balance', {
+      p_balance_id: balanceId,
+      p_client_id: clientId,
+      p_credit: creditCents / 100
+    })
+
+    if (error) {
+      logger.error('Error reserving prepaid credit', error)
+      throw new Error(error.message || 'This gift card or package cannot be used for this booking')
+    }
+    return data as string
+  }
+
+  // Server only: puts back credit drawn for a checkout that was never paid
+  static async releaseCredit(reservationId: string): Promise<void> {
+    const { error } = await supabaseAdmin.rpc('release_prepaid_reservation', { p_reservation_id: reservationId })
+
+    if (error) {
+      logger.error('Error releasing prepaid credit', error)
+      throw error
+    }
+  }
+
+  // Server only: puts back credit held for over an hour by checkouts that were never
+  // paid; returns how many holds were released
+  static async releaseExpiredCredit(): Promise<number> {
+    const { data, error } = await supabaseAdmin.rpc('release_expired_prepaid_reservations')
+
+    if (error) {
+      logger.error('Error releasing expired prepaid credit', error)
+      throw error
+    }
+    return (data as number) || 0
+  }
+
+  // Gift card and package value the barber has been paid for but not yet cut
+  static async getLiability(barberId: string): Promise<PrepaidLiability> {
+    const { data, error } = await supabase.rpc('get_prepaid_liability', { p_barber_id: barberId })
+
+    if (error) {
+      logger.error('Error loading outstanding balances', error)
+      throw error
+    }
+    return (data?.[0] as PrepaidLiability) || { gift_card_balance: 0, package_balance: 0, package_visits: 0, open_balances: 0 }
+  }
+}
@@ -0,0 +1,203 @@
+import { supabase, supabaseAdmin } from './supabase'
+import { logger } from './logger'
+import { getPromoFunding, normalizePromoCode, PROMO_CODE_PATTERN } from './promo-codes'
+import type { PromoCode, PromoCodePreview, PromoCodeReport, PromoDiscountType } from '@/shared/types/promo-code'
+
+// The booking a code is being applied to
+export interface PromoCodeBooking {
+  barberId: string
+  clientId?: string | null
+  serviceIds: string[]
+  start: string // ISO start of the appointment
+}
+
+export interface PromoCodeCheck {
+  promo: PromoCode | null
+  rejection: string | null // Shown to the client when the code cannot be used
+}
+
+export interface PromoCodePreviewCheck {
+  promo: PromoCodePreview | null
+  rejection: string | null
+}
+
+export interface CreatePromoCodeInput {
+  code: string
+  description?: string | null
+  discount_type: PromoDiscountType
+  discount_value: number
+  max_redemptions?: number | null
+  max_redemptions_per_client?: number | null
+  first_visit_only?: boolean
+  service_ids?: string[]
+  weekdays?: number[]
+  starts_at?: string
+  expires_at?: string | null
+}
+
+export class PromoCodeService {
+  /**
+   * Server only: finds the code for the barber (their own, else a platform code) and
+   * checks it against the booking: active period, usage limits, services, day and first visit
+   */
+  static async check(code: string, booking: PromoCodeBooking): Promise<PromoCodeCheck> {
+    const normalized = normalizePromoCode(code)
+    if (!PROMO_CODE_PATTERN.test(normalized)) {
+      return { promo: null, rejection: 'This promo code is not valid' }
+    }
+
+    const { data: promo, error } = await supabaseAdmin.rpc('find_promo_code', {
+      p_code: normalized,
+      p_barber_id: booking.barberId
+    })
+
+    if (error) {
+      logger.error('Error finding promo code', error)
+      throw error
+    }
+    // A composite return comes back with null columns when nothing matched
+    if (!promo?.id) {
+      return { promo: null, rejection: 'This promo code is not valid' }
+    }
+
+    const { data: rejection, error: checkError } = await supabaseAdmin.rpc('check_promo_code', {
+      p_promo_code_id: promo.id,
+      p_barber_id: booking.barberId,
+      p_client_id: booking.clientId || null,
+      p_service_ids: booking.serviceIds,
+      p_start: booking.start
+    })
+
+    if (checkError) {
+      logger.error('Error checking promo code', checkError)
+      throw checkError
+    }
+
+    return rejection ? { promo: null, rejection } : { promo: promo as PromoCode, rejection: null }
+  }
+
+  /**
+   * Server only: checks the code again and holds one use of it while the client pays,
+   * so concurrent checkouts cannot go over its limits. The webhook redeems the hold.
+   */
+  static async reserve(
+    promo: PromoCode,
+    booking: PromoCodeBooking,
+    discountCents: number
+  ): Promise<{ redemptionId: string | null; rejection: string | null }> {
+    const { data, error } = await supabaseAdmin.rpc('reserve_promo_code', {
+      p_promo_code_id: promo.id,
+      p_barber_id: booking.barberId,
+      p_client_id: booking.clientId || null,
+      p_service_ids: booking.serviceIds,
+      p_start: booking.start,
+      p_discount: discountCents / 100,
+      p_funded_by: getPromoFunding(promo)
+    }).single()
+
+    if (error) {
+      logger.error('Error reserving promo code', error)
+      throw error
+    }
+
+    const { redemption_id, rejection } = data as { redemption_id: string | null; rejection: string | null }
+    return { redemptionId: redemption_id, rejection }
+  }
+
+  // Server only: gives back a use held by a checkout that was never paid
+  static async releaseReservation(redemptionId: string): Promise<void> {
+    const { error } = await supabaseAdmin
+      .from('promo_code_redemptions')
+      .delete()
+      .eq('id', redemptionId)
+      .eq('status', 'reserved')
+
+    if (error) {
+      logger.error('Error releasing promo code', error)
+      throw error
+    }
+  }
+
+  // The booking form's check for the signed-in client; checkout checks the code again
+  static async preview(code: string, booking: Omit<PromoCodeBooking, 'clientId'>): Promise<PromoCodePreviewCheck> {
+    const normalized = normalizePromoCode(code)
+    if (!PROMO_CODE_PATTERN.test(normalized)) {
+      return { promo: null, rejection: 'This promo code is not valid' }
+    }
+
+    const { data, error } = await supabase.rpc('preview_promo_code', {
+      p_code: normalized,
+      p_barber_id: booking.barberId,
+      p_service_ids: booking.serviceIds,
+      p_start: booking.start
+    }).single()
+
+    if (error) {
+      logger.error('Error checking promo code', error)
+      throw error
+    }
+
+    const { rejection, ...promo } = data as PromoCodePreview & { rejection: string | null }
+    return promo.id ? { promo, rejection: null } : { promo: null, rejection: rejection || 'This promo code is not valid' }
+  }
+
+  static async getBarberCodes(barberId: string): Promise<PromoCode[]> {
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('barber_id', barberId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Error loading promo codes', error)
+      throw error
+    }
+    return data || []
+  }
+
+  static async createCode(barberId: string, input: CreatePromoCodeInput): Promise<PromoCode> {
+    const code = normalizePromoCode(input.code)
+    if (!PROMO_CODE_PATTERN.test(code)) {
+      throw new Error('Codes are 3 to 20 letters, numbers, dashes or underscores')
+    }
+
+    const { data, error } = await supabase
+      .from('promo_codes')
+      .insert({ ...input, code, barber_id: barberId })
+      .select('*')
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error(`You already have a promo code ${code}`)
+      }
+      logger.error('Error creating promo code', error)
+      throw error
+    }
+    return data
+  }
+
+  // Codes that have been redeemed are kept for the report, so they are paused rather than deleted
+  static async setActive(promoCodeId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('promo_codes')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', promoCodeId)
+
+    if (error) {
+      logger.error('Error updating promo code', error)
+      throw error
+    }
+  }
+
+  // Redemptions and discounts given per code, for the barber's settings
+  static async getReport(barberId: string): Promise<PromoCodeReport[]> {
+    const { data, error } = await supabase.rpc('get_promo_code_report', { p_barber_id: barberId })
+
+    if (error) {
+      logger.error('Error loading promo code report', error)
+      throw error
+    }
+    return (data || []) as PromoCodeReport[]
+  }
+}
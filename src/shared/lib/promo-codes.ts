@@ -0,0 +1,57 @@
+// Promo code discounts, shared by checkout, the booking forms and the barber's settings
+import type { PromoDiscount } from './fee-calculator'
+import type { PromoCode, PromoFunding } from '@/shared/types/promo-code'
+
+export const PROMO_CODE_PATTERN = /^[A-Z0-9_-]{3,20}$/
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+export type PromoTerms = Pick<PromoCode, 'barber_id' | 'discount_type' | 'discount_value' | 'service_ids'>
+
+// Codes are matched case-insensitively and stored upper case
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function getPromoFunding(promo: Pick<PromoCode, 'barber_id'>): PromoFunding {
+  return promo.barber_id ? 'barber' : 'platform'
+}
+
+/**
+ * What a code takes off a booking, before the limits calculatePaymentSplit applies.
+ * A barber code discounts the services it applies to (add-ons are never discounted);
+ * a platform code discounts the booking fee.
+ * @param services The booked services, prices in dollars
+ * @param platformFeeCents The booking fee under the barber's fee schedule
+ */
+export function calculatePromoDiscount(
+  promo: PromoTerms,
+  services: { id: string; price: number }[],
+  platformFeeCents: number
+): PromoDiscount {
+  const fundedBy = getPromoFunding(promo)
+  const baseCents = fundedBy === 'platform'
+    ? platformFeeCents
+    : services
+      .filter(service => promo.service_ids.length === 0 || promo.service_ids.includes(service.id))
+      .reduce((sum, service) => sum + Math.round(Number(service.price) * 100), 0)
+
+  const cents = promo.discount_type === 'percentage'
+    ? Math.round(baseCents * Math.min(Number(promo.discount_value), 100) / 100)
+    : Math.round(Number(promo.discount_value) * 100)
+
+  return { fundedBy, cents: Math.max(0, Math.min(cents, baseCents)) }
+}
+
+// "20% off", "$5.00 off the booking fee", "first visit only, Tuesdays"
+export function describePromoCode(promo: Pick<PromoCode, 'barber_id' | 'discount_type' | 'discount_value' | 'first_visit_only' | 'weekdays'>): string {
+  const amount = promo.discount_type === 'percentage'
+    ? `${Number(promo.discount_value)}% off`
+    : `$${Number(promo.discount_value).toFixed(2)} off`
+  const details = [
+    promo.barber_id ? amount : `${amount} the booking fee`,
+    promo.first_visit_only ? 'first visit only' : null,
+    promo.weekdays.length > 0 ? [...promo.weekdays].sort().map(day => WEEKDAY_LABELS[day]).join(', ') : null
+  ]
+  return details.filter(Boolean).join(', ')
+}
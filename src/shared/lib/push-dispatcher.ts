@@ -0,0 +1,126 @@
+// Server-only: pushes to every device a user is signed in on, and prunes devices Expo can no longer reach
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { DEVICE_NOT_REGISTERED } from '@/shared/lib/notification-providers'
+import { PushTokens } from '@/shared/lib/push-tokens'
+import { logger } from '@/shared/lib/logger'
+import type { NotificationDelivery as DeliveryRecord, OutgoingMessage, PushNotification } from '@/shared/types/notification-delivery'
+
+const EXPO_RECEIPTS_URL = 'https://exp.host/--/api/v2/push/getReceipts'
+// Expo has receipts ready within about 15 minutes and keeps them for a day
+const RECEIPT_DELAY_MS = 15 * 60 * 1000
+const RECEIPT_TTL_MS = 24 * 60 * 60 * 1000
+const RECEIPT_BATCH_SIZE = 1000
+
+interface ExpoReceipt {
+  status: 'ok' | 'error'
+  message?: string
+  details?: { error?: string }
+}
+
+export class PushDispatcher {
+  // One push message per device; NotificationDelivery applies the user's preferences to each
+  static toMessages(userId: string, tokens: string[], push: PushNotification): OutgoingMessage[] {
+    return tokens.map(token => ({
+      channel: 'push',
+      to: token,
+      recipientId: userId,
+      type: push.type,
+      title: push.title,
+      body: push.body,
+      data: { type: push.type, ...push.data },
+      bookingId: push.bookingId,
+      dedupeKey: push.dedupeKey ? `${push.dedupeKey}:${token}` : undefined
+    }))
+  }
+
+  // Sends a push to each of the user's devices; users with no registered device get nothing
+  static async send(userId: string, push: PushNotification): Promise<DeliveryRecord[]> {
+    const tokens = (await PushTokens.getForUsers([userId])).get(userId) || []
+    if (tokens.length === 0) {
+      logger.debug('No push tokens registered', { userId, type: push.type })
+      return []
+    }
+
+    return NotificationDelivery.sendAll(this.toMessages(userId, tokens, push))
+  }
+
+  /**
+   * Reads Expo's receipts for pushes sent at least 15 minutes ago. A push Expo could not
+   * deliver is marked failed, and devices that are no longer registered lose their token.
+   */
+  static async checkReceipts(now: Date = new Date()): Promise<{ checked: number; failed: number; pruned: number }> {
+    const { data: deliveries, error } = await supabaseAdmin
+      .from('notification_deliveries')
+      .select('id, recipient, provider_message_id')
+      .eq('channel', 'push')
+      .eq('provider', 'expo')
+      .eq('status', 'sent')
+      .is('receipt_checked_at', null)
+      .not('provider_message_id', 'is', null)
+      .lte('sent_at', new Date(now.getTime() - RECEIPT_DELAY_MS).toISOString())
+      .gte('sent_at', new Date(now.getTime() - RECEIPT_TTL_MS).toISOString())
+      .limit(RECEIPT_BATCH_SIZE)
+
+    if (error) throw error
+    if (!deliveries || deliveries.length === 0) {
+      return { checked: 0, failed: 0, pruned: 0 }
+    }
+
+    const response = await fetch(EXPO_RECEIPTS_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      body: JSON.stringify({ ids: deliveries.map(delivery => delivery.provider_message_id) })
+    })
+    if (!response.ok) {
+      throw new Error(`Push receipts could not be fetched (${response.status})`)
+    }
+
+    const { data: receipts } = await response.json() as { data: Record<string, ExpoReceipt> }
+    const checkedAt = now.toISOString()
+    const checkedIds: string[] = []
+    const unregistered: string[] = []
+    let failed = 0
+
+    for (const delivery of deliveries) {
+      // Receipts that are not ready yet are read on a later run
+      const receipt = receipts?.[delivery.provider_message_id as string]
+      if (!receipt) continue
+
+      if (receipt.status === 'error') {
+        failed++
+        if (receipt.details?.error === DEVICE_NOT_REGISTERED) {
+          unregistered.push(delivery.recipient)
+        }
+
+        const { error: updateError } = await supabaseAdmin
+          .from('notification_deliveries')
+          .update({
+            status: 'failed',
+            last_error: `Push notification was not delivered: ${receipt.details?.error || receipt.message}`,
+            receipt_checked_at: checkedAt,
+            updated_at: checkedAt
+          })
+          .eq('id', delivery.id)
+
+        if (updateError) throw updateError
+      } else {
+        checkedIds.push(delivery.id)
+      }
+    }
+
+    if (checkedIds.length > 0) {
+      const { error: updateError } = await supabaseAdmin
+        .from('notification_deliveries')
+        .update({ receipt_checked_at: checkedAt })
+        .in('id', checkedIds)
+
+      if (updateError) throw updateError
+    }
+
+    const pruned = [...new Set(unregistered)]
+    await PushTokens.remove(pruned)
+
+    return { checked: checkedIds.length + failed, failed, pruned: pruned.length }
+  }
+}
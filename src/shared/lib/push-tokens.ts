@@ -0,0 +1,47 @@
+// Server-only: the Expo push tokens of each device a user is signed in on
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+
+const EXPO_PUSH_TOKEN_PATTERN = /^Expo(nent)?PushToken\[.+\]$/
+
+// Whether a token can be sent to at all; anything else was saved by mistake
+export function isExpoPushToken(token: string): boolean {
+  return EXPO_PUSH_TOKEN_PATTERN.test(token)
+}
+
+export class PushTokens {
+  /**
+   * Each user's push tokens, most recently registered device first.
+   * Users without a registered device have an empty list.
+   */
+  static async getForUsers(userIds: string[]): Promise<Map<string, string[]>> {
+    const tokens = new Map<string, string[]>(userIds.map(userId => [userId, []]))
+    if (userIds.length === 0) return tokens
+
+    const { data, error } = await supabaseAdmin
+      .from('push_tokens')
+      .select('user_id, token')
+      .in('user_id', userIds)
+      .order('last_registered_at', { ascending: false })
+
+    if (error) throw error
+
+    for (const row of data || []) {
+      tokens.get(row.user_id)?.push(row.token)
+    }
+    return tokens
+  }
+
+  // Drops tokens Expo will never deliver to, e.g. after the app was uninstalled
+  static async remove(tokens: string[]): Promise<void> {
+    if (tokens.length === 0) return
+
+    const { error } = await supabaseAdmin
+      .from('push_tokens')
+      .delete()
+      .in('token', tokens)
+
+    if (error) throw error
+    logger.info('Removed invalid push tokens', { count: tokens.length })
+  }
+}
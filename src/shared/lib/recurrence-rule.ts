@@ -0,0 +1,83 @@
+// Weekly recurrence rules for booking series, shared by the series API and the calendar UIs
+import { SeriesScope } from '@/shared/types/booking-series'
+
+export interface RecurrenceRule {
+  intervalWeeks: number // 1 = every week, 2 = every other week, ...
+  startTime: string // HH:mm in the barber's timezone
+  startsOn: string // yyyy-MM-dd, first occurrence; its weekday is the series weekday
+  endsOn: string // yyyy-MM-dd, last day an occurrence may fall on
+}
+
+// Match the booking_series checks
+export const MAX_INTERVAL_WEEKS = 8
+export const MAX_SERIES_DAYS = 366
+
+export const SERIES_SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: 'This appointment',
+  following: 'This and following',
+  all: 'All appointments'
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Calendar dates are handled as UTC midnights so DST never shifts a day
+const parseDay = (day: string) => new Date(`${day}T00:00:00Z`)
+const formatDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Validates a rule before a series is created
+ * Returns null when valid, otherwise the reason shown to the barber
+ */
+export function getRecurrenceRuleError(rule: RecurrenceRule): string | null {
+  if (!Number.isInteger(rule.intervalWeeks) || rule.intervalWeeks < 1 || rule.intervalWeeks > MAX_INTERVAL_WEEKS) {
+    return `Repeat every 1 to ${MAX_INTERVAL_WEEKS} weeks`
+  }
+
+  if (!/^\d{2}:\d{2}$/.test(rule.startTime)) {
+    return 'Choose a start time'
+  }
+
+  const startsOn = parseDay(rule.startsOn)
+  const endsOn = parseDay(rule.endsOn)
+  if (isNaN(startsOn.getTime()) || isNaN(endsOn.getTime())) {
+    return 'Choose a start and end date'
+  }
+
+  if (endsOn < startsOn) {
+    return 'The series must end after it starts'
+  }
+
+  if ((endsOn.getTime() - startsOn.getTime()) / DAY_MS > MAX_SERIES_DAYS) {
+    return 'A series can run for at most one year'
+  }
+
+  return null
+}
+
+/**
+ * Every occurrence date (yyyy-MM-dd) of a rule, in order
+ */
+export function getOccurrenceDates(rule: RecurrenceRule): string[] {
+  if (getRecurrenceRuleError(rule)) return []
+
+  const dates: string[] = []
+  const endsOn = parseDay(rule.endsOn).getTime()
+  for (let day = parseDay(rule.startsOn).getTime(); day <= endsOn; day += rule.intervalWeeks * 7 * DAY_MS) {
+    dates.push(formatDay(new Date(day)))
+  }
+  return dates
+}
+
+/**
+ * e.g. "Every 2 weeks on Tuesday at 3:00 PM until Aug 12, 2026"
+ */
+export function describeRecurrenceRule(rule: RecurrenceRule): string {
+  const startsOn = parseDay(rule.startsOn)
+  const [hours, minutes] = rule.startTime.split(':').map(Number)
+  const time = `${hours % 12 || 12}:${String(minutes).padStart(2, '0')} ${hours >= 12 ? 'PM' : 'AM'}`
+  const until = parseDay(rule.endsOn).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' })
+  const every = rule.intervalWeeks === 1 ? 'Every week' : `Every ${rule.intervalWeeks} weeks`
+
+  return `${every} on ${WEEKDAYS[startsOn.getUTCDay()]} at ${time} until ${until}`
+}
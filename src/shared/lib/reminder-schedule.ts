@@ -0,0 +1,34 @@
+// Reminder offsets barbers can choose from, shared by the settings UI and the reminder scheduler
+import { BookingRestrictions } from '@/shared/types/booking-restrictions'
+
+// Matches the booking_restrictions column default: a day before and two hours before
+export const DEFAULT_REMINDER_OFFSETS = [1440, 120]
+
+export const MAX_REMINDER_OFFSETS = 3
+
+// Minutes before the appointment; the column allows 15 minutes to 7 days
+export const REMINDER_OFFSET_OPTIONS = [10080, 2880, 1440, 720, 240, 120, 60, 30]
+
+export function getReminderOffsets(
+  restrictions?: Pick<BookingRestrictions, 'reminder_offsets_minutes'> | null
+): number[] {
+  return normalizeReminderOffsets(restrictions?.reminder_offsets_minutes ?? DEFAULT_REMINDER_OFFSETS)
+}
+
+// Distinct offsets within the allowed range, furthest from the appointment first
+export function normalizeReminderOffsets(offsets: number[]): number[] {
+  return Array.from(new Set(offsets.map(Math.round)))
+    .filter(offset => offset >= 15 && offset <= 10080)
+    .sort((a, b) => b - a)
+    .slice(0, MAX_REMINDER_OFFSETS)
+}
+
+// "1 week", "2 days", "1 day", "12 hours", "30 minutes"
+export function describeReminderOffset(minutes: number): string {
+  const plural = (count: number, unit: string) => `${count} ${unit}${count === 1 ? '' : 's'}`
+  if (minutes % 10080 === 0) return plural(minutes / 10080, 'week')
+  if (minutes % 1440 === 0) return plural(minutes / 1440, 'day')
+  if (minutes % 60 === 0) return plural(minutes / 60, 'hour')
+  return plural(minutes, 'minute')
+}
+
@@ -0,0 +1,94 @@
+// Server-only: sends the appointment reminders that are due
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { BookingNotifications } from '@/shared/lib/booking-notifications'
+import { logger } from '@/shared/lib/logger'
+import type { BookingReminder } from '@/shared/types/booking-restrictions'
+
+// Reminders claimed per run; anything left over is picked up by the next run
+const REMINDER_BATCH_SIZE = 100
+
+type ReminderOutcome = 'sent' | 'skipped' | 'failed'
+
+export interface ReminderRunResult {
+  claimed: number
+  sent: number
+  skipped: number
+  failed: number
+}
+
+/**
+ * Claims due reminders with claim_due_booking_reminders(), which records each one
+ * before it is sent, then sends them through the notification delivery layer.
+ * Safe to run as often as needed: a claimed reminder is never claimed again.
+ */
+export class ReminderScheduler {
+  static async sendDueReminders(): Promise<ReminderRunResult> {
+    try {
+      const { data, error } = await supabaseAdmin.rpc('claim_due_booking_reminders', {
+        p_limit: REMINDER_BATCH_SIZE
+      })
+
+      if (error) throw error
+
+      const reminders = (data as BookingReminder[] | null) || []
+      const result: ReminderRunResult = { claimed: reminders.length, sent: 0, skipped: 0, failed: 0 }
+
+      for (const reminder of reminders) {
+        result[await this.sendReminder(reminder)]++
+      }
+
+      return result
+    } catch (error) {
+      logger.error('Error sending due reminders', error)
+      throw error
+    }
+  }
+
+  private static async sendReminder(reminder: BookingReminder): Promise<ReminderOutcome> {
+    let outcome: ReminderOutcome
+    let deliveryCount = 0
+
+    try {
+      const { data: booking, error } = await supabaseAdmin
+        .from('bookings')
+        .select('id, date, status, client_id, guest_name, guest_email, barber:barber_id(user_id, timezone), service:service_id(name)')
+        .eq('id', reminder.booking_id)
+        .single()
+
+      if (error) throw error
+
+      // Cancelled or moved after the reminder was claimed; a moved booking gets reminders for its new time
+      if (booking.status !== 'confirmed' || new Date(booking.date).getTime() !== new Date(reminder.appointment_at).getTime()) {
+        outcome = 'skipped'
+      } else {
+        const deliveries = await BookingNotifications.sendReminder({
+          ...booking,
+          barber: booking.barber as unknown as { user_id: string; timezone: string | null } | null,
+          service: booking.service as unknown as { name: string } | null
+        }, reminder)
+
+        deliveryCount = deliveries.filter(delivery => delivery.status === 'sent').length
+        // Nobody to remind (e.g. a guest without an email address) is not a failure
+        outcome = deliveryCount > 0 ? 'sent' : deliveries.length > 0 ? 'failed' : 'skipped'
+      }
+    } catch (error) {
+      logger.error('Error sending booking reminder', error, { reminderId: reminder.id })
+      outcome = 'failed'
+    }
+
+    const { error: updateError } = await supabaseAdmin
+      .from('booking_reminders')
+      .update({
+        status: outcome,
+        delivery_count: deliveryCount,
+        sent_at: outcome === 'sent' ? new Date().toISOString() : null
+      })
+      .eq('id', reminder.id)
+
+    if (updateError) {
+      logger.error('Error recording booking reminder', updateError, { reminderId: reminder.id })
+    }
+
+    return outcome
+  }
+}
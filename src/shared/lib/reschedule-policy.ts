@@ -0,0 +1,79 @@
+// Reschedule policy checks shared by the reschedule API and the booking UIs
+import { BookingRestrictions } from '@/shared/types/booking-restrictions'
+
+export interface ReschedulePolicy {
+  cutoffHours: number // No reschedules within this many hours of the current start
+  maxReschedules: number // 0 disables rescheduling
+}
+
+// Matches the booking_restrictions column defaults
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = {
+  cutoffHours: 24,
+  maxReschedules: 2
+}
+
+const RESCHEDULABLE_STATUSES = ['pending', 'confirmed']
+
+export function getReschedulePolicy(
+  restrictions?: Pick<BookingRestrictions, 'reschedule_cutoff_hours' | 'max_reschedules'> | null
+): ReschedulePolicy {
+  return {
+    cutoffHours: restrictions?.reschedule_cutoff_hours ?? DEFAULT_RESCHEDULE_POLICY.cutoffHours,
+    maxReschedules: restrictions?.max_reschedules ?? DEFAULT_RESCHEDULE_POLICY.maxReschedules
+  }
+}
+
+/**
+ * Whether the booking itself can still be moved, regardless of the new time
+ * Returns null when allowed, otherwise the reason shown to the client
+ */
+export function getRescheduleBlocker(
+  booking: { date: string; status: string; reschedule_count?: number | null },
+  policy: ReschedulePolicy,
+  now: Date = new Date()
+): string | null {
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return 'Only upcoming bookings can be rescheduled'
+  }
+
+  if (policy.maxReschedules === 0) {
+    return 'This barber does not allow rescheduling'
+  }
+
+  if ((booking.reschedule_count ?? 0) >= policy.maxReschedules) {
+    return `This booking has already been rescheduled the maximum of ${policy.maxReschedules} time${policy.maxReschedules === 1 ? '' : 's'}`
+  }
+
+  const hoursUntilStart = (new Date(booking.date).getTime() - now.getTime()) / (60 * 60 * 1000)
+  if (hoursUntilStart < policy.cutoffHours) {
+    return policy.cutoffHours > 0
+      ? `Bookings can only be rescheduled more than ${policy.cutoffHours} hour${policy.cutoffHours === 1 ? '' : 's'} before the appointment`
+      : 'This appointment has already started'
+  }
+
+  return null
+}
+
+/**
+ * Full check for moving a booking to a new start time
+ * Availability of the new slot is checked separately by the availability engine
+ */
+export function getRescheduleRejection(
+  booking: { date: string; status: string; reschedule_count?: number | null },
+  newDate: Date,
+  policy: ReschedulePolicy,
+  now: Date = new Date()
+): string | null {
+  const blocker = getRescheduleBlocker(booking, policy, now)
+  if (blocker) return blocker
+
+  if (isNaN(newDate.getTime()) || newDate <= now) {
+    return 'The new time must be in the future'
+  }
+
+  if (newDate.getTime() === new Date(booking.date).getTime()) {
+    return 'The booking is already at this time'
+  }
+
+  return null
+}
@@ -0,0 +1,26 @@
+import { supabase } from '@/shared/lib/supabase'
+import { logger } from '@/shared/lib/logger'
+
+// Asks the server to push a review the client just saved to the barber; the review stands even if this fails
+export async function notifyReviewSubmitted(reviewId: string): Promise<void> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session?.access_token) return
+
+    const response = await fetch('/api/reviews/notify', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ reviewId })
+    })
+
+    if (!response.ok) {
+      const result = await response.json().catch(() => ({}))
+      throw new Error(result.error || 'Failed to send review notification')
+    }
+  } catch (error) {
+    logger.error('Error sending review notification', error)
+  }
+}
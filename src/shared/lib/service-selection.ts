@@ -0,0 +1,37 @@
+// Multi-service bookings: the first selected service is the booking's service_id,
+// the rest are stored in additional_service_ids
+import { Service } from '@/shared/types/service'
+
+type PricedService = Pick<Service, 'price' | 'duration'>
+
+/**
+ * Adds or removes a service, keeping the order services were picked in
+ */
+export function toggleServiceSelection(selectedIds: string[], serviceId: string): string[] {
+  return selectedIds.includes(serviceId)
+    ? selectedIds.filter(id => id !== serviceId)
+    : [...selectedIds, serviceId]
+}
+
+/**
+ * Additional services without duplicates or the primary service
+ */
+export function normalizeAdditionalServiceIds(serviceId: string, additionalServiceIds: unknown): string[] {
+  if (!Array.isArray(additionalServiceIds)) return []
+
+  const ids = additionalServiceIds.filter((id): id is string => typeof id === 'string' && id.trim().length > 0)
+  return [...new Set(ids)].filter(id => id !== serviceId)
+}
+
+/**
+ * Summed price (dollars) and duration (minutes) of the selected services
+ */
+export function getSelectionTotals(services: PricedService[]): { price: number; duration: number } {
+  return services.reduce(
+    (totals, service) => ({
+      price: totals.price + Number(service.price || 0),
+      duration: totals.duration + Number(service.duration || 0)
+    }),
+    { price: 0, duration: 0 }
+  )
+}
@@ -0,0 +1,432 @@
+import { supabase } from './supabase'
+import { logger } from './logger'
+import { AvailabilityService } from './availability-service'
+import type { AvailabilitySlot } from '@/shared/types/availability'
+import type { DepositType, ServicePaymentMode, Shop, ShopAssignmentRule, ShopEarningsRow, ShopMember, ShopRole } from '@/shared/types'
+
+const MAX_SLUG_LENGTH = 60
+// /shop/manage is the management page, so no shop can live there
+const RESERVED_SLUGS = ['manage']
+
+export interface ShopInput {
+  name: string
+  description?: string | null
+  location?: string | null
+  phone?: string | null
+  image_url?: string | null
+  assignment_rule?: ShopAssignmentRule
+}
+
+// A shop the user belongs to, or has been invited to, with their role in it
+export interface ShopMembership {
+  id: string
+  role: ShopRole
+  status: ShopMember['status']
+  shop: Shop
+}
+
+// A start time on the shop's combined schedule and the barbers free then
+export interface ShopSlot {
+  slot_start: string
+  barberIds: string[]
+}
+
+// One barber's version of a service the shop offers
+export interface ShopServiceOffer {
+  barberId: string
+  barberName: string
+  timezone: string
+  isDeveloper: boolean
+  service: {
+    id: string
+    name: string
+    description: string | null
+    duration: number
+    price: number
+    payment_mode?: ServicePaymentMode
+    deposit_type?: DepositType | null
+    deposit_amount?: number | null
+  }
+}
+
+// A service one or more of the shop's barbers offer, matched on its name
+export interface ShopServiceOption {
+  name: string
+  offers: ShopServiceOffer[]
+  minPrice: number
+  maxPrice: number
+}
+
+export interface ShopEarningsTotals {
+  booking_count: number
+  gross: number
+  platform_fees: number
+  barber_payout: number
+}
+
+export const SHOP_ROLE_LABELS: Record<ShopRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  barber: 'Barber'
+}
+
+export const SHOP_ASSIGNMENT_RULE_LABELS: Record<ShopAssignmentRule, string> = {
+  round_robin: 'Round robin',
+  least_booked: 'Least booked that day',
+  highest_rated: 'Highest rated'
+}
+
+// Owners and managers invite barbers and see the shop calendar
+export function canManageShop(role: ShopRole | null | undefined): boolean {
+  return role === 'owner' || role === 'manager'
+}
+
+// The public page address for a shop name, e.g. "Fresh Cuts & Co." -> "fresh-cuts-co"
+export function slugifyShopName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MAX_SLUG_LENGTH)
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Every start time at least one barber is free, earliest first.
+ * Each barber's slots come from their own schedule, so the same instant can
+ * carry different local labels; slots are matched on slot_start.
+ */
+export function mergeShopAvailability(schedules: { barberId: string; slots: AvailabilitySlot[] }[]): ShopSlot[] {
+  const byStart = new Map<string, string[]>()
+
+  for (const { barberId, slots } of schedules) {
+    for (const slot of slots) {
+      if (!slot.available) continue
+      const key = new Date(slot.slot_start).toISOString()
+      byStart.set(key, [...(byStart.get(key) || []), barberId])
+    }
+  }
+
+  return Array.from(byStart.entries())
+    .map(([slot_start, barberIds]) => ({ slot_start, barberIds }))
+    .sort((a, b) => a.slot_start.localeCompare(b.slot_start))
+}
+
+// "Skin Fade " and "skin fade" are the same service on two barbers' menus
+export function normalizeServiceName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase()
+}
+
+/**
+ * The shop's menu for first-available booking: every barber's services grouped by name,
+ * alphabetically. Each barber appears once per option, with their own price and duration.
+ */
+export function groupShopServices(offers: ShopServiceOffer[]): ShopServiceOption[] {
+  const byName = new Map<string, ShopServiceOption>()
+
+  for (const offer of offers) {
+    const key = normalizeServiceName(offer.service.name)
+    const option = byName.get(key)
+    if (!option) {
+      byName.set(key, {
+        name: offer.service.name.trim(),
+        offers: [offer],
+        minPrice: offer.service.price,
+        maxPrice: offer.service.price
+      })
+    } else if (!option.offers.some(existing => existing.barberId === offer.barberId)) {
+      option.offers.push(offer)
+      option.minPrice = Math.min(option.minPrice, offer.service.price)
+      option.maxPrice = Math.max(option.maxPrice, offer.service.price)
+    }
+  }
+
+  return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export function totalShopEarnings(rows: ShopEarningsRow[]): ShopEarningsTotals {
+  return rows.reduce(
+    (totals, row) => ({
+      booking_count: totals.booking_count + row.booking_count,
+      gross: totals.gross + row.gross,
+      platform_fees: totals.platform_fees + row.platform_fees,
+      barber_payout: totals.barber_payout + row.barber_payout
+    }),
+    { booking_count: 0, gross: 0, platform_fees: 0, barber_payout: 0 }
+  )
+}
+
+/**
+ * Shops with several barbers under one owner.
+ *
+ * Members are read and invited straight from the database under row level security;
+ * accepting an invitation and changing roles go through accept_shop_invite and
+ * set_shop_member_role. Bookings and payouts stay with each barber and their own
+ * Stripe account; the shop only groups them. A first-available booking is handed to
+ * one barber by assign_shop_barber and then booked with them like any other.
+ */
+export class ShopService {
+  static async getShopBySlug(slug: string): Promise<Shop | null> {
+    const { data, error } = await supabase
+      .from('shops')
+      .select('*')
+      .eq('slug', slug)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error loading shop', error)
+      throw error
+    }
+    return data as Shop | null
+  }
+
+  // The shop a barber works out of, if any; barbers belong to at most one in practice
+  static async getShopForBarber(barberId: string): Promise<Shop | null> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('shop:shop_id(*)')
+      .eq('barber_id', barberId)
+      .eq('status', 'active')
+      .order('joined_at', { ascending: true })
+      .limit(1)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Error loading barber shop', error)
+      throw error
+    }
+    return ((data as unknown as { shop: Shop | null } | null)?.shop) || null
+  }
+
+  // Shops the user is an active member of, and invitations waiting on them
+  static async getMemberships(userId: string): Promise<ShopMembership[]> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('id, role, status, shop:shop_id(*)')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error loading shop memberships', error)
+      throw error
+    }
+    return ((data || []) as unknown as ShopMembership[]).filter(membership => membership.shop)
+  }
+
+  // The owner joins as the first member; the slug is taken from the name
+  static async createShop(userId: string, input: ShopInput): Promise<Shop> {
+    const base = slugifyShopName(input.name)
+    if (!base) {
+      throw new Error('Give the shop a name with letters or numbers')
+    }
+    const slug = RESERVED_SLUGS.includes(base) ? `${base}-shop` : base
+
+    const { data, error } = await supabase
+      .from('shops')
+      .insert({
+        owner_id: userId,
+        name: input.name.trim(),
+        slug,
+        description: input.description?.trim() || null,
+        location: input.location?.trim() || null,
+        phone: input.phone?.trim() || null,
+        image_url: input.image_url || null
+      })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error creating shop', error)
+      throw new Error(error.code === '23505' ? 'A shop with that name already exists' : error.message)
+    }
+    return data as Shop
+  }
+
+  static async updateShop(shopId: string, input: ShopInput): Promise<Shop> {
+    const { data, error } = await supabase
+      .from('shops')
+      .update({
+        name: input.name.trim(),
+        description: input.description?.trim() || null,
+        location: input.location?.trim() || null,
+        phone: input.phone?.trim() || null,
+        ...(input.assignment_rule ? { assignment_rule: input.assignment_rule } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', shopId)
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Error updating shop', error)
+      throw error
+    }
+    return data as Shop
+  }
+
+  // Owners and managers also see pending invitations; everyone else sees active members
+  static async getMembers(shopId: string): Promise<ShopMember[]> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('*, profile:user_id(name, username, avatar_url)')
+      .eq('shop_id', shopId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error loading shop members', error)
+      throw error
+    }
+    return (data || []) as ShopMember[]
+  }
+
+  static async inviteMember(shopId: string, invitedBy: string, username: string, role: Exclude<ShopRole, 'owner'>): Promise<ShopMember> {
+    const { data: profile, error: profileError } = await supabase
+      .from('profiles')
+      .select('id')
+      .ilike('username', username.trim().replace(/^@/, '').replace(/[%_\\]/g, '\\$&'))
+      .maybeSingle()
+
+    if (profileError) {
+      logger.error('Error looking up invitee', profileError)
+      throw profileError
+    }
+    if (!profile) {
+      throw new Error('No one has that username')
+    }
+
+    const { data, error } = await supabase
+      .from('shop_members')
+      .insert({ shop_id: shopId, user_id: profile.id, role, status: 'invited', invited_by: invitedBy })
+      .select('*, profile:user_id(name, username, avatar_url)')
+      .single()
+
+    if (error) {
+      logger.error('Error inviting shop member', error)
+      throw new Error(error.code === '23505' ? 'They are already a member or invited' : error.message)
+    }
+    return data as ShopMember
+  }
+
+  static async acceptInvite(memberId: string): Promise<void> {
+    const { error } = await supabase.rpc('accept_shop_invite', { p_member_id: memberId })
+
+    if (error) {
+      logger.error('Error accepting shop invitation', error)
+      throw new Error(error.message || 'Failed to accept the invitation')
+    }
+  }
+
+  // Declining an invitation, leaving a shop and removing a member all delete the row
+  static async removeMember(memberId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shop_members')
+      .delete()
+      .eq('id', memberId)
+
+    if (error) {
+      logger.error('Error removing shop member', error)
+      throw error
+    }
+  }
+
+  // Only the owner promotes barbers to manager and back
+  static async setMemberRole(memberId: string, role: Exclude<ShopRole, 'owner'>): Promise<void> {
+    const { error } = await supabase.rpc('set_shop_member_role', {
+      p_member_id: memberId,
+      p_role: role
+    })
+
+    if (error) {
+      logger.error('Error changing shop member role', error)
+      throw new Error(error.message || 'Failed to change the role')
+    }
+  }
+
+  // Each barber's slots for the date (yyyy-MM-dd), merged onto one schedule
+  static async getCombinedAvailability(barberIds: string[], date: string, durationMinutes: number): Promise<ShopSlot[]> {
+    const schedules = await Promise.all(
+      barberIds.map(async barberId => ({
+        barberId,
+        slots: await AvailabilityService.getAvailableSlots(barberId, date, durationMinutes)
+      }))
+    )
+    return mergeShopAvailability(schedules)
+  }
+
+  // Every active barber's services, grouped into the shop's first-available menu
+  static async getBookableServices(shopId: string): Promise<ShopServiceOption[]> {
+    const { data, error } = await supabase
+      .from('shop_members')
+      .select('barber_id, profile:user_id(name), barber:barber_id(timezone, is_developer, services(id, name, description, duration, price, payment_mode, deposit_type, deposit_amount))')
+      .eq('shop_id', shopId)
+      .eq('status', 'active')
+      .not('barber_id', 'is', null)
+      .order('joined_at', { ascending: true })
+
+    if (error) {
+      logger.error('Error loading shop services', error)
+      throw error
+    }
+
+    const offers = ((data || []) as any[]).flatMap(member =>
+      (member.barber?.services || []).map((service: ShopServiceOffer['service']) => ({
+        barberId: member.barber_id,
+        barberName: member.profile?.name || 'Barber',
+        timezone: member.barber.timezone,
+        isDeveloper: !!member.barber.is_developer,
+        service
+      }))
+    )
+    return groupShopServices(offers)
+  }
+
+  // Start times on the date (yyyy-MM-dd) when any barber offering the service is free,
+  // each barber checked against their own duration for it
+  static async getServiceAvailability(option: ShopServiceOption, date: string): Promise<ShopSlot[]> {
+    const schedules = await Promise.all(
+      option.offers.map(async offer => ({
+        barberId: offer.barberId,
+        slots: await AvailabilityService.getAvailableSlots(offer.barberId, date, offer.service.duration)
+      }))
+    )
+    return mergeShopAvailability(schedules)
+  }
+
+  // The shop's assignment rule picks one of its barbers who offer the service and are free at slotStart
+  static async assignBarber(shopId: string, serviceName: string, slotStart: string): Promise<string> {
+    const { data, error } = await supabase.rpc('assign_shop_barber', {
+      p_shop_id: shopId,
+      p_service_name: serviceName,
+      p_start: slotStart
+    })
+
+    if (error || !data) {
+      logger.error('Error assigning shop barber', error)
+      throw new Error(error?.message || 'No barber is free at that time')
+    }
+    return data as string
+  }
+
+  // Owner only; bookings paid between from and to, per barber
+  static async getEarnings(shopId: string, from: Date, to: Date): Promise<ShopEarningsRow[]> {
+    const { data, error } = await supabase.rpc('get_shop_earnings', {
+      p_shop_id: shopId,
+      p_from: from.toISOString(),
+      p_to: to.toISOString()
+    })
+
+    if (error) {
+      logger.error('Error loading shop earnings', error)
+      throw new Error(error.message || 'Failed to load shop earnings')
+    }
+
+    // numeric columns come back as strings
+    return ((data || []) as any[]).map(row => ({
+      ...row,
+      gross: Number(row.gross),
+      platform_fees: Number(row.platform_fees),
+      barber_payout: Number(row.barber_payout)
+    }))
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Timezone utilities for scheduling
+ * Appointments are computed and displayed in the barber's timezone, with the
+ * viewer's local time shown alongside when the two differ.
+ */
+
+// Matches the barbers.timezone column default
+export const DEFAULT_BARBER_TIMEZONE = 'America/New_York'
+
+export const BARBER_TIMEZONES = [
+  { value: 'America/New_York', label: 'Eastern Time' },
+  { value: 'America/Chicago', label: 'Central Time' },
+  { value: 'America/Denver', label: 'Mountain Time' },
+  { value: 'America/Phoenix', label: 'Arizona' },
+  { value: 'America/Los_Angeles', label: 'Pacific Time' },
+  { value: 'America/Anchorage', label: 'Alaska' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii' },
+]
+
+export interface AppointmentTimeLabels {
+  barberTime: string // e.g. "9:00 AM EST"
+  localTime: string | null // e.g. "6:00 AM PST", null when the viewer is in the barber's zone
+}
+
+/**
+ * The timezone of the current device or server process
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Format the time of an instant in a timezone, e.g. "9:00 AM EST"
+ */
+export function formatTimeInZone(date: Date | string, timeZone: string, withZoneName = true): string {
+  return new Date(date).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+    timeZone,
+    ...(withZoneName && { timeZoneName: 'short' as const })
+  })
+}
+
+/**
+ * Format the date of an instant in a timezone, e.g. "Monday, March 10, 2025"
+ */
+export function formatDateInZone(date: Date | string, timeZone: string): string {
+  return new Date(date).toLocaleDateString('en-US', {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone
+  })
+}
+
+/**
+ * Whether two timezones have the same UTC offset at a given instant
+ */
+export function isSameOffset(date: Date | string, timeZoneA: string, timeZoneB: string): boolean {
+  // Same instant, same wall clock means same offset
+  const wallClock = (timeZone: string) => new Date(date).toLocaleString('en-US', { timeZone, hour12: false })
+  return wallClock(timeZoneA) === wallClock(timeZoneB)
+}
+
+/**
+ * Appointment time in the barber's zone plus the viewer's local time when it differs
+ */
+export function getAppointmentTimeLabels(
+  date: Date | string,
+  barberTimeZone: string | null | undefined,
+  localTimeZone: string = getLocalTimeZone()
+): AppointmentTimeLabels {
+  const timeZone = barberTimeZone || DEFAULT_BARBER_TIMEZONE
+
+  return {
+    barberTime: formatTimeInZone(date, timeZone),
+    localTime: isSameOffset(date, timeZone, localTimeZone) ? null : formatTimeInZone(date, localTimeZone)
+  }
+}
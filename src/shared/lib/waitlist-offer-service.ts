@@ -0,0 +1,128 @@
+import { supabaseAdmin } from '@/shared/lib/supabase'
+import { NotificationDelivery } from '@/shared/lib/notification-delivery'
+import { PushDispatcher } from '@/shared/lib/push-dispatcher'
+import { PushTokens } from '@/shared/lib/push-tokens'
+import { DEFAULT_BARBER_TIMEZONE, formatDateInZone, formatTimeInZone } from '@/shared/lib/timezone-utils'
+import { logger } from '@/shared/lib/logger'
+import type { WaitlistEntry } from '@/shared/types/waitlist'
+import type { OutgoingMessage } from '@/shared/types/notification-delivery'
+
+// How long a freed slot is held for the waitlisted client it is offered to
+export const WAITLIST_HOLD_MINUTES = 30
+
+interface OfferRecipient {
+  email: string | null
+}
+
+interface OfferBarber {
+  timezone: string | null
+  profile: { name: string | null; username: string | null } | null
+}
+
+/**
+ * Offers slots freed by cancellations to waitlisted clients.
+ * Server-only: offers are written with the service role.
+ */
+export class WaitlistOfferService {
+  /**
+   * Holds a freed slot for the next waitlisted client and tells them about it.
+   * Returns the offered entry, or null when nobody on the waitlist fits the slot.
+   */
+  static async offerFreedSlot(barberId: string, slotStart: string): Promise<WaitlistEntry | null> {
+    try {
+      const { data, error } = await supabaseAdmin.rpc('offer_waitlist_slot', {
+        p_barber_id: barberId,
+        p_slot_start: slotStart,
+        p_hold_minutes: WAITLIST_HOLD_MINUTES
+      })
+
+      if (error) throw error
+
+      const entry = (data as WaitlistEntry[] | null)?.[0]
+      if (!entry) return null
+
+      await this.notifyOffer(entry)
+      return entry
+    } catch (error) {
+      logger.error('Error offering freed slot to waitlist', error)
+      throw error
+    }
+  }
+
+  /**
+   * Expires offers whose hold has run out and passes each slot on to the next client in line.
+   * Returns the number of expired offers.
+   */
+  static async expireOffers(): Promise<number> {
+    try {
+      const { data, error } = await supabaseAdmin.rpc('expire_waitlist_offers')
+
+      if (error) throw error
+
+      const expired = (data as { barber_id: string; slot_start: string }[] | null) || []
+      for (const offer of expired) {
+        try {
+          await this.offerFreedSlot(offer.barber_id, offer.slot_start)
+        } catch (offerError) {
+          logger.error('Error re-offering expired waitlist slot', offerError)
+        }
+      }
+
+      return expired.length
+    } catch (error) {
+      logger.error('Error expiring waitlist offers', error)
+      throw error
+    }
+  }
+
+  // Each channel is best effort; the hold stands even if a message fails to send
+  private static async notifyOffer(entry: WaitlistEntry) {
+    const [{ data: client }, { data: barber }, { data: service }, pushTokens] = await Promise.all([
+      supabaseAdmin.from('profiles').select('email').eq('id', entry.client_id).single(),
+      supabaseAdmin.from('barbers').select('timezone, profile:user_id(name, username)').eq('id', entry.barber_id).single(),
+      supabaseAdmin.from('services').select('name').eq('id', entry.service_id).single(),
+      PushTokens.getForUsers([entry.client_id])
+    ])
+
+    const recipient = client as OfferRecipient | null
+    const barberInfo = barber as unknown as OfferBarber | null
+    const timeZone = barberInfo?.timezone || DEFAULT_BARBER_TIMEZONE
+    const barberName = barberInfo?.profile?.name || 'Your barber'
+    const serviceName = service?.name || 'appointment'
+    const slotStart = entry.offered_slot_start as string
+    const when = `${formatDateInZone(slotStart, timeZone)} at ${formatTimeInZone(slotStart, timeZone)}`
+    const expires = formatTimeInZone(entry.offer_expires_at as string, timeZone)
+    const bookingUrl = `${process.env.NEXT_PUBLIC_APP_URL}/book/${barberInfo?.profile?.username || entry.barber_id}`
+
+    const title = 'A spot opened up'
+    const message = `${barberName} has an opening for your ${serviceName} on ${when}. It's held for you until ${expires}.`
+
+    // Each offer of a slot reaches the client once per channel
+    const dedupeKey = `waitlist:${entry.id}:${slotStart}`
+    const offer = { recipientId: entry.client_id, type: 'waitlist_offer', title, body: message }
+    const messages: OutgoingMessage[] = [
+      { ...offer, channel: 'in_app', to: entry.client_id, dedupeKey: `${dedupeKey}:in_app` },
+      ...PushDispatcher.toMessages(entry.client_id, pushTokens.get(entry.client_id) || [], {
+        type: 'waitlist_offer',
+        title,
+        body: message,
+        data: { waitlistId: entry.id, barberId: entry.barber_id },
+        dedupeKey: `${dedupeKey}:push`
+      })
+    ]
+
+    if (recipient?.email) {
+      messages.push({
+        ...offer,
+        channel: 'email',
+        to: recipient.email,
+        title: `${title}: ${serviceName} on ${when}`,
+        body: `${message}\n\nBook it here: ${bookingUrl}\n\nIf you don't book by then, it goes to the next person on the waitlist.`,
+        html: `<p>${message}</p><p><a href="${bookingUrl}">Book your spot</a></p><p>If you don't book by then, it goes to the next person on the waitlist.</p>`,
+        dedupeKey: `${dedupeKey}:email`
+      })
+    }
+
+    await NotificationDelivery.sendAll(messages)
+  }
+}
@@ -0,0 +1,78 @@
+import { supabase } from './supabase'
+import { WaitlistEntry } from '@/shared/types/waitlist'
+import { logger } from './logger'
+
+/**
+ * Client side of the booking waitlist.
+ *
+ * Clients join for a barber and a day (yyyy-MM-dd in the barber's timezone).
+ * When a booking on that day is cancelled the server offers the slot to the
+ * first client in line (see WaitlistOfferService) and holds it for them.
+ */
+export class WaitlistService {
+  static async joinWaitlist(barberId: string, serviceId: string, date: string): Promise<WaitlistEntry> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) {
+        throw new Error('You must be signed in to join the waitlist')
+      }
+
+      const { data, error } = await supabase
+        .from('booking_waitlist')
+        .insert({
+          barber_id: barberId,
+          client_id: user.id,
+          service_id: serviceId,
+          date
+        })
+        .select('*')
+        .single()
+
+      if (error) {
+        // idx_booking_waitlist_active allows one active entry per barber and day
+        if (error.code === '23505') {
+          throw new Error("You're already on the waitlist for this day")
+        }
+        throw error
+      }
+
+      return data as WaitlistEntry
+    } catch (error) {
+      logger.error('Error joining waitlist', error)
+      throw error
+    }
+  }
+
+  static async leaveWaitlist(entryId: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('booking_waitlist')
+        .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+        .eq('id', entryId)
+
+      if (error) throw error
+    } catch (error) {
+      logger.error('Error leaving waitlist', error)
+      throw error
+    }
+  }
+
+  // The signed-in client's active entry for a barber and day, if any
+  static async getActiveEntry(barberId: string, date: string): Promise<WaitlistEntry | null> {
+    try {
+      const { data, error } = await supabase
+        .from('booking_waitlist')
+        .select('*')
+        .eq('barber_id', barberId)
+        .eq('date', date)
+        .in('status', ['waiting', 'offered'])
+        .maybeSingle()
+
+      if (error) throw error
+      return (data as WaitlistEntry | null) ?? null
+    } catch (error) {
+      logger.error('Error fetching waitlist entry', error)
+      throw error
+    }
+  }
+}
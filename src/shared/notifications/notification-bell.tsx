@@ -9,61 +9,33 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/shared/components/ui/dropdown-menu"
-import { NotificationService, Notification } from "@/shared/lib/notification-service"
+import { Notification } from "@/shared/lib/notification-service"
+import { getNotificationHref } from "@/shared/lib/notification-links"
+import { useNotificationInbox } from "@/shared/hooks/use-notification-inbox"
 import { useAuth } from "@/shared/hooks/use-auth-zustand"
-import { useEffect, useState } from "react"
-import { Badge } from '@/shared/components/ui/badge'
-import { Popover, PopoverContent, PopoverTrigger } from '@/shared/components/ui/popover'
+import { useState } from "react"
+import { useRouter } from "next/navigation"
 import { ScrollArea } from '@/shared/components/ui/scroll-area'
-import { supabase } from '@/shared/lib/supabase'
-import { Notification as NotificationType } from '@/shared/types'
 import { cn } from '@/shared/lib/utils'
-import { logger } from '@/shared/lib/logger'
 
 export function NotificationBell() {
-  const [notifications, setNotifications] = useState<Notification[]>([])
-  const [unreadCount, setUnreadCount] = useState(0)
   const [isOpen, setIsOpen] = useState(false)
   const { user } = useAuth()
+  const router = useRouter()
+  const { notifications, unreadCount, markAsRead, markAllAsRead } = useNotificationInbox(20)
 
-  useEffect(() => {
-    if (user) {
-      loadNotifications()
-      // Poll for new notifications every minute
-      const interval = setInterval(loadNotifications, 60000)
-      return () => clearInterval(interval)
-    }
-  }, [user])
-
-  const loadNotifications = async () => {
-    if (!user) return
-    try {
-      const userNotifications = await NotificationService.getUserNotifications(user.id)
-      setNotifications(userNotifications)
-      const count = await NotificationService.getUnreadCount(user.id)
-      setUnreadCount(count)
-    } catch (error) {
-      logger.error("Error loading notifications", error)
+  const handleOpenNotification = async (notification: Notification) => {
+    await markAsRead(notification.id)
+    const href = getNotificationHref(notification, user?.username)
+    if (href) {
+      setIsOpen(false)
+      router.push(href)
     }
   }
 
-  const handleMarkAsRead = async (notificationId: string) => {
-    try {
-      await NotificationService.markAsRead(notificationId)
-      await loadNotifications()
-    } catch (error) {
-      logger.error("Error marking notification as read", error)
-    }
-  }
-
-  const handleMarkAllAsRead = async () => {
-    if (!user) return
-    try {
-      await NotificationService.markAllAsRead(user.id)
-      await loadNotifications()
-    } catch (error) {
-      logger.error("Error marking all notifications as read", error)
-    }
+  const handleViewAll = () => {
+    setIsOpen(false)
+    router.push('/notifications')
   }
 
   return (
@@ -94,7 +66,7 @@ export function NotificationBell() {
             <Button 
               variant="ghost" 
               size="sm" 
-              onClick={handleMarkAllAsRead}
+              onClick={markAllAsRead}
               className="text-saffron hover:text-saffron/80 hover:bg-saffron/10 transition-all duration-300 text-sm font-medium"
             >
               Mark all as read
@@ -118,7 +90,7 @@ export function NotificationBell() {
                       ? "bg-saffron/10 border border-saffron/20 shadow-lg shadow-saffron/10" 
                       : "bg-white/5 hover:bg-white/10"
                   )}
-                  onClick={() => handleMarkAsRead(notification.id)}
+                  onClick={() => handleOpenNotification(notification)}
                 >
                   <div className="flex flex-col gap-2">
                     <div className={cn(
@@ -142,6 +114,16 @@ export function NotificationBell() {
             </div>
           )}
         </ScrollArea>
+        <div className="p-2 border-t border-white/10">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleViewAll}
+            className="w-full text-white/70 hover:text-white hover:bg-white/10 transition-all duration-300 text-sm font-medium"
+          >
+            View all notifications
+          </Button>
+        </div>
       </DropdownMenuContent>
     </DropdownMenu>
   )
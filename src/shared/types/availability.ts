@@ -0,0 +1,18 @@
+// Rejection reasons returned by the check_slot_availability() database function
+export type SlotUnavailableReason =
+  | 'Booking time is in the past'
+  | 'Booking time is not within barber availability'
+  | 'Booking time conflicts with existing booking'
+  | 'Same day bookings not allowed'
+  | 'Booking too far in advance'
+  | 'Daily booking limit exceeded'
+  | 'Minimum interval between bookings not met'
+  | 'This time is being held for a waitlisted client'
+
+// One row of the get_available_slots() database function
+export interface AvailabilitySlot {
+  slot_start: string // ISO timestamp of the slot start
+  slot_time: string // HH:mm in the barber's schedule
+  available: boolean
+  reason: SlotUnavailableReason | null
+}
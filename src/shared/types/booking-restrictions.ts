@@ -5,6 +5,11 @@ export interface BookingRestrictions {
   max_bookings_per_day: number
   advance_booking_days: number
   same_day_booking_enabled: boolean
+  reschedule_cutoff_hours: number
+  max_reschedules: number
+  cancellation_window_hours: number
+  no_show_fee: number
+  reminder_offsets_minutes: number[] // minutes before the appointment; empty turns reminders off
   created_at: string
   updated_at: string
 }
@@ -37,6 +42,8 @@ export interface SchedulingSlot {
   updated_at: string
 }
 
+export type OnDemandRequestStatus = 'pending' | 'accepted' | 'declined' | 'expired' | 'cancelled' | 'completed'
+
 export interface OnDemandRequest {
   id: string
   client_id: string
@@ -46,10 +53,15 @@ export interface OnDemandRequest {
   location_lat?: number
   location_lng?: number
   location_address?: string
-  status: 'pending' | 'accepted' | 'declined' | 'expired' | 'completed'
-  price: number
+  status: OnDemandRequestStatus
+  price: number // Surge-adjusted service price, paid at the appointment
   surge_multiplier: number
+  distance_miles?: number
   notes?: string
+  expires_at?: string // The barber must answer by then
+  responded_at?: string
+  payment_intent_id?: string // Platform fee hold, captured on acceptance
+  booking_id?: string // Set once accepted
   created_at: string
   updated_at: string
 }
@@ -88,4 +100,15 @@ export interface OnDemandRequestFormData {
   location_lng?: number
   location_address?: string
   notes?: string
-} 
\ No newline at end of file
+} 
+// One row of booking_reminders
+export interface BookingReminder {
+  id: string
+  booking_id: string
+  offset_minutes: number
+  appointment_at: string // the booking's start when the reminder was claimed
+  status: 'sending' | 'sent' | 'failed' | 'skipped'
+  delivery_count: number
+  sent_at: string | null
+  created_at: string
+}
@@ -0,0 +1,33 @@
+export type SeriesScope = 'this' | 'following' | 'all'
+
+// One row of booking_series
+export interface BookingSeries {
+  id: string
+  barber_id: string
+  service_id: string
+  client_id: string | null
+  guest_name: string | null
+  guest_email: string | null
+  guest_phone: string | null
+  interval_weeks: number
+  start_time: string // HH:mm:ss in the barber's timezone
+  starts_on: string // YYYY-MM-DD, first occurrence
+  ends_on: string // YYYY-MM-DD
+  price: number
+  notes: string | null
+  status: 'active' | 'cancelled'
+  created_at: string
+  updated_at: string
+}
+
+// One row returned by generate_series_bookings() / update_series_bookings()
+export interface SeriesOccurrence {
+  occurrence_start: string
+  booking_id: string | null
+  skipped_reason: string | null // Set when the occurrence could not be booked
+}
+
+export interface SeriesChangeResult {
+  created: SeriesOccurrence[]
+  skipped: SeriesOccurrence[]
+}
@@ -1,5 +1,7 @@
 export type BookingStatus = "pending" | "confirmed" | "cancelled" | "completed" | "no_show"
 export type PaymentStatus = "pending" | "succeeded" | "failed" | "refunded"
+// declined when the client chose not to tip, so they are not asked again
+export type TipStatus = "pending" | "succeeded" | "failed" | "declined" | "refunded"
 
 export type Barber = {
   id: string
@@ -11,12 +13,25 @@ export type Barber = {
 
 import { ServiceAddon } from './addon'
 
+// A service booked in an appointment, priced at the time of booking
+export interface BookingServiceItem {
+  id: string
+  booking_id: string
+  service_id: string | null
+  name: string
+  price: number
+  duration: number
+  position: number
+}
+
 export interface Booking {
   id: string
   barber_id: string
   client_id: string | null
   service_id: string
+  additional_service_ids?: string[]
   date: string
+  end_time?: string | null
   status: BookingStatus
   price: number
   payment_status: PaymentStatus
@@ -24,6 +39,22 @@ export interface Booking {
   platform_fee: number
   barber_payout: number
   addon_total: number
+  service_price?: number
+  reschedule_count?: number
+  cancelled_at?: string | null
+  policy_fee?: number | null
+  policy_fee_status?: "pending" | "succeeded" | "failed" | null
+  series_id?: string | null
+  group_id?: string | null
+  group_member_name?: string | null
+  checked_in_at?: string | null
+  check_in_method?: "manual" | "qr" | null
+  service_started_at?: string | null
+  completed_at?: string | null
+  tip_amount?: number | null
+  tip_status?: TipStatus | null
+  tip_payment_intent_id?: string | null
+  tipped_at?: string | null
   guest_name: string | null
   guest_email: string | null
   guest_phone: string | null
@@ -34,6 +65,18 @@ export interface Booking {
   service?: any // Replace with proper service type
   client?: any // Replace with proper client type
   addons?: ServiceAddon[]
+  booking_services?: BookingServiceItem[]
   client_sms_notifications?: boolean;
   barber_sms_notifications?: boolean;
-} 
\ No newline at end of file
+} 
+
+// Punctuality and service time over a barber's recent appointments, in minutes
+export interface BarberLifecycleMetrics {
+  checked_in_count: number
+  on_time_count: number
+  avg_arrival_minutes: number | null // Negative when clients arrive early
+  avg_wait_minutes: number | null // Time clients wait to be seated
+  completed_count: number
+  avg_service_minutes: number | null
+  avg_booked_minutes: number | null // Booked length of the same appointments
+}
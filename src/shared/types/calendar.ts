@@ -11,6 +11,14 @@ export type Service = {
   price: number
 }
 
+// The group booking an event belongs to; each person in the group is their own event
+export type CalendarEventGroup = {
+  id: string
+  name: string | null
+  size: number
+  memberName: string | null
+}
+
 export type CalendarEvent = {
   id: string
   title: string
@@ -20,4 +28,5 @@ export type CalendarEvent = {
   service: Service
   barber: Person
   client: Person
+  group?: CalendarEventGroup
 } 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import type { FeeBreakdown } from '@/shared/lib/fee-calculator'
+import type { EmailAttachment } from '@/shared/types/notification-delivery'
+
+// Who an email about a booking is written for
+export type EmailAudience = 'client' | 'barber'
+
+// A subject, HTML and plain-text body ready for the email provider
+export interface RenderedEmail {
+  subject: string
+  html: string
+  text: string
+  attachments?: EmailAttachment[]
+}
+
+export interface BookingEmailData {
+  bookingId: string
+  audience: EmailAudience
+  recipientName: string
+  clientName: string
+  barberName: string
+  serviceName: string
+  start: string // ISO timestamp
+  end: string
+  timeZone: string // the barber's timezone, which every time is shown in
+  location?: string | null
+  manageUrl: string
+  sequence: number // bookings.reschedule_count, so calendars apply changes in order
+}
+
+export interface BookingRescheduledEmailData extends BookingEmailData {
+  previousStart: string
+}
+
+export interface BookingCancelledEmailData extends BookingEmailData {
+  cancelledBy: EmailAudience
+  refunded: boolean
+  feeCents?: number | null // late cancellation fee charged to the client
+}
+
+export interface ReceiptLineItem {
+  name: string
+  amountCents: number
+}
+
+export interface ReceiptEmailData {
+  bookingId: string
+  audience: EmailAudience
+  recipientName: string
+  clientName: string
+  barberName: string
+  start: string
+  timeZone: string
+  services: ReceiptLineItem[]
+  addons: ReceiptLineItem[]
+  fees: FeeBreakdown
+  amountPaidCents: number // what was charged online when the booking was made
+  paidAt: string
+}
+
+export interface ReviewRequestEmailData {
+  recipientName: string
+  barberName: string
+  serviceName: string
+  reviewUrl: string
+}
+
+export type AuthLinkType = 'password_reset' | 'magic_link'
+
+export interface AuthLinkEmailData {
+  type: AuthLinkType
+  link: string
+  expiresInHours: number
+}
+
+export interface CallInviteEmailData {
+  calendlyUrl: string
+}
+
+export interface GiftReceivedEmailData {
+  recipientName: string | null
+  purchaserName: string
+  barberName: string
+  description: string // "$50.00 gift card" or "5 Haircut visits"
+  message: string | null
+  claimUrl: string
+  code: string
+}
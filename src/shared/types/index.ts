@@ -54,6 +54,7 @@ export interface Barber {
   longitude?: number;
   city?: string;
   state?: string;
+  timezone?: string; // IANA timezone the barber's schedule is expressed in
   distance?: number; // Distance from user's location in miles
   // Additional fields
   joinDate?: string;
@@ -63,6 +64,28 @@ export interface Barber {
 }
 
 // Service Types
+// How much of a service the client pays online when booking
+export type ServicePaymentMode = 'fee_only' | 'deposit' | 'full'
+export type DepositType = 'fixed' | 'percentage'
+
+// Booking fee schedules
+export type FeeType = 'fixed' | 'percentage'
+
+// One row of fee_schedules; barber_id is null for the platform-wide schedule
+export interface FeeSchedule {
+  id: string
+  barber_id: string | null
+  name: string
+  fee_type: FeeType
+  fee_cents: number // the fee when fixed, the minimum when a percentage
+  fee_percentage: number | null // percent of the services total
+  stripe_fee_cents: number | null // null estimates Stripe's 2.9% + $0.30
+  platform_share: number // 0 to 1, of the fee left after Stripe
+  effective_from: string
+  effective_until: string | null
+  created_at: string
+}
+
 export interface Service {
   id: string;
   barber_id: string;
@@ -70,6 +93,9 @@ export interface Service {
   description?: string;
   duration: number;
   price: number;
+  payment_mode?: ServicePaymentMode;
+  deposit_type?: DepositType | null;
+  deposit_amount?: number | null; // dollars when fixed, percent of the price when percentage
   created_at: string;
   updated_at: string;
   barber?: Barber;
@@ -103,6 +129,11 @@ export interface Booking {
   status: BookingStatus;
   payment_status: PaymentStatus;
   price: number;
+  payment_mode?: ServicePaymentMode;
+  amount_prepaid?: number; // dollars paid online toward the service
+  fee_schedule_id?: string | null;
+  promo_code_id?: string | null;
+  discount_amount?: number; // dollars taken off by the promo code
   notes?: string;
   guest_name?: string;
   guest_email?: string;
@@ -115,29 +146,44 @@ export interface Booking {
 }
 
 // Message Types
+export type MessageStatus = 'sent' | 'delivered' | 'read'
+
+// One row of messages
 export interface Message {
   id: string
-  conversationId: string
-  senderId: string
+  conversation_id: string
+  sender_id: string
   text: string
-  timestamp: Date
-  status: 'sent' | 'delivered' | 'read'
-  createdAt: string
-  updatedAt: string
+  attachment_path: string | null // object in the message-attachments bucket
+  status: MessageStatus
+  delivered_at: string | null
+  read_at: string | null
+  created_at: string
+  updated_at: string
 }
 
 // Conversation Types
+// One row of conversations: a client and a barber, optionally about one booking
 export interface Conversation {
   id: string
-  participants: string[]
-  lastMessage: {
-    text: string
-    timestamp: Date
-    senderId: string
+  client_id: string
+  barber_id: string // barbers.id, like bookings.barber_id
+  booking_id: string | null
+  last_message_text: string | null
+  last_message_sender_id: string | null
+  last_message_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// A conversation as one participant sees it in their list
+export interface ConversationSummary extends Conversation {
+  other_user: {
+    id: string
+    name: string
+    avatar_url: string | null
   }
-  unreadCount: number
-  createdAt: string
-  updatedAt: string
+  unread_count: number
 }
 
 // Helper Types
@@ -153,34 +199,110 @@ export interface DateTimeSelection {
 }
 
 // Job Types
+export type JobType = "chair_rental" | "position"
+export type JobStatus = "open" | "closed" | "filled"
+export type JobApplicationStatus = "pending" | "reviewing" | "accepted" | "rejected"
+
+// One row of job_posts
 export interface JobPost {
   id: string
-  businessId: string
-  businessName: string
-  businessImage: string
+  poster_id: string
+  business_name: string
+  business_image: string | null
+  job_type: JobType
   title: string
   description: string
   requirements: string[]
+  compensation: string | null
   location: string
-  salary: string
-  postedDate: string
-  status: "open" | "closed"
+  latitude: number | null
+  longitude: number | null
+  status: JobStatus
+  created_at: string
+  updated_at: string
+  distance?: number // Miles from the browsing barber, when they share their location
 }
 
+// One row of job_applications; the review stats are from when the barber applied
 export interface JobApplication {
   id: string
-  jobId: string
-  barberId: string
+  job_id: string
+  applicant_id: string
+  barber_id: string
+  cover_letter: string
+  review_count: number
+  average_rating: number | null
+  cut_count: number
+  status: JobApplicationStatus
+  created_at: string
+  updated_at: string
+}
+
+// An application as the poster sees it, with the barber's profile and latest cuts
+export interface JobApplicant extends JobApplication {
   barber: {
     id: string
     name: string
-    image: string
-    experience: string
-    location: string
+    avatar_url: string | null
+    username: string | null
+    bio: string | null
+    specialties: string[]
+    location: string | null
+  }
+  cuts: { id: string; title: string; url: string; thumbnail: string | null }[]
+}
+
+// Shop Types
+export type ShopRole = "owner" | "manager" | "barber"
+export type ShopMemberStatus = "invited" | "active"
+// How a first-available booking picks among the barbers free at that time
+export type ShopAssignmentRule = "round_robin" | "least_booked" | "highest_rated"
+
+// One row of shops
+export interface Shop {
+  id: string
+  owner_id: string
+  name: string
+  slug: string
+  description: string | null
+  location: string | null
+  phone: string | null
+  image_url: string | null
+  assignment_rule: ShopAssignmentRule
+  last_assigned_barber_id: string | null
+  created_at: string
+  updated_at: string
+}
+
+// One row of shop_members with the member's profile; barber_id is null for managers who don't cut
+export interface ShopMember {
+  id: string
+  shop_id: string
+  user_id: string
+  barber_id: string | null
+  role: ShopRole
+  status: ShopMemberStatus
+  invited_by: string | null
+  created_at: string
+  joined_at: string | null
+  profile: {
+    name: string
+    username: string | null
+    avatar_url: string | null
   }
-  status: "pending" | "reviewing" | "accepted" | "rejected"
-  appliedDate: string
-  coverLetter: string
+}
+
+// One barber's takings over a period, from get_shop_earnings
+export interface ShopEarningsRow {
+  barber_id: string
+  user_id: string
+  name: string
+  role: ShopRole
+  stripe_account_ready: boolean
+  booking_count: number
+  gross: number
+  platform_fees: number
+  barber_payout: number
 }
 
 export interface CalendarEvent {
@@ -0,0 +1,58 @@
+export type DeliveryChannel = 'sms' | 'email' | 'push' | 'in_app'
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed'
+
+// A file sent with an email, e.g. a calendar invite
+export interface EmailAttachment {
+  filename: string
+  content: string
+  contentType: string
+}
+
+// A message for one recipient on one channel
+export interface OutgoingMessage {
+  channel: DeliveryChannel
+  to: string // phone number, email address, push token or, for in-app, the user id
+  recipientId?: string | null // the recipient's profile; null for guests
+  type: string // e.g. booking_confirmed; also the in-app notification type
+  title: string
+  body: string
+  loggedBody?: string // stored in the delivery log instead of body when the body carries a secret, e.g. a sign-in link
+  html?: string // email only
+  attachments?: EmailAttachment[] // email only
+  data?: Record<string, unknown> // push only
+  bookingId?: string | null
+  dedupeKey?: string // a message with a key that was already used is not sent again
+}
+
+// One row of notification_deliveries
+export interface NotificationDelivery {
+  id: string
+  channel: DeliveryChannel
+  provider: string | null
+  recipient_id: string | null
+  recipient: string
+  type: string
+  booking_id: string | null
+  title: string
+  body: string
+  status: DeliveryStatus
+  attempts: number
+  last_error: string | null
+  provider_message_id: string | null
+  dedupe_key: string | null
+  sent_at: string | null
+  receipt_checked_at?: string | null // push only
+  created_at: string
+  updated_at: string
+}
+
+// A push for every device a user is signed in on
+export interface PushNotification {
+  type: string
+  title: string
+  body: string
+  data?: Record<string, unknown>
+  bookingId?: string | null
+  dedupeKey?: string // the device's token is appended, so each device gets the push once
+}
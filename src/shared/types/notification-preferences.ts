@@ -0,0 +1,27 @@
+import type { DeliveryChannel } from './notification-delivery'
+
+export type NotificationEvent =
+  | 'booking_created'
+  | 'booking_cancelled'
+  | 'booking_reminder'
+  | 'review_received'
+  | 'payout'
+  | 'new_follower_cut'
+  | 'new_message'
+  | 'job_application'
+
+// In-app notifications always go to the inbox; the other channels can be turned off per event
+export type PreferenceChannel = Exclude<DeliveryChannel, 'in_app'>
+
+export type ChannelPreferences = Partial<Record<NotificationEvent, Partial<Record<PreferenceChannel, boolean>>>>
+
+// One row of notification_preferences
+export interface NotificationPreferences {
+  user_id: string
+  channels: ChannelPreferences
+  quiet_hours_start: string | null // HH:MM[:SS] in the user's timezone
+  quiet_hours_end: string | null
+  timezone: string
+  created_at: string
+  updated_at: string
+}
@@ -0,0 +1,68 @@
+export type PrepaidKind = 'gift_card' | 'package'
+// pending until the payment succeeds; void when it was refunded
+export type PrepaidStatus = 'pending' | 'active' | 'void'
+
+// One row of barber_packages: visit_count visits of one service for price dollars
+export interface BarberPackage {
+  id: string
+  barber_id: string
+  service_id: string
+  name: string
+  description: string | null
+  visit_count: number
+  price: number
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// One row of prepaid_balances, a gift card or a package
+export interface PrepaidBalance {
+  id: string
+  code: string // claims a gift, also used in its link
+  kind: PrepaidKind
+  barber_id: string
+  package_id: string | null
+  service_id: string | null // the service a package's visits are for
+  purchaser_id: string
+  owner_id: string | null // null until a gift is claimed
+  is_gift: boolean
+  recipient_name: string | null
+  recipient_email: string | null
+  message: string | null
+  purchase_amount: number // dollars paid
+  visit_count: number | null // packages only
+  amount_remaining: number // dollars; for a package, the paid value of the visits left
+  visits_remaining: number
+  status: PrepaidStatus
+  payment_intent_id: string | null
+  claimed_at: string | null
+  created_at: string
+  updated_at: string
+}
+
+// One row of find_prepaid_balance, what the claim page shows for a code
+export interface PrepaidBalanceLookup {
+  id: string
+  kind: PrepaidKind
+  barber_id: string
+  barber_name: string
+  barber_username: string | null
+  service_name: string | null
+  recipient_name: string | null
+  message: string | null
+  purchase_amount: number
+  visit_count: number | null
+  amount_remaining: number
+  visits_remaining: number
+  status: PrepaidStatus
+  is_claimed: boolean
+}
+
+// get_prepaid_liability: what the barber has been paid for but not yet cut, in dollars
+export interface PrepaidLiability {
+  gift_card_balance: number
+  package_balance: number
+  package_visits: number
+  open_balances: number
+}
@@ -0,0 +1,38 @@
+export type PromoDiscountType = 'percentage' | 'fixed'
+// Barber codes come off the services, platform codes off the booking fee
+export type PromoFunding = 'barber' | 'platform'
+
+// One row of promo_codes; barber_id is null for a platform code
+export interface PromoCode {
+  id: string
+  barber_id: string | null
+  code: string
+  description: string | null
+  discount_type: PromoDiscountType
+  discount_value: number // percent when a percentage, otherwise dollars
+  max_redemptions: number | null
+  max_redemptions_per_client: number | null
+  first_visit_only: boolean
+  service_ids: string[] // empty applies to every service
+  weekdays: number[] // 0 = Sunday in the barber's timezone; empty applies every day
+  starts_at: string
+  expires_at: string | null
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+// What preview_promo_code shows the booking form about a code it can use
+export type PromoCodePreview = Pick<
+  PromoCode,
+  'id' | 'barber_id' | 'code' | 'discount_type' | 'discount_value' | 'service_ids' | 'first_visit_only' | 'weekdays'
+>
+
+// One row of get_promo_code_report
+export interface PromoCodeReport {
+  promo_code_id: string
+  redemption_count: number
+  discount_total: number // dollars
+  booking_total: number // dollars the discounted services and add-ons came to
+  last_redeemed_at: string | null
+}
@@ -1,3 +1,5 @@
+import type { DepositType, ServicePaymentMode } from './index'
+
 export type Service = {
   id: string
   name: string
@@ -5,4 +7,7 @@ export type Service = {
   duration: number
   price: number
   barberId: string
+  payment_mode?: ServicePaymentMode
+  deposit_type?: DepositType | null
+  deposit_amount?: number | null
 } 
\ No newline at end of file
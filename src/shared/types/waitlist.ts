@@ -0,0 +1,17 @@
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled'
+
+// One row of booking_waitlist
+export interface WaitlistEntry {
+  id: string
+  barber_id: string
+  client_id: string
+  service_id: string
+  date: string // YYYY-MM-DD in the barber's timezone
+  status: WaitlistStatus
+  offered_slot_start: string | null
+  offered_slot_end: string | null
+  offer_expires_at: string | null
+  booking_id: string | null
+  created_at: string
+  updated_at: string
+}
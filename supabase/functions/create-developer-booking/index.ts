@@ -34,7 +34,8 @@ serve(async (req) => {
       guestPhone, 
       clientId, 
       paymentType,
-      addonIds = []
+      addonIds = [],
+      additionalServiceIds = []
     } = requestBody
     
     console.log('Parsed request data:', {
@@ -44,6 +45,7 @@ serve(async (req) => {
       clientId,
       hasGuestInfo: !!(guestName || guestEmail || guestPhone),
       addonIds,
+      additionalServiceIds,
     })
 
     // Validate required fields
@@ -84,14 +86,16 @@ serve(async (req) => {
       )
     }
 
-    // Get service details
-    const { data: service, error: serviceError } = await supabase
+    // Get details for every booked service; serviceId is the primary service
+    const extraServiceIds: string[] = [...new Set<string>(additionalServiceIds)].filter((id) => id && id !== serviceId)
+    const { data: services, error: serviceError } = await supabase
       .from('services')
       .select('id, name, price, duration')
-      .eq('id', serviceId)
-      .single()
+      .eq('barber_id', barberId)
+      .in('id', [serviceId, ...extraServiceIds])
 
-    if (serviceError || !service) {
+    const service = services?.find((s: any) => s.id === serviceId)
+    if (serviceError || !service || services.length !== extraServiceIds.length + 1) {
       return new Response(
         JSON.stringify({ error: 'Service not found' }),
         { 
@@ -115,16 +119,20 @@ serve(async (req) => {
       }
     }
 
+    const servicePrice = services.reduce((total: number, s: any) => total + Number(s.price || 0), 0)
+    const serviceDuration = services.reduce((total: number, s: any) => total + Number(s.duration || 0), 0)
+
     // For developer accounts, no platform fees
     const platformFee = 0
-    const barberPayout = service.price + addonTotal
-    const totalPrice = service.price + addonTotal
+    const barberPayout = servicePrice + addonTotal
+    const totalPrice = servicePrice + addonTotal
 
     const bookingData = {
       barber_id: barberId,
       service_id: serviceId,
+      additional_service_ids: extraServiceIds,
       date: date,
-      end_time: new Date(new Date(date).getTime() + service.duration * 60000).toISOString(),
+      end_time: new Date(new Date(date).getTime() + serviceDuration * 60000).toISOString(),
       notes: notes || '',
       guest_name: guestName || null,
       guest_email: guestEmail || null,
@@ -133,7 +141,7 @@ serve(async (req) => {
       status: 'confirmed',
       payment_status: 'succeeded',
       price: totalPrice,
-      service_price: service.price, // Store historical service price
+      service_price: servicePrice, // Store historical total of the booked services
       addon_total: addonTotal,
       platform_fee: platformFee,
       barber_payout: barberPayout,
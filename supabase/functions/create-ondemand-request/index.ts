@@ -0,0 +1,300 @@
+/// <reference path="../types.d.ts" />
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import Stripe from 'https://esm.sh/stripe@14.21.0?target=deno'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Stripe metadata values are limited to 500 characters
+const MAX_METADATA_LENGTH = 500
+
+// Sends an on-demand request to a nearby barber. The platform fee is authorized
+// now and only captured if the barber accepts; the request itself is recorded by
+// the Stripe webhook once the hold succeeds.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    console.log('create-ondemand-request function called')
+
+    // Create Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Create Stripe client
+    const stripeSecretKey = Deno.env.get('STRIPE_SECRET_KEY')!
+    const stripe = new Stripe(stripeSecretKey, {
+      apiVersion: '2024-06-20' as any,
+    })
+
+    // Parse request body
+    const {
+      barberId,
+      serviceId,
+      requestedTime,
+      latitude,
+      longitude,
+      address,
+      notes,
+      clientId
+    } = await req.json()
+
+    console.log('Request body parsed:', { barberId, serviceId, requestedTime, clientId })
+
+    if (!barberId || !serviceId || !requestedTime) {
+      return new Response(
+        JSON.stringify({ error: 'barberId, serviceId, and requestedTime are required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (!clientId) {
+      return new Response(
+        JSON.stringify({ error: 'Please sign in to request a barber' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const lat = Number(latitude)
+    const lng = Number(longitude)
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      return new Response(
+        JSON.stringify({ error: 'A valid location is required' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // The barber must cover this location and take requests this far ahead
+    const { data: matches, error: matchError } = await supabase.rpc('find_ondemand_barbers', {
+      p_lat: lat,
+      p_lng: lng,
+      p_requested_time: requestedTime,
+    })
+
+    if (matchError) {
+      console.error('Error matching on-demand barbers:', matchError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to check barber availability' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const match = (matches || []).find((m: any) => m.barber_id === barberId)
+    if (!match) {
+      return new Response(
+        JSON.stringify({ error: "This barber isn't taking on-demand requests for that location and time" }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: barber, error: barberError } = await supabase
+      .from('barbers')
+      .select('stripe_account_id, stripe_account_status')
+      .eq('id', barberId)
+      .single()
+
+    if (barberError || !barber?.stripe_account_id || barber.stripe_account_status !== 'active') {
+      console.log('Barber not ready for payments:', barberError || barber?.stripe_account_status)
+      return new Response(
+        JSON.stringify({ error: 'Barber account is not ready to accept payments' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const { data: service, error: serviceError } = await supabase
+      .from('services')
+      .select('id, name, price, duration')
+      .eq('id', serviceId)
+      .eq('barber_id', barberId)
+      .single()
+
+    if (serviceError || !service) {
+      return new Response(
+        JSON.stringify({ error: 'Service not found' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Accepted requests become normal bookings, so the time must be bookable now
+    const { data: rejection, error: availabilityError } = await supabase.rpc('check_slot_availability', {
+      p_barber_id: barberId,
+      p_start: requestedTime,
+      p_duration_minutes: service.duration,
+      p_exclude_booking_id: null,
+      p_client_id: clientId,
+    })
+
+    if (availabilityError) {
+      console.error('Error checking availability:', availabilityError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to check barber availability' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    if (rejection) {
+      return new Response(
+        JSON.stringify({ error: rejection }),
+        {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Surge pricing applies to the service price, which is still paid at the appointment
+    const surgeMultiplier = Number(match.surge_multiplier) || 1
+    const price = Math.round(Number(service.price) * surgeMultiplier * 100) / 100
+
+    // Same fee schedule and split as a regular booking (see create-payment-intent)
+    const { data: feeSchedule, error: feeScheduleError } = await supabase.rpc('resolve_fee_schedule', {
+      p_barber_id: barberId,
+    })
+
+    if (feeScheduleError || !feeSchedule?.id) {
+      console.error('Error resolving fee schedule:', feeScheduleError)
+      return new Response(
+        JSON.stringify({ error: 'Failed to determine the booking fee' }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const platformFee = feeSchedule.fee_type === 'percentage'
+      ? Math.max(feeSchedule.fee_cents, Math.round(price * 100 * Number(feeSchedule.fee_percentage) / 100))
+      : feeSchedule.fee_cents // $3.38 in cents under the standard schedule
+    // Absorbed by platform; NULL estimates Stripe's 2.9% + $0.30
+    const stripeFee = platformFee === 0 ? 0 : feeSchedule.stripe_fee_cents ?? Math.round(platformFee * 0.029) + 30
+    const netAfterStripe = Math.max(0, platformFee - stripeFee)
+    const bocmShare = Math.max(0, Math.round(netAfterStripe * Number(feeSchedule.platform_share)) - stripeFee) // $1.42
+
+    // The hold is the whole charge, so there must be something to hold
+    if (platformFee < 50) {
+      return new Response(
+        JSON.stringify({ error: 'On-demand requests are unavailable for this barber' }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Attach the hold to the client's Stripe customer like any other booking payment
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('stripe_customer_id, email, name')
+      .eq('id', clientId)
+      .maybeSingle()
+
+    let customerId = profile?.stripe_customer_id || undefined
+    if (!customerId) {
+      const customer = await stripe.customers.create({
+        email: profile?.email || undefined,
+        name: profile?.name || undefined,
+        metadata: { clientId },
+      })
+      customerId = customer.id
+
+      await supabase
+        .from('profiles')
+        .update({ stripe_customer_id: customerId })
+        .eq('id', clientId)
+    }
+
+    // Authorized only; captured when the barber accepts, released otherwise
+    const paymentIntent = await stripe.paymentIntents.create({
+      amount: platformFee,
+      currency: 'usd',
+      customer: customerId,
+      capture_method: 'manual',
+      setup_future_usage: 'off_session',
+      application_fee_amount: bocmShare,
+      transfer_data: {
+        destination: barber.stripe_account_id,
+      },
+      metadata: {
+        type: 'ondemand',
+        barberId,
+        serviceId,
+        clientId,
+        requestedTime,
+        latitude: lat.toString(),
+        longitude: lng.toString(),
+        address: (address || '').slice(0, MAX_METADATA_LENGTH),
+        notes: (notes || '').slice(0, MAX_METADATA_LENGTH),
+        serviceName: service.name,
+        price: price.toString(),
+        surgeMultiplier: surgeMultiplier.toString(),
+        distanceMiles: String(match.distance_miles),
+        platformFee: platformFee.toString(),
+        feeScheduleId: feeSchedule.id,
+      },
+    })
+
+    console.log('On-demand payment hold created:', {
+      paymentIntentId: paymentIntent.id,
+      amount: paymentIntent.amount,
+      price,
+      surgeMultiplier,
+    })
+
+    return new Response(
+      JSON.stringify({
+        clientSecret: paymentIntent.client_secret,
+        paymentIntentId: paymentIntent.id,
+        amount: paymentIntent.amount,
+        price,
+        surgeMultiplier
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+
+  } catch (error) {
+    console.error('Error creating on-demand request:', error)
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : 'Failed to create on-demand request'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -8,6 +8,60 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// The part of a service's price (cents) the barber asks for when booking.
+// Mirrors calculateServicePrepaymentCents in src/shared/lib/fee-calculator.ts
+function servicePrepaymentCents(service: any): number {
+  const priceCents = Math.round(Number(service.price || 0) * 100)
+
+  if (service.payment_mode === 'full') {
+    return priceCents
+  }
+  if (service.payment_mode === 'deposit') {
+    const amount = Number(service.deposit_amount) || 0
+    const depositCents = service.deposit_type === 'percentage'
+      ? Math.round(priceCents * Math.min(amount, 100) / 100)
+      : Math.round(amount * 100)
+    return Math.max(0, Math.min(depositCents, priceCents))
+  }
+  return 0
+}
+
+// How one booking's fee splits under a fee_schedules row (cents). Mirrors
+// calculateFeeBreakdown in src/shared/lib/fee-calculator.ts
+function scheduleFeeSplit(schedule: any, servicesCents: number) {
+  const platformFee = schedule.fee_type === 'percentage'
+    ? Math.max(schedule.fee_cents, Math.round(servicesCents * Number(schedule.fee_percentage) / 100))
+    : schedule.fee_cents
+  // Stripe's fee on it (absorbed by the platform); NULL estimates 2.9% + $0.30
+  const stripeFee = platformFee === 0 ? 0 : schedule.stripe_fee_cents ?? Math.round(platformFee * 0.029) + 30
+  const netAfterStripe = Math.max(0, platformFee - stripeFee)
+  const bocmGrossShare = Math.round(netAfterStripe * Number(schedule.platform_share))
+  // Stripe's fee beyond the platform's share is paid by the platform and stays in the barber's transfer
+  const stripeFeeUncovered = Math.max(0, stripeFee - bocmGrossShare)
+
+  return {
+    platformFee,
+    stripeFee,
+    netAfterStripe,
+    bocmShare: Math.max(0, bocmGrossShare - stripeFee), // Platform net after absorbing the Stripe fee
+    barberShare: netAfterStripe - bocmGrossShare + stripeFeeUncovered,
+  }
+}
+
+// What a promo code takes off (cents): a barber code off the services it applies to, a
+// platform code off the booking fee. Mirrors calculatePromoDiscount in src/shared/lib/promo-codes.ts
+function promoDiscountCents(promo: any, services: any[], platformFeeCents: number): number {
+  const baseCents = promo.barber_id
+    ? services
+      .filter((s: any) => promo.service_ids.length === 0 || promo.service_ids.includes(s.id))
+      .reduce((total: number, s: any) => total + Math.round(Number(s.price || 0) * 100), 0)
+    : platformFeeCents
+  const cents = promo.discount_type === 'percentage'
+    ? Math.round(baseCents * Math.min(Number(promo.discount_value), 100) / 100)
+    : Math.round(Number(promo.discount_value) * 100)
+  return Math.max(0, Math.min(cents, baseCents))
+}
+
 serve(async (req: Request) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -34,16 +88,43 @@ serve(async (req: Request) => {
       serviceId, 
       date, 
       notes, 
-      clientId, 
+      clientId: requestedClientId, 
       paymentType,
-      addonIds = []
+      addonIds = [],
+      additionalServiceIds = [],
+      groupName,
+      groupMembers,
+      promoCode,
+      prepaidBalanceId
     } = await req.json()
 
-    console.log('Request body parsed:', { barberId, serviceId, date, clientId, addonIds })
+    // The client is whoever the bearer token belongs to, so promo code limits and gift
+    // cards are checked against the real account; a guest sends only the anon key
+    const token = (req.headers.get('Authorization') || '').replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+    const clientId: string | null = user?.id || null
+
+    if (requestedClientId && requestedClientId !== clientId) {
+      return new Response(
+        JSON.stringify({ error: 'Please sign in again to book' }),
+        { 
+          status: 401, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // A group booking books several people at once; each member carries their own
+    // name, services, add-ons and start time instead of the top-level fields
+    const isGroup = Array.isArray(groupMembers) && groupMembers.length > 0
+
+    console.log('Request body parsed:', { barberId, serviceId, date, clientId, addonIds, additionalServiceIds, groupSize: isGroup ? groupMembers.length : 0 })
 
     // Validate required fields
     console.log('Validating required fields...')
-    if (!barberId || !serviceId || !date) {
+    if (!barberId || (!isGroup && (!serviceId || !date))) {
       console.log('Missing required fields:', { barberId, serviceId, date })
       return new Response(
         JSON.stringify({ error: 'barberId, serviceId, and date are required' }),
@@ -110,34 +191,218 @@ serve(async (req: Request) => {
       )
     }
 
-    // Get service details
-    const { data: service, error: serviceError } = await supabase
-      .from('services')
-      .select('name, price, duration')
-      .eq('id', serviceId)
-      .single()
+    let memberCount = 1
+    let servicePrice = 0 // cents
+    let memberServiceCents: number[] = [] // Each booking's services total, which percentage fees charge a share of
+    let prepaidServices: any[] = [] // Services whose deposit or full price is charged now; group bookings stay fee-only
+    let serviceName = ''
+    let bookingMetadata: Record<string, string>
 
-    if (serviceError || !service?.price) {
-      return new Response(
-        JSON.stringify({ error: 'Service not found or missing price' }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+    if (isGroup) {
+      if (!clientId) {
+        return new Response(
+          JSON.stringify({ error: 'Please sign in to book for a group' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      if (groupMembers.length < 2 || groupMembers.length > 6) {
+        return new Response(
+          JSON.stringify({ error: 'A group booking is for 2 to 6 people' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const members = groupMembers.map((member: any, index: number) => ({
+        name: typeof member?.name === 'string' && member.name.trim() ? member.name.trim() : `Guest ${index + 1}`,
+        serviceId: member?.serviceId,
+        additionalServiceIds: [...new Set<string>(Array.isArray(member?.additionalServiceIds) ? member.additionalServiceIds : [])]
+          .filter((id) => id && id !== member?.serviceId),
+        addonIds: [...new Set<string>(Array.isArray(member?.addonIds) ? member.addonIds : [])].filter(Boolean),
+        date: member?.date,
+      }))
+
+      if (members.some((member: any) => !member.serviceId || !member.date || isNaN(new Date(member.date).getTime()))) {
+        return new Response(
+          JSON.stringify({ error: 'Every person needs a service and a time' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const groupServiceIds = [...new Set<string>(members.flatMap((member: any) => [member.serviceId, ...member.additionalServiceIds]))]
+      const { data: groupServices, error: groupServicesError } = await supabase
+        .from('services')
+        .select('id, name, price, duration')
+        .eq('barber_id', barberId)
+        .in('id', groupServiceIds)
+
+      if (groupServicesError || !groupServices || groupServices.length !== groupServiceIds.length) {
+        return new Response(
+          JSON.stringify({ error: 'Service not found or missing price' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      // Each member must fit on their own; the webhook books them together and
+      // refunds the payment if they no longer fit side by side
+      for (const member of members) {
+        const memberServices = groupServices.filter((s: any) => s.id === member.serviceId || member.additionalServiceIds.includes(s.id))
+        const { data: memberRejection, error: memberSlotError } = await supabase.rpc('check_slot_availability', {
+          p_barber_id: barberId,
+          p_start: member.date,
+          p_duration_minutes: memberServices.reduce((total: number, s: any) => total + Number(s.duration || 0), 0),
+          p_exclude_booking_id: null,
+          p_client_id: clientId
+        })
+
+        if (memberSlotError) {
+          console.log('Availability check error:', memberSlotError)
+          return new Response(
+            JSON.stringify({ error: 'Failed to check availability' }),
+            { 
+              status: 500, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          )
         }
-      )
-    }
 
-    const servicePrice = Math.round(Number(service.price) * 100) // Convert to cents
+        if (memberRejection) {
+          console.log('Group member slot rejected by availability engine:', { member: member.name, memberRejection })
+          return new Response(
+            JSON.stringify({ error: `${member.name}: ${memberRejection}` }),
+            { 
+              status: 409, 
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+            }
+          )
+        }
+
+        const memberCents = Math.round(memberServices.reduce((total: number, s: any) => total + Number(s.price || 0), 0) * 100)
+        memberServiceCents.push(memberCents)
+        servicePrice += memberCents
+      }
+
+      const { data: group, error: groupError } = await supabase
+        .from('booking_groups')
+        .insert({
+          barber_id: barberId,
+          client_id: clientId,
+          name: typeof groupName === 'string' && groupName.trim() ? groupName.trim() : null,
+          members,
+        })
+        .select('id')
+        .single()
+
+      if (groupError || !group) {
+        console.log('Group insert error:', groupError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to create group booking' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      memberCount = members.length
+      serviceName = `Group booking (${memberCount} people)`
+      bookingMetadata = {
+        barberId,
+        groupId: group.id,
+        groupSize: memberCount.toString(),
+        clientId,
+        serviceName,
+        servicePrice: servicePrice.toString(),
+      }
+    } else {
+      // Get details for every booked service; serviceId is the primary service
+      const extraServiceIds: string[] = [...new Set<string>(additionalServiceIds)].filter((id) => id && id !== serviceId)
+      const { data: services, error: serviceError } = await supabase
+        .from('services')
+        .select('id, name, price, duration, payment_mode, deposit_type, deposit_amount')
+        .eq('barber_id', barberId)
+        .in('id', [serviceId, ...extraServiceIds])
+
+      const service = services?.find((s: any) => s.id === serviceId)
+      if (serviceError || !service?.price || services.length !== extraServiceIds.length + 1) {
+        return new Response(
+          JSON.stringify({ error: 'Service not found or missing price' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      // Reject slots the booking trigger would refuse before the client is charged
+      const { data: slotRejection, error: slotError } = await supabase.rpc('check_slot_availability', {
+        p_barber_id: barberId,
+        p_start: date,
+        p_duration_minutes: services.reduce((total: number, s: any) => total + Number(s.duration || 0), 0),
+        p_exclude_booking_id: null,
+        p_client_id: clientId || null
+      })
+
+      if (slotError) {
+        console.log('Availability check error:', slotError)
+        return new Response(
+          JSON.stringify({ error: 'Failed to check availability' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      if (slotRejection) {
+        console.log('Slot rejected by availability engine:', slotRejection)
+        return new Response(
+          JSON.stringify({ error: slotRejection }),
+          { 
+            status: 409, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      servicePrice = Math.round(services.reduce((total: number, s: any) => total + Number(s.price || 0), 0) * 100) // Convert to cents
+      memberServiceCents = [servicePrice]
+      prepaidServices = services
+      serviceName = [serviceId, ...extraServiceIds].map((id) => services.find((s: any) => s.id === id)?.name).join(' + ')
+      bookingMetadata = {
+        barberId,
+        serviceId,
+        date,
+        notes: notes || '',
+        clientId: clientId || '',
+        serviceName,
+        servicePrice: servicePrice.toString(),
+        additionalServiceIds: extraServiceIds.join(','),
+      }
+    }
     
-    console.log('💰 Service details (for reference only - NOT included in payment):', {
-      serviceName: service.name,
+    console.log('💰 Service details:', {
+      serviceName,
       servicePriceCents: servicePrice,
       servicePriceDollars: (servicePrice / 100).toFixed(2),
-      warning: 'Service price is NOT added to payment amount'
+      paymentModes: prepaidServices.map((s: any) => s.payment_mode)
     })
     
     // Get add-ons if any are selected
     let addonTotal = 0
+    let addonRecords: any[] = []
     if (addonIds && addonIds.length > 0) {
       const { data: addons, error: addonsError } = await supabase
         .from('service_addons')
@@ -156,166 +421,473 @@ serve(async (req: Request) => {
       }
 
       addonTotal = addons.reduce((total: number, addon: any) => total + addon.price, 0)
-      console.log('📦 Addons (for reference only - NOT included in payment):', {
+      addonRecords = addons
+      console.log('📦 Addons:', {
         addonCount: addons.length,
         addonTotalDollars: addonTotal.toFixed(2),
         addonTotalCents: Math.round(addonTotal * 100),
-        addonDetails: addons.map(a => ({ name: a.name, price: a.price })),
-        warning: 'Addons are NOT added to payment amount'
+        addonDetails: addons.map(a => ({ name: a.name, price: a.price }))
       })
     }
     
-    // CRITICAL: Calculate platform fee
-    // IMPORTANT: Customers ONLY pay the platform fee ($3.38)
-    // Service and addons are paid directly to barber at appointment
-    const platformFee = 338 // $3.38 in cents
-    
-    // ALWAYS charge only the platform fee - DO NOT add servicePrice or addonTotal
-    const totalAmount = platformFee // Always $3.38 (platform fee only)
-    
-    // CRITICAL SAFEGUARD: Verify totalAmount does NOT include service or addons
-    console.log('💳 Payment amount verification:', {
-      servicePriceCents: servicePrice,
-      servicePriceDollars: (servicePrice / 100).toFixed(2),
-      addonTotalCents: Math.round(addonTotal * 100),
-      addonTotalDollars: addonTotal.toFixed(2),
-      platformFeeCents: platformFee,
-      platformFeeDollars: (platformFee / 100).toFixed(2),
-      totalAmountCents: totalAmount,
-      totalAmountDollars: (totalAmount / 100).toFixed(2),
-      verification: totalAmount === platformFee ? '✅ CORRECT' : '❌ ERROR',
-      note: 'totalAmount MUST equal platformFee (338) - service and addons NOT included'
+    // The fee and its split come from the fee schedule in effect for the barber
+    const { data: feeSchedule, error: feeScheduleError } = await supabase.rpc('resolve_fee_schedule', {
+      p_barber_id: barberId,
     })
-    
-    // CRITICAL ERROR CHECK: If totalAmount includes service or addons, return error
-    if (totalAmount !== platformFee) {
-      const extraAmount = totalAmount - platformFee
-      console.error('❌ CRITICAL ERROR: totalAmount includes service or addons!', {
-        totalAmount,
-        platformFee,
-        extraAmount,
-        extraAmountDollars: (extraAmount / 100).toFixed(2),
-        servicePrice,
-        addonTotal,
-        possibleCause: extraAmount === servicePrice ? 'Service price was incorrectly added' : 
-                      extraAmount === Math.round(addonTotal * 100) ? 'Addon total was incorrectly added' :
-                      'Unknown amount was added'
-      })
+
+    if (feeScheduleError || !feeSchedule?.id) {
+      console.log('Fee schedule lookup error:', feeScheduleError)
       return new Response(
-        JSON.stringify({ 
-          error: `Payment calculation error: Expected $3.38 but calculated $${(totalAmount / 100).toFixed(2)}. Service price should not be included.` 
-        }),
+        JSON.stringify({ error: 'Failed to determine the booking fee' }),
         { 
           status: 500, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
-    
-    // Additional safeguard: Check if service price equals the extra amount
-    if (servicePrice === 100 && totalAmount === 438) {
-      console.error('❌ ERROR DETECTED: Service price ($1.00) appears to be included in totalAmount!', {
-        totalAmount,
-        platformFee,
-        servicePrice,
-        expected: 'totalAmount should be 338 (platformFee only)',
-        actual: 'totalAmount is 438 (platformFee + servicePrice)'
+
+    // A barber's promo code comes off the services, a platform code off the booking fee
+    let promo: any = null
+    if (promoCode) {
+      if (isGroup) {
+        return new Response(
+          JSON.stringify({ error: 'Promo codes cannot be used on group bookings' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const { data: found, error: findError } = await supabase.rpc('find_promo_code', {
+        p_code: String(promoCode),
+        p_barber_id: barberId,
       })
+      const { data: rejection, error: checkError } = found?.id
+        ? await supabase.rpc('check_promo_code', {
+          p_promo_code_id: found.id,
+          p_barber_id: barberId,
+          p_client_id: clientId || null,
+          p_service_ids: prepaidServices.map((s: any) => s.id),
+          p_start: date,
+        })
+        : { data: 'This promo code is not valid', error: null }
+
+      if (findError || checkError) {
+        return new Response(
+          JSON.stringify({ error: 'Failed to check the promo code' }),
+          { 
+            status: 500, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      if (rejection) {
+        return new Response(
+          JSON.stringify({ error: rejection }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+      promo = found
+    }
+
+    // A gift card or package the signed-in client owns with this barber; the barber was paid for it
+    // when it was bought
+    let prepaidBalance: any = null
+    if (prepaidBalanceId) {
+      const { data: balance } = await supabase
+        .from('prepaid_balances')
+        .select('id, kind, service_id, amount_remaining, visits_remaining, owner_id, barber_id, status')
+        .eq('id', prepaidBalanceId)
+        .maybeSingle()
+
+      if (isGroup || !balance || !clientId || balance.owner_id !== clientId || balance.barber_id !== barberId || balance.status !== 'active') {
+        return new Response(
+          JSON.stringify({ error: 'This gift card or package cannot be used for this booking' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+      prepaidBalance = balance
+    }
+
+    // Calculate the payment split (keep in step with calculatePaymentSplit in
+    // src/shared/lib/fee-calculator.ts)
+    // Every booking pays the platform fee; a group pays it once per person. Under the
+    // standard schedule that is $3.38: Stripe takes ~$0.38 (2.9% + $0.30) of it, the
+    // remaining $3.00 splits 60% to BOCM ($1.80) and 40% to the barber ($1.20), and
+    // BOCM absorbs the $0.38, netting $1.42
+    const feeSplits = memberServiceCents.map((cents) => scheduleFeeSplit(feeSchedule, cents))
+    const platformFee = feeSplits.reduce((total, split) => total + split.platformFee, 0)
+    const stripeFee = feeSplits.reduce((total, split) => total + split.stripeFee, 0)
+    const netAfterStripe = feeSplits.reduce((total, split) => total + split.netAfterStripe, 0)
+    const bocmShare = feeSplits.reduce((total, split) => total + split.bocmShare, 0)
+    const barberShare = feeSplits.reduce((total, split) => total + split.barberShare, 0)
+
+    // On top of the fee, each service adds the deposit or full price its barber asks
+    // for up front. Add-ons are only prepaid when every service is paid in full; anything
+    // not prepaid is still collected by the barber at the appointment. A barber's promo
+    // code comes off what is due at the appointment first, then off the prepayment, and
+    // so does a gift card or package credit (mirrors calculatePrepaidCredit)
+    const addonTotalCents = Math.round(addonTotal * 100)
+    const promoCents = promo ? promoDiscountCents(promo, prepaidServices, platformFee) : 0
+    const barberDiscount = promo?.barber_id ? Math.min(promoCents, servicePrice + addonTotalCents) : 0
+    const owedBeforeCredit = servicePrice + addonTotalCents - barberDiscount
+    const packageService = prepaidBalance?.kind === 'package'
+      ? prepaidServices.find((s: any) => s.id === prepaidBalance.service_id)
+      : null
+    const availableCreditCents = !prepaidBalance
+      ? 0
+      : prepaidBalance.kind === 'package'
+        ? (packageService && prepaidBalance.visits_remaining > 0 ? Math.round(Number(packageService.price) * 100) : 0)
+        : Math.round(Number(prepaidBalance.amount_remaining) * 100)
+    const creditCents = Math.max(0, Math.min(availableCreditCents, owedBeforeCredit))
+
+    if (prepaidBalance && creditCents === 0) {
       return new Response(
-        JSON.stringify({ 
-          error: 'Payment calculation error: Service price should not be included in payment amount' 
-        }),
+        JSON.stringify({ error: 'This gift card or package has nothing left to use on these services' }),
         { 
-          status: 500, 
+          status: 400, 
           headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
         }
       )
     }
-    
-    // Stripe fee calculation: Stripe takes ~$0.38 (2.9% + $0.30)
-    // After Stripe fee: $3.38 - $0.38 = $3.00
-    // Split the $3.00: 60% to BOCM ($1.80), 40% to barber ($1.20)
-    // BOCM absorbs the Stripe fee as a platform cost, so BOCM net = $1.80 - $0.38 = $1.42
-    const stripeFee = 38 // $0.38 in cents (approximate Stripe fee - absorbed by platform)
-    const netAfterStripe = platformFee - stripeFee // $3.00 = 300 cents
-    const bocmGrossShare = Math.round(netAfterStripe * 0.60) // 60% = $1.80 = 180 cents
-    const bocmShare = bocmGrossShare - stripeFee // Platform net after absorbing Stripe fee = $1.42 = 142 cents
-    const barberShare = Math.round(netAfterStripe * 0.40) // 40% = $1.20 = 120 cents
-    
-    console.log('Payment: customer only pays platform fee', { 
-      totalCharged: platformFee,
-      stripeFee,
-      netAfterStripe,
-      bocmGrossShare,
-      bocmShare, // Net after absorbing Stripe fee
-      barberShare,
-      note: 'Service and addons paid directly to barber at appointment. BOCM absorbs Stripe fee as platform cost.'
+
+    const owedToBarber = owedBeforeCredit - creditCents
+    const allPrepaidInFull = prepaidServices.length > 0 && prepaidServices.every((s: any) => s.payment_mode === 'full')
+    const amountPrepaid = Math.min(
+      owedToBarber,
+      prepaidServices.reduce((total: number, s: any) => total + servicePrepaymentCents(s), 0) + (allPrepaidInFull ? addonTotalCents : 0)
+    )
+    const dueAtAppointment = owedToBarber - amountPrepaid
+    const paymentMode = amountPrepaid === 0 ? 'fee_only' : dueAtAppointment === 0 ? 'full' : 'deposit'
+
+    // The prepaid part goes to the barber less Stripe's 2.9% on it; the $0.30 per
+    // charge is already covered by the platform fee. A platform promo code comes off the
+    // fee and out of what the platform keeps, so the barber's share is unchanged
+    const keptByPlatform = bocmShare + Math.round(amountPrepaid * 0.029)
+    const platformDiscount = promo && !promo.barber_id ? Math.min(promoCents, keptByPlatform, platformFee) : 0
+    const discountCents = barberDiscount + platformDiscount
+    const totalAmount = platformFee - platformDiscount + amountPrepaid
+    const applicationFee = keptByPlatform - platformDiscount
+
+    // A no-fee schedule with nothing prepaid is booked below without a charge; anything
+    // else must reach Stripe's minimum
+    if (totalAmount > 0 && totalAmount < 50) {
+      return new Response(
+        JSON.stringify({ error: 'This booking is below the minimum card payment' }),
+        { 
+          status: 400, 
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+        }
+      )
+    }
+
+    // Hold a use of the promo code while the client pays, so its limits cannot be
+    // overrun; the webhook redeems it once the booking is paid
+    let promoRedemptionId: string | null = null
+    if (promo && discountCents > 0) {
+      const { data: reservation, error: reserveError } = await supabase.rpc('reserve_promo_code', {
+        p_promo_code_id: promo.id,
+        p_barber_id: barberId,
+        p_client_id: clientId || null,
+        p_service_ids: prepaidServices.map((s: any) => s.id),
+        p_start: date,
+        p_discount: discountCents / 100,
+        p_funded_by: promo.barber_id ? 'barber' : 'platform',
+      }).single()
+
+      if (reserveError || !reservation?.redemption_id) {
+        return new Response(
+          JSON.stringify({ error: reservation?.rejection || 'Failed to check the promo code' }),
+          { 
+            status: reserveError ? 500 : 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+      promoRedemptionId = reservation.redemption_id
+    }
+
+    // Draw the credit now so the balance cannot be spent twice while the client pays
+    let prepaidReservationId: string | null = null
+    if (prepaidBalance && creditCents > 0) {
+      const { data: reservationId, error: creditError } = await supabase.rpc('reserve_prepaid_balance', {
+        p_balance_id: prepaidBalance.id,
+        p_client_id: clientId,
+        p_credit: creditCents / 100,
+      })
+
+      if (creditError) {
+        if (promoRedemptionId) {
+          await supabase.from('promo_code_redemptions').delete().eq('id', promoRedemptionId).eq('status', 'reserved')
+        }
+        return new Response(
+          JSON.stringify({ error: creditError.message || 'This gift card or package cannot be used for this booking' }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+      prepaidReservationId = reservationId
+    }
+
+    console.log('💳 Payment split:', {
+      feeScheduleId: feeSchedule.id,
+      platformFeeCents: platformFee,
+      amountPrepaidCents: amountPrepaid,
+      dueAtAppointmentCents: dueAtAppointment,
+      discountCents,
+      creditCents,
+      paymentMode,
+      totalAmountCents: totalAmount,
+      totalAmountDollars: (totalAmount / 100).toFixed(2),
+      applicationFeeCents: applicationFee,
+      barberTransferCents: totalAmount - applicationFee,
+      memberCount
     })
 
+    // Nothing to charge: the booking is confirmed straight away, as the webhook would once paid
+    if (totalAmount === 0) {
+      if (isGroup) {
+        const { data: members, error: confirmError } = await supabase.rpc('confirm_booking_group', {
+          p_group_id: bookingMetadata.groupId,
+          p_payment_intent_id: null,
+          p_platform_fee: 0,
+          p_barber_payout: 0,
+        })
+
+        if (confirmError) {
+          console.log('Group booking error:', confirmError)
+          await supabase
+            .from('booking_groups')
+            .update({ status: 'failed', updated_at: new Date().toISOString() })
+            .eq('id', bookingMetadata.groupId)
+
+          return new Response(
+            JSON.stringify({ error: 'This time slot is no longer available. Please select another time.' }),
+            {
+              status: 409,
+              headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+            }
+          )
+        }
+
+        if (members && members.length > 0) {
+          const { error: scheduleError } = await supabase
+            .from('bookings')
+            .update({ fee_schedule_id: feeSchedule.id })
+            .in('id', members.map((member: any) => member.id))
+
+          if (scheduleError) {
+            console.error('Error recording fee schedule on group bookings:', scheduleError)
+          }
+        }
+
+        return new Response(
+          JSON.stringify({ noPaymentRequired: true, bookingId: null, groupId: bookingMetadata.groupId }),
+          {
+            status: 200,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      const { data: booking, error: bookingError } = await supabase
+        .from('bookings')
+        .insert({
+          barber_id: barberId,
+          service_id: serviceId,
+          additional_service_ids: bookingMetadata.additionalServiceIds ? bookingMetadata.additionalServiceIds.split(',') : [],
+          date,
+          status: 'confirmed',
+          payment_status: 'succeeded',
+          price: 0,
+          service_price: servicePrice / 100, // Store historical total of the booked services
+          addon_total: 0, // Let the trigger calculate this from booking_addons
+          platform_fee: 0,
+          barber_payout: 0,
+          payment_mode: paymentMode,
+          amount_prepaid: 0,
+          fee_schedule_id: feeSchedule.id,
+          promo_code_id: promo?.id || null,
+          discount_amount: promo ? discountCents / 100 : 0,
+          prepaid_balance_id: creditCents > 0 ? prepaidBalance.id : null,
+          prepaid_credit: creditCents / 100,
+          notes: notes || null,
+          client_id: clientId || null,
+        })
+        .select('id')
+        .single()
+
+      if (bookingError || !booking) {
+        console.error('Booking insertion error:', bookingError)
+        if (promoRedemptionId) {
+          await supabase.from('promo_code_redemptions').delete().eq('id', promoRedemptionId).eq('status', 'reserved')
+        }
+        if (prepaidReservationId) {
+          await supabase.rpc('release_prepaid_reservation', { p_reservation_id: prepaidReservationId })
+        }
+        return new Response(
+          JSON.stringify({ error: bookingError?.message || 'Failed to create booking' }),
+          {
+            status: 500,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        )
+      }
+
+      if (promoRedemptionId) {
+        const { error: redemptionError } = await supabase
+          .from('promo_code_redemptions')
+          .update({ booking_id: booking.id, status: 'redeemed', reserved_until: null })
+          .eq('id', promoRedemptionId)
+
+        if (redemptionError) {
+          console.error('Error recording promo code redemption:', redemptionError)
+        }
+      }
+
+      if (prepaidReservationId) {
+        const { error: redeemError } = await supabase.rpc('redeem_prepaid_balance', {
+          p_balance_id: prepaidBalance.id,
+          p_booking_id: booking.id,
+          p_credit: creditCents / 100,
+          p_reservation_id: prepaidReservationId,
+        })
+
+        if (redeemError) {
+          console.error('Error redeeming prepaid balance:', redeemError)
+        }
+      }
+
+      if (addonRecords.length > 0) {
+        const { error: addonError } = await supabase
+          .from('booking_addons')
+          .insert(addonRecords.map((addon: any) => ({ booking_id: booking.id, addon_id: addon.id, price: addon.price })))
+
+        if (addonError) {
+          console.error('Error adding add-ons:', addonError)
+        }
+      }
+
+      console.log('Booking created without payment:', { bookingId: booking.id })
+
+      return new Response(
+        JSON.stringify({ noPaymentRequired: true, bookingId: booking.id, groupId: null }),
+        {
+          status: 200,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Attach the payment to the client's Stripe customer so the card is saved for
+    // late cancellation and no-show fees under the barber's cancellation policy
+    let customerId: string | undefined
+    if (clientId) {
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('stripe_customer_id, email, name')
+        .eq('id', clientId)
+        .maybeSingle()
+
+      customerId = profile?.stripe_customer_id || undefined
+      if (!customerId) {
+        const customer = await stripe.customers.create({
+          email: profile?.email || undefined,
+          name: profile?.name || undefined,
+          metadata: { clientId },
+        })
+        customerId = customer.id
+
+        await supabase
+          .from('profiles')
+          .update({ stripe_customer_id: customerId })
+          .eq('id', clientId)
+      }
+    }
+
     // Create Payment Intent
-    // Fee breakdown:
-    // - Total charged to customer: $3.38
-    // - Stripe fee: ~$0.38 (absorbed by platform)
-    // - Net after Stripe: $3.00
-    // - BOCM gross: $1.80 (60% of net)
-    // - BOCM net: $1.42 (after absorbing Stripe fee)
-    // - Barber receives: $1.20 (40% of net)
-    // Note: Service price and addons are paid directly to barber at appointment
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: totalAmount, // Always $3.38 (platform fee only)
-      currency: 'usd',
-      application_fee_amount: bocmShare, // Platform net after absorbing Stripe fee = $1.42
-      transfer_data: {
-        destination: barber.stripe_account_id, // Barber gets 40% of net = $1.20
-      },
-      metadata: {
-        barberId,
-        serviceId,
-        date,
-        notes: notes || '',
-        clientId: clientId || '',
-        serviceName: service.name,
-        servicePrice: servicePrice.toString(),
-        addonTotal: Math.round(addonTotal * 100).toString(),
-        addonIds: addonIds.join(','),
-        platformFee: platformFee.toString(),
-        paymentType,
-      },
-    })
+    // - Total charged to customer: the fee per booking ($3.38 standard) plus any prepaid service amount
+    // - Application fee: BOCM's share per booking ($1.42 standard) plus Stripe's 2.9% on the prepaid amount
+    // - Barber receives the rest through transfer_data: their share ($1.20 standard) and the prepaid amount
+    let paymentIntent: Stripe.PaymentIntent
+    try {
+      paymentIntent = await stripe.paymentIntents.create({
+        amount: totalAmount,
+        currency: 'usd',
+        customer: customerId,
+        setup_future_usage: customerId ? 'off_session' : undefined,
+        application_fee_amount: applicationFee,
+        transfer_data: {
+          destination: barber.stripe_account_id,
+        },
+        metadata: {
+          ...bookingMetadata,
+          addonTotal: addonTotalCents.toString(),
+          addonIds: addonIds.join(','),
+          platformFee: platformFee.toString(),
+          feeScheduleId: feeSchedule.id,
+          promoCodeId: promo?.id || '',
+          promoRedemptionId: promoRedemptionId || '',
+          discountCents: discountCents.toString(),
+          discountFundedBy: promo ? (promo.barber_id ? 'barber' : 'platform') : '',
+          prepaidBalanceId: prepaidBalance?.id || '',
+          prepaidCreditCents: creditCents.toString(),
+          prepaidReservationId: prepaidReservationId || '',
+          paymentType,
+          paymentMode,
+          amountPrepaid: amountPrepaid.toString(),
+        },
+      })
+    } catch (stripeError) {
+      // No payment was started, so the held promo code use and credit are given back
+      if (promoRedemptionId) {
+        await supabase.from('promo_code_redemptions').delete().eq('id', promoRedemptionId).eq('status', 'reserved')
+      }
+      if (prepaidReservationId) {
+        await supabase.rpc('release_prepaid_reservation', { p_reservation_id: prepaidReservationId })
+      }
+      throw stripeError
+    }
 
     console.log('Payment Intent created successfully:', {
       paymentIntentId: paymentIntent.id,
       amount: paymentIntent.amount,
       amountInDollars: (paymentIntent.amount / 100).toFixed(2),
-      expectedAmount: 3.38,
-      application_fee_amount: bocmShare,
-      application_fee_dollars: (bocmShare / 100).toFixed(2),
-      barber_should_receive: (barberShare / 100).toFixed(2),
+      application_fee_amount: paymentIntent.application_fee_amount,
+      application_fee_dollars: (applicationFee / 100).toFixed(2),
+      barber_should_receive: ((totalAmount - applicationFee) / 100).toFixed(2),
       clientSecret: paymentIntent.client_secret,
       breakdown: {
         totalCharged: `${(totalAmount / 100).toFixed(2)}`,
         stripeFee: `${(stripeFee / 100).toFixed(2)}`,
         netAfterStripe: `${(netAfterStripe / 100).toFixed(2)}`,
         bocmShare: `${(bocmShare / 100).toFixed(2)}`,
-        barberShare: `${(barberShare / 100).toFixed(2)}`
+        barberShare: `${(barberShare / 100).toFixed(2)}`,
+        amountPrepaid: `${(amountPrepaid / 100).toFixed(2)}`
       }
     })
-    
-    // Verify the amount is correct
-    if (paymentIntent.amount !== 338) {
-      console.error('❌ ERROR: Payment amount is incorrect!', {
-        expected: 338,
-        actual: paymentIntent.amount,
-        difference: paymentIntent.amount - 338,
-        differenceInDollars: ((paymentIntent.amount - 338) / 100).toFixed(2)
-      })
-    }
 
     return new Response(
       JSON.stringify({ 
         clientSecret: paymentIntent.client_secret,
         paymentIntentId: paymentIntent.id,
-        amount: paymentIntent.amount
+        amount: paymentIntent.amount,
+        amountPrepaid,
+        dueAtAppointment,
+        discountCents,
+        creditCents,
+        paymentMode,
+        groupId: bookingMetadata.groupId || null
       }),
       { 
         status: 200, 
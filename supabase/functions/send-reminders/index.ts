@@ -0,0 +1,50 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Triggers the app's reminder run, for deployments scheduled with Supabase cron instead of Vercel.
+// The app claims and records each reminder, so overlapping triggers never double-send.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const appUrl = Deno.env.get('APP_URL')
+    const cronSecret = Deno.env.get('CRON_SECRET')
+
+    if (!appUrl || !cronSecret) {
+      throw new Error('APP_URL and CRON_SECRET must be set')
+    }
+
+    const response = await fetch(`${appUrl.replace(/\/$/, '')}/api/bookings/reminders`, {
+      headers: { Authorization: `Bearer ${cronSecret}` }
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      throw new Error(result.error || `Reminder run failed with status ${response.status}`)
+    }
+
+    return new Response(
+      JSON.stringify(result),
+      {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  } catch (error) {
+    console.error('Error triggering reminders:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
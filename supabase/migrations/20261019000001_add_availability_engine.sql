@@ -0,0 +1,298 @@
+-- Single availability engine shared by the web app, the mobile app and the
+-- booking triggers.
+--
+-- Before this migration slot generation lived in three client-side copies that
+-- hardcoded 9 AM - 6 PM, while the database validated bookings against
+-- availability/special_hours/booking_restrictions in separate triggers. Clients
+-- were offered slots the database rejected and never saw slots the barber
+-- actually works. Both paths now go through check_slot_availability().
+--
+-- 1. get_barber_work_windows()  - working windows for a date (time off, special hours, weekly schedule)
+-- 2. check_slot_availability()  - NULL when a slot is bookable, otherwise the rejection reason
+-- 3. get_available_slots()      - slot grid for a date, used by every booking UI
+-- 4. check_booking_conflicts()  - trigger now delegates to check_slot_availability()
+
+-- Step 1: Working windows for a barber on a given date
+CREATE OR REPLACE FUNCTION get_barber_work_windows(
+    p_barber_id UUID,
+    p_date DATE
+) RETURNS TABLE (window_start TIMESTAMP WITH TIME ZONE, window_end TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+    special RECORD;
+BEGIN
+    -- Time off blocks the whole day
+    IF EXISTS (
+        SELECT 1 FROM time_off t
+        WHERE t.barber_id = p_barber_id
+          AND p_date BETWEEN t.start_date AND t.end_date
+    ) THEN
+        RETURN;
+    END IF;
+
+    -- Special hours replace the weekly schedule for that date
+    SELECT * INTO special
+    FROM special_hours sh
+    WHERE sh.barber_id = p_barber_id
+      AND sh.date = p_date
+    LIMIT 1;
+
+    IF FOUND THEN
+        IF special.is_closed THEN
+            RETURN;
+        END IF;
+
+        window_start := (p_date + special.start_time)::TIMESTAMP WITH TIME ZONE;
+        window_end := (p_date + special.end_time)::TIMESTAMP WITH TIME ZONE;
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        (p_date + a.start_time)::TIMESTAMP WITH TIME ZONE,
+        (p_date + a.end_time)::TIMESTAMP WITH TIME ZONE
+    FROM availability a
+    WHERE a.barber_id = p_barber_id
+      AND a.day_of_week = EXTRACT(DOW FROM p_date)::INTEGER
+      AND a.end_time > a.start_time
+    ORDER BY a.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 2: Decide whether a single slot can be booked
+-- Returns NULL when the slot is bookable. Otherwise returns the same messages the
+-- API routes already map to user-facing errors.
+CREATE OR REPLACE FUNCTION check_slot_availability(
+    p_barber_id UUID,
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_duration_minutes INTEGER,
+    p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_date DATE;
+    v_slot RECORD;
+    v_restriction RECORD;
+    v_buffer_before INTEGER := 0;
+    v_buffer_after INTEGER := 0;
+    v_capacity INTEGER := 1;
+    v_overlapping INTEGER;
+    v_day_count INTEGER;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+        RETURN 'Invalid service duration';
+    END IF;
+
+    v_end := p_start + make_interval(mins => p_duration_minutes);
+    v_date := p_start::DATE;
+
+    -- The whole appointment must fit inside one working window
+    IF NOT EXISTS (
+        SELECT 1 FROM get_barber_work_windows(p_barber_id, v_date) w
+        WHERE p_start >= w.window_start
+          AND v_end <= w.window_end
+    ) THEN
+        RETURN 'Booking time is not within barber availability';
+    END IF;
+
+    -- An active advanced scheduling slot covering the start time supplies buffers and capacity
+    SELECT * INTO v_slot
+    FROM scheduling_slots s
+    WHERE s.barber_id = p_barber_id
+      AND s.is_active
+      AND s.day_of_week = EXTRACT(DOW FROM v_date)::INTEGER
+      AND p_start::TIME >= s.start_time
+      AND p_start::TIME < s.end_time
+    ORDER BY s.start_time DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        v_buffer_before := COALESCE(v_slot.buffer_minutes_before, 0);
+        v_buffer_after := COALESCE(v_slot.buffer_minutes_after, 0);
+        v_capacity := COALESCE(v_slot.max_bookings_per_slot, 1);
+    END IF;
+
+    SELECT COUNT(*) INTO v_overlapping
+    FROM bookings b
+    WHERE b.barber_id = p_barber_id
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND b.date < v_end + make_interval(mins => v_buffer_after)
+      AND b.end_time > p_start - make_interval(mins => v_buffer_before);
+
+    IF v_overlapping >= v_capacity THEN
+        RETURN 'Booking time conflicts with existing booking';
+    END IF;
+
+    SELECT * INTO v_restriction
+    FROM booking_restrictions r
+    WHERE r.barber_id = p_barber_id;
+
+    IF FOUND THEN
+        IF NOT v_restriction.same_day_booking_enabled AND v_date = NOW()::DATE THEN
+            RETURN 'Same day bookings not allowed';
+        END IF;
+
+        IF v_restriction.advance_booking_days > 0
+           AND p_start > NOW() + make_interval(days => v_restriction.advance_booking_days) THEN
+            RETURN 'Booking too far in advance';
+        END IF;
+
+        SELECT COUNT(*) INTO v_day_count
+        FROM bookings b
+        WHERE b.barber_id = p_barber_id
+          AND b.id IS DISTINCT FROM p_exclude_booking_id
+          AND b.status NOT IN ('cancelled', 'expired', 'failed')
+          AND b.date::DATE = v_date;
+
+        IF v_day_count >= v_restriction.max_bookings_per_day THEN
+            RETURN 'Daily booking limit exceeded';
+        END IF;
+
+        IF v_restriction.min_interval_minutes > 0 AND EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.barber_id = p_barber_id
+              AND b.id IS DISTINCT FROM p_exclude_booking_id
+              AND b.status NOT IN ('cancelled', 'expired', 'failed')
+              AND b.end_time IS NOT NULL
+              AND b.date < v_end + make_interval(mins => v_restriction.min_interval_minutes)
+              AND b.end_time > p_start - make_interval(mins => v_restriction.min_interval_minutes)
+        ) THEN
+            RETURN 'Minimum interval between bookings not met';
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Slot grid for a date
+-- Advanced scheduling slots define the grid step for the day; otherwise slots
+-- are spaced by the service duration (minimum 10 minutes), as before.
+CREATE OR REPLACE FUNCTION get_available_slots(
+    p_barber_id UUID,
+    p_date DATE,
+    p_duration_minutes INTEGER
+) RETURNS TABLE (
+    slot_start TIMESTAMP WITH TIME ZONE,
+    slot_time TEXT,
+    available BOOLEAN,
+    reason TEXT
+) AS $$
+DECLARE
+    v_window RECORD;
+    v_step INTEGER;
+    v_cursor TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+        RAISE EXCEPTION 'Invalid service duration: % (must be > 0)', p_duration_minutes;
+    END IF;
+
+    SELECT s.slot_duration_minutes INTO v_step
+    FROM scheduling_slots s
+    WHERE s.barber_id = p_barber_id
+      AND s.is_active
+      AND s.day_of_week = EXTRACT(DOW FROM p_date)::INTEGER
+    ORDER BY s.start_time
+    LIMIT 1;
+
+    v_step := GREATEST(COALESCE(v_step, p_duration_minutes), 10);
+
+    FOR v_window IN
+        SELECT * FROM get_barber_work_windows(p_barber_id, p_date) w ORDER BY w.window_start
+    LOOP
+        v_cursor := v_window.window_start;
+
+        WHILE v_cursor + make_interval(mins => p_duration_minutes) <= v_window.window_end LOOP
+            slot_start := v_cursor;
+            slot_time := to_char(v_cursor, 'HH24:MI');
+
+            IF v_cursor <= NOW() THEN
+                reason := 'Booking time is in the past';
+            ELSE
+                reason := check_slot_availability(p_barber_id, v_cursor, p_duration_minutes);
+            END IF;
+
+            available := reason IS NULL;
+            RETURN NEXT;
+
+            v_cursor := v_cursor + make_interval(mins => v_step);
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Booking trigger delegates to the engine
+CREATE OR REPLACE FUNCTION check_booking_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    service_duration INTEGER;
+    booking_end_time TIMESTAMP WITH TIME ZONE;
+    rejection TEXT;
+BEGIN
+    SELECT duration INTO service_duration
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF service_duration IS NULL THEN
+        RAISE EXCEPTION 'Service not found or duration is NULL for service_id: %', NEW.service_id;
+    END IF;
+
+    IF service_duration <= 0 THEN
+        RAISE EXCEPTION 'Invalid service duration: % (must be > 0)', service_duration;
+    END IF;
+
+    booking_end_time := NEW.date + make_interval(mins => service_duration);
+    NEW.end_time := booking_end_time;
+
+    -- Rows that no longer hold a slot do not need validating
+    IF NEW.status IN ('cancelled', 'expired', 'failed') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock overlapping rows so concurrent inserts for the same slot serialize
+    PERFORM 1
+    FROM bookings b
+    WHERE b.barber_id = NEW.barber_id
+      AND b.id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::UUID)
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND NEW.date < b.end_time
+      AND booking_end_time > b.date
+    FOR UPDATE;
+
+    rejection := check_slot_availability(NEW.barber_id, NEW.date, service_duration, NEW.id);
+
+    IF rejection IS NOT NULL THEN
+        RAISE EXCEPTION '%', rejection;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_booking_conflicts_trigger ON bookings;
+CREATE TRIGGER check_booking_conflicts_trigger
+    BEFORE INSERT OR UPDATE OF date, service_id, barber_id ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION check_booking_conflicts();
+
+-- The availability and restriction triggers are subsumed by the engine. They also
+-- fired on every UPDATE, so status changes could be rejected by same-day rules.
+DROP TRIGGER IF EXISTS validate_booking_time_trigger ON bookings;
+DROP TRIGGER IF EXISTS validate_booking_restrictions_trigger ON bookings;
+
+GRANT EXECUTE ON FUNCTION get_barber_work_windows(UUID, DATE) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_slot_availability(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_slots(UUID, DATE, INTEGER) TO anon, authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_special_hours_barber_date ON special_hours(barber_id, date);
+
+COMMENT ON FUNCTION check_slot_availability(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) IS
+'Single source of truth for whether a barber can take an appointment. Used by
+get_available_slots() for slot generation and by check_booking_conflicts() on insert/update.
+Returns NULL when bookable, otherwise the rejection reason.';
+
+COMMENT ON FUNCTION get_available_slots(UUID, DATE, INTEGER) IS
+'Slot grid for a barber on a date. Every booking UI (web and mobile) reads slots from here.';
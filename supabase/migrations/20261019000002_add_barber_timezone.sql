@@ -0,0 +1,258 @@
+-- Per-barber timezone for scheduling
+--
+-- availability/special_hours/scheduling_slots store bare TIME values. Until now
+-- the engine turned them into instants in the database session timezone, and
+-- clients rendered them in whatever timezone the device was in, so a client in
+-- another zone saw shifted slots and DST weeks drifted by an hour.
+--
+-- Every wall time is now interpreted in the barber's IANA timezone:
+-- 1. barbers.timezone (validated against pg_timezone_names)
+-- 2. get_barber_timezone() helper
+-- 3. get_barber_work_windows()/check_slot_availability()/get_available_slots()
+--    build and compare local times with AT TIME ZONE
+
+-- Step 1: Timezone column
+-- Existing barbers default to Eastern time, which is where current schedules were entered.
+ALTER TABLE barbers ADD COLUMN IF NOT EXISTS timezone TEXT NOT NULL DEFAULT 'America/New_York';
+
+CREATE OR REPLACE FUNCTION validate_barber_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = NEW.timezone) THEN
+        RAISE EXCEPTION 'Invalid timezone: %', NEW.timezone;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS validate_barber_timezone_trigger ON barbers;
+CREATE TRIGGER validate_barber_timezone_trigger
+    BEFORE INSERT OR UPDATE OF timezone ON barbers
+    FOR EACH ROW
+    EXECUTE FUNCTION validate_barber_timezone();
+
+-- Step 2: Timezone lookup used by the engine
+CREATE OR REPLACE FUNCTION get_barber_timezone(p_barber_id UUID)
+RETURNS TEXT AS $$
+    SELECT COALESCE((SELECT b.timezone FROM barbers b WHERE b.id = p_barber_id), 'America/New_York');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Working windows in the barber's timezone
+-- (p_date + TIME) is a local wall time; AT TIME ZONE turns it into the instant it
+-- denotes in that zone, so DST transitions are handled by the zone rules.
+CREATE OR REPLACE FUNCTION get_barber_work_windows(
+    p_barber_id UUID,
+    p_date DATE
+) RETURNS TABLE (window_start TIMESTAMP WITH TIME ZONE, window_end TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+    special RECORD;
+    v_tz TEXT := get_barber_timezone(p_barber_id);
+BEGIN
+    -- Time off blocks the whole day
+    IF EXISTS (
+        SELECT 1 FROM time_off t
+        WHERE t.barber_id = p_barber_id
+          AND p_date BETWEEN t.start_date AND t.end_date
+    ) THEN
+        RETURN;
+    END IF;
+
+    -- Special hours replace the weekly schedule for that date
+    SELECT * INTO special
+    FROM special_hours sh
+    WHERE sh.barber_id = p_barber_id
+      AND sh.date = p_date
+    LIMIT 1;
+
+    IF FOUND THEN
+        IF special.is_closed THEN
+            RETURN;
+        END IF;
+
+        window_start := (p_date + special.start_time) AT TIME ZONE v_tz;
+        window_end := (p_date + special.end_time) AT TIME ZONE v_tz;
+        RETURN NEXT;
+        RETURN;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        (p_date + a.start_time) AT TIME ZONE v_tz,
+        (p_date + a.end_time) AT TIME ZONE v_tz
+    FROM availability a
+    WHERE a.barber_id = p_barber_id
+      AND a.day_of_week = EXTRACT(DOW FROM p_date)::INTEGER
+      AND a.end_time > a.start_time
+    ORDER BY a.start_time;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Slot check with dates, days of week and same-day rules in the barber's timezone
+CREATE OR REPLACE FUNCTION check_slot_availability(
+    p_barber_id UUID,
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_duration_minutes INTEGER,
+    p_exclude_booking_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+    v_tz TEXT := get_barber_timezone(p_barber_id);
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_local_start TIMESTAMP;
+    v_date DATE;
+    v_slot RECORD;
+    v_restriction RECORD;
+    v_buffer_before INTEGER := 0;
+    v_buffer_after INTEGER := 0;
+    v_capacity INTEGER := 1;
+    v_overlapping INTEGER;
+    v_day_count INTEGER;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+        RETURN 'Invalid service duration';
+    END IF;
+
+    v_end := p_start + make_interval(mins => p_duration_minutes);
+    v_local_start := p_start AT TIME ZONE v_tz;
+    v_date := v_local_start::DATE;
+
+    -- The whole appointment must fit inside one working window
+    IF NOT EXISTS (
+        SELECT 1 FROM get_barber_work_windows(p_barber_id, v_date) w
+        WHERE p_start >= w.window_start
+          AND v_end <= w.window_end
+    ) THEN
+        RETURN 'Booking time is not within barber availability';
+    END IF;
+
+    -- An active advanced scheduling slot covering the start time supplies buffers and capacity
+    SELECT * INTO v_slot
+    FROM scheduling_slots s
+    WHERE s.barber_id = p_barber_id
+      AND s.is_active
+      AND s.day_of_week = EXTRACT(DOW FROM v_date)::INTEGER
+      AND v_local_start::TIME >= s.start_time
+      AND v_local_start::TIME < s.end_time
+    ORDER BY s.start_time DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        v_buffer_before := COALESCE(v_slot.buffer_minutes_before, 0);
+        v_buffer_after := COALESCE(v_slot.buffer_minutes_after, 0);
+        v_capacity := COALESCE(v_slot.max_bookings_per_slot, 1);
+    END IF;
+
+    SELECT COUNT(*) INTO v_overlapping
+    FROM bookings b
+    WHERE b.barber_id = p_barber_id
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND b.date < v_end + make_interval(mins => v_buffer_after)
+      AND b.end_time > p_start - make_interval(mins => v_buffer_before);
+
+    IF v_overlapping >= v_capacity THEN
+        RETURN 'Booking time conflicts with existing booking';
+    END IF;
+
+    SELECT * INTO v_restriction
+    FROM booking_restrictions r
+    WHERE r.barber_id = p_barber_id;
+
+    IF FOUND THEN
+        IF NOT v_restriction.same_day_booking_enabled AND v_date = (NOW() AT TIME ZONE v_tz)::DATE THEN
+            RETURN 'Same day bookings not allowed';
+        END IF;
+
+        IF v_restriction.advance_booking_days > 0
+           AND p_start > NOW() + make_interval(days => v_restriction.advance_booking_days) THEN
+            RETURN 'Booking too far in advance';
+        END IF;
+
+        SELECT COUNT(*) INTO v_day_count
+        FROM bookings b
+        WHERE b.barber_id = p_barber_id
+          AND b.id IS DISTINCT FROM p_exclude_booking_id
+          AND b.status NOT IN ('cancelled', 'expired', 'failed')
+          AND (b.date AT TIME ZONE v_tz)::DATE = v_date;
+
+        IF v_day_count >= v_restriction.max_bookings_per_day THEN
+            RETURN 'Daily booking limit exceeded';
+        END IF;
+
+        IF v_restriction.min_interval_minutes > 0 AND EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.barber_id = p_barber_id
+              AND b.id IS DISTINCT FROM p_exclude_booking_id
+              AND b.status NOT IN ('cancelled', 'expired', 'failed')
+              AND b.end_time IS NOT NULL
+              AND b.date < v_end + make_interval(mins => v_restriction.min_interval_minutes)
+              AND b.end_time > p_start - make_interval(mins => v_restriction.min_interval_minutes)
+        ) THEN
+            RETURN 'Minimum interval between bookings not met';
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 5: Slot grid labelled with the barber's local time
+CREATE OR REPLACE FUNCTION get_available_slots(
+    p_barber_id UUID,
+    p_date DATE,
+    p_duration_minutes INTEGER
+) RETURNS TABLE (
+    slot_start TIMESTAMP WITH TIME ZONE,
+    slot_time TEXT,
+    available BOOLEAN,
+    reason TEXT
+) AS $$
+DECLARE
+    v_tz TEXT := get_barber_timezone(p_barber_id);
+    v_window RECORD;
+    v_step INTEGER;
+    v_cursor TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+        RAISE EXCEPTION 'Invalid service duration: % (must be > 0)', p_duration_minutes;
+    END IF;
+
+    SELECT s.slot_duration_minutes INTO v_step
+    FROM scheduling_slots s
+    WHERE s.barber_id = p_barber_id
+      AND s.is_active
+      AND s.day_of_week = EXTRACT(DOW FROM p_date)::INTEGER
+    ORDER BY s.start_time
+    LIMIT 1;
+
+    v_step := GREATEST(COALESCE(v_step, p_duration_minutes), 10);
+
+    FOR v_window IN
+        SELECT * FROM get_barber_work_windows(p_barber_id, p_date) w ORDER BY w.window_start
+    LOOP
+        v_cursor := v_window.window_start;
+
+        WHILE v_cursor + make_interval(mins => p_duration_minutes) <= v_window.window_end LOOP
+            slot_start := v_cursor;
+            slot_time := to_char(v_cursor AT TIME ZONE v_tz, 'HH24:MI');
+
+            IF v_cursor <= NOW() THEN
+                reason := 'Booking time is in the past';
+            ELSE
+                reason := check_slot_availability(p_barber_id, v_cursor, p_duration_minutes);
+            END IF;
+
+            available := reason IS NULL;
+            RETURN NEXT;
+
+            v_cursor := v_cursor + make_interval(mins => v_step);
+        END LOOP;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_barber_timezone(UUID) TO anon, authenticated;
+
+COMMENT ON COLUMN barbers.timezone IS
+'IANA timezone (e.g. America/Chicago) that availability, special hours and scheduling slots are expressed in.';
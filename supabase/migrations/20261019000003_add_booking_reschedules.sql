@@ -0,0 +1,50 @@
+-- Client-initiated rescheduling
+--
+-- A reschedule moves an existing booking to a new start time. The booking row,
+-- its payment_intent_id and the paid platform fee stay the same; the
+-- check_booking_conflicts trigger re-validates the new time through the
+-- availability engine.
+--
+-- 1. Barber-defined policy on booking_restrictions (cutoff and maximum count)
+-- 2. bookings.reschedule_count
+-- 3. booking_reschedules history
+
+-- Step 1: Reschedule policy
+ALTER TABLE booking_restrictions
+    ADD COLUMN IF NOT EXISTS reschedule_cutoff_hours INTEGER NOT NULL DEFAULT 24 CHECK (reschedule_cutoff_hours >= 0),
+    ADD COLUMN IF NOT EXISTS max_reschedules INTEGER NOT NULL DEFAULT 2 CHECK (max_reschedules >= 0);
+
+COMMENT ON COLUMN booking_restrictions.reschedule_cutoff_hours IS
+'Clients cannot reschedule within this many hours of the appointment start.';
+COMMENT ON COLUMN booking_restrictions.max_reschedules IS
+'Maximum number of times a client can reschedule one booking. 0 disables rescheduling.';
+
+-- Step 2: Count on the booking itself so the limit can be enforced with a conditional update
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS reschedule_count INTEGER NOT NULL DEFAULT 0;
+
+-- Step 3: History of moves
+CREATE TABLE IF NOT EXISTS booking_reschedules (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+    previous_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    new_date TIMESTAMP WITH TIME ZONE NOT NULL,
+    rescheduled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reschedules_booking_id ON booking_reschedules(booking_id);
+
+ALTER TABLE booking_reschedules ENABLE ROW LEVEL SECURITY;
+
+-- Both parties can read the history; rows are written by the reschedule API with the service role
+DROP POLICY IF EXISTS "Booking parties can view reschedules" ON booking_reschedules;
+CREATE POLICY "Booking parties can view reschedules"
+    ON booking_reschedules FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM bookings b
+            LEFT JOIN barbers br ON br.id = b.barber_id
+            WHERE b.id = booking_reschedules.booking_id
+              AND (b.client_id = auth.uid() OR br.user_id = auth.uid())
+        )
+    );
@@ -0,0 +1,51 @@
+-- Cancellation and no-show policy
+--
+-- Barbers set a cancellation window and a no-show fee. When a client cancels
+-- inside the window, or the barber marks the booking as a no-show, the fee is
+-- charged off-session to the card saved with the original booking payment and
+-- paid out through the barber's Stripe Connect account. Cancellations outside
+-- the window (and any cancellation by the barber) refund the platform fee; the
+-- charge.refunded webhook records the refund.
+--
+-- 1. Policy on booking_restrictions
+-- 2. Saved Stripe customer on profiles
+-- 3. Cancellation and fee tracking on bookings
+-- 4. Public read of the policy so clients see it before booking or cancelling
+
+-- Step 1: Cancellation policy
+ALTER TABLE booking_restrictions
+    ADD COLUMN IF NOT EXISTS cancellation_window_hours INTEGER NOT NULL DEFAULT 24 CHECK (cancellation_window_hours >= 0),
+    ADD COLUMN IF NOT EXISTS no_show_fee NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (no_show_fee >= 0);
+
+COMMENT ON COLUMN booking_restrictions.cancellation_window_hours IS
+'Client cancellations within this many hours of the appointment start are late and charged the no-show fee.';
+COMMENT ON COLUMN booking_restrictions.no_show_fee IS
+'Fee in dollars charged for late cancellations and no-shows. 0 disables the charge.';
+
+-- Step 2: Reuse one Stripe customer per client so the card from the booking payment can be charged later
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT;
+
+-- Step 3: Who cancelled, and the outcome of any policy fee
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS cancelled_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS policy_fee NUMERIC(10,2),
+    ADD COLUMN IF NOT EXISTS policy_fee_status TEXT CHECK (policy_fee_status IN ('pending', 'succeeded', 'failed')),
+    ADD COLUMN IF NOT EXISTS policy_fee_payment_intent_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_policy_fee_payment_intent_id
+    ON bookings(policy_fee_payment_intent_id)
+    WHERE policy_fee_payment_intent_id IS NOT NULL;
+
+COMMENT ON COLUMN bookings.policy_fee IS
+'Late cancellation or no-show fee in dollars charged for this booking.';
+
+-- Step 4: booking_restrictions is only readable by its barber, so expose just the policy
+CREATE OR REPLACE FUNCTION get_cancellation_policy(p_barber_id UUID)
+RETURNS TABLE (cancellation_window_hours INTEGER, no_show_fee NUMERIC) AS $$
+    SELECT
+        COALESCE((SELECT br.cancellation_window_hours FROM booking_restrictions br WHERE br.barber_id = p_barber_id), 24),
+        COALESCE((SELECT br.no_show_fee FROM booking_restrictions br WHERE br.barber_id = p_barber_id), 0);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_cancellation_policy(UUID) TO anon, authenticated;
@@ -0,0 +1,346 @@
+-- Waitlist for fully booked days
+--
+-- Clients join a per-barber, per-date waitlist when no slot fits. When a
+-- booking is cancelled (or otherwise frees its time) the slot is offered to the
+-- first waiting client whose service fits, and held for them for a short time.
+-- Holds are enforced by the availability engine, so nobody else can book the
+-- slot until the offer is taken or expires; expired offers move on to the next
+-- client in line.
+--
+-- 1. booking_waitlist table and RLS
+-- 2. check_slot_availability() treats active offers as held for their client
+-- 3. check_booking_conflicts() passes the booking's client so their own hold does not block them
+-- 4. offer_waitlist_slot() / expire_waitlist_offers() used by the server
+-- 5. Waitlist entries close when the client books with that barber on that day
+
+-- Step 1: Waitlist
+CREATE TABLE IF NOT EXISTS booking_waitlist (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE NOT NULL,
+    client_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    service_id UUID REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+    date DATE NOT NULL, -- In the barber's timezone
+    status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+    offered_slot_start TIMESTAMP WITH TIME ZONE,
+    offered_slot_end TIMESTAMP WITH TIME ZONE,
+    offer_expires_at TIMESTAMP WITH TIME ZONE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+-- One active entry per client, barber and day
+CREATE UNIQUE INDEX IF NOT EXISTS idx_booking_waitlist_active
+    ON booking_waitlist(barber_id, client_id, date)
+    WHERE status IN ('waiting', 'offered');
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_queue
+    ON booking_waitlist(barber_id, date, created_at)
+    WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_offers
+    ON booking_waitlist(barber_id, offer_expires_at)
+    WHERE status = 'offered';
+
+ALTER TABLE booking_waitlist ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Clients can view their waitlist entries" ON booking_waitlist;
+CREATE POLICY "Clients can view their waitlist entries"
+    ON booking_waitlist FOR SELECT
+    USING (client_id = auth.uid());
+
+DROP POLICY IF EXISTS "Clients can join waitlists" ON booking_waitlist;
+CREATE POLICY "Clients can join waitlists"
+    ON booking_waitlist FOR INSERT
+    WITH CHECK (client_id = auth.uid() AND status = 'waiting' AND date >= CURRENT_DATE);
+
+-- Clients can only leave; offers and bookings are written by the server
+DROP POLICY IF EXISTS "Clients can leave waitlists" ON booking_waitlist;
+CREATE POLICY "Clients can leave waitlists"
+    ON booking_waitlist FOR UPDATE
+    USING (client_id = auth.uid())
+    WITH CHECK (client_id = auth.uid() AND status = 'cancelled');
+
+DROP POLICY IF EXISTS "Barbers can view their waitlist" ON booking_waitlist;
+CREATE POLICY "Barbers can view their waitlist"
+    ON booking_waitlist FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM barbers
+        WHERE barbers.id = booking_waitlist.barber_id
+        AND barbers.user_id = auth.uid()
+    ));
+
+-- Offers go out by push notification; the mobile app stores the Expo token here
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS push_token TEXT;
+
+-- Step 2: Slot check that respects waitlist holds
+-- p_client_id (or the signed-in user) is the client who may use their own held slot.
+DROP FUNCTION IF EXISTS check_slot_availability(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION check_slot_availability(
+    p_barber_id UUID,
+    p_start TIMESTAMP WITH TIME ZONE,
+    p_duration_minutes INTEGER,
+    p_exclude_booking_id UUID DEFAULT NULL,
+    p_client_id UUID DEFAULT NULL
+) RETURNS TEXT AS $$
+DECLARE
+    v_tz TEXT := get_barber_timezone(p_barber_id);
+    v_end TIMESTAMP WITH TIME ZONE;
+    v_local_start TIMESTAMP;
+    v_date DATE;
+    v_slot RECORD;
+    v_restriction RECORD;
+    v_buffer_before INTEGER := 0;
+    v_buffer_after INTEGER := 0;
+    v_capacity INTEGER := 1;
+    v_overlapping INTEGER;
+    v_held INTEGER;
+    v_client_id UUID := COALESCE(p_client_id, auth.uid());
+    v_day_count INTEGER;
+BEGIN
+    IF p_duration_minutes IS NULL OR p_duration_minutes <= 0 THEN
+        RETURN 'Invalid service duration';
+    END IF;
+
+    v_end := p_start + make_interval(mins => p_duration_minutes);
+    v_local_start := p_start AT TIME ZONE v_tz;
+    v_date := v_local_start::DATE;
+
+    -- The whole appointment must fit inside one working window
+    IF NOT EXISTS (
+        SELECT 1 FROM get_barber_work_windows(p_barber_id, v_date) w
+        WHERE p_start >= w.window_start
+          AND v_end <= w.window_end
+    ) THEN
+        RETURN 'Booking time is not within barber availability';
+    END IF;
+
+    -- An active advanced scheduling slot covering the start time supplies buffers and capacity
+    SELECT * INTO v_slot
+    FROM scheduling_slots s
+    WHERE s.barber_id = p_barber_id
+      AND s.is_active
+      AND s.day_of_week = EXTRACT(DOW FROM v_date)::INTEGER
+      AND v_local_start::TIME >= s.start_time
+      AND v_local_start::TIME < s.end_time
+    ORDER BY s.start_time DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+        v_buffer_before := COALESCE(v_slot.buffer_minutes_before, 0);
+        v_buffer_after := COALESCE(v_slot.buffer_minutes_after, 0);
+        v_capacity := COALESCE(v_slot.max_bookings_per_slot, 1);
+    END IF;
+
+    SELECT COUNT(*) INTO v_overlapping
+    FROM bookings b
+    WHERE b.barber_id = p_barber_id
+      AND b.id IS DISTINCT FROM p_exclude_booking_id
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND b.date < v_end + make_interval(mins => v_buffer_after)
+      AND b.end_time > p_start - make_interval(mins => v_buffer_before);
+
+    IF v_overlapping >= v_capacity THEN
+        RETURN 'Booking time conflicts with existing booking';
+    END IF;
+
+    -- A slot offered to a waitlisted client is held for them until the offer expires
+    SELECT COUNT(*) INTO v_held
+    FROM booking_waitlist w
+    WHERE w.barber_id = p_barber_id
+      AND w.status = 'offered'
+      AND w.offer_expires_at > NOW()
+      AND w.client_id IS DISTINCT FROM v_client_id
+      AND w.offered_slot_start < v_end
+      AND w.offered_slot_end > p_start;
+
+    IF v_overlapping + v_held >= v_capacity THEN
+        RETURN 'This time is being held for a waitlisted client';
+    END IF;
+
+    SELECT * INTO v_restriction
+    FROM booking_restrictions r
+    WHERE r.barber_id = p_barber_id;
+
+    IF FOUND THEN
+        IF NOT v_restriction.same_day_booking_enabled AND v_date = (NOW() AT TIME ZONE v_tz)::DATE THEN
+            RETURN 'Same day bookings not allowed';
+        END IF;
+
+        IF v_restriction.advance_booking_days > 0
+           AND p_start > NOW() + make_interval(days => v_restriction.advance_booking_days) THEN
+            RETURN 'Booking too far in advance';
+        END IF;
+
+        SELECT COUNT(*) INTO v_day_count
+        FROM bookings b
+        WHERE b.barber_id = p_barber_id
+          AND b.id IS DISTINCT FROM p_exclude_booking_id
+          AND b.status NOT IN ('cancelled', 'expired', 'failed')
+          AND (b.date AT TIME ZONE v_tz)::DATE = v_date;
+
+        IF v_day_count >= v_restriction.max_bookings_per_day THEN
+            RETURN 'Daily booking limit exceeded';
+        END IF;
+
+        IF v_restriction.min_interval_minutes > 0 AND EXISTS (
+            SELECT 1 FROM bookings b
+            WHERE b.barber_id = p_barber_id
+              AND b.id IS DISTINCT FROM p_exclude_booking_id
+              AND b.status NOT IN ('cancelled', 'expired', 'failed')
+              AND b.end_time IS NOT NULL
+              AND b.date < v_end + make_interval(mins => v_restriction.min_interval_minutes)
+              AND b.end_time > p_start - make_interval(mins => v_restriction.min_interval_minutes)
+        ) THEN
+            RETURN 'Minimum interval between bookings not met';
+        END IF;
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Step 3: Booking trigger passes the booking's client to the engine
+CREATE OR REPLACE FUNCTION check_booking_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    service_duration INTEGER;
+    booking_end_time TIMESTAMP WITH TIME ZONE;
+    rejection TEXT;
+BEGIN
+    SELECT duration INTO service_duration
+    FROM services
+    WHERE id = NEW.service_id;
+
+    IF service_duration IS NULL THEN
+        RAISE EXCEPTION 'Service not found or duration is NULL for service_id: %', NEW.service_id;
+    END IF;
+
+    IF service_duration <= 0 THEN
+        RAISE EXCEPTION 'Invalid service duration: % (must be > 0)', service_duration;
+    END IF;
+
+    booking_end_time := NEW.date + make_interval(mins => service_duration);
+    NEW.end_time := booking_end_time;
+
+    -- Rows that no longer hold a slot do not need validating
+    IF NEW.status IN ('cancelled', 'expired', 'failed') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock overlapping rows so concurrent inserts for the same slot serialize
+    PERFORM 1
+    FROM bookings b
+    WHERE b.barber_id = NEW.barber_id
+      AND b.id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::UUID)
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND NEW.date < b.end_time
+      AND booking_end_time > b.date
+    FOR UPDATE;
+
+    rejection := check_slot_availability(NEW.barber_id, NEW.date, service_duration, NEW.id, NEW.client_id);
+
+    IF rejection IS NOT NULL THEN
+        RAISE EXCEPTION '%', rejection;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 4: Offers
+-- Offers a freed slot to the first waiting client for that day whose service fits,
+-- holding it for p_hold_minutes. Returns the offered entry, or nothing.
+CREATE OR REPLACE FUNCTION offer_waitlist_slot(
+    p_barber_id UUID,
+    p_slot_start TIMESTAMP WITH TIME ZONE,
+    p_hold_minutes INTEGER DEFAULT 30
+) RETURNS SETOF booking_waitlist AS $$
+DECLARE
+    v_tz TEXT := get_barber_timezone(p_barber_id);
+    v_entry RECORD;
+    v_duration INTEGER;
+BEGIN
+    IF p_slot_start <= NOW() THEN
+        RETURN;
+    END IF;
+
+    FOR v_entry IN
+        SELECT w.*
+        FROM booking_waitlist w
+        WHERE w.barber_id = p_barber_id
+          AND w.date = (p_slot_start AT TIME ZONE v_tz)::DATE
+          AND w.status = 'waiting'
+        ORDER BY w.created_at
+        FOR UPDATE SKIP LOCKED
+    LOOP
+        SELECT s.duration INTO v_duration FROM services s WHERE s.id = v_entry.service_id;
+        CONTINUE WHEN v_duration IS NULL;
+
+        -- Other clients' active offers count as taken, so the same time is never offered twice
+        IF check_slot_availability(p_barber_id, p_slot_start, v_duration, NULL, v_entry.client_id) IS NULL THEN
+            RETURN QUERY
+            UPDATE booking_waitlist
+            SET status = 'offered',
+                offered_slot_start = p_slot_start,
+                offered_slot_end = p_slot_start + make_interval(mins => v_duration),
+                offer_expires_at = NOW() + make_interval(mins => p_hold_minutes),
+                updated_at = NOW()
+            WHERE id = v_entry.id
+            RETURNING *;
+            RETURN;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Closes offers whose hold has run out and returns the slots so they can be offered to the next client
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS TABLE (barber_id UUID, slot_start TIMESTAMP WITH TIME ZONE) AS $$
+    UPDATE booking_waitlist w
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE w.status = 'offered'
+      AND w.offer_expires_at <= NOW()
+    RETURNING w.barber_id, w.offered_slot_start;
+$$ LANGUAGE sql;
+
+-- Offers are only made by the server with the service role
+REVOKE EXECUTE ON FUNCTION offer_waitlist_slot(UUID, TIMESTAMP WITH TIME ZONE, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_waitlist_offers() FROM PUBLIC, anon, authenticated;
+
+-- Step 5: Booking with the barber on a waitlisted day takes the client off that waitlist
+CREATE OR REPLACE FUNCTION close_waitlist_entries_on_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.client_id IS NULL OR NEW.status IN ('cancelled', 'expired', 'failed') THEN
+        RETURN NEW;
+    END IF;
+
+    UPDATE booking_waitlist
+    SET status = 'booked',
+        booking_id = NEW.id,
+        updated_at = NOW()
+    WHERE client_id = NEW.client_id
+      AND barber_id = NEW.barber_id
+      AND status IN ('waiting', 'offered')
+      AND date = (NEW.date AT TIME ZONE get_barber_timezone(NEW.barber_id))::DATE;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS close_waitlist_entries_trigger ON bookings;
+CREATE TRIGGER close_waitlist_entries_trigger
+    AFTER INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION close_waitlist_entries_on_booking();
+
+GRANT EXECUTE ON FUNCTION check_slot_availability(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID, UUID) TO anon, authenticated;
+
+COMMENT ON FUNCTION check_slot_availability(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID, UUID) IS
+'Single source of truth for whether a barber can take an appointment. Used by
+get_available_slots() for slot generation and by check_booking_conflicts() on insert/update.
+Slots held by a waitlist offer are only bookable by the offered client (p_client_id, or the
+signed-in user). Returns NULL when bookable, otherwise the rejection reason.';
@@ -0,0 +1,245 @@
+-- Recurring appointments
+--
+-- A booking series holds a weekly rule ("every 2 weeks on Tuesday at 3pm until
+-- August 12") and the bookings generated from it point back at it through
+-- bookings.series_id. Occurrences are ordinary bookings, so every one is
+-- validated by check_booking_conflicts(); occurrences that cannot be booked are
+-- skipped and reported instead of failing the whole series.
+--
+-- Series are created by barbers for their regulars, like manual appointments,
+-- so the generated bookings carry no payment.
+--
+-- 1. booking_series table and RLS
+-- 2. bookings.series_id
+-- 3. generate_series_bookings() creates occurrences through the booking trigger
+-- 4. cancel_series_bookings() / update_series_bookings() for this / following / all
+
+-- Step 1: Series
+CREATE TABLE IF NOT EXISTS booking_series (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE NOT NULL,
+    service_id UUID REFERENCES services(id) ON DELETE CASCADE NOT NULL,
+    client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    guest_name TEXT,
+    guest_email TEXT,
+    guest_phone TEXT,
+    interval_weeks INTEGER NOT NULL DEFAULT 1 CHECK (interval_weeks BETWEEN 1 AND 8),
+    start_time TIME NOT NULL, -- In the barber's timezone
+    starts_on DATE NOT NULL, -- First occurrence; its weekday is the series weekday
+    ends_on DATE NOT NULL,
+    price DECIMAL(10,2) NOT NULL DEFAULT 0,
+    notes TEXT,
+    status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT booking_series_dates_check CHECK (ends_on >= starts_on AND ends_on <= starts_on + 366)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_barber_id ON booking_series(barber_id);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through the series APIs with the service role
+DROP POLICY IF EXISTS "Barbers can view their booking series" ON booking_series;
+CREATE POLICY "Barbers can view their booking series"
+    ON booking_series FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM barbers
+        WHERE barbers.id = booking_series.barber_id
+        AND barbers.user_id = auth.uid()
+    ));
+
+DROP POLICY IF EXISTS "Clients can view their booking series" ON booking_series;
+CREATE POLICY "Clients can view their booking series"
+    ON booking_series FOR SELECT
+    USING (client_id = auth.uid());
+
+-- Step 2: Occurrences
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id UUID REFERENCES booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings(series_id, date) WHERE series_id IS NOT NULL;
+
+-- Step 3: Generate occurrences on or after p_from (defaults to the series start).
+-- Each insert runs in its own subtransaction, so a conflict skips that occurrence only.
+CREATE OR REPLACE FUNCTION generate_series_bookings(p_series_id UUID, p_from DATE DEFAULT NULL)
+RETURNS TABLE (occurrence_start TIMESTAMP WITH TIME ZONE, booking_id UUID, skipped_reason TEXT) AS $$
+DECLARE
+    v_series booking_series%ROWTYPE;
+    v_tz TEXT;
+    v_day DATE;
+    v_start TIMESTAMP WITH TIME ZONE;
+    v_booking_id UUID;
+BEGIN
+    SELECT * INTO v_series FROM booking_series WHERE id = p_series_id AND status = 'active';
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    v_tz := get_barber_timezone(v_series.barber_id);
+    v_day := v_series.starts_on;
+
+    WHILE v_day <= v_series.ends_on LOOP
+        v_start := (v_day + v_series.start_time) AT TIME ZONE v_tz;
+
+        IF v_day >= COALESCE(p_from, v_series.starts_on) AND v_start > NOW() THEN
+            BEGIN
+                INSERT INTO bookings (
+                    barber_id, service_id, client_id, date, status, payment_status, price,
+                    platform_fee, barber_payout, notes, guest_name, guest_email, guest_phone, series_id
+                ) VALUES (
+                    v_series.barber_id, v_series.service_id, v_series.client_id, v_start, 'confirmed', 'succeeded', v_series.price,
+                    0, v_series.price, v_series.notes, v_series.guest_name, v_series.guest_email, v_series.guest_phone, v_series.id
+                )
+                RETURNING id INTO v_booking_id;
+
+                occurrence_start := v_start;
+                booking_id := v_booking_id;
+                skipped_reason := NULL;
+            EXCEPTION WHEN OTHERS THEN
+                occurrence_start := v_start;
+                booking_id := NULL;
+                skipped_reason := SQLERRM;
+            END;
+            RETURN NEXT;
+        END IF;
+
+        v_day := v_day + v_series.interval_weeks * 7;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Scoped changes
+-- p_scope is 'this' (the booking only), 'following' (the booking and later
+-- occurrences) or 'all' (every upcoming occurrence).
+
+-- Cancels the chosen occurrences and returns them. 'following' ends the series
+-- before the booking; 'all' cancels the series itself.
+CREATE OR REPLACE FUNCTION cancel_series_bookings(p_booking_id UUID, p_scope TEXT, p_cancelled_by UUID)
+RETURNS SETOF bookings AS $$
+DECLARE
+    v_booking bookings%ROWTYPE;
+    v_tz TEXT;
+BEGIN
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+    IF NOT FOUND OR v_booking.series_id IS NULL THEN
+        RAISE EXCEPTION 'Booking is not part of a recurring series';
+    END IF;
+
+    IF p_scope NOT IN ('this', 'following', 'all') THEN
+        RAISE EXCEPTION 'Invalid scope: %', p_scope;
+    END IF;
+
+    v_tz := get_barber_timezone(v_booking.barber_id);
+
+    IF p_scope = 'following' THEN
+        -- Cancelling from the first occurrence leaves nothing to keep
+        UPDATE booking_series
+        SET ends_on = CASE WHEN (v_booking.date AT TIME ZONE v_tz)::DATE > starts_on
+                           THEN (v_booking.date AT TIME ZONE v_tz)::DATE - 1 ELSE ends_on END,
+            status = CASE WHEN (v_booking.date AT TIME ZONE v_tz)::DATE > starts_on
+                          THEN status ELSE 'cancelled' END,
+            updated_at = NOW()
+        WHERE id = v_booking.series_id;
+    ELSIF p_scope = 'all' THEN
+        UPDATE booking_series
+        SET status = 'cancelled', updated_at = NOW()
+        WHERE id = v_booking.series_id;
+    END IF;
+
+    RETURN QUERY
+    UPDATE bookings b
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        cancelled_by = p_cancelled_by,
+        updated_at = NOW()
+    WHERE b.series_id = v_booking.series_id
+      AND b.status IN ('pending', 'confirmed')
+      AND CASE p_scope
+            WHEN 'this' THEN b.id = v_booking.id
+            WHEN 'following' THEN b.date >= v_booking.date
+            ELSE b.date > NOW()
+          END
+    RETURNING b.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Moves the chosen occurrences so the booking starts at p_new_start. Other
+-- occurrences keep their spacing: 'following' splits off a new series from the
+-- booking, 'all' shifts the whole series. Returns the (re)generated occurrences.
+CREATE OR REPLACE FUNCTION update_series_bookings(p_booking_id UUID, p_scope TEXT, p_new_start TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (occurrence_start TIMESTAMP WITH TIME ZONE, booking_id UUID, skipped_reason TEXT) AS $$
+DECLARE
+    v_booking bookings%ROWTYPE;
+    v_series booking_series%ROWTYPE;
+    v_tz TEXT;
+    v_old_day DATE;
+    v_new_day DATE;
+    v_shift INTEGER;
+    v_new_series_id UUID;
+BEGIN
+    SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+    IF NOT FOUND OR v_booking.series_id IS NULL THEN
+        RAISE EXCEPTION 'Booking is not part of a recurring series';
+    END IF;
+
+    IF v_booking.status NOT IN ('pending', 'confirmed') OR v_booking.date <= NOW() THEN
+        RAISE EXCEPTION 'Only upcoming appointments can be changed';
+    END IF;
+
+    IF p_new_start <= NOW() THEN
+        RAISE EXCEPTION 'Booking time is in the past';
+    END IF;
+
+    SELECT * INTO v_series FROM booking_series WHERE id = v_booking.series_id;
+    v_tz := get_barber_timezone(v_booking.barber_id);
+    v_old_day := (v_booking.date AT TIME ZONE v_tz)::DATE;
+    v_new_day := (p_new_start AT TIME ZONE v_tz)::DATE;
+    v_shift := v_new_day - v_old_day;
+
+    IF p_scope = 'this' THEN
+        -- check_booking_conflicts() validates the new time and raises if it is taken
+        UPDATE bookings
+        SET date = p_new_start, updated_at = NOW()
+        WHERE id = v_booking.id;
+
+        occurrence_start := p_new_start;
+        booking_id := v_booking.id;
+        skipped_reason := NULL;
+        RETURN NEXT;
+        RETURN;
+    ELSIF p_scope = 'following' THEN
+        INSERT INTO booking_series (
+            barber_id, service_id, client_id, guest_name, guest_email, guest_phone,
+            interval_weeks, start_time, starts_on, ends_on, price, notes
+        ) VALUES (
+            v_series.barber_id, v_series.service_id, v_series.client_id, v_series.guest_name, v_series.guest_email, v_series.guest_phone,
+            v_series.interval_weeks, (p_new_start AT TIME ZONE v_tz)::TIME, v_new_day, GREATEST(v_series.ends_on + v_shift, v_new_day), v_series.price, v_series.notes
+        )
+        RETURNING id INTO v_new_series_id;
+
+        -- Free the old times before booking the new ones
+        PERFORM cancel_series_bookings(v_booking.id, 'following', NULL);
+
+        RETURN QUERY SELECT * FROM generate_series_bookings(v_new_series_id);
+    ELSIF p_scope = 'all' THEN
+        PERFORM cancel_series_bookings(v_booking.id, 'all', NULL);
+
+        UPDATE booking_series
+        SET status = 'active',
+            start_time = (p_new_start AT TIME ZONE v_tz)::TIME,
+            starts_on = starts_on + v_shift,
+            ends_on = ends_on + v_shift,
+            updated_at = NOW()
+        WHERE id = v_series.id;
+
+        RETURN QUERY SELECT * FROM generate_series_bookings(v_series.id, (NOW() AT TIME ZONE v_tz)::DATE);
+    ELSE
+        RAISE EXCEPTION 'Invalid scope: %', p_scope;
+    END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Series are managed by the server after checking who is asking
+REVOKE EXECUTE ON FUNCTION generate_series_bookings(UUID, DATE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_series_bookings(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION update_series_bookings(UUID, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
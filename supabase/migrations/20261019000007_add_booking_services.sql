@@ -0,0 +1,187 @@
+-- Multi-service bookings
+--
+-- A booking can now hold several priced services ("haircut + beard + eyebrows")
+-- instead of one service plus add-ons. bookings.service_id stays the primary
+-- service and bookings.additional_service_ids lists the others, so existing
+-- queries that join on service_id keep working.
+--
+-- 1. bookings.additional_service_ids and the booking_services line items
+-- 2. get_booking_duration() sums the durations of every booked service
+-- 3. check_booking_conflicts() validates the summed duration and end_time
+-- 4. service_price defaults to the total of every booked service
+-- 5. record_booking_services() stores each service's price and duration at booking time
+
+-- Step 1: Services on a booking
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS additional_service_ids UUID[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN bookings.additional_service_ids IS 'Services booked alongside service_id in the same appointment';
+COMMENT ON COLUMN bookings.service_price IS 'Historical total of every booked service at time of booking (service_id plus additional_service_ids). Per-service prices are in booking_services.';
+
+CREATE TABLE IF NOT EXISTS booking_services (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+    service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+    name TEXT NOT NULL,
+    price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+    duration INTEGER NOT NULL CHECK (duration > 0),
+    position INTEGER NOT NULL DEFAULT 0, -- 0 is the primary service
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT booking_services_booking_service_key UNIQUE (booking_id, service_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_services_booking_id ON booking_services(booking_id);
+
+ALTER TABLE booking_services ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by record_booking_services() only
+DROP POLICY IF EXISTS "Booking services are viewable by booking participants" ON booking_services;
+CREATE POLICY "Booking services are viewable by booking participants"
+    ON booking_services FOR SELECT
+    USING (EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.id = booking_services.booking_id
+        AND (
+            bookings.barber_id IN (
+                SELECT id FROM barbers WHERE user_id = auth.uid()
+            )
+            OR bookings.client_id = auth.uid()
+        )
+    ));
+
+COMMENT ON TABLE booking_services IS 'Price and duration of each service booked in an appointment, at the time of booking';
+
+-- Step 2: Total duration of a booking's services. Raises when a service is
+-- missing, invalid, or offered by another barber.
+CREATE OR REPLACE FUNCTION get_booking_duration(
+    p_barber_id UUID,
+    p_service_id UUID,
+    p_additional_service_ids UUID[] DEFAULT '{}'
+) RETURNS INTEGER AS $$
+DECLARE
+    v_service_ids UUID[] := ARRAY[p_service_id] || COALESCE(p_additional_service_ids, '{}');
+    v_found INTEGER;
+    v_duration INTEGER;
+BEGIN
+    IF p_service_id IS NULL OR array_position(v_service_ids, NULL) IS NOT NULL THEN
+        RAISE EXCEPTION 'Service not found for this barber';
+    END IF;
+
+    IF array_length(v_service_ids, 1) <> (SELECT COUNT(DISTINCT id) FROM unnest(v_service_ids) AS id) THEN
+        RAISE EXCEPTION 'A service can only be booked once per appointment';
+    END IF;
+
+    SELECT COUNT(*), SUM(s.duration)
+    INTO v_found, v_duration
+    FROM services s
+    WHERE s.id = ANY(v_service_ids)
+      AND s.barber_id = p_barber_id;
+
+    IF v_found <> array_length(v_service_ids, 1) THEN
+        RAISE EXCEPTION 'Service not found for this barber';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM services s
+        WHERE s.id = ANY(v_service_ids)
+          AND (s.duration IS NULL OR s.duration <= 0)
+    ) THEN
+        RAISE EXCEPTION 'Invalid service duration (must be > 0)';
+    END IF;
+
+    RETURN v_duration;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_booking_duration(UUID, UUID, UUID[]) TO anon, authenticated;
+
+-- Step 3: Booking trigger validates the whole appointment
+CREATE OR REPLACE FUNCTION check_booking_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    service_duration INTEGER;
+    booking_end_time TIMESTAMP WITH TIME ZONE;
+    rejection TEXT;
+BEGIN
+    service_duration := get_booking_duration(NEW.barber_id, NEW.service_id, NEW.additional_service_ids);
+
+    booking_end_time := NEW.date + make_interval(mins => service_duration);
+    NEW.end_time := booking_end_time;
+
+    -- Rows that no longer hold a slot do not need validating
+    IF NEW.status IN ('cancelled', 'expired', 'failed') THEN
+        RETURN NEW;
+    END IF;
+
+    -- Lock overlapping rows so concurrent inserts for the same slot serialize
+    PERFORM 1
+    FROM bookings b
+    WHERE b.barber_id = NEW.barber_id
+      AND b.id != COALESCE(NEW.id, '00000000-0000-0000-0000-000000000000'::UUID)
+      AND b.status NOT IN ('cancelled', 'expired', 'failed')
+      AND b.end_time IS NOT NULL
+      AND NEW.date < b.end_time
+      AND booking_end_time > b.date
+    FOR UPDATE;
+
+    rejection := check_slot_availability(NEW.barber_id, NEW.date, service_duration, NEW.id, NEW.client_id);
+
+    IF rejection IS NOT NULL THEN
+        RAISE EXCEPTION '%', rejection;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_booking_conflicts_trigger ON bookings;
+CREATE TRIGGER check_booking_conflicts_trigger
+    BEFORE INSERT OR UPDATE OF date, service_id, additional_service_ids, barber_id ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION check_booking_conflicts();
+
+-- Step 4: service_price defaults to the total of every booked service
+CREATE OR REPLACE FUNCTION set_service_price_default()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.service_price IS NULL THEN
+    SELECT SUM(price) INTO NEW.service_price
+    FROM services
+    WHERE id = ANY(ARRAY[NEW.service_id] || COALESCE(NEW.additional_service_ids, '{}'));
+
+    -- If service not found, raise an error (service_price is required)
+    IF NEW.service_price IS NULL THEN
+      RAISE EXCEPTION 'Service not found or has no price for service_id: %', NEW.service_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Step 5: Line items for the price breakdown
+CREATE OR REPLACE FUNCTION record_booking_services()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO booking_services (booking_id, service_id, name, price, duration, position)
+    SELECT NEW.id, s.id, s.name, COALESCE(s.price, 0), s.duration, ids.position - 1
+    FROM unnest(ARRAY[NEW.service_id] || NEW.additional_service_ids) WITH ORDINALITY AS ids(service_id, position)
+    JOIN services s ON s.id = ids.service_id
+    ON CONFLICT (booking_id, service_id) DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_booking_services_trigger ON bookings;
+CREATE TRIGGER record_booking_services_trigger
+    AFTER INSERT ON bookings
+    FOR EACH ROW
+    EXECUTE FUNCTION record_booking_services();
+
+-- Existing bookings get their single service as a line item
+INSERT INTO booking_services (booking_id, service_id, name, price, duration, position)
+SELECT b.id, s.id, s.name, COALESCE(b.service_price, s.price, 0), s.duration, 0
+FROM bookings b
+JOIN services s ON s.id = b.service_id
+WHERE s.duration > 0
+ON CONFLICT (booking_id, service_id) DO NOTHING;
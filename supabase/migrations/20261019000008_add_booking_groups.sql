@@ -0,0 +1,155 @@
+-- Group bookings
+--
+-- One client books several people with the same barber in a single checkout,
+-- back to back or side by side (when the barber's scheduling slot has capacity).
+-- Each person gets their own booking with their own services and add-ons; the
+-- bookings are linked by group_id and share the group's payment intent.
+--
+-- 1. booking_groups holds the requested members until payment succeeds
+-- 2. bookings.group_id / group_member_name link member bookings to their group
+-- 3. confirm_booking_group() books every member in one transaction after payment
+-- 4. cancel_booking_group() cancels every upcoming member booking at once
+
+-- Step 1: Groups
+CREATE TABLE IF NOT EXISTS booking_groups (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE NOT NULL,
+    client_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL, -- the client who booked and paid
+    name TEXT,
+    -- [{ "name", "serviceId", "additionalServiceIds", "addonIds", "date" }], in booking order
+    members JSONB NOT NULL CHECK (jsonb_typeof(members) = 'array' AND jsonb_array_length(members) BETWEEN 2 AND 6),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'failed', 'cancelled')),
+    payment_intent_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_groups_barber_id ON booking_groups(barber_id);
+CREATE INDEX IF NOT EXISTS idx_booking_groups_client_id ON booking_groups(client_id);
+CREATE INDEX IF NOT EXISTS idx_booking_groups_payment_intent_id ON booking_groups(payment_intent_id);
+
+ALTER TABLE booking_groups ENABLE ROW LEVEL SECURITY;
+
+-- Groups are written by the payment function and the server only
+DROP POLICY IF EXISTS "Booking groups are viewable by participants" ON booking_groups;
+CREATE POLICY "Booking groups are viewable by participants"
+    ON booking_groups FOR SELECT
+    USING (
+        client_id = auth.uid()
+        OR barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid())
+    );
+
+COMMENT ON TABLE booking_groups IS 'Several people booked together by one client in a single checkout';
+
+-- Step 2: Member bookings
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_id UUID REFERENCES booking_groups(id) ON DELETE SET NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS group_member_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_group_id ON bookings(group_id);
+
+COMMENT ON COLUMN bookings.group_id IS 'Group booking this appointment belongs to, if any';
+COMMENT ON COLUMN bookings.group_member_name IS 'Name of the person in the group this appointment is for';
+
+-- Step 3: Books every member once the group's payment succeeds. The booking
+-- trigger validates each member; if any member can no longer be booked the
+-- whole group is rolled back and the caller refunds the payment.
+-- Fees are per member, in dollars. Safe to call again for a confirmed group.
+CREATE OR REPLACE FUNCTION confirm_booking_group(
+    p_group_id UUID,
+    p_payment_intent_id TEXT,
+    p_platform_fee DECIMAL,
+    p_barber_payout DECIMAL
+) RETURNS SETOF bookings AS $$
+DECLARE
+    v_group booking_groups%ROWTYPE;
+    v_member JSONB;
+    v_booking_id UUID;
+BEGIN
+    SELECT * INTO v_group FROM booking_groups WHERE id = p_group_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking group not found';
+    END IF;
+
+    IF v_group.status = 'confirmed' THEN
+        RETURN QUERY SELECT * FROM bookings WHERE group_id = p_group_id ORDER BY date;
+        RETURN;
+    END IF;
+
+    IF v_group.status <> 'pending' THEN
+        RAISE EXCEPTION 'Booking group is %', v_group.status;
+    END IF;
+
+    FOR v_member IN SELECT value FROM jsonb_array_elements(v_group.members) LOOP
+        INSERT INTO bookings (
+            barber_id, client_id, service_id, additional_service_ids, date,
+            status, payment_status, payment_intent_id,
+            price, platform_fee, barber_payout, addon_total,
+            group_id, group_member_name
+        ) VALUES (
+            v_group.barber_id,
+            v_group.client_id,
+            (v_member->>'serviceId')::UUID,
+            ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_member->'additionalServiceIds', '[]'::JSONB)))::UUID[],
+            (v_member->>'date')::TIMESTAMP WITH TIME ZONE,
+            'confirmed',
+            'succeeded',
+            p_payment_intent_id,
+            p_platform_fee + p_barber_payout,
+            p_platform_fee,
+            p_barber_payout,
+            0, -- maintained by the booking_addons trigger
+            v_group.id,
+            v_member->>'name'
+        )
+        RETURNING id INTO v_booking_id;
+
+        INSERT INTO booking_addons (booking_id, addon_id, price)
+        SELECT v_booking_id, a.id, a.price
+        FROM service_addons a
+        WHERE a.barber_id = v_group.barber_id
+          AND a.is_active
+          AND a.id IN (
+              SELECT DISTINCT value::UUID
+              FROM jsonb_array_elements_text(COALESCE(v_member->'addonIds', '[]'::JSONB))
+          );
+    END LOOP;
+
+    UPDATE booking_groups
+    SET status = 'confirmed',
+        payment_intent_id = p_payment_intent_id,
+        updated_at = NOW()
+    WHERE id = p_group_id;
+
+    RETURN QUERY SELECT * FROM bookings WHERE group_id = p_group_id ORDER BY date;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Cancels every upcoming member booking together and returns them
+CREATE OR REPLACE FUNCTION cancel_booking_group(p_group_id UUID, p_cancelled_by UUID)
+RETURNS SETOF bookings AS $$
+BEGIN
+    PERFORM 1 FROM booking_groups WHERE id = p_group_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Booking group not found';
+    END IF;
+
+    UPDATE booking_groups
+    SET status = 'cancelled', updated_at = NOW()
+    WHERE id = p_group_id;
+
+    RETURN QUERY
+    UPDATE bookings b
+    SET status = 'cancelled',
+        cancelled_at = NOW(),
+        cancelled_by = p_cancelled_by,
+        updated_at = NOW()
+    WHERE b.group_id = p_group_id
+      AND b.status IN ('pending', 'confirmed')
+      AND b.date > NOW()
+    RETURNING b.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Groups are managed by the server after checking who is asking
+REVOKE EXECUTE ON FUNCTION confirm_booking_group(UUID, TEXT, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION cancel_booking_group(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,153 @@
+-- On-demand "mobile barber" requests
+--
+-- A client asks a nearby barber to come to them at a given time. Barbers take
+-- requests when on-demand is enabled in ondemand_settings and the client is
+-- within their availability_radius_miles; surge_multiplier applies to the
+-- service price when surge pricing is on. The platform fee is held on the
+-- client's card while the barber decides. Accepting captures it and turns the
+-- request into a normal booking; declining or letting it expire releases it.
+--
+-- 1. ondemand_requests: response deadline, payment hold, resulting booking
+-- 2. find_ondemand_barbers() matches barbers for a client location and time
+-- 3. accept_ondemand_request() converts a pending request into a booking
+-- 4. expire_ondemand_requests() closes requests nobody answered in time
+
+-- Step 1: Request lifecycle
+ALTER TABLE ondemand_requests
+ADD COLUMN IF NOT EXISTS distance_miles DECIMAL,
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS responded_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS payment_intent_id TEXT,
+ADD COLUMN IF NOT EXISTS booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL;
+
+-- A request is recorded once per payment hold, however often the webhook is delivered
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ondemand_requests_payment_intent
+    ON ondemand_requests(payment_intent_id);
+CREATE INDEX IF NOT EXISTS idx_ondemand_requests_expiry
+    ON ondemand_requests(expires_at)
+    WHERE status = 'pending';
+
+-- Clients can withdraw a request the barber has not answered yet
+ALTER TABLE ondemand_requests DROP CONSTRAINT IF EXISTS ondemand_requests_status_check;
+ALTER TABLE ondemand_requests ADD CONSTRAINT ondemand_requests_status_check
+    CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'cancelled', 'completed'));
+
+-- Requests are created from a payment hold and answered through the server
+DROP POLICY IF EXISTS "Users can create ondemand requests" ON ondemand_requests;
+DROP POLICY IF EXISTS "Users can update own ondemand requests" ON ondemand_requests;
+
+-- Step 2: Barbers who take on-demand requests at a location and time
+-- Clients need other barbers' settings here, which RLS keeps private, so the
+-- function only returns what the request flow needs
+CREATE OR REPLACE FUNCTION find_ondemand_barbers(
+    p_lat DECIMAL,
+    p_lng DECIMAL,
+    p_requested_time TIMESTAMP WITH TIME ZONE
+) RETURNS TABLE (
+    barber_id UUID,
+    distance_miles DECIMAL,
+    surge_multiplier DECIMAL
+) AS $$
+    SELECT m.barber_id, ROUND(m.distance_miles::NUMERIC, 1), m.surge_multiplier
+    FROM (
+        SELECT
+            b.id AS barber_id,
+            -- Haversine distance in miles
+            3959 * 2 * ASIN(SQRT(
+                POWER(SIN(RADIANS(b.latitude - p_lat) / 2), 2) +
+                COS(RADIANS(p_lat)) * COS(RADIANS(b.latitude)) *
+                POWER(SIN(RADIANS(b.longitude - p_lng) / 2), 2)
+            )) AS distance_miles,
+            CASE WHEN s.surge_pricing_enabled THEN s.surge_multiplier ELSE 1.0 END AS surge_multiplier,
+            s.availability_radius_miles
+        FROM barbers b
+        JOIN ondemand_settings s ON s.barber_id = b.id
+        WHERE s.is_enabled
+          AND b.latitude IS NOT NULL
+          AND b.longitude IS NOT NULL
+          AND b.stripe_account_id IS NOT NULL
+          AND p_requested_time >= NOW() + make_interval(mins => s.min_notice_minutes)
+          AND p_requested_time <= NOW() + make_interval(hours => s.max_notice_hours)
+    ) m
+    WHERE m.distance_miles <= m.availability_radius_miles
+    ORDER BY m.distance_miles;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_ondemand_barbers(DECIMAL, DECIMAL, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_ondemand_barbers(DECIMAL, DECIMAL, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Step 3: Accepting books the requested time like any other appointment
+-- The booking carries the request's payment hold, which the server captures next
+CREATE OR REPLACE FUNCTION accept_ondemand_request(
+    p_request_id UUID,
+    p_platform_fee DECIMAL,
+    p_barber_payout DECIMAL
+) RETURNS bookings AS $$
+DECLARE
+    v_request ondemand_requests%ROWTYPE;
+    v_booking bookings%ROWTYPE;
+BEGIN
+    SELECT * INTO v_request FROM ondemand_requests WHERE id = p_request_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'On-demand request not found';
+    END IF;
+
+    IF v_request.status <> 'pending' THEN
+        RAISE EXCEPTION 'On-demand request is %', v_request.status;
+    END IF;
+
+    IF v_request.expires_at <= NOW() OR v_request.requested_time <= NOW() THEN
+        RAISE EXCEPTION 'On-demand request has expired';
+    END IF;
+
+    INSERT INTO bookings (
+        barber_id, client_id, service_id, date,
+        status, payment_status, payment_intent_id,
+        price, platform_fee, barber_payout, service_price, addon_total,
+        notes
+    ) VALUES (
+        v_request.barber_id,
+        v_request.client_id,
+        v_request.service_id,
+        v_request.requested_time,
+        'confirmed',
+        'succeeded',
+        v_request.payment_intent_id,
+        p_platform_fee + p_barber_payout,
+        p_platform_fee,
+        p_barber_payout,
+        v_request.price, -- surge-adjusted, paid at the appointment
+        0, -- maintained by the booking_addons trigger
+        CONCAT_WS(E'\n',
+            'On-demand at ' || COALESCE(NULLIF(v_request.location_address, ''), 'the client''s location'),
+            NULLIF(v_request.notes, ''))
+    )
+    RETURNING * INTO v_booking;
+
+    UPDATE ondemand_requests
+    SET status = 'accepted',
+        booking_id = v_booking.id,
+        responded_at = NOW(),
+        updated_at = NOW()
+    WHERE id = p_request_id;
+
+    RETURN v_booking;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Step 4: Requests expire when the barber has not answered by the deadline
+-- Returns them so the server can release each payment hold
+DROP FUNCTION IF EXISTS expire_ondemand_requests();
+CREATE OR REPLACE FUNCTION expire_ondemand_requests()
+RETURNS SETOF ondemand_requests AS $$
+    UPDATE ondemand_requests
+    SET status = 'expired',
+        updated_at = NOW()
+    WHERE status = 'pending'
+      AND (expires_at <= NOW() OR requested_time <= NOW())
+    RETURNING *;
+$$ LANGUAGE sql;
+
+-- Requests are answered and expired by the server after checking who is asking
+REVOKE EXECUTE ON FUNCTION accept_ondemand_request(UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION expire_ondemand_requests() FROM PUBLIC, anon, authenticated;
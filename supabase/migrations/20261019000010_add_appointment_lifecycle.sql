@@ -0,0 +1,90 @@
+-- Appointment lifecycle: check-in, start of service and completion
+--
+-- The client checks in when they arrive (from the app, or by scanning the QR code
+-- the barber shows at the chair), the barber starts the service, then completes
+-- it. Each step is timestamped on the booking so the calendars can show where an
+-- appointment is, and so the barber can see punctuality and how long services
+-- actually take. Transitions go through the booking APIs.
+--
+-- 1. Lifecycle timestamps on bookings
+-- 2. Per-barber check-in code encoded in the QR code
+-- 3. Live calendar updates over Supabase Realtime
+-- 4. Punctuality and service time metrics for the barber
+
+-- Step 1: Lifecycle timestamps
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS checked_in_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS check_in_method TEXT CHECK (check_in_method IN ('manual', 'qr')),
+    ADD COLUMN IF NOT EXISTS service_started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bookings.checked_in_at IS
+'When the client checked in for the appointment.';
+COMMENT ON COLUMN bookings.check_in_method IS
+'manual when checked in from the booking, qr when the client scanned the barber''s check-in code.';
+COMMENT ON COLUMN bookings.service_started_at IS
+'When the barber started the service.';
+COMMENT ON COLUMN bookings.completed_at IS
+'When the barber completed the appointment.';
+
+CREATE INDEX IF NOT EXISTS idx_bookings_barber_completed_at
+    ON bookings(barber_id, completed_at)
+    WHERE completed_at IS NOT NULL;
+
+-- Step 2: Check-in code. It only identifies the barber; the check-in API finds the
+-- scanning client's appointment with them, so the code can be printed and left at the chair.
+ALTER TABLE barbers
+    ADD COLUMN IF NOT EXISTS check_in_code TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_barbers_check_in_code ON barbers(check_in_code);
+
+-- Step 3: Stream booking changes to the calendars. Realtime applies the bookings RLS
+-- policies, so barbers and clients only receive their own appointments.
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'bookings'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE bookings;
+    END IF;
+END $$;
+
+-- Step 4: Metrics over the barber's appointments since p_since.
+-- Arrival is check-in relative to the start time (negative is early). Wait is how long
+-- the client waited to be seated after the later of the start time and their arrival.
+CREATE OR REPLACE FUNCTION get_barber_lifecycle_metrics(p_barber_id UUID, p_since TIMESTAMP WITH TIME ZONE)
+RETURNS TABLE (
+    checked_in_count INTEGER,
+    on_time_count INTEGER,
+    avg_arrival_minutes NUMERIC,
+    avg_wait_minutes NUMERIC,
+    completed_count INTEGER,
+    avg_service_minutes NUMERIC,
+    avg_booked_minutes NUMERIC
+) AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM barbers WHERE id = p_barber_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the barber can view their appointment metrics';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        COUNT(b.checked_in_at)::INTEGER,
+        COUNT(*) FILTER (WHERE b.checked_in_at <= b.date)::INTEGER,
+        ROUND(AVG(EXTRACT(EPOCH FROM (b.checked_in_at - b.date)) / 60)::NUMERIC, 1),
+        ROUND(AVG(GREATEST(0, EXTRACT(EPOCH FROM (b.service_started_at - GREATEST(b.date, COALESCE(b.checked_in_at, b.date)))) / 60))::NUMERIC, 1),
+        COUNT(b.completed_at)::INTEGER,
+        ROUND(AVG(EXTRACT(EPOCH FROM (b.completed_at - b.service_started_at)) / 60)::NUMERIC, 1),
+        ROUND(AVG(EXTRACT(EPOCH FROM (b.end_time - b.date)) / 60) FILTER (WHERE b.completed_at IS NOT NULL AND b.service_started_at IS NOT NULL)::NUMERIC, 1)
+    FROM bookings b
+    WHERE b.barber_id = p_barber_id
+      AND b.date >= p_since
+      AND b.date <= NOW()
+      AND b.status <> 'cancelled';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_barber_lifecycle_metrics(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_barber_lifecycle_metrics(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
@@ -0,0 +1,51 @@
+-- Notification deliveries
+--
+-- SMS, email, push and in-app messages are sent through one delivery layer
+-- (src/shared/lib/notification-delivery.ts) with a provider per channel. Every
+-- message is logged here with the provider that handled it, how many attempts
+-- it took and how it ended. SMS no longer goes through carrier email gateways,
+-- so a phone number is all it takes to text someone.
+--
+-- A message sent again under the same dedupe_key (a redelivered webhook, a
+-- rerun of the reminder job) is skipped rather than sent twice.
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    channel TEXT NOT NULL CHECK (channel IN ('sms', 'email', 'push', 'in_app')),
+    provider TEXT, -- e.g. twilio, smtp, expo, database, console
+    recipient_id UUID REFERENCES profiles(id) ON DELETE SET NULL, -- null for guests
+    recipient TEXT NOT NULL, -- phone number, email address, push token or user id
+    type TEXT NOT NULL, -- e.g. booking_confirmed, booking_reminder
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    title TEXT NOT NULL,
+    body TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    last_error TEXT,
+    provider_message_id TEXT,
+    dedupe_key TEXT,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_recipient_id
+    ON notification_deliveries(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_booking_id
+    ON notification_deliveries(booking_id);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_failed
+    ON notification_deliveries(created_at)
+    WHERE status = 'failed';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_dedupe_key
+    ON notification_deliveries(dedupe_key);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the server only
+DROP POLICY IF EXISTS "Users can view their own notification deliveries" ON notification_deliveries;
+CREATE POLICY "Users can view their own notification deliveries"
+    ON notification_deliveries FOR SELECT
+    USING (recipient_id = auth.uid());
+
+COMMENT ON TABLE notification_deliveries IS 'Every SMS, email, push and in-app message sent, with its provider and delivery status';
+COMMENT ON COLUMN notification_deliveries.dedupe_key IS 'Identifies a message across retries of whatever sent it, e.g. booking:<id>:confirmed:client:sms';
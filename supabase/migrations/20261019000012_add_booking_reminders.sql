@@ -0,0 +1,95 @@
+-- Appointment reminders
+--
+-- Barbers choose when their clients are reminded (by default 24 hours and 2 hours
+-- before the appointment). A scheduler (the /api/bookings/reminders cron route or
+-- the send-reminders edge function) claims the reminders that are due and sends
+-- them through the notification delivery layer.
+--
+-- Each reminder is recorded per booking, offset and appointment time before it
+-- is sent, so it goes out at most once however often or concurrently the
+-- scheduler runs. Cancelled bookings are never claimed; a rescheduled booking is
+-- reminded about its new time only.
+--
+-- 1. booking_restrictions.reminder_offsets_minutes
+-- 2. booking_reminders
+-- 3. claim_due_booking_reminders() picks the reminders to send now
+
+-- Step 1: When to remind, in minutes before the appointment
+ALTER TABLE booking_restrictions
+    ADD COLUMN IF NOT EXISTS reminder_offsets_minutes INTEGER[] NOT NULL DEFAULT '{1440,120}'
+    CHECK (
+        cardinality(reminder_offsets_minutes) <= 3
+        AND 15 <= ALL(reminder_offsets_minutes)
+        AND 10080 >= ALL(reminder_offsets_minutes)
+    );
+
+COMMENT ON COLUMN booking_restrictions.reminder_offsets_minutes IS
+'Clients are reminded this many minutes before the appointment, at most 3 times. Empty turns reminders off.';
+
+-- Step 2: One row per reminder claimed by the scheduler
+CREATE TABLE IF NOT EXISTS booking_reminders (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    booking_id UUID REFERENCES bookings(id) ON DELETE CASCADE NOT NULL,
+    offset_minutes INTEGER NOT NULL,
+    appointment_at TIMESTAMP WITH TIME ZONE NOT NULL, -- the booking's start when it was claimed
+    status TEXT NOT NULL DEFAULT 'sending' CHECK (status IN ('sending', 'sent', 'failed', 'skipped')),
+    delivery_count INTEGER NOT NULL DEFAULT 0,
+    sent_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    UNIQUE (booking_id, offset_minutes, appointment_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_reminders_booking_id ON booking_reminders(booking_id);
+
+ALTER TABLE booking_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Reminders are written by the scheduler only
+DROP POLICY IF EXISTS "Booking parties can view reminders" ON booking_reminders;
+CREATE POLICY "Booking parties can view reminders"
+    ON booking_reminders FOR SELECT
+    USING (
+        booking_id IN (
+            SELECT id FROM bookings
+            WHERE client_id = auth.uid()
+               OR barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid())
+        )
+    );
+
+COMMENT ON TABLE booking_reminders IS 'Appointment reminders sent, one per booking, offset and appointment time';
+
+-- Step 3: Claims the reminders due now. For each upcoming confirmed booking only the
+-- latest reminder time that has passed counts, so a scheduler that was down does not
+-- send a backlog of stale reminders, and reminder times from before the booking was
+-- made are skipped. Claimed rows are returned once; a second run gets nothing.
+CREATE OR REPLACE FUNCTION claim_due_booking_reminders(
+    p_limit INTEGER DEFAULT 100
+) RETURNS SETOF booking_reminders AS $$
+    INSERT INTO booking_reminders (booking_id, offset_minutes, appointment_at)
+    SELECT due.booking_id, due.offset_minutes, due.appointment_at
+    FROM (
+        SELECT DISTINCT ON (b.id)
+            b.id AS booking_id,
+            o.offset_minutes,
+            b.date AS appointment_at
+        FROM bookings b
+        LEFT JOIN booking_restrictions r ON r.barber_id = b.barber_id
+        CROSS JOIN LATERAL unnest(COALESCE(r.reminder_offsets_minutes, '{1440,120}'::INTEGER[])) AS o(offset_minutes)
+        WHERE b.status = 'confirmed'
+          AND b.date > NOW()
+          AND b.date - make_interval(mins => o.offset_minutes) <= NOW()
+          AND b.date - make_interval(mins => o.offset_minutes) >= b.created_at
+        ORDER BY b.id, o.offset_minutes
+    ) due
+    WHERE NOT EXISTS (
+        SELECT 1 FROM booking_reminders sent
+        WHERE sent.booking_id = due.booking_id
+          AND sent.offset_minutes = due.offset_minutes
+          AND sent.appointment_at = due.appointment_at
+    )
+    ORDER BY due.appointment_at
+    LIMIT p_limit
+    ON CONFLICT (booking_id, offset_minutes, appointment_at) DO NOTHING
+    RETURNING *;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION claim_due_booking_reminders(INTEGER) FROM PUBLIC, anon, authenticated;
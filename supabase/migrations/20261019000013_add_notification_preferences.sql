@@ -0,0 +1,66 @@
+-- Notification preferences
+--
+-- One row per user saying which channels (push, SMS, email) each kind of
+-- notification is sent on, plus quiet hours during which push notifications and
+-- texts are held back. Users without a row get the defaults in
+-- notification-preferences.ts. The delivery layer checks these before sending
+-- anything.
+--
+-- In-app notifications always reach the inbox. Texts also still need the SMS
+-- consent a user gives with their phone number (profiles.sms_notifications).
+--
+-- 1. notification_preferences
+-- 2. Carry over profiles.email_notifications
+
+-- Step 1: Preferences per user
+CREATE TABLE IF NOT EXISTS notification_preferences (
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE PRIMARY KEY,
+    -- {"booking_reminder": {"sms": false}, ...}; events and channels left out use the defaults
+    channels JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(channels) = 'object'),
+    quiet_hours_start TIME,
+    quiet_hours_end TIME,
+    timezone TEXT NOT NULL DEFAULT 'America/New_York',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL))
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can view their own notification preferences"
+    ON notification_preferences FOR SELECT
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can create their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can create their own notification preferences"
+    ON notification_preferences FOR INSERT
+    WITH CHECK (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can update their own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update their own notification preferences"
+    ON notification_preferences FOR UPDATE
+    USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+COMMENT ON TABLE notification_preferences IS 'Channels each notification type is sent on, and quiet hours, per user';
+COMMENT ON COLUMN notification_preferences.channels IS 'Overrides of the default channels, keyed by event then channel';
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'Push notifications and texts are held back from this local time until quiet_hours_end';
+
+-- Step 2: Users who turned email off keep it off for every event
+INSERT INTO notification_preferences (user_id, channels)
+SELECT
+    p.id,
+    (
+        SELECT jsonb_object_agg(event, '{"email": false}'::jsonb)
+        FROM unnest(ARRAY[
+            'booking_created', 'booking_cancelled', 'booking_reminder',
+            'review_received', 'payout', 'new_follower_cut'
+        ]) AS event
+    )
+FROM profiles p
+WHERE p.email_notifications = false
+ON CONFLICT (user_id) DO NOTHING;
+
+COMMENT ON COLUMN profiles.email_notifications IS 'Deprecated: email is now turned on and off per event in notification_preferences';
+COMMENT ON COLUMN profiles.sms_notifications IS 'Whether the user has agreed to receive text messages at their phone number';
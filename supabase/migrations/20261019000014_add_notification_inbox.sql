@@ -0,0 +1,107 @@
+-- Notification inbox
+--
+-- The notifications table becomes the inbox both apps show behind the bell. Each
+-- notification can point at the booking, review or cut it is about, so tapping it
+-- opens that item, and new rows stream to the inbox over Realtime.
+--
+-- 1. notifications.review_id and notifications.cut_id
+-- 2. Indexes for the inbox and its unread badge
+-- 3. Stream notifications over Realtime
+-- 4. Barbers hear about new reviews
+-- 5. Barbers hear about comments on their cuts
+
+-- Step 1: What a notification links to, besides booking_id
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS review_id UUID REFERENCES reviews(id) ON DELETE CASCADE;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS cut_id UUID REFERENCES cuts(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN notifications.booking_id IS 'Booking the notification opens, if any';
+COMMENT ON COLUMN notifications.review_id IS 'Review the notification opens, if any';
+COMMENT ON COLUMN notifications.cut_id IS 'Cut the notification opens, if any';
+
+-- Step 2: Newest first per user, and the unread count for the badge
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread ON notifications(user_id) WHERE read = false;
+
+-- Step 3: Realtime applies the notifications RLS policies, so users only receive their own
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+       AND NOT EXISTS (
+           SELECT 1 FROM pg_publication_tables
+           WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+       ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END $$;
+
+-- Step 4: Reviews are written by clients from the browser, so the barber's
+-- notification is created here rather than by the server
+CREATE OR REPLACE FUNCTION notify_review_received()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_barber_user_id UUID;
+    v_client_name TEXT;
+BEGIN
+    SELECT user_id INTO v_barber_user_id FROM barbers WHERE id = NEW.barber_id;
+    IF v_barber_user_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(name, 'A client') INTO v_client_name FROM profiles WHERE id = NEW.client_id;
+
+    INSERT INTO notifications (user_id, title, message, type, booking_id, review_id)
+    VALUES (
+        v_barber_user_id,
+        'New Review',
+        COALESCE(v_client_name, 'A client') || ' left you a ' || NEW.rating || '-star review',
+        'review_received',
+        NEW.booking_id,
+        NEW.id
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_review_received_trigger ON reviews;
+CREATE TRIGGER notify_review_received_trigger
+    AFTER INSERT ON reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_review_received();
+
+-- Step 5: Comments on a barber's cut, except their own
+CREATE OR REPLACE FUNCTION notify_cut_comment()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_barber_user_id UUID;
+    v_commenter_name TEXT;
+BEGIN
+    SELECT b.user_id INTO v_barber_user_id
+    FROM cuts c
+    JOIN barbers b ON b.id = c.barber_id
+    WHERE c.id = NEW.cut_id;
+
+    IF v_barber_user_id IS NULL OR v_barber_user_id = NEW.user_id THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT COALESCE(name, 'Someone') INTO v_commenter_name FROM profiles WHERE id = NEW.user_id;
+
+    INSERT INTO notifications (user_id, title, message, type, cut_id)
+    VALUES (
+        v_barber_user_id,
+        'New Comment',
+        COALESCE(v_commenter_name, 'Someone') || ' commented on your cut: ' || left(NEW.comment, 100),
+        'cut_comment',
+        NEW.cut_id
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_cut_comment_trigger ON cut_comments;
+CREATE TRIGGER notify_cut_comment_trigger
+    AFTER INSERT ON cut_comments
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_cut_comment();
@@ -0,0 +1,90 @@
+-- Push tokens
+--
+-- profiles.push_token held one Expo token per user, so only the last device a user
+-- signed in on got pushes. Each device now registers its own token, and tokens Expo
+-- reports as no longer registered are removed by the server.
+--
+-- 1. push_tokens table
+-- 2. Row Level Security
+-- 3. register_push_token: a device claims its token for the signed-in user
+-- 4. Carry over the tokens saved on profiles
+-- 5. Track which push deliveries have had their Expo receipt checked
+
+-- Step 1: One row per device the user has signed in on
+CREATE TABLE IF NOT EXISTS push_tokens (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE, -- ExponentPushToken[...]
+    platform TEXT CHECK (platform IN ('ios', 'android', 'web')),
+    device_name TEXT,
+    last_registered_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_tokens_user_id ON push_tokens(user_id);
+
+COMMENT ON TABLE push_tokens IS 'Expo push tokens, one per device a user is signed in on; the server sends every push to all of them';
+COMMENT ON COLUMN push_tokens.last_registered_at IS 'Last time the app registered the token, i.e. the device was last used';
+
+-- Step 2: Users see and remove their own devices; tokens are added through register_push_token
+ALTER TABLE push_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own push tokens" ON push_tokens;
+CREATE POLICY "Users can view their own push tokens"
+    ON push_tokens FOR SELECT
+    USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can delete their own push tokens" ON push_tokens;
+CREATE POLICY "Users can delete their own push tokens"
+    ON push_tokens FOR DELETE
+    USING (user_id = auth.uid());
+
+-- Step 3: A token belongs to whoever last signed in on the device, so a shared
+-- device stops receiving the previous user's pushes
+CREATE OR REPLACE FUNCTION register_push_token(
+    p_token TEXT,
+    p_platform TEXT DEFAULT NULL,
+    p_device_name TEXT DEFAULT NULL
+) RETURNS push_tokens AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_row push_tokens;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'You must be signed in to register for push notifications';
+    END IF;
+
+    INSERT INTO push_tokens (user_id, token, platform, device_name)
+    VALUES (v_user_id, p_token, p_platform, p_device_name)
+    ON CONFLICT (token) DO UPDATE SET
+        user_id = EXCLUDED.user_id,
+        platform = COALESCE(EXCLUDED.platform, push_tokens.platform),
+        device_name = COALESCE(EXCLUDED.device_name, push_tokens.device_name),
+        last_registered_at = TIMEZONE('utc'::text, NOW()),
+        updated_at = TIMEZONE('utc'::text, NOW())
+    RETURNING * INTO v_row;
+
+    RETURN v_row;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION register_push_token(TEXT, TEXT, TEXT) TO authenticated;
+
+-- Step 4: Existing tokens keep working until their devices register again
+INSERT INTO push_tokens (user_id, token)
+SELECT id, push_token
+FROM profiles
+WHERE push_token IS NOT NULL AND push_token <> ''
+ON CONFLICT (token) DO NOTHING;
+
+COMMENT ON COLUMN profiles.push_token IS 'Deprecated: replaced by push_tokens';
+
+-- Step 5: Expo reports whether a push reached the device in a receipt, some minutes after sending
+ALTER TABLE notification_deliveries ADD COLUMN IF NOT EXISTS receipt_checked_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_unchecked_push
+    ON notification_deliveries(sent_at)
+    WHERE channel = 'push' AND status = 'sent' AND receipt_checked_at IS NULL;
+
+COMMENT ON COLUMN notification_deliveries.receipt_checked_at IS 'Push only: when the Expo receipt was checked';
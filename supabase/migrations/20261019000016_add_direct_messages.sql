@@ -0,0 +1,285 @@
+-- Direct messages
+--
+-- Clients and barbers message each other one to one: reference photos before a cut,
+-- a heads-up that the barber is running late. A conversation is between one client
+-- and one barber, optionally about one booking. Messages are sent through the server,
+-- which moderates them and pushes them to the recipient; reads, receipts and
+-- attachments go straight to the database.
+--
+-- 1. conversations table
+-- 2. messages table with sent/delivered/read receipts
+-- 3. Helpers: who is in a conversation, and whether either user blocked the other
+-- 4. Row Level Security
+-- 5. start_conversation: open (or reopen) a conversation
+-- 6. Receipts: mark_messages_delivered and mark_conversation_read
+-- 7. Keep each conversation's last message up to date
+-- 8. Private bucket for image attachments
+-- 9. Stream messages and conversations over Realtime
+
+-- Step 1: One conversation per client, barber and booking (no booking is a general thread)
+CREATE TABLE IF NOT EXISTS conversations (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    client_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    barber_id UUID NOT NULL REFERENCES barbers(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    last_message_text TEXT,
+    last_message_sender_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    last_message_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversations_participants_booking
+    ON conversations(client_id, barber_id, COALESCE(booking_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_conversations_client ON conversations(client_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversations_barber ON conversations(barber_id, last_message_at DESC);
+
+COMMENT ON TABLE conversations IS 'One-to-one message threads between a client and a barber';
+COMMENT ON COLUMN conversations.booking_id IS 'Booking the conversation is about; null for a general thread';
+COMMENT ON COLUMN conversations.last_message_text IS 'Preview of the latest message for the conversation list';
+
+-- Step 2: Status only moves forward: sent, then delivered to the recipient's device, then read
+CREATE TABLE IF NOT EXISTS messages (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    text TEXT NOT NULL DEFAULT '' CHECK (char_length(text) <= 1000),
+    attachment_path TEXT, -- object in the message-attachments bucket
+    status TEXT NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'delivered', 'read')),
+    delivered_at TIMESTAMP WITH TIME ZONE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT messages_not_empty CHECK (char_length(btrim(text)) > 0 OR attachment_path IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created ON messages(conversation_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_messages_unread ON messages(conversation_id, sender_id) WHERE status <> 'read';
+
+COMMENT ON TABLE messages IS 'Messages in a conversation; inserted by the server after moderation';
+COMMENT ON COLUMN messages.status IS 'sent, delivered (reached the recipient''s app) or read';
+
+-- Step 3: Helpers for the policies below and for the server
+CREATE OR REPLACE FUNCTION is_conversation_participant(p_conversation_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM conversations c
+        JOIN barbers b ON b.id = c.barber_id
+        WHERE c.id = p_conversation_id
+          AND (c.client_id = auth.uid() OR b.user_id = auth.uid())
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- blocked_users only shows users their own blocks, so this checks both directions
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM blocked_users
+        WHERE (user_id = p_user_a AND blocked_user_id = p_user_b)
+           OR (user_id = p_user_b AND blocked_user_id = p_user_a)
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Who blocked whom stays private; the server asks with the service role
+REVOKE EXECUTE ON FUNCTION is_blocked_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION is_conversation_participant(UUID) TO authenticated;
+
+-- Step 4: Participants read their conversations; all writes go through the server or the functions below
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Participants can view their conversations" ON conversations;
+CREATE POLICY "Participants can view their conversations"
+    ON conversations FOR SELECT
+    USING (is_conversation_participant(id));
+
+DROP POLICY IF EXISTS "Participants can view messages" ON messages;
+CREATE POLICY "Participants can view messages"
+    ON messages FOR SELECT
+    USING (is_conversation_participant(conversation_id));
+
+-- Step 5: Clients can message any barber; barbers can message clients who have booked with them.
+-- Returns the existing conversation when there is one.
+CREATE OR REPLACE FUNCTION start_conversation(p_other_user_id UUID, p_booking_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+    v_user_id UUID := auth.uid();
+    v_client_id UUID;
+    v_barber_id UUID;
+    v_conversation_id UUID;
+BEGIN
+    IF v_user_id IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+    IF p_other_user_id IS NULL OR p_other_user_id = v_user_id THEN
+        RAISE EXCEPTION 'You cannot message yourself';
+    END IF;
+
+    IF p_booking_id IS NOT NULL THEN
+        SELECT bk.client_id, bk.barber_id INTO v_client_id, v_barber_id
+        FROM bookings bk
+        JOIN barbers b ON b.id = bk.barber_id
+        WHERE bk.id = p_booking_id
+          AND ((bk.client_id = v_user_id AND b.user_id = p_other_user_id)
+            OR (bk.client_id = p_other_user_id AND b.user_id = v_user_id));
+
+        IF v_barber_id IS NULL THEN
+            RAISE EXCEPTION 'You can only message the other person on your booking';
+        END IF;
+    ELSE
+        SELECT id INTO v_barber_id FROM barbers WHERE user_id = p_other_user_id;
+        IF v_barber_id IS NOT NULL THEN
+            v_client_id := v_user_id;
+        ELSE
+            SELECT b.id INTO v_barber_id
+            FROM barbers b
+            WHERE b.user_id = v_user_id
+              AND EXISTS (SELECT 1 FROM bookings bk WHERE bk.barber_id = b.id AND bk.client_id = p_other_user_id);
+            v_client_id := p_other_user_id;
+        END IF;
+
+        IF v_barber_id IS NULL THEN
+            RAISE EXCEPTION 'You can only message barbers, or clients who have booked with you';
+        END IF;
+    END IF;
+
+    IF is_blocked_between(v_user_id, p_other_user_id) THEN
+        RAISE EXCEPTION 'You cannot message this user';
+    END IF;
+
+    SELECT id INTO v_conversation_id
+    FROM conversations
+    WHERE client_id = v_client_id
+      AND barber_id = v_barber_id
+      AND booking_id IS NOT DISTINCT FROM p_booking_id;
+
+    IF v_conversation_id IS NULL THEN
+        INSERT INTO conversations (client_id, barber_id, booking_id)
+        VALUES (v_client_id, v_barber_id, p_booking_id)
+        ON CONFLICT DO NOTHING
+        RETURNING id INTO v_conversation_id;
+
+        -- Both users opened it at the same moment
+        IF v_conversation_id IS NULL THEN
+            SELECT id INTO v_conversation_id
+            FROM conversations
+            WHERE client_id = v_client_id
+              AND barber_id = v_barber_id
+              AND booking_id IS NOT DISTINCT FROM p_booking_id;
+        END IF;
+    END IF;
+
+    RETURN v_conversation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION start_conversation(UUID, UUID) TO authenticated;
+
+-- Step 6: The recipient's app marks messages delivered when it receives them, and read when
+-- the conversation is open. Only messages from the other participant change.
+CREATE OR REPLACE FUNCTION mark_messages_delivered()
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    UPDATE messages m
+    SET status = 'delivered',
+        delivered_at = NOW(),
+        updated_at = NOW()
+    WHERE m.status = 'sent'
+      AND m.sender_id <> auth.uid()
+      AND is_conversation_participant(m.conversation_id);
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mark_conversation_read(p_conversation_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_count INTEGER;
+BEGIN
+    IF NOT is_conversation_participant(p_conversation_id) THEN
+        RAISE EXCEPTION 'Conversation not found';
+    END IF;
+
+    UPDATE messages
+    SET status = 'read',
+        delivered_at = COALESCE(delivered_at, NOW()),
+        read_at = NOW(),
+        updated_at = NOW()
+    WHERE conversation_id = p_conversation_id
+      AND sender_id <> auth.uid()
+      AND status <> 'read';
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION mark_messages_delivered() TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_conversation_read(UUID) TO authenticated;
+
+-- Step 7: The conversation list shows the latest message without reading every thread
+CREATE OR REPLACE FUNCTION update_conversation_last_message()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE conversations
+    SET last_message_text = CASE WHEN btrim(NEW.text) = '' THEN 'Sent a photo' ELSE left(NEW.text, 200) END,
+        last_message_sender_id = NEW.sender_id,
+        last_message_at = NEW.created_at,
+        updated_at = NOW()
+    WHERE id = NEW.conversation_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_update_conversation_last_message ON messages;
+CREATE TRIGGER trigger_update_conversation_last_message
+    AFTER INSERT ON messages
+    FOR EACH ROW
+    EXECUTE FUNCTION update_conversation_last_message();
+
+-- Step 8: Attachments are stored as <conversation id>/<sender id>/<file> and only
+-- participants can upload or read them (through signed URLs)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-attachments', 'message-attachments', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Participants can upload message attachments" ON storage.objects;
+CREATE POLICY "Participants can upload message attachments"
+ON storage.objects FOR INSERT
+WITH CHECK (
+    bucket_id = 'message-attachments'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND is_conversation_participant(((storage.foldername(name))[1])::uuid)
+);
+
+DROP POLICY IF EXISTS "Participants can view message attachments" ON storage.objects;
+CREATE POLICY "Participants can view message attachments"
+ON storage.objects FOR SELECT
+USING (
+    bucket_id = 'message-attachments'
+    AND is_conversation_participant(((storage.foldername(name))[1])::uuid)
+);
+
+-- Step 9: Realtime applies the policies above, so users only receive their own conversations
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'messages'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+        END IF;
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'conversations'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+        END IF;
+    END IF;
+END $$;
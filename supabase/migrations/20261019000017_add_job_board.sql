@@ -0,0 +1,229 @@
+-- Job board
+--
+-- Shops post chair rentals and open positions, and barbers apply with their BOCM
+-- profile. An application carries the barber's review stats from the moment they
+-- applied, and the poster moves it through pending, reviewing, accepted or rejected;
+-- each step lands in the other party's notification inbox.
+--
+-- 1. job_posts
+-- 2. job_applications
+-- 3. Row level security
+-- 4. Attach the applicant's barber profile and review stats
+-- 5. Move an application through its statuses
+-- 6. notifications.job_application_id
+-- 7. Posters hear about new applications, applicants hear about decisions
+
+-- Step 1: A chair rental or position, located so barbers can browse nearby jobs
+CREATE TABLE IF NOT EXISTS job_posts (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    poster_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    business_name TEXT NOT NULL,
+    business_image TEXT,
+    job_type TEXT NOT NULL CHECK (job_type IN ('chair_rental', 'position')),
+    title TEXT NOT NULL CHECK (char_length(title) BETWEEN 3 AND 120),
+    description TEXT NOT NULL CHECK (char_length(description) <= 5000),
+    requirements TEXT[] NOT NULL DEFAULT '{}',
+    compensation TEXT,
+    location TEXT NOT NULL,
+    latitude DECIMAL(10, 8),
+    longitude DECIMAL(11, 8),
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'filled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_posts_open ON job_posts(created_at DESC) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_job_posts_poster ON job_posts(poster_id);
+CREATE INDEX IF NOT EXISTS idx_job_posts_location ON job_posts(latitude, longitude);
+
+COMMENT ON COLUMN job_posts.compensation IS 'Free text, e.g. "$250/week chair rent" or "60% commission"';
+COMMENT ON COLUMN job_posts.latitude IS 'Geocoded from location for browsing by distance';
+
+-- Step 2: One application per barber per job
+CREATE TABLE IF NOT EXISTS job_applications (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    job_id UUID NOT NULL REFERENCES job_posts(id) ON DELETE CASCADE,
+    applicant_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    barber_id UUID NOT NULL REFERENCES barbers(id) ON DELETE CASCADE,
+    cover_letter TEXT NOT NULL DEFAULT '' CHECK (char_length(cover_letter) <= 2000),
+    review_count INTEGER NOT NULL DEFAULT 0,
+    average_rating DECIMAL(3, 2),
+    cut_count INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'reviewing', 'accepted', 'rejected')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    CONSTRAINT job_applications_job_applicant_unique UNIQUE (job_id, applicant_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_applications_job ON job_applications(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_applications_applicant ON job_applications(applicant_id, created_at DESC);
+
+COMMENT ON COLUMN job_applications.review_count IS 'Public reviews the barber had when they applied';
+COMMENT ON COLUMN job_applications.average_rating IS 'Average public rating when they applied, null without reviews';
+
+-- Step 3: Open jobs are public. Posters manage their own posts and read the
+-- applications to them; barbers apply to open jobs and can withdraw while pending.
+-- Statuses only change through set_job_application_status.
+ALTER TABLE job_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_applications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Open jobs are viewable by everyone" ON job_posts;
+CREATE POLICY "Open jobs are viewable by everyone" ON job_posts
+    FOR SELECT USING (status = 'open' OR poster_id = auth.uid());
+
+DROP POLICY IF EXISTS "Barbers can post jobs" ON job_posts;
+CREATE POLICY "Barbers can post jobs" ON job_posts
+    FOR INSERT WITH CHECK (
+        poster_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('barber', 'admin'))
+    );
+
+DROP POLICY IF EXISTS "Posters can update their jobs" ON job_posts;
+CREATE POLICY "Posters can update their jobs" ON job_posts
+    FOR UPDATE USING (poster_id = auth.uid()) WITH CHECK (poster_id = auth.uid());
+
+DROP POLICY IF EXISTS "Posters can delete their jobs" ON job_posts;
+CREATE POLICY "Posters can delete their jobs" ON job_posts
+    FOR DELETE USING (poster_id = auth.uid());
+
+DROP POLICY IF EXISTS "Applicants and posters can view applications" ON job_applications;
+CREATE POLICY "Applicants and posters can view applications" ON job_applications
+    FOR SELECT USING (
+        applicant_id = auth.uid()
+        OR EXISTS (SELECT 1 FROM job_posts WHERE id = job_applications.job_id AND poster_id = auth.uid())
+    );
+
+DROP POLICY IF EXISTS "Barbers can apply to open jobs" ON job_applications;
+CREATE POLICY "Barbers can apply to open jobs" ON job_applications
+    FOR INSERT WITH CHECK (
+        applicant_id = auth.uid()
+        AND status = 'pending'
+        AND EXISTS (
+            SELECT 1 FROM job_posts
+            WHERE id = job_applications.job_id AND status = 'open' AND poster_id <> auth.uid()
+        )
+    );
+
+DROP POLICY IF EXISTS "Applicants can withdraw pending applications" ON job_applications;
+CREATE POLICY "Applicants can withdraw pending applications" ON job_applications
+    FOR DELETE USING (applicant_id = auth.uid() AND status = 'pending');
+
+-- Step 4: The applicant applies as their barber profile; review stats are copied so
+-- the poster sees what the barber had when they applied
+CREATE OR REPLACE FUNCTION attach_job_application_profile()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT id INTO NEW.barber_id FROM barbers WHERE user_id = NEW.applicant_id;
+    IF NEW.barber_id IS NULL THEN
+        RAISE EXCEPTION 'Only barbers can apply to jobs';
+    END IF;
+
+    SELECT COUNT(*), ROUND(AVG(rating)::numeric, 2)
+    INTO NEW.review_count, NEW.average_rating
+    FROM reviews
+    WHERE barber_id = NEW.barber_id AND is_public = true;
+
+    SELECT COUNT(*) INTO NEW.cut_count
+    FROM cuts
+    WHERE barber_id = NEW.barber_id AND is_public = true;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_job_application_profile_trigger ON job_applications;
+CREATE TRIGGER attach_job_application_profile_trigger
+    BEFORE INSERT ON job_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION attach_job_application_profile();
+
+-- Step 5: Only the poster moves an application along, and decisions are final
+CREATE OR REPLACE FUNCTION set_job_application_status(p_application_id UUID, p_status TEXT)
+RETURNS job_applications AS $$
+DECLARE
+    v_application job_applications;
+    v_poster_id UUID;
+BEGIN
+    IF p_status NOT IN ('reviewing', 'accepted', 'rejected') THEN
+        RAISE EXCEPTION 'Invalid application status: %', p_status;
+    END IF;
+
+    SELECT * INTO v_application FROM job_applications WHERE id = p_application_id FOR UPDATE;
+    SELECT poster_id INTO v_poster_id FROM job_posts WHERE id = v_application.job_id;
+
+    IF v_application.id IS NULL OR v_poster_id IS DISTINCT FROM auth.uid() THEN
+        RAISE EXCEPTION 'Application not found';
+    END IF;
+
+    IF v_application.status IN ('accepted', 'rejected') THEN
+        RAISE EXCEPTION 'This application has already been %', v_application.status;
+    END IF;
+
+    IF v_application.status = p_status THEN
+        RETURN v_application;
+    END IF;
+
+    UPDATE job_applications
+    SET status = p_status, updated_at = NOW()
+    WHERE id = p_application_id
+    RETURNING * INTO v_application;
+
+    RETURN v_application;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION set_job_application_status(UUID, TEXT) TO authenticated;
+
+-- Step 6: What a notification links to, besides bookings, reviews and cuts
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS job_application_id UUID REFERENCES job_applications(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN notifications.job_application_id IS 'Job application the notification opens, if any';
+
+-- Step 7: Applications are written from the apps, so the inbox entries are created here
+CREATE OR REPLACE FUNCTION notify_job_application()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_job job_posts;
+    v_applicant_name TEXT;
+BEGIN
+    SELECT * INTO v_job FROM job_posts WHERE id = NEW.job_id;
+
+    IF TG_OP = 'INSERT' THEN
+        SELECT COALESCE(name, 'A barber') INTO v_applicant_name FROM profiles WHERE id = NEW.applicant_id;
+
+        INSERT INTO notifications (user_id, title, message, type, job_application_id)
+        VALUES (
+            v_job.poster_id,
+            'New Application',
+            COALESCE(v_applicant_name, 'A barber') || ' applied to ' || v_job.title,
+            'job_application_received',
+            NEW.id
+        );
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO notifications (user_id, title, message, type, job_application_id)
+        VALUES (
+            NEW.applicant_id,
+            CASE NEW.status
+                WHEN 'reviewing' THEN 'Application Under Review'
+                WHEN 'accepted' THEN 'Application Accepted'
+                ELSE 'Application Update'
+            END,
+            CASE NEW.status
+                WHEN 'reviewing' THEN v_job.business_name || ' is reviewing your application for ' || v_job.title
+                WHEN 'accepted' THEN v_job.business_name || ' accepted your application for ' || v_job.title
+                ELSE v_job.business_name || ' went with another applicant for ' || v_job.title
+            END,
+            'job_application_updated',
+            NEW.id
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_job_application_trigger ON job_applications;
+CREATE TRIGGER notify_job_application_trigger
+    AFTER INSERT OR UPDATE OF status ON job_applications
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_job_application();
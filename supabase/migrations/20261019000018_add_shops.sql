@@ -0,0 +1,328 @@
+-- Multi-barber shops
+--
+-- A shop groups the barbers working out of one location under an owner. Owners and
+-- managers invite barbers, see every member's appointments on the shop calendar,
+-- and the owner sees earnings across members. Bookings and payments stay with the
+-- individual barber: each member keeps their own services, schedule and Stripe
+-- Connect account, so money never passes through the shop.
+--
+-- 1. shops
+-- 2. shop_members
+-- 3. The caller's role in a shop
+-- 4. Row level security
+-- 5. The owner joins their shop; members join as their barber profile
+-- 6. Accept an invitation, change a member's role
+-- 7. Owners and managers can view member bookings
+-- 8. Earnings across members
+-- 9. notifications.shop_id, and invitations land in the inbox
+
+-- Step 1: The shop and its public page
+CREATE TABLE IF NOT EXISTS shops (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 2 AND 80),
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND slug <> 'manage'),
+    description TEXT CHECK (char_length(description) <= 1000),
+    location TEXT,
+    phone TEXT,
+    image_url TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_shops_owner ON shops(owner_id);
+
+COMMENT ON COLUMN shops.slug IS 'Public page address, /shop/<slug>; /shop/manage is taken by the management page';
+
+-- Step 2: Owners, managers and barbers. Managers need not cut hair, so barber_id is
+-- only set for members with a barber profile.
+CREATE TABLE IF NOT EXISTS shop_members (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    shop_id UUID NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    barber_id UUID REFERENCES barbers(id) ON DELETE SET NULL,
+    role TEXT NOT NULL DEFAULT 'barber' CHECK (role IN ('owner', 'manager', 'barber')),
+    status TEXT NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'active')),
+    invited_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()),
+    joined_at TIMESTAMP WITH TIME ZONE,
+    CONSTRAINT shop_members_shop_user_unique UNIQUE (shop_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_members_user ON shop_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_shop_members_barber ON shop_members(barber_id) WHERE status = 'active';
+
+COMMENT ON COLUMN shop_members.status IS 'invited until the member accepts; only active members appear on the shop';
+
+-- Step 3: Policies on shop_members check membership, so the lookup runs outside RLS
+CREATE OR REPLACE FUNCTION shop_role(p_shop_id UUID)
+RETURNS TEXT AS $$
+    SELECT role FROM shop_members
+    WHERE shop_id = p_shop_id AND user_id = auth.uid() AND status = 'active';
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Whether the caller owns or manages a shop the barber is an active member of
+CREATE OR REPLACE FUNCTION manages_barber(p_barber_id UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM shop_members member
+        JOIN shop_members manager ON manager.shop_id = member.shop_id
+        WHERE member.barber_id = p_barber_id
+          AND member.status = 'active'
+          AND manager.user_id = auth.uid()
+          AND manager.status = 'active'
+          AND manager.role IN ('owner', 'manager')
+    );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION shop_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION manages_barber(UUID) TO authenticated;
+
+-- Step 4: Shops and their active members are public. Owners and managers invite
+-- barbers, only the owner invites managers, and anyone but the owner can leave.
+-- Roles and acceptance only change through the functions in step 6.
+ALTER TABLE shops ENABLE ROW LEVEL SECURITY;
+ALTER TABLE shop_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Shops are viewable by everyone" ON shops;
+CREATE POLICY "Shops are viewable by everyone" ON shops
+    FOR SELECT USING (true);
+
+DROP POLICY IF EXISTS "Barbers can create shops" ON shops;
+CREATE POLICY "Barbers can create shops" ON shops
+    FOR INSERT WITH CHECK (
+        owner_id = auth.uid()
+        AND EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role IN ('barber', 'admin'))
+    );
+
+DROP POLICY IF EXISTS "Owners and managers can update their shop" ON shops;
+CREATE POLICY "Owners and managers can update their shop" ON shops
+    FOR UPDATE USING (shop_role(id) IN ('owner', 'manager'))
+    WITH CHECK (owner_id = (SELECT owner_id FROM shops s WHERE s.id = shops.id));
+
+DROP POLICY IF EXISTS "Owners can delete their shop" ON shops;
+CREATE POLICY "Owners can delete their shop" ON shops
+    FOR DELETE USING (owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Active members are viewable by everyone" ON shop_members;
+CREATE POLICY "Active members are viewable by everyone" ON shop_members
+    FOR SELECT USING (
+        status = 'active'
+        OR user_id = auth.uid()
+        OR shop_role(shop_id) IN ('owner', 'manager')
+    );
+
+DROP POLICY IF EXISTS "Owners and managers can invite members" ON shop_members;
+CREATE POLICY "Owners and managers can invite members" ON shop_members
+    FOR INSERT WITH CHECK (
+        status = 'invited'
+        AND invited_by = auth.uid()
+        AND (
+            (role = 'barber' AND shop_role(shop_id) IN ('owner', 'manager'))
+            OR (role = 'manager' AND shop_role(shop_id) = 'owner')
+        )
+    );
+
+DROP POLICY IF EXISTS "Members can leave and be removed" ON shop_members;
+CREATE POLICY "Members can leave and be removed" ON shop_members
+    FOR DELETE USING (
+        role <> 'owner'
+        AND (
+            user_id = auth.uid()
+            OR shop_role(shop_id) = 'owner'
+            OR (role = 'barber' AND shop_role(shop_id) = 'manager')
+        )
+    );
+
+-- Step 5: The owner is the shop's first member; everyone else joins as their barber
+-- profile, if they have one
+CREATE OR REPLACE FUNCTION add_shop_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO shop_members (shop_id, user_id, role, status, invited_by, joined_at)
+    VALUES (NEW.id, NEW.owner_id, 'owner', 'active', NEW.owner_id, NOW());
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS add_shop_owner_trigger ON shops;
+CREATE TRIGGER add_shop_owner_trigger
+    AFTER INSERT ON shops
+    FOR EACH ROW
+    EXECUTE FUNCTION add_shop_owner();
+
+CREATE OR REPLACE FUNCTION attach_shop_member_barber()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT id INTO NEW.barber_id FROM barbers WHERE user_id = NEW.user_id;
+    IF NEW.role = 'barber' AND NEW.barber_id IS NULL THEN
+        RAISE EXCEPTION 'Only barbers can join a shop as a barber';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_shop_member_barber_trigger ON shop_members;
+CREATE TRIGGER attach_shop_member_barber_trigger
+    BEFORE INSERT ON shop_members
+    FOR EACH ROW
+    EXECUTE FUNCTION attach_shop_member_barber();
+
+-- Step 6: The invited member accepts; only the owner promotes or demotes
+CREATE OR REPLACE FUNCTION accept_shop_invite(p_member_id UUID)
+RETURNS shop_members AS $$
+DECLARE
+    v_member shop_members;
+BEGIN
+    UPDATE shop_members
+    SET status = 'active', joined_at = NOW()
+    WHERE id = p_member_id AND user_id = auth.uid() AND status = 'invited'
+    RETURNING * INTO v_member;
+
+    IF v_member.id IS NULL THEN
+        RAISE EXCEPTION 'Invitation not found';
+    END IF;
+
+    RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_shop_member_role(p_member_id UUID, p_role TEXT)
+RETURNS shop_members AS $$
+DECLARE
+    v_member shop_members;
+BEGIN
+    IF p_role NOT IN ('manager', 'barber') THEN
+        RAISE EXCEPTION 'Invalid shop role: %', p_role;
+    END IF;
+
+    SELECT * INTO v_member FROM shop_members WHERE id = p_member_id FOR UPDATE;
+
+    IF v_member.id IS NULL OR shop_role(v_member.shop_id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Member not found';
+    END IF;
+
+    IF v_member.role = 'owner' THEN
+        RAISE EXCEPTION 'The owner''s role cannot be changed';
+    END IF;
+
+    IF p_role = 'barber' AND v_member.barber_id IS NULL THEN
+        RAISE EXCEPTION 'Only barbers can be members with the barber role';
+    END IF;
+
+    UPDATE shop_members
+    SET role = p_role
+    WHERE id = p_member_id
+    RETURNING * INTO v_member;
+
+    RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION accept_shop_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_shop_member_role(UUID, TEXT) TO authenticated;
+
+-- Step 7: Read-only; changes to an appointment stay with its barber
+DROP POLICY IF EXISTS "Shop managers can view member bookings" ON bookings;
+CREATE POLICY "Shop managers can view member bookings" ON bookings
+    FOR SELECT USING (manages_barber(barber_id));
+
+DROP POLICY IF EXISTS "Shop managers can view member booking addons" ON booking_addons;
+CREATE POLICY "Shop managers can view member booking addons" ON booking_addons
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.id = booking_addons.booking_id AND manages_barber(bookings.barber_id)
+    ));
+
+DROP POLICY IF EXISTS "Shop managers can view member booking services" ON booking_services;
+CREATE POLICY "Shop managers can view member booking services" ON booking_services
+    FOR SELECT USING (EXISTS (
+        SELECT 1 FROM bookings
+        WHERE bookings.id = booking_services.booking_id AND manages_barber(bookings.barber_id)
+    ));
+
+DROP POLICY IF EXISTS "Shop managers can view member booking groups" ON booking_groups;
+CREATE POLICY "Shop managers can view member booking groups" ON booking_groups
+    FOR SELECT USING (manages_barber(barber_id));
+
+-- Step 8: What each barber took in over a period, for the owner. Payouts went to each
+-- barber's own Stripe account, so their account status is returned alongside.
+CREATE OR REPLACE FUNCTION get_shop_earnings(p_shop_id UUID, p_from TIMESTAMPTZ, p_to TIMESTAMPTZ)
+RETURNS TABLE (
+    barber_id UUID,
+    user_id UUID,
+    name TEXT,
+    role TEXT,
+    stripe_account_ready BOOLEAN,
+    booking_count INTEGER,
+    gross NUMERIC,
+    platform_fees NUMERIC,
+    barber_payout NUMERIC
+) AS $$
+BEGIN
+    IF shop_role(p_shop_id) IS DISTINCT FROM 'owner' THEN
+        RAISE EXCEPTION 'Only the shop owner can view shop earnings';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        member.barber_id,
+        member.user_id,
+        COALESCE(profile.name, 'Barber'),
+        member.role,
+        COALESCE(barber.stripe_account_ready, false),
+        COUNT(booking.id)::INTEGER,
+        COALESCE(SUM(booking.price), 0)::NUMERIC,
+        COALESCE(SUM(booking.platform_fee), 0)::NUMERIC,
+        COALESCE(SUM(booking.barber_payout), 0)::NUMERIC
+    FROM shop_members member
+    JOIN barbers barber ON barber.id = member.barber_id
+    JOIN profiles profile ON profile.id = member.user_id
+    LEFT JOIN bookings booking
+        ON booking.barber_id = member.barber_id
+        AND booking.payment_status = 'succeeded'
+        AND booking.created_at >= p_from
+        AND booking.created_at < p_to
+    WHERE member.shop_id = p_shop_id AND member.status = 'active'
+    GROUP BY member.barber_id, member.user_id, profile.name, member.role, barber.stripe_account_ready
+    ORDER BY COALESCE(SUM(booking.price), 0) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION get_shop_earnings(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
+
+-- Step 9: Invitations open the shop's management page
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS shop_id UUID REFERENCES shops(id) ON DELETE CASCADE;
+
+COMMENT ON COLUMN notifications.shop_id IS 'Shop the notification opens, if any';
+
+CREATE OR REPLACE FUNCTION notify_shop_invite()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_shop_name TEXT;
+BEGIN
+    IF NEW.status <> 'invited' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT name INTO v_shop_name FROM shops WHERE id = NEW.shop_id;
+
+    INSERT INTO notifications (user_id, title, message, type, shop_id)
+    VALUES (
+        NEW.user_id,
+        'Shop Invitation',
+        v_shop_name || ' invited you to join as a ' || NEW.role,
+        'shop_invite',
+        NEW.shop_id
+    );
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_shop_invite_trigger ON shop_members;
+CREATE TRIGGER notify_shop_invite_trigger
+    AFTER INSERT ON shop_members
+    FOR EACH ROW
+    EXECUTE FUNCTION notify_shop_invite();
@@ -0,0 +1,154 @@
+-- "Any available barber" booking at the shop level
+--
+-- Clients can book a shop's first available barber instead of a named one. The client
+-- picks a service and a start time on the shop's combined schedule; the barbers who
+-- offer it and are free then are found here and the shop's assignment rule picks one.
+-- The booking itself is then made with the assigned barber exactly like a direct
+-- booking, so payment, the overlap trigger and payouts are unchanged.
+--
+-- 1. shops.assignment_rule and the round-robin position
+-- 2. Assignments waiting for their booking
+-- 3. Assign a free barber who offers the service
+-- 4. Move the round-robin position once the booking is made
+
+-- Step 1: How the owner wants first-available bookings shared out
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS assignment_rule TEXT NOT NULL DEFAULT 'round_robin'
+    CHECK (assignment_rule IN ('round_robin', 'least_booked', 'highest_rated'));
+ALTER TABLE shops ADD COLUMN IF NOT EXISTS last_assigned_barber_id UUID REFERENCES barbers(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN shops.assignment_rule IS 'round_robin takes turns in member order, least_booked picks the barber with the fewest bookings that day, highest_rated the best reviewed';
+COMMENT ON COLUMN shops.last_assigned_barber_id IS 'Barber given the last first-available booking; round robin continues after them';
+
+-- Step 2: An assignment handed to a client who has not booked yet. The round-robin
+-- position only moves when the booking is made, so checking availability or
+-- abandoning checkout does not skip a barber's turn.
+CREATE TABLE IF NOT EXISTS shop_assignments (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    shop_id UUID REFERENCES shops(id) ON DELETE CASCADE NOT NULL,
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE NOT NULL,
+    client_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    slot_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW())
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_assignments_booking ON shop_assignments(barber_id, client_id, slot_start);
+
+-- Written and read by the functions below only
+ALTER TABLE shop_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Step 3: Picks a barber for a booking of the named service starting at p_start. The
+-- candidates are the active members with a barber profile who offer a service of that
+-- name (matched as the booking form groups them) and are free for its duration, so the
+-- client cannot steer the choice. Ties under every rule fall back to the round-robin
+-- order, so an even shop still shares work out in turn. A barber just handed the same
+-- start time by another client's unfinished checkout goes last.
+DROP FUNCTION IF EXISTS assign_shop_barber(UUID, UUID[], TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION assign_shop_barber(p_shop_id UUID, p_service_name TEXT, p_start TIMESTAMPTZ)
+RETURNS UUID AS $$
+DECLARE
+    v_shop shops;
+    v_last_position BIGINT;
+    v_barber_id UUID;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Not authenticated';
+    END IF;
+
+    -- Serialises assignments so two clients booking at once get different barbers
+    SELECT * INTO v_shop FROM shops WHERE id = p_shop_id FOR UPDATE;
+
+    IF v_shop.id IS NULL THEN
+        RAISE EXCEPTION 'Shop not found';
+    END IF;
+
+    WITH roster AS (
+        SELECT member.barber_id, ROW_NUMBER() OVER (ORDER BY member.joined_at, member.created_at, member.id) AS position
+        FROM shop_members member
+        WHERE member.shop_id = p_shop_id AND member.status = 'active' AND member.barber_id IS NOT NULL
+    )
+    SELECT COALESCE((SELECT position FROM roster WHERE barber_id = v_shop.last_assigned_barber_id), 0)
+    INTO v_last_position;
+
+    WITH roster AS (
+        SELECT member.barber_id, ROW_NUMBER() OVER (ORDER BY member.joined_at, member.created_at, member.id) AS position
+        FROM shop_members member
+        WHERE member.shop_id = p_shop_id AND member.status = 'active' AND member.barber_id IS NOT NULL
+    ),
+    candidates AS (
+        SELECT DISTINCT ON (roster.barber_id) roster.barber_id, roster.position, service.duration
+        FROM roster
+        JOIN services service ON service.barber_id = roster.barber_id
+        WHERE LOWER(TRIM(REGEXP_REPLACE(service.name, '\s+', ' ', 'g')))
+            = LOWER(TRIM(REGEXP_REPLACE(p_service_name, '\s+', ' ', 'g')))
+        ORDER BY roster.barber_id, service.created_at
+    )
+    SELECT candidate.barber_id INTO v_barber_id
+    FROM candidates candidate
+    JOIN barbers barber ON barber.id = candidate.barber_id
+    WHERE check_slot_availability(candidate.barber_id, p_start, candidate.duration, NULL, auth.uid()) IS NULL
+    ORDER BY
+        EXISTS (
+            SELECT 1
+            FROM shop_assignments held
+            WHERE held.barber_id = candidate.barber_id
+                AND held.slot_start = p_start
+                AND held.client_id <> auth.uid()
+                AND held.created_at > NOW() - INTERVAL '15 minutes'
+        ),
+        CASE WHEN v_shop.assignment_rule = 'least_booked' THEN (
+            SELECT COUNT(*)
+            FROM bookings booking
+            WHERE booking.barber_id = candidate.barber_id
+                AND booking.status <> 'cancelled'
+                AND (booking.date AT TIME ZONE barber.timezone)::DATE = (p_start AT TIME ZONE barber.timezone)::DATE
+        ) END ASC,
+        CASE WHEN v_shop.assignment_rule = 'highest_rated' THEN barber.average_rating END DESC NULLS LAST,
+        CASE WHEN v_shop.assignment_rule = 'highest_rated' THEN barber.review_count END DESC NULLS LAST,
+        candidate.position <= v_last_position,
+        candidate.position
+    LIMIT 1;
+
+    IF v_barber_id IS NULL THEN
+        RAISE EXCEPTION 'No barber at this shop is free then for this service';
+    END IF;
+
+    -- Only the client's latest assignment at the shop can still be booked
+    DELETE FROM shop_assignments WHERE shop_id = p_shop_id AND client_id = auth.uid();
+    INSERT INTO shop_assignments (shop_id, barber_id, client_id, slot_start)
+    VALUES (p_shop_id, v_barber_id, auth.uid(), p_start);
+
+    RETURN v_barber_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION assign_shop_barber(UUID, TEXT, TIMESTAMPTZ) TO authenticated;
+
+-- Step 4: The booking is made by checkout or the payment webhook exactly like a direct
+-- one; when it matches an assignment, round robin continues after that barber
+CREATE OR REPLACE FUNCTION complete_shop_assignment()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_assignment shop_assignments;
+BEGIN
+    SELECT * INTO v_assignment
+    FROM shop_assignments
+    WHERE barber_id = NEW.barber_id AND client_id = NEW.client_id AND slot_start = NEW.date
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    IF v_assignment.id IS NOT NULL THEN
+        DELETE FROM shop_assignments WHERE id = v_assignment.id;
+        UPDATE shops SET last_assigned_barber_id = NEW.barber_id WHERE id = v_assignment.shop_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS complete_shop_assignment_trigger ON bookings;
+CREATE TRIGGER complete_shop_assignment_trigger
+    AFTER INSERT ON bookings
+    FOR EACH ROW
+    WHEN (NEW.client_id IS NOT NULL)
+    EXECUTE FUNCTION complete_shop_assignment();
@@ -0,0 +1,39 @@
+-- Deposits and full prepayment per service
+--
+-- Checkout used to charge only the $3.38 platform fee, leaving the barber to collect
+-- the whole service in person. Barbers can now ask for a deposit (a fixed amount or a
+-- percentage of the price) or the full price up front on each service. The prepaid part
+-- is charged with the platform fee and routed to the barber through transfer_data;
+-- whatever is left is still collected at the appointment.
+--
+-- 1. How each service is paid
+-- 2. What each booking prepaid
+
+-- Step 1: fee_only keeps the old behaviour; deposit_amount is dollars for a fixed
+-- deposit and a percent of the price for a percentage one
+ALTER TABLE services ADD COLUMN IF NOT EXISTS payment_mode TEXT NOT NULL DEFAULT 'fee_only'
+    CHECK (payment_mode IN ('fee_only', 'deposit', 'full'));
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deposit_type TEXT
+    CHECK (deposit_type IN ('fixed', 'percentage'));
+ALTER TABLE services ADD COLUMN IF NOT EXISTS deposit_amount NUMERIC(10,2)
+    CHECK (deposit_amount > 0);
+
+ALTER TABLE services ADD CONSTRAINT services_deposit_check CHECK (
+    payment_mode <> 'deposit' OR (
+        deposit_type IS NOT NULL
+        AND deposit_amount IS NOT NULL
+        AND (deposit_type = 'fixed' OR deposit_amount <= 100)
+    )
+);
+
+COMMENT ON COLUMN services.payment_mode IS 'fee_only charges just the platform fee, deposit adds deposit_amount, full adds the whole price';
+COMMENT ON COLUMN services.deposit_amount IS 'Dollars when deposit_type is fixed (capped at the price), percent of the price when percentage';
+
+-- Step 2: The split as charged. price, platform_fee and barber_payout already cover
+-- the totals; these say how much of barber_payout was the service paid in advance
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS payment_mode TEXT NOT NULL DEFAULT 'fee_only'
+    CHECK (payment_mode IN ('fee_only', 'deposit', 'full'));
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS amount_prepaid NUMERIC(10,2) NOT NULL DEFAULT 0
+    CHECK (amount_prepaid >= 0);
+
+COMMENT ON COLUMN bookings.amount_prepaid IS 'Dollars paid online toward the services and add-ons; the rest is due at the appointment';
@@ -0,0 +1,84 @@
+-- Fee schedules
+--
+-- The booking fee and its split used to be constants in the app and the edge functions
+-- ($3.38, a $0.38 Stripe estimate, 60/40). They now come from fee_schedules, which holds
+-- a platform-wide schedule plus per-barber overrides, each effective for a period.
+-- A schedule is never edited once bookings use it; a new row with a later
+-- effective_from replaces it. Each paid booking records the schedule it was charged
+-- under, so its receipt and payouts can always be explained.
+--
+-- 1. fee_schedules
+-- 2. Row level security
+-- 3. Seed the current platform schedule and developer overrides
+-- 4. Stamp the schedule on bookings
+-- 5. Resolve the schedule for a barber at a point in time
+
+-- Step 1: A fixed fee charges fee_cents. A percentage fee charges fee_percentage of the
+-- services total, never less than fee_cents. stripe_fee_cents is the Stripe cost the
+-- platform absorbs; NULL estimates it as 2.9% + $0.30 of the fee. platform_share is the
+-- platform's cut of what is left after Stripe, the barber gets the rest.
+CREATE TABLE IF NOT EXISTS fee_schedules (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    fee_type TEXT NOT NULL DEFAULT 'fixed' CHECK (fee_type IN ('fixed', 'percentage')),
+    fee_cents INTEGER NOT NULL DEFAULT 0 CHECK (fee_cents >= 0),
+    fee_percentage NUMERIC(5,2) CHECK (fee_percentage >= 0 AND fee_percentage <= 100),
+    stripe_fee_cents INTEGER CHECK (stripe_fee_cents >= 0),
+    platform_share NUMERIC(5,4) NOT NULL DEFAULT 0.60 CHECK (platform_share >= 0 AND platform_share <= 1),
+    effective_from TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    effective_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT fee_schedules_percentage_check CHECK (fee_type = 'fixed' OR fee_percentage IS NOT NULL),
+    CONSTRAINT fee_schedules_period_check CHECK (effective_until IS NULL OR effective_until > effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_fee_schedules_barber ON fee_schedules(barber_id, effective_from DESC);
+
+COMMENT ON TABLE fee_schedules IS 'Booking fee and split; barber_id NULL is the platform-wide schedule, otherwise an override such as a promotion';
+COMMENT ON COLUMN fee_schedules.platform_share IS 'Platform cut of the fee after Stripe, 0 to 1; 0 gives the barber the whole fee for a promotional period';
+
+-- Step 2: Managed with the service role. Clients and barbers read the schedule that
+-- applies to them through resolve_fee_schedule
+ALTER TABLE fee_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Barbers can view their fee schedules" ON fee_schedules
+    FOR SELECT USING (
+        barber_id IS NULL OR barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid())
+    );
+
+-- Step 3: The schedule every booking has used so far, and a no-fee override for
+-- developer accounts, which book without payment
+INSERT INTO fee_schedules (name, fee_type, fee_cents, stripe_fee_cents, platform_share, effective_from)
+SELECT 'Standard booking fee', 'fixed', 338, 38, 0.60, '2024-01-01T00:00:00Z'
+WHERE NOT EXISTS (SELECT 1 FROM fee_schedules WHERE barber_id IS NULL);
+
+INSERT INTO fee_schedules (barber_id, name, fee_type, fee_cents, stripe_fee_cents, platform_share, effective_from)
+SELECT barber.id, 'Developer account', 'fixed', 0, 0, 0, '2024-01-01T00:00:00Z'
+FROM barbers barber
+WHERE barber.is_developer = TRUE
+    AND NOT EXISTS (SELECT 1 FROM fee_schedules schedule WHERE schedule.barber_id = barber.id);
+
+-- Step 4: Bookings made before this migration were all charged the standard schedule
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS fee_schedule_id UUID REFERENCES fee_schedules(id) ON DELETE RESTRICT;
+
+UPDATE bookings
+SET fee_schedule_id = (SELECT id FROM fee_schedules WHERE barber_id IS NULL ORDER BY effective_from LIMIT 1)
+WHERE fee_schedule_id IS NULL AND platform_fee > 0;
+
+COMMENT ON COLUMN bookings.fee_schedule_id IS 'Version of the fee schedule the booking was charged under';
+
+-- Step 5: The barber's own schedule wins over the platform's while it is in effect;
+-- among several, the most recently started one applies
+CREATE OR REPLACE FUNCTION resolve_fee_schedule(p_barber_id UUID, p_at TIMESTAMPTZ DEFAULT NOW())
+RETURNS fee_schedules AS $$
+    SELECT *
+    FROM fee_schedules schedule
+    WHERE (schedule.barber_id = p_barber_id OR schedule.barber_id IS NULL)
+        AND schedule.effective_from <= p_at
+        AND (schedule.effective_until IS NULL OR schedule.effective_until > p_at)
+    ORDER BY schedule.barber_id IS NULL, schedule.effective_from DESC
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION resolve_fee_schedule(UUID, TIMESTAMPTZ) TO anon, authenticated;
@@ -0,0 +1,26 @@
+-- Tips after the appointment
+--
+-- Once a booking is completed the client is asked for a tip: a percentage of the
+-- services or an amount of their own, charged to the card saved with the booking
+-- payment or a new one. The whole tip goes to the barber's Connect account; the
+-- platform takes no application fee on it. The tip is recorded on the booking the same
+-- way as a late cancellation or no-show fee, and the Stripe webhook settles its status.
+--
+-- 1. Tip columns on bookings
+-- 2. Look up bookings by tip payment intent
+
+-- Step 1: declined means the client said no thanks, so they are not asked again;
+-- failed tips can be retried; refunded tips no longer count toward earnings
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS tip_amount NUMERIC(10,2) CHECK (tip_amount > 0),
+    ADD COLUMN IF NOT EXISTS tip_status TEXT CHECK (tip_status IN ('pending', 'succeeded', 'failed', 'declined', 'refunded')),
+    ADD COLUMN IF NOT EXISTS tip_payment_intent_id TEXT,
+    ADD COLUMN IF NOT EXISTS tipped_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN bookings.tip_amount IS 'Dollars tipped after the appointment, paid in full to the barber';
+COMMENT ON COLUMN bookings.tip_status IS 'pending while the charge settles, succeeded, failed (can be retried), declined by the client or refunded';
+
+-- Step 2: The webhook finds the booking from the tip payment intent
+CREATE INDEX IF NOT EXISTS idx_bookings_tip_payment_intent_id
+    ON bookings(tip_payment_intent_id)
+    WHERE tip_payment_intent_id IS NOT NULL;
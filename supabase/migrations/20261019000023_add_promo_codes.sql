@@ -0,0 +1,327 @@
+-- Promo codes
+--
+-- Barbers run their own promotions ("20% off first cut", "$5 off Tuesdays") and the
+-- platform runs site-wide ones. A barber's code comes off the services, so the barber
+-- funds it. A platform code comes off the booking fee and out of the platform's own
+-- share, so the barber's payout is untouched. Checkout reserves a use of the code while
+-- the client pays, and the Stripe webhook redeems it once the booking is paid.
+--
+-- 1. promo_codes
+-- 2. Redemptions, and the discount on bookings
+-- 3. Row level security
+-- 4. Look up and check a code for a booking
+-- 5. Preview a code in the booking form
+-- 6. Reserve a use of the code at checkout
+-- 7. Redemption report for the barber
+
+-- Step 1: barber_id NULL is a platform code. Codes are stored upper case and are unique
+-- per barber; a barber's code wins over a platform code with the same text.
+-- service_ids and weekdays (0 = Sunday, in the barber's timezone) are empty when the
+-- code applies to every service and day
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    barber_id UUID REFERENCES barbers(id) ON DELETE CASCADE,
+    code TEXT NOT NULL CHECK (code ~ '^[A-Z0-9_-]{3,20}$'),
+    description TEXT,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+    discount_value NUMERIC(10,2) NOT NULL CHECK (discount_value > 0),
+    max_redemptions INTEGER CHECK (max_redemptions > 0),
+    max_redemptions_per_client INTEGER DEFAULT 1 CHECK (max_redemptions_per_client > 0),
+    first_visit_only BOOLEAN NOT NULL DEFAULT FALSE,
+    service_ids UUID[] NOT NULL DEFAULT '{}',
+    weekdays SMALLINT[] NOT NULL DEFAULT '{}',
+    starts_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMPTZ,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT promo_codes_percentage_check CHECK (discount_type = 'fixed' OR discount_value <= 100),
+    CONSTRAINT promo_codes_period_check CHECK (expires_at IS NULL OR expires_at > starts_at),
+    CONSTRAINT promo_codes_weekdays_check CHECK (weekdays <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[])
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_barber_code ON promo_codes(barber_id, code) WHERE barber_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promo_codes_platform_code ON promo_codes(code) WHERE barber_id IS NULL;
+
+COMMENT ON TABLE promo_codes IS 'Discount codes; barber_id NULL is a platform code that discounts the booking fee';
+COMMENT ON COLUMN promo_codes.discount_value IS 'Percent off when discount_type is percentage, otherwise dollars off';
+COMMENT ON COLUMN promo_codes.max_redemptions_per_client IS 'NULL lets a client use the code any number of times, and lets guests use it';
+
+-- Step 2: A code that has been redeemed cannot be deleted, only deactivated, so the
+-- barber's report keeps every redemption. A reserved use counts against the limits
+-- until reserved_until; the webhook turns it into the booking's redemption, and records
+-- a paid redemption even after the hold has lapsed, since the client has already paid
+-- the discounted price. A cancelled or refunded booking releases its redemption, so it
+-- no longer counts against the limits or in the report
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    promo_code_id UUID NOT NULL REFERENCES promo_codes(id) ON DELETE RESTRICT,
+    booking_id UUID UNIQUE REFERENCES bookings(id) ON DELETE CASCADE,
+    barber_id UUID NOT NULL REFERENCES barbers(id) ON DELETE CASCADE,
+    client_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    discount_amount NUMERIC(10,2) NOT NULL CHECK (discount_amount > 0),
+    funded_by TEXT NOT NULL CHECK (funded_by IN ('barber', 'platform')),
+    status TEXT NOT NULL DEFAULT 'redeemed' CHECK (status IN ('reserved', 'redeemed', 'released')),
+    reserved_until TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT promo_code_redemptions_booking_check CHECK (status = 'reserved' OR booking_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_code ON promo_code_redemptions(promo_code_id, client_id);
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_barber ON promo_code_redemptions(barber_id, created_at DESC);
+
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES promo_codes(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS discount_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+COMMENT ON COLUMN bookings.discount_amount IS 'Dollars taken off by the promo code: off the services for a barber code, off the booking fee for a platform code';
+
+-- A cancelled or refunded booking gives its use of the code back
+CREATE OR REPLACE FUNCTION release_promo_code_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE promo_code_redemptions
+    SET status = 'released'
+    WHERE booking_id = NEW.id AND status = 'redeemed';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS release_promo_code_redemption_trigger ON bookings;
+CREATE TRIGGER release_promo_code_redemption_trigger
+    AFTER UPDATE OF status, payment_status ON bookings
+    FOR EACH ROW
+    WHEN (NEW.promo_code_id IS NOT NULL AND (NEW.status = 'cancelled' OR NEW.payment_status = 'refunded'))
+    EXECUTE FUNCTION release_promo_code_redemption();
+
+-- Step 3: Barbers manage their own codes; platform codes are managed with the service
+-- role. Clients never list codes, they preview one through preview_promo_code
+ALTER TABLE promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Barbers can view their promo codes" ON promo_codes;
+CREATE POLICY "Barbers can view their promo codes" ON promo_codes
+    FOR SELECT USING (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Barbers can create promo codes" ON promo_codes;
+CREATE POLICY "Barbers can create promo codes" ON promo_codes
+    FOR INSERT WITH CHECK (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Barbers can update their promo codes" ON promo_codes;
+CREATE POLICY "Barbers can update their promo codes" ON promo_codes
+    FOR UPDATE USING (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()))
+    WITH CHECK (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Barbers can view redemptions on their bookings" ON promo_code_redemptions;
+CREATE POLICY "Barbers can view redemptions on their bookings" ON promo_code_redemptions
+    FOR SELECT USING (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Clients can view their redemptions" ON promo_code_redemptions;
+CREATE POLICY "Clients can view their redemptions" ON promo_code_redemptions
+    FOR SELECT USING (client_id = auth.uid());
+
+-- Step 4: Used by checkout with the service role. find_promo_code returns null columns
+-- when no code matches. check_promo_code returns why the code cannot be used on the
+-- booking, or NULL when it can.
+-- A first visit means no paid, uncancelled booking with the barber (any barber for a
+-- platform code)
+CREATE OR REPLACE FUNCTION find_promo_code(p_code TEXT, p_barber_id UUID)
+RETURNS promo_codes AS $$
+    SELECT *
+    FROM promo_codes promo
+    WHERE promo.code = UPPER(TRIM(p_code))
+        AND (promo.barber_id = p_barber_id OR promo.barber_id IS NULL)
+    ORDER BY promo.barber_id IS NULL
+    LIMIT 1;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION check_promo_code(
+    p_promo_code_id UUID,
+    p_barber_id UUID,
+    p_client_id UUID,
+    p_service_ids UUID[],
+    p_start TIMESTAMPTZ
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_promo promo_codes;
+BEGIN
+    SELECT * INTO v_promo FROM promo_codes WHERE id = p_promo_code_id;
+
+    IF NOT FOUND OR (v_promo.barber_id IS NOT NULL AND v_promo.barber_id <> p_barber_id) THEN
+        RETURN 'This promo code is not valid';
+    END IF;
+    IF NOT v_promo.is_active THEN
+        RETURN 'This promo code is no longer active';
+    END IF;
+    IF v_promo.starts_at > NOW() THEN
+        RETURN 'This promo code is not active yet';
+    END IF;
+    IF v_promo.expires_at IS NOT NULL AND v_promo.expires_at <= NOW() THEN
+        RETURN 'This promo code has expired';
+    END IF;
+    IF v_promo.max_redemptions IS NOT NULL
+        AND (SELECT COUNT(*) FROM promo_code_redemptions
+             WHERE promo_code_id = v_promo.id
+                AND (status = 'redeemed' OR reserved_until > NOW())) >= v_promo.max_redemptions THEN
+        RETURN 'This promo code has been fully redeemed';
+    END IF;
+    IF cardinality(v_promo.service_ids) > 0 AND NOT (v_promo.service_ids && p_service_ids) THEN
+        RETURN 'This promo code does not apply to the selected services';
+    END IF;
+    IF cardinality(v_promo.weekdays) > 0
+        AND NOT EXTRACT(DOW FROM p_start AT TIME ZONE get_barber_timezone(p_barber_id))::SMALLINT = ANY(v_promo.weekdays) THEN
+        RETURN 'This promo code is not valid on this day';
+    END IF;
+
+    IF p_client_id IS NULL THEN
+        IF v_promo.first_visit_only OR v_promo.max_redemptions_per_client IS NOT NULL THEN
+            RETURN 'Sign in to use this promo code';
+        END IF;
+        RETURN NULL;
+    END IF;
+
+    IF v_promo.max_redemptions_per_client IS NOT NULL
+        AND (SELECT COUNT(*) FROM promo_code_redemptions
+             WHERE promo_code_id = v_promo.id AND client_id = p_client_id
+                AND (status = 'redeemed' OR reserved_until > NOW())) >= v_promo.max_redemptions_per_client THEN
+        RETURN 'You have already used this promo code';
+    END IF;
+    IF v_promo.first_visit_only AND EXISTS (
+        SELECT 1 FROM bookings b
+        WHERE b.client_id = p_client_id
+            AND (v_promo.barber_id IS NULL OR b.barber_id = v_promo.barber_id)
+            AND b.payment_status = 'succeeded'
+            AND b.status <> 'cancelled'
+    ) THEN
+        RETURN 'This promo code is only for first visits';
+    END IF;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION find_promo_code(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION check_promo_code(UUID, UUID, UUID, UUID[], TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION find_promo_code(TEXT, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION check_promo_code(UUID, UUID, UUID, UUID[], TIMESTAMPTZ) TO service_role;
+
+-- Step 5: The booking form's check, for the signed-in client (or a guest). Returns only
+-- what the form needs to show the discount, with id NULL and the reason when the code
+-- cannot be used; usage limits and other clients' history stay hidden
+CREATE OR REPLACE FUNCTION preview_promo_code(
+    p_code TEXT,
+    p_barber_id UUID,
+    p_service_ids UUID[],
+    p_start TIMESTAMPTZ
+)
+RETURNS TABLE (
+    id UUID,
+    barber_id UUID,
+    code TEXT,
+    discount_type TEXT,
+    discount_value NUMERIC,
+    service_ids UUID[],
+    first_visit_only BOOLEAN,
+    weekdays SMALLINT[],
+    rejection TEXT
+) AS $$
+DECLARE
+    v_promo promo_codes;
+    v_rejection TEXT;
+BEGIN
+    v_promo := find_promo_code(p_code, p_barber_id);
+
+    IF v_promo.id IS NULL THEN
+        v_rejection := 'This promo code is not valid';
+    ELSE
+        v_rejection := check_promo_code(v_promo.id, p_barber_id, auth.uid(), p_service_ids, p_start);
+    END IF;
+
+    IF v_rejection IS NOT NULL THEN
+        RETURN QUERY SELECT NULL::UUID, NULL::UUID, NULL::TEXT, NULL::TEXT, NULL::NUMERIC,
+            NULL::UUID[], NULL::BOOLEAN, NULL::SMALLINT[], v_rejection;
+        RETURN;
+    END IF;
+
+    RETURN QUERY SELECT v_promo.id, v_promo.barber_id, v_promo.code, v_promo.discount_type,
+        v_promo.discount_value, v_promo.service_ids, v_promo.first_visit_only, v_promo.weekdays, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION preview_promo_code(TEXT, UUID, UUID[], TIMESTAMPTZ) TO anon, authenticated;
+
+-- Step 6: Checks the code again and holds one use of it for an hour while the client
+-- pays, so two checkouts cannot both take the last use. Returns the reservation, or
+-- NULL and why the code cannot be used. A client starting checkout again gives up
+-- their earlier hold on the code. Checkout releases the hold when it expires.
+CREATE OR REPLACE FUNCTION reserve_promo_code(
+    p_promo_code_id UUID,
+    p_barber_id UUID,
+    p_client_id UUID,
+    p_service_ids UUID[],
+    p_start TIMESTAMPTZ,
+    p_discount NUMERIC,
+    p_funded_by TEXT
+)
+RETURNS TABLE (redemption_id UUID, rejection TEXT) AS $$
+DECLARE
+    v_rejection TEXT;
+    v_redemption_id UUID;
+BEGIN
+    -- Serialises checkouts on the code so the limits see every hold
+    PERFORM 1 FROM promo_codes WHERE id = p_promo_code_id FOR UPDATE;
+
+    IF p_client_id IS NOT NULL THEN
+        DELETE FROM promo_code_redemptions
+        WHERE promo_code_id = p_promo_code_id AND client_id = p_client_id AND status = 'reserved';
+    END IF;
+
+    v_rejection := check_promo_code(p_promo_code_id, p_barber_id, p_client_id, p_service_ids, p_start);
+    IF v_rejection IS NOT NULL THEN
+        RETURN QUERY SELECT NULL::UUID, v_rejection;
+        RETURN;
+    END IF;
+
+    INSERT INTO promo_code_redemptions (promo_code_id, barber_id, client_id, discount_amount, funded_by, status, reserved_until)
+    VALUES (p_promo_code_id, p_barber_id, p_client_id, p_discount, p_funded_by, 'reserved', NOW() + INTERVAL '1 hour')
+    RETURNING id INTO v_redemption_id;
+
+    RETURN QUERY SELECT v_redemption_id, NULL::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION reserve_promo_code(UUID, UUID, UUID, UUID[], TIMESTAMPTZ, NUMERIC, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reserve_promo_code(UUID, UUID, UUID, UUID[], TIMESTAMPTZ, NUMERIC, TEXT) TO service_role;
+
+-- Step 7: One row per barber code, including codes nobody has used yet
+CREATE OR REPLACE FUNCTION get_promo_code_report(p_barber_id UUID)
+RETURNS TABLE (
+    promo_code_id UUID,
+    redemption_count INTEGER,
+    discount_total NUMERIC,
+    booking_total NUMERIC,
+    last_redeemed_at TIMESTAMPTZ
+) AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM barbers WHERE id = p_barber_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the barber can view their promo code report';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        promo.id,
+        COUNT(redemption.id)::INTEGER,
+        COALESCE(SUM(redemption.discount_amount), 0),
+        COALESCE(SUM(b.service_price + COALESCE(b.addon_total, 0) - b.discount_amount), 0),
+        MAX(redemption.created_at)
+    FROM promo_codes promo
+    LEFT JOIN promo_code_redemptions redemption ON redemption.promo_code_id = promo.id AND redemption.status = 'redeemed'
+    LEFT JOIN bookings b ON b.id = redemption.booking_id
+    WHERE promo.barber_id = p_barber_id
+    GROUP BY promo.id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_promo_code_report(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_promo_code_report(UUID) TO authenticated;
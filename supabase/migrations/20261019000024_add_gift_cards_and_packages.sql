@@ -0,0 +1,416 @@
+-- Gift cards and prepaid cut packages
+--
+-- Clients buy a gift card (a dollar balance) or a package ("5 cuts for the price of 4")
+-- from a barber's page. The payment goes to the barber's Connect account straight away,
+-- so every balance is money the barber already holds and still owes in cuts. Balances
+-- move only through the ledger; the remaining amount and visits on each balance are
+-- kept in step by a trigger.
+--
+-- 1. Gift card setting and the barber's packages
+-- 2. Prepaid balances
+-- 3. The ledger, and what a booking drew from a balance
+-- 4. Row level security
+-- 5. Look up and claim a balance
+-- 6. Hold and redeem credit at checkout
+-- 7. Outstanding balances for the barber
+
+-- Step 1: A package is a number of visits for one service, sold at a set price
+ALTER TABLE barbers
+    ADD COLUMN IF NOT EXISTS gift_cards_enabled BOOLEAN NOT NULL DEFAULT FALSE;
+
+CREATE TABLE IF NOT EXISTS barber_packages (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    barber_id UUID NOT NULL REFERENCES barbers(id) ON DELETE CASCADE,
+    service_id UUID NOT NULL REFERENCES services(id) ON DELETE CASCADE,
+    name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 80),
+    description TEXT,
+    visit_count INTEGER NOT NULL CHECK (visit_count BETWEEN 2 AND 20),
+    price NUMERIC(10,2) NOT NULL CHECK (price > 0),
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_barber_packages_barber ON barber_packages(barber_id) WHERE is_active;
+
+COMMENT ON COLUMN barbers.gift_cards_enabled IS 'Whether clients can buy gift cards from the barber''s page';
+COMMENT ON COLUMN barber_packages.price IS 'Dollars for every visit in the package together';
+
+-- Step 2: A balance is pending until the webhook sees the payment. A gift is owned by
+-- nobody until the recipient claims it with its code; a purchase for yourself is owned
+-- by the purchaser once paid
+CREATE TABLE IF NOT EXISTS prepaid_balances (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code TEXT NOT NULL UNIQUE DEFAULT UPPER(SUBSTR(REPLACE(gen_random_uuid()::TEXT, '-', ''), 1, 12)),
+    kind TEXT NOT NULL CHECK (kind IN ('gift_card', 'package')),
+    barber_id UUID NOT NULL REFERENCES barbers(id) ON DELETE CASCADE,
+    package_id UUID REFERENCES barber_packages(id) ON DELETE SET NULL,
+    service_id UUID REFERENCES services(id) ON DELETE SET NULL,
+    purchaser_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+    owner_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+    is_gift BOOLEAN NOT NULL DEFAULT FALSE,
+    recipient_name TEXT,
+    recipient_email TEXT,
+    message TEXT CHECK (char_length(message) <= 500),
+    purchase_amount NUMERIC(10,2) NOT NULL CHECK (purchase_amount > 0),
+    visit_count INTEGER CHECK (visit_count > 0),
+    amount_remaining NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (amount_remaining >= 0),
+    visits_remaining INTEGER NOT NULL DEFAULT 0 CHECK (visits_remaining >= 0),
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'void')),
+    payment_intent_id TEXT UNIQUE,
+    claimed_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT prepaid_balances_package_check CHECK (
+        (kind = 'gift_card' AND visit_count IS NULL)
+        OR (kind = 'package' AND visit_count IS NOT NULL AND service_id IS NOT NULL)
+    )
+);
+
+CREATE INDEX IF NOT EXISTS idx_prepaid_balances_owner ON prepaid_balances(owner_id, barber_id) WHERE status = 'active';
+CREATE INDEX IF NOT EXISTS idx_prepaid_balances_purchaser ON prepaid_balances(purchaser_id);
+CREATE INDEX IF NOT EXISTS idx_prepaid_balances_barber ON prepaid_balances(barber_id) WHERE status = 'active';
+
+COMMENT ON TABLE prepaid_balances IS 'Gift cards and packages; the code claims a gift and is also its link';
+COMMENT ON COLUMN prepaid_balances.amount_remaining IS 'Dollars not yet redeemed; for a package, the paid value of the visits left';
+
+-- Step 3: Every change to a balance is a ledger entry. Amounts are dollars, negative
+-- when redeemed; visits are set for packages only. A redemption is the credit the
+-- booking got; for a package, an adjustment next to it brings what the balance gives
+-- up back to the paid value of one visit. Entries drawn at checkout share a
+-- reservation_id and have no booking until the payment goes through
+CREATE TABLE IF NOT EXISTS prepaid_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    balance_id UUID NOT NULL REFERENCES prepaid_balances(id) ON DELETE CASCADE,
+    booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL,
+    reservation_id UUID,
+    entry_type TEXT NOT NULL CHECK (entry_type IN ('purchase', 'redemption', 'adjustment', 'refund')),
+    amount NUMERIC(10,2) NOT NULL,
+    visits INTEGER,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prepaid_ledger_balance ON prepaid_ledger(balance_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_prepaid_ledger_booking ON prepaid_ledger(booking_id) WHERE booking_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_prepaid_ledger_reservation ON prepaid_ledger(reservation_id) WHERE reservation_id IS NOT NULL;
+
+-- The balance checks refuse an entry that would overdraw it
+CREATE OR REPLACE FUNCTION apply_prepaid_ledger_entry()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE prepaid_balances
+    SET amount_remaining = amount_remaining + NEW.amount,
+        visits_remaining = visits_remaining + COALESCE(NEW.visits, 0),
+        updated_at = NOW()
+    WHERE id = NEW.balance_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS apply_prepaid_ledger_entry_trigger ON prepaid_ledger;
+CREATE TRIGGER apply_prepaid_ledger_entry_trigger
+    AFTER INSERT ON prepaid_ledger
+    FOR EACH ROW
+    EXECUTE FUNCTION apply_prepaid_ledger_entry();
+
+ALTER TABLE bookings
+    ADD COLUMN IF NOT EXISTS prepaid_balance_id UUID REFERENCES prepaid_balances(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS prepaid_credit NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (prepaid_credit >= 0);
+
+COMMENT ON COLUMN bookings.prepaid_credit IS 'Dollars of the services and add-ons covered by a gift card or package';
+
+-- A cancelled booking gives back what it drew from the balance
+CREATE OR REPLACE FUNCTION refund_prepaid_redemption()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO prepaid_ledger (balance_id, booking_id, entry_type, amount, visits)
+    SELECT balance_id, NEW.id, 'refund', -SUM(amount), -SUM(visits)
+    FROM prepaid_ledger
+    WHERE booking_id = NEW.id
+    GROUP BY balance_id
+    HAVING SUM(amount) < 0 OR COALESCE(SUM(visits), 0) < 0;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refund_prepaid_redemption_trigger ON bookings;
+CREATE TRIGGER refund_prepaid_redemption_trigger
+    AFTER UPDATE OF status ON bookings
+    FOR EACH ROW
+    WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' AND NEW.prepaid_balance_id IS NOT NULL)
+    EXECUTE FUNCTION refund_prepaid_redemption();
+
+-- Step 4: Anyone can see a barber's active packages. Balances are written by the
+-- purchase route and the webhook with the service role; the purchaser, the owner and
+-- the barber can read them
+ALTER TABLE barber_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prepaid_balances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prepaid_ledger ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active packages" ON barber_packages;
+CREATE POLICY "Anyone can view active packages" ON barber_packages
+    FOR SELECT USING (is_active OR barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Barbers can create packages" ON barber_packages;
+CREATE POLICY "Barbers can create packages" ON barber_packages
+    FOR INSERT WITH CHECK (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Barbers can update their packages" ON barber_packages;
+CREATE POLICY "Barbers can update their packages" ON barber_packages
+    FOR UPDATE USING (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()))
+    WITH CHECK (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Purchasers and owners can view their balances" ON prepaid_balances;
+CREATE POLICY "Purchasers and owners can view their balances" ON prepaid_balances
+    FOR SELECT USING (purchaser_id = auth.uid() OR owner_id = auth.uid());
+
+DROP POLICY IF EXISTS "Barbers can view balances they sold" ON prepaid_balances;
+CREATE POLICY "Barbers can view balances they sold" ON prepaid_balances
+    FOR SELECT USING (barber_id IN (SELECT id FROM barbers WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Balance holders can view its ledger" ON prepaid_ledger;
+CREATE POLICY "Balance holders can view its ledger" ON prepaid_ledger
+    FOR SELECT USING (balance_id IN (SELECT id FROM prepaid_balances));
+
+-- Step 5: find_prepaid_balance shows the claim page what a code is worth without
+-- exposing who bought it. claim_prepaid_balance gives an unclaimed gift to the caller
+CREATE OR REPLACE FUNCTION find_prepaid_balance(p_code TEXT)
+RETURNS TABLE (
+    id UUID,
+    kind TEXT,
+    barber_id UUID,
+    barber_name TEXT,
+    barber_username TEXT,
+    service_name TEXT,
+    recipient_name TEXT,
+    message TEXT,
+    purchase_amount NUMERIC,
+    visit_count INTEGER,
+    amount_remaining NUMERIC,
+    visits_remaining INTEGER,
+    status TEXT,
+    is_claimed BOOLEAN
+) AS $$
+    SELECT balance.id, balance.kind, balance.barber_id, profile.name, profile.username, service.name,
+        balance.recipient_name, balance.message, balance.purchase_amount, balance.visit_count,
+        balance.amount_remaining, balance.visits_remaining, balance.status, balance.owner_id IS NOT NULL
+    FROM prepaid_balances balance
+    JOIN barbers barber ON barber.id = balance.barber_id
+    JOIN profiles profile ON profile.id = barber.user_id
+    LEFT JOIN services service ON service.id = balance.service_id
+    WHERE balance.code = UPPER(TRIM(p_code));
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION claim_prepaid_balance(p_code TEXT)
+RETURNS prepaid_balances AS $$
+DECLARE
+    v_balance prepaid_balances;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'Sign in to claim this gift';
+    END IF;
+
+    SELECT * INTO v_balance FROM prepaid_balances WHERE code = UPPER(TRIM(p_code)) FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No gift card or package matches this code';
+    END IF;
+    IF v_balance.owner_id = auth.uid() THEN
+        RETURN v_balance;
+    END IF;
+    IF v_balance.owner_id IS NOT NULL THEN
+        RAISE EXCEPTION 'This gift has already been claimed';
+    END IF;
+    IF v_balance.status <> 'active' THEN
+        RAISE EXCEPTION 'This gift is not ready to claim yet';
+    END IF;
+
+    UPDATE prepaid_balances
+    SET owner_id = auth.uid(), claimed_at = NOW(), updated_at = NOW()
+    WHERE id = v_balance.id
+    RETURNING * INTO v_balance;
+
+    RETURN v_balance;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_prepaid_balance(TEXT) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION claim_prepaid_balance(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION claim_prepaid_balance(TEXT) TO authenticated;
+
+-- Step 6: Checkout draws the credit when it starts, so two checkouts cannot spend the
+-- same balance; the balance checks refuse a draw it cannot cover. The webhook gives
+-- the draw its booking once paid, and an expired, failed or cancelled checkout puts it
+-- back. A draw still unpaid after an hour is put back on a schedule.
+-- draw_prepaid_balance takes exactly p_credit (a gift card) or one visit credited at
+-- p_credit (a package), and returns 0 when the balance cannot cover it
+CREATE OR REPLACE FUNCTION draw_prepaid_balance(p_balance_id UUID, p_booking_id UUID, p_reservation_id UUID, p_credit NUMERIC)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_balance prepaid_balances;
+    v_visit_value NUMERIC;
+BEGIN
+    SELECT * INTO v_balance FROM prepaid_balances WHERE id = p_balance_id AND status = 'active' FOR UPDATE;
+    IF NOT FOUND OR p_credit <= 0 THEN
+        RETURN 0;
+    END IF;
+
+    IF v_balance.kind = 'package' THEN
+        IF v_balance.visits_remaining = 0 THEN
+            RETURN 0;
+        END IF;
+        -- The last visit takes whatever is left, so rounding never strands a cent
+        v_visit_value := CASE WHEN v_balance.visits_remaining = 1
+            THEN v_balance.amount_remaining
+            ELSE ROUND(v_balance.amount_remaining / v_balance.visits_remaining, 2) END;
+
+        -- Entries apply one at a time, so the one that raises the balance goes first
+        IF p_credit > v_visit_value THEN
+            INSERT INTO prepaid_ledger (balance_id, booking_id, reservation_id, entry_type, amount)
+            VALUES (p_balance_id, p_booking_id, p_reservation_id, 'adjustment', p_credit - v_visit_value);
+        END IF;
+        INSERT INTO prepaid_ledger (balance_id, booking_id, reservation_id, entry_type, amount, visits)
+        VALUES (p_balance_id, p_booking_id, p_reservation_id, 'redemption', -p_credit, -1);
+        IF p_credit < v_visit_value THEN
+            INSERT INTO prepaid_ledger (balance_id, booking_id, reservation_id, entry_type, amount)
+            VALUES (p_balance_id, p_booking_id, p_reservation_id, 'adjustment', p_credit - v_visit_value);
+        END IF;
+    ELSE
+        IF p_credit > v_balance.amount_remaining THEN
+            RETURN 0;
+        END IF;
+        INSERT INTO prepaid_ledger (balance_id, booking_id, reservation_id, entry_type, amount)
+        VALUES (p_balance_id, p_booking_id, p_reservation_id, 'redemption', -p_credit);
+    END IF;
+
+    RETURN p_credit;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts back a draw that never got its booking; safe to call more than once
+CREATE OR REPLACE FUNCTION release_prepaid_reservation(p_reservation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO prepaid_ledger (balance_id, reservation_id, entry_type, amount, visits)
+    SELECT balance_id, p_reservation_id, 'refund', -SUM(amount), -SUM(visits)
+    FROM prepaid_ledger
+    WHERE reservation_id = p_reservation_id AND booking_id IS NULL
+    GROUP BY balance_id
+    HAVING SUM(amount) < 0 OR COALESCE(SUM(visits), 0) < 0;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Run on a schedule: puts back draws held for over an hour without a booking, such as
+-- an in-app payment the client walked away from. A payment that lands later draws again
+CREATE OR REPLACE FUNCTION release_expired_prepaid_reservations()
+RETURNS INTEGER AS $$
+DECLARE
+    v_reservation_id UUID;
+    v_released INTEGER := 0;
+BEGIN
+    FOR v_reservation_id IN
+        SELECT reservation_id FROM prepaid_ledger
+        WHERE reservation_id IS NOT NULL AND booking_id IS NULL
+        GROUP BY reservation_id
+        HAVING MIN(created_at) < NOW() - INTERVAL '1 hour'
+            AND (SUM(amount) < 0 OR COALESCE(SUM(visits), 0) < 0)
+    LOOP
+        PERFORM release_prepaid_reservation(v_reservation_id);
+        v_released := v_released + 1;
+    END LOOP;
+
+    RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by checkout for the balance's owner. A client starting checkout again puts
+-- back their earlier draws on the balance that were never paid for
+CREATE OR REPLACE FUNCTION reserve_prepaid_balance(p_balance_id UUID, p_client_id UUID, p_credit NUMERIC)
+RETURNS UUID AS $$
+DECLARE
+    v_reservation_id UUID := gen_random_uuid();
+    v_earlier UUID;
+BEGIN
+    PERFORM 1 FROM prepaid_balances
+    WHERE id = p_balance_id AND owner_id = p_client_id AND status = 'active'
+    FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'This gift card or package cannot be used for this booking';
+    END IF;
+
+    FOR v_earlier IN
+        SELECT DISTINCT reservation_id FROM prepaid_ledger
+        WHERE balance_id = p_balance_id AND reservation_id IS NOT NULL AND booking_id IS NULL
+    LOOP
+        PERFORM release_prepaid_reservation(v_earlier);
+    END LOOP;
+
+    IF draw_prepaid_balance(p_balance_id, NULL, v_reservation_id, p_credit) = 0 THEN
+        RAISE EXCEPTION 'This gift card or package has nothing left to use on these services';
+    END IF;
+
+    RETURN v_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by the webhook once the booking is paid. A draw that was put back in the
+-- meantime is drawn again; returns what the balance covered, less than p_credit when
+-- it no longer could
+CREATE OR REPLACE FUNCTION redeem_prepaid_balance(p_balance_id UUID, p_booking_id UUID, p_credit NUMERIC, p_reservation_id UUID DEFAULT NULL)
+RETURNS NUMERIC AS $$
+DECLARE
+    v_attached INTEGER;
+BEGIN
+    IF p_reservation_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM prepaid_ledger WHERE reservation_id = p_reservation_id AND entry_type = 'refund'
+    ) THEN
+        UPDATE prepaid_ledger
+        SET booking_id = p_booking_id
+        WHERE reservation_id = p_reservation_id AND booking_id IS NULL;
+        GET DIAGNOSTICS v_attached = ROW_COUNT;
+
+        IF v_attached > 0 THEN
+            RETURN p_credit;
+        END IF;
+    END IF;
+
+    RETURN draw_prepaid_balance(p_balance_id, p_booking_id, NULL, p_credit);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION draw_prepaid_balance(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_prepaid_reservation(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_expired_prepaid_reservations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reserve_prepaid_balance(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION redeem_prepaid_balance(UUID, UUID, NUMERIC, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION release_prepaid_reservation(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION release_expired_prepaid_reservations() TO service_role;
+GRANT EXECUTE ON FUNCTION reserve_prepaid_balance(UUID, UUID, NUMERIC) TO service_role;
+GRANT EXECUTE ON FUNCTION redeem_prepaid_balance(UUID, UUID, NUMERIC, UUID) TO service_role;
+
+-- Step 7: What the barber has been paid for but not yet cut, across active balances
+CREATE OR REPLACE FUNCTION get_prepaid_liability(p_barber_id UUID)
+RETURNS TABLE (
+    gift_card_balance NUMERIC,
+    package_balance NUMERIC,
+    package_visits INTEGER,
+    open_balances INTEGER
+) AS $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM barbers WHERE id = p_barber_id AND user_id = auth.uid()) THEN
+        RAISE EXCEPTION 'Only the barber can view their outstanding balances';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        COALESCE(SUM(amount_remaining) FILTER (WHERE kind = 'gift_card'), 0),
+        COALESCE(SUM(amount_remaining) FILTER (WHERE kind = 'package'), 0),
+        COALESCE(SUM(visits_remaining) FILTER (WHERE kind = 'package'), 0)::INTEGER,
+        COUNT(*) FILTER (WHERE amount_remaining > 0 OR visits_remaining > 0)::INTEGER
+    FROM prepaid_balances
+    WHERE barber_id = p_barber_id AND status = 'active';
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_prepaid_liability(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_prepaid_liability(UUID) TO authenticated;